@@ -26,6 +26,9 @@ module.exports = {
     'lcov',
     'html'
   ],
+  setupFiles: [
+    '<rootDir>/src/__tests__/env.ts'
+  ],
   setupFilesAfterEnv: [
     // Temporarily disabled due to TypeScript type issues
     // '<rootDir>/src/__tests__/setup.ts'
@@ -0,0 +1,172 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Front-Running Score Calibration CLI
+ *
+ * Usage:
+ *   npm run calibrate:frontrun -- --days 30
+ *   npm run calibrate:frontrun -- --start 2024-01-01 --end 2024-02-01 --method platt
+ *   npm run calibrate:frontrun -- --days 60 --horizon 60 --threshold 2 --dry-run
+ */
+
+import { DatabaseManager } from '../src/data/database';
+import { FrontRunningCalibrator } from '../src/backtesting/FrontRunningCalibrator';
+import { CalibrationMethod, CalibrationReport } from '../src/statistics/ScoreCalibration';
+import * as fs from 'fs';
+
+interface CliArgs {
+  days?: number;
+  start?: string;
+  end?: string;
+  method?: CalibrationMethod;
+  horizon?: number;
+  threshold?: number;
+  dryRun?: boolean;
+  help?: boolean;
+}
+
+function parseArgs(): CliArgs {
+  const args: CliArgs = {};
+
+  for (let i = 2; i < process.argv.length; i++) {
+    const arg = process.argv[i];
+
+    switch (arg) {
+      case '--days':
+        args.days = parseInt(process.argv[++i]);
+        break;
+      case '--start':
+        args.start = process.argv[++i];
+        break;
+      case '--end':
+        args.end = process.argv[++i];
+        break;
+      case '--method':
+        args.method = process.argv[++i] as CalibrationMethod;
+        break;
+      case '--horizon':
+        args.horizon = parseFloat(process.argv[++i]);
+        break;
+      case '--threshold':
+        args.threshold = parseFloat(process.argv[++i]);
+        break;
+      case '--dry-run':
+        args.dryRun = true;
+        break;
+      case '--help':
+      case '-h':
+        args.help = true;
+        break;
+    }
+  }
+
+  return args;
+}
+
+function printHelp(): void {
+  console.log(`
+Polymarket Bot - Front-Running Score Calibration
+
+USAGE:
+  npm run calibrate:frontrun -- [OPTIONS]
+
+OPTIONS:
+  --days <number>          Fit on the last N days (default: 30)
+  --start <YYYY-MM-DD>     Start date
+  --end <YYYY-MM-DD>       End date (default: today)
+  --method <name>          isotonic | platt (default: isotonic, use platt for small samples)
+  --horizon <minutes>      Look-ahead window for the price move (default: 30)
+  --threshold <percent>    Absolute move that counts as a leak (default: 1.0)
+  --dry-run                Report the fit without saving it
+  --help, -h               Show this help message
+
+Stored front_running_scores are labeled with whether the market moved more than
+the threshold within the horizon. The fitted curve is saved to score_calibrations
+and applied to leakProbability the next time the bot starts.
+  `);
+}
+
+function printReport(label: string, report: CalibrationReport): void {
+  console.log(`${label}: Brier ${report.brierScore.toFixed(4)}`);
+  for (const bin of report.reliability) {
+    console.log(
+      `  ${bin.lower.toFixed(1)}-${bin.upper.toFixed(1)}`.padEnd(12) +
+      `n=${bin.count}`.padEnd(10) +
+      `predicted ${(bin.meanPredicted * 100).toFixed(1)}%`.padEnd(20) +
+      `observed ${(bin.observedRate * 100).toFixed(1)}%`
+    );
+  }
+  console.log('');
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs();
+
+  if (args.help) {
+    printHelp();
+    process.exit(0);
+  }
+
+  const methods: CalibrationMethod[] = ['isotonic', 'platt'];
+  if (args.method && !methods.includes(args.method)) {
+    console.error(`❌ Unknown method: ${args.method} (expected one of: ${methods.join(', ')})`);
+    process.exit(1);
+  }
+
+  console.log('🎯 Polymarket Bot - Front-Running Score Calibration\n');
+
+  const dbPath = process.env.SQLITE_PATH || './data/polymarket.db';
+
+  if (!fs.existsSync(dbPath)) {
+    console.error('❌ Database not found at:', dbPath);
+    console.error('   Make sure the bot has been running and collecting data.');
+    process.exit(1);
+  }
+
+  console.log('📂 Database:', dbPath);
+
+  const database = new DatabaseManager({
+    provider: 'sqlite',
+    database: dbPath
+  });
+  await database.initialize();
+
+  const endDate = args.end ? new Date(args.end) : new Date();
+  const startDate = args.start
+    ? new Date(args.start)
+    : new Date(endDate.getTime() - (args.days || 30) * 24 * 60 * 60 * 1000);
+
+  console.log('📅 Date Range:', startDate.toISOString().split('T')[0], 'to', endDate.toISOString().split('T')[0]);
+  console.log('');
+
+  const calibrator = new FrontRunningCalibrator(database);
+  const result = await calibrator.fit(startDate, endDate, args.method || 'isotonic', {
+    ...(args.horizon !== undefined && { horizonMinutes: args.horizon }),
+    ...(args.threshold !== undefined && { moveThresholdPct: args.threshold })
+  });
+
+  console.log('═'.repeat(100));
+  console.log(`FRONT-RUNNING CALIBRATION (${result.curve.method}, ${result.curve.sampleSize} scores)`);
+  console.log('═'.repeat(100));
+  console.log(`Base rate: ${(result.curve.baseRate * 100).toFixed(1)}%`);
+  console.log('');
+  printReport('Heuristic', result.uncalibrated);
+  printReport('Calibrated (in-sample)', result.calibrated);
+
+  if (args.dryRun) {
+    console.log('Dry run: calibration not saved');
+  } else {
+    await calibrator.save(result);
+    console.log('💾 Calibration saved. Restart the bot to apply it.');
+  }
+
+  await database.close();
+  console.log('');
+  console.log('✅ Calibration complete!');
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('\n❌ Error running calibration:', error);
+  process.exit(1);
+});
@@ -0,0 +1,141 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Learned Topic Clustering CLI
+ *
+ * Usage:
+ *   npm run cluster:topics                          # Fit clusters on stored active markets
+ *   npm run cluster:topics -- --threshold 0.25 --limit 1500
+ *   npm run cluster:topics -- --list                # Show the persisted clusters
+ */
+
+import { DatabaseManager } from '../src/data/database';
+import { DataAccessLayer } from '../src/data/DataAccessLayer';
+import { LearnedTopicCluster, LearnedTopicClusterer } from '../src/services/LearnedTopicClusterer';
+import * as fs from 'fs';
+
+interface CliArgs {
+  threshold?: number;
+  minSize?: number;
+  limit?: number;
+  list?: boolean;
+  help?: boolean;
+}
+
+function parseArgs(): CliArgs {
+  const args: CliArgs = {};
+
+  for (let i = 2; i < process.argv.length; i++) {
+    const arg = process.argv[i];
+
+    switch (arg) {
+      case '--threshold':
+        args.threshold = parseFloat(process.argv[++i]);
+        break;
+      case '--min-size':
+        args.minSize = parseInt(process.argv[++i]);
+        break;
+      case '--limit':
+        args.limit = parseInt(process.argv[++i]);
+        break;
+      case '--list':
+        args.list = true;
+        break;
+      case '--help':
+      case '-h':
+        args.help = true;
+        break;
+    }
+  }
+
+  return args;
+}
+
+function printHelp(): void {
+  console.log(`
+Polymarket Bot - Learned Topic Clustering
+
+USAGE:
+  npm run cluster:topics -- [OPTIONS]
+
+OPTIONS:
+  --threshold <0-1>        Cosine similarity needed to merge clusters (default: 0.3)
+  --min-size <number>      Smallest cluster kept (default: 2)
+  --limit <number>         Highest-volume active markets to cluster (default: 2000)
+  --list                   Show the persisted clusters without fitting
+  --help, -h               Show this help message
+
+Clusters are learned from market questions and descriptions (TF-IDF, agglomerative
+clustering on cosine similarity) without any network access. They are saved to the
+database and used by the bot alongside the keyword topic clusters. Set
+LEARNED_TOPIC_CLUSTERS=false to disable them in the bot.
+  `);
+}
+
+function printClusters(clusters: LearnedTopicCluster[]): void {
+  const sorted = [...clusters].sort((a, b) => b.marketCount - a.marketCount);
+  console.log('Cluster'.padEnd(36) + 'Markets'.padEnd(10) + 'Keywords');
+  console.log('-'.repeat(100));
+  for (const cluster of sorted) {
+    console.log(cluster.id.padEnd(36) + cluster.marketCount.toString().padEnd(10) + cluster.keywords.join(', '));
+  }
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs();
+
+  if (args.help) {
+    printHelp();
+    process.exit(0);
+  }
+
+  console.log('🧩 Polymarket Bot - Learned Topic Clustering\n');
+
+  const dbPath = process.env.SQLITE_PATH || './data/polymarket.db';
+
+  if (!fs.existsSync(dbPath)) {
+    console.error('❌ Database not found at:', dbPath);
+    console.error('   Make sure the bot has been running and collecting data.');
+    process.exit(1);
+  }
+
+  console.log('📂 Database:', dbPath);
+
+  const database = new DatabaseManager({
+    provider: 'sqlite',
+    database: dbPath
+  });
+  await database.initialize();
+
+  const clusterer = new LearnedTopicClusterer(database, {
+    ...(args.threshold !== undefined && { similarityThreshold: args.threshold, assignmentThreshold: args.threshold }),
+    ...(args.minSize !== undefined && { minClusterSize: args.minSize }),
+    ...(args.limit !== undefined && { maxMarkets: args.limit })
+  });
+  await clusterer.initialize();
+
+  if (args.list) {
+    const lastFit = clusterer.getLastFitTime();
+    console.log(`Last fit: ${lastFit ? new Date(lastFit).toISOString() : 'never'}\n`);
+    printClusters(clusterer.getClusters());
+  } else {
+    const markets = await new DataAccessLayer(database).getActiveMarkets(args.limit || 2000);
+    console.log(`📊 Clustering ${markets.length} active markets...\n`);
+
+    const result = await clusterer.fit(markets);
+    printClusters(result.clusters);
+    console.log('');
+    console.log(`Clusters: ${result.clusters.length} (${result.carriedOverIds} kept their previous id)`);
+    console.log(`Assigned markets: ${result.assignedMarkets}/${result.totalMarkets}`);
+  }
+
+  await database.close();
+  console.log('');
+  console.log('✅ Topic clustering complete!');
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('\n❌ Error running topic clustering:', error);
+  process.exit(1);
+});
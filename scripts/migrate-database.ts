@@ -9,6 +9,7 @@
  * - Opportunity scoring (Phase 4)
  * - Alert prioritization (Phase 5-6)
  * - System alerts tracking
+ * - Config version stamped on signals
  *
  * This script is idempotent - safe to run multiple times.
  */
@@ -111,6 +112,28 @@ function migrateMarketsTable(db: Database.Database): void {
   console.log(`✅ Markets table migration complete (${addedCount} columns added)`);
 }
 
+function migrateSignalsTable(db: Database.Database): void {
+  console.log('\n📡 Migrating signals table...');
+
+  if (!tableExists(db, 'signals')) {
+    console.log('⚠️  signals table does not exist - will be created by SchemaBuilder');
+    return;
+  }
+
+  if (getExistingColumns(db, 'signals').has('config_version')) {
+    console.log('  ⏭️  Column already exists: config_version');
+    return;
+  }
+
+  try {
+    db.prepare('ALTER TABLE signals ADD COLUMN config_version VARCHAR(64)').run();
+    console.log('  ✅ Added column: config_version');
+  } catch (error) {
+    console.error('  ❌ Failed to add column config_version:', error);
+    throw error;
+  }
+}
+
 function createSystemAlertsTable(db: Database.Database): void {
   console.log('\n🚨 Creating system_alerts table...');
 
@@ -212,6 +235,11 @@ function verifyMigration(db: Database.Database): void {
     throw new Error('Migration verification failed: missing columns');
   }
 
+  if (tableExists(db, 'signals') && !getExistingColumns(db, 'signals').has('config_version')) {
+    console.error('  ❌ Missing column: signals.config_version');
+    throw new Error('Migration verification failed: missing columns');
+  }
+
   // Check system_alerts table exists
   if (!tableExists(db, 'system_alerts')) {
     console.error('  ❌ system_alerts table does not exist');
@@ -250,6 +278,7 @@ function main(): void {
 
     // Run migrations
     migrateMarketsTable(db);
+    migrateSignalsTable(db);
     createSystemAlertsTable(db);
     createIndexes(db);
 
@@ -0,0 +1,188 @@
+#!/usr/bin/env ts-node
+
+/**
+ * WebSocket Feed Replay CLI
+ *
+ * Replays a feed recorded with WS_RECORD_FILE through the live detection stack
+ * (WebSocketService parsing -> MicrostructureDetector -> analyzers) without a connection.
+ *
+ * Usage:
+ *   npm run replay -- --file data/recordings/session.ndjson.gz
+ *   npm run replay -- --file session.ndjson.gz --speed 10
+ *   npm run replay -- --file session.ndjson.gz --speed 0 --output signals.json
+ */
+
+import { MicrostructureDetector } from '../src/services/MicrostructureDetector';
+import { FeedReplaySource } from '../src/services/FeedRecorder';
+import { configManager } from '../src/config/ConfigManager';
+import { BotConfig, EarlySignal } from '../src/types';
+import * as fs from 'fs';
+
+interface CliArgs {
+  file?: string;
+  speed?: number;
+  market?: string;
+  output?: string;
+  help?: boolean;
+}
+
+function parseArgs(): CliArgs {
+  const args: CliArgs = {};
+
+  for (let i = 2; i < process.argv.length; i++) {
+    const arg = process.argv[i];
+
+    switch (arg) {
+      case '--file':
+        args.file = process.argv[++i];
+        break;
+      case '--speed':
+        args.speed = parseFloat(process.argv[++i]);
+        break;
+      case '--market':
+        args.market = process.argv[++i];
+        break;
+      case '--output':
+        args.output = process.argv[++i];
+        break;
+      case '--help':
+      case '-h':
+        args.help = true;
+        break;
+    }
+  }
+
+  return args;
+}
+
+function printHelp(): void {
+  console.log(`
+Polymarket Bot - WebSocket Feed Replay
+
+USAGE:
+  npm run replay -- --file <path> [OPTIONS]
+
+OPTIONS:
+  --file <path>            Recorded feed (written when WS_RECORD_FILE is set)
+  --speed <number>         Playback speed: 1 = real time, 10 = 10x, 0 = as fast as possible (default: 0)
+  --market <id>            Only report signals for this market
+  --output <path>          Save emitted signals to file (JSON format)
+  --help, -h               Show this help message
+
+EXAMPLES:
+  # Record a live session
+  WS_RECORD_FILE=data/recordings/session.ndjson.gz npm run dev
+
+  # Replay it as fast as possible
+  npm run replay -- --file data/recordings/session.ndjson.gz
+
+  # Reproduce one market's alerts at 10x speed
+  npm run replay -- --file session.ndjson.gz --speed 10 --market 0xabc... --output signals.json
+  `);
+}
+
+function buildBotConfig(): BotConfig {
+  const systemConfig = configManager.getConfig();
+
+  return {
+    checkIntervalMs: systemConfig.detection.markets.refreshIntervalMs,
+    minVolumeThreshold: systemConfig.detection.markets.minVolumeThreshold,
+    maxMarketsToTrack: systemConfig.detection.markets.maxMarketsToTrack,
+    logLevel: systemConfig.environment.logLevel,
+    apiUrls: {
+      clob: process.env.CLOB_API_URL || 'https://clob.polymarket.com',
+      gamma: process.env.GAMMA_API_URL || 'https://gamma-api.polymarket.com',
+    },
+    microstructure: {
+      orderbookImbalanceThreshold: systemConfig.detection.microstructure.orderbookImbalance.threshold,
+      spreadAnomalyThreshold: systemConfig.detection.microstructure.spreadAnomaly?.threshold || 1.0,
+      liquidityShiftThreshold: systemConfig.detection.microstructure.liquidityShift?.threshold || 12,
+      tickBufferSize: systemConfig.performance.memory.maxRingBufferSize,
+    },
+    discord: {
+      webhookUrl: undefined, // Never alert from a replay
+      enableRichEmbeds: false,
+      alertRateLimit: systemConfig.detection.alerts.discordRateLimit,
+    },
+  };
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs();
+
+  if (args.help || !args.file) {
+    printHelp();
+    // ConfigManager's file watcher would otherwise keep the process alive
+    process.exit(args.help ? 0 : 1);
+  }
+
+  if (!fs.existsSync(args.file)) {
+    console.error('❌ Recording not found at:', args.file);
+    process.exit(1);
+  }
+
+  console.log('📼 Polymarket Bot - WebSocket Feed Replay\n');
+  console.log('📂 Recording:', args.file);
+  console.log('⏩ Speed:', args.speed ? `${args.speed}x` : 'as fast as possible');
+  console.log('');
+
+  const detector = new MicrostructureDetector(buildBotConfig());
+  const signals: EarlySignal[] = [];
+
+  detector.onSignal((signal) => {
+    if (args.market && signal.marketId !== args.market) return;
+    signals.push(signal);
+  });
+
+  const source = new FeedReplaySource(args.file, { speed: args.speed ?? 0 });
+  const stats = await detector.replayFeed(source);
+
+  // Summarize signals by type
+  const byType = new Map<string, number>();
+  for (const signal of signals) {
+    byType.set(signal.signalType, (byType.get(signal.signalType) || 0) + 1);
+  }
+
+  console.log('═'.repeat(60));
+  console.log('REPLAY SUMMARY');
+  console.log('═'.repeat(60));
+  console.log(`Messages replayed:  ${stats.messages} (${stats.skipped} skipped)`);
+  if (stats.firstTimestamp > 0) {
+    console.log(`Session window:     ${new Date(stats.firstTimestamp).toISOString()} → ${new Date(stats.lastTimestamp).toISOString()}`);
+  }
+  console.log(`Signals emitted:    ${signals.length}`);
+  for (const [type, count] of Array.from(byType.entries()).sort((a, b) => b[1] - a[1])) {
+    console.log(`  ${type.padEnd(28)} ${count}`);
+  }
+
+  if (args.output) {
+    const outputData = {
+      recording: args.file,
+      replayedAt: new Date().toISOString(),
+      stats,
+      signals: signals.map(signal => ({
+        marketId: signal.marketId,
+        signalType: signal.signalType,
+        confidence: signal.confidence,
+        timestamp: signal.timestamp,
+        metadata: signal.metadata,
+      })),
+    };
+
+    fs.writeFileSync(args.output, JSON.stringify(outputData, null, 2));
+    console.log(`\n📄 Signals saved to: ${args.output}`);
+  }
+
+  await detector.stop();
+  console.log('');
+  console.log('✅ Replay complete!');
+
+  // ConfigManager's file watcher keeps the event loop alive
+  process.exit(0);
+}
+
+// Run the CLI
+main().catch(error => {
+  console.error('\n❌ Error running replay:', error);
+  process.exit(1);
+});
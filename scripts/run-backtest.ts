@@ -9,10 +9,14 @@
  *   npm run backtest -- --all                        # Compare all signal types
  *   npm run backtest -- --start 2024-01-01 --end 2024-02-01  # Custom date range
  *   npm run backtest -- --stats                      # Show data statistics only
+ *   npm run backtest -- --event-driven --days 7      # Regenerate signals from stored order books
+ *   npm run backtest -- --event-driven --config-at 2024-01-15  # With the config live on that date
  */
 
 import { DatabaseManager } from '../src/data/database';
 import { BacktestOrchestrator, BacktestConfig } from '../src/backtesting/BacktestOrchestrator';
+import { configManager } from '../src/config/ConfigManager';
+import { BotConfig } from '../src/types';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -29,6 +33,11 @@ interface CliArgs {
   stopLoss?: number;
   takeProfit?: number;
   output?: string;
+  impactModel?: BacktestConfig['marketImpactModel'];
+  eventDriven?: boolean;
+  markets?: string[];
+  configAt?: string;
+  configVersion?: string;
   help?: boolean;
 }
 
@@ -75,6 +84,21 @@ function parseArgs(): CliArgs {
       case '--output':
         args.output = process.argv[++i];
         break;
+      case '--impact':
+        args.impactModel = process.argv[++i] as BacktestConfig['marketImpactModel'];
+        break;
+      case '--event-driven':
+        args.eventDriven = true;
+        break;
+      case '--markets':
+        args.markets = process.argv[++i].split(',').map(id => id.trim()).filter(Boolean);
+        break;
+      case '--config-at':
+        args.configAt = process.argv[++i];
+        break;
+      case '--config-version':
+        args.configVersion = process.argv[++i];
+        break;
       case '--help':
       case '-h':
         args.help = true;
@@ -105,6 +129,14 @@ OPTIONS:
   --kelly                  Use Kelly criterion for position sizing
   --stop-loss <pct>        Stop loss percentage (optional)
   --take-profit <pct>      Take profit percentage (optional)
+  --impact <model>         Market impact model: none, linear, square_root, orderbook, kyle_lambda (default: square_root)
+                           'orderbook' walks stored snapshot depth for VWAP fills and partial fills
+
+  --event-driven           Regenerate signals by replaying orderbook_snapshots and trade_ticks
+                           through the live detectors instead of using recorded signals
+  --markets <id,id,...>    Event-driven only: limit the replay to these markets
+  --config-at <date>       Run with the config that was live at this date (ISO or epoch ms)
+  --config-version <id>    Run with a stored config version (see npm run config history)
 
   --output <path>          Save report to file (JSON format)
   --help, -h               Show this help message
@@ -127,15 +159,77 @@ EXAMPLES:
 
   # Show data statistics
   npm run backtest -- --stats --days 60
+
+  # Price fills against stored order book depth
+  npm run backtest -- --days 30 --impact orderbook
+
+  # Backtest the current detector code against stored order books
+  npm run backtest -- --event-driven --days 7
+
+  # Replay with the thresholds that were live at the start of the range
+  npm run backtest -- --event-driven --start 2024-01-15 --end 2024-01-22 --config-at 2024-01-15
   `);
 }
 
+/**
+ * Pin ConfigManager to a stored version. Detectors read their thresholds from
+ * it, so this has to happen before the orchestrator creates them.
+ */
+function useHistoricalConfig(args: CliArgs): void {
+  let version = args.configVersion;
+
+  if (args.configAt) {
+    const time = /^\d+$/.test(args.configAt) ? Number(args.configAt) : Date.parse(args.configAt);
+    const entry = Number.isFinite(time) ? configManager.getConfigVersionAt(time) : null;
+    if (!entry) {
+      console.error(`❌ No configuration version recorded at ${args.configAt}`);
+      process.exit(1);
+    }
+    version = entry.version;
+  }
+  if (!version) return;
+
+  try {
+    const entry = configManager.useConfigVersion(version);
+    console.log(`🗂️  Config version ${entry.version} (live from ${entry.createdAt}, ${entry.source} by ${entry.author})`);
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+function buildBotConfig(): BotConfig {
+  const systemConfig = configManager.getConfig();
+
+  return {
+    checkIntervalMs: systemConfig.detection.markets.refreshIntervalMs,
+    minVolumeThreshold: systemConfig.detection.markets.minVolumeThreshold,
+    maxMarketsToTrack: systemConfig.detection.markets.maxMarketsToTrack,
+    logLevel: systemConfig.environment.logLevel,
+    apiUrls: {
+      clob: process.env.CLOB_API_URL || 'https://clob.polymarket.com',
+      gamma: process.env.GAMMA_API_URL || 'https://gamma-api.polymarket.com',
+    },
+    microstructure: {
+      orderbookImbalanceThreshold: systemConfig.detection.microstructure.orderbookImbalance.threshold,
+      spreadAnomalyThreshold: systemConfig.detection.microstructure.spreadAnomaly?.threshold || 1.0,
+      liquidityShiftThreshold: systemConfig.detection.microstructure.liquidityShift?.threshold || 12,
+      tickBufferSize: systemConfig.performance.memory.maxRingBufferSize,
+    },
+    discord: {
+      webhookUrl: undefined, // Never alert from a backtest
+      enableRichEmbeds: false,
+      alertRateLimit: systemConfig.detection.alerts.discordRateLimit,
+    },
+  };
+}
+
 async function main(): Promise<void> {
   const args = parseArgs();
 
   if (args.help) {
     printHelp();
-    return;
+    process.exit(0);
   }
 
   console.log('🚀 Polymarket Bot - Backtesting Engine\n');
@@ -157,7 +251,8 @@ async function main(): Promise<void> {
   });
   await database.initialize();
 
-  const orchestrator = new BacktestOrchestrator(database);
+  useHistoricalConfig(args);
+  const orchestrator = new BacktestOrchestrator(database, buildBotConfig());
 
   // Determine date range
   const endDate = args.end ? new Date(args.end) : new Date();
@@ -198,6 +293,12 @@ async function main(): Promise<void> {
     process.exit(0);
   }
 
+  const impactModels = ['none', 'linear', 'square_root', 'orderbook', 'kyle_lambda'];
+  if (args.impactModel && !impactModels.includes(args.impactModel)) {
+    console.error(`❌ Unknown impact model: ${args.impactModel} (expected one of: ${impactModels.join(', ')})`);
+    process.exit(1);
+  }
+
   // Build backtest configuration
   const config: BacktestConfig = {
     startDate,
@@ -205,6 +306,8 @@ async function main(): Promise<void> {
     signalTypes: args.signal ? [args.signal] : undefined,
     minConfidence: 0.5,
     resolvedOnly: false,
+    signalSource: args.eventDriven ? 'event_driven' : 'recorded',
+    marketIds: args.markets,
 
     initialCapital: args.capital || 10000,
     maxPositionSizePct: args.positionSize || 10,
@@ -213,7 +316,7 @@ async function main(): Promise<void> {
 
     slippageBps: 20,
     feeBps: 200,
-    marketImpactModel: 'square_root',
+    marketImpactModel: args.impactModel || 'square_root',
 
     stopLossPct: args.stopLoss,
     takeProfitPct: args.takeProfit,
@@ -224,9 +327,10 @@ async function main(): Promise<void> {
   };
 
   console.log('⚙️  Configuration:');
+  console.log(`   Signal Source: ${config.signalSource === 'event_driven' ? 'event-driven replay of stored order books' : 'recorded signals'}`);
   console.log(`   Initial Capital: $${config.initialCapital.toLocaleString()}`);
   console.log(`   Position Sizing: ${config.useKellyCriterion ? 'Kelly Criterion' : 'Fixed'} (${config.maxPositionSizePct}% max)`);
-  console.log(`   Fees: ${config.feeBps / 100}% | Slippage: ${config.slippageBps / 100}%`);
+  console.log(`   Fees: ${config.feeBps / 100}% | Slippage: ${config.slippageBps / 100}% | Impact: ${config.marketImpactModel}`);
   if (config.stopLossPct) console.log(`   Stop Loss: ${config.stopLossPct}%`);
   if (config.takeProfitPct) console.log(`   Take Profit: ${config.takeProfitPct}%`);
   console.log('');
@@ -245,6 +349,7 @@ async function main(): Promise<void> {
     if (args.output) {
       const outputData = {
         config,
+        configVersion: configManager.getConfigVersion(),
         timestamp: new Date().toISOString(),
         reports: Array.from(reports.entries()).map(([type, report]) => ({
           signalType: type,
@@ -285,6 +390,10 @@ async function main(): Promise<void> {
     console.log('Costs:');
     console.log(`  Total Fees: $${report.summary.totalFees.toFixed(2)}`);
     console.log(`  Total Slippage: $${report.summary.totalSlippage.toFixed(2)}`);
+    console.log(`  Avg Realized Slippage: ${report.summary.avgRealizedSlippageBps.toFixed(1)} bps (round trip)`);
+    if (config.marketImpactModel === 'orderbook') {
+      console.log(`  Partial Fills: ${report.summary.partialFills}/${report.summary.signalsTraded}`);
+    }
     console.log('');
 
     console.log('Final Capital: $' + report.summary.finalCapital.toFixed(2));
@@ -317,6 +426,7 @@ async function main(): Promise<void> {
     if (args.output) {
       const outputData = {
         config,
+        configVersion: configManager.getConfigVersion(),
         timestamp: new Date().toISOString(),
         report
       };
@@ -330,6 +440,9 @@ async function main(): Promise<void> {
   await database.close();
   console.log('');
   console.log('✅ Backtest complete!');
+
+  // ConfigManager's file watcher keeps the event loop alive
+  process.exit(0);
 }
 
 // Run the CLI
@@ -79,6 +79,7 @@ WHAT THIS VALIDATES:
   - Lead time (how early we detected movements before they happened)
   - False positive rate (% of signals with no movement)
   - Optimal threshold recommendations
+  - Probability calibration (Brier score, reliability diagram) of stored scores
 
 This helps tune the front-running detection parameters for better performance.
   `);
@@ -152,7 +153,8 @@ async function main(): Promise<void> {
         avgMovement1hr: metrics.avgMovement1hr,
         byThreshold: Array.from(metrics.byThreshold.entries()).map(([, stats]) => stats),
         byConfidence: metrics.byConfidence,
-        recommendations: metrics.recommendations
+        recommendations: metrics.recommendations,
+        calibration: metrics.calibration
       }
     };
 
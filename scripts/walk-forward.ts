@@ -0,0 +1,342 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Walk-Forward Optimization CLI
+ *
+ * Usage:
+ *   npm run walk-forward -- --days 60 --param microstructure.orderbookImbalance.threshold=0.2,0.3,0.4
+ *   npm run walk-forward -- --train 14 --test 7 --objective return --param ... --param ...
+ *   npm run walk-forward -- --days 90 --param ... --export-preset wf-imbalance   # Save as a config preset
+ */
+
+import { DatabaseManager } from '../src/data/database';
+import { BacktestConfig } from '../src/backtesting/BacktestOrchestrator';
+import {
+  WalkForwardConfig,
+  WalkForwardObjective,
+  WalkForwardOptimizer,
+  WalkForwardParameter,
+  WALK_FORWARD_TUNABLE_PATHS
+} from '../src/backtesting/WalkForwardOptimizer';
+import { configManager } from '../src/config/ConfigManager';
+import { BotConfig } from '../src/types';
+import * as fs from 'fs';
+
+interface CliArgs {
+  days?: number;
+  start?: string;
+  end?: string;
+  train?: number;
+  test?: number;
+  step?: number;
+  params: string[];
+  objective?: WalkForwardObjective;
+  minTrades?: number;
+  markets?: string[];
+  capital?: number;
+  positionSize?: number;
+  impactModel?: BacktestConfig['marketImpactModel'];
+  exportPreset?: string;
+  output?: string;
+  help?: boolean;
+}
+
+function parseArgs(): CliArgs {
+  const args: CliArgs = { params: [] };
+
+  for (let i = 2; i < process.argv.length; i++) {
+    const arg = process.argv[i];
+
+    switch (arg) {
+      case '--days':
+        args.days = parseInt(process.argv[++i]);
+        break;
+      case '--start':
+        args.start = process.argv[++i];
+        break;
+      case '--end':
+        args.end = process.argv[++i];
+        break;
+      case '--train':
+        args.train = parseFloat(process.argv[++i]);
+        break;
+      case '--test':
+        args.test = parseFloat(process.argv[++i]);
+        break;
+      case '--step':
+        args.step = parseFloat(process.argv[++i]);
+        break;
+      case '--param':
+        args.params.push(process.argv[++i]);
+        break;
+      case '--objective':
+        args.objective = process.argv[++i] as WalkForwardObjective;
+        break;
+      case '--min-trades':
+        args.minTrades = parseInt(process.argv[++i]);
+        break;
+      case '--markets':
+        args.markets = process.argv[++i].split(',').map(id => id.trim()).filter(Boolean);
+        break;
+      case '--capital':
+        args.capital = parseFloat(process.argv[++i]);
+        break;
+      case '--position-size':
+        args.positionSize = parseFloat(process.argv[++i]);
+        break;
+      case '--impact':
+        args.impactModel = process.argv[++i] as BacktestConfig['marketImpactModel'];
+        break;
+      case '--export-preset':
+        args.exportPreset = process.argv[++i];
+        break;
+      case '--output':
+        args.output = process.argv[++i];
+        break;
+      case '--help':
+      case '-h':
+        args.help = true;
+        break;
+    }
+  }
+
+  return args;
+}
+
+function printHelp(): void {
+  console.log(`
+Polymarket Bot - Walk-Forward Optimization
+
+USAGE:
+  npm run walk-forward -- --param <path>=<v1,v2,...> [OPTIONS]
+
+OPTIONS:
+  --days <number>          Use the last N days of history (default: 60)
+  --start <YYYY-MM-DD>     Start of history
+  --end <YYYY-MM-DD>       End of history (default: today)
+  --train <days>           Train window length (default: 14)
+  --test <days>            Out-of-sample test window length (default: 7)
+  --step <days>            Roll the windows forward by this much (default: --test)
+
+  --param <path>=<values>  Threshold to tune and its candidate values (repeatable)
+                           Tunable: ${WALK_FORWARD_TUNABLE_PATHS.join('\n                                    ')}
+  --objective <name>       Train-window score: sharpe, return, win_rate (default: sharpe)
+  --min-trades <number>    Minimum train trades for a candidate to be eligible (default: 5)
+  --markets <id,id,...>    Limit the replay to these markets
+
+  --capital <number>       Initial capital (default: 10000)
+  --position-size <pct>    Max position size as % of capital (default: 10)
+  --impact <model>         Market impact model: none, linear, square_root, orderbook, kyle_lambda (default: square_root)
+
+  --export-preset <name>   Save the recommended thresholds as a config preset
+  --output <path>          Save the full result to file (JSON format)
+  --help, -h               Show this help message
+
+EXAMPLES:
+  # Tune the imbalance threshold on 14-day windows, test on the following 7 days
+  npm run walk-forward -- --days 60 --param microstructure.orderbookImbalance.threshold=0.2,0.3,0.4
+
+  # Tune two thresholds and save the result as a preset
+  npm run walk-forward -- --days 90 \\
+    --param microstructure.orderbookImbalance.threshold=0.2,0.3 \\
+    --param microstructure.liquidityShift.threshold=8,12,16 \\
+    --export-preset wf-microstructure
+
+  # Apply the exported preset
+  npm run config preset wf-microstructure
+  `);
+}
+
+function parseParameter(spec: string): WalkForwardParameter {
+  const [parameterPath, values] = spec.split('=');
+  if (!parameterPath || !values) {
+    throw new Error(`Invalid --param "${spec}" (expected <path>=<v1,v2,...>)`);
+  }
+
+  return {
+    path: parameterPath.trim(),
+    values: values.split(',').map(v => parseFloat(v.trim()))
+  };
+}
+
+function buildBotConfig(): BotConfig {
+  const systemConfig = configManager.getConfig();
+
+  return {
+    checkIntervalMs: systemConfig.detection.markets.refreshIntervalMs,
+    minVolumeThreshold: systemConfig.detection.markets.minVolumeThreshold,
+    maxMarketsToTrack: systemConfig.detection.markets.maxMarketsToTrack,
+    logLevel: systemConfig.environment.logLevel,
+    apiUrls: {
+      clob: process.env.CLOB_API_URL || 'https://clob.polymarket.com',
+      gamma: process.env.GAMMA_API_URL || 'https://gamma-api.polymarket.com',
+    },
+    microstructure: {
+      orderbookImbalanceThreshold: systemConfig.detection.microstructure.orderbookImbalance.threshold,
+      spreadAnomalyThreshold: systemConfig.detection.microstructure.spreadAnomaly?.threshold || 1.0,
+      liquidityShiftThreshold: systemConfig.detection.microstructure.liquidityShift?.threshold || 12,
+      tickBufferSize: systemConfig.performance.memory.maxRingBufferSize,
+    },
+    discord: {
+      webhookUrl: undefined, // Never alert from a backtest
+      enableRichEmbeds: false,
+      alertRateLimit: systemConfig.detection.alerts.discordRateLimit,
+    },
+  };
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs();
+
+  if (args.help) {
+    printHelp();
+    process.exit(0);
+  }
+
+  if (args.params.length === 0) {
+    console.error('❌ At least one --param is required (see --help)');
+    process.exit(1);
+  }
+
+  const objectives: WalkForwardObjective[] = ['sharpe', 'return', 'win_rate'];
+  if (args.objective && !objectives.includes(args.objective)) {
+    console.error(`❌ Unknown objective: ${args.objective} (expected one of: ${objectives.join(', ')})`);
+    process.exit(1);
+  }
+
+  console.log('🚀 Polymarket Bot - Walk-Forward Optimization\n');
+
+  const dbPath = process.env.SQLITE_PATH || './data/polymarket.db';
+
+  if (!fs.existsSync(dbPath)) {
+    console.error('❌ Database not found at:', dbPath);
+    console.error('   Make sure the bot has been running and collecting data.');
+    process.exit(1);
+  }
+
+  console.log('📂 Database:', dbPath);
+
+  const database = new DatabaseManager({
+    provider: 'sqlite',
+    database: dbPath
+  });
+  await database.initialize();
+
+  const endDate = args.end ? new Date(args.end) : new Date();
+  const startDate = args.start
+    ? new Date(args.start)
+    : new Date(endDate.getTime() - (args.days || 60) * 24 * 60 * 60 * 1000);
+
+  const config: WalkForwardConfig = {
+    startDate,
+    endDate,
+    trainDays: args.train || 14,
+    testDays: args.test || 7,
+    stepDays: args.step,
+    parameters: args.params.map(parseParameter),
+    objective: args.objective || 'sharpe',
+    minTrainTrades: args.minTrades,
+    marketIds: args.markets,
+
+    backtest: {
+      minConfidence: 0.5,
+      resolvedOnly: false,
+
+      initialCapital: args.capital || 10000,
+      maxPositionSizePct: args.positionSize || 10,
+      useKellyCriterion: false,
+      kellyFraction: 0.25,
+
+      slippageBps: 20,
+      feeBps: 200,
+      marketImpactModel: args.impactModel || 'square_root',
+      maxConcurrentPositions: 10,
+
+      defaultExitWindowHours: 24,
+      useActualResolutions: true
+    }
+  };
+
+  console.log('📅 Date Range:', startDate.toISOString().split('T')[0], 'to', endDate.toISOString().split('T')[0]);
+  console.log(`   Windows: ${config.trainDays}d train / ${config.testDays}d test, step ${config.stepDays || config.testDays}d`);
+  console.log(`   Objective: ${config.objective}`);
+  for (const parameter of config.parameters) {
+    console.log(`   ${parameter.path}: ${parameter.values.join(', ')}`);
+  }
+  console.log('');
+
+  const optimizer = new WalkForwardOptimizer(database, buildBotConfig());
+
+  console.log('🔬 Running walk-forward optimization...\n');
+  const result = await optimizer.run(config);
+
+  console.log('═'.repeat(100));
+  console.log('WALK-FORWARD RESULTS');
+  console.log('═'.repeat(100));
+  console.log('');
+
+  console.log('Folds:');
+  console.log('-'.repeat(100));
+  for (const fold of result.folds) {
+    const values = Object.values(fold.parameters).map(v => v.toString()).join(', ');
+    console.log(
+      `  #${(fold.index + 1).toString().padEnd(3)} ` +
+      `test ${fold.testStart.toISOString().split('T')[0]} → ${fold.testEnd.toISOString().split('T')[0]}  ` +
+      `params [${values}]${fold.usedFallback ? ' (fallback)' : ''}  ` +
+      `train ${fold.train.score.toFixed(2)} (${fold.train.trades} trades)  ` +
+      `test ${fold.test.totalReturnPct.toFixed(2)}% (${fold.test.trades} trades)`
+    );
+  }
+  console.log('');
+
+  console.log('Out-of-Sample (stitched test windows):');
+  console.log(`  Trades: ${result.outOfSample.trades}`);
+  console.log(`  Total Return: ${result.outOfSample.totalReturnPct.toFixed(2)}%`);
+  console.log(`  Sharpe Ratio: ${result.outOfSample.sharpeRatio.toFixed(2)}`);
+  console.log(`  Max Drawdown: ${result.outOfSample.maxDrawdown.toFixed(2)}%`);
+  console.log(`  Win Rate: ${(result.outOfSample.winRate * 100).toFixed(1)}%`);
+  console.log(`  Final Capital: $${result.outOfSample.finalCapital.toFixed(2)}`);
+  console.log('');
+
+  console.log('Parameter Stability:');
+  console.log('-'.repeat(100));
+  for (const stability of result.stability) {
+    console.log(
+      `  ${stability.path.padEnd(48)} ` +
+      `mode ${stability.mode} (${(stability.modeFrequency * 100).toFixed(0)}% of folds), ` +
+      `CV ${stability.coefficientOfVariation.toFixed(2)}, ` +
+      `${stability.changes} changes`
+    );
+  }
+  console.log('');
+
+  console.log('Recommended (latest train window):');
+  for (const [parameterPath, value] of Object.entries(result.recommended)) {
+    console.log(`  ${parameterPath} = ${value}`);
+  }
+  console.log('');
+  console.log('═'.repeat(100));
+
+  if (args.exportPreset) {
+    const presetPath = optimizer.exportPreset(result, args.exportPreset);
+    console.log(`\n💾 Preset saved to: ${presetPath}`);
+    console.log(`   Apply with: npm run config preset ${args.exportPreset}`);
+  }
+
+  if (args.output) {
+    fs.writeFileSync(args.output, JSON.stringify({ timestamp: new Date().toISOString(), ...result }, null, 2));
+    console.log(`\n📄 Result saved to: ${args.output}`);
+  }
+
+  await database.close();
+  console.log('');
+  console.log('✅ Walk-forward optimization complete!');
+
+  // ConfigManager's file watcher keeps the event loop alive
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('\n❌ Error running walk-forward optimization:', error);
+  process.exit(1);
+});
@@ -0,0 +1,9 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Keep ConfigManager's version history out of the working tree
+process.env.CONFIG_HISTORY_PATH = path.join(
+  fs.mkdtempSync(path.join(os.tmpdir(), 'config-history-')),
+  'versions.jsonl'
+);
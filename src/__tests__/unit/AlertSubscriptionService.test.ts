@@ -0,0 +1,237 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { DatabaseManager } from '../../data/database';
+import { AlertDecision, AlertManager } from '../../services/AlertManager';
+import {
+  AlertSubscriptionService,
+  isWithinQuietHours,
+  redactSubscription,
+  SubscriptionValidationError
+} from '../../services/AlertSubscriptionService';
+import { AlertPriority, EarlySignal, MarketTier } from '../../types';
+
+/**
+ * AlertSubscriptionService Tests
+ *
+ * Covers subscription persistence and validation, filter matching, and the
+ * per-subscription fan-out in AlertManager with independent cooldowns and
+ * hourly caps.
+ */
+describe('AlertSubscriptionService', () => {
+  let database: DatabaseManager;
+  let service: AlertSubscriptionService;
+
+  const slack = { type: 'slack' as const, url: 'https://hooks.slack.com/services/T/B/secret' };
+
+  const signal = (overrides: Partial<EarlySignal['market']> = {}, signalOverrides: Partial<EarlySignal> = {}): EarlySignal => ({
+    marketId: overrides.id || 'market_1',
+    market: {
+      id: 'market_1',
+      question: 'Will the Fed cut rates?',
+      outcomes: ['Yes', 'No'],
+      outcomePrices: ['0.4', '0.6'],
+      volume: '50000',
+      volumeNum: 50000,
+      active: true,
+      closed: false,
+      endDate: '2024-03-01T00:00:00Z',
+      category: 'fed',
+      tier: MarketTier.ACTIVE,
+      ...overrides,
+    },
+    signalType: 'volume_spike',
+    confidence: 0.8,
+    timestamp: Date.now(),
+    metadata: {},
+    ...signalOverrides,
+  });
+
+  const decision = (overrides: Partial<AlertDecision> = {}): AlertDecision => ({
+    shouldAlert: true,
+    priority: AlertPriority.HIGH,
+    reason: 'Alert approved',
+    adjustedScore: 75,
+    rateLimitStatus: { allowed: true, hourlyCount: 0, maxPerHour: 10, cooldownRemaining: 0 },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    database = new DatabaseManager({ provider: 'sqlite', database: ':memory:' });
+    await database.initialize();
+    service = new AlertSubscriptionService(database);
+    await service.initialize();
+  });
+
+  afterEach(async () => {
+    await database.close();
+  });
+
+  describe('persistence', () => {
+    test('should store subscriptions and reload them', async () => {
+      const created = await service.create({
+        name: 'alice',
+        destination: slack,
+        filters: { categories: ['fed'], minOpportunityScore: 60 },
+        maxPerHour: 5,
+      });
+
+      const reloaded = new AlertSubscriptionService(database);
+      await reloaded.initialize();
+
+      expect(reloaded.list()).toHaveLength(1);
+      expect(reloaded.get(created.id)).toMatchObject({
+        name: 'alice',
+        destination: slack,
+        filters: { categories: ['fed'], minOpportunityScore: 60 },
+        cooldownMinutes: 30,
+        maxPerHour: 5,
+        enabled: true,
+      });
+    });
+
+    test('should merge filter updates and clear filters set to null', async () => {
+      const created = await service.create({
+        name: 'bob',
+        destination: slack,
+        filters: { categories: ['politics'], quietHours: { start: '22:00', end: '07:00' } },
+      });
+
+      const updated = await service.update(created.id, { filters: { minConfidence: 0.7, quietHours: null }, enabled: false });
+
+      expect(updated?.filters).toEqual({ categories: ['politics'], minConfidence: 0.7 });
+      expect(updated?.enabled).toBe(false);
+      expect(service.getActiveSubscriptions()).toHaveLength(0);
+
+      expect(await service.remove(created.id)).toBe(true);
+      expect(await service.update(created.id, { name: 'gone' })).toBeNull();
+    });
+
+    test('should reject invalid filters and destinations', async () => {
+      const create = (overrides: object) => service.create({ name: 'carol', destination: slack, ...overrides });
+
+      await expect(create({ filters: { categories: ['sportz'] } })).rejects.toThrow('Unknown categories: sportz');
+      await expect(create({ filters: { signalTypes: ['moon_shot'] } })).rejects.toThrow('Unknown signal types: moon_shot');
+      await expect(create({ filters: { tiers: ['gold'] } })).rejects.toThrow('Unknown tiers: gold');
+      await expect(create({ filters: { minConfidence: 2 } })).rejects.toThrow('minConfidence must be between 0 and 1');
+      await expect(create({ filters: { quietHours: { start: '25:00', end: '07:00' } } })).rejects.toThrow('HH:MM');
+      await expect(create({ filters: { quietHours: { start: '22:00', end: '07:00', timezone: 'Mars/Base' } } }))
+        .rejects.toThrow('Unknown timezone');
+      await expect(create({ destination: { type: 'telegram', botToken: 'x' } })).rejects.toThrow(SubscriptionValidationError);
+      await expect(create({ maxPerHour: 0 })).rejects.toThrow('maxPerHour must be a positive integer');
+
+      // A redacted destination read back from the API cannot be saved as-is
+      const created = await create({});
+      await expect(service.update(created.id, { destination: redactSubscription(created).destination }))
+        .rejects.toThrow('masked values');
+
+      expect(service.list()).toHaveLength(1);
+    });
+  });
+
+  describe('isWithinQuietHours', () => {
+    test('should handle windows across midnight in the subscriber timezone', () => {
+      const quiet = { start: '22:00', end: '07:00', timezone: 'America/New_York' };
+
+      expect(isWithinQuietHours(quiet, Date.parse('2024-06-01T03:30:00Z'))).toBe(true);  // 23:30 EDT
+      expect(isWithinQuietHours(quiet, Date.parse('2024-06-01T10:59:00Z'))).toBe(true);  // 06:59 EDT
+      expect(isWithinQuietHours(quiet, Date.parse('2024-06-01T11:00:00Z'))).toBe(false); // 07:00 EDT
+      expect(isWithinQuietHours({ start: '09:00', end: '17:00' }, Date.parse('2024-06-01T12:00:00Z'))).toBe(true);
+    });
+  });
+
+  describe('AlertManager fan-out', () => {
+    let alertManager: AlertManager;
+
+    beforeEach(() => {
+      alertManager = new AlertManager();
+    });
+
+    test('should apply each subscription filter', async () => {
+      const fed = await service.create({ name: 'fed', destination: slack, filters: { categories: ['fed'] } });
+      const flow = await service.create({ name: 'flow', destination: slack, filters: { signalTypes: ['front_running_detected'] } });
+      const strict = await service.create({ name: 'strict', destination: slack, filters: { minConfidence: 0.9, minOpportunityScore: 50 } });
+      const watchlist = await service.create({ name: 'watchlist', destination: slack, filters: { tiers: [MarketTier.WATCHLIST] } });
+      const night = await service.create({
+        name: 'night',
+        destination: slack,
+        filters: { quietHours: { start: '00:00', end: '23:59' } },
+      });
+
+      const results = alertManager.evaluateSubscriptions(signal(), decision(), service.getActiveSubscriptions(), Date.parse('2024-06-01T12:00:00Z'));
+      const byId = new Map(results.map(r => [r.subscription.id, r]));
+
+      expect(byId.get(fed.id)?.shouldAlert).toBe(true);
+      expect(byId.get(flow.id)?.reason).toBe('Signal type volume_spike not subscribed');
+      expect(byId.get(strict.id)?.reason).toBe('Confidence 0.80 below 0.9');
+      expect(byId.get(watchlist.id)?.reason).toBe('Tier active not subscribed');
+      expect(byId.get(night.id)?.reason).toBe('Quiet hours 00:00-23:59');
+    });
+
+    test('should keep cooldowns and hourly caps per subscription', async () => {
+      const capped = await service.create({ name: 'capped', destination: slack, maxPerHour: 1, cooldownMinutes: 0 });
+      const cooled = await service.create({ name: 'cooled', destination: slack, maxPerHour: 10, cooldownMinutes: 60 });
+      const subscriptions = service.getActiveSubscriptions();
+      const now = Date.now();
+
+      alertManager.recordSubscriptionAlert(capped.id, 'market_1', now);
+      alertManager.recordSubscriptionAlert(cooled.id, 'market_1', now);
+
+      // Another market: the cap blocks "capped", the per-market cooldown does not block "cooled"
+      const otherMarket = alertManager.evaluateSubscriptions(signal({ id: 'market_2' }), decision(), subscriptions, now + 1000);
+      expect(otherMarket.map(r => [r.subscription.name, r.shouldAlert])).toEqual([['capped', false], ['cooled', true]]);
+      expect(otherMarket[0].reason).toBe('Subscription rate limit exceeded: 1/1 per hour');
+
+      // Same market: "cooled" is in cooldown
+      const sameMarket = alertManager.evaluateSubscriptions(signal(), decision(), subscriptions, now + 1000);
+      expect(sameMarket[1].reason).toMatch(/Subscription cooldown active: 60min remaining/);
+
+      // After an hour both are clear again
+      const later = alertManager.evaluateSubscriptions(signal(), decision(), subscriptions, now + 61 * 60 * 1000);
+      expect(later.every(r => r.shouldAlert)).toBe(true);
+    });
+
+    test('should fan out past global limits but not past quality checks', async () => {
+      await service.create({ name: 'alice', destination: slack });
+      const subscriptions = service.getActiveSubscriptions();
+
+      const rateLimited = decision({ shouldAlert: false, blockedBy: 'rate_limit' });
+      expect(alertManager.evaluateSubscriptions(signal(), rateLimited, subscriptions)[0].shouldAlert).toBe(true);
+
+      const lowQuality = decision({ shouldAlert: false, blockedBy: 'quality' });
+      expect(alertManager.evaluateSubscriptions(signal(), lowQuality, subscriptions)).toEqual([]);
+    });
+  });
+
+  describe('deliver', () => {
+    test('should send to each subscription destination', async () => {
+      const received: string[] = [];
+      const server = http.createServer((req, res) => {
+        received.push(req.url || '');
+        req.resume();
+        res.writeHead(200).end('ok');
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+      const alice = await service.create({ name: 'alice', destination: { type: 'webhook', url: `${baseUrl}/alice` } });
+      const bob = await service.create({ name: 'bob', destination: { type: 'discord', url: `${baseUrl}/bob` } });
+      await service.create({ name: 'carol', destination: { type: 'webhook', url: `${baseUrl}/carol` } });
+
+      const result = await service.deliver({
+        title: 'HIGH OPPORTUNITY',
+        description: 'Will the Fed cut rates?',
+        priority: AlertPriority.HIGH,
+        signalType: 'volume_spike',
+        marketId: 'market_1',
+        marketQuestion: 'Will the Fed cut rates?',
+        fields: [],
+        timestamp: Date.now(),
+      }, [alice.id, bob.id, 'unknown']);
+
+      expect(result.delivered.sort()).toEqual([alice.id, bob.id].sort());
+      expect(received.sort()).toEqual(['/alice', '/bob']);
+
+      await new Promise(resolve => server.close(resolve));
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { DatabaseManager } from '../../data/database';
+import { DataAccessLayer } from '../../data/DataAccessLayer';
+import { AnalyzerCheckpointService } from '../../services/AnalyzerCheckpointService';
+import { EnhancedMicrostructureAnalyzer } from '../../services/EnhancedMicrostructureAnalyzer';
+import { OrderFlowAnalyzer } from '../../services/OrderFlowAnalyzer';
+import { BotConfig, OrderbookData } from '../../types';
+
+/**
+ * AnalyzerCheckpointService Tests
+ *
+ * Covers checkpointing per-market analyzer state, warm-starting fresh analyzers
+ * from it, expiring old checkpoints, and rebuilding baselines from stored
+ * orderbook snapshots and microstructure metrics when no checkpoint exists.
+ */
+describe('AnalyzerCheckpointService', () => {
+  let database: DatabaseManager;
+  let dataLayer: DataAccessLayer;
+
+  const config: BotConfig = {
+    checkIntervalMs: 30000,
+    minVolumeThreshold: 10000,
+    maxMarketsToTrack: 100,
+    logLevel: 'info',
+    apiUrls: {
+      clob: 'https://clob.polymarket.com',
+      gamma: 'https://gamma-api.polymarket.com',
+    },
+    microstructure: {
+      orderbookImbalanceThreshold: 0.3,
+      spreadAnomalyThreshold: 2.0,
+      liquidityShiftThreshold: 20,
+      tickBufferSize: 1000,
+    },
+    discord: {
+      webhookUrl: undefined,
+      enableRichEmbeds: true,
+      alertRateLimit: 10,
+    },
+  };
+
+  const start = Date.UTC(2025, 0, 6, 12, 0, 0);
+  const sampleTime = (n: number) => start + n * 30000;
+
+  // Spread and bid size cycle so the baselines have some variance
+  const orderbook = (marketId: string, n: number): OrderbookData => {
+    const bestBid = 0.48 - (n % 3) * 0.01;
+    const bestAsk = 0.52 + (n % 2) * 0.01;
+    const bidSize = 100 + (n % 5) * 20;
+    return {
+      marketId,
+      timestamp: sampleTime(n),
+      bids: [{ price: bestBid, size: bidSize, volume: bestBid * bidSize }],
+      asks: [{ price: bestAsk, size: 100, volume: bestAsk * 100 }],
+      spread: bestAsk - bestBid,
+      midPrice: (bestBid + bestAsk) / 2,
+      bestBid,
+      bestAsk,
+    };
+  };
+
+  const createService = (enhanced: EnhancedMicrostructureAnalyzer, orderFlow: OrderFlowAnalyzer) => {
+    const service = new AnalyzerCheckpointService(dataLayer);
+    service.register('microstructure', enhanced);
+    service.register('order_flow', orderFlow);
+    return service;
+  };
+
+  beforeEach(async () => {
+    database = new DatabaseManager({ provider: 'sqlite', database: ':memory:' });
+    await database.initialize();
+    dataLayer = new DataAccessLayer(database);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await database.close();
+  });
+
+  test('should warm-start fresh analyzers to the checkpointed baselines', async () => {
+    const enhanced = new EnhancedMicrostructureAnalyzer(config);
+    const orderFlow = new OrderFlowAnalyzer(config);
+    enhanced.setMarketCloseTime('m1', start + 24 * 60 * 60 * 1000);
+    for (let n = 0; n < 40; n++) {
+      enhanced.processOrderbook(orderbook('m1', n));
+      orderFlow.analyzeOrderFlow(orderbook('m1', n));
+    }
+
+    expect(await createService(enhanced, orderFlow).checkpoint(sampleTime(40))).toBe(2);
+
+    const restoredEnhanced = new EnhancedMicrostructureAnalyzer(config);
+    const restoredOrderFlow = new OrderFlowAnalyzer(config);
+    const result = await createService(restoredEnhanced, restoredOrderFlow).warmStart(undefined, sampleTime(41));
+    expect(result).toMatchObject({ restoredCheckpoints: 2, restoredMarkets: 1 });
+
+    expect(restoredOrderFlow.exportMarketState('m1')).toEqual(orderFlow.exportMarketState('m1'));
+
+    // The next orderbook scores the same as if the process had never restarted
+    const expected = enhanced.processOrderbook(orderbook('m1', 40))!;
+    const actual = restoredEnhanced.processOrderbook(orderbook('m1', 40))!;
+    expect(actual.spreadZScore).toBeCloseTo(expected.spreadZScore, 10);
+    expect(actual.depthZScore).toBeCloseTo(expected.depthZScore, 10);
+    expect(actual.spreadChange).toBeCloseTo(expected.spreadChange, 10);
+    expect(actual.regime).toEqual({ timeToClose: 'final_48h', dayType: 'weekday', epoch: 0 });
+  });
+
+  test('should ignore and delete expired checkpoints', async () => {
+    const enhanced = new EnhancedMicrostructureAnalyzer(config);
+    enhanced.processOrderbook(orderbook('m1', 0));
+    const service = createService(enhanced, new OrderFlowAnalyzer(config));
+    const maxAge = service.getConfig().maxCheckpointAgeMs;
+
+    await service.checkpoint(start);
+    const restored = new EnhancedMicrostructureAnalyzer(config);
+    const result = await createService(restored, new OrderFlowAnalyzer(config)).warmStart(undefined, start + maxAge + 60000);
+
+    expect(result.restoredCheckpoints).toBe(0);
+    expect(restored.exportMarketState('m1')).toBeNull();
+
+    await createService(new EnhancedMicrostructureAnalyzer(config), new OrderFlowAnalyzer(config)).checkpoint(start + maxAge + 60000);
+    expect(await dataLayer.getAnalyzerCheckpoints(0)).toEqual([]);
+  });
+
+  test('should only checkpoint once the interval has passed', async () => {
+    const service = createService(new EnhancedMicrostructureAnalyzer(config), new OrderFlowAnalyzer(config));
+    const interval = service.getConfig().checkpointIntervalMs;
+
+    expect(await service.checkpointIfDue(start)).toBe(true);
+    expect(await service.checkpointIfDue(start + interval - 1)).toBe(false);
+    expect(await service.checkpointIfDue(start + interval)).toBe(true);
+  });
+
+  test('should rebuild markets without a checkpoint from stored orderbooks and metrics', async () => {
+    for (const marketId of ['m1', 'm2', 'm3']) {
+      await dataLayer.saveMarket({
+        id: marketId, question: `Market ${marketId}?`, outcomes: ['Yes', 'No'], outcomePrices: ['0.5', '0.5'],
+        volume: '50000', volumeNum: 50000, active: true, closed: false
+      });
+    }
+
+    // m1 has a checkpoint, m2 only orderbook history, m3 only stored metrics
+    const live = new EnhancedMicrostructureAnalyzer(config);
+    live.processOrderbook(orderbook('m1', 0));
+    await createService(live, new OrderFlowAnalyzer(config)).checkpoint(sampleTime(0));
+
+    for (let n = 0; n < 5; n++) {
+      await dataLayer.saveOrderbook(orderbook('m1', n));
+      await dataLayer.saveOrderbook(orderbook('m2', n));
+      const metrics = live.processOrderbook(orderbook('m1', n))!;
+      await dataLayer.saveMicrostructureMetrics({ ...metrics, marketId: 'm3' });
+    }
+
+    const enhanced = new EnhancedMicrostructureAnalyzer(config);
+    const orderFlow = new OrderFlowAnalyzer(config);
+    const rebuilder = {
+      replayOrderbook: jest.fn((book: OrderbookData) => {
+        enhanced.processOrderbook(book);
+        orderFlow.analyzeOrderFlow(book);
+      }),
+      seedFromMetrics: jest.fn((metrics) => enhanced.seedFromMetrics(metrics))
+    };
+
+    const loadSnapshots = jest.spyOn(dataLayer, 'getOrderbookSnapshotsInRange');
+    const result = await createService(enhanced, orderFlow).warmStart(rebuilder, sampleTime(10));
+
+    expect(result).toEqual({ restoredCheckpoints: 1, restoredMarkets: 1, rebuiltFromOrderbooks: 1, seededFromMetrics: 1 });
+    // Snapshots are loaded per market, skipping markets restored from checkpoints
+    expect(loadSnapshots.mock.calls.map(([, , marketIds]) => marketIds)).toEqual([['m2']]);
+    expect(rebuilder.replayOrderbook).toHaveBeenCalledTimes(5);
+    expect(rebuilder.replayOrderbook.mock.calls.every(([book]) => book.marketId === 'm2')).toBe(true);
+    expect(enhanced.exportMarketState('m1')!.buffers.spread).toHaveLength(1);
+    expect(enhanced.exportMarketState('m2')!.buffers.spread).toHaveLength(5);
+    expect(orderFlow.exportMarketState('m2')!.flowHistory).toHaveLength(5);
+    expect(enhanced.exportMarketState('m3')!.statistics!.buffers.spread).toHaveLength(5);
+  });
+});
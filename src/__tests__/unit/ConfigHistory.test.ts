@@ -0,0 +1,216 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConfigHistory, ConfigVersion } from '../../config/ConfigHistory';
+import { configManager, SystemConfig } from '../../config/ConfigManager';
+import { DatabaseManager } from '../../data/database';
+import { DataAccessLayer } from '../../data/DataAccessLayer';
+import { EarlySignal, MarketTier } from '../../types';
+
+/**
+ * ConfigHistory Tests
+ *
+ * Covers the versions ConfigManager records for updates, presets and
+ * rollbacks, diffs between versions, looking up the version live at a time,
+ * pinning a version for backtests and the version stamped on saved signals.
+ */
+describe('ConfigHistory', () => {
+  let tempDir: string;
+  let history: ConfigHistory;
+  let originalConfigPath: string;
+  let originalHistory: ConfigHistory;
+  let originalConfig: SystemConfig;
+
+  const multiplier = (value: number) => ({
+    detection: { signals: { volumeSpike: { multiplier: value } } }
+  } as any);
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-history-'));
+    history = new ConfigHistory(path.join(tempDir, 'history', 'versions.jsonl'));
+
+    originalConfigPath = (configManager as any).configPath;
+    originalHistory = (configManager as any).history;
+    originalConfig = (configManager as any).config;
+    (configManager as any).configPath = path.join(tempDir, 'detection-config.json');
+    (configManager as any).history = history;
+  });
+
+  afterEach(() => {
+    (configManager as any).configPath = originalConfigPath;
+    (configManager as any).history = originalHistory;
+    (configManager as any).config = originalConfig;
+    (configManager as any).pinnedVersion = undefined;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should record each change as a version with its author, source and diff', () => {
+    configManager.updateConfig(multiplier(3.5), { author: 'alice' });
+    const first = configManager.getConfigVersion();
+    configManager.updateConfig(multiplier(4.5), { author: 'bob', note: 'Fewer volume alerts' });
+    configManager.updateConfig(multiplier(4.5), { author: 'bob' }); // No change, no new version
+
+    const [latest, previous] = configManager.getConfigHistory();
+    expect(configManager.getConfigHistory()).toHaveLength(2);
+    expect(previous).toMatchObject({ version: first, parentVersion: null, source: 'update', author: 'alice', changes: [] });
+    expect(latest).toMatchObject({
+      version: configManager.getConfigVersion(),
+      parentVersion: first,
+      source: 'update',
+      author: 'bob',
+      note: 'Fewer volume alerts',
+      changes: [{ path: 'detection.signals.volumeSpike.multiplier', from: 3.5, to: 4.5 }]
+    });
+    expect(configManager.findConfigVersion(latest.version)!.config.detection.signals.volumeSpike.multiplier).toBe(4.5);
+  });
+
+  test('should record presets and diff any two versions', () => {
+    configManager.applyPreset('conservative', { author: 'alice' });
+    const conservative = configManager.getConfigVersion();
+    configManager.applyPreset('aggressive', { author: 'alice' });
+    const aggressive = configManager.getConfigVersion();
+
+    expect(configManager.findConfigVersion(aggressive)).toMatchObject({ source: 'preset', note: 'Preset aggressive' });
+
+    const changes = configManager.diffConfigVersions(conservative, aggressive);
+    expect(changes).toContainEqual({ path: 'detection.signals.volumeSpike.multiplier', from: 5.0, to: 2.0 });
+    expect(changes).toContainEqual({ path: 'detection.signals.priceMovement.percentageThreshold', from: 15, to: 5 });
+    expect(changes.every(change => change.path.startsWith('detection.'))).toBe(true);
+    expect(configManager.diffConfigVersions(aggressive, aggressive)).toEqual([]);
+    expect(() => configManager.diffConfigVersions(conservative, 'deadbeef0000')).toThrow('Unknown config version: deadbeef0000');
+  });
+
+  test('should roll back to a previous version as a new version', () => {
+    configManager.updateConfig(multiplier(3.5));
+    const target = configManager.getConfigVersion();
+    configManager.updateConfig(multiplier(6));
+
+    const entry = configManager.rollbackConfig(target, { author: 'carol' });
+
+    expect(configManager.getDetectionThresholds().signals.volumeSpike.multiplier).toBe(3.5);
+    expect(configManager.getConfigVersion()).toBe(target);
+    expect(entry).toMatchObject({
+      version: target,
+      source: 'rollback',
+      author: 'carol',
+      note: `Rollback to ${target}`,
+      changes: [{ path: 'detection.signals.volumeSpike.multiplier', from: 6, to: 3.5 }]
+    });
+    expect(configManager.getConfigHistory().map(version => version.source)).toEqual(['rollback', 'update', 'update']);
+    expect(() => configManager.rollbackConfig(target)).toThrow('already live');
+  });
+
+  test('should find the version live at a time and skip partially written lines', () => {
+    const version = (id: string, createdAt: string): ConfigVersion => ({
+      version: id,
+      parentVersion: null,
+      createdAt,
+      source: 'update',
+      author: 'alice',
+      changes: [],
+      config: configManager.getConfig()
+    });
+    history.append(version('aaaaaaaaaaaa', '2025-01-01T00:00:00.000Z'));
+    history.append(version('bbbbbbbbbbbb', '2025-01-10T00:00:00.000Z'));
+    fs.appendFileSync(path.join(tempDir, 'history', 'versions.jsonl'), '{"version":"cccc');
+
+    expect(history.list()).toHaveLength(2);
+    expect(configManager.getConfigVersionAt(Date.parse('2024-12-31T00:00:00Z'))).toBeNull();
+    expect(configManager.getConfigVersionAt(Date.parse('2025-01-05T00:00:00Z'))!.version).toBe('aaaaaaaaaaaa');
+    expect(configManager.getConfigVersionAt(Date.parse('2025-01-10T00:00:00Z'))!.version).toBe('bbbbbbbbbbbb');
+  });
+
+  test('should store changes between snapshots and rebuild any version from them', () => {
+    const filePath = path.join(tempDir, 'compact', 'versions.jsonl');
+    const compact = new ConfigHistory(filePath, { snapshotInterval: 3 });
+    (configManager as any).history = compact;
+
+    const versions: string[] = [];
+    for (let i = 1; i <= 7; i++) {
+      configManager.updateConfig(multiplier(i + 1));
+      versions.push(configManager.getConfigVersion());
+    }
+
+    const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(line => 'snapshot' in line)).toEqual([true, false, false, true, false, false, true]);
+    expect(lines.every(line => !('config' in line))).toBe(true);
+
+    // Read back through a fresh index, as another process would
+    const reader = new ConfigHistory(filePath, { snapshotInterval: 3 });
+    versions.forEach((version, i) => {
+      expect(reader.get(version)!.config.detection.signals.volumeSpike.multiplier).toBe(i + 2);
+    });
+    expect(reader.get(versions[5])!.config).toEqual(configManager.findConfigVersion(versions[5])!.config);
+
+    // Lines appended by the other instance are picked up incrementally
+    configManager.updateConfig(multiplier(9));
+    expect(reader.latest()!.version).toBe(configManager.getConfigVersion());
+    expect(reader.list()).toHaveLength(8);
+  });
+
+  test('should drop the oldest versions beyond maxVersions, starting from a snapshot', () => {
+    const filePath = path.join(tempDir, 'capped', 'versions.jsonl');
+    (configManager as any).history = new ConfigHistory(filePath, { maxVersions: 10, snapshotInterval: 20 });
+
+    for (let i = 2; i <= 62; i++) {
+      configManager.updateConfig(multiplier(i));
+    }
+
+    const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(lines).toHaveLength(10);
+    expect(lines[0].snapshot.detection.signals.volumeSpike.multiplier).toBe(53);
+
+    const reader = new ConfigHistory(filePath);
+    expect(reader.list()).toHaveLength(10);
+    expect(reader.latest()!.config.detection.signals.volumeSpike.multiplier).toBe(62);
+  });
+
+  test('should pin a stored version for backtests without saving or recording it', () => {
+    configManager.updateConfig(multiplier(3.5));
+    const historical = configManager.getConfigVersion();
+    configManager.updateConfig(multiplier(6));
+    const saved = fs.readFileSync(path.join(tempDir, 'detection-config.json'), 'utf8');
+
+    configManager.useConfigVersion(historical);
+
+    expect(configManager.getDetectionThresholds().signals.volumeSpike.multiplier).toBe(3.5);
+    expect(configManager.getConfigVersion()).toBe(historical);
+    expect(() => configManager.updateConfig(multiplier(7))).toThrow(`pinned to version ${historical}`);
+    expect(fs.readFileSync(path.join(tempDir, 'detection-config.json'), 'utf8')).toBe(saved);
+    expect(configManager.getConfigHistory()).toHaveLength(2);
+  });
+
+  test('should stamp the config version on saved signals', async () => {
+    const database = new DatabaseManager({ provider: 'sqlite', database: ':memory:' });
+    await database.initialize();
+    const dataLayer = new DataAccessLayer(database);
+
+    try {
+      const signal: EarlySignal = {
+        marketId: 'market_1',
+        market: {
+          id: 'market_1',
+          question: 'Will the Fed cut rates?',
+          outcomes: ['Yes', 'No'],
+          outcomePrices: ['0.42', '0.58'],
+          volume: '50000',
+          volumeNum: 50000,
+          active: true,
+          closed: false,
+          tier: MarketTier.ACTIVE
+        },
+        signalType: 'volume_spike',
+        confidence: 0.82,
+        timestamp: Date.now(),
+        configVersion: configManager.getConfigVersion()
+      };
+      const signalId = await dataLayer.saveSignal(signal);
+
+      const { signal: saved } = (await dataLayer.getSignalExplanation(signalId))!;
+      expect(saved.configVersion).toBe(signal.configVersion);
+      expect((await dataLayer.getSignals('market_1'))[0].configVersion).toBe(signal.configVersion);
+    } finally {
+      await database.close();
+    }
+  });
+});
@@ -1,4 +1,5 @@
 import { EnhancedMicrostructureAnalyzer } from '../../services/EnhancedMicrostructureAnalyzer';
+import { classifyRegime } from '../../statistics/StatisticalModels';
 import { BotConfig, OrderbookData } from '../../types';
 
 /**
@@ -6,7 +7,8 @@ import { BotConfig, OrderbookData } from '../../types';
  *
  * Tests for the EnhancedMicrostructureAnalyzer, focusing on the spread-to-bps
  * conversion fix. Verifies that spreadBps is calculated correctly using
- * spread * 10000 instead of (spread / midPrice) * 10000.
+ * spread * 10000 instead of (spread / midPrice) * 10000. Also covers
+ * regime-segmented baselines and dropping them with a stale market.
  */
 describe('EnhancedMicrostructureAnalyzer', () => {
   let analyzer: EnhancedMicrostructureAnalyzer;
@@ -280,4 +282,68 @@ describe('EnhancedMicrostructureAnalyzer', () => {
       expect(metrics2!.spreadChange).toBeGreaterThan(0);
     });
   });
+
+  describe('Regime-aware baselines', () => {
+    const monday = Date.parse('2024-06-03T12:00:00Z');
+    const hour = 60 * 60 * 1000;
+
+    test('should classify time to close and weekday/weekend', () => {
+      expect(classifyRegime(monday, monday + 24 * hour)).toEqual({ timeToClose: 'final_48h', dayType: 'weekday', epoch: 0 });
+      expect(classifyRegime(monday, monday + 5 * 24 * hour, 2)).toEqual({ timeToClose: 'final_week', dayType: 'weekday', epoch: 2 });
+      expect(classifyRegime(monday - 24 * hour, monday + 30 * 24 * hour).dayType).toBe('weekend');
+      expect(classifyRegime(monday, monday + 30 * 24 * hour).timeToClose).toBe('long_dated');
+      expect(classifyRegime(monday).timeToClose).toBe('unknown');
+    });
+
+    test('should expose the active regime in metrics', () => {
+      analyzer.setMarketCloseTime('regime_market', monday + 24 * hour);
+      const orderbook = createOrderbook(0.49, 0.51, 'regime_market');
+      orderbook.timestamp = monday;
+
+      expect(analyzer.processOrderbook(orderbook)!.regime).toEqual({ timeToClose: 'final_48h', dayType: 'weekday', epoch: 0 });
+      expect(analyzer.getMarketRegime('regime_market')!.timeToClose).toBe('final_48h');
+    });
+
+    test('should start a new epoch after a structural break and compare against it', () => {
+      const process = (sample: number, bid: number, ask: number) => {
+        const orderbook = createOrderbook(bid, ask, 'break_market');
+        orderbook.timestamp = monday + sample * 30000;
+        return analyzer.processOrderbook(orderbook)!;
+      };
+
+      let metrics = process(0, 0.4375, 0.5625);
+      for (let i = 1; i < 180; i++) metrics = process(i, 0.4375, 0.5625);
+      expect(metrics.regime!.epoch).toBe(0);
+
+      // Spread widens from 1250 to 2500 bps and stays there (binary-exact prices)
+      for (let i = 180; i < 240; i++) metrics = process(i, 0.375, 0.625);
+      expect(metrics.regime!.epoch).toBe(1);
+      // Until the new epoch has enough samples the whole window is the baseline
+      expect(metrics.spreadZScore).toBeGreaterThan(0);
+
+      for (let i = 240; i < 270; i++) metrics = process(i, 0.375, 0.625);
+      expect(metrics.regime!.epoch).toBe(1);
+      expect(metrics.spreadZScore).toBe(0);
+    });
+
+    test('should drop regime baselines with the rest of a stale market', () => {
+      const process = (sample: number) => {
+        const orderbook = createOrderbook(0.49, 0.51, 'stale_market');
+        orderbook.timestamp = monday + sample * 30000;
+        analyzer.processOrderbook(orderbook);
+      };
+      analyzer.setMarketCloseTime('stale_market', monday + 24 * hour);
+
+      for (let i = 0; i < 5; i++) process(i);
+      analyzer.cleanupStaleMarkets();
+      expect(analyzer.exportMarketState('stale_market')).toBeNull();
+
+      process(5);
+      const regimeBuffers = analyzer.exportMarketState('stale_market')!.statistics!.regimeBuffers;
+      expect(Object.keys(regimeBuffers).length).toBeGreaterThan(0);
+      for (const values of Object.values(regimeBuffers)) {
+        expect(values).toHaveLength(1);
+      }
+    });
+  });
 });
@@ -0,0 +1,138 @@
+import { DatabaseManager } from '../../data/database';
+import { DataAccessLayer } from '../../data/DataAccessLayer';
+import { EventDrivenBacktester } from '../../backtesting/EventDrivenBacktester';
+import { MicrostructureDetector } from '../../services/MicrostructureDetector';
+import { clock } from '../../utils/Clock';
+import { BotConfig, OrderbookData } from '../../types';
+
+/**
+ * EventDrivenBacktester Tests
+ *
+ * Verifies that stored snapshots and trades are replayed through the detector in
+ * timestamp order under a simulated clock, and that emitted signals are priced
+ * from later snapshots.
+ */
+describe('EventDrivenBacktester', () => {
+  let database: DatabaseManager;
+  let dataLayer: DataAccessLayer;
+
+  const mockConfig: BotConfig = {
+    checkIntervalMs: 30000,
+    minVolumeThreshold: 10000,
+    maxMarketsToTrack: 100,
+    logLevel: 'info',
+    apiUrls: {
+      clob: 'https://clob.polymarket.com',
+      gamma: 'https://gamma-api.polymarket.com',
+    },
+    microstructure: {
+      orderbookImbalanceThreshold: 0.3,
+      spreadAnomalyThreshold: 2.0,
+      liquidityShiftThreshold: 20,
+      tickBufferSize: 1000,
+    },
+    discord: {
+      webhookUrl: undefined,
+      enableRichEmbeds: true,
+      alertRateLimit: 10,
+    },
+  };
+
+  const start = Date.UTC(2025, 0, 1, 12, 0, 0);
+  const minutes = (n: number) => start + n * 60 * 1000;
+
+  const snapshot = (timestamp: number, bestBid: number, bestAsk: number): OrderbookData => ({
+    marketId: 'market_1',
+    timestamp,
+    bids: [{ price: bestBid, size: 100, volume: bestBid * 100 }],
+    asks: [{ price: bestAsk, size: 100, volume: bestAsk * 100 }],
+    spread: bestAsk - bestBid,
+    midPrice: (bestBid + bestAsk) / 2,
+    bestBid,
+    bestAsk,
+  });
+
+  beforeEach(async () => {
+    database = new DatabaseManager({ provider: 'sqlite', database: ':memory:' });
+    await database.initialize();
+    dataLayer = new DataAccessLayer(database);
+
+    await dataLayer.saveMarket({
+      id: 'market_1',
+      question: 'Will it happen?',
+      outcomes: ['Yes', 'No'],
+      outcomePrices: ['0.5', '0.5'],
+      volume: '50000',
+      volumeNum: 50000,
+      active: true,
+      closed: false,
+    });
+
+    // Inserted out of order on purpose
+    await dataLayer.saveOrderbook(snapshot(minutes(31), 0.55, 0.57));
+    await dataLayer.saveOrderbook(snapshot(minutes(0), 0.49, 0.51));
+    await dataLayer.saveOrderbook(snapshot(minutes(61), 0.59, 0.61));
+    await dataLayer.saveOrderbook(snapshot(minutes(10), 0.51, 0.53));
+    await dataLayer.saveTradeTick({ marketId: 'market_1', timestamp: minutes(5), price: 0.5, volume: 20, size: 20, side: 'buy' });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await database.close();
+  });
+
+  test('should replay rows in timestamp order under a simulated clock', async () => {
+    const seen: Array<{ kind: string; timestamp: number; now: number; volume?: number }> = [];
+
+    jest.spyOn(MicrostructureDetector.prototype, 'ingestOrderbook').mockImplementation(async (orderbook) => {
+      seen.push({ kind: 'orderbook', timestamp: orderbook.timestamp, now: clock.now() });
+    });
+    jest.spyOn(MicrostructureDetector.prototype, 'ingestTick').mockImplementation(async (tick) => {
+      seen.push({ kind: 'trade', timestamp: tick.timestamp, now: clock.now(), volume: tick.volume });
+    });
+
+    const { stats } = await new EventDrivenBacktester(database, mockConfig).replay({
+      startDate: new Date(minutes(0)),
+      endDate: new Date(minutes(120)),
+      chunkHours: 0.5,
+    });
+
+    expect(seen.map(e => e.kind)).toEqual(['orderbook', 'trade', 'orderbook', 'orderbook', 'orderbook']);
+    expect(seen.map(e => e.timestamp)).toEqual([minutes(0), minutes(5), minutes(10), minutes(31), minutes(61)]);
+    expect(seen.every(e => e.now === e.timestamp)).toBe(true);
+    expect(seen[1].volume).toBe(20); // Shares, as live ticks carry
+    expect(stats.orderbookEvents).toBe(4);
+    expect(stats.tradeEvents).toBe(1);
+    expect(clock.isSimulated()).toBe(false);
+  });
+
+  test('should price emitted signals from later snapshots', async () => {
+    jest.spyOn(MicrostructureDetector.prototype, 'ingestOrderbook').mockImplementation(async function (this: MicrostructureDetector, orderbook) {
+      if (orderbook.timestamp === minutes(10)) {
+        this.injectTestSignal({
+          marketId: orderbook.marketId,
+          market: {} as any,
+          signalType: 'orderbook_imbalance',
+          confidence: 0.8,
+          timestamp: orderbook.timestamp,
+          metadata: { direction: 'bullish' },
+        });
+      }
+    });
+
+    const { signals } = await new EventDrivenBacktester(database, mockConfig).replay({
+      startDate: new Date(minutes(0)),
+      endDate: new Date(minutes(120)),
+    });
+
+    expect(signals).toHaveLength(1);
+
+    const { performanceRecord, market } = signals[0];
+    expect(market.question).toBe('Will it happen?');
+    expect(performanceRecord.entryTime).toBe(minutes(10));
+    expect(performanceRecord.entryPrice).toBeCloseTo(0.52, 6);
+    expect(performanceRecord.entryDirection).toBe('bullish');
+    expect(performanceRecord.price30min).toBeCloseTo(0.60, 6); // First snapshot at/after +30min is minute 61
+    expect(performanceRecord.price1hr).toBeUndefined(); // Replay ends before minute 70
+  });
+});
@@ -0,0 +1,172 @@
+import { DatabaseManager } from '../../data/database';
+import { DataAccessLayer } from '../../data/DataAccessLayer';
+import { CrossMarketCorrelationDetector } from '../../services/CrossMarketCorrelationDetector';
+import { EventGroupAnalyzer } from '../../services/EventGroupAnalyzer';
+import { PolymarketService } from '../../services/PolymarketService';
+import { PriceHistoryTracker } from '../../services/PriceHistoryTracker';
+import { BotConfig, Market } from '../../types';
+
+/**
+ * EventGroupAnalyzer Tests
+ *
+ * Covers grouping sibling markets by their Gamma event, persisting events,
+ * sum-of-probabilities mispricing, coordinated sibling moves, and siblings
+ * counting once in cross-market correlation.
+ */
+describe('EventGroupAnalyzer', () => {
+  const base = Date.parse('2024-06-01T00:00:00Z');
+  let now = base;
+
+  const sibling = (id: string, price: number, overrides: Partial<Market> = {}, negRisk = true): Market => ({
+    id,
+    question: `Will ${id} win the election?`,
+    outcomes: ['Yes', 'No'],
+    outcomePrices: [String(price), String(1 - price)],
+    volume: '50000',
+    volumeNum: 50000,
+    active: true,
+    closed: false,
+    category: 'politics',
+    metadata: { eventId: 'e1', eventTitle: 'Election winner', negRisk, eventMarketCount: 3 },
+    ...overrides
+  });
+
+  beforeEach(() => {
+    now = base;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should tag markets with their Gamma event and group open siblings', async () => {
+    const gammaMarket = (id: string, closed = false) => ({
+      id, conditionId: `0x${id}`, question: `Will ${id} win?`, active: true, closed,
+      outcomes: ['Yes', 'No'], outcomePrices: '["0.4","0.6"]', clobTokenIds: [`${id}_yes`, `${id}_no`], volume: '1000'
+    });
+    jest.spyOn(global, 'fetch').mockResolvedValue({
+      ok: true,
+      json: async () => [
+        { id: 101, slug: 'election', title: 'Election winner', negRisk: true, markets: [gammaMarket('a'), gammaMarket('b'), gammaMarket('c', true)] },
+        { id: 102, slug: 'single', title: 'Single market', markets: [gammaMarket('d')] }
+      ]
+    } as any);
+
+    const service = new PolymarketService({ apiUrls: { gamma: 'http://gamma', clob: 'http://clob' } } as BotConfig);
+    await service.getActiveMarkets();
+    const groups = service.getEventGroups();
+
+    expect(Array.from(groups.keys())).toEqual(['101']);
+    expect(groups.get('101')!.map(m => m.id)).toEqual(['a', 'b']);
+    expect(groups.get('101')![0].metadata).toMatchObject({
+      eventId: '101', eventSlug: 'election', eventTitle: 'Election winner', negRisk: true, eventMarketCount: 2
+    });
+  });
+
+  test('should persist events', async () => {
+    const database = new DatabaseManager({ provider: 'sqlite', database: ':memory:' });
+    await database.initialize();
+    const dataLayer = new DataAccessLayer(database);
+
+    const { events } = new EventGroupAnalyzer(new PriceHistoryTracker())
+      .analyze(new Map([['e1', [sibling('a', 0.5), sibling('b', 0.3), sibling('c', 0.2)]]]));
+    await dataLayer.saveEvents(events);
+    await dataLayer.saveEvents([{ ...events[0], marketIds: ['a', 'b'], probabilitySum: 0.8 }]);
+
+    expect(await dataLayer.getEvent('e1')).toEqual({
+      id: 'e1', slug: undefined, title: 'Election winner', negRisk: true,
+      marketIds: ['a', 'b'], probabilitySum: 0.8, updatedAt: base
+    });
+    expect(await dataLayer.getEvent('missing')).toBeNull();
+    await database.close();
+  });
+
+  describe('detectMispricing', () => {
+    test('should flag negRisk siblings whose probabilities do not sum to 1', () => {
+      const analyzer = new EventGroupAnalyzer(new PriceHistoryTracker());
+      const analysis = analyzer.analyzeEvent([sibling('a', 0.5), sibling('b', 0.4, { volumeNum: 90000 }), sibling('c', 0.22)])!;
+
+      expect(analysis.probabilitySum).toBeCloseTo(1.12);
+      const signal = analyzer.detectMispricing(analysis)!;
+      expect(signal.signalType).toBe('event_mispricing');
+      expect(signal.marketId).toBe('b');
+      expect(signal.confidence).toBeCloseTo(0.9);
+      expect(signal.metadata).toMatchObject({ eventId: 'e1', executable: true, direction: 'bearish', marketCount: 3 });
+
+      // Cooldown per event
+      expect(analyzer.detectMispricing(analysis)).toBeNull();
+    });
+
+    test('should skip fair, incomplete and non-exclusive events and gaps inside the spreads', () => {
+      const analyzer = new EventGroupAnalyzer(new PriceHistoryTracker());
+
+      expect(analyzer.detectMispricing(analyzer.analyzeEvent([sibling('a', 0.5), sibling('b', 0.3), sibling('c', 0.21)])!)).toBeNull();
+      // One open sibling missing from the group
+      expect(analyzer.detectMispricing(analyzer.analyzeEvent([sibling('a', 0.5), sibling('b', 0.3)])!)).toBeNull();
+      // Price ladders ("above $100k", "above $120k") carry no sum constraint
+      expect(analyzer.detectMispricing(analyzer.analyzeEvent(
+        [sibling('a', 0.9, {}, false), sibling('b', 0.6, {}, false), sibling('c', 0.3, {}, false)]
+      )!)).toBeNull();
+
+      const wideSpreads = analyzer.detectMispricing(analyzer.analyzeEvent(
+        [sibling('a', 0.5, { spread: 600 }), sibling('b', 0.3, { spread: 600 }), sibling('c', 0.14, { spread: 600 })]
+      )!)!;
+      expect(wideSpreads.metadata).toMatchObject({ executable: false, direction: 'bullish' });
+      expect(wideSpreads.confidence).toBeCloseTo(0.5);
+    });
+  });
+
+  describe('detectCoordinatedMove', () => {
+    test('should detect probability flowing between siblings', () => {
+      const tracker = new PriceHistoryTracker({ minUpdateIntervalMs: 1 });
+      const analyzer = new EventGroupAnalyzer(tracker);
+      const path: Record<string, number[]> = { a: [0.3, 0.31, 0.45], b: [0.5, 0.49, 0.4], c: [0.2, 0.2, 0.15] };
+
+      let result = { events: [], signals: [] } as ReturnType<EventGroupAnalyzer['analyze']>;
+      for (let i = 0; i < 3; i++) {
+        now = base + i * 5 * 60 * 1000;
+        result = analyzer.analyze(new Map([['e1', Object.entries(path).map(([id, prices]) => sibling(id, prices[i]))]]));
+      }
+
+      const signal = result.signals.find(s => s.signalType === 'event_coordinated_move')!;
+      expect(signal.marketId).toBe('a');
+      expect(signal.confidence).toBeCloseTo(0.9);
+      expect(signal.metadata).toMatchObject({
+        windowMs: 900000, reallocation: true, direction: 'bullish', correlatedMarkets: ['a', 'b', 'c']
+      });
+      expect(signal.metadata!.probabilityFlow).toBeCloseTo(0.3);
+      expect(signal.metadata!.netChange).toBeCloseTo(0);
+    });
+
+    test('should ignore a single sibling moving', () => {
+      const tracker = new PriceHistoryTracker({ minUpdateIntervalMs: 1 });
+      const analyzer = new EventGroupAnalyzer(tracker);
+
+      for (let i = 0; i < 3; i++) {
+        now = base + i * 5 * 60 * 1000;
+        const { signals } = analyzer.analyze(new Map([['e1', [sibling('a', 0.3 + i * 0.1), sibling('b', 0.5), sibling('c', 0.2)]]]));
+        expect(signals.filter(s => s.signalType === 'event_coordinated_move')).toEqual([]);
+      }
+    });
+  });
+
+  test('should count event siblings once in cross-market correlation', () => {
+    const tracker = new PriceHistoryTracker({ minUpdateIntervalMs: 1 });
+    const detector = new CrossMarketCorrelationDetector(tracker, { minMarketsForSignal: 3 });
+    const markets = [sibling('a', 0.3), sibling('b', 0.5), sibling('c', 0.2), { ...sibling('x', 0.5), metadata: {} }];
+
+    // Every market moves well over 1% on each of 12 updates
+    for (let i = 0; i < 12; i++) {
+      now = base + i * 60 * 1000;
+      for (const market of markets) {
+        tracker.recordPriceUpdate(market.id, parseFloat(market.outcomePrices[0]) * (1 + i * 0.02), 1000);
+      }
+    }
+
+    const spy = jest.spyOn(tracker, 'calculateCorrelation');
+    // Siblings collapse to one market, leaving two: below the three needed
+    expect(detector.detectCoordinatedMovement(markets)).toBeNull();
+    expect(spy).not.toHaveBeenCalled();
+  });
+});
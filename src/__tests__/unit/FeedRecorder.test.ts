@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FeedRecorder, FeedReplaySource } from '../../services/FeedRecorder';
+import { WebSocketService } from '../../services/WebSocketService';
+import { BotConfig, OrderbookData } from '../../types';
+
+/**
+ * FeedRecorder Tests
+ *
+ * Verifies that recorded WebSocket sessions round-trip through the gzip NDJSON
+ * file and replay through WebSocketService's normal parsing path.
+ */
+describe('FeedRecorder', () => {
+  let tmpDir: string;
+  let filePath: string;
+
+  const mockConfig: BotConfig = {
+    checkIntervalMs: 30000,
+    minVolumeThreshold: 10000,
+    maxMarketsToTrack: 100,
+    logLevel: 'info',
+    apiUrls: {
+      clob: 'https://clob.polymarket.com',
+      gamma: 'https://gamma-api.polymarket.com',
+    },
+    microstructure: {
+      orderbookImbalanceThreshold: 0.3,
+      spreadAnomalyThreshold: 2.0,
+      liquidityShiftThreshold: 20,
+      tickBufferSize: 1000,
+    },
+    discord: {
+      webhookUrl: undefined,
+      enableRichEmbeds: true,
+      alertRateLimit: 10,
+    },
+  };
+
+  const bookMessage = JSON.stringify({
+    topic: 'clob_market',
+    type: 'book',
+    data: {
+      asset_id: 'asset_1',
+      market: 'market_1',
+      bids: [{ price: '0.50', size: '100' }],
+      asks: [{ price: '0.52', size: '100' }],
+      hash: 'h0',
+    },
+  });
+
+  const priceChangeMessage = JSON.stringify({
+    topic: 'clob_market',
+    type: 'price_change',
+    data: {
+      asset_id: 'asset_1',
+      market: 'market_1',
+      changes: [{ price: '0.51', side: 'BUY', size: '25' }],
+      hash: 'h1',
+    },
+  });
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'feed-recorder-'));
+    filePath = path.join(tmpDir, 'session.ndjson.gz');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('should round-trip messages with arrival timestamps', async () => {
+    const recorder = new FeedRecorder(filePath);
+    recorder.start();
+    recorder.record('{"a":1}', 1000);
+    recorder.record('{"b":2}', 1500);
+    await recorder.stop();
+
+    expect(recorder.getStats().messagesRecorded).toBe(2);
+
+    const received: Array<{ raw: string; t: number }> = [];
+    const stats = await new FeedReplaySource(filePath, { speed: 0 }).replay((raw, t) => received.push({ raw, t }));
+
+    expect(received).toEqual([
+      { raw: '{"a":1}', t: 1000 },
+      { raw: '{"b":2}', t: 1500 },
+    ]);
+    expect(stats.messages).toBe(2);
+    expect(stats.firstTimestamp).toBe(1000);
+    expect(stats.lastTimestamp).toBe(1500);
+  });
+
+  test('should skip corrupt lines in uncompressed recordings', async () => {
+    const plainPath = path.join(tmpDir, 'session.ndjson');
+    fs.writeFileSync(plainPath, '{"t":1,"m":"ok"}\nnot json\n{"t":2}\n');
+
+    const received: string[] = [];
+    const stats = await new FeedReplaySource(plainPath, { speed: 0 }).replay(raw => received.push(raw));
+
+    expect(received).toEqual(['ok']);
+    expect(stats.skipped).toBe(2);
+  });
+
+  test('should replay a recording through WebSocketService parsing', async () => {
+    const recorder = new FeedRecorder(filePath);
+    recorder.start();
+    recorder.record(bookMessage, Date.now());
+    recorder.record(priceChangeMessage, Date.now() + 10);
+    await recorder.stop();
+
+    const service = new WebSocketService(mockConfig);
+    const orderbooks: OrderbookData[] = [];
+    service.onOrderbook(orderbook => orderbooks.push(orderbook));
+
+    await service.replay(new FeedReplaySource(filePath, { speed: 0 }));
+
+    expect(orderbooks).toHaveLength(2);
+    expect(orderbooks[0].bestBid).toBe(0.50);
+    expect(orderbooks[1].bestBid).toBe(0.51);
+    expect(orderbooks[1].marketId).toBe('market_1');
+  });
+});
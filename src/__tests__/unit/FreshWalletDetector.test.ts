@@ -0,0 +1,146 @@
+import { FreshWalletDetector } from '../../services/FreshWalletDetector';
+import { TopicClusteringEngine } from '../../services/TopicClusteringEngine';
+import { Market, TickData } from '../../types';
+
+/**
+ * FreshWalletDetector Tests
+ *
+ * Covers flagging a new wallet's concentrated position with its evidence,
+ * ignoring established wallets, small and diversified positions,
+ * concentration measured across a topic cluster, and combining the data API's
+ * first activity with stored trades.
+ */
+describe('FreshWalletDetector', () => {
+  const start = Date.UTC(2025, 0, 6, 12, 0, 0);
+  const hour = 3600000;
+  const wallet = '0xcccc000000000000000000000000000000000001';
+
+  const market = (id: string, question: string, volumeNum: number = 50000): Market => ({
+    id,
+    question,
+    outcomes: ['Yes', 'No'],
+    outcomePrices: ['0.3', '0.7'],
+    volume: String(volumeNum),
+    volumeNum,
+    active: true,
+    closed: false
+  });
+
+  const trade = (marketId: string, timestamp: number, size: number, overrides: Partial<TickData> = {}): TickData => ({
+    timestamp,
+    marketId,
+    price: 0.3,
+    size,
+    volume: size,
+    side: 'buy',
+    traderAddress: wallet,
+    outcomeIndex: 0,
+    ...overrides
+  });
+
+  const fedMarket = market('fed-cut', 'Will the Federal Reserve announce a rate cut in March?');
+  const fedHold = market('fed-hold', 'Will the FOMC hold the interest rate in March?');
+  const sportsMarket = market('sports', 'Will the home team win the final?');
+
+  let lookup: jest.Mock<Promise<number | null>, [string]>;
+  let detector: FreshWalletDetector;
+
+  beforeEach(() => {
+    lookup = jest.fn<Promise<number | null>, [string]>(async () => start - 6 * hour);
+    detector = new FreshWalletDetector(lookup);
+  });
+
+  test('should flag a new wallet putting a large share of volume into one market', async () => {
+    expect(await detector.recordTrade(trade('fed-cut', start, 5000), fedMarket)).toBeNull(); // $1500
+    const signal = (await detector.recordTrade(trade('fed-cut', start + 60000, 5000), fedMarket))!;
+
+    expect(signal.signalType).toBe('information_leak');
+    expect(signal.market).toBe(fedMarket);
+    expect(signal.metadata).toMatchObject({
+      leakType: 'fresh_wallet',
+      signalSource: 'wallet_tracking',
+      wallet,
+      firstActivityAt: start - 6 * hour,
+      direction: 'bullish',
+      trades: 2,
+      marketConcentration: 1,
+      walletMarkets: 1
+    });
+    expect(signal.metadata?.positionNotional).toBeCloseTo(3000, 6);
+    expect(signal.metadata?.volumeShare).toBeCloseTo(0.06, 10);
+    expect(signal.metadata?.walletAgeHours).toBeCloseTo(6 + 1 / 60, 6);
+    // 0.5 base + under a day old + fully concentrated
+    expect(signal.confidence).toBeCloseTo(0.75, 10);
+
+    // First activity is only looked up once the position qualifies, then cached
+    expect(lookup).toHaveBeenCalledTimes(1);
+    expect(await detector.recordTrade(trade('fed-cut', start + 120000, 5000), fedMarket)).toBeNull(); // Cooldown
+    expect(lookup).toHaveBeenCalledTimes(1);
+  });
+
+  test('should ignore established wallets from then on', async () => {
+    lookup.mockResolvedValue(start - 90 * 24 * hour);
+
+    expect(await detector.recordTrade(trade('fed-cut', start, 20000), fedMarket)).toBeNull();
+    expect(await detector.recordTrade(trade('fed-cut', start + 60000, 20000), fedMarket)).toBeNull();
+    expect(lookup).toHaveBeenCalledTimes(1);
+  });
+
+  test('should ignore positions that are small relative to market volume or unattributed', async () => {
+    const deepMarket = market('deep', 'Will the Federal Reserve cut rates?', 10000000);
+    expect(await detector.recordTrade(trade('deep', start, 20000), deepMarket)).toBeNull(); // $6000 of $10M
+    expect(await detector.recordTrade(trade('fed-cut', start, 20000, { traderAddress: undefined }), fedMarket)).toBeNull();
+    expect(lookup).not.toHaveBeenCalled();
+  });
+
+  test('should require concentration in the market or its topic', async () => {
+    const topics = new TopicClusteringEngine();
+    topics.classifyMarkets([fedMarket, fedHold, sportsMarket]);
+
+    // Half in an unrelated market: not concentrated
+    await detector.recordTrade(trade('sports', start, 10000), sportsMarket);
+    expect(await detector.recordTrade(trade('fed-cut', start + 1000, 10000), fedMarket)).toBeNull();
+
+    // Split across two markets of the same topic: concentrated in the topic
+    const topicDetector = new FreshWalletDetector(lookup);
+    topicDetector.setTopicClustering(topics);
+    await topicDetector.recordTrade(trade('fed-hold', start, 10000), fedHold);
+    const signal = (await topicDetector.recordTrade(trade('fed-cut', start + 1000, 10000), fedMarket))!;
+
+    expect(signal.metadata?.marketConcentration).toBeCloseTo(0.5, 10);
+    expect(signal.metadata?.topicConcentration).toBeCloseTo(1, 10);
+    expect(signal.metadata?.topicCluster).toBe('fed');
+  });
+
+  test('should skip wallets whose first activity is unknown', async () => {
+    lookup.mockResolvedValue(null);
+    expect(await detector.recordTrade(trade('fed-cut', start, 20000), fedMarket)).toBeNull();
+  });
+
+  describe('combineFirstActivity', () => {
+    const maxAge = 7 * 24 * hour;
+    const now = () => start;
+
+    test('should take the earlier of the data API and the stored trades', async () => {
+      const combined = FreshWalletDetector.combineFirstActivity(
+        async () => start - 2 * hour, async () => start - 5 * hour, maxAge, now
+      );
+      expect(await combined(wallet)).toBe(start - 5 * hour);
+    });
+
+    test('should not treat the stored trades as first activity when the API lookup fails', async () => {
+      // The store already holds the trade being checked, so the wallet would look minutes old
+      const failed = FreshWalletDetector.combineFirstActivity(async () => null, async () => start, maxAge, now);
+      expect(await failed(wallet)).toBeNull();
+
+      const detectorWithStore = new FreshWalletDetector(failed);
+      expect(await detectorWithStore.recordTrade(trade('fed-cut', start, 20000), fedMarket)).toBeNull();
+
+      // Stored trades older than the fresh window still show the wallet is established
+      const established = FreshWalletDetector.combineFirstActivity(
+        async () => null, async () => start - 30 * 24 * hour, maxAge, now
+      );
+      expect(await established(wallet)).toBe(start - 30 * 24 * hour);
+    });
+  });
+});
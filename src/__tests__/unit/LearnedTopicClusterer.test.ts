@@ -0,0 +1,119 @@
+import { DatabaseManager } from '../../data/database';
+import { CrossMarketCorrelationDetector } from '../../services/CrossMarketCorrelationDetector';
+import { LearnedTopicClusterer } from '../../services/LearnedTopicClusterer';
+import { PriceHistoryTracker } from '../../services/PriceHistoryTracker';
+import { TopicClusteringEngine } from '../../services/TopicClusteringEngine';
+import { agglomerativeCluster, buildTfIdf, tokenize, topTerms, centroid } from '../../statistics/TextClustering';
+import { Market } from '../../types';
+
+/**
+ * LearnedTopicClusterer Tests
+ *
+ * Covers TF-IDF clustering of market questions, persistence of clusters and
+ * assignments across restarts, and their use by TopicClusteringEngine and
+ * CrossMarketCorrelationDetector.
+ */
+describe('LearnedTopicClusterer', () => {
+  let database: DatabaseManager;
+
+  const market = (id: string, question: string, category = 'politics', volumeNum = 10000): Market => ({
+    id,
+    question,
+    outcomes: ['Yes', 'No'],
+    outcomePrices: ['0.5', '0.5'],
+    volume: String(volumeNum),
+    volumeNum,
+    active: true,
+    closed: false,
+    category,
+  });
+
+  const markets = (): Market[] => [
+    market('m1', 'Will the Lakers win the NBA Finals?', 'sports'),
+    market('m2', 'Will the Celtics win the NBA Finals?', 'sports'),
+    market('m3', 'NBA Finals MVP: Will Jayson Tatum win?', 'sports'),
+    market('m4', 'Will Solana ETF be approved by the SEC?', 'crypto_events'),
+    market('m5', 'Will the SEC approve a Solana ETF?', 'crypto_events'),
+    market('m6', 'Solana ETF approved before July?', 'crypto_events'),
+    market('m7', 'Will it snow in Miami?', 'weather'),
+  ];
+
+  beforeEach(async () => {
+    database = new DatabaseManager({ provider: 'sqlite', database: ':memory:' });
+    await database.initialize();
+  });
+
+  afterEach(async () => {
+    await database.close();
+  });
+
+  describe('TextClustering', () => {
+    test('should tokenize into words and bigrams without stopwords', () => {
+      // Stopwords also break bigrams: no "rates 2025"
+      expect(tokenize('Will the Fed cut rates in 2025?')).toEqual(['fed', 'cut', 'fed cut', 'rates', 'cut rates', '2025']);
+      expect(tokenize("Trump's approval above 45%")).toEqual(['trump', 'approval', 'trump approval']);
+    });
+
+    test('should group similar questions and leave outliers alone', () => {
+      const { vectors } = buildTfIdf(markets().map(m => m.question));
+      const groups = agglomerativeCluster(vectors, 0.3);
+
+      expect(groups).toEqual([[0, 1, 2], [3, 4, 5]]);
+      expect(topTerms(centroid(groups[1].map(i => vectors[i])), 2)[0]).toBe('solana etf');
+    });
+  });
+
+  test('should persist clusters and keep ids stable across restarts and refits', async () => {
+    const clusterer = new LearnedTopicClusterer(database);
+    await clusterer.initialize();
+    const first = await clusterer.fit(markets());
+
+    expect(first.clusters.map(c => c.id).sort()).toEqual(['learned_nba_finals', 'learned_solana_etf']);
+    expect(first.assignedMarkets).toBe(6);
+    expect(clusterer.getClusterId('m7')).toBeUndefined();
+
+    const restarted = new LearnedTopicClusterer(database);
+    await restarted.initialize();
+    expect(restarted.getClusterId('m1')).toBe('learned_nba_finals');
+    expect(restarted.getCluster('learned_solana_etf')?.keywords).toContain('solana etf');
+
+    // New markets between fits go to the closest centroid
+    expect(await restarted.assignMarkets([
+      market('m8', 'Will the Knicks win the NBA Finals?', 'sports'),
+      market('m9', 'Will it rain in Seattle?', 'weather'),
+    ])).toBe(1);
+    expect(restarted.getClusterId('m8')).toBe('learned_nba_finals');
+
+    // A refit with a changed membership keeps the overlapping cluster's id;
+    // markets left out of the fit keep their assignment
+    const refit = await restarted.fit([...markets().slice(0, 2), ...markets().slice(3)]);
+    expect(refit.carriedOverIds).toBe(2);
+    expect(refit.clusters.map(c => c.id).sort()).toEqual(['learned_nba_finals', 'learned_solana_etf']);
+    expect(restarted.getClusterId('m8')).toBe('learned_nba_finals');
+
+    const rows = await database.query('SELECT cluster_id FROM market_topic_assignments WHERE market_id = $1', ['m3']);
+    expect(rows).toEqual([{ cluster_id: 'learned_nba_finals' }]);
+  });
+
+  test('should feed learned clusters into correlated markets and cross-market groups', async () => {
+    const clusterer = new LearnedTopicClusterer(database);
+    await clusterer.initialize();
+    await clusterer.fit(markets());
+
+    const engine = new TopicClusteringEngine();
+    engine.setLearnedTopics(clusterer);
+    engine.classifyMarkets(markets());
+
+    expect(engine.getCorrelatedMarkets('m4').map(m => m.id).sort()).toEqual(['m5', 'm6']);
+    expect(engine.getClusterStatistics()['learned_nba_finals'].marketCount).toBe(3);
+    expect(engine.getAllClusters().find(c => c.id === 'learned_solana_etf')?.source).toBe('learned');
+
+    const detector = new CrossMarketCorrelationDetector(new PriceHistoryTracker());
+    detector.setTopicClustering(engine);
+    const groups = detector.groupMarketsByCategory([...markets(), market('m10', 'Solana ETF launch date?', 'crypto')]);
+
+    expect(groups.get('sports')?.map(m => m.id)).toEqual(['m1', 'm2', 'm3']);
+    expect(groups.get('learned_nba_finals')?.map(m => m.id)).toEqual(['m1', 'm2', 'm3']);
+    expect(groups.get('learned_solana_etf')?.map(m => m.id)).toEqual(['m4', 'm5', 'm6']);
+  });
+});
@@ -0,0 +1,96 @@
+import { LocalOrderBook } from '../../services/LocalOrderBook';
+import { OrderbookLevel } from '../../types';
+
+/**
+ * LocalOrderBook Tests
+ *
+ * Verifies that price_change deltas are applied on top of book snapshots and
+ * that missed updates are detected so a fresh snapshot can be requested.
+ */
+describe('LocalOrderBook', () => {
+  const level = (price: number, size: number): OrderbookLevel => ({ price, size, volume: price * size });
+
+  let book: LocalOrderBook;
+
+  beforeEach(() => {
+    book = new LocalOrderBook('asset_yes', 'market_1');
+    book.applySnapshot(
+      [level(0.50, 100), level(0.49, 200)],
+      [level(0.52, 150), level(0.53, 300)],
+      1000,
+      'hash_0'
+    );
+  });
+
+  test('should emit snapshot as sorted OrderbookData', () => {
+    const orderbook = book.toOrderbookData();
+
+    expect(orderbook.marketId).toBe('market_1');
+    expect(orderbook.bestBid).toBe(0.50);
+    expect(orderbook.bestAsk).toBe(0.52);
+    expect(orderbook.spread).toBeCloseTo(0.02, 6);
+    expect(orderbook.midPrice).toBeCloseTo(0.51, 6);
+    expect(orderbook.bids.map(l => l.price)).toEqual([0.50, 0.49]);
+    expect(orderbook.asks.map(l => l.price)).toEqual([0.52, 0.53]);
+  });
+
+  test('should add, update and remove levels from deltas', () => {
+    const result = book.applyDelta([
+      { price: 0.51, size: 40, side: 'buy' },   // new best bid
+      { price: 0.49, size: 0, side: 'buy' },    // pulled level
+      { price: 0.52, size: 75, side: 'sell' },  // resized level
+    ], { timestamp: 1100, hash: 'hash_1' });
+
+    expect(result).toBe('applied');
+
+    const orderbook = book.toOrderbookData();
+    expect(orderbook.bids).toEqual([level(0.51, 40), level(0.50, 100)]);
+    expect(orderbook.asks[0]).toEqual(level(0.52, 75));
+    expect(orderbook.timestamp).toBe(1100);
+  });
+
+  test('should reject deltas before a snapshot', () => {
+    const fresh = new LocalOrderBook('asset_no', 'market_1');
+    expect(fresh.applyDelta([{ price: 0.5, size: 10, side: 'buy' }], { timestamp: 1 })).toBe('no_snapshot');
+  });
+
+  test('should ignore duplicate hashes and stale timestamps', () => {
+    expect(book.applyDelta([{ price: 0.50, size: 1, side: 'buy' }], { timestamp: 1200, hash: 'hash_0' })).toBe('duplicate');
+    expect(book.applyDelta([{ price: 0.50, size: 1, side: 'buy' }], { timestamp: 900, hash: 'hash_x' })).toBe('stale');
+    expect(book.toOrderbookData().bids[0].size).toBe(100);
+  });
+
+  test('should detect sequence gaps', () => {
+    book.applySnapshot([level(0.50, 100)], [level(0.52, 150)], 1000, 'hash_0', 10);
+
+    expect(book.applyDelta([{ price: 0.50, size: 90, side: 'buy' }], { timestamp: 1100, sequence: 11 })).toBe('applied');
+    expect(book.applyDelta([{ price: 0.50, size: 80, side: 'buy' }], { timestamp: 1200, sequence: 13 })).toBe('gap');
+    expect(book.isSynced()).toBe(false);
+    expect(book.getStats().gapsDetected).toBe(1);
+  });
+
+  test('should detect a crossed book as out of sync', () => {
+    const result = book.applyDelta([{ price: 0.53, size: 10, side: 'buy' }], { timestamp: 1100 });
+
+    expect(result).toBe('gap');
+    expect(book.isSynced()).toBe(false);
+  });
+
+  test('should detect top-of-book mismatch with exchange-reported best bid/ask', () => {
+    const result = book.applyDelta(
+      [{ price: 0.50, size: 50, side: 'buy' }],
+      { timestamp: 1100, bestBid: 0.51, bestAsk: 0.52 }
+    );
+
+    expect(result).toBe('gap');
+  });
+
+  test('should resync after a fresh snapshot', () => {
+    book.invalidate();
+    expect(book.applyDelta([], { timestamp: 1100 })).toBe('no_snapshot');
+
+    book.applySnapshot([level(0.40, 10)], [level(0.45, 10)], 2000, 'hash_9');
+    expect(book.isSynced()).toBe(true);
+    expect(book.toOrderbookData().bestBid).toBe(0.40);
+  });
+});
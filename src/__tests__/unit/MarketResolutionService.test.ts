@@ -0,0 +1,148 @@
+import { DatabaseManager } from '../../data/database';
+import { MarketResolutionService, parseResolution } from '../../services/MarketResolutionService';
+import { PolymarketService } from '../../services/PolymarketService';
+import { SignalPerformanceTracker } from '../../services/SignalPerformanceTracker';
+import { EarlySignal, Market } from '../../types';
+
+/**
+ * MarketResolutionService Tests
+ *
+ * Verifies how final outcome prices are parsed into clean, invalid (50-50) and
+ * still-pending resolutions, and that a stored resolution backfills finalPnL /
+ * wasCorrect on every tracked signal for the market.
+ */
+describe('MarketResolutionService', () => {
+  const market = (id: string, outcomePrices: string[], closed: boolean = true): Market => ({
+    id,
+    question: 'Will it happen?',
+    outcomes: ['Yes', 'No'],
+    outcomePrices,
+    volume: '50000',
+    volumeNum: 50000,
+    active: !closed,
+    closed,
+    endDate: '2024-03-01T00:00:00Z',
+  });
+
+  describe('parseResolution', () => {
+    test('should pick the outcome settled at 1 as the winner', () => {
+      expect(parseResolution(market('m', ['0', '1']))).toEqual({
+        status: 'resolved',
+        winningOutcomeIndex: 1,
+        outcomePrices: [0, 1],
+      });
+      expect(parseResolution(market('m', ['0.995', '0.005']))?.winningOutcomeIndex).toBe(0);
+    });
+
+    test('should treat an even split as an invalid resolution', () => {
+      expect(parseResolution(market('m', ['0.5', '0.5']))).toEqual({
+        status: 'invalid',
+        outcomePrices: [0.5, 0.5],
+      });
+    });
+
+    test('should wait while the market is open or not yet settled', () => {
+      expect(parseResolution(market('m', ['1', '0'], false))).toBeNull();
+      expect(parseResolution(market('m', ['0.7', '0.3']))).toBeNull();
+      expect(parseResolution(market('m', ['abc', '0']))).toBeNull();
+    });
+  });
+
+  describe('checkResolutions', () => {
+    let database: DatabaseManager;
+    let tracker: SignalPerformanceTracker;
+    let getMarketById: jest.Mock;
+    let service: MarketResolutionService;
+
+    const track = (marketId: string, change: number, entryPrices: string[]) => {
+      const signal: EarlySignal = {
+        marketId,
+        market: market(marketId, entryPrices, false),
+        signalType: 'price_movement',
+        confidence: 0.8,
+        timestamp: Date.now(),
+        metadata: { priceChanges: { outcome_0: change } },
+      };
+      return tracker.trackSignal(signal, signal.market);
+    };
+
+    const performanceRow = async (id: string) =>
+      (await database.query('SELECT * FROM signal_performance WHERE id = $1', [id]))[0];
+
+    beforeEach(async () => {
+      database = new DatabaseManager({ provider: 'sqlite', database: ':memory:' });
+      await database.initialize();
+
+      tracker = new SignalPerformanceTracker(database);
+      getMarketById = jest.fn();
+      service = new MarketResolutionService(
+        database,
+        { getMarketById } as unknown as PolymarketService,
+        tracker
+      );
+    });
+
+    afterEach(async () => {
+      await database.close();
+    });
+
+    test('should store the resolution and grade every signal on the market', async () => {
+      const bullish = await track('market_1', 0.05, ['0.40', '0.60']);
+      const bearish = await track('market_1', -0.05, ['0.40', '0.60']);
+      getMarketById.mockResolvedValue(market('market_1', ['1', '0']));
+
+      const [resolution] = await service.checkResolutions();
+
+      expect(getMarketById).toHaveBeenCalledWith('market_1', { includeClosed: true });
+      expect(resolution.winningOutcomeIndex).toBe(0);
+      expect(resolution.signalsBackfilled).toBe(2);
+      expect(resolution.resolvedAt).toBe(new Date('2024-03-01T00:00:00Z').getTime());
+
+      const bullishRow = await performanceRow(bullish);
+      expect(Boolean(bullishRow.market_resolved)).toBe(true);
+      expect(bullishRow.winning_outcome_index).toBe(0);
+      expect(parseFloat(bullishRow.final_pnl)).toBeCloseTo(150, 6); // 0.40 -> 1.00
+      expect(Boolean(bullishRow.was_correct)).toBe(true);
+
+      const bearishRow = await performanceRow(bearish);
+      expect(parseFloat(bearishRow.final_pnl)).toBeCloseTo(-150, 6);
+      expect(Boolean(bearishRow.was_correct)).toBe(false);
+
+      const stored = await service.getResolution('market_1');
+      expect(stored?.status).toBe('resolved');
+      expect(stored?.outcomePrices).toEqual([1, 0]);
+      expect(stored?.signalsBackfilled).toBe(2);
+    });
+
+    test('should settle invalid resolutions at the even payout', async () => {
+      const id = await track('market_1', 0.05, ['0.40', '0.60']);
+      getMarketById.mockResolvedValue(market('market_1', ['0.5', '0.5']));
+
+      const [resolution] = await service.checkResolutions();
+      expect(resolution.status).toBe('invalid');
+
+      const row = await performanceRow(id);
+      expect(row.winning_outcome_index).toBeNull();
+      expect(parseFloat(row.final_pnl)).toBeCloseTo(25, 6); // 0.40 -> 0.50
+      expect(Boolean(row.was_correct)).toBe(true);
+    });
+
+    test('should leave pending markets unresolved and recheck them later', async () => {
+      const id = await track('market_1', 0.05, ['0.40', '0.60']);
+      getMarketById.mockResolvedValue(market('market_1', ['0.7', '0.3']));
+
+      const now = Date.now();
+      expect(await service.checkResolutions(now)).toEqual([]);
+      expect(Boolean((await performanceRow(id)).market_resolved)).toBe(false);
+
+      // Within the recheck interval the API is not called again
+      await service.checkResolutions(now + 60 * 1000);
+      expect(getMarketById).toHaveBeenCalledTimes(1);
+
+      getMarketById.mockResolvedValue(market('market_1', ['1', '0']));
+      const resolved = await service.checkResolutions(now + 2 * 60 * 60 * 1000);
+      expect(resolved).toHaveLength(1);
+      expect(Boolean((await performanceRow(id)).was_correct)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,333 @@
+import * as http from 'http';
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { NotificationRouter } from '../../services/NotificationRouter';
+import { AlertNotification, createNotificationSink, NotificationSink } from '../../services/NotificationSinks';
+import { AlertPriority } from '../../types';
+
+/**
+ * NotificationRouter Tests
+ *
+ * Sinks are exercised against a local HTTP server (Discord, Slack, Telegram,
+ * JSON webhook) and a minimal SMTP server (email); routing rules are checked
+ * with in-memory sinks.
+ */
+describe('NotificationRouter', () => {
+  const notification = (overrides: Partial<AlertNotification> = {}): AlertNotification => ({
+    title: '🚨 critical OPPORTUNITY - POLITICS',
+    description: '**Will the bill pass?**',
+    priority: AlertPriority.CRITICAL,
+    signalType: 'volume_spike',
+    category: 'politics',
+    marketId: 'market_1',
+    marketQuestion: 'Will the bill pass?',
+    score: 87,
+    fields: [
+      { name: 'Score', value: '87/100', inline: true },
+      { name: 'Action', value: '[View Market on Polymarket](https://polymarket.com/event/bill)' },
+    ],
+    mentionEveryone: true,
+    timestamp: Date.parse('2024-03-01T12:00:00Z'),
+    ...overrides,
+  });
+
+  describe('sinks', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let requests: Array<{ url: string; headers: http.IncomingHttpHeaders; body: any }>;
+    let failuresRemaining: number;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', chunk => { raw += chunk; });
+        req.on('end', () => {
+          requests.push({ url: req.url || '', headers: req.headers, body: JSON.parse(raw) });
+
+          if (req.url === '/flaky' && failuresRemaining > 0) {
+            failuresRemaining--;
+            res.writeHead(500).end('upstream error');
+            return;
+          }
+          res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ ok: true }));
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      requests = [];
+      failuresRemaining = 0;
+    });
+
+    test('should post each provider its own payload format', async () => {
+      const router = NotificationRouter.fromConfig({
+        sinks: [
+          { name: 'discord', type: 'discord', url: `${baseUrl}/discord` },
+          { name: 'slack', type: 'slack', url: `${baseUrl}/slack` },
+          { name: 'telegram', type: 'telegram', botToken: 'TOKEN', chatId: '42', apiUrl: baseUrl },
+          { name: 'webhook', type: 'webhook', url: `${baseUrl}/hook`, headers: { Authorization: 'Bearer secret' } },
+        ],
+        routes: [{ name: 'all', sinks: ['discord', 'slack', 'telegram', 'webhook'] }],
+      });
+
+      const result = await router.dispatch(notification());
+      expect(result.delivered.sort()).toEqual(['discord', 'slack', 'telegram', 'webhook']);
+      expect(result.failed).toEqual([]);
+
+      const byUrl = new Map(requests.map(r => [r.url, r]));
+
+      const discord = byUrl.get('/discord')!.body;
+      expect(discord.content).toBe('@everyone');
+      expect(discord.embeds[0].title).toBe('🚨 critical OPPORTUNITY - POLITICS');
+      expect(discord.embeds[0].fields).toHaveLength(2);
+
+      const slack = byUrl.get('/slack')!.body;
+      expect(slack.text).toBe('<!channel> 🚨 critical OPPORTUNITY - POLITICS');
+      expect(slack.blocks[1].text.text).toBe('*Will the bill pass?*');
+      expect(slack.blocks[2].fields[1].text).toContain('<https://polymarket.com/event/bill|View Market on Polymarket>');
+
+      const telegram = byUrl.get('/botTOKEN/sendMessage')!.body;
+      expect(telegram.chat_id).toBe('42');
+      expect(telegram.parse_mode).toBe('HTML');
+      expect(telegram.text).toContain('<b>Will the bill pass?</b>');
+      expect(telegram.text).toContain('<a href="https://polymarket.com/event/bill">View Market on Polymarket</a>');
+
+      const webhook = byUrl.get('/hook')!;
+      expect(webhook.headers.authorization).toBe('Bearer secret');
+      expect(webhook.body).toMatchObject({
+        priority: 'critical',
+        signalType: 'volume_spike',
+        marketId: 'market_1',
+        timestamp: '2024-03-01T12:00:00.000Z',
+      });
+      expect(webhook.body.discordEmbed).toBeUndefined();
+    });
+
+    test('should send the prebuilt Discord embed when one is attached', async () => {
+      const sink = createNotificationSink({ name: 'discord', type: 'discord', url: `${baseUrl}/discord` });
+      await sink.send(notification({ mentionEveryone: false, discordEmbed: { title: 'Custom', color: 1 } }));
+
+      expect(requests[0].body.content).toBeUndefined();
+      expect(requests[0].body.embeds).toEqual([{ title: 'Custom', color: 1 }]);
+    });
+
+    test('should retry a failing sink without holding back the others', async () => {
+      const router = NotificationRouter.fromConfig({
+        sinks: [
+          { name: 'flaky', type: 'webhook', url: `${baseUrl}/flaky` },
+          { name: 'webhook', type: 'webhook', url: `${baseUrl}/hook` },
+        ],
+        routes: [{ name: 'all', sinks: ['flaky', 'webhook'] }],
+      }, { maxRetries: 3, retryDelayMs: 1 });
+
+      failuresRemaining = 2;
+      const recovered = await router.dispatch(notification());
+      expect(recovered.delivered.sort()).toEqual(['flaky', 'webhook']);
+      expect(requests.filter(r => r.url === '/flaky')).toHaveLength(3);
+
+      requests = [];
+      failuresRemaining = 5;
+      const exhausted = await router.dispatch(notification());
+      expect(exhausted.delivered).toEqual(['webhook']);
+      expect(exhausted.failed).toEqual([{ sink: 'flaky', error: expect.stringContaining('500 upstream error') }]);
+      expect(requests.filter(r => r.url === '/flaky')).toHaveLength(3);
+    });
+  });
+
+  describe('email sink', () => {
+    let server: net.Server;
+    let port: number;
+    let session: { commands: string[]; data: string };
+
+    beforeAll(async () => {
+      server = net.createServer(socket => {
+        let buffer = '';
+        let inData = false;
+        const reply = (line: string) => socket.write(`${line}\r\n`);
+
+        socket.setEncoding('utf8');
+        reply('220 localhost ESMTP test');
+
+        socket.on('data', (chunk: string) => {
+          buffer += chunk;
+          let index: number;
+          while ((index = buffer.indexOf('\r\n')) >= 0) {
+            const line = buffer.slice(0, index);
+            buffer = buffer.slice(index + 2);
+
+            if (inData) {
+              if (line === '.') {
+                inData = false;
+                reply('250 queued');
+              } else {
+                session.data += `${line}\n`;
+              }
+              continue;
+            }
+
+            session.commands.push(line);
+            const verb = line.split(' ')[0].toUpperCase();
+            if (verb === 'EHLO') {
+              reply('250-localhost');
+              reply('250 AUTH PLAIN');
+            } else if (verb === 'AUTH') {
+              reply('235 authenticated');
+            } else if (verb === 'DATA') {
+              inData = true;
+              reply('354 end with .');
+            } else if (verb === 'QUIT') {
+              reply('221 bye');
+              socket.end();
+            } else {
+              reply('250 ok');
+            }
+          }
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      port = (server.address() as AddressInfo).port;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      session = { commands: [], data: '' };
+    });
+
+    test('should deliver a plain-text message over SMTP', async () => {
+      const sink = createNotificationSink({
+        name: 'email',
+        type: 'email',
+        smtp: {
+          host: '127.0.0.1',
+          port,
+          username: 'bot',
+          password: 'pw',
+          from: 'Poly Early Bot <bot@example.com>',
+          to: ['ops@example.com', 'trader@example.com'],
+        },
+      });
+
+      await sink.send(notification({
+        fields: [{ name: 'Note', value: '.leading dot\n[View](https://polymarket.com/event/bill)' }],
+      }));
+
+      expect(session.commands).toEqual([
+        expect.stringMatching(/^EHLO /),
+        `AUTH PLAIN ${Buffer.from('\0bot\0pw').toString('base64')}`,
+        'MAIL FROM:<bot@example.com>',
+        'RCPT TO:<ops@example.com>',
+        'RCPT TO:<trader@example.com>',
+        'DATA',
+        'QUIT',
+      ]);
+      expect(session.data).toContain('Subject: [CRITICAL] critical OPPORTUNITY - POLITICS\n');
+      expect(session.data).toContain('To: ops@example.com, trader@example.com\n');
+      expect(session.data).toContain('\n..leading dot\n'); // Dot-stuffed
+      expect(session.data).toContain('View: https://polymarket.com/event/bill');
+    });
+
+    test('should fail when the server rejects a recipient', async () => {
+      const rejecting = net.createServer(socket => {
+        socket.write('220 localhost\r\n');
+        socket.on('data', chunk => {
+          const line = chunk.toString();
+          if (line.startsWith('EHLO')) socket.write('250 localhost\r\n');
+          else if (line.startsWith('RCPT')) socket.write('550 no such user\r\n');
+          else socket.write('250 ok\r\n');
+        });
+      });
+      await new Promise<void>(resolve => rejecting.listen(0, '127.0.0.1', resolve));
+
+      const sink = createNotificationSink({
+        name: 'email',
+        type: 'email',
+        smtp: { host: '127.0.0.1', port: (rejecting.address() as AddressInfo).port, from: 'bot@example.com', to: ['nobody@example.com'] },
+      });
+
+      await expect(sink.send(notification())).rejects.toThrow('550 no such user');
+      await new Promise(resolve => rejecting.close(resolve));
+    });
+  });
+
+  describe('routing', () => {
+    const memorySink = (name: string): NotificationSink & { received: AlertNotification[] } => {
+      const received: AlertNotification[] = [];
+      return {
+        name,
+        type: 'webhook',
+        received,
+        send: async (n: AlertNotification) => { received.push(n); },
+      };
+    };
+
+    test('should match routes on priority, signal type and category', () => {
+      const router = new NotificationRouter(['ops', 'politics', 'flow', 'all'].map(memorySink), [
+        { name: 'critical', priorities: [AlertPriority.CRITICAL], sinks: ['ops'] },
+        { name: 'politics', categories: ['Politics'], priorities: [AlertPriority.HIGH, AlertPriority.MEDIUM], sinks: ['politics'] },
+        { name: 'flow', signalTypes: ['front_running_detected'], sinks: ['flow'] },
+        { name: 'catch_all', sinks: ['all'] },
+      ]);
+
+      expect(router.resolve(notification())).toEqual({ routes: ['critical', 'catch_all'], sinks: ['ops', 'all'] });
+      expect(router.resolve(notification({ priority: AlertPriority.HIGH }))).toEqual({
+        routes: ['politics', 'catch_all'],
+        sinks: ['politics', 'all'],
+      });
+      expect(router.resolve(notification({ priority: AlertPriority.HIGH, category: undefined, signalType: 'front_running_detected' }))).toEqual({
+        routes: ['flow', 'catch_all'],
+        sinks: ['flow', 'all'],
+      });
+    });
+
+    test('should stop at a matching route marked stop and deduplicate sinks', async () => {
+      const sinks = ['ops', 'all'].map(memorySink);
+      const router = new NotificationRouter(sinks, [
+        { name: 'critical', priorities: [AlertPriority.CRITICAL], sinks: ['ops', 'all'], stop: true },
+        { name: 'uncategorized', categories: ['uncategorized'], sinks: ['ops'] },
+        { name: 'catch_all', sinks: ['all'] },
+      ]);
+
+      const critical = await router.dispatch(notification({ category: undefined }));
+      expect(critical.routes).toEqual(['critical']);
+      expect(sinks.map(s => s.received.length)).toEqual([1, 1]);
+
+      const low = await router.dispatch(notification({ priority: AlertPriority.LOW, category: undefined }));
+      expect(low.routes).toEqual(['uncategorized', 'catch_all']);
+      expect(sinks.map(s => s.received.length)).toEqual([2, 2]);
+    });
+
+    test('should reject routes that reference unknown sinks', () => {
+      expect(() => new NotificationRouter([memorySink('ops')], [{ name: 'bad', sinks: ['ops', 'pager'] }]))
+        .toThrow('Route bad references unknown sinks: pager');
+    });
+
+    test('should derive default routes from the per-priority enable flags', () => {
+      const notifications = {
+        critical: { enableDiscord: true, enableWebhook: true },
+        high: { enableDiscord: true, enableWebhook: false },
+        medium: { enableDiscord: true, enableWebhook: false },
+        low: { enableDiscord: false, enableWebhook: false },
+      };
+
+      const routes = NotificationRouter.defaultRoutes([
+        { name: 'discord', type: 'discord', url: 'http://discord' },
+        { name: 'slack', type: 'slack', url: 'http://slack' },
+        { name: 'webhook', type: 'webhook', url: 'http://hook' },
+      ], notifications);
+
+      expect(routes).toEqual([
+        { name: 'default', priorities: [AlertPriority.CRITICAL, AlertPriority.HIGH, AlertPriority.MEDIUM], sinks: ['discord', 'slack'] },
+        { name: 'default_webhook', priorities: [AlertPriority.CRITICAL], sinks: ['webhook'] },
+      ]);
+    });
+  });
+});
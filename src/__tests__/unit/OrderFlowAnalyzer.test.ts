@@ -1,11 +1,13 @@
 import { OrderFlowAnalyzer } from '../../services/OrderFlowAnalyzer';
-import { BotConfig, OrderbookData } from '../../types';
+import { bulkVolumeBuyFraction } from '../../statistics/VPIN';
+import { BotConfig, OrderbookData, TickData } from '../../types';
 
 /**
  * OrderFlowAnalyzer Tests
  *
  * Tests for spread tightness and relative spread calculations.
- * Verifies fixes to calculateSpreadTightness() and getRelativeSpread().
+ * Verifies fixes to calculateSpreadTightness() and getRelativeSpread(),
+ * and VPIN flow toxicity from bulk-classified volume buckets.
  */
 describe('OrderFlowAnalyzer', () => {
   let analyzer: OrderFlowAnalyzer;
@@ -236,4 +238,67 @@ describe('OrderFlowAnalyzer', () => {
       expect(() => (analyzer as any).calculateFlowMetrics(emptyOrderbook)).not.toThrow();
     });
   });
+
+  describe('VPIN', () => {
+    const start = Date.UTC(2025, 0, 6, 12, 0, 0);
+
+    // One 500 notional trade per one-minute bar, so every closed bar fills one bucket
+    const trades = (prices: number[], marketId: string = 'test_market'): TickData[] =>
+      prices.map((price, i) => ({
+        timestamp: start + i * 60000, marketId, price, volume: 500 / price, side: 'buy', size: 500 / price
+      }));
+
+    test('should classify bar volume by the normalized price change', () => {
+      expect(bulkVolumeBuyFraction(0, 0.01)).toBeCloseTo(0.5);
+      expect(bulkVolumeBuyFraction(0.01, 0.01)).toBeCloseTo(0.841, 3);
+      expect(bulkVolumeBuyFraction(-0.01, 0.01)).toBeCloseTo(0.159, 3);
+      expect(bulkVolumeBuyFraction(0.01, 0)).toBe(1);
+    });
+
+    test('should report VPIN once enough buckets fill and stay low for balanced flow', () => {
+      const ticks = trades(Array(15).fill(0.5));
+      const results = ticks.map(tick => analyzer.recordTrade(tick));
+
+      // Ten closed bars are needed before VPIN is reported
+      expect(results.slice(0, 10).every(result => result === null)).toBe(true);
+      expect(results[10]).toMatchObject({ vpin: 0, buckets: 10, bucketVolume: 500 });
+      expect(analyzer.getVPIN('test_market')!.buckets).toBe(14);
+    });
+
+    test('should fill buckets by notional for live ticks carrying volume in shares', () => {
+      // As WebSocketService emits them: 1000 shares at 0.50 is 500 notional, one bucket per bar
+      for (let i = 0; i < 15; i++) {
+        analyzer.recordTrade({ timestamp: start + i * 60000, marketId: 'live', price: 0.5, volume: 1000, size: 1000, side: 'buy' });
+      }
+      expect(analyzer.getVPIN('live')).toMatchObject({ buckets: 14, bucketVolume: 500 });
+    });
+
+    test('should score one-sided flow as toxic and expose it in the flow metrics', () => {
+      trades(Array.from({ length: 30 }, (_, i) => 0.4 + i * 0.005)).forEach(tick => analyzer.recordTrade(tick));
+      trades(Array.from({ length: 30 }, (_, i) => (i % 2 === 0 ? 0.5 : 0.51)), 'choppy').forEach(tick => analyzer.recordTrade(tick));
+
+      const trending = analyzer.getVPIN('test_market')!;
+      expect(trending.vpin).toBeGreaterThan(0.9);
+      expect(trending.lastBucketImbalance).toBeGreaterThan(0.9);
+
+      // Alternating moves split each bar's volume, roughly 84/16
+      expect(analyzer.getVPIN('choppy')!.vpin).toBeCloseTo(0.68, 1);
+      expect(analyzer.getTopVPIN(2).map(result => result.marketId)).toEqual(['test_market', 'choppy']);
+
+      const metrics = (analyzer as any).calculateFlowMetrics(createOrderbook(0.54, 0.56));
+      expect(metrics.vpin).toBeCloseTo(trending.vpin);
+    });
+
+    test('should checkpoint and restore VPIN buckets', () => {
+      trades(Array.from({ length: 20 }, (_, i) => 0.4 + i * 0.005)).forEach(tick => analyzer.recordTrade(tick));
+
+      const restored = new OrderFlowAnalyzer(mockConfig);
+      restored.importMarketState('test_market', analyzer.exportMarketState('test_market')!);
+      expect(restored.getVPIN('test_market')).toEqual(analyzer.getVPIN('test_market'));
+
+      const next = trades(Array.from({ length: 21 }, (_, i) => 0.4 + i * 0.005))[20];
+      expect(restored.recordTrade(next)).toEqual(analyzer.recordTrade(next));
+      restored.dispose();
+    });
+  });
 });
@@ -0,0 +1,161 @@
+import { fillNotional, fillShares, OrderbookSnapshotIndex } from '../../backtesting/OrderbookFillModel';
+import { TradeSimulator } from '../../backtesting/TradeSimulator';
+import { BacktestTrade } from '../../backtesting/SignalToOutcomeMatcher';
+import { OrderbookData, OrderbookLevel } from '../../types';
+
+/**
+ * OrderbookFillModel Tests
+ *
+ * Verifies VWAP fills walked against stored snapshot depth, partial fills when
+ * the book is thin, and how TradeSimulator prices trades at the fills.
+ */
+describe('OrderbookFillModel', () => {
+  const level = (price: number, size: number): OrderbookLevel => ({ price, size, volume: price * size });
+
+  const book = (bids: OrderbookLevel[], asks: OrderbookLevel[], timestamp: number = 0): OrderbookData => ({
+    marketId: 'market_1',
+    timestamp,
+    bids,
+    asks,
+    spread: asks[0].price - bids[0].price,
+    midPrice: (asks[0].price + bids[0].price) / 2,
+    bestBid: bids[0].price,
+    bestAsk: asks[0].price,
+  });
+
+  // Mid 0.50; $50 at 0.51, $104 at 0.52
+  const thinBook = book([level(0.49, 100), level(0.48, 100)], [level(0.51, 100), level(0.52, 200)]);
+
+  test('should fill within the first level at the best ask', () => {
+    const fill = fillNotional(thinBook, 'buy', 25.5);
+
+    expect(fill.complete).toBe(true);
+    expect(fill.vwapPrice).toBeCloseTo(0.51, 6);
+    expect(fill.filledShares).toBeCloseTo(50, 6);
+    expect(fill.slippageBps).toBeCloseTo(200, 6); // 0.01 above a 0.50 mid
+    expect(fill.levelsConsumed).toBe(1);
+  });
+
+  test('should walk multiple levels for a volume-weighted price', () => {
+    const fill = fillNotional(thinBook, 'buy', 51 + 52);
+
+    expect(fill.complete).toBe(true);
+    expect(fill.filledShares).toBeCloseTo(200, 6);
+    expect(fill.vwapPrice).toBeCloseTo(0.515, 6);
+    expect(fill.levelsConsumed).toBe(2);
+  });
+
+  test('should return a partial fill when depth runs out', () => {
+    const fill = fillNotional(thinBook, 'buy', 1000);
+
+    expect(fill.complete).toBe(false);
+    expect(fill.filledNotional).toBeCloseTo(51 + 104, 6);
+    expect(fill.filledShares).toBeCloseTo(300, 6);
+  });
+
+  test('should report only the shares the bids absorb on exit', () => {
+    const fill = fillShares(thinBook, 'sell', 250);
+
+    expect(fill.complete).toBe(false);
+    // 100 @ 0.49, 100 @ 0.48, the remaining 50 unfilled
+    expect(fill.filledShares).toBe(200);
+    expect(fill.filledNotional).toBeCloseTo(49 + 48, 6);
+    expect(fill.vwapPrice).toBeCloseTo(0.485, 6);
+  });
+
+  describe('TradeSimulator with the orderbook impact model', () => {
+    const trade: BacktestTrade = {
+      entryTime: 1000,
+      exitTime: 2000,
+      entryPrice: 0.50,
+      exitPrice: 0.60,
+      direction: 'bullish',
+      size: 100,
+      pnl: 0,
+      pnlPercent: 0,
+      signalType: 'orderbook_imbalance',
+      confidence: 0.8,
+      marketId: 'market_1',
+      wasCorrect: true,
+      fees: 0,
+      slippage: 0,
+      netPnL: 0,
+    };
+
+    const createSimulator = () => new TradeSimulator({
+      initialCapital: 10000,
+      maxPositionSizePct: 10, // $1000 requested per trade
+      useKellyCriterion: false,
+      slippageBps: 20,
+      feeBps: 200,
+      marketImpactModel: 'orderbook',
+    });
+
+    test('should size the position to the filled notional and record slippage', () => {
+      const index = new OrderbookSnapshotIndex();
+      index.set('market_1', 1000, thinBook);
+      index.set('market_1', 2000, book([level(0.59, 1000)], [level(0.61, 1000)]));
+
+      const simulator = createSimulator();
+      simulator.setOrderbookIndex(index);
+      const [simulated] = simulator.simulateTrades([trade]).closedTrades;
+
+      expect(simulated.requestedSize).toBeCloseTo(1000, 6);
+      expect(simulated.size).toBeCloseTo(155, 6);
+      expect(simulated.fillRatio).toBeCloseTo(0.155, 6);
+      expect(simulated.entryFill?.vwapPrice).toBeCloseTo(155 / 300, 6);
+      expect(simulated.exitFill?.complete).toBe(true);
+
+      const expectedEntryBps = ((155 / 300 - 0.50) / 0.50) * 10000;
+      const expectedExitBps = ((0.60 - 0.59) / 0.60) * 10000;
+      expect(simulated.realizedSlippageBps).toBeCloseTo(expectedEntryBps + expectedExitBps, 6);
+      expect(simulated.exitFillRatio).toBe(1);
+    });
+
+    test('should trade at the fill prices and charge the book slippage once', () => {
+      const index = new OrderbookSnapshotIndex();
+      index.set('market_1', 1000, thinBook);
+      index.set('market_1', 2000, book([level(0.59, 1000)], [level(0.61, 1000)]));
+
+      const simulator = createSimulator();
+      simulator.setOrderbookIndex(index);
+      const [simulated] = simulator.simulateTrades([trade]).closedTrades;
+
+      // Bought 300 shares for $155, sold them at 0.59
+      expect(simulated.entryPrice).toBeCloseTo(155 / 300, 6);
+      expect(simulated.exitPrice).toBeCloseTo(0.59, 6);
+      expect(simulated.pnl).toBeCloseTo(300 * 0.59 - 155, 6);
+      expect(simulated.fees).toBeCloseTo(155 * 0.02 * 2, 6);
+      expect(simulated.netPnL).toBeCloseTo(simulated.pnl - simulated.fees, 6);
+    });
+
+    test('should mark shares the exit book cannot absorb with the formula model', () => {
+      const index = new OrderbookSnapshotIndex();
+      index.set('market_1', 1000, thinBook);
+      index.set('market_1', 2000, book([level(0.59, 120)], [level(0.61, 1000)]));
+
+      const simulator = createSimulator();
+      simulator.setOrderbookIndex(index);
+      const [simulated] = simulator.simulateTrades([trade]).closedTrades;
+
+      expect(simulated.exitFill?.complete).toBe(false);
+      expect(simulated.exitFill?.filledShares).toBeCloseTo(120, 6);
+      expect(simulated.exitFillRatio).toBeCloseTo(0.4, 6);
+
+      // 120 shares at the 0.59 bid, 180 below the 0.60 exit price
+      expect(simulated.exitPrice).toBeLessThan((120 * 0.59 + 180 * 0.60) / 300);
+      expect(simulated.exitPrice).toBeGreaterThan(0.55);
+      expect(simulated.pnl).toBeCloseTo(300 * simulated.exitPrice - 155, 6);
+    });
+
+    test('should fall back to the square_root model without snapshots', () => {
+      const simulator = createSimulator();
+      simulator.setOrderbookIndex(new OrderbookSnapshotIndex());
+      const [simulated] = simulator.simulateTrades([trade]).closedTrades;
+
+      expect(simulated.entryFill).toBeUndefined();
+      expect(simulated.fillRatio).toBe(1);
+      expect(simulated.realizedSlippageBps).toBeCloseTo((20 + simulated.marketImpactBps) * 2, 6);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { DatabaseManager } from '../../data/database';
+import { PaperTradingEngine } from '../../services/PaperTradingEngine';
+import { PriceHistoryTracker } from '../../services/PriceHistoryTracker';
+import { EarlySignal } from '../../types';
+
+/**
+ * PaperTradingEngine Tests
+ *
+ * Verifies that live signals open sized paper positions, that marks from the
+ * price tracker trigger stop-loss / take-profit exits, and that the portfolio
+ * is persisted and restored from the paper trading tables.
+ */
+describe('PaperTradingEngine', () => {
+  let database: DatabaseManager;
+  let tracker: PriceHistoryTracker;
+  let prices: Map<string, number>;
+
+  const config = {
+    initialCapital: 10000,
+    maxPositionSizePct: 10, // $1000 per trade
+    useKellyCriterion: false,
+    slippageBps: 50,
+    feeBps: 100,
+    marketImpactModel: 'none' as const,
+    stopLossPct: 10,
+    takeProfitPct: 20,
+    maxConcurrentPositions: 2,
+    minConfidence: 0.5,
+  };
+
+  const signal = (marketId: string, direction: string = 'bullish', confidence: number = 0.8): EarlySignal => ({
+    marketId,
+    market: {
+      id: marketId,
+      question: 'Will it happen?',
+      outcomes: ['Yes', 'No'],
+      outcomePrices: ['0.5', '0.5'],
+      volume: '50000',
+      volumeNum: 50000,
+      active: true,
+      closed: false,
+    },
+    signalType: 'orderbook_imbalance',
+    confidence,
+    timestamp: Date.now(),
+    metadata: { direction },
+  });
+
+  beforeEach(async () => {
+    database = new DatabaseManager({ provider: 'sqlite', database: ':memory:' });
+    await database.initialize();
+
+    prices = new Map();
+    tracker = new PriceHistoryTracker();
+    jest.spyOn(tracker, 'getCurrentPrice').mockImplementation((marketId) => prices.get(marketId) ?? null);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await database.close();
+  });
+
+  test('should open a sized position and persist the entry fill', async () => {
+    const engine = new PaperTradingEngine(database, tracker, config);
+    await engine.initialize();
+    prices.set('market_1', 0.40);
+
+    const position = await engine.handleSignal(signal('market_1'));
+
+    expect(position).not.toBeNull();
+    expect(position!.costBasis).toBeCloseTo(1000, 6);
+    expect(position!.entryPrice).toBeCloseTo(0.402, 6); // 50 bps above the mark
+    expect(position!.quantity).toBeCloseTo(1000 / 0.402, 6);
+    expect(position!.stopLossPrice).toBeCloseTo(0.402 * 0.9, 6);
+    expect(position!.takeProfitPrice).toBeCloseTo(0.402 * 1.2, 6);
+
+    const fills = await database.query('SELECT * FROM paper_fills WHERE position_id = $1', [position!.id]);
+    expect(fills).toHaveLength(1);
+    expect(fills[0].side).toBe('buy');
+    expect(parseFloat(fills[0].fee)).toBeCloseTo(10, 6);
+
+    const summary = await engine.getPortfolioSummary();
+    expect(summary.cash).toBeCloseTo(10000 - 1000 - 10, 6);
+    expect(summary.openPositions).toBe(1);
+    expect(summary.periodOpened).toBe(1);
+  });
+
+  test('should skip neutral, duplicate and over-limit signals', async () => {
+    const engine = new PaperTradingEngine(database, tracker, config);
+    await engine.initialize();
+
+    expect(await engine.handleSignal(signal('market_1', 'neutral'))).toBeNull();
+    expect(await engine.handleSignal(signal('market_1', 'bullish', 0.3))).toBeNull();
+    expect(await engine.handleSignal(signal('market_1'))).not.toBeNull();
+    expect(await engine.handleSignal(signal('market_1'))).toBeNull();
+    expect(await engine.handleSignal(signal('market_2', 'bearish'))).not.toBeNull();
+    expect(await engine.handleSignal(signal('market_3'))).toBeNull(); // maxConcurrentPositions = 2
+
+    expect(engine.getOpenPositions()).toHaveLength(2);
+  });
+
+  test('should close at take-profit and stop-loss when marked to market', async () => {
+    const engine = new PaperTradingEngine(database, tracker, config);
+    await engine.initialize();
+    prices.set('market_1', 0.40);
+    prices.set('market_2', 0.40);
+
+    await engine.handleSignal(signal('market_1', 'bullish'));
+    await engine.handleSignal(signal('market_2', 'bearish'));
+
+    prices.set('market_1', 0.50); // Long take-profit at 0.4824
+    prices.set('market_2', 0.45); // Short stop-loss at 0.4378
+    const closed = await engine.markToMarket();
+
+    expect(closed.map(p => p.exitReason).sort()).toEqual(['stop_loss', 'take_profit']);
+
+    // Gross P&L on the slipped exit, minus the 1% entry and exit fees
+    const long = closed.find(p => p.direction === 'bullish')!;
+    const longShares = 1000 / 0.402;
+    expect(long.exitPrice).toBeCloseTo(0.4975, 6);
+    expect(long.realizedPnL).toBeCloseTo(longShares * (0.4975 - 0.402) - 10 - longShares * 0.4975 * 0.01, 6);
+
+    const short = closed.find(p => p.direction === 'bearish')!;
+    const shortShares = 899 / 0.398; // 10% of the $8990 left after the first entry
+    expect(short.exitPrice).toBeCloseTo(0.45225, 6);
+    expect(short.realizedPnL).toBeCloseTo(shortShares * (0.398 - 0.45225) - 8.99 - shortShares * 0.45225 * 0.01, 6);
+
+    const summary = await engine.getPortfolioSummary();
+    expect(summary.openPositions).toBe(0);
+    expect(summary.closedPositions).toBe(2);
+    expect(summary.realizedPnL).toBeCloseTo(long.realizedPnL! + short.realizedPnL!, 6);
+    expect(summary.equity).toBeCloseTo(10000 + summary.realizedPnL, 6);
+    expect(summary.winRate).toBeCloseTo(0.5, 6);
+
+    const fills = await database.query('SELECT * FROM paper_fills');
+    expect(fills).toHaveLength(4);
+  });
+
+  test('should restore open positions and cash after a restart', async () => {
+    const engine = new PaperTradingEngine(database, tracker, config);
+    await engine.initialize();
+    prices.set('market_1', 0.40);
+    await engine.handleSignal(signal('market_1'));
+
+    const restarted = new PaperTradingEngine(database, tracker, config);
+    await restarted.initialize();
+
+    const [position] = restarted.getOpenPositions();
+    expect(position.marketId).toBe('market_1');
+    expect(position.quantity).toBeCloseTo(1000 / 0.402, 6);
+
+    const summary = await restarted.getPortfolioSummary();
+    expect(summary.cash).toBeCloseTo(8990, 6);
+  });
+});
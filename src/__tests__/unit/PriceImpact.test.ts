@@ -0,0 +1,106 @@
+import { buildImpactIntervals, estimatePriceImpact, MidPricePoint } from '../../statistics/PriceImpact';
+import { TradeSimulator } from '../../backtesting/TradeSimulator';
+import { TickData } from '../../types';
+
+/**
+ * PriceImpact Tests
+ *
+ * Covers recovering a known Kyle's lambda from synthetic flow, withholding
+ * impact when the fit is not significant, Amihud illiquidity, the
+ * too-little-data cases, and the simulator's kyle_lambda model.
+ */
+describe('PriceImpact', () => {
+  const start = Date.UTC(2025, 0, 6, 12, 0, 0);
+  const intervalMs = 300000;
+  const lambda = 0.00002; // 2 cents per $1k of net buying
+
+  const trade = (timestamp: number, side: 'buy' | 'sell', size: number): TickData => ({
+    timestamp, marketId: 'm1', price: 0.5, volume: size, side, size
+  });
+
+  // One trade per interval with alternating, varying net flow; the mid moves by exactly lambda * flow
+  const syntheticMarket = (intervals: number) => {
+    const trades: TickData[] = [];
+    const mids: MidPricePoint[] = [{ timestamp: start, midPrice: 0.5 }];
+    let mid = 0.5;
+    for (let i = 0; i < intervals; i++) {
+      const side = i % 2 === 0 ? 'buy' : 'sell';
+      const size = 200 + (i % 5) * 100;
+      trades.push(trade(start + i * intervalMs + 1000, side, size));
+
+      const signedNotional = (side === 'buy' ? 1 : -1) * 0.5 * size;
+      mid += lambda * signedNotional;
+      mids.push({ timestamp: start + (i + 1) * intervalMs, midPrice: mid });
+    }
+    return { trades, mids, windowEnd: start + intervals * intervalMs };
+  };
+
+  test('should recover a known lambda from signed flow and mid changes', () => {
+    const { trades, mids, windowEnd } = syntheticMarket(24);
+    const estimate = estimatePriceImpact('m1', trades, mids, start, windowEnd)!;
+
+    expect(estimate.intervals).toBe(24);
+    expect(estimate.kyleLambda).toBeCloseTo(lambda, 10);
+    expect(estimate.rSquared).toBeCloseTo(1, 6);
+    expect(estimate.impactBpsPer1k).toBeCloseTo(200, 6);
+    expect(estimate.windowStart).toBe(start);
+    expect(estimate.windowEnd).toBe(windowEnd);
+  });
+
+  test('should leave impact in bps unset when flow does not explain the mid changes', () => {
+    const { trades, windowEnd } = syntheticMarket(24);
+    // Mid moves that ignore the flow's direction and size
+    const mids = Array.from({ length: 25 }, (_, i) => ({ timestamp: start + i * intervalMs, midPrice: 0.5 + ((i * 7) % 3 - 1) * 0.002 }));
+    const estimate = estimatePriceImpact('m1', trades, mids, start, windowEnd)!;
+
+    expect(estimate.intervals).toBe(24);
+    expect(Math.abs(estimate.lambdaTStat)).toBeLessThan(2);
+    expect(estimate.impactBpsPer1k).toBeUndefined();
+  });
+
+  test('should measure Amihud as mean absolute return per $1k traded', () => {
+    const { trades, mids, windowEnd } = syntheticMarket(12);
+    const intervals = buildImpactIntervals(trades, mids, start, windowEnd, intervalMs);
+    const expected = intervals.reduce((sum, interval) =>
+      sum + Math.abs(interval.priceChange / interval.startPrice) / interval.volume, 0) / intervals.length * 1000 * 10000;
+
+    const estimate = estimatePriceImpact('m1', trades, mids, start, windowEnd)!;
+    expect(estimate.amihud).toBeCloseTo(expected, 6);
+    expect(estimate.amihud).toBeGreaterThan(0);
+  });
+
+  test('should fall back to trade prices and skip intervals without trades', () => {
+    const trades = [trade(start + 1000, 'buy', 100), trade(start + 2 * intervalMs + 1000, 'sell', 100)];
+    const intervals = buildImpactIntervals(trades, [], start, start + 3 * intervalMs, intervalMs);
+
+    // The first interval has no price before its first trade; the second has no trades
+    expect(intervals).toHaveLength(1);
+    expect(intervals[0]).toMatchObject({ start: start + 2 * intervalMs, signedVolume: -50, volume: 50, startPrice: 0.5 });
+  });
+
+  test('should return null with too few intervals or constant flow', () => {
+    const { trades, mids, windowEnd } = syntheticMarket(6);
+    expect(estimatePriceImpact('m1', trades, mids, start, windowEnd)).toBeNull();
+
+    const constantTrades = Array.from({ length: 12 }, (_, i) => trade(start + i * intervalMs + 1000, 'buy', 100));
+    const constantMids = Array.from({ length: 13 }, (_, i) => ({ timestamp: start + i * intervalMs, midPrice: 0.5 }));
+    expect(estimatePriceImpact('m1', constantTrades, constantMids, start, start + 12 * intervalMs)).toBeNull();
+  });
+
+  test('should charge half the lambda walk under the kyle_lambda model', () => {
+    const { trades, mids, windowEnd } = syntheticMarket(24);
+    const estimate = estimatePriceImpact('m1', trades, mids, start, windowEnd)!;
+
+    const simulator = new TradeSimulator({ slippageBps: 20, marketImpactModel: 'kyle_lambda' });
+    simulator.setPriceImpactEstimates([estimate]);
+
+    // $1000 walks the price 2 cents; the average fill pays 1 cent, 200 bps of a 0.50 price, capped at 100
+    expect(simulator.estimateExecutionCostBps(1000, 0.5, 'm1')).toBeCloseTo(20 + 100, 6);
+    // $200 pays 0.2 cents, 40 bps
+    expect(simulator.estimateExecutionCostBps(200, 0.5, 'm1')).toBeCloseTo(20 + 40, 6);
+
+    // Markets without an estimate use the square_root model
+    const fallback = new TradeSimulator({ slippageBps: 20, marketImpactModel: 'square_root' });
+    expect(simulator.estimateExecutionCostBps(200, 0.5, 'm2')).toBeCloseTo(fallback.estimateExecutionCostBps(200, 0.5), 6);
+  });
+});
@@ -0,0 +1,97 @@
+import { MetricsCollector } from '../../monitoring/MetricsCollector';
+import { MetricsServer } from '../../monitoring/MetricsServer';
+import { renderPrometheusMetrics, toPrometheusName } from '../../monitoring/PrometheusExporter';
+
+/**
+ * PrometheusExporter Tests
+ *
+ * Covers counters and gauges with their tags, cumulative histogram buckets,
+ * name and label escaping, process metrics and the standalone scrape endpoint.
+ */
+describe('PrometheusExporter', () => {
+  let collector: MetricsCollector;
+
+  beforeEach(() => {
+    collector = new MetricsCollector();
+  });
+
+  test('should render counters and gauges with their tags as labels', () => {
+    collector.incrementCounter('signals.generated', 1, { signalType: 'volume_spike' });
+    collector.incrementCounter('signals.generated', 2, { signalType: 'volume_spike' });
+    collector.incrementCounter('signals.generated', 1, { signalType: 'smart_money' });
+    collector.setGauge('websocket.connected', 1);
+
+    const output = renderPrometheusMetrics(collector.getSnapshot(), { includeProcessMetrics: false });
+
+    expect(output).toContain('# TYPE polybot_signals_generated_total counter\n');
+    expect(output).toContain('polybot_signals_generated_total{signalType="volume_spike"} 3\n');
+    expect(output).toContain('polybot_signals_generated_total{signalType="smart_money"} 1\n');
+    expect(output.match(/# TYPE polybot_signals_generated_total/g)).toHaveLength(1);
+    expect(output).toContain('# TYPE polybot_websocket_connected gauge\npolybot_websocket_connected 1\n');
+    expect(output).not.toContain('process_');
+  });
+
+  test('should expose histograms as cumulative buckets with sum and count', () => {
+    collector.setHistogramBuckets('scan.duration', [100, 500, 1000]);
+    for (const value of [50, 80, 300, 2000]) {
+      collector.recordHistogram('scan.duration', value, { phase: 'full' });
+    }
+
+    const output = renderPrometheusMetrics(collector.getSnapshot(), { includeProcessMetrics: false });
+
+    expect(output).toContain('# TYPE polybot_scan_duration histogram\n');
+    expect(output).toContain('polybot_scan_duration_bucket{phase="full",le="100"} 2\n');
+    expect(output).toContain('polybot_scan_duration_bucket{phase="full",le="500"} 3\n');
+    expect(output).toContain('polybot_scan_duration_bucket{phase="full",le="1000"} 3\n');
+    expect(output).toContain('polybot_scan_duration_bucket{phase="full",le="+Inf"} 4\n');
+    expect(output).toContain('polybot_scan_duration_sum{phase="full"} 2430\n');
+    expect(output).toContain('polybot_scan_duration_count{phase="full"} 4\n');
+  });
+
+  test('should choose duration buckets for timing histograms', () => {
+    collector.recordHistogram('database.operation_duration', 42);
+    collector.recordHistogram('signals.confidence_distribution', 0.8);
+
+    const [duration, confidence] = collector.getSnapshot().histograms;
+    expect(duration.buckets.map(bucket => bucket.le)).toContain(60000);
+    expect(confidence.buckets.map(bucket => bucket.le)).toContain(0.9);
+    expect(confidence.buckets.find(bucket => bucket.le === 0.9)!.count).toBe(1);
+  });
+
+  test('should sanitize names and escape label values', () => {
+    expect(toPrometheusName('batch_processing.save-ticks.count')).toBe('polybot_batch_processing_save_ticks_count');
+    expect(toPrometheusName('2fa.checks', '')).toBe('_2fa_checks');
+
+    collector.setGauge('markets.last_question', 1, { question: 'Will "X" win?\nC:\\path' });
+    const output = renderPrometheusMetrics(collector.getSnapshot(), { includeProcessMetrics: false });
+    expect(output).toContain('polybot_markets_last_question{question="Will \\"X\\" win?\\nC:\\\\path"} 1\n');
+  });
+
+  test('should include process metrics', () => {
+    const output = renderPrometheusMetrics(collector.getSnapshot());
+
+    expect(output).toMatch(/^process_cpu_seconds_total \d/m);
+    expect(output).toMatch(/^process_resident_memory_bytes \d+$/m);
+    expect(output).toMatch(/^process_start_time_seconds \d+$/m);
+    expect(output).toContain(`nodejs_version_info{version="${process.version}"} 1\n`);
+  });
+
+  test('should serve metrics from the standalone endpoint with optional auth', async () => {
+    const server = new MetricsServer({ port: 0, host: '127.0.0.1', authToken: 'secret' });
+    await server.start();
+
+    try {
+      const url = `http://127.0.0.1:${server.getPort()}`;
+
+      const ok = await fetch(`${url}/metrics`, { headers: { Authorization: 'Bearer secret' } });
+      expect(ok.status).toBe(200);
+      expect(ok.headers.get('content-type')).toContain('text/plain; version=0.0.4');
+      expect(await ok.text()).toContain('# TYPE process_cpu_seconds_total counter');
+
+      expect((await fetch(`${url}/metrics`)).status).toBe(401);
+      expect((await fetch(`${url}/other`, { headers: { Authorization: 'Bearer secret' } })).status).toBe(404);
+    } finally {
+      await server.stop();
+    }
+  });
+});
@@ -69,6 +69,8 @@ describe('Quality Score Impact Analysis', () => {
         liquidityWeight: 0.3,
         optimalSpreadBps: 150,  // 1.5% spread is optimal
         maxAgeDays: 60,
+        liquidImpactBps: 25,
+        illiquidImpactBps: 500,
       },
     };
 
@@ -307,6 +309,38 @@ describe('Quality Score Impact Analysis', () => {
     });
   });
 
+  describe('Measured Price Impact', () => {
+    const market = (impactBpsPer1k?: number): Market => ({
+      id: 'market_impact',
+      question: 'Will this happen?',
+      outcomes: ['Yes', 'No'],
+      outcomePrices: ['0.40', '0.60'],
+      volume: '100000',
+      volumeNum: 100000,
+      active: true,
+      closed: false,
+      category: 'politics',
+      categoryScore: 5,
+      outcomeCount: 2,
+      spread: 150,
+      impactBpsPer1k,
+      marketAge: 2 * 24 * 60 * 60 * 1000,
+      timeToClose: 10 * 24 * 60 * 60 * 1000,
+    });
+
+    test('liquidity component follows measured impact when an estimate exists', () => {
+      // 2x threshold volume earns full volume-based liquidity points (6)
+      const byVolume = categorizer.calculateOpportunityScore(market()).qualityScore;
+      const liquid = categorizer.calculateOpportunityScore(market(10)).qualityScore;
+      const halfway = categorizer.calculateOpportunityScore(market(262.5)).qualityScore;
+      const illiquid = categorizer.calculateOpportunityScore(market(800)).qualityScore;
+
+      expect(liquid).toBeCloseTo(byVolume, 1);
+      expect(halfway).toBeCloseTo(byVolume - 3, 1);
+      expect(illiquid).toBeCloseTo(byVolume - 6, 1);
+    });
+  });
+
   describe('Parameter Validation', () => {
     test('optimalSpreadBps of 150 is reasonable for prediction markets', () => {
       // 150 bps = 1.5% spread
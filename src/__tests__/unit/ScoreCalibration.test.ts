@@ -0,0 +1,171 @@
+import { DatabaseManager } from '../../data/database';
+import { FrontRunningCalibrator } from '../../backtesting/FrontRunningCalibrator';
+import {
+  applyCalibration,
+  brierScore,
+  CalibrationSample,
+  fitIsotonic,
+  fitPlatt,
+  reliabilityDiagram
+} from '../../statistics/ScoreCalibration';
+
+/**
+ * Score calibration Tests
+ *
+ * Covers isotonic and Platt fitting, Brier score and reliability diagrams,
+ * and FrontRunningCalibrator labeling stored scores with subsequent price moves.
+ */
+describe('ScoreCalibration', () => {
+  // Outcome rate rises with score: 10% below 0.3, 50% in the middle, 90% above 0.7
+  const samples = (): CalibrationSample[] => {
+    const result: CalibrationSample[] = [];
+    for (let i = 0; i < 300; i++) {
+      const score = (i % 100) / 100;
+      const rate = score < 0.3 ? 0.1 : score < 0.7 ? 0.5 : 0.9;
+      result.push({ score, outcome: (i * 7919) % 100 < rate * 100 });
+    }
+    return result;
+  };
+
+  describe('fitIsotonic', () => {
+    test('should produce a monotone curve that tracks observed rates', () => {
+      const curve = fitIsotonic(samples());
+
+      for (let i = 1; i < curve.points.length; i++) {
+        expect(curve.points[i].score).toBeGreaterThan(curve.points[i - 1].score);
+        expect(curve.points[i].probability).toBeGreaterThanOrEqual(curve.points[i - 1].probability);
+      }
+      expect(applyCalibration(curve, 0.1)).toBeLessThan(0.3);
+      expect(applyCalibration(curve, 0.9)).toBeGreaterThan(0.7);
+      expect(applyCalibration(curve, -1)).toBe(curve.points[0].probability);
+      expect(applyCalibration(curve, 2)).toBe(curve.points[curve.points.length - 1].probability);
+    });
+
+    test('should pool violators into one block', () => {
+      const curve = fitIsotonic([
+        { score: 0.1, outcome: true },
+        { score: 0.2, outcome: false },
+        { score: 0.3, outcome: true },
+        { score: 0.3, outcome: true },
+      ]);
+
+      expect(curve.points).toEqual([
+        { score: expect.closeTo(0.15), probability: 0.5 },
+        { score: 0.3, probability: 1 },
+      ]);
+      expect(applyCalibration(curve, 0.225)).toBeCloseTo(0.75);
+    });
+  });
+
+  describe('fitPlatt', () => {
+    test('should fit an increasing sigmoid', () => {
+      const curve = fitPlatt(samples());
+
+      expect(curve.platt!.a).toBeLessThan(0);
+      expect(applyCalibration(curve, 0.1)).toBeLessThan(curve.baseRate);
+      expect(applyCalibration(curve, 0.9)).toBeGreaterThan(curve.baseRate);
+    });
+
+    test('should stay finite on perfectly separable data', () => {
+      const curve = fitPlatt([0.1, 0.2, 0.3, 0.7, 0.8, 0.9].map(score => ({ score, outcome: score > 0.5 })));
+
+      expect(Number.isFinite(curve.platt!.a)).toBe(true);
+      expect(applyCalibration(curve, 0.9)).toBeLessThan(1);
+      expect(applyCalibration(curve, 0.9)).toBeGreaterThan(0.5);
+    });
+  });
+
+  describe('brierScore and reliabilityDiagram', () => {
+    test('should score predictions and bin them', () => {
+      const predictions = [
+        { probability: 0.9, outcome: true },
+        { probability: 0.8, outcome: false },
+        { probability: 0.15, outcome: false },
+        { probability: 1, outcome: true },
+      ];
+
+      expect(brierScore(predictions)).toBeCloseTo((0.01 + 0.64 + 0.0225 + 0) / 4);
+      expect(brierScore([])).toBe(0);
+
+      expect(reliabilityDiagram(predictions)).toEqual([
+        { lower: 0.1, upper: 0.2, count: 1, meanPredicted: 0.15, observedRate: 0 },
+        { lower: 0.8, upper: 0.9, count: 1, meanPredicted: 0.8, observedRate: 0 },
+        { lower: 0.9, upper: 1, count: 2, meanPredicted: 0.95, observedRate: 1 },
+      ]);
+    });
+  });
+
+  describe('FrontRunningCalibrator', () => {
+    let database: DatabaseManager;
+    const base = Date.parse('2024-06-01T00:00:00Z');
+    const minutes = (n: number) => base + n * 60 * 1000;
+
+    const insertScore = (marketId: string, timestamp: number, score: number, heuristicLeakProbability: number) =>
+      database.query(`
+        INSERT INTO front_running_scores (market_id, timestamp, score, confidence, leak_probability, metadata)
+        VALUES ($1, datetime($2 / 1000, 'unixepoch'), $3, 0.5, $4, $5)
+      `, [marketId, timestamp, score, heuristicLeakProbability, JSON.stringify({ heuristicLeakProbability })]);
+
+    const insertPrice = (marketId: string, timestamp: number, price: number) =>
+      database.query(`
+        INSERT INTO market_prices (market_id, timestamp, outcome_index, price)
+        VALUES ($1, datetime($2 / 1000, 'unixepoch'), 0, $3)
+      `, [marketId, timestamp, price]);
+
+    beforeEach(async () => {
+      database = new DatabaseManager({ provider: 'sqlite', database: ':memory:' });
+      await database.initialize();
+    });
+
+    afterEach(async () => {
+      await database.close();
+    });
+
+    test('should label scores with the move over the horizon', async () => {
+      await insertPrice('market_1', minutes(0), 0.5);
+      await insertPrice('market_1', minutes(30), 0.52);   // +4%
+      await insertPrice('market_1', minutes(60), 0.5225); // +0.5%
+      await insertScore('market_1', minutes(0), 0.8, 0.6);
+      await insertScore('market_1', minutes(30), 0.2, 0.3);
+      await insertScore('market_1', minutes(50), 0.5, 0.4); // No price after the horizon
+      await insertScore('market_2', minutes(1), 0.5, 0.4);  // No prices at all
+
+      const samples = await new FrontRunningCalibrator(database)
+        .loadSamples(new Date(minutes(0)), new Date(minutes(120)));
+
+      expect(samples).toHaveLength(2);
+      expect(samples[0]).toMatchObject({ marketId: 'market_1', score: 0.8, outcome: true, heuristicProbability: 0.6 });
+      expect(samples[0].movementPct).toBeCloseTo(4);
+      expect(samples[1]).toMatchObject({ score: 0.2, outcome: false });
+      expect(samples[1].movementPct).toBeCloseTo(0.48, 1);
+    });
+
+    test('should fit, save and reload the latest curve', async () => {
+      // Price moves 2% in the minute after even minutes and is flat after odd ones; scores are high only before the moves
+      for (let i = 0; i <= 120; i++) {
+        await insertPrice('market_1', minutes(i), [0.5, 0.51, 0.51, 0.5][i % 4]);
+      }
+      for (let i = 0; i < 60; i++) {
+        const moves = i % 2 === 0;
+        await insertScore('market_1', minutes(i), moves ? 0.8 : 0.2, 0.5);
+      }
+
+      const calibrator = new FrontRunningCalibrator(database);
+      expect(await calibrator.loadLatest()).toBeNull();
+
+      const result = await calibrator.fit(new Date(minutes(0)), new Date(minutes(120)), 'isotonic', { horizonMinutes: 1 });
+
+      expect(result.curve.sampleSize).toBe(60);
+      expect(result.uncalibrated.brierScore).toBeCloseTo(0.25);
+      expect(result.calibrated.brierScore).toBeCloseTo(0);
+      expect(applyCalibration(result.curve, 0.8)).toBe(1);
+      expect(applyCalibration(result.curve, 0.2)).toBe(0);
+
+      await calibrator.save(result);
+      expect(await calibrator.loadLatest()).toEqual(result.curve);
+
+      await expect(calibrator.fit(new Date(minutes(0)), new Date(minutes(10)), 'platt', { horizonMinutes: 1 }))
+        .rejects.toThrow('Not enough labeled scores');
+    });
+  });
+});
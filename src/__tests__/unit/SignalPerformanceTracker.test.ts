@@ -0,0 +1,197 @@
+import { DatabaseManager } from '../../data/database';
+import { DataAccessLayer } from '../../data/DataAccessLayer';
+import { AlertManager } from '../../services/AlertManager';
+import { SignalPerformanceTracker } from '../../services/SignalPerformanceTracker';
+import { EarlySignal, MarketTier } from '../../types';
+
+/**
+ * SignalPerformanceTracker validation Tests
+ *
+ * Covers manual validations persisted against the signals and
+ * signal_performance rows, the human-labeled accuracy series, and how
+ * AlertManager uses it alongside operator snooze/mute/acknowledge actions,
+ * including mutes and snoozes restored from storage.
+ */
+describe('SignalPerformanceTracker validations', () => {
+  let database: DatabaseManager;
+  let tracker: SignalPerformanceTracker;
+
+  const signal = (signalType: EarlySignal['signalType'] = 'volume_spike', marketId = 'market_1'): EarlySignal => ({
+    marketId,
+    market: {
+      id: marketId,
+      question: 'Will the Fed cut rates?',
+      outcomes: ['Yes', 'No'],
+      outcomePrices: ['0.4', '0.6'],
+      volume: '50000',
+      volumeNum: 50000,
+      active: true,
+      closed: false,
+      endDate: '2024-03-01T00:00:00Z',
+      category: 'fed',
+      categoryScore: 1,
+      opportunityScore: 60,
+      tier: MarketTier.ACTIVE,
+    },
+    signalType,
+    confidence: 0.8,
+    timestamp: Date.now(),
+    metadata: {},
+  });
+
+  // Persist like EarlyBot does: signals row first, then the linked performance record
+  const track = async (signalType: EarlySignal['signalType'] = 'volume_spike') => {
+    const tracked = signal(signalType);
+    const signalId = await new DataAccessLayer(database).saveSignal(tracked);
+    const performanceId = await tracker.trackSignal(tracked, tracked.market, signalId);
+    return { signalId, performanceId };
+  };
+
+  beforeEach(async () => {
+    database = new DatabaseManager({ provider: 'sqlite', database: ':memory:' });
+    await database.initialize();
+    tracker = new SignalPerformanceTracker(database);
+    await tracker.initialize();
+  });
+
+  afterEach(async () => {
+    await database.close();
+  });
+
+  test('should store a validation against both rows', async () => {
+    const { signalId, performanceId } = await track();
+
+    const validation = await tracker.recordValidation(String(signalId), { correct: true, notes: 'front-ran the news', validatedBy: 'alice' });
+
+    expect(validation).toMatchObject({ signalId, performanceId, signalType: 'volume_spike', correct: true });
+
+    const [signalRow] = await database.query('SELECT * FROM signals WHERE id = $1', [signalId]);
+    expect(Boolean(signalRow.validated)).toBe(true);
+    expect(Boolean(signalRow.outcome)).toBe(true);
+
+    const [performanceRow] = await database.query('SELECT * FROM signal_performance WHERE id = $1', [performanceId]);
+    expect(JSON.parse(performanceRow.metadata).humanValidation).toMatchObject({
+      correct: true,
+      notes: 'front-ran the news',
+      validatedBy: 'alice',
+    });
+  });
+
+  test('should replace an earlier label whichever id is used', async () => {
+    const { signalId, performanceId } = await track();
+
+    await tracker.recordValidation(String(signalId), { correct: true });
+    await tracker.recordValidation(performanceId, { correct: false });
+
+    const rows = await database.query('SELECT * FROM signal_validations');
+    expect(rows).toHaveLength(1);
+    expect(Boolean(rows[0].correct)).toBe(false);
+
+    expect(await tracker.recordValidation('999', { correct: true })).toBeNull();
+    expect(await tracker.recordValidation('00000000-0000-0000-0000-000000000000', { correct: true })).toBeNull();
+  });
+
+  test('should report human-labeled accuracy separately from resolution accuracy', async () => {
+    for (const correct of [true, false, false, false]) {
+      const { performanceId } = await track('volume_spike');
+      await tracker.recordValidation(performanceId, { correct });
+    }
+
+    const stats = await tracker.getSignalTypeStats('volume_spike');
+    expect(stats?.accuracy).toBe(0);
+    expect(stats?.humanLabeled).toMatchObject({ sampleSize: 4, correct: 1, accuracy: 0.25 });
+    expect(stats?.humanLabeled.posteriorAccuracy).toBeCloseTo((0.25 * 4 + 0.5 * 10) / 14);
+
+    const all = await tracker.getAllSignalTypeStats();
+    expect(all.find(s => s.signalType === 'price_movement')?.humanLabeled.sampleSize).toBe(0);
+  });
+
+  describe('AlertManager', () => {
+    let alertManager: AlertManager;
+
+    beforeEach(() => {
+      alertManager = new AlertManager();
+    });
+
+    test('should down-weight signal types with low human-labeled precision', async () => {
+      for (let i = 0; i < 20; i++) {
+        const { performanceId } = await track('volume_spike');
+        await tracker.recordValidation(performanceId, { correct: i < 5 });
+      }
+      for (let i = 0; i < 20; i++) {
+        const { performanceId } = await track('price_movement');
+        await tracker.recordValidation(performanceId, { correct: i < 15 });
+      }
+      const { performanceId } = await track('spread_anomaly');
+      await tracker.recordValidation(performanceId, { correct: false });
+
+      alertManager.updateHumanPrecision(await tracker.getHumanLabeledStats());
+
+      // 5/20 correct: posterior (5 + 5) / 30, weight scaled by the 0.5 threshold
+      expect(alertManager.getSignalTypeWeight('volume_spike')).toBeCloseTo((10 / 30) / 0.5);
+      expect(alertManager.getSignalTypeWeight('price_movement')).toBe(1);
+      expect(alertManager.getSignalTypeWeight('spread_anomaly')).toBe(1); // Too few labels
+
+      expect(alertManager.evaluateAlert(signal('volume_spike')).adjustedScore).toBe(Math.round(60 * (10 / 30) / 0.5));
+      expect(alertManager.evaluateAlert(signal('price_movement')).adjustedScore).toBe(60);
+    });
+
+    test('should block snoozed and muted markets until they expire or are unmuted', () => {
+      const now = Date.now();
+      alertManager.snoozeMarket('market_1', 30, 'alice', now);
+      alertManager.muteMarket('market_2');
+
+      const snoozed = alertManager.evaluateAlert(signal());
+      expect(snoozed).toMatchObject({ shouldAlert: false, blockedBy: 'snoozed' });
+      expect(snoozed.reason).toMatch(/Market snoozed: (29|30)min remaining/);
+      expect(alertManager.evaluateAlert(signal('volume_spike', 'market_2')).blockedBy).toBe('muted');
+
+      expect(alertManager.getMarketSuppressions(now + 31 * 60 * 1000).map(s => s.marketId)).toEqual(['market_2']);
+      expect(alertManager.evaluateAlert(signal()).shouldAlert).toBe(true);
+
+      expect(alertManager.unmuteMarket('market_2')).toBe(true);
+      expect(alertManager.unmuteMarket('market_2')).toBe(false);
+      expect(alertManager.evaluateAlert(signal('volume_spike', 'market_2')).shouldAlert).toBe(true);
+    });
+
+    test('should restore stored mutes and snoozes after a restart', async () => {
+      const dataLayer = new DataAccessLayer(database);
+      const writes: Promise<void>[] = [];
+      alertManager.onMarketSuppressionChange((marketId, suppression) => {
+        writes.push(suppression ? dataLayer.saveMarketSuppression(suppression) : dataLayer.deleteMarketSuppression(marketId));
+      });
+
+      const now = Math.floor(Date.now() / 1000) * 1000; // Stored to the second
+      alertManager.snoozeMarket('market_1', 30, 'alice', now);
+      alertManager.muteMarket('market_2', undefined, now);
+      alertManager.snoozeMarket('market_3', 1, 'bob', now);
+      alertManager.muteMarket('market_4', 'bob', now);
+      alertManager.unmuteMarket('market_4');
+      await Promise.all(writes);
+
+      const restarted = new AlertManager();
+      const deletes: Promise<void>[] = [];
+      restarted.onMarketSuppressionChange((marketId, suppression) => {
+        if (!suppression) deletes.push(dataLayer.deleteMarketSuppression(marketId));
+      });
+      expect(restarted.restoreMarketSuppressions(await dataLayer.getMarketSuppressions(), now + 5 * 60 * 1000)).toBe(2);
+      expect(restarted.getMarketSuppressions(now + 5 * 60 * 1000)).toEqual([
+        { marketId: 'market_1', mode: 'snoozed', until: now + 30 * 60 * 1000, createdAt: now, createdBy: 'alice' },
+        { marketId: 'market_2', mode: 'muted', createdAt: now }
+      ]);
+
+      // The snooze that expired while stopped is dropped from storage
+      await Promise.all(deletes);
+      expect((await dataLayer.getMarketSuppressions()).map(s => s.marketId).sort()).toEqual(['market_1', 'market_2']);
+    });
+
+    test('should acknowledge outstanding alerts once', () => {
+      alertManager.recordAlert(signal(), alertManager.evaluateAlert(signal()).priority, true);
+      alertManager.recordAlert(signal(), alertManager.evaluateAlert(signal()).priority, true);
+
+      expect(alertManager.acknowledgeAlerts('market_1', 'alice')).toBe(2);
+      expect(alertManager.acknowledgeAlerts('market_1', 'alice')).toBe(0);
+      expect(alertManager.acknowledgeAlerts('market_9')).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { configManager } from '../../config/ConfigManager';
+import { DatabaseManager } from '../../data/database';
+import { DataAccessLayer } from '../../data/DataAccessLayer';
+import { AlertManager } from '../../services/AlertManager';
+import { buildSignalProvenance, withAlertDecision } from '../../services/SignalProvenance';
+import { EarlySignal, MarketTier } from '../../types';
+
+/**
+ * SignalProvenance Tests
+ *
+ * Covers the provenance built from a signal's metadata and the thresholds in
+ * effect, the checks AlertManager records for approved and blocked alerts,
+ * and persisting provenance for the explain endpoint.
+ */
+describe('SignalProvenance', () => {
+  const signal = (overrides: Partial<EarlySignal['market']> = {}): EarlySignal => ({
+    marketId: 'market_1',
+    market: {
+      id: 'market_1',
+      question: 'Will the Fed cut rates?',
+      outcomes: ['Yes', 'No'],
+      outcomePrices: ['0.42', '0.58'],
+      volume: '50000',
+      volumeNum: 50000,
+      active: true,
+      closed: false,
+      category: 'fed',
+      categoryScore: 6,
+      opportunityScore: 85,
+      tier: MarketTier.ACTIVE,
+      spread: 120,
+      ...overrides
+    },
+    signalType: 'volume_spike',
+    confidence: 0.82,
+    timestamp: Date.UTC(2025, 0, 6, 12, 0, 0),
+    metadata: {
+      signalSource: 'market_polling',
+      traceId: 'a'.repeat(32),
+      volumeChange: 340,
+      baseline: { mean: 12000, stdDev: 3000 },
+      zScore: 4.2,
+      recentTrades: [{ size: 10 }, { size: 20 }]
+    }
+  });
+
+  test('should record inputs, market snapshot and the thresholds in effect', () => {
+    const thresholds = configManager.getDetectionThresholds();
+    const provenance = buildSignalProvenance(signal(), thresholds, 'abc123def456');
+
+    expect(provenance).toMatchObject({
+      signalType: 'volume_spike',
+      source: 'market_polling',
+      traceId: 'a'.repeat(32),
+      configVersion: 'abc123def456',
+      generatedAt: Date.UTC(2025, 0, 6, 12, 0, 0)
+    });
+    expect(provenance.inputs).toEqual({
+      volumeChange: 340,
+      'baseline.mean': 12000,
+      'baseline.stdDev': 3000,
+      zScore: 4.2,
+      confidence: 0.82
+    });
+    expect(provenance.market).toMatchObject({ id: 'market_1', price: 0.42, spreadBps: 120, opportunityScore: 85, tier: 'active' });
+
+    expect(provenance.thresholds['signals.volumeSpike.multiplier']).toBe(thresholds.signals.volumeSpike.multiplier);
+    expect(provenance.thresholds['alertPrioritization.thresholds.critical']).toBe(thresholds.alertPrioritization.thresholds.critical);
+    expect(provenance.thresholds['alertPrioritization.qualityFilters.minOpportunityScore'])
+      .toBe(thresholds.alertPrioritization.qualityFilters.minOpportunityScore);
+    expect(Object.keys(provenance.thresholds).some(key => key.startsWith('signals.priceMovement'))).toBe(false);
+  });
+
+  test('should identify the config in effect by a stable version', () => {
+    const version = configManager.getConfigVersion();
+    expect(version).toMatch(/^[0-9a-f]{12}$/);
+    expect(configManager.getConfigVersion()).toBe(version);
+  });
+
+  describe('AlertManager checks', () => {
+    let alertManager: AlertManager;
+
+    beforeEach(() => {
+      alertManager = new AlertManager();
+    });
+
+    test('should record every check behind an approved alert', () => {
+      const decision = alertManager.evaluateAlert(signal());
+
+      expect(decision.shouldAlert).toBe(true);
+      expect(decision.checks!.map(check => check.check)).toEqual([
+        'suppression', 'quality', 'score', 'priority', 'tier', 'rate_limit', 'cooldown'
+      ]);
+      expect(decision.checks!.every(check => check.passed)).toBe(true);
+      expect(decision.checks!.find(check => check.check === 'priority')!.detail).toContain(`-> ${decision.priority}`);
+    });
+
+    test('should stop at the check that blocked the alert', () => {
+      const blacklisted = alertManager.evaluateAlert(signal({ isBlacklisted: true }));
+      expect(blacklisted.checks).toEqual([
+        { check: 'suppression', passed: true, detail: 'Market not muted or snoozed' },
+        { check: 'quality', passed: false, detail: 'Market is blacklisted' }
+      ]);
+
+      alertManager.muteMarket('market_1', 'ops');
+      const muted = alertManager.evaluateAlert(signal());
+      expect(muted.blockedBy).toBe('muted');
+      expect(muted.checks).toEqual([{ check: 'suppression', passed: false, detail: 'Market muted by ops' }]);
+    });
+  });
+
+  describe('persistence', () => {
+    let database: DatabaseManager;
+    let dataLayer: DataAccessLayer;
+
+    beforeEach(async () => {
+      database = new DatabaseManager({ provider: 'sqlite', database: ':memory:' });
+      await database.initialize();
+      dataLayer = new DataAccessLayer(database);
+    });
+
+    afterEach(async () => {
+      await database.close();
+    });
+
+    test('should store provenance with the signal and update it with the alert decision', async () => {
+      const tracked = signal();
+      tracked.provenance = buildSignalProvenance(tracked, configManager.getDetectionThresholds(), 'abc123def456');
+      const signalId = await dataLayer.saveSignal(tracked);
+
+      const before = (await dataLayer.getSignalExplanation(signalId))!;
+      expect(before.signal).toMatchObject({ id: signalId, marketId: 'market_1', signalType: 'volume_spike', validated: false });
+      expect(before.signal.timestamp).toBe(tracked.timestamp);
+      expect(before.provenance).toEqual(tracked.provenance);
+
+      const decision = new AlertManager().evaluateAlert(signal({ isBlacklisted: true }));
+      await dataLayer.saveSignalProvenance(signalId, withAlertDecision(tracked.provenance, decision, 1000));
+
+      const after = (await dataLayer.getSignalExplanation(signalId))!;
+      expect(after.provenance!.alertDecision).toMatchObject({
+        evaluatedAt: 1000,
+        shouldAlert: false,
+        blockedBy: 'quality',
+        reason: 'Market is blacklisted'
+      });
+      expect(after.provenance!.alertDecision!.checks).toHaveLength(2);
+    });
+
+    test('should explain signals saved without provenance and miss unknown ids', async () => {
+      const signalId = await dataLayer.saveSignal(signal());
+
+      expect((await dataLayer.getSignalExplanation(signalId))!.provenance).toBeNull();
+      expect(await dataLayer.getSignalExplanation(signalId + 1)).toBeNull();
+    });
+
+    test('should keep the saved signal when its provenance fails to store', async () => {
+      const tracked = signal();
+      tracked.provenance = buildSignalProvenance(tracked, configManager.getDetectionThresholds(), 'abc123def456');
+      jest.spyOn(dataLayer, 'saveSignalProvenance').mockRejectedValueOnce(new Error('disk full'));
+
+      const signalId = await dataLayer.saveSignal(tracked);
+
+      const saved = (await dataLayer.getSignalExplanation(signalId))!;
+      expect(saved.signal.id).toBe(signalId);
+      expect(saved.provenance).toBeNull();
+    });
+  });
+});
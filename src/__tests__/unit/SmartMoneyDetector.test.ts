@@ -0,0 +1,184 @@
+import { SmartMoneyDetector } from '../../services/SmartMoneyDetector';
+import { computeWalletProfiles } from '../../services/WalletProfileService';
+import { parseAttributedTrade } from '../../services/WalletTradeFeed';
+import { TickData, WalletProfile } from '../../types';
+
+/**
+ * SmartMoneyDetector Tests
+ *
+ * Covers wallet track records from resolved markets, position-building
+ * signals from qualifying wallets, cooldowns and aligned wallets, and parsing
+ * of both attributed trade payload shapes.
+ */
+describe('SmartMoneyDetector', () => {
+  const start = Date.UTC(2025, 0, 6, 12, 0, 0);
+  const smartWallet = '0xaaaa000000000000000000000000000000000001';
+  const otherSmartWallet = '0xaaaa000000000000000000000000000000000002';
+  const unknownWallet = '0xbbbb000000000000000000000000000000000003';
+
+  const trade = (
+    wallet: string,
+    timestamp: number,
+    size: number,
+    overrides: Partial<TickData> = {}
+  ): TickData => ({
+    timestamp,
+    marketId: 'm1',
+    price: 0.5,
+    size,
+    volume: size,
+    side: 'buy',
+    traderAddress: wallet,
+    outcomeIndex: 0,
+    ...overrides
+  });
+
+  const profile = (walletAddress: string, overrides: Partial<WalletProfile> = {}): WalletProfile => ({
+    walletAddress,
+    resolvedMarkets: 12,
+    winningMarkets: 9,
+    hitRate: 0.75,
+    realizedPnl: 15000,
+    resolvedVolume: 60000,
+    updatedAt: start,
+    ...overrides
+  });
+
+  describe('computeWalletProfiles', () => {
+    test('should realize P&L against payouts and count winning markets', () => {
+      const payouts = new Map<string, number[]>([['won', [1, 0]], ['lost', [0, 1]]]);
+      const trades = [
+        // Bought Yes at 0.40 in a market that resolved Yes: +60
+        trade(smartWallet, start, 100, { marketId: 'won', price: 0.4 }),
+        // Bought Yes at 0.30, sold half at 0.50, resolved No: -30 + 25 = -5
+        trade(smartWallet, start + 1000, 100, { marketId: 'lost', price: 0.3 }),
+        trade(smartWallet, start + 2000, 50, { marketId: 'lost', price: 0.5, side: 'sell' }),
+        // Unresolved markets don't count
+        trade(smartWallet, start + 3000, 100, { marketId: 'open' })
+      ];
+
+      const [walletProfile] = computeWalletProfiles(trades, payouts, start + 5000);
+      expect(walletProfile.walletAddress).toBe(smartWallet);
+      expect(walletProfile.resolvedMarkets).toBe(2);
+      expect(walletProfile.winningMarkets).toBe(1);
+      expect(walletProfile.hitRate).toBeCloseTo(0.5, 10);
+      expect(walletProfile.realizedPnl).toBeCloseTo(55, 10);
+      expect(walletProfile.resolvedVolume).toBeCloseTo(40 + 30 + 25, 10);
+      expect(walletProfile.firstTradeAt).toBe(start);
+      expect(walletProfile.lastTradeAt).toBe(start + 2000);
+    });
+
+    test('should settle non-first outcomes against their own payout', () => {
+      const payouts = new Map<string, number[]>([['m1', [0, 1]]]);
+      const [walletProfile] = computeWalletProfiles([trade(smartWallet, start, 100, { outcomeIndex: 1, price: 0.2 })], payouts);
+
+      expect(walletProfile.realizedPnl).toBeCloseTo(80, 10);
+      expect(walletProfile.hitRate).toBe(1);
+    });
+  });
+
+  describe('recordTrade', () => {
+    let detector: SmartMoneyDetector;
+
+    beforeEach(() => {
+      detector = new SmartMoneyDetector({ minPositionNotional: 1000 });
+      detector.setProfiles([
+        profile(smartWallet),
+        profile(otherSmartWallet, { hitRate: 0.65, resolvedMarkets: 6, realizedPnl: 2000 }),
+        // Accurate but too few resolved markets
+        profile(unknownWallet, { resolvedMarkets: 2, hitRate: 1 })
+      ]);
+    });
+
+    test('should keep only wallets meeting the track-record thresholds', () => {
+      expect(detector.getSmartWalletCount()).toBe(2);
+      expect(detector.isSmartMoney(smartWallet.toUpperCase())).toBe(true);
+      expect(detector.isSmartMoney(unknownWallet)).toBe(false);
+    });
+
+    test('should fire once a smart wallet builds a position, with its track record', () => {
+      expect(detector.recordTrade(trade(smartWallet, start, 1000))).toBeNull(); // $500
+      const signal = detector.recordTrade(trade(smartWallet, start + 60000, 1200))!; // $1100 net
+
+      expect(signal.signalType).toBe('smart_money');
+      expect(signal.timestamp).toBe(start + 60000);
+      expect(signal.metadata?.direction).toBe('bullish');
+      expect(signal.metadata?.netNotional).toBeCloseTo(1100, 6);
+      expect(signal.metadata?.trades).toBe(2);
+      expect(signal.metadata?.trackRecord).toMatchObject({ resolvedMarkets: 12, hitRate: 0.75, realizedPnl: 15000 });
+      // 0.5 base + hit rate + realized P&L bonuses
+      expect(signal.confidence).toBeCloseTo(0.75, 10);
+    });
+
+    test('should ignore wallets without a qualifying record and net out sells', () => {
+      expect(detector.recordTrade(trade(unknownWallet, start, 10000))).toBeNull();
+
+      detector.recordTrade(trade(smartWallet, start, 1600));
+      detector.recordTrade(trade(smartWallet, start + 1000, 1000, { side: 'sell' }));
+      expect(detector.recordTrade(trade(smartWallet, start + 2000, 1000))).toBeNull(); // $800 net
+    });
+
+    test('should honour the cooldown and count aligned smart wallets', () => {
+      detector.recordTrade(trade(otherSmartWallet, start, 1000)); // $500, below the minimum
+      const first = detector.recordTrade(trade(smartWallet, start + 1000, 3000))!;
+      expect(first.metadata?.alignedWallets).toBe(1);
+      expect(first.metadata?.alignedNotional).toBeCloseTo(500, 6);
+
+      expect(detector.recordTrade(trade(smartWallet, start + 2000, 1000))).toBeNull();
+      expect(detector.recordTrade(trade(smartWallet, start + 3600000 + 1000, 1000))).not.toBeNull();
+    });
+
+    test('should forget trades outside the accumulation window', () => {
+      detector.recordTrade(trade(smartWallet, start, 1800)); // $900
+      const later = start + detector.getConfig().accumulationWindowMs + 1;
+      expect(detector.recordTrade(trade(smartWallet, later, 400))).toBeNull();
+    });
+
+    test('should read buying another outcome as bearish', () => {
+      const signal = detector.recordTrade(trade(smartWallet, start, 4000, { outcomeIndex: 1 }))!;
+      expect(signal.metadata?.direction).toBe('bearish');
+      expect(signal.metadata?.outcomeIndex).toBe(1);
+    });
+  });
+
+  describe('parseAttributedTrade', () => {
+    test('should parse the data API shape', () => {
+      const parsed = parseAttributedTrade({
+        proxyWallet: '0xABC',
+        side: 'BUY',
+        size: 250,
+        price: 0.42,
+        timestamp: 1736164800,
+        outcomeIndex: 1,
+        transactionHash: '0xhash'
+      }, 'm1')!;
+
+      expect(parsed).toMatchObject({
+        marketId: 'm1',
+        traderAddress: '0xabc',
+        side: 'buy',
+        size: 250,
+        price: 0.42,
+        timestamp: 1736164800000,
+        outcomeIndex: 1,
+        tradeId: '0xhash'
+      });
+    });
+
+    test('should parse the CLOB shape and reject trades without a wallet', () => {
+      const parsed = parseAttributedTrade({
+        id: 't-1',
+        maker_address: '0xDEF',
+        side: 'SELL',
+        size: '10',
+        price: '0.61',
+        match_time: '1736164800123'
+      }, 'm2')!;
+
+      expect(parsed).toMatchObject({ traderAddress: '0xdef', side: 'sell', size: 10, price: 0.61, timestamp: 1736164800123, tradeId: 't-1' });
+      expect(parsed.outcomeIndex).toBeUndefined();
+
+      expect(parseAttributedTrade({ side: 'BUY', size: 10, price: 0.5, timestamp: 1736164800 }, 'm2')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import { DatabaseManager } from '../../data/database';
+import { DataAccessLayer } from '../../data/DataAccessLayer';
+import { AlertManager } from '../../services/AlertManager';
+import { SignalDetector } from '../../services/SignalDetector';
+import { SuppressionLog } from '../../services/SuppressionLog';
+import { BotConfig, EarlySignal, Market, MarketTier, SuppressedSignal } from '../../types';
+
+/**
+ * SuppressionLog Tests
+ *
+ * Covers duplicates reported by SignalDetector and blocked alerts reported by
+ * AlertManager, then the capped table: batched writes, queries by market,
+ * reason and time range, bounded query limits, counts per reason and retries
+ * after failed writes.
+ */
+describe('SuppressionLog', () => {
+  const start = Date.UTC(2025, 0, 6, 12, 0, 0);
+  const minute = 60000;
+
+  const market = (overrides: Partial<Market> = {}): Market => ({
+    id: 'market_1',
+    question: 'Will the Fed cut rates?',
+    outcomes: ['Yes', 'No'],
+    outcomePrices: ['0.4', '0.6'],
+    volume: '50000',
+    volumeNum: 50000,
+    active: true,
+    closed: false,
+    category: 'fed',
+    categoryScore: 6,
+    opportunityScore: 85,
+    tier: MarketTier.ACTIVE,
+    ...overrides
+  });
+
+  const entry = (overrides: Partial<SuppressedSignal> = {}): SuppressedSignal => ({
+    marketId: 'market_1',
+    signalType: 'volume_spike',
+    stage: 'alert_manager',
+    reason: 'cooldown',
+    detail: 'Market cooldown active: 20min remaining',
+    confidence: 0.8,
+    adjustedScore: 72,
+    priority: 'high',
+    question: 'Will the Fed cut rates?',
+    metadata: { volumeChange: 420 },
+    suppressedAt: start,
+    ...overrides
+  });
+
+  test('should report duplicate signals dropped by SignalDetector', async () => {
+    const config = {
+      minVolumeThreshold: 10000,
+      microstructure: { orderbookImbalanceThreshold: 0.3, spreadAnomalyThreshold: 2, liquidityShiftThreshold: 20, tickBufferSize: 1000 }
+    } as BotConfig;
+    const detector = new SignalDetector(config);
+    const suppressed: SuppressedSignal[] = [];
+    detector.onSuppressed(suppression => suppressed.push(suppression));
+
+    const fresh = market({ createdAt: new Date(Date.now() - 10 * minute).toISOString() });
+    const first = await detector.detectSignals([fresh]);
+    const second = await detector.detectSignals([fresh]);
+
+    expect(first.map(signal => signal.signalType)).toContain('new_market');
+    expect(second.map(signal => signal.signalType)).not.toContain('new_market');
+    expect(suppressed.find(suppression => suppression.signalType === 'new_market')).toMatchObject({
+      marketId: 'market_1',
+      stage: 'signal_detector',
+      reason: 'duplicate',
+      confidence: 0.8,
+      question: 'Will the Fed cut rates?'
+    });
+  });
+
+  test('should report signals AlertManager blocks, with the gate and decision', () => {
+    const alertManager = new AlertManager();
+    const suppressed: SuppressedSignal[] = [];
+    alertManager.onSuppressed(suppression => suppressed.push(suppression));
+
+    const signal = (overrides: Partial<Market> = {}): EarlySignal => ({
+      marketId: 'market_1',
+      market: market(overrides),
+      signalType: 'price_movement',
+      confidence: 0.7,
+      timestamp: start,
+      metadata: { priceChange: 12 }
+    });
+
+    alertManager.evaluateAlert(signal({ isBlacklisted: true }));
+    alertManager.muteMarket('market_2');
+    alertManager.evaluateAlert({ ...signal({ id: 'market_2' }), marketId: 'market_2' });
+    expect(alertManager.evaluateAlert(signal()).shouldAlert).toBe(true);
+
+    expect(suppressed).toHaveLength(2);
+    expect(suppressed[0]).toMatchObject({
+      marketId: 'market_1',
+      signalType: 'price_movement',
+      stage: 'alert_manager',
+      reason: 'quality',
+      detail: 'Market is blacklisted',
+      metadata: { priceChange: 12 }
+    });
+    expect(suppressed[1]).toMatchObject({ marketId: 'market_2', reason: 'muted', detail: 'Market muted' });
+  });
+
+  describe('storage', () => {
+    let database: DatabaseManager;
+    let dataLayer: DataAccessLayer;
+
+    beforeEach(async () => {
+      database = new DatabaseManager({ provider: 'sqlite', database: ':memory:' });
+      await database.initialize();
+      dataLayer = new DataAccessLayer(database);
+    });
+
+    afterEach(async () => {
+      await database.close();
+    });
+
+    test('should query suppressions by market, reason and time range', async () => {
+      const log = new SuppressionLog(dataLayer);
+      log.record(entry({ suppressedAt: start }));
+      log.record(entry({ suppressedAt: start + 10 * minute, reason: 'rate_limit', detail: 'Rate limit exceeded: 20/20 per hour' }));
+      log.record(entry({ suppressedAt: start + 20 * minute, marketId: 'market_2', reason: 'duplicate', stage: 'signal_detector' }));
+      log.record(entry({ suppressedAt: start + 90 * minute }));
+
+      // Buffered entries are written before querying
+      const market1 = await log.query({ marketId: 'market_1', since: start, until: start + 30 * minute });
+      expect(market1.map(suppression => suppression.suppressedAt)).toEqual([start + 10 * minute, start]);
+      expect(market1[1]).toEqual(entry({ suppressedAt: start }));
+
+      const cooldowns = await log.query({ reason: 'cooldown', since: start });
+      expect(cooldowns.map(suppression => suppression.suppressedAt)).toEqual([start + 90 * minute, start]);
+
+      expect(await log.summarize({ since: start })).toEqual([
+        { reason: 'cooldown', count: 2, markets: 1, lastSuppressedAt: start + 90 * minute },
+        { reason: 'duplicate', count: 1, markets: 1, lastSuppressedAt: start + 20 * minute },
+        { reason: 'rate_limit', count: 1, markets: 1, lastSuppressedAt: start + 10 * minute }
+      ]);
+      expect(await log.summarize({ since: start + 30 * minute, until: start + 60 * minute })).toEqual([]);
+    });
+
+    test('should cap the table to the newest rows', async () => {
+      const log = new SuppressionLog(dataLayer, { maxRows: 3 });
+      for (let i = 0; i < 5; i++) {
+        log.record(entry({ suppressedAt: start + i * minute }));
+      }
+      await log.flush();
+
+      const kept = await dataLayer.getSignalSuppressions({});
+      expect(kept.map(suppression => suppression.suppressedAt)).toEqual([start + 4 * minute, start + 3 * minute, start + 2 * minute]);
+    });
+
+    test('should keep query limits to a whole number of rows', async () => {
+      const log = new SuppressionLog(dataLayer);
+      for (let i = 0; i < 3; i++) {
+        log.record(entry({ suppressedAt: start + i * minute }));
+      }
+      await log.flush();
+
+      expect(await dataLayer.getSignalSuppressions({ limit: -1 })).toHaveLength(1);
+      expect(await dataLayer.getSignalSuppressions({ limit: 2.7 })).toHaveLength(2);
+      expect(await dataLayer.getSignalSuppressions({ limit: NaN })).toHaveLength(3);
+    });
+
+    test('should not return from a flush while another write is in flight', async () => {
+      const save = dataLayer.saveSignalSuppressions.bind(dataLayer);
+      const release: Array<() => void> = [];
+      const slowSave = async (entries: SuppressedSignal[]) => {
+        await new Promise<void>(resolve => release.push(resolve));
+        return save(entries);
+      };
+      const spy = jest.spyOn(dataLayer, 'saveSignalSuppressions')
+        .mockImplementationOnce(slowSave)
+        .mockImplementationOnce(slowSave);
+      const log = new SuppressionLog(dataLayer);
+
+      log.record(entry());
+      const first = log.flush();
+      await new Promise(resolve => setImmediate(resolve)); // First write in flight
+      log.record(entry({ suppressedAt: start + minute }));
+      const second = log.flush();
+      let thirdDone = false;
+      const third = log.flush().then(() => { thirdDone = true; });
+
+      release[0]();
+      await first;
+      await new Promise(resolve => setImmediate(resolve));
+      expect(spy).toHaveBeenCalledTimes(2);
+      expect(thirdDone).toBe(false); // Still waiting on the second caller's write
+
+      release[1]();
+      await Promise.all([second, third]);
+      expect(spy).toHaveBeenCalledTimes(2);
+      expect(await dataLayer.getSignalSuppressions({})).toHaveLength(2);
+    });
+
+    test('should flush in batches and keep entries when a write fails', async () => {
+      const save = jest.spyOn(dataLayer, 'saveSignalSuppressions');
+      const log = new SuppressionLog(dataLayer, { flushBatchSize: 2 });
+
+      save.mockRejectedValueOnce(new Error('database is locked'));
+      log.record(entry());
+      log.record(entry({ suppressedAt: start + minute })); // Batch full: flush fails, entries kept
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(save).toHaveBeenCalledTimes(1);
+      expect(await dataLayer.getSignalSuppressions({})).toHaveLength(0);
+
+      await log.stop();
+      expect(save).toHaveBeenCalledTimes(2);
+      expect(await dataLayer.getSignalSuppressions({})).toHaveLength(2);
+    });
+  });
+});
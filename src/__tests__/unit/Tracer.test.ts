@@ -0,0 +1,144 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Tracer, toOtlpJson, tracer as sharedTracer } from '../../monitoring/Tracer';
+import { advancedLogger } from '../../utils/AdvancedLogger';
+import { logger } from '../../utils/logger';
+
+/**
+ * Tracer Tests
+ *
+ * Covers span nesting across awaits, error status, child spans outside a
+ * trace, the OTLP/JSON export shape, the file exporter and trace ids carried
+ * into log context.
+ */
+describe('Tracer', () => {
+  let tmpDir: string;
+  let filePath: string;
+  let tracer: Tracer;
+
+  const readSpans = (): Record<string, any>[] =>
+    fs.readFileSync(filePath, 'utf8')
+      .trim()
+      .split('\n')
+      .flatMap(line => JSON.parse(line).resourceSpans[0].scopeSpans[0].spans);
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tracer-'));
+    filePath = path.join(tmpDir, 'traces.jsonl');
+    tracer = new Tracer({ exporter: 'file', filePath });
+  });
+
+  afterEach(async () => {
+    await tracer.shutdown();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('should nest spans across awaits under one trace', async () => {
+    const traceId = await tracer.withSpan('microstructure.orderbook', async root => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      tracer.withSpan('signal_detector.detect_orderbook_signals', span => span.setAttribute('signals.count', 2));
+      await tracer.withChildSpan('db.write', async () => {
+        await new Promise(resolve => setTimeout(resolve, 1));
+      }, { 'db.table': 'signals' });
+      return root.traceId;
+    }, { 'market.id': 'm1' });
+
+    await tracer.flush();
+    const spans = readSpans();
+    const byName = new Map(spans.map(span => [span.name, span]));
+    const root = byName.get('microstructure.orderbook')!;
+
+    expect(spans).toHaveLength(3);
+    expect(spans.every(span => span.traceId === traceId)).toBe(true);
+    expect(traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(root.parentSpanId).toBeUndefined();
+    expect(byName.get('signal_detector.detect_orderbook_signals')!.parentSpanId).toBe(root.spanId);
+    expect(byName.get('db.write')!.parentSpanId).toBe(root.spanId);
+    expect(BigInt(root.endTimeUnixNano) - BigInt(root.startTimeUnixNano)).toBeGreaterThanOrEqual(4000000n);
+    expect(root.attributes).toContainEqual({ key: 'market.id', value: { stringValue: 'm1' } });
+    expect(byName.get('db.write')!.attributes).toContainEqual({ key: 'db.table', value: { stringValue: 'signals' } });
+  });
+
+  test('should mark failed spans and rethrow', async () => {
+    await expect(tracer.withSpan('bot.handle_signal', async () => {
+      throw new Error('discord unavailable');
+    })).rejects.toThrow('discord unavailable');
+    expect(() => tracer.withSpan('alert_manager.evaluate_alert', () => {
+      throw new TypeError('bad signal');
+    })).toThrow('bad signal');
+
+    await tracer.flush();
+    const [asyncSpan, syncSpan] = readSpans();
+    expect(asyncSpan.status).toEqual({ code: 2, message: 'discord unavailable' });
+    expect(syncSpan.attributes).toContainEqual({ key: 'exception.type', value: { stringValue: 'TypeError' } });
+  });
+
+  test('should run child spans untraced outside a trace', async () => {
+    const result = await tracer.withChildSpan('db.write', async span => span);
+    expect(result).toBeUndefined();
+    expect(tracer.getCurrentTraceId()).toBeUndefined();
+
+    await tracer.flush();
+    expect(fs.existsSync(filePath)).toBe(false);
+  });
+
+  test('should convert spans to OTLP/JSON', () => {
+    const otlp = toOtlpJson([{
+      traceId: 'a'.repeat(32),
+      spanId: 'b'.repeat(16),
+      name: 'bot.refresh_markets',
+      startTimeUnixNano: 1700000000000000000n,
+      endTimeUnixNano: 1700000000250000000n,
+      attributes: { 'markets.count': 12, 'alert.adjusted_score': 0.75, 'alert.should_alert': true },
+      status: { code: 'ok' }
+    }], 'poly-early-bot');
+
+    expect(otlp.resourceSpans[0].resource.attributes).toEqual([
+      { key: 'service.name', value: { stringValue: 'poly-early-bot' } }
+    ]);
+    expect(otlp.resourceSpans[0].scopeSpans[0].spans[0]).toEqual({
+      traceId: 'a'.repeat(32),
+      spanId: 'b'.repeat(16),
+      name: 'bot.refresh_markets',
+      kind: 2,
+      startTimeUnixNano: '1700000000000000000',
+      endTimeUnixNano: '1700000000250000000',
+      attributes: [
+        { key: 'markets.count', value: { intValue: '12' } },
+        { key: 'alert.adjusted_score', value: { doubleValue: 0.75 } },
+        { key: 'alert.should_alert', value: { boolValue: true } }
+      ],
+      status: { code: 1 }
+    });
+  });
+
+  test('should drop unsampled traces from the export', async () => {
+    const unsampled = new Tracer({ exporter: 'file', filePath, sampleRatio: 0 });
+    await unsampled.withSpan('microstructure.tick', async () => {
+      await unsampled.withChildSpan('db.write', async () => undefined);
+    });
+
+    expect(unsampled.getStats().queued).toBe(0);
+    await unsampled.shutdown();
+    expect(fs.existsSync(filePath)).toBe(false);
+  });
+
+  test('should carry the trace id into the log request id', async () => {
+    const infoSpy = jest.spyOn(logger, 'info').mockImplementation(() => logger);
+
+    try {
+      const traceId = await sharedTracer.withSpan('bot.refresh_markets', async span => {
+        advancedLogger.info('Scanning', { component: 'bot' });
+        await advancedLogger.timeOperation(async () => undefined, 'save_signal', { component: 'bot' });
+        return span.traceId;
+      });
+
+      const requestIds = infoSpy.mock.calls.map(call => (call[1] as Record<string, any>).requestId);
+      expect(requestIds.length).toBeGreaterThanOrEqual(3);
+      expect(requestIds.every(id => id === traceId)).toBe(true);
+    } finally {
+      infoSpy.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,134 @@
+import * as HawkesProcess from '../../statistics/HawkesProcess';
+import { fitHawkes, hawkesLogLikelihood, simulateHawkes } from '../../statistics/HawkesProcess';
+import { TradeIntensityAnalyzer, TradeSide } from '../../services/TradeIntensityAnalyzer';
+import { TickData } from '../../types';
+
+/**
+ * TradeIntensityAnalyzer Tests
+ *
+ * Covers the Hawkes fit recovering simulated parameters, buy and sell bursts
+ * against the fitted baseline, cooldowns, and fitting baselines from stored trades.
+ */
+describe('TradeIntensityAnalyzer', () => {
+  const start = Date.UTC(2025, 0, 6, 12, 0, 0);
+
+  // Deterministic uniform generator so simulations are reproducible
+  const seededRandom = (seed: number) => () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+  };
+
+  const trade = (timestamp: number, side: TradeSide = 'buy', marketId = 'm1'): TickData => ({
+    timestamp, marketId, price: 0.5, volume: 50, side, size: 100
+  });
+
+  // One trade a minute on each side for two hours
+  const steadyHistory = (marketId = 'm1'): TickData[] => {
+    const ticks: TickData[] = [];
+    for (let i = 0; i < 120; i++) {
+      ticks.push(trade(start + i * 60000, 'buy', marketId));
+      ticks.push(trade(start + i * 60000 + 30000, 'sell', marketId));
+    }
+    return ticks;
+  };
+
+  describe('fitHawkes', () => {
+    test('should recover the parameters of a simulated process', () => {
+      const params = { mu: 0.05, alpha: 0.6, beta: 1 / 30 };
+      const duration = 40000;
+      const times = simulateHawkes(params, duration, seededRandom(42));
+
+      const fit = fitHawkes(times, duration)!;
+      expect(fit.beta).toBeCloseTo(1 / 30);
+      expect(fit.alpha).toBeGreaterThan(0.45);
+      expect(fit.alpha).toBeLessThan(0.75);
+      expect(fit.mu).toBeGreaterThan(0.03);
+      expect(fit.mu).toBeLessThan(0.07);
+      expect(fit.stationaryIntensity).toBeCloseTo(times.length / duration, 2);
+      expect(fit.logLikelihood).toBeGreaterThan(hawkesLogLikelihood(times, duration, { ...params, alpha: 0 }));
+    });
+
+    test('should find little self-excitation in evenly spaced events', () => {
+      const times = Array.from({ length: 200 }, (_, i) => i * 10);
+      const fit = fitHawkes(times, 2000)!;
+
+      expect(fit.alpha).toBeLessThan(0.1);
+      expect(fit.stationaryIntensity).toBeCloseTo(0.1, 2);
+      expect(fitHawkes([5], 10)).toBeNull();
+    });
+  });
+
+  test('should signal a buy burst far above the fitted baseline', () => {
+    const analyzer = new TradeIntensityAnalyzer();
+    const history = steadyHistory();
+    expect(analyzer.loadHistory(history, start, start + 2 * 60 * 60 * 1000)).toBe(2);
+    expect(analyzer.getFit('m1', 'buy')!.stationaryIntensity).toBeCloseTo(1 / 60, 2);
+
+    // 30 buys in the next minute
+    const burstStart = start + 2 * 60 * 60 * 1000;
+    const signals = [];
+    for (let i = 0; i < 30; i++) {
+      const signal = analyzer.recordTrade(trade(burstStart + i * 2000));
+      if (signal) signals.push(signal);
+    }
+
+    expect(signals).toHaveLength(1);
+    expect(signals[0].signalType).toBe('trade_intensity_burst');
+    expect(signals[0].metadata).toMatchObject({ signalSource: 'hawkes', side: 'buy', direction: 'bullish' });
+    expect(signals[0].metadata!.intensityRatio).toBeGreaterThanOrEqual(analyzer.getConfig().intensityMultiplier);
+    expect(signals[0].confidence).toBeGreaterThanOrEqual(0.6);
+
+    // The sell side is unaffected
+    expect(analyzer.recordTrade(trade(burstStart + 61000, 'sell'))).toBeNull();
+  });
+
+  test('should tag sell bursts bearish and respect the cooldown per side', () => {
+    const analyzer = new TradeIntensityAnalyzer({ signalCooldownMs: 600000 });
+    analyzer.loadHistory(steadyHistory(), start, start + 2 * 60 * 60 * 1000);
+
+    const burstStart = start + 2 * 60 * 60 * 1000;
+    const burst = (offset: number) => {
+      const signals = [];
+      for (let i = 0; i < 30; i++) {
+        const signal = analyzer.recordTrade(trade(burstStart + offset + i * 2000, 'sell'));
+        if (signal) signals.push(signal);
+      }
+      return signals;
+    };
+
+    const first = burst(0);
+    expect(first).toHaveLength(1);
+    expect(first[0].metadata).toMatchObject({ side: 'sell', direction: 'bearish' });
+
+    // A second burst inside the cooldown stays quiet
+    expect(burst(120000)).toEqual([]);
+  });
+
+  test('should not signal before a side has a baseline', () => {
+    const analyzer = new TradeIntensityAnalyzer();
+    for (let i = 0; i < 25; i++) {
+      expect(analyzer.recordTrade(trade(start + i * 1000))).toBeNull();
+    }
+    expect(analyzer.getFit('m1', 'buy')).toBeNull();
+
+    analyzer.clearMarket('m1');
+    expect(analyzer.getFit('m1', 'buy')).toBeNull();
+  });
+
+  test('should back off after a failed fit instead of refitting on every trade', () => {
+    const fit = jest.spyOn(HawkesProcess, 'fitHawkes').mockReturnValue(null);
+    try {
+      const analyzer = new TradeIntensityAnalyzer({ fitRetryMs: 300000 });
+      for (let i = 0; i < 60; i++) {
+        analyzer.recordTrade(trade(start + i * 1000));
+      }
+      expect(fit).toHaveBeenCalledTimes(1); // At the 30th trade, then backing off
+
+      analyzer.recordTrade(trade(start + 29000 + 300000));
+      expect(fit).toHaveBeenCalledTimes(2);
+      expect(analyzer.getFit('m1', 'buy')).toBeNull();
+    } finally {
+      fit.mockRestore();
+    }
+  });
+});
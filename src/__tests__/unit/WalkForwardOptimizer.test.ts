@@ -0,0 +1,174 @@
+import { BacktestConfig, BacktestOrchestrator, BacktestReport } from '../../backtesting/BacktestOrchestrator';
+import { WalkForwardConfig, WalkForwardOptimizer } from '../../backtesting/WalkForwardOptimizer';
+import { DatabaseManager } from '../../data/database';
+import { BotConfig } from '../../types';
+
+/**
+ * WalkForwardOptimizer Tests
+ *
+ * The event-driven backtest is replaced by a synthetic one whose results depend
+ * on the imbalance threshold and the window, so fold construction, train-window
+ * selection, out-of-sample stitching and the stability report can be checked
+ * without stored order books.
+ */
+describe('WalkForwardOptimizer', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const start = new Date('2024-01-01T00:00:00Z');
+
+  const botConfig: BotConfig = {
+    checkIntervalMs: 30000,
+    minVolumeThreshold: 1000,
+    maxMarketsToTrack: 100,
+    logLevel: 'info',
+    apiUrls: { clob: 'http://clob', gamma: 'http://gamma' },
+    microstructure: {
+      orderbookImbalanceThreshold: 0.3,
+      spreadAnomalyThreshold: 1.0,
+      liquidityShiftThreshold: 12,
+      tickBufferSize: 1000,
+    },
+    discord: { enableRichEmbeds: false, alertRateLimit: 10 },
+  };
+
+  const walkForwardConfig = (overrides: Partial<WalkForwardConfig> = {}): WalkForwardConfig => ({
+    startDate: start,
+    endDate: new Date(start.getTime() + 30 * DAY_MS),
+    trainDays: 10,
+    testDays: 5,
+    parameters: [{ path: 'microstructure.orderbookImbalance.threshold', values: [0.2, 0.4] }],
+    objective: 'return',
+    minTrainTrades: 1,
+    backtest: {
+      initialCapital: 1000,
+      maxPositionSizePct: 10,
+      useKellyCriterion: false,
+      kellyFraction: 0.25,
+      slippageBps: 20,
+      feeBps: 200,
+      marketImpactModel: 'none',
+      defaultExitWindowHours: 24,
+      useActualResolutions: true,
+    },
+    ...overrides,
+  });
+
+  // One $10 trade per window. Before day 10 the 0.2 threshold wins; afterwards 0.4 does.
+  const syntheticReport = (config: BacktestConfig, threshold: number): BacktestReport => {
+    const regimeChanged = config.startDate.getTime() >= start.getTime() + 10 * DAY_MS;
+    const netPnL = (threshold === 0.2) !== regimeChanged ? 10 : -10;
+
+    return {
+      config,
+      summary: {
+        totalSignals: 1,
+        signalsTraded: 1,
+        totalReturn: netPnL,
+        totalReturnPct: (netPnL / config.initialCapital) * 100,
+        sharpeRatio: 0,
+        maxDrawdown: 0,
+        winRate: netPnL > 0 ? 1 : 0,
+        avgWin: 0,
+        avgLoss: 0,
+        profitFactor: 0,
+        totalFees: 0,
+        totalSlippage: 0,
+        avgRealizedSlippageBps: 0,
+        partialFills: 0,
+        finalCapital: config.initialCapital + netPnL,
+      },
+      bySignalType: new Map(),
+      trades: [{
+        exitTime: config.endDate.getTime(),
+        size: 100,
+        netPnL,
+      } as any],
+      portfolio: {} as any,
+      timestamp: Date.now(),
+    };
+  };
+
+  let database: DatabaseManager;
+  let runs: Array<{ config: BacktestConfig; threshold: number }>;
+
+  beforeEach(() => {
+    database = new DatabaseManager({ provider: 'sqlite', database: ':memory:' });
+    runs = [];
+
+    jest.spyOn(BacktestOrchestrator.prototype, 'runBacktest').mockImplementation(async function (this: any, config: BacktestConfig) {
+      const threshold = this.botConfig.microstructure.orderbookImbalanceThreshold;
+      runs.push({ config, threshold });
+      return syntheticReport(config, threshold);
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should roll train and test windows across the date range', async () => {
+    const result = await new WalkForwardOptimizer(database, botConfig).run(walkForwardConfig());
+
+    // 30 days, 10d train + 5d test, stepping 5d: test windows at days 10, 15, 20, 25
+    expect(result.folds).toHaveLength(4);
+    expect(result.folds.map(f => (f.testStart.getTime() - start.getTime()) / DAY_MS)).toEqual([10, 15, 20, 25]);
+    expect(result.folds.every(f => f.trainEnd.getTime() === f.testStart.getTime())).toBe(true);
+    expect(runs.every(run => run.config.signalSource === 'event_driven')).toBe(true);
+
+    // Two train candidates plus one test run per fold
+    expect(runs).toHaveLength(12);
+  });
+
+  test('should select on the train window and stitch the out-of-sample equity', async () => {
+    const result = await new WalkForwardOptimizer(database, botConfig).run(walkForwardConfig());
+
+    // Train windows starting at day 0 and 5 precede the regime change; the later ones follow it
+    expect(result.folds.map(f => f.parameters['microstructure.orderbookImbalance.threshold'])).toEqual([0.2, 0.2, 0.4, 0.4]);
+
+    // The first two folds carry the stale 0.2 into the new regime and lose out of sample
+    expect(result.folds.map(f => f.test.totalReturnPct > 0)).toEqual([false, false, true, true]);
+    expect(result.folds.map(f => f.train.totalReturnPct > 0)).toEqual([true, true, true, true]);
+    expect(result.outOfSample.trades).toBe(4);
+    expect(result.outOfSample.finalCapital).toBeCloseTo(1000, 6);
+    expect(result.outOfSample.winRate).toBeCloseTo(0.5, 6);
+
+    // Each test window starts from the capital the previous one ended with
+    expect(result.folds.map(f => f.test.startCapital)).toEqual([1000, 990, 980, 990]);
+    expect(result.equityCurve[result.equityCurve.length - 1].equity).toBeCloseTo(1000, 6);
+    expect(result.outOfSample.maxDrawdown).toBeCloseTo((20 / 1000) * 100, 6);
+  });
+
+  test('should report parameter stability and export the latest values as a preset', async () => {
+    const optimizer = new WalkForwardOptimizer(database, botConfig);
+    const result = await optimizer.run(walkForwardConfig());
+
+    const [stability] = result.stability;
+    expect(stability.values).toEqual([0.2, 0.2, 0.4, 0.4]);
+    expect(stability.mean).toBeCloseTo(0.3, 6);
+    expect(stability.modeFrequency).toBeCloseTo(0.5, 6);
+    expect(stability.changes).toBe(1);
+
+    expect(result.recommended).toEqual({ 'microstructure.orderbookImbalance.threshold': 0.4 });
+    expect(optimizer.toPreset(result)).toEqual({
+      microstructure: { orderbookImbalance: { threshold: 0.4 } },
+    });
+  });
+
+  test('should keep current thresholds when no candidate trades enough', async () => {
+    const result = await new WalkForwardOptimizer(database, botConfig).run(walkForwardConfig({ minTrainTrades: 2 }));
+
+    expect(result.folds.every(f => f.usedFallback)).toBe(true);
+    expect(result.recommended['microstructure.orderbookImbalance.threshold']).toBe(0.3);
+  });
+
+  test('should reject thresholds the replay does not use', async () => {
+    const optimizer = new WalkForwardOptimizer(database, botConfig);
+
+    await expect(optimizer.run(walkForwardConfig({
+      parameters: [{ path: 'technical.rsi.overbought', values: [70, 80] }],
+    }))).rejects.toThrow('not used by the event-driven replay');
+
+    await expect(optimizer.run(walkForwardConfig({
+      endDate: new Date(start.getTime() + 12 * DAY_MS),
+    }))).rejects.toThrow('shorter than one train + test window');
+  });
+});
@@ -1,8 +1,13 @@
 import { DatabaseManager } from '../data/database';
 import { advancedLogger as logger } from '../utils/AdvancedLogger';
-import { HistoricalDataLoader, HistoricalDataQuery } from './HistoricalDataLoader';
+import { HistoricalDataLoader, HistoricalDataQuery, HistoricalSignalData } from './HistoricalDataLoader';
 import { SignalToOutcomeMatcher, MatchedSignalOutcome } from './SignalToOutcomeMatcher';
 import { TradeSimulator, SimulatedTrade, PortfolioState } from './TradeSimulator';
+import { OrderbookSnapshotIndex } from './OrderbookFillModel';
+import { DataAccessLayer } from '../data/DataAccessLayer';
+import { PriceImpactEstimate } from '../statistics/PriceImpact';
+import { EventDrivenBacktester } from './EventDrivenBacktester';
+import { BotConfig } from '../types';
 
 export interface BacktestConfig {
   // Data selection
@@ -12,6 +17,11 @@ export interface BacktestConfig {
   minConfidence?: number;
   resolvedOnly?: boolean;
 
+  // Signal source: signals recorded live (signal_performance) or regenerated by
+  // replaying orderbook_snapshots/trade_ticks through the production detectors
+  signalSource?: 'recorded' | 'event_driven';
+  marketIds?: string[]; // Event-driven only: restrict the replay to these markets
+
   // Trading parameters
   initialCapital: number;
   maxPositionSizePct: number;
@@ -21,7 +31,8 @@ export interface BacktestConfig {
   // Cost model
   slippageBps: number;
   feeBps: number;
-  marketImpactModel: 'none' | 'linear' | 'square_root';
+  marketImpactModel: 'none' | 'linear' | 'square_root' | 'orderbook' | 'kyle_lambda';
+  maxSnapshotAgeMinutes?: number; // 'orderbook' model: ignore snapshots older than this (default 15)
 
   // Risk management
   stopLossPct?: number;
@@ -48,6 +59,8 @@ export interface BacktestReport {
     profitFactor: number;
     totalFees: number;
     totalSlippage: number;
+    avgRealizedSlippageBps: number;
+    partialFills: number;
     finalCapital: number;
   };
   bySignalType: Map<string, {
@@ -79,9 +92,11 @@ export class BacktestOrchestrator {
   private dataLoader: HistoricalDataLoader;
   private matcher: SignalToOutcomeMatcher;
   private simulator: TradeSimulator;
+  private botConfig?: BotConfig;
 
-  constructor(database: DatabaseManager) {
+  constructor(database: DatabaseManager, botConfig?: BotConfig) {
     this.database = database;
+    this.botConfig = botConfig;
     this.dataLoader = new HistoricalDataLoader(database);
     this.matcher = new SignalToOutcomeMatcher();
     this.simulator = new TradeSimulator();
@@ -98,7 +113,8 @@ export class BacktestOrchestrator {
         startDate: config.startDate.toISOString(),
         endDate: config.endDate.toISOString(),
         initialCapital: config.initialCapital,
-        signalTypes: config.signalTypes
+        signalTypes: config.signalTypes,
+        signalSource: config.signalSource || 'recorded'
       }
     });
 
@@ -118,7 +134,9 @@ export class BacktestOrchestrator {
       resolvedOnly: config.resolvedOnly
     };
 
-    const historicalSignals = await this.dataLoader.loadHistoricalSignals(query);
+    const historicalSignals = config.signalSource === 'event_driven'
+      ? await this.generateEventDrivenSignals(config)
+      : await this.dataLoader.loadHistoricalSignals(query);
 
     if (historicalSignals.length === 0) {
       logger.warn('No historical signals found for the specified date range', {
@@ -195,6 +213,22 @@ export class BacktestOrchestrator {
       marketImpactModel: config.marketImpactModel
     });
 
+    // Order-book fills need the stored snapshots around every entry and exit
+    let orderbookIndex: OrderbookSnapshotIndex | null = null;
+    if (config.marketImpactModel === 'orderbook') {
+      const maxAgeMs = (config.maxSnapshotAgeMinutes ?? 15) * 60 * 1000;
+      orderbookIndex = await OrderbookSnapshotIndex.load(new DataAccessLayer(this.database), trades, maxAgeMs);
+    }
+    this.simulator.setOrderbookIndex(orderbookIndex);
+
+    // Measured impact from estimates made before the backtest window, so costs never look ahead
+    let priceImpactEstimates: PriceImpactEstimate[] = [];
+    if (config.marketImpactModel === 'kyle_lambda') {
+      const marketIds = Array.from(new Set(trades.map(trade => trade.marketId)));
+      priceImpactEstimates = await new DataAccessLayer(this.database).getLatestPriceImpactEstimates(marketIds, config.startDate.getTime());
+    }
+    this.simulator.setPriceImpactEstimates(priceImpactEstimates);
+
     const portfolio = this.simulator.simulateTrades(trades);
 
     // Generate report
@@ -216,6 +250,26 @@ export class BacktestOrchestrator {
     return report;
   }
 
+  /**
+   * Regenerate signals by replaying stored market data through the live detector stack
+   */
+  private async generateEventDrivenSignals(config: BacktestConfig): Promise<HistoricalSignalData[]> {
+    if (!this.botConfig) {
+      throw new Error('Event-driven backtests require a BotConfig (pass it to the BacktestOrchestrator constructor)');
+    }
+
+    const backtester = new EventDrivenBacktester(this.database, this.botConfig);
+    const { signals } = await backtester.replay({
+      startDate: config.startDate,
+      endDate: config.endDate,
+      marketIds: config.marketIds,
+      signalTypes: config.signalTypes,
+      minConfidence: config.minConfidence
+    });
+
+    return signals;
+  }
+
   /**
    * Generate comprehensive backtest report
    */
@@ -284,6 +338,10 @@ export class BacktestOrchestrator {
         profitFactor: metrics.profitFactor,
         totalFees: portfolio.totalFees,
         totalSlippage: portfolio.totalSlippage,
+        avgRealizedSlippageBps: portfolio.closedTrades.length > 0
+          ? portfolio.closedTrades.reduce((sum, t) => sum + t.realizedSlippageBps, 0) / portfolio.closedTrades.length
+          : 0,
+        partialFills: portfolio.closedTrades.filter(t => t.fillRatio < 1).length,
         finalCapital: portfolio.capital
       },
       bySignalType,
@@ -312,6 +370,8 @@ export class BacktestOrchestrator {
         profitFactor: 0,
         totalFees: 0,
         totalSlippage: 0,
+        avgRealizedSlippageBps: 0,
+        partialFills: 0,
         finalCapital: config.initialCapital
       },
       bySignalType: new Map(),
@@ -0,0 +1,297 @@
+import { randomUUID } from 'crypto';
+import { DatabaseManager } from '../data/database';
+import { DataAccessLayer } from '../data/DataAccessLayer';
+import { MicrostructureDetector } from '../services/MicrostructureDetector';
+import { SignalPerformanceRecord } from '../services/SignalPerformanceTracker';
+import { BotConfig, EarlySignal, Market, OrderbookData, TickData } from '../types';
+import { advancedLogger as logger } from '../utils/AdvancedLogger';
+import { clock, SimulatedClock } from '../utils/Clock';
+import { HistoricalSignalData } from './HistoricalDataLoader';
+
+export interface EventDrivenBacktestConfig {
+  startDate: Date;
+  endDate: Date;
+  marketIds?: string[];
+  signalTypes?: string[];
+  minConfidence?: number;
+  chunkHours?: number; // Size of each database read window
+}
+
+export interface EventDrivenReplayStats {
+  orderbookEvents: number;
+  tradeEvents: number;
+  signalsEmitted: number;
+  signalsKept: number;
+  marketsSeen: number;
+  durationMs: number;
+}
+
+export interface EventDrivenReplayResult {
+  signals: HistoricalSignalData[];
+  stats: EventDrivenReplayStats;
+}
+
+type ReplayEvent =
+  | { kind: 'trade'; timestamp: number; tick: TickData }
+  | { kind: 'orderbook'; timestamp: number; orderbook: OrderbookData };
+
+interface OpenRecord {
+  record: SignalPerformanceRecord;
+  signal: EarlySignal;
+}
+
+// Exit horizons filled from the first snapshot at or after entry + offset
+const EXIT_HORIZONS: Array<{ field: 'price30min' | 'price1hr' | 'price4hr' | 'price24hr'; offsetMs: number }> = [
+  { field: 'price30min', offsetMs: 30 * 60 * 1000 },
+  { field: 'price1hr', offsetMs: 60 * 60 * 1000 },
+  { field: 'price4hr', offsetMs: 4 * 60 * 60 * 1000 },
+  { field: 'price24hr', offsetMs: 24 * 60 * 60 * 1000 },
+];
+
+/**
+ * Event-driven signal generation for backtests
+ *
+ * Streams stored orderbook_snapshots and trade_ticks rows in timestamp order
+ * through a fresh production MicrostructureDetector while a simulated clock
+ * follows the data. The EarlySignals it emits are priced off the same
+ * snapshots (entry at signal time, exits at 30min/1hr/4hr/24hr) and returned
+ * in the HistoricalSignalData shape consumed by SignalToOutcomeMatcher, so the
+ * rest of the backtest pipeline is unchanged.
+ *
+ * The clock is process-wide: do not run this inside the live bot process.
+ */
+export class EventDrivenBacktester {
+  private dataLayer: DataAccessLayer;
+  private botConfig: BotConfig;
+
+  constructor(database: DatabaseManager, botConfig: BotConfig) {
+    this.dataLayer = new DataAccessLayer(database);
+    this.botConfig = botConfig;
+  }
+
+  /**
+   * Replay the configured window and collect the signals the detectors emit
+   */
+  async replay(config: EventDrivenBacktestConfig): Promise<EventDrivenReplayResult> {
+    const startTime = config.startDate.getTime();
+    const endTime = config.endDate.getTime();
+    const chunkMs = (config.chunkHours ?? 6) * 60 * 60 * 1000;
+    const minConfidence = config.minConfidence ?? 0;
+
+    logger.info('Starting event-driven replay', {
+      component: 'event_driven_backtester',
+      operation: 'replay',
+      metadata: {
+        startDate: config.startDate.toISOString(),
+        endDate: config.endDate.toISOString(),
+        markets: config.marketIds?.length ?? 'all',
+        chunkHours: chunkMs / (60 * 60 * 1000)
+      }
+    });
+
+    const stats: EventDrivenReplayStats = {
+      orderbookEvents: 0,
+      tradeEvents: 0,
+      signalsEmitted: 0,
+      signalsKept: 0,
+      marketsSeen: 0,
+      durationMs: 0
+    };
+    const replayStartedAt = Date.now();
+
+    const detector = new MicrostructureDetector(this.botConfig);
+    const simulatedClock = new SimulatedClock(startTime);
+    const lastMidPrice = new Map<string, number>();
+    const openRecords = new Map<string, OpenRecord[]>();
+    const collected: OpenRecord[] = [];
+
+    detector.onSignal((signal) => {
+      stats.signalsEmitted++;
+
+      if (signal.confidence < minConfidence) return;
+      if (config.signalTypes && config.signalTypes.length > 0 && !config.signalTypes.includes(signal.signalType)) return;
+
+      const entryPrice = lastMidPrice.get(signal.marketId);
+      if (!entryPrice) return; // Nothing to price the entry against
+
+      const entry: OpenRecord = { record: this.createRecord(signal, entryPrice, simulatedClock.now()), signal };
+      collected.push(entry);
+
+      const marketRecords = openRecords.get(signal.marketId) || [];
+      marketRecords.push(entry);
+      openRecords.set(signal.marketId, marketRecords);
+    });
+
+    clock.use(simulatedClock);
+
+    try {
+      for (let chunkStart = startTime; chunkStart < endTime; chunkStart += chunkMs) {
+        const chunkEnd = Math.min(chunkStart + chunkMs, endTime);
+        const events = await this.loadEvents(chunkStart, chunkEnd, config.marketIds);
+
+        for (const event of events) {
+          simulatedClock.advanceTo(event.timestamp);
+
+          if (event.kind === 'trade') {
+            stats.tradeEvents++;
+            await detector.ingestTick(event.tick);
+            continue;
+          }
+
+          const { orderbook } = event;
+          stats.orderbookEvents++;
+
+          if (orderbook.midPrice > 0) {
+            lastMidPrice.set(orderbook.marketId, orderbook.midPrice);
+            this.fillExitPrices(openRecords, orderbook);
+          }
+
+          await detector.ingestOrderbook(orderbook);
+        }
+      }
+    } finally {
+      clock.useSystemTime();
+      await detector.stop();
+    }
+
+    stats.marketsSeen = lastMidPrice.size;
+    stats.signalsKept = collected.length;
+
+    const signals = await this.toHistoricalSignals(collected);
+    stats.durationMs = Date.now() - replayStartedAt;
+
+    logger.info(`Event-driven replay produced ${signals.length} signals from ${stats.orderbookEvents} snapshots and ${stats.tradeEvents} trades`, {
+      component: 'event_driven_backtester',
+      operation: 'replay_complete',
+      metadata: { ...stats }
+    });
+
+    return { signals, stats };
+  }
+
+  /**
+   * Load both event tables for one window and merge them in timestamp order.
+   * Trades sort ahead of a snapshot with the same timestamp so the book sees them.
+   */
+  private async loadEvents(startTime: number, endTime: number, marketIds?: string[]): Promise<ReplayEvent[]> {
+    const [orderbooks, ticks] = await Promise.all([
+      this.dataLayer.getOrderbookSnapshotsInRange(startTime, endTime, marketIds),
+      this.dataLayer.getTradeTicksInRange(startTime, endTime, marketIds)
+    ]);
+
+    const events: ReplayEvent[] = [];
+    let i = 0;
+    let j = 0;
+
+    while (i < orderbooks.length || j < ticks.length) {
+      if (j < ticks.length && (i >= orderbooks.length || ticks[j].timestamp <= orderbooks[i].timestamp)) {
+        events.push({ kind: 'trade', timestamp: ticks[j].timestamp, tick: ticks[j] });
+        j++;
+      } else {
+        events.push({ kind: 'orderbook', timestamp: orderbooks[i].timestamp, orderbook: orderbooks[i] });
+        i++;
+      }
+    }
+
+    return events;
+  }
+
+  private fillExitPrices(openRecords: Map<string, OpenRecord[]>, orderbook: OrderbookData): void {
+    const marketRecords = openRecords.get(orderbook.marketId);
+    if (!marketRecords) return;
+
+    const stillOpen = marketRecords.filter(({ record }) => {
+      for (const horizon of EXIT_HORIZONS) {
+        if (record[horizon.field] === undefined && orderbook.timestamp >= record.entryTime + horizon.offsetMs) {
+          record[horizon.field] = orderbook.midPrice;
+        }
+      }
+      return record.price24hr === undefined;
+    });
+
+    if (stillOpen.length > 0) {
+      openRecords.set(orderbook.marketId, stillOpen);
+    } else {
+      openRecords.delete(orderbook.marketId);
+    }
+  }
+
+  private createRecord(signal: EarlySignal, entryPrice: number, entryTime: number): SignalPerformanceRecord {
+    return {
+      id: randomUUID(),
+      marketId: signal.marketId,
+      signalType: signal.signalType,
+      confidence: signal.confidence,
+      entryTime,
+      entryOutcomeIndex: 0, // Snapshots are stored for the YES token
+      entryOutcomeName: 'Yes',
+      entryPrice,
+      entryDirection: this.inferDirection(signal),
+      marketVolume: 0,
+      marketActive: true,
+      marketResolved: false,
+      metadata: {
+        originalSignalMetadata: signal.metadata,
+        source: 'event_driven_backtest'
+      }
+    };
+  }
+
+  /**
+   * Direction from the signal itself, falling back to book imbalance at detection time
+   */
+  private inferDirection(signal: EarlySignal): 'bullish' | 'bearish' | 'neutral' {
+    const metadata = signal.metadata || {};
+
+    if (metadata.direction === 'bullish' || metadata.direction === 'bearish') {
+      return metadata.direction;
+    }
+
+    const context = metadata.microstructureData?.context;
+    if (context && (context.bidVolume || context.askVolume)) {
+      const ratio = context.askVolume > 0 ? context.bidVolume / context.askVolume : 0;
+      return ratio > 1.5 ? 'bullish' : ratio < 0.67 ? 'bearish' : 'neutral';
+    }
+
+    const imbalance = metadata.orderBookImbalance ?? metadata.orderbookMetrics?.depthImbalance;
+    if (typeof imbalance === 'number' && Math.abs(imbalance) > 0.1) {
+      return imbalance > 0 ? 'bullish' : 'bearish';
+    }
+
+    return 'neutral';
+  }
+
+  private async toHistoricalSignals(collected: OpenRecord[]): Promise<HistoricalSignalData[]> {
+    const markets = new Map<string, Market>();
+
+    for (const marketId of new Set(collected.map(entry => entry.record.marketId))) {
+      const market = await this.dataLayer.getMarket(marketId);
+      markets.set(marketId, market || this.placeholderMarket(marketId));
+    }
+
+    return collected.map(({ record, signal }) => {
+      const market = markets.get(record.marketId)!;
+      record.marketVolume = market.volumeNum;
+      record.marketActive = market.active;
+
+      return {
+        signal: { ...signal, market },
+        market,
+        performanceRecord: record
+      };
+    });
+  }
+
+  private placeholderMarket(marketId: string): Market {
+    return {
+      id: marketId,
+      question: `Market ${marketId.substring(0, 8)}...`,
+      outcomes: ['Yes', 'No'],
+      outcomePrices: [],
+      volume: '0',
+      volumeNum: 0,
+      active: true,
+      closed: false
+    };
+  }
+}
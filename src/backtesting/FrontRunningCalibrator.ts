@@ -0,0 +1,223 @@
+import { DatabaseManager } from '../data/database';
+import { DataAccessLayer } from '../data/DataAccessLayer';
+import { advancedLogger as logger } from '../utils/AdvancedLogger';
+import {
+  applyCalibration,
+  CalibrationCurve,
+  CalibrationMethod,
+  CalibrationReport,
+  CalibrationSample,
+  evaluateCalibration,
+  fitCalibration
+} from '../statistics/ScoreCalibration';
+
+export const FRONT_RUNNING_CALIBRATION_MODEL = 'front_running';
+
+export interface CalibrationOutcomeOptions {
+  horizonMinutes: number;     // How far ahead to look for the move
+  moveThresholdPct: number;   // Absolute move that counts as the leak playing out
+}
+
+export interface FrontRunningCalibrationSample extends CalibrationSample {
+  marketId: string;
+  timestamp: number;
+  heuristicProbability: number; // Heuristic leakProbability at scoring time, before any calibration
+  movementPct: number;
+}
+
+export interface FrontRunningCalibrationResult {
+  curve: CalibrationCurve;
+  uncalibrated: CalibrationReport;
+  calibrated: CalibrationReport;
+}
+
+// Same "significant move" definition FrontRunningValidator uses: >1% within 30 minutes
+const DEFAULT_OUTCOME_OPTIONS: CalibrationOutcomeOptions = {
+  horizonMinutes: 30,
+  moveThresholdPct: 1.0
+};
+
+const MIN_CALIBRATION_SAMPLES = 50;
+const MAX_ENTRY_PRICE_AGE_MS = 5 * 60 * 1000;
+
+/**
+ * Fits and persists the calibration curve that turns front-running scores into
+ * leak probabilities.
+ *
+ * Samples are stored front_running_scores rows labeled by whether the market
+ * moved more than the threshold within the horizon, measured from market_prices.
+ */
+export class FrontRunningCalibrator {
+  private database: DatabaseManager;
+  private dataLayer: DataAccessLayer;
+
+  constructor(database: DatabaseManager) {
+    this.database = database;
+    this.dataLayer = new DataAccessLayer(database);
+  }
+
+  /**
+   * Label stored scores in a date range with their subsequent price move.
+   * Scores without a recent entry price or a price after the horizon are skipped.
+   */
+  async loadSamples(
+    startDate: Date,
+    endDate: Date,
+    options: Partial<CalibrationOutcomeOptions> = {}
+  ): Promise<FrontRunningCalibrationSample[]> {
+    const { horizonMinutes, moveThresholdPct } = { ...DEFAULT_OUTCOME_OPTIONS, ...options };
+    const horizonMs = horizonMinutes * 60 * 1000;
+
+    const scores = await this.dataLayer.getFrontRunningScoresInRange(startDate.getTime(), endDate.getTime());
+
+    const byMarket = new Map<string, typeof scores>();
+    for (const score of scores) {
+      if (!byMarket.has(score.marketId)) byMarket.set(score.marketId, []);
+      byMarket.get(score.marketId)!.push(score);
+    }
+
+    const samples: FrontRunningCalibrationSample[] = [];
+    for (const [marketId, marketScores] of byMarket) {
+      const prices = await this.dataLayer.getPriceSeries(
+        marketId,
+        0,
+        marketScores[0].timestamp - MAX_ENTRY_PRICE_AGE_MS,
+        marketScores[marketScores.length - 1].timestamp + horizonMs * 1.5
+      );
+      if (prices.length < 2) continue;
+
+      for (const score of marketScores) {
+        const entry = this.priceAtOrBefore(prices, score.timestamp);
+        const exit = this.priceAtOrAfter(prices, score.timestamp + horizonMs);
+        if (!entry || entry.price <= 0 || score.timestamp - entry.timestamp > MAX_ENTRY_PRICE_AGE_MS) continue;
+        if (!exit || exit.timestamp - score.timestamp > horizonMs * 1.5) continue;
+
+        const movementPct = ((exit.price - entry.price) / entry.price) * 100;
+        samples.push({
+          marketId,
+          timestamp: score.timestamp,
+          score: score.score,
+          outcome: Math.abs(movementPct) > moveThresholdPct,
+          heuristicProbability: score.heuristicLeakProbability,
+          movementPct
+        });
+      }
+    }
+
+    logger.info(`Labeled ${samples.length}/${scores.length} front-running scores for calibration`, {
+      component: 'front_running_calibrator',
+      operation: 'load_samples',
+      metadata: { markets: byMarket.size, horizonMinutes, moveThresholdPct }
+    });
+
+    return samples;
+  }
+
+  /**
+   * Fit a calibration curve on a date range and report Brier score and
+   * reliability for the heuristic and calibrated probabilities (in-sample)
+   */
+  async fit(
+    startDate: Date,
+    endDate: Date,
+    method: CalibrationMethod = 'isotonic',
+    options: Partial<CalibrationOutcomeOptions> = {}
+  ): Promise<FrontRunningCalibrationResult> {
+    const samples = await this.loadSamples(startDate, endDate, options);
+    if (samples.length < MIN_CALIBRATION_SAMPLES) {
+      throw new Error(`Not enough labeled scores to calibrate: ${samples.length} (need ${MIN_CALIBRATION_SAMPLES})`);
+    }
+
+    const curve = fitCalibration(samples, method);
+    return { curve, ...FrontRunningCalibrator.evaluate(samples, curve) };
+  }
+
+  /**
+   * Brier score and reliability of the heuristic probabilities and, when a curve is given, the calibrated ones
+   */
+  static evaluate(
+    samples: FrontRunningCalibrationSample[],
+    curve: CalibrationCurve | null
+  ): { uncalibrated: CalibrationReport; calibrated: CalibrationReport } {
+    const uncalibrated = evaluateCalibration(samples.map(s => ({ probability: s.heuristicProbability, outcome: s.outcome })));
+    const calibrated = curve
+      ? evaluateCalibration(samples.map(s => ({ probability: applyCalibration(curve, s.score), outcome: s.outcome })))
+      : uncalibrated;
+    return { uncalibrated, calibrated };
+  }
+
+  /**
+   * Persist a fitted curve; the most recently saved curve is the one applied at scoring time
+   */
+  async save(result: FrontRunningCalibrationResult): Promise<void> {
+    await this.database.query(`
+      INSERT INTO score_calibrations (
+        model, method, curve, sample_size, uncalibrated_brier_score, calibrated_brier_score, fitted_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `, [
+      FRONT_RUNNING_CALIBRATION_MODEL,
+      result.curve.method,
+      JSON.stringify(result.curve),
+      result.curve.sampleSize,
+      result.uncalibrated.brierScore,
+      result.calibrated.brierScore,
+      new Date(result.curve.fittedAt)
+    ]);
+
+    logger.info('Front-running calibration saved', {
+      component: 'front_running_calibrator',
+      operation: 'save',
+      metadata: {
+        method: result.curve.method,
+        sampleSize: result.curve.sampleSize,
+        uncalibratedBrier: result.uncalibrated.brierScore,
+        calibratedBrier: result.calibrated.brierScore
+      }
+    });
+  }
+
+  /**
+   * Latest saved curve, or null if none has been fitted
+   */
+  async loadLatest(): Promise<CalibrationCurve | null> {
+    const rows = await this.database.query(
+      'SELECT curve FROM score_calibrations WHERE model = $1 ORDER BY id DESC LIMIT 1',
+      [FRONT_RUNNING_CALIBRATION_MODEL]
+    );
+    if (rows.length === 0) return null;
+
+    return typeof rows[0].curve === 'string' ? JSON.parse(rows[0].curve) : rows[0].curve;
+  }
+
+  private priceAtOrBefore(prices: Array<{ timestamp: number; price: number }>, timestamp: number) {
+    let low = 0;
+    let high = prices.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (prices[mid].timestamp <= timestamp) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return found >= 0 ? prices[found] : null;
+  }
+
+  private priceAtOrAfter(prices: Array<{ timestamp: number; price: number }>, timestamp: number) {
+    let low = 0;
+    let high = prices.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (prices[mid].timestamp >= timestamp) {
+        found = mid;
+        high = mid - 1;
+      } else {
+        low = mid + 1;
+      }
+    }
+    return found >= 0 ? prices[found] : null;
+  }
+}
@@ -1,5 +1,7 @@
 import { DatabaseManager } from '../data/database';
 import { advancedLogger as logger } from '../utils/AdvancedLogger';
+import { CalibrationReport } from '../statistics/ScoreCalibration';
+import { FrontRunningCalibrator } from './FrontRunningCalibrator';
 import { HistoricalDataLoader } from './HistoricalDataLoader';
 
 export interface FrontRunningValidation {
@@ -73,6 +75,13 @@ export interface FrontRunningMetrics {
     expectedAccuracy: number;
     expectedLeadTime: number;
   };
+
+  // Probability calibration of stored front-running scores (heuristic vs fitted curve)
+  calibration?: {
+    method?: string;
+    uncalibrated: CalibrationReport;
+    calibrated: CalibrationReport;
+  };
 }
 
 /**
@@ -115,7 +124,9 @@ export class FrontRunningValidator {
         operation: 'validate_signals'
       });
 
-      return this.createEmptyMetrics();
+      const empty = this.createEmptyMetrics();
+      empty.calibration = await this.evaluateCalibration(startDate, endDate);
+      return empty;
     }
 
     logger.info(`Loaded ${signals.length} front-running signals for validation`, {
@@ -133,6 +144,7 @@ export class FrontRunningValidator {
 
     // Calculate aggregate metrics
     const metrics = this.calculateMetrics(validations);
+    metrics.calibration = await this.evaluateCalibration(startDate, endDate);
 
     logger.info('Front-running validation complete', {
       component: 'front_running_validator',
@@ -148,6 +160,28 @@ export class FrontRunningValidator {
     return metrics;
   }
 
+  /**
+   * Brier score and reliability of the stored front-running scores, using the
+   * latest saved calibration curve if one exists
+   */
+  private async evaluateCalibration(startDate: Date, endDate: Date): Promise<FrontRunningMetrics['calibration']> {
+    try {
+      const calibrator = new FrontRunningCalibrator(this.database);
+      const samples = await calibrator.loadSamples(startDate, endDate);
+      if (samples.length === 0) return undefined;
+
+      const curve = await calibrator.loadLatest();
+      return { method: curve?.method, ...FrontRunningCalibrator.evaluate(samples, curve) };
+    } catch (error) {
+      logger.warn('Could not evaluate front-running calibration', {
+        component: 'front_running_validator',
+        operation: 'evaluate_calibration',
+        metadata: { error: (error as Error).message }
+      });
+      return undefined;
+    }
+  }
+
   /**
    * Load front-running signals from database
    */
@@ -570,6 +604,10 @@ export class FrontRunningValidator {
 
     lines.push('');
 
+    if (metrics.calibration) {
+      lines.push(...this.formatCalibration(metrics.calibration));
+    }
+
     // Recommendations
     lines.push('═'.repeat(100));
     lines.push('RECOMMENDATIONS');
@@ -591,4 +629,43 @@ export class FrontRunningValidator {
 
     return lines.join('\n');
   }
+
+  /**
+   * Brier scores and reliability diagram section of the report
+   */
+  private formatCalibration(calibration: NonNullable<FrontRunningMetrics['calibration']>): string[] {
+    const lines: string[] = [];
+    const { uncalibrated, calibrated } = calibration;
+
+    lines.push('Probability Calibration (leak probability vs observed >1% move in 30min):');
+    lines.push('-'.repeat(100));
+    lines.push(`  Scores Evaluated: ${uncalibrated.sampleSize}`);
+    lines.push(`  Base Rate: ${(uncalibrated.baseRate * 100).toFixed(1)}%`);
+    lines.push(`  Brier Score (heuristic): ${uncalibrated.brierScore.toFixed(4)}`);
+    lines.push(calibration.method
+      ? `  Brier Score (${calibration.method} calibrated): ${calibrated.brierScore.toFixed(4)}`
+      : '  Brier Score (calibrated): no calibration fitted (npm run calibrate:frontrun)');
+    lines.push('');
+
+    const reports: Array<[string, CalibrationReport]> = calibration.method
+      ? [['Heuristic', uncalibrated], ['Calibrated', calibrated]]
+      : [['Heuristic', uncalibrated]];
+
+    for (const [label, report] of reports) {
+      lines.push(`  Reliability Diagram (${label}):`);
+      lines.push(`${'  Bin'.padEnd(14)}${'Count'.padEnd(8)}${'Predicted'.padEnd(12)}${'Observed'.padEnd(12)}Observed rate`);
+      for (const bin of report.reliability) {
+        lines.push(
+          `  ${bin.lower.toFixed(1)}-${bin.upper.toFixed(1)}`.padEnd(14) +
+          bin.count.toString().padEnd(8) +
+          `${(bin.meanPredicted * 100).toFixed(1)}%`.padEnd(12) +
+          `${(bin.observedRate * 100).toFixed(1)}%`.padEnd(12) +
+          '█'.repeat(Math.round(bin.observedRate * 40))
+        );
+      }
+      lines.push('');
+    }
+
+    return lines;
+  }
 }
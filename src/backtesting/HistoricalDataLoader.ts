@@ -15,6 +15,9 @@ export interface MarketResolution {
   resolutionTime?: number;
   winningOutcomeIndex?: number;
   finalPrice?: number;
+  outcomePrices?: number[]; // Settlement payout per outcome (authoritative resolutions only)
+  invalid?: boolean;        // Resolved 50-50 with no winner
+  source: 'market_resolutions' | 'inferred';
 }
 
 export interface HistoricalDataQuery {
@@ -116,6 +119,9 @@ export class HistoricalDataLoader {
 
   /**
    * Load market resolutions for a set of market IDs
+   *
+   * Settlements stored by MarketResolutionService take precedence; markets it
+   * has not resolved fall back to inferring the winner from the stored prices.
    */
   async loadMarketResolutions(marketIds: string[]): Promise<Map<string, MarketResolution>> {
     if (marketIds.length === 0) {
@@ -127,6 +133,66 @@ export class HistoricalDataLoader {
       operation: 'load_resolutions'
     });
 
+    const resolutions = await this.loadStoredResolutions(marketIds);
+    const remainingIds = marketIds.filter(id => !resolutions.has(id));
+
+    if (remainingIds.length > 0) {
+      for (const [marketId, resolution] of await this.inferMarketResolutions(remainingIds)) {
+        resolutions.set(marketId, resolution);
+      }
+    }
+
+    logger.info(`Loaded ${resolutions.size} market resolutions`, {
+      component: 'historical_data_loader',
+      operation: 'load_resolutions',
+      metadata: {
+        count: resolutions.size,
+        resolvedCount: Array.from(resolutions.values()).filter(r => r.resolved).length,
+        authoritativeCount: resolutions.size - remainingIds.length
+      }
+    });
+
+    return resolutions;
+  }
+
+  /**
+   * Resolutions recorded in market_resolutions
+   */
+  private async loadStoredResolutions(marketIds: string[]): Promise<Map<string, MarketResolution>> {
+    const placeholders = marketIds.map((_, i) => `$${i + 1}`).join(', ');
+    const rows = await this.database.query(
+      `SELECT * FROM market_resolutions WHERE market_id IN (${placeholders})`,
+      marketIds
+    );
+
+    const resolutions = new Map<string, MarketResolution>();
+
+    for (const row of rows) {
+      const outcomePrices: number[] = (typeof row.outcome_prices === 'string'
+        ? JSON.parse(row.outcome_prices)
+        : row.outcome_prices || []
+      ).map((price: string | number) => Number(price));
+      const winningOutcomeIndex = row.winning_outcome_index ?? undefined;
+
+      resolutions.set(row.market_id, {
+        marketId: row.market_id,
+        resolved: true,
+        resolutionTime: new Date(row.resolved_at).getTime(),
+        winningOutcomeIndex,
+        finalPrice: winningOutcomeIndex !== undefined ? outcomePrices[winningOutcomeIndex] : outcomePrices[0],
+        outcomePrices,
+        invalid: row.status === 'invalid',
+        source: 'market_resolutions'
+      });
+    }
+
+    return resolutions;
+  }
+
+  /**
+   * Infer resolutions from the latest stored market prices
+   */
+  private async inferMarketResolutions(marketIds: string[]): Promise<Map<string, MarketResolution>> {
     const placeholders = marketIds.map((_, i) => `$${i + 1}`).join(', ');
     const sql = `
       SELECT
@@ -172,19 +238,11 @@ export class HistoricalDataLoader {
         resolved: row.closed || false,
         resolutionTime: row.end_date ? new Date(row.end_date).getTime() : undefined,
         winningOutcomeIndex,
-        finalPrice
+        finalPrice,
+        source: 'inferred'
       });
     }
 
-    logger.info(`Loaded ${resolutions.size} market resolutions`, {
-      component: 'historical_data_loader',
-      operation: 'load_resolutions',
-      metadata: {
-        count: resolutions.size,
-        resolvedCount: Array.from(resolutions.values()).filter(r => r.resolved).length
-      }
-    });
-
     return resolutions;
   }
 
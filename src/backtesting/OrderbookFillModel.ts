@@ -0,0 +1,159 @@
+import { DataAccessLayer } from '../data/DataAccessLayer';
+import { OrderbookData, OrderbookLevel } from '../types';
+import { advancedLogger as logger } from '../utils/AdvancedLogger';
+import { BacktestTrade } from './SignalToOutcomeMatcher';
+
+export type FillSide = 'buy' | 'sell';
+
+export interface BookFill {
+  side: FillSide;
+  requestedNotional: number;
+  filledNotional: number;
+  filledShares: number;
+  vwapPrice: number;
+  referencePrice: number; // Mid price of the snapshot the fill was walked against
+  slippageBps: number;    // Adverse distance of the VWAP from the mid
+  levelsConsumed: number;
+  complete: boolean;
+}
+
+/**
+ * Walk one side of a stored snapshot to fill `notional` dollars.
+ * Buys lift the asks from the lowest price up; sells hit the bids from the highest down.
+ * Returns a partial fill when the visible depth runs out.
+ */
+export function fillNotional(orderbook: OrderbookData, side: FillSide, notional: number): BookFill {
+  const levels = sortedLevels(orderbook, side);
+  let remaining = notional;
+  let filledNotional = 0;
+  let filledShares = 0;
+  let levelsConsumed = 0;
+
+  for (const level of levels) {
+    if (remaining <= 0) break;
+    if (level.price <= 0 || level.size <= 0) continue;
+
+    const take = Math.min(remaining, level.price * level.size);
+    filledNotional += take;
+    filledShares += take / level.price;
+    remaining -= take;
+    levelsConsumed++;
+  }
+
+  return buildFill(orderbook, side, notional, filledNotional, filledShares, levelsConsumed, remaining <= 1e-9);
+}
+
+/**
+ * Walk one side of a stored snapshot to unwind `shares`.
+ * Returns a partial fill when the visible depth runs out; `filledShares` is
+ * then less than requested and the caller decides how to price the rest.
+ */
+export function fillShares(orderbook: OrderbookData, side: FillSide, shares: number): BookFill {
+  const levels = sortedLevels(orderbook, side);
+  let remaining = shares;
+  let filledNotional = 0;
+  let filledShares = 0;
+  let levelsConsumed = 0;
+
+  for (const level of levels) {
+    if (remaining <= 0) break;
+    if (level.price <= 0 || level.size <= 0) continue;
+
+    const take = Math.min(remaining, level.size);
+    filledNotional += take * level.price;
+    filledShares += take;
+    remaining -= take;
+    levelsConsumed++;
+  }
+
+  const requestedNotional = shares * orderbook.midPrice;
+
+  return buildFill(orderbook, side, requestedNotional, filledNotional, filledShares, levelsConsumed, remaining <= 1e-9);
+}
+
+function sortedLevels(orderbook: OrderbookData, side: FillSide): OrderbookLevel[] {
+  return side === 'buy'
+    ? [...orderbook.asks].sort((a, b) => a.price - b.price)
+    : [...orderbook.bids].sort((a, b) => b.price - a.price);
+}
+
+function buildFill(
+  orderbook: OrderbookData,
+  side: FillSide,
+  requestedNotional: number,
+  filledNotional: number,
+  filledShares: number,
+  levelsConsumed: number,
+  complete: boolean
+): BookFill {
+  const vwapPrice = filledShares > 0 ? filledNotional / filledShares : 0;
+  const referencePrice = orderbook.midPrice > 0
+    ? orderbook.midPrice
+    : (orderbook.bestBid + orderbook.bestAsk) / 2;
+
+  // Positive = paid more than mid on a buy / received less than mid on a sell
+  const slippageBps = referencePrice > 0 && vwapPrice > 0
+    ? ((side === 'buy' ? vwapPrice - referencePrice : referencePrice - vwapPrice) / referencePrice) * 10000
+    : 0;
+
+  return {
+    side,
+    requestedNotional,
+    filledNotional,
+    filledShares,
+    vwapPrice,
+    referencePrice,
+    slippageBps,
+    levelsConsumed,
+    complete
+  };
+}
+
+/**
+ * In-memory lookup of the stored snapshots at each trade's entry and exit time
+ *
+ * TradeSimulator is synchronous, so the orchestrator preloads the books it will
+ * need. Only snapshots at or before the requested time are used (no look-ahead),
+ * and anything older than maxAgeMs is treated as missing.
+ */
+export class OrderbookSnapshotIndex {
+  private snapshots: Map<string, OrderbookData | null> = new Map();
+
+  static async load(
+    dataLayer: DataAccessLayer,
+    trades: BacktestTrade[],
+    maxAgeMs: number = 15 * 60 * 1000
+  ): Promise<OrderbookSnapshotIndex> {
+    const index = new OrderbookSnapshotIndex();
+
+    for (const trade of trades) {
+      for (const timestamp of [trade.entryTime, trade.exitTime]) {
+        const key = OrderbookSnapshotIndex.key(trade.marketId, timestamp);
+        if (index.snapshots.has(key)) continue;
+
+        index.snapshots.set(key, await dataLayer.getOrderbookAt(trade.marketId, timestamp, maxAgeMs));
+      }
+    }
+
+    const found = Array.from(index.snapshots.values()).filter(Boolean).length;
+    logger.info(`Loaded ${found}/${index.snapshots.size} orderbook snapshots for fill simulation`, {
+      component: 'orderbook_fill_model',
+      operation: 'load_snapshots',
+      metadata: { trades: trades.length, lookups: index.snapshots.size, found, maxAgeMs }
+    });
+
+    return index;
+  }
+
+  get(marketId: string, timestamp: number): OrderbookData | null {
+    return this.snapshots.get(OrderbookSnapshotIndex.key(marketId, timestamp)) || null;
+  }
+
+  set(marketId: string, timestamp: number, orderbook: OrderbookData | null): void {
+    this.snapshots.set(OrderbookSnapshotIndex.key(marketId, timestamp), orderbook);
+  }
+
+  private static key(marketId: string, timestamp: number): string {
+    return `${marketId}:${timestamp}`;
+  }
+}
@@ -166,10 +166,13 @@ export class SignalToOutcomeMatcher {
     // 5. 30min snapshot
     // 6. Entry price (no movement)
 
-    if (this.config.useActualResolutions && resolution?.resolved && resolution.finalPrice) {
+    // Settle at the payout of the outcome the signal entered, when known
+    const settlementPrice = resolution?.outcomePrices?.[performanceRecord.entryOutcomeIndex] ?? resolution?.finalPrice;
+
+    if (this.config.useActualResolutions && resolution?.resolved && settlementPrice !== undefined) {
       return {
         exitTime: resolution.resolutionTime || performanceRecord.entryTime,
-        exitPrice: resolution.finalPrice,
+        exitPrice: settlementPrice,
         holdPeriod: 'long'
       };
     }
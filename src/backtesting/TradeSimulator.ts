@@ -1,5 +1,7 @@
 import { advancedLogger as logger } from '../utils/AdvancedLogger';
 import { BacktestTrade } from './SignalToOutcomeMatcher';
+import { BookFill, OrderbookSnapshotIndex, fillNotional, fillShares } from './OrderbookFillModel';
+import { PriceImpactEstimate } from '../statistics/PriceImpact';
 
 export interface TradeSimulatorConfig {
   initialCapital: number;
@@ -11,7 +13,11 @@ export interface TradeSimulatorConfig {
   stopLossPct?: number; // Optional stop-loss percentage
   takeProfitPct?: number; // Optional take-profit percentage
   maxConcurrentPositions?: number;
-  marketImpactModel?: 'none' | 'linear' | 'square_root';
+  // 'orderbook' walks stored snapshot depth (requires setOrderbookIndex); trades
+  // without a usable snapshot fall back to the square_root model. 'kyle_lambda'
+  // uses each market's measured lambda (requires setPriceImpactEstimates), with
+  // the same fallback for markets without an estimate
+  marketImpactModel?: 'none' | 'linear' | 'square_root' | 'orderbook' | 'kyle_lambda';
 }
 
 export interface SimulatedTrade extends BacktestTrade {
@@ -24,6 +30,12 @@ export interface SimulatedTrade extends BacktestTrade {
   triggeredTakeProfit: boolean;
   marketImpactBps: number;
   totalCostsBps: number;
+  realizedSlippageBps: number; // Round-trip slippage + impact actually charged, in bps of position size
+  requestedSize: number;
+  fillRatio: number; // Filled / requested notional (< 1 means a partial fill)
+  exitFillRatio?: number; // Shares the exit book absorbed / shares held, for book fills
+  entryFill?: BookFill; // Set when the entry was walked against a stored snapshot
+  exitFill?: BookFill;
 }
 
 export interface PortfolioState {
@@ -50,6 +62,8 @@ export interface PortfolioState {
 export class TradeSimulator {
   private config: TradeSimulatorConfig;
   private portfolio: PortfolioState;
+  private orderbookIndex: OrderbookSnapshotIndex | null = null;
+  private priceImpactEstimates: Map<string, PriceImpactEstimate> = new Map();
 
   constructor(config: Partial<TradeSimulatorConfig> = {}) {
     this.config = {
@@ -120,7 +134,8 @@ export class TradeSimulator {
         totalTrades: this.portfolio.closedTrades.length,
         totalPnL: this.portfolio.totalPnL,
         winRate: this.portfolio.winningTrades / this.portfolio.closedTrades.length,
-        finalCapital: this.portfolio.capital
+        finalCapital: this.portfolio.capital,
+        partialFills: this.portfolio.closedTrades.filter(t => t.fillRatio < 1).length
       }
     });
 
@@ -138,39 +153,45 @@ export class TradeSimulator {
     }
 
     // Calculate position size
-    const positionSize = this.calculatePositionSize(trade);
+    const requestedSize = this.calculatePositionSize(trade);
 
-    if (positionSize <= 0 || positionSize > this.portfolio.capital) {
+    if (requestedSize <= 0 || requestedSize > this.portfolio.capital) {
       // Not enough capital or invalid position size
       return;
     }
 
-    // Calculate market impact based on position size
-    const marketImpactBps = this.calculateMarketImpact(positionSize, trade.entryPrice);
+    // Walk the stored book when available; the fill may be smaller than requested
+    const bookFill = this.config.marketImpactModel === 'orderbook'
+      ? this.simulateBookFill(trade, requestedSize)
+      : null;
 
-    // Total costs = slippage + fees + market impact
-    const totalCostsBps = this.config.slippageBps + this.config.feeBps + marketImpactBps;
+    if (bookFill && bookFill.entry.filledNotional <= 0) {
+      // No visible depth on the side we need
+      return;
+    }
 
-    // Apply costs to entry price
-    const effectiveEntryPrice = trade.direction === 'bullish'
-      ? trade.entryPrice * (1 + totalCostsBps / 10000)
-      : trade.entryPrice * (1 - totalCostsBps / 10000);
+    const positionSize = bookFill ? bookFill.entry.filledNotional : requestedSize;
 
-    // Calculate stop-loss and take-profit prices
-    let stopLossPrice: number | undefined;
-    let takeProfitPrice: number | undefined;
+    // Book fills already include the spread, so flat slippage only applies to formula models
+    const slippageBps = bookFill ? 0 : this.config.slippageBps;
 
-    if (this.config.stopLossPct) {
-      stopLossPrice = trade.direction === 'bullish'
-        ? effectiveEntryPrice * (1 - this.config.stopLossPct / 100)
-        : effectiveEntryPrice * (1 + this.config.stopLossPct / 100);
-    }
+    // Market impact: realized per-side slippage from the book walk, or the formula estimate
+    const marketImpactBps = bookFill
+      ? (bookFill.entry.slippageBps + bookFill.exit.slippageBps) / 2
+      : this.calculateMarketImpact(positionSize, trade.entryPrice, trade.marketId);
 
-    if (this.config.takeProfitPct) {
-      takeProfitPrice = trade.direction === 'bullish'
-        ? effectiveEntryPrice * (1 + this.config.takeProfitPct / 100)
-        : effectiveEntryPrice * (1 - this.config.takeProfitPct / 100);
-    }
+    // Total costs = slippage + fees + market impact
+    const totalCostsBps = slippageBps + this.config.feeBps + marketImpactBps;
+
+    // Book fills trade at their VWAP; formula models mark the recorded price up by the costs
+    const effectiveEntryPrice = bookFill
+      ? bookFill.entry.vwapPrice
+      : trade.direction === 'bullish'
+        ? trade.entryPrice * (1 + totalCostsBps / 10000)
+        : trade.entryPrice * (1 - totalCostsBps / 10000);
+
+    // Calculate stop-loss and take-profit prices
+    const { stopLossPrice, takeProfitPrice } = this.calculateExitLevels(trade.direction, effectiveEntryPrice);
 
     // Check if stop-loss or take-profit would have been triggered
     const triggeredStopLoss = stopLossPrice !== undefined &&
@@ -190,9 +211,14 @@ export class TradeSimulator {
     }
 
     // Apply exit costs
-    const effectiveExitPrice = trade.direction === 'bullish'
-      ? actualExitPrice * (1 - totalCostsBps / 10000)
-      : actualExitPrice * (1 + totalCostsBps / 10000);
+    const bookExit = bookFill
+      ? this.priceBookExit(trade, bookFill, actualExitPrice, triggeredStopLoss || triggeredTakeProfit)
+      : null;
+    const effectiveExitPrice = bookExit
+      ? bookExit.price
+      : trade.direction === 'bullish'
+        ? actualExitPrice * (1 - totalCostsBps / 10000)
+        : actualExitPrice * (1 + totalCostsBps / 10000);
 
     // Calculate P&L
     const priceChange = effectiveExitPrice - effectiveEntryPrice;
@@ -201,13 +227,17 @@ export class TradeSimulator {
       ? (positionSize * pnlPercent) / 100
       : (positionSize * -pnlPercent) / 100;
 
+    // Realized round-trip slippage; for book fills it is already in the prices above
+    const realizedSlippageBps = bookFill && bookExit
+      ? bookFill.entry.slippageBps + bookExit.slippageBps
+      : (slippageBps + marketImpactBps) * 2;
+
     // Calculate fees and slippage in dollars
     const fees = (positionSize * this.config.feeBps / 10000) * 2; // Entry + exit
-    const slippage = (positionSize * this.config.slippageBps / 10000) * 2;
-    const marketImpactCost = (positionSize * marketImpactBps / 10000) * 2;
+    const slippage = (positionSize * realizedSlippageBps / 10000);
 
-    // Net P&L
-    const netPnL = dollarPnL - fees - slippage - marketImpactCost;
+    // Net P&L (book slippage is reported in `slippage` but not charged a second time)
+    const netPnL = bookFill ? dollarPnL - fees : dollarPnL - fees - slippage;
 
     // Create simulated trade
     const simulatedTrade: SimulatedTrade = {
@@ -224,10 +254,16 @@ export class TradeSimulator {
       triggeredTakeProfit,
       marketImpactBps,
       totalCostsBps,
+      realizedSlippageBps,
+      requestedSize,
+      fillRatio: positionSize / requestedSize,
+      exitFillRatio: bookExit?.fillRatio,
+      entryFill: bookFill?.entry,
+      exitFill: bookFill?.exit,
       pnl: dollarPnL,
       pnlPercent,
       fees,
-      slippage: slippage + marketImpactCost,
+      slippage,
       netPnL
     };
 
@@ -235,7 +271,7 @@ export class TradeSimulator {
     this.portfolio.capital += netPnL;
     this.portfolio.totalPnL += netPnL;
     this.portfolio.totalFees += fees;
-    this.portfolio.totalSlippage += slippage + marketImpactCost;
+    this.portfolio.totalSlippage += slippage;
     this.portfolio.closedTrades.push(simulatedTrade);
 
     if (netPnL > 0) {
@@ -249,20 +285,61 @@ export class TradeSimulator {
    * Calculate position size using Kelly criterion or fixed percentage
    */
   private calculatePositionSize(trade: BacktestTrade): number {
+    return this.sizePosition(trade.confidence, this.portfolio.capital);
+  }
+
+  /**
+   * Position size in dollars for a signal of the given confidence against
+   * `capital`, using the configured Kelly or fixed-percentage rules
+   */
+  sizePosition(confidence: number, capital: number): number {
     if (this.config.useKellyCriterion) {
-      return this.calculateKellyPositionSize(trade);
+      return this.calculateKellyPositionSize(confidence, capital);
     } else {
-      return this.calculateFixedPositionSize();
+      return this.calculateFixedPositionSize(capital);
+    }
+  }
+
+  /**
+   * Stop-loss and take-profit prices for a position opened at `entryPrice`
+   */
+  calculateExitLevels(
+    direction: 'bullish' | 'bearish' | 'neutral',
+    entryPrice: number
+  ): { stopLossPrice?: number; takeProfitPrice?: number } {
+    let stopLossPrice: number | undefined;
+    let takeProfitPrice: number | undefined;
+
+    if (this.config.stopLossPct) {
+      stopLossPrice = direction === 'bullish'
+        ? entryPrice * (1 - this.config.stopLossPct / 100)
+        : entryPrice * (1 + this.config.stopLossPct / 100);
+    }
+
+    if (this.config.takeProfitPct) {
+      takeProfitPrice = direction === 'bullish'
+        ? entryPrice * (1 + this.config.takeProfitPct / 100)
+        : entryPrice * (1 - this.config.takeProfitPct / 100);
     }
+
+    return { stopLossPrice, takeProfitPrice };
+  }
+
+  /**
+   * Per-side execution cost in bps (flat slippage + formula market impact)
+   * for a position of `positionSize` dollars. Fees are charged separately.
+   */
+  estimateExecutionCostBps(positionSize: number, price: number, marketId?: string): number {
+    return this.config.slippageBps + this.calculateMarketImpact(positionSize, price, marketId);
   }
 
   /**
    * Calculate position size using Kelly criterion
    * Kelly = (winRate * avgWin - lossRate * avgLoss) / avgWin
    */
-  private calculateKellyPositionSize(trade: BacktestTrade): number {
+  private calculateKellyPositionSize(confidence: number, capital: number): number {
     // Use confidence as proxy for win probability
-    const winProbability = trade.confidence;
+    const winProbability = confidence;
     const lossProbability = 1 - winProbability;
 
     // Assume average win = 10%, average loss = 5% (simplified)
@@ -278,25 +355,32 @@ export class TradeSimulator {
     // Position size as percentage of capital
     const positionSizePct = Math.min(kellyFraction * 100, this.config.maxPositionSizePct);
 
-    return (this.portfolio.capital * positionSizePct) / 100;
+    return (capital * positionSizePct) / 100;
   }
 
   /**
    * Calculate fixed position size as percentage of capital
    */
-  private calculateFixedPositionSize(): number {
-    return (this.portfolio.capital * this.config.maxPositionSizePct) / 100;
+  private calculateFixedPositionSize(capital: number): number {
+    return (capital * this.config.maxPositionSizePct) / 100;
   }
 
   /**
    * Calculate market impact based on position size
    * Larger positions have higher market impact (slippage)
    */
-  private calculateMarketImpact(positionSize: number, price: number): number {
+  private calculateMarketImpact(positionSize: number, price: number, marketId?: string): number {
     if (this.config.marketImpactModel === 'none') {
       return 0;
     }
 
+    const estimate = marketId ? this.priceImpactEstimates.get(marketId) : undefined;
+    if (this.config.marketImpactModel === 'kyle_lambda' && estimate && price > 0) {
+      // The price walks lambda * size over the fill, so the average fill pays half of it
+      const priceMove = Math.max(0, estimate.kyleLambda) * positionSize / 2;
+      return Math.min((priceMove / price) * 10000, 100);
+    }
+
     // Calculate position size as percentage of typical market liquidity
     // Assume typical market has $100k liquidity
     const typicalLiquidity = 100000;
@@ -316,6 +400,61 @@ export class TradeSimulator {
     return Math.min(impactBps, 100);
   }
 
+  /**
+   * Fill the entry against the snapshot at entry time, then unwind the filled
+   * shares against the snapshot at exit time. Returns null (formula fallback)
+   * when either snapshot is missing.
+   */
+  private simulateBookFill(trade: BacktestTrade, requestedSize: number): { entry: BookFill; exit: BookFill } | null {
+    if (!this.orderbookIndex) return null;
+
+    const entryBook = this.orderbookIndex.get(trade.marketId, trade.entryTime);
+    const exitBook = this.orderbookIndex.get(trade.marketId, trade.exitTime);
+    if (!entryBook || !exitBook) return null;
+
+    // Bullish buys the YES book and sells it back; bearish is the mirror image
+    const entrySide = trade.direction === 'bearish' ? 'sell' : 'buy';
+    const exitSide = entrySide === 'buy' ? 'sell' : 'buy';
+
+    const entry = fillNotional(entryBook, entrySide, requestedSize);
+    const exit = fillShares(exitBook, exitSide, entry.filledShares);
+
+    return { entry, exit };
+  }
+
+  /**
+   * Exit price for a book fill. Shares the exit book absorbed trade at its VWAP,
+   * or at the stop/target shifted by the same book slippage when one was hit;
+   * shares it could not absorb are marked with the formula model, as when no
+   * snapshot exists.
+   */
+  private priceBookExit(
+    trade: BacktestTrade,
+    bookFill: { entry: BookFill; exit: BookFill },
+    actualExitPrice: number,
+    triggered: boolean
+  ): { price: number; slippageBps: number; fillRatio: number } {
+    const { entry, exit } = bookFill;
+    const sign = trade.direction === 'bullish' ? -1 : 1; // Selling out receives less, buying back pays more
+
+    const bookShares = Math.min(exit.filledShares, entry.filledShares);
+    const bookPrice = triggered
+      ? actualExitPrice * (1 + sign * exit.slippageBps / 10000)
+      : exit.vwapPrice;
+
+    const unfilledShares = entry.filledShares - bookShares;
+    const fallbackBps = unfilledShares > 0
+      ? this.config.slippageBps + this.calculateMarketImpact(unfilledShares * actualExitPrice, actualExitPrice, trade.marketId)
+      : 0;
+    const fallbackPrice = actualExitPrice * (1 + sign * fallbackBps / 10000);
+
+    const price = (bookShares * bookPrice + unfilledShares * fallbackPrice) / entry.filledShares;
+    const referencePrice = triggered ? actualExitPrice : exit.referencePrice;
+    const slippageBps = referencePrice > 0 ? (sign * (price - referencePrice) / referencePrice) * 10000 : 0;
+
+    return { price, slippageBps, fillRatio: bookShares / entry.filledShares };
+  }
+
   /**
    * Close all open positions (used at end of simulation)
    */
@@ -325,6 +464,20 @@ export class TradeSimulator {
     this.portfolio.openPositions.clear();
   }
 
+  /**
+   * Provide stored snapshots for the 'orderbook' market impact model
+   */
+  setOrderbookIndex(index: OrderbookSnapshotIndex | null): void {
+    this.orderbookIndex = index;
+  }
+
+  /**
+   * Provide measured per-market price impact for the 'kyle_lambda' model
+   */
+  setPriceImpactEstimates(estimates: PriceImpactEstimate[]): void {
+    this.priceImpactEstimates = new Map(estimates.map(estimate => [estimate.marketId, estimate]));
+  }
+
   /**
    * Get portfolio state
    */
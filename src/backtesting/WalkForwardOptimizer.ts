@@ -0,0 +1,433 @@
+import { DatabaseManager } from '../data/database';
+import { configManager, DetectionThresholds } from '../config/ConfigManager';
+import { BotConfig } from '../types';
+import { advancedLogger as logger } from '../utils/AdvancedLogger';
+import { BacktestConfig, BacktestOrchestrator, BacktestReport } from './BacktestOrchestrator';
+import { SimulatedTrade } from './TradeSimulator';
+
+export type WalkForwardObjective = 'sharpe' | 'return' | 'win_rate';
+
+export interface WalkForwardParameter {
+  path: string;     // Dotted DetectionThresholds path, e.g. 'microstructure.orderbookImbalance.threshold'
+  values: number[]; // Candidate values searched on every train window
+}
+
+export interface WalkForwardConfig {
+  startDate: Date;
+  endDate: Date;
+  trainDays: number;
+  testDays: number;
+  stepDays?: number; // Defaults to testDays (non-overlapping test windows)
+  parameters: WalkForwardParameter[];
+  objective?: WalkForwardObjective;
+  minTrainTrades?: number; // Candidates with fewer train trades are not eligible
+  marketIds?: string[];
+
+  // Trading and cost model shared by every train/test run
+  backtest: Omit<BacktestConfig, 'startDate' | 'endDate' | 'signalSource' | 'marketIds'>;
+}
+
+export interface WalkForwardFold {
+  index: number;
+  trainStart: Date;
+  trainEnd: Date;
+  testStart: Date;
+  testEnd: Date;
+  parameters: Record<string, number>;
+  usedFallback: boolean; // No candidate met minTrainTrades; current values were kept
+  candidatesEvaluated: number;
+  train: WalkForwardWindowStats;
+  test: WalkForwardWindowStats;
+}
+
+export interface WalkForwardWindowStats {
+  score: number;
+  trades: number;
+  totalReturnPct: number;
+  sharpeRatio: number;
+  winRate: number;
+  maxDrawdown: number;
+  startCapital: number;
+  endCapital: number;
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  equity: number;
+  fold: number;
+}
+
+export interface ParameterStability {
+  path: string;
+  values: number[]; // Chosen value per fold
+  mean: number;
+  stdDev: number;
+  coefficientOfVariation: number;
+  mode: number;
+  modeFrequency: number; // Share of folds that chose the mode
+  changes: number;       // Folds whose value differs from the previous fold
+}
+
+export interface WalkForwardResult {
+  config: WalkForwardConfig;
+  folds: WalkForwardFold[];
+  equityCurve: EquityPoint[];
+  outOfSample: {
+    trades: number;
+    totalReturnPct: number;
+    sharpeRatio: number;
+    maxDrawdown: number;
+    winRate: number;
+    finalCapital: number;
+  };
+  stability: ParameterStability[];
+  recommended: Record<string, number>; // Values chosen on the most recent train window
+}
+
+/**
+ * DetectionThresholds that reach the event-driven replay, and the BotConfig
+ * microstructure field the detectors read them from
+ */
+const TUNABLE_THRESHOLDS: Record<string, keyof BotConfig['microstructure']> = {
+  'microstructure.orderbookImbalance.threshold': 'orderbookImbalanceThreshold',
+  'microstructure.spreadAnomaly.threshold': 'spreadAnomalyThreshold',
+  'microstructure.liquidityShift.threshold': 'liquidityShiftThreshold'
+};
+
+export const WALK_FORWARD_TUNABLE_PATHS = Object.keys(TUNABLE_THRESHOLDS);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Walk-forward threshold optimization
+ *
+ * Splits history into rolling train/test windows. On each train window every
+ * combination of the candidate values is replayed through the detectors
+ * (event-driven backtest) and scored; the best combination is then run once on
+ * the following, unseen test window. Test windows are chained with compounding
+ * capital into a single out-of-sample equity curve, which is the number to
+ * trust - unlike BacktestRunner.runParameterSweep, which scores and selects on
+ * the same period.
+ */
+export class WalkForwardOptimizer {
+  private database: DatabaseManager;
+  private baseBotConfig: BotConfig;
+
+  constructor(database: DatabaseManager, baseBotConfig: BotConfig) {
+    this.database = database;
+    this.baseBotConfig = baseBotConfig;
+  }
+
+  async run(config: WalkForwardConfig): Promise<WalkForwardResult> {
+    this.validateConfig(config);
+
+    const windows = this.buildWindows(config);
+    if (windows.length === 0) {
+      throw new Error(
+        `Date range is shorter than one train + test window (${config.trainDays}d + ${config.testDays}d)`
+      );
+    }
+
+    const candidates = this.buildGrid(config.parameters);
+    const objective = config.objective || 'sharpe';
+
+    logger.info(`Walk-forward optimization: ${windows.length} folds x ${candidates.length} candidates`, {
+      component: 'walk_forward_optimizer',
+      operation: 'run',
+      metadata: {
+        folds: windows.length,
+        candidates: candidates.length,
+        objective,
+        parameters: config.parameters.map(p => p.path)
+      }
+    });
+
+    const folds: WalkForwardFold[] = [];
+    const equityCurve: EquityPoint[] = [];
+    const oosTrades: SimulatedTrade[] = [];
+    let equity = config.backtest.initialCapital;
+
+    for (let index = 0; index < windows.length; index++) {
+      const window = windows[index];
+
+      // Select on the train window
+      let best: { parameters: Record<string, number>; report: BacktestReport; score: number } | null = null;
+
+      for (const parameters of candidates) {
+        const report = await this.runWindow(config, parameters, window.trainStart, window.trainEnd, config.backtest.initialCapital);
+        if (report.summary.signalsTraded < (config.minTrainTrades ?? 5)) continue;
+
+        const score = this.score(report, objective);
+        if (!best || score > best.score) {
+          best = { parameters, report, score };
+        }
+      }
+
+      const usedFallback = best === null;
+      if (!best) {
+        const parameters = this.currentParameters(config.parameters);
+        const report = await this.runWindow(config, parameters, window.trainStart, window.trainEnd, config.backtest.initialCapital);
+        best = { parameters, report, score: this.score(report, objective) };
+      }
+
+      // Evaluate out of sample with the capital carried from the previous fold
+      const testReport = await this.runWindow(config, best.parameters, window.testStart, window.testEnd, equity);
+      const startCapital = equity;
+
+      equityCurve.push({ timestamp: window.testStart.getTime(), equity, fold: index });
+      for (const trade of [...testReport.trades].sort((a, b) => a.exitTime - b.exitTime)) {
+        equity += trade.netPnL;
+        equityCurve.push({ timestamp: trade.exitTime, equity, fold: index });
+        oosTrades.push(trade);
+      }
+
+      const fold: WalkForwardFold = {
+        index,
+        ...window,
+        parameters: best.parameters,
+        usedFallback,
+        candidatesEvaluated: candidates.length,
+        train: this.windowStats(best.report, best.score, config.backtest.initialCapital),
+        test: this.windowStats(testReport, this.score(testReport, objective), startCapital)
+      };
+      folds.push(fold);
+
+      logger.info(`Fold ${index + 1}/${windows.length}: train ${objective} ${best.score.toFixed(3)}, test return ${fold.test.totalReturnPct.toFixed(2)}%`, {
+        component: 'walk_forward_optimizer',
+        operation: 'fold_complete',
+        metadata: {
+          fold: index,
+          parameters: best.parameters,
+          usedFallback,
+          trainTrades: fold.train.trades,
+          testTrades: fold.test.trades,
+          equity
+        }
+      });
+    }
+
+    const initialCapital = config.backtest.initialCapital;
+
+    return {
+      config,
+      folds,
+      equityCurve,
+      outOfSample: {
+        trades: oosTrades.length,
+        totalReturnPct: ((equity - initialCapital) / initialCapital) * 100,
+        sharpeRatio: this.tradeSharpe(oosTrades),
+        maxDrawdown: this.maxDrawdown(equityCurve.map(point => point.equity)),
+        winRate: oosTrades.length > 0 ? oosTrades.filter(t => t.netPnL > 0).length / oosTrades.length : 0,
+        finalCapital: equity
+      },
+      stability: config.parameters.map(p => this.parameterStability(p.path, folds)),
+      recommended: { ...folds[folds.length - 1].parameters }
+    };
+  }
+
+  /**
+   * Nested DetectionThresholds overrides for the recommended values
+   */
+  toPreset(result: WalkForwardResult): Partial<DetectionThresholds> {
+    const preset: Record<string, any> = {};
+
+    for (const [parameterPath, value] of Object.entries(result.recommended)) {
+      const keys = parameterPath.split('.');
+      let node = preset;
+      for (const key of keys.slice(0, -1)) {
+        node[key] = node[key] || {};
+        node = node[key];
+      }
+      node[keys[keys.length - 1]] = value;
+    }
+
+    return preset as Partial<DetectionThresholds>;
+  }
+
+  /**
+   * Save the recommended values as a ConfigManager preset (apply with `npm run config preset <name>`)
+   */
+  exportPreset(result: WalkForwardResult, name: string): string {
+    return configManager.savePreset(name, this.toPreset(result), {
+      source: 'walk_forward',
+      objective: result.config.objective || 'sharpe',
+      startDate: result.config.startDate.toISOString(),
+      endDate: result.config.endDate.toISOString(),
+      trainDays: result.config.trainDays,
+      testDays: result.config.testDays,
+      folds: result.folds.length,
+      outOfSample: result.outOfSample,
+      stability: result.stability.map(s => ({
+        path: s.path,
+        coefficientOfVariation: s.coefficientOfVariation,
+        modeFrequency: s.modeFrequency
+      }))
+    });
+  }
+
+  private validateConfig(config: WalkForwardConfig): void {
+    if (config.trainDays <= 0 || config.testDays <= 0 || (config.stepDays !== undefined && config.stepDays <= 0)) {
+      throw new Error('trainDays, testDays and stepDays must be positive');
+    }
+    if (config.parameters.length === 0) {
+      throw new Error('At least one parameter must be tuned');
+    }
+
+    for (const parameter of config.parameters) {
+      if (!TUNABLE_THRESHOLDS[parameter.path]) {
+        throw new Error(
+          `${parameter.path} is not used by the event-driven replay (tunable: ${WALK_FORWARD_TUNABLE_PATHS.join(', ')})`
+        );
+      }
+      if (parameter.values.length === 0 || parameter.values.some(v => !Number.isFinite(v))) {
+        throw new Error(`${parameter.path} needs at least one numeric candidate value`);
+      }
+    }
+  }
+
+  private buildWindows(config: WalkForwardConfig): Array<Pick<WalkForwardFold, 'trainStart' | 'trainEnd' | 'testStart' | 'testEnd'>> {
+    const windows: Array<Pick<WalkForwardFold, 'trainStart' | 'trainEnd' | 'testStart' | 'testEnd'>> = [];
+    const stepMs = (config.stepDays ?? config.testDays) * DAY_MS;
+    const endTime = config.endDate.getTime();
+
+    for (let trainStart = config.startDate.getTime(); ; trainStart += stepMs) {
+      const trainEnd = trainStart + config.trainDays * DAY_MS;
+      const testEnd = trainEnd + config.testDays * DAY_MS;
+      if (testEnd > endTime) break;
+
+      windows.push({
+        trainStart: new Date(trainStart),
+        trainEnd: new Date(trainEnd),
+        testStart: new Date(trainEnd),
+        testEnd: new Date(testEnd)
+      });
+    }
+
+    return windows;
+  }
+
+  /**
+   * Cartesian product of the candidate values
+   */
+  private buildGrid(parameters: WalkForwardParameter[]): Array<Record<string, number>> {
+    return parameters.reduce<Array<Record<string, number>>>(
+      (grid, parameter) => grid.flatMap(combo => parameter.values.map(value => ({ ...combo, [parameter.path]: value }))),
+      [{}]
+    );
+  }
+
+  private currentParameters(parameters: WalkForwardParameter[]): Record<string, number> {
+    const current: Record<string, number> = {};
+    for (const parameter of parameters) {
+      current[parameter.path] = this.baseBotConfig.microstructure[TUNABLE_THRESHOLDS[parameter.path]];
+    }
+    return current;
+  }
+
+  private async runWindow(
+    config: WalkForwardConfig,
+    parameters: Record<string, number>,
+    startDate: Date,
+    endDate: Date,
+    initialCapital: number
+  ): Promise<BacktestReport> {
+    const botConfig: BotConfig = {
+      ...this.baseBotConfig,
+      microstructure: { ...this.baseBotConfig.microstructure }
+    };
+    for (const [parameterPath, value] of Object.entries(parameters)) {
+      botConfig.microstructure[TUNABLE_THRESHOLDS[parameterPath]] = value;
+    }
+
+    const orchestrator = new BacktestOrchestrator(this.database, botConfig);
+    return orchestrator.runBacktest({
+      ...config.backtest,
+      initialCapital,
+      startDate,
+      endDate,
+      signalSource: 'event_driven',
+      marketIds: config.marketIds
+    });
+  }
+
+  private score(report: BacktestReport, objective: WalkForwardObjective): number {
+    switch (objective) {
+      case 'return':
+        return report.summary.totalReturnPct;
+      case 'win_rate':
+        return report.summary.winRate;
+      default:
+        return report.summary.sharpeRatio;
+    }
+  }
+
+  private windowStats(report: BacktestReport, score: number, startCapital: number): WalkForwardWindowStats {
+    return {
+      score,
+      trades: report.summary.signalsTraded,
+      totalReturnPct: report.summary.totalReturnPct,
+      sharpeRatio: report.summary.sharpeRatio,
+      winRate: report.summary.winRate,
+      maxDrawdown: report.summary.maxDrawdown,
+      startCapital,
+      endCapital: report.summary.finalCapital
+    };
+  }
+
+  /**
+   * Per-trade Sharpe, matching TradeSimulator.calculateMetrics
+   */
+  private tradeSharpe(trades: SimulatedTrade[]): number {
+    if (trades.length === 0) return 0;
+
+    const returns = trades.map(t => (t.size > 0 ? (t.netPnL / t.size) * 100 : 0));
+    const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) / returns.length;
+    const stdDev = Math.sqrt(variance);
+
+    return stdDev > 0 ? avgReturn / stdDev : 0;
+  }
+
+  /**
+   * Maximum peak-to-trough decline of the equity curve, in percent
+   */
+  private maxDrawdown(equity: number[]): number {
+    let peak = equity[0] ?? 0;
+    let maxDrawdown = 0;
+
+    for (const value of equity) {
+      peak = Math.max(peak, value);
+      if (peak > 0) {
+        maxDrawdown = Math.max(maxDrawdown, ((peak - value) / peak) * 100);
+      }
+    }
+
+    return maxDrawdown;
+  }
+
+  private parameterStability(parameterPath: string, folds: WalkForwardFold[]): ParameterStability {
+    const values = folds.map(fold => fold.parameters[parameterPath]);
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const stdDev = Math.sqrt(values.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / values.length);
+
+    const counts = new Map<number, number>();
+    for (const value of values) {
+      counts.set(value, (counts.get(value) || 0) + 1);
+    }
+    let mode = values[0];
+    for (const [value, count] of counts) {
+      if (count > (counts.get(mode) || 0)) mode = value;
+    }
+
+    return {
+      path: parameterPath,
+      values,
+      mean,
+      stdDev,
+      coefficientOfVariation: mean !== 0 ? stdDev / Math.abs(mean) : 0,
+      mode,
+      modeFrequency: (counts.get(mode) || 0) / values.length,
+      changes: values.filter((value, i) => i > 0 && value !== values[i - 1]).length
+    };
+  }
+}
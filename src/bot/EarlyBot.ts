@@ -1,4 +1,4 @@
-import { BotConfig, EarlySignal, Market, MicrostructureSignal } from '../types';
+import { BotConfig, EarlySignal, Market, MarketSuppression, MicrostructureSignal, SignalProvenance } from '../types';
 import { PolymarketService } from '../services/PolymarketService';
 import { EnhancedPolymarketService } from '../services/EnhancedPolymarketService';
 import { SignalDetector } from '../services/SignalDetector';
@@ -6,19 +6,49 @@ import { MicrostructureDetector } from '../services/MicrostructureDetector';
 import { DiscordAlerter } from '../services/DiscordAlerter';
 import { PrioritizedDiscordNotifier } from '../services/PrioritizedDiscordNotifier';
 import { TopicClusteringEngine } from '../services/TopicClusteringEngine';
-import { SignalPerformanceTracker } from '../services/SignalPerformanceTracker';
+import { LearnedTopicClusterer } from '../services/LearnedTopicClusterer';
+import { SignalPerformanceTracker, SignalValidationInput, SignalValidationRecord } from '../services/SignalPerformanceTracker';
 import { PriceHistoryTracker } from '../services/PriceHistoryTracker';
+import { PaperTradingEngine } from '../services/PaperTradingEngine';
+import { MarketResolutionService } from '../services/MarketResolutionService';
+import { AlertSubscriptionService } from '../services/AlertSubscriptionService';
+import { alertManager, AlertDecision } from '../services/AlertManager';
+import { buildMarketProvenance, buildSignalProvenance, withAlertDecision } from '../services/SignalProvenance';
 import { CrossMarketCorrelationDetector } from '../services/CrossMarketCorrelationDetector';
+import { EventGroupAnalyzer } from '../services/EventGroupAnalyzer';
+import { AnalyzerCheckpointService } from '../services/AnalyzerCheckpointService';
+import { SuppressionLog } from '../services/SuppressionLog';
+import { WalletTradeFeed } from '../services/WalletTradeFeed';
+import { WalletProfileService } from '../services/WalletProfileService';
+import { SmartMoneyDetector } from '../services/SmartMoneyDetector';
+import { FreshWalletDetector } from '../services/FreshWalletDetector';
+import { MetricsServer } from '../monitoring/MetricsServer';
+import { FrontRunningScore } from '../services/FrontRunningHeuristicEngine';
+import { FrontRunningCalibrator } from '../backtesting/FrontRunningCalibrator';
+import { VPINResult } from '../statistics/VPIN';
 import { DatabaseManager } from '../data/database';
-import { DataAccessLayer } from '../data/DataAccessLayer';
+import { DataAccessLayer, SignalRecord } from '../data/DataAccessLayer';
 import { getDatabaseConfig, validateDatabaseConfig } from '../config/database.config';
 import { configManager } from '../config/ConfigManager';
 import { logger } from '../utils/logger';
 import { advancedLogger } from '../utils/AdvancedLogger';
 import { metricsCollector } from '../monitoring/MetricsCollector';
+import { tracer } from '../monitoring/Tracer';
 import { errorHandler } from '../utils/ErrorHandler';
 import { healthMonitor } from '../utils/HealthMonitor';
 
+// Human labels older than this no longer affect alert weighting
+const HUMAN_LABEL_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Front-running scores are stored for calibration at most once per market per interval
+const FRONT_RUN_SCORE_SAVE_INTERVAL_MS = 60 * 1000;
+
+// Learned topic clusters are re-fit from the tracked markets once a day
+const TOPIC_REFIT_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Wallet track records are recomputed from resolved markets this often
+const WALLET_PROFILE_REFRESH_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
 export class EarlyBot {
   private config: BotConfig;
   private database: DatabaseManager;
@@ -29,9 +59,24 @@ export class EarlyBot {
   private discordAlerter: DiscordAlerter;
   private prioritizedNotifier: PrioritizedDiscordNotifier;
   private topicClusteringEngine: TopicClusteringEngine;
+  private learnedTopicClusterer?: LearnedTopicClusterer;
   private signalPerformanceTracker: SignalPerformanceTracker;
   private priceHistoryTracker: PriceHistoryTracker;
+  private paperTradingEngine: PaperTradingEngine;
+  private marketResolutionService: MarketResolutionService;
+  private alertSubscriptionService: AlertSubscriptionService;
   private crossMarketDetector: CrossMarketCorrelationDetector;
+  private eventGroupAnalyzer: EventGroupAnalyzer;
+  private analyzerCheckpointService: AnalyzerCheckpointService;
+  private suppressionLog: SuppressionLog;
+  private walletTradeFeed: WalletTradeFeed;
+  private walletProfileService: WalletProfileService;
+  private smartMoneyDetector: SmartMoneyDetector;
+  private freshWalletDetector: FreshWalletDetector;
+  private lastWalletProfileRefresh = 0;
+  private metricsServer?: MetricsServer;
+  private lastFrontRunScoreSave: Map<string, number> = new Map();
+  private marketSuppressionWrites: Map<string, Promise<void>> = new Map(); // Latest pending write per market
   private isRunning = false;
   private intervalId?: NodeJS.Timeout;
   private performanceReportInterval?: NodeJS.Timeout;
@@ -78,7 +123,16 @@ export class EarlyBot {
     this.discordAlerter = new DiscordAlerter(this.config);
     this.prioritizedNotifier = new PrioritizedDiscordNotifier(this.config);
     this.topicClusteringEngine = new TopicClusteringEngine();
+    if (process.env.LEARNED_TOPIC_CLUSTERS !== 'false') {
+      this.learnedTopicClusterer = new LearnedTopicClusterer(this.database);
+    }
     this.signalPerformanceTracker = new SignalPerformanceTracker(this.database);
+    this.marketResolutionService = new MarketResolutionService(
+      this.database,
+      this.polymarketService,
+      this.signalPerformanceTracker
+    );
+    this.alertSubscriptionService = new AlertSubscriptionService(this.database);
 
     // Initialize price tracking and cross-market detection
     this.priceHistoryTracker = new PriceHistoryTracker({
@@ -86,12 +140,58 @@ export class EarlyBot {
       bufferSize: 1000,
       minUpdateIntervalMs: 30000 // 30 seconds between updates
     });
+    // Paper portfolio follows the same signal stream and marks from the price tracker
+    this.paperTradingEngine = new PaperTradingEngine(this.database, this.priceHistoryTracker, {
+      initialCapital: parseFloat(process.env.PAPER_TRADING_CAPITAL || '10000'),
+      maxConcurrentPositions: parseInt(process.env.PAPER_MAX_POSITIONS || '10', 10),
+      stopLossPct: process.env.PAPER_STOP_LOSS_PCT ? parseFloat(process.env.PAPER_STOP_LOSS_PCT) : undefined,
+      takeProfitPct: process.env.PAPER_TAKE_PROFIT_PCT ? parseFloat(process.env.PAPER_TAKE_PROFIT_PCT) : undefined,
+      minConfidence: parseFloat(process.env.PAPER_MIN_CONFIDENCE || '0.5'),
+    });
     this.crossMarketDetector = new CrossMarketCorrelationDetector(this.priceHistoryTracker, {
       minCorrelation: 0.7,
       minMarketsForSignal: 3,
       volumeConfirmationThreshold: 1.5,
       minPriceChangePercent: 2
     });
+    this.eventGroupAnalyzer = new EventGroupAnalyzer(this.priceHistoryTracker);
+
+    // Per-market baselines are checkpointed so restarts don't wait for minSampleSize again
+    this.analyzerCheckpointService = new AnalyzerCheckpointService(this.dataLayer);
+    this.analyzerCheckpointService.register('microstructure', this.microstructureDetector.getEnhancedAnalyzer());
+    this.analyzerCheckpointService.register('order_flow', this.microstructureDetector.getOrderFlowAnalyzer());
+    this.analyzerCheckpointService.register('signal_detector', this.signalDetector);
+
+    // Duplicates and blocked alerts are logged so missed moves can be explained later
+    this.suppressionLog = new SuppressionLog(this.dataLayer, {
+      ...(process.env.SUPPRESSION_LOG_MAX_ROWS ? { maxRows: parseInt(process.env.SUPPRESSION_LOG_MAX_ROWS, 10) } : {})
+    });
+    this.signalDetector.onSuppressed(entry => this.suppressionLog.record(entry));
+    alertManager.onSuppressed(entry => this.suppressionLog.record(entry));
+
+    // Operator mutes and snoozes are stored so they survive restarts
+    alertManager.onMarketSuppressionChange((marketId, suppression) => this.storeMarketSuppression(marketId, suppression));
+
+    // Smart money: attributed trades from the data API, or a local trade file standing in for it
+    this.walletTradeFeed = new WalletTradeFeed({
+      ...(process.env.WALLET_TRADES_API_URL ? { apiUrl: process.env.WALLET_TRADES_API_URL } : {}),
+      ...(process.env.WALLET_TRADES_FILE ? { filePath: process.env.WALLET_TRADES_FILE } : {})
+    });
+    this.walletProfileService = new WalletProfileService(this.dataLayer, this.marketResolutionService);
+    this.smartMoneyDetector = new SmartMoneyDetector();
+    this.freshWalletDetector = new FreshWalletDetector(FreshWalletDetector.combineFirstActivity(
+      wallet => this.walletTradeFeed.fetchFirstActivity(wallet),
+      async wallet => (await this.dataLayer.getWalletFirstTradeTimes([wallet])).get(wallet) ?? null
+    ));
+    this.freshWalletDetector.setTopicClustering(this.topicClusteringEngine);
+
+    // Prometheus scrape endpoint, independent of the web dashboard
+    if (process.env.METRICS_PORT) {
+      this.metricsServer = new MetricsServer({
+        port: parseInt(process.env.METRICS_PORT),
+        ...(process.env.METRICS_AUTH_TOKEN ? { authToken: process.env.METRICS_AUTH_TOKEN } : {})
+      });
+    }
   }
 
   async initialize(): Promise<void> {
@@ -137,11 +237,52 @@ export class EarlyBot {
         'microstructure_detector_initialization'
       );
 
+      // Restore analyzer baselines from the last checkpoint (or rebuild them from stored history)
+      await this.warmStartAnalyzers();
+
       // Initialize signal performance tracker
       await errorHandler.executeWithRetry(
         () => this.signalPerformanceTracker.initialize(),
         'signal_performance_tracker_initialization'
       );
+      await this.refreshHumanPrecision();
+
+      // Apply the latest fitted front-running calibration (npm run calibrate:frontrun)
+      await this.loadFrontRunningCalibration();
+
+      // Restore learned topic clusters so markets keep their clusters across restarts
+      if (this.learnedTopicClusterer) {
+        const learnedTopicClusterer = this.learnedTopicClusterer;
+        await errorHandler.executeWithRetry(
+          () => learnedTopicClusterer.initialize(),
+          'learned_topic_initialization'
+        );
+        this.topicClusteringEngine.setLearnedTopics(learnedTopicClusterer);
+        this.crossMarketDetector.setTopicClustering(this.topicClusteringEngine);
+      }
+
+      // Restore the paper portfolio (open positions and cash)
+      await errorHandler.executeWithRetry(
+        () => this.paperTradingEngine.initialize(),
+        'paper_trading_initialization'
+      );
+
+      // Restore wallet track records for smart-money detection
+      await errorHandler.executeWithRetry(
+        () => this.walletProfileService.initialize(),
+        'wallet_profile_initialization'
+      );
+      this.smartMoneyDetector.setProfiles(this.walletProfileService.getProfiles());
+
+      // Load per-user alert subscriptions
+      await errorHandler.executeWithRetry(
+        () => this.alertSubscriptionService.initialize(),
+        'alert_subscription_initialization'
+      );
+      this.prioritizedNotifier.setSubscriptionService(this.alertSubscriptionService);
+
+      // Restore operator mutes and snoozes
+      await this.restoreMarketSuppressions();
 
       // Connect performance tracker to Discord alerter for historical stats
       this.discordAlerter.setPerformanceTracker(this.signalPerformanceTracker);
@@ -154,6 +295,14 @@ export class EarlyBot {
       this.microstructureDetector.onOrderbookUpdate((orderbook) => {
         this.polymarketService.updateMarketSpread(orderbook);
       });
+      this.microstructureDetector.onFrontRunningScore((score) => {
+        this.saveFrontRunningScore(score);
+      });
+      this.microstructureDetector.onFlowToxicity((result) => {
+        this.dataLayer.saveFlowToxicity(result).catch(() => {
+          metricsCollector.incrementCounter('flow_toxicity.save_errors', 1);
+        });
+      });
 
       // Test Discord connection if configured
       if (this.config.discord.webhookUrl) {
@@ -217,6 +366,25 @@ export class EarlyBot {
     await this.signalPerformanceTracker.start();
     logger.info('Signal performance tracking started (P&L updates every 30 minutes)');
 
+    // Settle tracked signals once their markets resolve
+    this.marketResolutionService.start();
+
+    // Start marking paper positions to market
+    this.paperTradingEngine.start();
+
+    this.suppressionLog.start();
+
+    if (this.metricsServer) {
+      try {
+        await this.metricsServer.start();
+      } catch (error) {
+        advancedLogger.error('Failed to start metrics endpoint', error as Error, {
+          component: 'bot',
+          operation: 'start_metrics_server'
+        });
+      }
+    }
+
     // Get markets using categorizer's smart per-category volume thresholds
     // The categorizer already filters by appropriate volumes (e.g. $2k for earnings, $8k for politics)
     // Track ALL markets that pass categorizer filtering (no artificial limit)
@@ -265,7 +433,8 @@ export class EarlyBot {
 
     const marketsToTrack = limitedMarkets.map(m => ({
       id: m.id,
-      assetIds: m.metadata?.assetIds || []
+      assetIds: m.metadata?.assetIds || [],
+      endDate: m.endDate
     }));
 
     advancedLogger.info(`📡 Subscribing to top ${marketsToTrack.length} markets by volume (WebSocket limit)`, {
@@ -358,6 +527,14 @@ export class EarlyBot {
         this.performanceReportInterval = undefined;
       }
 
+      if (this.pnlReportInterval) {
+        clearInterval(this.pnlReportInterval);
+        this.pnlReportInterval = undefined;
+      }
+
+      // Final checkpoint so the next start resumes from current baselines
+      await this.checkpointAnalyzers(true);
+
       // Stop services with error handling
       await errorHandler.executeWithRetry(
         () => this.microstructureDetector.stop(),
@@ -373,8 +550,25 @@ export class EarlyBot {
 
       // Stop signal performance tracking
       await this.signalPerformanceTracker.stop();
+      this.marketResolutionService.stop();
       logger.info('Signal performance tracking stopped');
 
+      if (this.metricsServer) {
+        await this.metricsServer.stop();
+      }
+
+      // Export spans still buffered
+      await tracer.shutdown();
+
+      try {
+        await this.suppressionLog.stop();
+      } catch (error) {
+        logger.warn('Failed to write buffered signal suppressions:', error);
+      }
+
+      // Open paper positions stay open and are restored on the next start
+      this.paperTradingEngine.stop();
+
       // Stop health monitoring
       healthMonitor.stop();
       
@@ -410,7 +604,14 @@ export class EarlyBot {
     }
   }
 
+  /**
+   * One polling cycle, traced so signals found in it share the cycle's trace id
+   */
   private async refreshMarkets(): Promise<void> {
+    await tracer.withSpan('bot.refresh_markets', () => this.scanMarkets());
+  }
+
+  private async scanMarkets(): Promise<void> {
     const startTime = Date.now();
     
     advancedLogger.info('🔄 Scanning markets for opportunities', {
@@ -439,6 +640,7 @@ export class EarlyBot {
       });
       
       // 🧩 CLASSIFY MARKETS INTO TOPIC CLUSTERS for leak detection
+      await this.refreshLearnedTopics(topMarkets);
       this.topicClusteringEngine.classifyMarkets(topMarkets);
       
       // Log cluster statistics
@@ -458,6 +660,18 @@ export class EarlyBot {
       // 🔍 DETECT COORDINATED CROSS-MARKET MOVEMENTS (Information Leak Detection)
       // Now uses real price history tracking - detects actual coordinated movements
       await this.detectCrossMarketLeaks(topMarkets);
+
+      // ⚖️ EVENT-LEVEL ANALYTICS across sibling markets (probability sums, coordinated sibling moves)
+      await this.analyzeEventGroups(topMarkets);
+
+      // 💧 PRICE IMPACT estimates (Kyle's lambda / Amihud, throttled per market)
+      await this.refreshPriceImpact(topMarkets);
+
+      // 🧠 WALLETS: smart money with a winning record, fresh wallets taking one large position
+      await this.trackWalletTrades(topMarkets);
+
+      // 💾 CHECKPOINT analyzer baselines (throttled to the checkpoint interval)
+      await this.checkpointAnalyzers(false);
       
       // Process any detected signals
       for (const signal of signals) {
@@ -496,7 +710,8 @@ export class EarlyBot {
       if (marketsToAdd.length > 0) {
         const newMarketsToTrack = marketsToAdd.map(m => ({
           id: m.id,
-          assetIds: m.metadata?.assetIds || []
+          assetIds: m.metadata?.assetIds || [],
+          endDate: m.endDate
         }));
         this.microstructureDetector.trackMarkets(newMarketsToTrack);
         logger.info(`Added ${marketsToAdd.length} new markets for tracking (top by volume)`);
@@ -523,6 +738,28 @@ export class EarlyBot {
   }
 
   private async handleSignal(signal: EarlySignal): Promise<void> {
+    await tracer.withSpan('bot.handle_signal', async span => {
+      // Stored with the signal so it can be matched to its trace
+      signal.metadata = { ...signal.metadata, traceId: span.traceId };
+      signal.configVersion = configManager.getConfigVersion();
+      // Analyzer signals arrive with an empty market; fill it before recording provenance
+      if (!signal.market?.id) {
+        signal.market = this.polymarketService.getCachedMarket(signal.marketId) ?? signal.market;
+      }
+      signal.provenance = buildSignalProvenance(
+        signal,
+        configManager.getDetectionThresholds(),
+        signal.configVersion
+      );
+      await this.processSignal(signal);
+    }, {
+      'market.id': signal.marketId,
+      'signal.type': signal.signalType,
+      'signal.confidence': signal.confidence
+    });
+  }
+
+  private async processSignal(signal: EarlySignal): Promise<void> {
     // Log signal with advanced logger
     advancedLogger.logSignalDetection(
       signal.signalType,
@@ -539,8 +776,9 @@ export class EarlyBot {
     );
 
     // Save signal to database
+    let signalId: number | undefined;
     try {
-      await advancedLogger.timeOperation(
+      signalId = await advancedLogger.timeOperation(
         () => this.dataLayer.saveSignal(signal),
         'save_signal_to_database',
         {
@@ -565,7 +803,7 @@ export class EarlyBot {
     // Track signal performance (P&L tracking)
     if (signal.market) {
       try {
-        const performanceRecordId = await this.signalPerformanceTracker.trackSignal(signal, signal.market);
+        const performanceRecordId = await this.signalPerformanceTracker.trackSignal(signal, signal.market, signalId);
         advancedLogger.info('Signal performance tracking started', {
           component: 'bot',
           operation: 'performance_tracking',
@@ -585,8 +823,20 @@ export class EarlyBot {
       }
     }
 
-    // Send Discord alert through prioritized notification system
-    if (this.config.discord.webhookUrl) {
+    // Forward-test the signal in the paper portfolio
+    try {
+      await this.paperTradingEngine.handleSignal(signal);
+    } catch (error) {
+      advancedLogger.error('Error opening paper position', error as Error, {
+        component: 'bot',
+        operation: 'paper_trading',
+        signalType: signal.signalType,
+        marketId: signal.marketId
+      });
+    }
+
+    // Send alert through prioritized notification system (routed to the configured sinks)
+    if (this.prioritizedNotifier.isConfigured()) {
       try {
         // Refresh market data from cache to get latest spread from orderbook updates
         const cachedMarket = this.polymarketService.getCachedMarket(signal.marketId);
@@ -633,6 +883,7 @@ export class EarlyBot {
             signalType: signal.signalType
           }
         );
+        await this.recordAlertDecision(signal, signalId, decision);
 
         if (sent) {
           advancedLogger.info(`Priority alert sent: ${decision.priority}`, {
@@ -670,6 +921,27 @@ export class EarlyBot {
     }
   }
 
+  /**
+   * Add AlertManager's decision, and the refreshed market it was made on, to the
+   * signal's stored provenance
+   */
+  private async recordAlertDecision(signal: EarlySignal, signalId: number | undefined, decision: AlertDecision): Promise<void> {
+    if (!signal.provenance) return;
+    signal.provenance = withAlertDecision({ ...signal.provenance, market: buildMarketProvenance(signal) }, decision);
+    if (signalId === undefined) return;
+
+    try {
+      await this.dataLayer.saveSignalProvenance(signalId, signal.provenance);
+    } catch (error) {
+      advancedLogger.error('Error saving signal provenance', error as Error, {
+        component: 'bot',
+        operation: 'signal_provenance',
+        signalType: signal.signalType,
+        marketId: signal.marketId
+      });
+    }
+  }
+
   private async handleMicrostructureSignal(signal: MicrostructureSignal): Promise<void> {
     logger.debug(`📊 Microstructure Signal:`, {
       type: signal.type,
@@ -747,6 +1019,116 @@ export class EarlyBot {
     }
   }
 
+  /**
+   * Persist events with a monitored sibling and run event-level detection on them
+   */
+  private async analyzeEventGroups(markets: Market[]): Promise<void> {
+    try {
+      // Unmonitored events are skipped so their siblings don't crowd the price history tracker
+      const monitoredIds = new Set(markets.map(m => m.id));
+      const eventGroups = new Map(
+        Array.from(this.polymarketService.getEventGroups())
+          .filter(([, siblings]) => siblings.some(m => monitoredIds.has(m.id)))
+      );
+
+      const { events, signals } = this.eventGroupAnalyzer.analyze(eventGroups);
+      await this.dataLayer.saveEvents(events);
+
+      for (const signal of signals) {
+        await this.handleSignal(signal);
+      }
+    } catch (error) {
+      advancedLogger.error('Error analyzing event groups', error as Error, {
+        component: 'bot',
+        operation: 'analyze_event_groups'
+      });
+    }
+  }
+
+  private async trackWalletTrades(markets: Market[]): Promise<void> {
+    try {
+      if (Date.now() - this.lastWalletProfileRefresh > WALLET_PROFILE_REFRESH_INTERVAL_MS) {
+        this.lastWalletProfileRefresh = Date.now();
+        this.smartMoneyDetector.setProfiles(await this.walletProfileService.refreshProfiles());
+      }
+
+      // Only trades not seen before, so restarts and overlapping polls don't re-signal
+      const trades = await this.dataLayer.saveWalletTrades(await this.walletTradeFeed.fetchTrades(markets));
+      const marketsById = new Map(markets.map(market => [market.id, market]));
+      for (const trade of trades) {
+        const signal = this.smartMoneyDetector.recordTrade(trade);
+        if (signal) {
+          await this.handleSignal(signal);
+        }
+
+        // A failed first-activity lookup skips this trade, not the rest of the saved batch
+        const market = marketsById.get(trade.marketId);
+        let leakSignal: EarlySignal | null = null;
+        try {
+          leakSignal = market ? await this.freshWalletDetector.recordTrade(trade, market) : null;
+        } catch (error) {
+          advancedLogger.error('Error checking fresh wallet trade', error as Error, {
+            component: 'bot',
+            operation: 'track_wallet_trades',
+            metadata: { marketId: trade.marketId, wallet: trade.traderAddress }
+          });
+        }
+        if (leakSignal) {
+          await this.handleSignal(leakSignal);
+        }
+      }
+
+      metricsCollector.incrementCounter('smart_money.trades_ingested', trades.length);
+    } catch (error) {
+      advancedLogger.error('Error tracking wallet trades', error as Error, {
+        component: 'bot',
+        operation: 'track_wallet_trades'
+      });
+    }
+  }
+
+  private async refreshPriceImpact(markets: Market[]): Promise<void> {
+    try {
+      await this.polymarketService.refreshPriceImpact(markets.map(m => m.id));
+    } catch (error) {
+      advancedLogger.error('Error refreshing price impact estimates', error as Error, {
+        component: 'bot',
+        operation: 'refresh_price_impact'
+      });
+    }
+  }
+
+  private async warmStartAnalyzers(): Promise<void> {
+    try {
+      await this.analyzerCheckpointService.warmStart(this.microstructureDetector);
+
+      // Trade intensity baselines are fitted directly from stored trades
+      const now = Date.now();
+      const since = now - this.microstructureDetector.getTradeIntensityAnalyzer().getConfig().fitWindowMs;
+      this.microstructureDetector.loadTradeHistory(await this.dataLayer.getTradeTicksInRange(since, now), since);
+    } catch (error) {
+      advancedLogger.error('Error warm-starting analyzers, baselines will refill from live data', error as Error, {
+        component: 'bot',
+        operation: 'warm_start_analyzers'
+      });
+    }
+  }
+
+  private async checkpointAnalyzers(force: boolean): Promise<void> {
+    try {
+      if (force) {
+        await this.analyzerCheckpointService.checkpoint();
+      } else {
+        await this.analyzerCheckpointService.checkpointIfDue();
+      }
+    } catch (error) {
+      advancedLogger.error('Error checkpointing analyzer state', error as Error, {
+        component: 'bot',
+        operation: 'checkpoint_analyzers'
+      });
+    }
+  }
+
   private async sendPerformanceReport(): Promise<void> {
     try {
       const stats = this.microstructureDetector.getPerformanceStats();
@@ -771,19 +1153,19 @@ export class EarlyBot {
   }
 
   /**
-   * Send daily P&L report showing signal performance and profitability
+   * Send daily P&L report for the forward-tested paper portfolio
    */
   private async sendDailyPnLReport(): Promise<void> {
     try {
-      const allStats = await this.signalPerformanceTracker.getAllSignalTypeStats();
+      const summary = await this.paperTradingEngine.getPortfolioSummary();
 
-      if (allStats.length === 0) {
-        logger.info('No signal performance data available yet for daily P&L report');
+      if (summary.openPositions === 0 && summary.closedPositions === 0) {
+        logger.info('No paper trades yet for daily P&L report');
         return;
       }
 
       if (this.config.discord.webhookUrl) {
-        await this.discordAlerter.sendPnLReport(allStats);
+        await this.discordAlerter.sendPaperPortfolioReport(summary);
         logger.info('Daily P&L report sent');
       }
     } catch (error) {
@@ -795,8 +1177,8 @@ export class EarlyBot {
    * Send test notifications at all priority levels
    */
   async sendTestPrioritizedNotifications(): Promise<void> {
-    if (!this.config.discord.webhookUrl) {
-      logger.warn('Discord webhook not configured, skipping test notifications');
+    if (!this.prioritizedNotifier.isConfigured()) {
+      logger.warn('No notification sinks configured, skipping test notifications');
       return;
     }
 
@@ -825,7 +1207,7 @@ export class EarlyBot {
     try {
       const market = await this.polymarketService.getMarketById(marketId);
       const assetIds = market?.metadata?.assetIds || [];
-      this.microstructureDetector.trackMarket(marketId, assetIds);
+      this.microstructureDetector.trackMarket(marketId, assetIds, market?.endDate);
       logger.info(`Manually added market: ${marketId.substring(0, 8)}... with ${assetIds.length} assets`);
     } catch (error) {
       // Fallback to just market ID if can't fetch details
@@ -843,6 +1225,134 @@ export class EarlyBot {
     return this.microstructureDetector.getTrackedMarkets();
   }
 
+  /**
+   * Markets with the most toxic recent trade flow (highest VPIN), for the dashboard
+   */
+  getFlowToxicity(limit: number = 10): VPINResult[] {
+    return this.microstructureDetector.getTopFlowToxicity(limit);
+  }
+
+  getAlertSubscriptionService(): AlertSubscriptionService {
+    return this.alertSubscriptionService;
+  }
+
+  getSuppressionLog(): SuppressionLog {
+    return this.suppressionLog;
+  }
+
+  /**
+   * Persist a manual validation and re-weight signal types from the updated human labels.
+   * The id is a signals row id or a performance record id.
+   */
+  async validateSignal(id: string, input: SignalValidationInput): Promise<SignalValidationRecord | null> {
+    const validation = await this.signalPerformanceTracker.recordValidation(id, input);
+    if (validation) {
+      await this.refreshHumanPrecision();
+    }
+    return validation;
+  }
+
+  /**
+   * A stored signal with the provenance explaining why it did or didn't alert
+   */
+  async explainSignal(id: number): Promise<{ signal: SignalRecord; provenance: SignalProvenance | null } | null> {
+    return this.dataLayer.getSignalExplanation(id);
+  }
+
+  /**
+   * Re-fit learned topic clusters when they are stale, otherwise assign new markets to existing clusters
+   */
+  private async refreshLearnedTopics(markets: Market[]): Promise<void> {
+    if (!this.learnedTopicClusterer || markets.length === 0) return;
+
+    try {
+      const lastFit = this.learnedTopicClusterer.getLastFitTime();
+      if (lastFit === null || Date.now() - lastFit > TOPIC_REFIT_INTERVAL_MS) {
+        await this.learnedTopicClusterer.fit(markets);
+      } else {
+        await this.learnedTopicClusterer.assignMarkets(markets);
+      }
+    } catch (error) {
+      advancedLogger.error('Error refreshing learned topic clusters', error as Error, {
+        component: 'bot',
+        operation: 'refresh_learned_topics'
+      });
+    }
+  }
+
+  /**
+   * Store a mute or snooze, or delete it when cleared. Writes for a market run in
+   * order, so a quick mute then unmute can't leave the mute stored.
+   */
+  private storeMarketSuppression(marketId: string, suppression: MarketSuppression | null): void {
+    const previous = this.marketSuppressionWrites.get(marketId) || Promise.resolve();
+    const write = previous
+      .then(() => suppression
+        ? this.dataLayer.saveMarketSuppression(suppression)
+        : this.dataLayer.deleteMarketSuppression(marketId))
+      .catch(() => {
+        metricsCollector.incrementCounter('alerts.suppression_save_errors', 1);
+      })
+      .then(() => {
+        if (this.marketSuppressionWrites.get(marketId) === write) {
+          this.marketSuppressionWrites.delete(marketId);
+        }
+      });
+    this.marketSuppressionWrites.set(marketId, write);
+  }
+
+  private async restoreMarketSuppressions(): Promise<void> {
+    try {
+      const restored = alertManager.restoreMarketSuppressions(await this.dataLayer.getMarketSuppressions());
+      logger.info(`Restored ${restored} market mutes and snoozes`);
+    } catch (error) {
+      advancedLogger.error('Error restoring market mutes and snoozes', error as Error, {
+        component: 'bot',
+        operation: 'restore_market_suppressions'
+      });
+    }
+  }
+
+  private async loadFrontRunningCalibration(): Promise<void> {
+    try {
+      const curve = await new FrontRunningCalibrator(this.database).loadLatest();
+      if (curve) {
+        this.microstructureDetector.setFrontRunningCalibration(curve);
+      }
+    } catch (error) {
+      advancedLogger.error('Error loading front-running calibration', error as Error, {
+        component: 'bot',
+        operation: 'load_calibration'
+      });
+    }
+  }
+
+  /**
+   * Store front-running scores (throttled per market) so the calibration can be refit
+   */
+  private saveFrontRunningScore(score: FrontRunningScore): void {
+    const now = Date.now();
+    const lastSaved = this.lastFrontRunScoreSave.get(score.marketId) || 0;
+    if (now - lastSaved < FRONT_RUN_SCORE_SAVE_INTERVAL_MS) return;
+    this.lastFrontRunScoreSave.set(score.marketId, now);
+
+    this.dataLayer.saveFrontRunningScore(score).catch(() => {
+      metricsCollector.incrementCounter('front_running.score_save_errors', 1);
+    });
+  }
+
+  private async refreshHumanPrecision(): Promise<void> {
+    try {
+      const stats = await this.signalPerformanceTracker.getHumanLabeledStats(Date.now() - HUMAN_LABEL_WINDOW_MS);
+      alertManager.updateHumanPrecision(stats);
+    } catch (error) {
+      advancedLogger.error('Error loading human-labeled precision', error as Error, {
+        component: 'bot',
+        operation: 'refresh_human_precision'
+      });
+    }
+  }
+
   async getHealthStatus(): Promise<any> {
     const microHealth = await this.microstructureDetector.healthCheck();
     const polyHealth = await this.polymarketService.healthCheck();
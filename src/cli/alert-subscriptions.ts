@@ -0,0 +1,269 @@
+#!/usr/bin/env node
+
+import { getDatabaseConfig, validateDatabaseConfig } from '../config/database.config';
+import { DatabaseManager } from '../data/database';
+import {
+  AlertSubscription,
+  AlertSubscriptionService,
+  AlertSubscriptionUpdate,
+  redactSubscription,
+  SubscriptionDestination,
+  SUBSCRIPTION_SIGNAL_TYPES
+} from '../services/AlertSubscriptionService';
+import { marketCategorizer } from '../services/MarketCategorizer';
+import { NotificationSinkType } from '../services/NotificationSinks';
+import { EarlySignal, MarketTier } from '../types';
+
+/**
+ * Alert subscription management CLI
+ *
+ * Usage:
+ *   npm run subscriptions list
+ *   npm run subscriptions add -- --name alice --type slack --url https://hooks.slack.com/... --categories politics,fed
+ *   npm run subscriptions update <id> -- --min-score 70 --clear quietHours
+ *   npm run subscriptions disable <id>
+ */
+
+interface CliOptions {
+  name?: string;
+  type?: NotificationSinkType;
+  url?: string;
+  botToken?: string;
+  chatId?: string;
+  email?: string[];
+  categories?: string[];
+  signalTypes?: string[];
+  minConfidence?: number;
+  minScore?: number;
+  tiers?: string[];
+  quietHours?: string;
+  timezone?: string;
+  cooldown?: number;
+  maxPerHour?: number;
+  disabled?: boolean;
+  clear: string[];
+}
+
+const list = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+function parseOptions(argv: string[]): CliOptions {
+  const options: CliOptions = { clear: [] };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--name': options.name = argv[++i]; break;
+      case '--type': options.type = argv[++i] as NotificationSinkType; break;
+      case '--url': options.url = argv[++i]; break;
+      case '--bot-token': options.botToken = argv[++i]; break;
+      case '--chat-id': options.chatId = argv[++i]; break;
+      case '--email': options.email = list(argv[++i]); break;
+      case '--categories': options.categories = list(argv[++i]); break;
+      case '--signal-types': options.signalTypes = list(argv[++i]); break;
+      case '--min-confidence': options.minConfidence = parseFloat(argv[++i]); break;
+      case '--min-score': options.minScore = parseFloat(argv[++i]); break;
+      case '--tiers': options.tiers = list(argv[++i]); break;
+      case '--quiet-hours': options.quietHours = argv[++i]; break;
+      case '--timezone': options.timezone = argv[++i]; break;
+      case '--cooldown': options.cooldown = parseInt(argv[++i], 10); break;
+      case '--max-per-hour': options.maxPerHour = parseInt(argv[++i], 10); break;
+      case '--disabled': options.disabled = true; break;
+      case '--clear': options.clear.push(...list(argv[++i])); break;
+      default:
+        throw new Error(`Unknown option: ${argv[i]}`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Destination from --type and its settings; email uses the SMTP_* server settings from the environment
+ */
+function buildDestination(options: CliOptions): SubscriptionDestination | undefined {
+  if (!options.type) return undefined;
+
+  if (options.type === 'email') {
+    return {
+      type: 'email',
+      smtp: {
+        host: process.env.SMTP_HOST || '',
+        port: process.env.SMTP_PORT ? parseInt(process.env.SMTP_PORT, 10) : undefined,
+        secure: process.env.SMTP_SECURE === 'true',
+        username: process.env.SMTP_USER,
+        password: process.env.SMTP_PASS,
+        from: process.env.ALERT_EMAIL_FROM || process.env.SMTP_USER || 'poly-early-bot@localhost',
+        to: options.email || []
+      }
+    };
+  }
+
+  return { type: options.type, url: options.url, botToken: options.botToken, chatId: options.chatId };
+}
+
+function buildFilterUpdate(options: CliOptions): AlertSubscriptionUpdate['filters'] {
+  const filters: NonNullable<AlertSubscriptionUpdate['filters']> = {};
+
+  if (options.categories) filters.categories = options.categories;
+  if (options.signalTypes) filters.signalTypes = options.signalTypes as EarlySignal['signalType'][];
+  if (options.minConfidence !== undefined) filters.minConfidence = options.minConfidence;
+  if (options.minScore !== undefined) filters.minOpportunityScore = options.minScore;
+  if (options.tiers) filters.tiers = options.tiers as MarketTier[];
+  if (options.quietHours) {
+    const [start, end] = options.quietHours.split('-');
+    filters.quietHours = { start, end, timezone: options.timezone };
+  }
+
+  for (const key of options.clear) {
+    (filters as Record<string, null>)[key] = null;
+  }
+
+  return filters;
+}
+
+function printSubscription(subscription: AlertSubscription): void {
+  const redacted = redactSubscription(subscription);
+  const filters = redacted.filters;
+  const destination = redacted.destination.type === 'email'
+    ? `email → ${redacted.destination.smtp?.to.join(', ')}`
+    : redacted.destination.type;
+
+  console.log(`${redacted.enabled ? '🟢' : '⚪'} ${redacted.name} (${redacted.id})`);
+  console.log(`   Destination:  ${destination}`);
+  console.log(`   Categories:   ${filters.categories?.join(', ') || 'all'}`);
+  console.log(`   Signal types: ${filters.signalTypes?.join(', ') || 'all'}`);
+  console.log(`   Tiers:        ${filters.tiers?.join(', ') || 'all'}`);
+  console.log(`   Min conf.:    ${filters.minConfidence ?? '-'}   Min score: ${filters.minOpportunityScore ?? '-'}`);
+  if (filters.quietHours) {
+    console.log(`   Quiet hours:  ${filters.quietHours.start}-${filters.quietHours.end} ${filters.quietHours.timezone || 'UTC'}`);
+  }
+  console.log(`   Limits:       ${redacted.maxPerHour}/hour, ${redacted.cooldownMinutes}min cooldown per market`);
+}
+
+function showHelp(): void {
+  console.log(`
+🔔 Alert Subscriptions CLI
+
+Usage:
+  npm run subscriptions list                       - List subscriptions
+  npm run subscriptions show <id>                  - Show one subscription
+  npm run subscriptions add -- [options]           - Create a subscription (--name and --type required)
+  npm run subscriptions update <id> -- [options]   - Update a subscription
+  npm run subscriptions enable|disable <id>        - Toggle a subscription
+  npm run subscriptions remove <id>                - Delete a subscription
+
+Destination:
+  --type <discord|slack|telegram|webhook|email>
+  --url <url>                    Discord/Slack/webhook URL
+  --bot-token <token> --chat-id <id>   Telegram
+  --email <a@x.com,b@y.com>      Recipients (server from SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS)
+
+Filters:
+  --categories <list>            ${marketCategorizer.getCategories().join(', ')}, uncategorized
+  --signal-types <list>          e.g. volume_spike,front_running_detected
+  --min-confidence <0-1>
+  --min-score <0-100>            Minimum tier-adjusted opportunity score
+  --tiers <list>                 ${Object.values(MarketTier).join(', ')}
+  --quiet-hours <HH:MM-HH:MM>    No alerts in this window (--timezone <IANA>, default UTC)
+  --clear <filters>              Remove filters on update, e.g. --clear quietHours,tiers
+
+Limits:
+  --cooldown <minutes>           Per-market cooldown (default: 30)
+  --max-per-hour <n>             Hourly cap (default: 10)
+  --disabled                     Create disabled
+
+Signal types:
+  ${SUBSCRIPTION_SIGNAL_TYPES.join(', ')}
+`);
+}
+
+async function main(): Promise<void> {
+  const [command, ...rest] = process.argv.slice(2);
+  const id = rest[0] && !rest[0].startsWith('--') ? rest.shift() : undefined;
+
+  if (!command || command === 'help' || command === '--help' || command === '-h') {
+    showHelp();
+    return;
+  }
+
+  const dbConfig = getDatabaseConfig();
+  validateDatabaseConfig(dbConfig);
+  const database = new DatabaseManager(dbConfig);
+  await database.initialize();
+
+  try {
+    const service = new AlertSubscriptionService(database);
+    await service.initialize();
+    const options = parseOptions(rest);
+
+    const requireId = (): string => {
+      if (!id) throw new Error(`Usage: npm run subscriptions ${command} <id>`);
+      return id;
+    };
+    const requireFound = (subscription: AlertSubscription | null): AlertSubscription => {
+      if (!subscription) throw new Error(`Subscription not found: ${id}`);
+      return subscription;
+    };
+
+    switch (command) {
+      case 'list': {
+        const subscriptions = service.list();
+        if (subscriptions.length === 0) {
+          console.log('No alert subscriptions. Create one with: npm run subscriptions add -- --name <name> --type <type> ...');
+        }
+        subscriptions.forEach(printSubscription);
+        break;
+      }
+      case 'show':
+        printSubscription(requireFound(service.get(requireId())));
+        break;
+      case 'add': {
+        const destination = buildDestination(options);
+        if (!options.name || !destination) {
+          throw new Error('--name and --type are required');
+        }
+        const subscription = await service.create({
+          name: options.name,
+          destination,
+          filters: buildFilterUpdate(options) as AlertSubscription['filters'],
+          cooldownMinutes: options.cooldown,
+          maxPerHour: options.maxPerHour,
+          enabled: !options.disabled
+        });
+        console.log('✅ Subscription created');
+        printSubscription(subscription);
+        break;
+      }
+      case 'update': {
+        const subscription = requireFound(await service.update(requireId(), {
+          name: options.name,
+          destination: buildDestination(options),
+          filters: buildFilterUpdate(options),
+          cooldownMinutes: options.cooldown,
+          maxPerHour: options.maxPerHour
+        }));
+        console.log('✅ Subscription updated');
+        printSubscription(subscription);
+        break;
+      }
+      case 'enable':
+      case 'disable':
+        printSubscription(requireFound(await service.update(requireId(), { enabled: command === 'enable' })));
+        break;
+      case 'remove':
+        if (!(await service.remove(requireId()))) throw new Error(`Subscription not found: ${id}`);
+        console.log(`✅ Subscription ${id} removed`);
+        break;
+      default:
+        showHelp();
+    }
+  } finally {
+    await database.close();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(`❌ ${(error as Error).message}`);
+    process.exit(1);
+  });
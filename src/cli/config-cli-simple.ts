@@ -1,6 +1,7 @@
 #!/usr/bin/env node
 
 import { configManager } from '../config/ConfigManager';
+import { ConfigVersionSummary } from '../config/ConfigHistory';
 
 // Simple configuration CLI without external dependencies
 function main() {
@@ -15,7 +16,7 @@ function main() {
       setConfiguration(args[1], args[2]);
       break;
     case 'preset':
-      applyPreset(args[1] as any);
+      applyPreset(args[1]);
       break;
     case 'validate':
       validateConfiguration();
@@ -23,6 +24,18 @@ function main() {
     case 'export':
       exportConfiguration(args[1]);
       break;
+    case 'history':
+      showHistory(args[1]);
+      break;
+    case 'diff':
+      diffVersions(args[1], args[2]);
+      break;
+    case 'rollback':
+      rollbackConfiguration(args[1]);
+      break;
+    case 'at':
+      showVersionAt(args[1]);
+      break;
     default:
       showHelp();
   }
@@ -35,9 +48,14 @@ function showHelp() {
 Usage:
   npm run config show [section]     - Show configuration
   npm run config set <path> <value> - Set configuration value
-  npm run config preset <preset>    - Apply preset (conservative|balanced|aggressive|development)
+  npm run config preset <preset>    - Apply preset (conservative|balanced|aggressive|development
+                                      or a saved preset in config/presets)
   npm run config validate           - Validate configuration
   npm run config export [file]      - Export configuration
+  npm run config history [limit]    - List configuration versions, newest first
+  npm run config diff <from> <to>   - Fields that differ between two versions
+  npm run config rollback <version> - Make a previous version live again
+  npm run config at <date>          - Version that was live at a date (ISO or epoch ms)
 
 Examples:
   npm run config show detection
@@ -45,6 +63,9 @@ Examples:
   npm run config preset aggressive
   npm run config validate
   npm run config export ./my-config.json
+  npm run config history 10
+  npm run config diff 3f2a9c1b7e04 8d41e0a6c2b9
+  npm run config at 2025-01-06T12:00:00Z
 `);
 }
 
@@ -99,8 +120,8 @@ function setConfiguration(path: string, value: string) {
   }
 }
 
-function applyPreset(preset: 'conservative' | 'balanced' | 'aggressive' | 'development') {
-  const validPresets = ['conservative', 'balanced', 'aggressive', 'development'];
+function applyPreset(preset: string) {
+  const validPresets = configManager.listPresets();
   
   if (!preset || !validPresets.includes(preset)) {
     console.error(`❌ Invalid preset. Valid options: ${validPresets.join(', ')}`);
@@ -176,6 +197,82 @@ function exportConfiguration(filePath?: string) {
   }
 }
 
+function formatValue(value: unknown): string {
+  return value === undefined ? '(unset)' : JSON.stringify(value);
+}
+
+function printVersion(entry: ConfigVersionSummary, current: string) {
+  const live = entry.version === current ? '  ← live' : '';
+  const note = entry.note ? ` - ${entry.note}` : '';
+  console.log(`📌 ${entry.version}  ${entry.createdAt}  ${entry.source} by ${entry.author}${note}${live}`);
+  for (const change of entry.changes) {
+    console.log(`     ${change.path}: ${formatValue(change.from)} → ${formatValue(change.to)}`);
+  }
+}
+
+function showHistory(limit?: string) {
+  const versions = configManager.getConfigHistory(limit ? parseInt(limit, 10) : 20);
+  if (versions.length === 0) {
+    console.log('No configuration versions recorded yet');
+    return;
+  }
+
+  const current = configManager.getConfigVersion();
+  versions.forEach(entry => printVersion(entry, current));
+}
+
+function diffVersions(from: string, to: string) {
+  if (!from || !to) {
+    console.error('❌ Usage: npm run config diff <from> <to>');
+    process.exit(1);
+  }
+
+  try {
+    const changes = configManager.diffConfigVersions(from, to);
+    console.log(`🔍 ${from} → ${to}: ${changes.length} field(s) differ\n`);
+    for (const change of changes) {
+      console.log(`  ${change.path}: ${formatValue(change.from)} → ${formatValue(change.to)}`);
+    }
+  } catch (error) {
+    console.error(`❌ Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+function rollbackConfiguration(version: string) {
+  if (!version) {
+    console.error('❌ Usage: npm run config rollback <version>');
+    process.exit(1);
+  }
+
+  try {
+    const previous = configManager.getConfigVersion();
+    const entry = configManager.rollbackConfig(version);
+    console.log(`✅ Rolled back ${previous} → ${entry.version}`);
+    for (const change of entry.changes) {
+      console.log(`  ${change.path}: ${formatValue(change.from)} → ${formatValue(change.to)}`);
+    }
+  } catch (error) {
+    console.error(`❌ Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+function showVersionAt(date: string) {
+  const timestamp = /^\d+$/.test(date || '') ? Number(date) : Date.parse(date);
+  if (!Number.isFinite(timestamp)) {
+    console.error('❌ Usage: npm run config at <ISO date | epoch ms>');
+    process.exit(1);
+  }
+
+  const entry = configManager.getConfigVersionAt(timestamp);
+  if (!entry) {
+    console.error(`❌ No configuration version recorded before ${new Date(timestamp).toISOString()}`);
+    process.exit(1);
+  }
+  printVersion(entry, configManager.getConfigVersion());
+}
+
 if (require.main === module) {
   main();
 }
\ No newline at end of file
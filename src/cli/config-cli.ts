@@ -130,9 +130,9 @@ program
 program
   .command('preset')
   .description('Apply configuration preset')
-  .argument('<preset>', 'Preset name (conservative|balanced|aggressive|development)')
+  .argument('<preset>', 'Preset name (conservative|balanced|aggressive|development or a saved preset)')
   .action((preset) => {
-    const validPresets = ['conservative', 'balanced', 'aggressive', 'development'];
+    const validPresets = configManager.listPresets();
     
     if (!validPresets.includes(preset)) {
       console.error(`❌ Invalid preset. Valid options: ${validPresets.join(', ')}`);
@@ -140,7 +140,7 @@ program
     }
     
     try {
-      configManager.applyPreset(preset as any);
+      configManager.applyPreset(preset);
       console.log(`✅ Applied ${preset} preset configuration`);
     } catch (error) {
       console.error(`❌ Error: ${(error as Error).message}`);
@@ -28,6 +28,7 @@ async function startDashboard() {
     
     // Set bot instance for dashboard monitoring
     webDashboard.setBotInstance(bot);
+    webDashboard.setSubscriptionService(bot.getAlertSubscriptionService());
 
     // Start the dashboard
     await webDashboard.start();
@@ -41,8 +42,26 @@ async function startDashboard() {
     console.log('   • GET  /api/dashboard  - Dashboard data');
     console.log('   • GET  /api/config     - Bot configuration');
     console.log('   • POST /api/config     - Update configuration');
+    console.log('   • GET  /api/config/versions           - Configuration history, newest first');
+    console.log('   • GET  /api/config/versions/:version  - A stored configuration version');
+    console.log('   • GET  /api/config/diff               - Fields that differ (from, to)');
+    console.log('   • GET  /api/config/at                 - Version live at a time (time)');
+    console.log('   • POST /api/config/rollback           - Make a previous version live (version, user)');
     console.log('   • GET  /api/signals    - Recent signals');
     console.log('   • GET  /api/workers    - Worker thread stats');
+    console.log('   • POST /api/signals/:id/validate      - Record a manual validation');
+    console.log('   • GET  /api/signals/:id/explain       - Why a signal fired and alerted');
+    console.log('   • GET  /api/suppressions              - Signals that never alerted (marketId, reason, since, until)');
+    console.log('   • GET  /api/suppressions/summary      - Suppression counts per reason');
+    console.log('   • POST /api/alerts/:marketId/acknowledge - Acknowledge alerts');
+    console.log('   • POST /api/markets/:marketId/snooze  - Snooze a market');
+    console.log('   • POST|DELETE /api/markets/:marketId/mute - Mute or unmute a market');
+    console.log('   • GET  /api/markets/suppressed        - Muted and snoozed markets');
+    console.log('   • GET  /api/subscriptions       - Alert subscriptions');
+    console.log('   • POST /api/subscriptions       - Create subscription');
+    console.log('   • PUT  /api/subscriptions/:id   - Update subscription');
+    console.log('   • DELETE /api/subscriptions/:id - Remove subscription');
+    console.log('   • GET  /metrics        - Prometheus metrics');
     console.log('   • GET  /health         - Health check');
     console.log('');
     console.log('🎮 Features:');
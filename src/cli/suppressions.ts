@@ -0,0 +1,147 @@
+#!/usr/bin/env node
+
+import { getDatabaseConfig, validateDatabaseConfig } from '../config/database.config';
+import { DatabaseManager } from '../data/database';
+import { DataAccessLayer } from '../data/DataAccessLayer';
+import { SUPPRESSION_REASONS } from '../services/SuppressionLog';
+import { SuppressedSignal, SuppressionQuery, SuppressionReason } from '../types';
+
+/**
+ * Signal suppression log CLI: signals that were detected but never alerted
+ *
+ * Usage:
+ *   npm run suppressions list -- --market <id> --hours 6
+ *   npm run suppressions list -- --reason cooldown --since 2025-01-06T00:00:00Z --until 2025-01-07T00:00:00Z
+ *   npm run suppressions summary -- --hours 24
+ */
+
+const DEFAULT_HOURS = 24;
+
+function parseTime(option: string, value: string): number {
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (!Number.isFinite(time)) {
+    throw new Error(`${option} must be epoch milliseconds or an ISO date`);
+  }
+  return time;
+}
+
+function parseLimit(value: string): number {
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error('--limit must be a positive integer');
+  }
+  return limit;
+}
+
+function parseQuery(argv: string[]): SuppressionQuery {
+  const query: SuppressionQuery = { limit: 50 };
+  let hours: number | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--market': query.marketId = argv[++i]; break;
+      case '--reason': query.reason = argv[++i] as SuppressionReason; break;
+      case '--type': query.signalType = argv[++i]; break;
+      case '--since': query.since = parseTime('--since', argv[++i]); break;
+      case '--until': query.until = parseTime('--until', argv[++i]); break;
+      case '--hours': hours = parseFloat(argv[++i]); break;
+      case '--limit': query.limit = parseLimit(argv[++i]); break;
+      default:
+        throw new Error(`Unknown option: ${argv[i]}`);
+    }
+  }
+
+  if (query.reason && !SUPPRESSION_REASONS.includes(query.reason)) {
+    throw new Error(`--reason must be one of ${SUPPRESSION_REASONS.join(', ')}`);
+  }
+  if (query.since === undefined) {
+    query.since = (query.until ?? Date.now()) - (hours ?? DEFAULT_HOURS) * 60 * 60 * 1000;
+  }
+  return query;
+}
+
+function describeRange(query: SuppressionQuery): string {
+  const until = query.until !== undefined ? new Date(query.until).toISOString() : 'now';
+  return `${new Date(query.since!).toISOString()} → ${until}`;
+}
+
+function printSuppression(entry: SuppressedSignal): void {
+  const score = entry.adjustedScore !== undefined ? `, score ${entry.adjustedScore}` : '';
+  const priority = entry.priority ? `, ${entry.priority}` : '';
+
+  console.log(`🔇 ${new Date(entry.suppressedAt).toISOString()}  ${entry.signalType} on ${entry.marketId}`);
+  if (entry.question) {
+    console.log(`   Market:  ${entry.question}`);
+  }
+  console.log(`   Reason:  ${entry.reason} (${entry.stage}) - ${entry.detail}`);
+  console.log(`   Signal:  confidence ${entry.confidence.toFixed(2)}${score}${priority}`);
+}
+
+function showHelp(): void {
+  console.log(`
+🔇 Signal Suppression Log CLI
+
+Usage:
+  npm run suppressions list -- [options]      - Suppressed signals, newest first
+  npm run suppressions summary -- [options]   - Suppression counts per reason
+
+Options:
+  --market <id>          Only this market
+  --reason <reason>      ${SUPPRESSION_REASONS.join(', ')}
+  --type <signalType>    e.g. volume_spike
+  --since <time>         Epoch ms or ISO date (default: --hours before --until)
+  --until <time>         Epoch ms or ISO date (default: now)
+  --hours <n>            Window when --since is not given (default: ${DEFAULT_HOURS})
+  --limit <n>            Max entries listed (default: 50)
+`);
+}
+
+async function main(): Promise<void> {
+  const [command, ...rest] = process.argv.slice(2);
+
+  if (!command || command === 'help' || command === '--help' || command === '-h') {
+    showHelp();
+    return;
+  }
+
+  const query = parseQuery(rest);
+  const dbConfig = getDatabaseConfig();
+  validateDatabaseConfig(dbConfig);
+  const database = new DatabaseManager(dbConfig);
+  await database.initialize();
+
+  try {
+    const dataLayer = new DataAccessLayer(database);
+
+    switch (command) {
+      case 'list': {
+        const entries = await dataLayer.getSignalSuppressions(query);
+        console.log(`Suppressed signals ${describeRange(query)}: ${entries.length}${entries.length === query.limit ? ' (limit reached)' : ''}\n`);
+        entries.forEach(printSuppression);
+        break;
+      }
+      case 'summary': {
+        const counts = await dataLayer.getSuppressionCounts(query);
+        const total = counts.reduce((sum, entry) => sum + entry.count, 0);
+        console.log(`Suppressions ${describeRange(query)}: ${total}\n`);
+        for (const entry of counts) {
+          const share = total > 0 ? ((entry.count / total) * 100).toFixed(1) : '0.0';
+          const last = new Date(entry.lastSuppressedAt).toISOString();
+          console.log(`   ${entry.reason.padEnd(12)} ${String(entry.count).padStart(7)}  ${share.padStart(5)}%  ${entry.markets} markets, last ${last}`);
+        }
+        break;
+      }
+      default:
+        showHelp();
+    }
+  } finally {
+    await database.close();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(`❌ ${(error as Error).message}`);
+    process.exit(1);
+  });
@@ -0,0 +1,241 @@
+import fs from 'fs';
+import path from 'path';
+import type { SystemConfig } from './ConfigManager';
+
+export type ConfigChangeSource = 'startup' | 'update' | 'preset' | 'file' | 'rollback';
+
+export interface ConfigFieldChange {
+  path: string;          // Dotted SystemConfig path, e.g. 'detection.signals.volumeSpike.multiplier'
+  from: unknown;
+  to: unknown;
+}
+
+export interface ConfigVersionSummary {
+  version: string;                 // Content hash, as returned by ConfigManager.getConfigVersion()
+  parentVersion: string | null;    // Version that was live before this change
+  createdAt: string;
+  source: ConfigChangeSource;
+  author: string;
+  note?: string;                   // e.g. the preset applied or the version rolled back to
+  changes: ConfigFieldChange[];    // Fields changed from the previous entry
+}
+
+export interface ConfigVersion extends ConfigVersionSummary {
+  config: SystemConfig;
+}
+
+export interface ConfigHistoryOptions {
+  maxVersions: number;        // Oldest versions are dropped beyond this
+  snapshotInterval: number;   // Full config stored every N versions, changes only in between
+}
+
+// One line of the history file
+interface StoredVersion extends ConfigVersionSummary {
+  snapshot?: SystemConfig;
+}
+
+// Versions dropped at once when over maxVersions, so the file is not rewritten on every change
+const TRIM_BATCH = 50;
+
+/**
+ * Append-only log of every configuration that went live, one JSON line per change
+ *
+ * Each line holds the changes from the previous one, with the full config
+ * every snapshotInterval lines; a version's config is rebuilt from the nearest
+ * snapshot before it. Rolling back appends a new entry whose version matches
+ * the one restored, so the log reads as the sequence of configs that were live.
+ *
+ * The file is parsed once into an in-memory index. Lines appended by another
+ * process (the CLI, the bot picking up a file edit) are read incrementally
+ * when the file grows; past maxVersions the oldest are dropped and the file
+ * rewritten, starting from a snapshot.
+ */
+export class ConfigHistory {
+  private filePath: string;
+  private options: ConfigHistoryOptions;
+  private entries: StoredVersion[] = [];
+  private bytesRead = 0;
+  private latestConfig: SystemConfig | null = null;
+
+  constructor(filePath: string, options?: Partial<ConfigHistoryOptions>) {
+    this.filePath = filePath;
+    this.options = {
+      maxVersions: 500,
+      snapshotInterval: 20,
+      ...options
+    };
+  }
+
+  /**
+   * All versions without their configs, oldest first
+   */
+  list(): ConfigVersionSummary[] {
+    return this.sync().map(entry => this.toSummary(entry));
+  }
+
+  latest(): ConfigVersion | null {
+    const entries = this.sync();
+    if (entries.length === 0) return null;
+    if (!this.latestConfig) {
+      this.latestConfig = this.buildConfig(entries.length - 1);
+    }
+    return this.toVersion(entries[entries.length - 1], this.latestConfig);
+  }
+
+  /**
+   * Most recent entry for a version
+   */
+  get(version: string): ConfigVersion | null {
+    const entries = this.sync();
+    for (let i = entries.length - 1; i >= 0; i--) {
+      if (entries[i].version === version) return this.materialize(i);
+    }
+    return null;
+  }
+
+  /**
+   * Version that was live at a time, or null if it predates the history
+   */
+  at(timestamp: number): ConfigVersion | null {
+    const entries = this.sync();
+    let live = -1;
+    for (let i = 0; i < entries.length; i++) {
+      if (Date.parse(entries[i].createdAt) > timestamp) break;
+      live = i;
+    }
+    return live >= 0 ? this.materialize(live) : null;
+  }
+
+  append(entry: ConfigVersion): void {
+    const entries = this.sync();
+    const { config, ...summary } = entry;
+    const stored: StoredVersion = this.needsSnapshot(entries) ? { ...summary, snapshot: config } : summary;
+
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    const line = `${JSON.stringify(stored)}\n`;
+    fs.appendFileSync(this.filePath, line);
+
+    this.entries.push(stored);
+    this.bytesRead += Buffer.byteLength(line);
+    this.latestConfig = config;
+
+    if (this.entries.length > this.options.maxVersions + TRIM_BATCH) {
+      this.trim();
+    }
+  }
+
+  /**
+   * Bring the index up to date with the file
+   */
+  private sync(): StoredVersion[] {
+    const size = fs.existsSync(this.filePath) ? fs.statSync(this.filePath).size : 0;
+
+    if (size < this.bytesRead) {
+      // Rewritten by another process's trim
+      this.entries = [];
+      this.bytesRead = 0;
+      this.latestConfig = null;
+    }
+    if (size === this.bytesRead) {
+      return this.entries;
+    }
+
+    const buffer = Buffer.alloc(size - this.bytesRead);
+    const fd = fs.openSync(this.filePath, 'r');
+    try {
+      fs.readSync(fd, buffer, 0, buffer.length, this.bytesRead);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    // Only consume complete lines; a trailing partial line is read once it is finished
+    const complete = buffer.lastIndexOf('\n') + 1;
+    for (const line of buffer.subarray(0, complete).toString('utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        this.entries.push(JSON.parse(line) as StoredVersion);
+        this.latestConfig = null;
+      } catch {
+        // Skip a line left partially written by a crash
+      }
+    }
+    this.bytesRead += complete;
+    return this.entries;
+  }
+
+  private needsSnapshot(entries: StoredVersion[]): boolean {
+    for (let i = entries.length - 1, distance = 1; i >= 0; i--, distance++) {
+      if (entries[i].snapshot) return distance >= this.options.snapshotInterval;
+    }
+    return true;
+  }
+
+  private materialize(index: number): ConfigVersion {
+    const config = index === this.entries.length - 1 && this.latestConfig
+      ? this.latestConfig
+      : this.buildConfig(index);
+    return this.toVersion(this.entries[index], config);
+  }
+
+  private toSummary(stored: StoredVersion): ConfigVersionSummary {
+    return {
+      version: stored.version,
+      parentVersion: stored.parentVersion,
+      createdAt: stored.createdAt,
+      source: stored.source,
+      author: stored.author,
+      note: stored.note,
+      changes: stored.changes
+    };
+  }
+
+  private toVersion(stored: StoredVersion, config: SystemConfig): ConfigVersion {
+    return { ...this.toSummary(stored), config };
+  }
+
+  /**
+   * Config at an entry: its nearest snapshot with the changes after it applied
+   */
+  private buildConfig(index: number): SystemConfig {
+    let start = index;
+    while (start > 0 && !this.entries[start].snapshot) start--;
+
+    const config = JSON.parse(JSON.stringify(this.entries[start].snapshot || {}));
+    for (let i = start + 1; i <= index; i++) {
+      for (const change of this.entries[i].changes) {
+        const keys = change.path.split('.');
+        let node = config;
+        for (const key of keys.slice(0, -1)) {
+          if (!node[key] || typeof node[key] !== 'object') node[key] = {};
+          node = node[key];
+        }
+        node[keys[keys.length - 1]] = change.to && typeof change.to === 'object'
+          ? JSON.parse(JSON.stringify(change.to))
+          : change.to;
+      }
+    }
+    return config as SystemConfig;
+  }
+
+  /**
+   * Drop the oldest versions down to maxVersions, keeping a snapshot on the first kept
+   */
+  private trim(): void {
+    const first = this.entries.length - this.options.maxVersions;
+    const kept = this.entries.slice(first);
+    if (!kept[0].snapshot) {
+      kept[0] = { ...kept[0], snapshot: this.buildConfig(first) };
+    }
+
+    const content = kept.map(entry => `${JSON.stringify(entry)}\n`).join('');
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, content);
+    fs.renameSync(tempPath, this.filePath);
+
+    this.entries = kept;
+    this.bytesRead = Buffer.byteLength(content);
+  }
+}
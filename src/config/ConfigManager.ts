@@ -1,7 +1,9 @@
 import fs from 'fs';
 import path from 'path';
+import { createHash } from 'crypto';
 import { logger } from '../utils/logger';
 import { advancedLogger } from '../utils/AdvancedLogger';
+import { ConfigChangeSource, ConfigFieldChange, ConfigHistory, ConfigVersion, ConfigVersionSummary } from './ConfigHistory';
 
 export interface DetectionThresholds {
   // Market Filtering Configuration
@@ -98,6 +100,8 @@ export interface DetectionThresholds {
       liquidityWeight: number;             // Depth matters (0.3)
       optimalSpreadBps: number;            // Target spread in basis points (150)
       maxAgeDays: number;                  // Beyond this, age doesn't matter (60)
+      liquidImpactBps: number;             // Measured impact per $1k earning full liquidity points (25)
+      illiquidImpactBps: number;           // Measured impact per $1k earning none (500)
     };
   };
 
@@ -324,17 +328,45 @@ export interface SystemConfig {
   };
 }
 
+export type BuiltInPreset = 'conservative' | 'balanced' | 'aggressive' | 'development';
+
+const BUILT_IN_PRESETS: BuiltInPreset[] = ['conservative', 'balanced', 'aggressive', 'development'];
+
+export interface SavedPreset {
+  name: string;
+  createdAt: string;
+  detection: Partial<DetectionThresholds>;
+  metadata?: Record<string, any>; // Provenance, e.g. the walk-forward run that produced it
+}
+
+export interface ConfigChangeOptions {
+  author?: string;               // Defaults to CONFIG_AUTHOR, then USER
+  note?: string;
+  source?: ConfigChangeSource;   // Defaults to 'update'
+}
+
 export class ConfigManager {
   private static instance: ConfigManager;
   private config: SystemConfig;
   private configPath: string;
+  private presetsDir: string;
   private watchers: Map<string, (config: SystemConfig) => void> = new Map();
   private lastModified: number = 0;
+  private versionCache?: { config: SystemConfig; version: string };
+  private history: ConfigHistory;
+  private pinnedVersion?: string;
 
   private constructor() {
     this.configPath = path.join(process.cwd(), 'config', 'detection-config.json');
+    this.presetsDir = path.join(process.cwd(), 'config', 'presets');
+    this.history = new ConfigHistory(
+      process.env.CONFIG_HISTORY_PATH || path.join(process.cwd(), 'config', 'history', 'versions.jsonl'),
+      { maxVersions: parseInt(process.env.CONFIG_HISTORY_MAX_VERSIONS || '500', 10) }
+    );
     this.config = this.loadDefaultConfig();
     this.loadConfigFromFile();
+    // Covers the first run and edits made while the bot was stopped
+    this.recordVersion('startup', { author: 'system' });
     this.startConfigWatcher();
   }
 
@@ -352,6 +384,17 @@ export class ConfigManager {
     return { ...this.config }; // Return copy to prevent mutations
   }
 
+  /**
+   * Content hash identifying the configuration in effect (same config, same version)
+   */
+  public getConfigVersion(): string {
+    if (this.versionCache?.config !== this.config) {
+      const version = createHash('sha256').update(JSON.stringify(this.config)).digest('hex').substring(0, 12);
+      this.versionCache = { config: this.config, version };
+    }
+    return this.versionCache.version;
+  }
+
   /**
    * Get detection thresholds
    */
@@ -369,7 +412,12 @@ export class ConfigManager {
   /**
    * Update configuration (for runtime changes)
    */
-  public updateConfig(updates: Partial<SystemConfig>): void {
+  public updateConfig(updates: Partial<SystemConfig>, options: ConfigChangeOptions = {}): void {
+    if (this.pinnedVersion) {
+      // Saving would overwrite the live config file with a historical one
+      throw new Error(`Configuration is pinned to version ${this.pinnedVersion} - updates are disabled`);
+    }
+
     const oldConfig = { ...this.config };
     this.config = this.mergeConfigs(this.config, updates);
     
@@ -389,6 +437,8 @@ export class ConfigManager {
       
       // Save to file
       this.saveConfigToFile();
+
+      this.recordVersion(options.source || 'update', options);
     } else {
       // Revert changes if validation fails
       this.config = oldConfig;
@@ -399,8 +449,8 @@ export class ConfigManager {
   /**
    * Update detection thresholds specifically
    */
-  public updateDetectionThresholds(thresholds: Partial<DetectionThresholds>): void {
-    this.updateConfig({ detection: this.mergeDetectionThresholds(this.config.detection, thresholds) });
+  public updateDetectionThresholds(thresholds: Partial<DetectionThresholds>, options: ConfigChangeOptions = {}): void {
+    this.updateConfig({ detection: this.mergeDetectionThresholds(this.config.detection, thresholds) }, options);
   }
 
   /**
@@ -423,6 +473,7 @@ export class ConfigManager {
   public reloadConfig(): void {
     try {
       this.loadConfigFromFile();
+      this.recordVersion('file', { author: 'unknown' });
       advancedLogger.info('Configuration reloaded from file', {
         component: 'config_manager',
         operation: 'reload_config'
@@ -467,7 +518,7 @@ export class ConfigManager {
   /**
    * Get configuration presets for different scenarios
    */
-  public getPreset(preset: 'conservative' | 'balanced' | 'aggressive' | 'development'): Partial<DetectionThresholds> {
+  public getPreset(preset: BuiltInPreset): Partial<DetectionThresholds> {
     const presets = {
       conservative: {
         signals: {
@@ -546,12 +597,16 @@ export class ConfigManager {
   }
 
   /**
-   * Apply a configuration preset
+   * Apply a configuration preset (built-in or saved under config/presets)
    */
-  public applyPreset(preset: 'conservative' | 'balanced' | 'aggressive' | 'development'): void {
-    const presetConfig = this.getPreset(preset);
+  public applyPreset(preset: BuiltInPreset | string, options: ConfigChangeOptions = {}): void {
+    const presetConfig = this.isBuiltInPreset(preset) ? this.getPreset(preset) : this.loadSavedPreset(preset)?.detection;
+    if (!presetConfig) {
+      throw new Error(`Unknown preset: ${preset}`);
+    }
+
     const mergedConfig = this.mergeDetectionThresholds(this.config.detection, presetConfig);
-    this.updateConfig({ detection: mergedConfig });
+    this.updateConfig({ detection: mergedConfig }, { note: `Preset ${preset}`, ...options, source: 'preset' });
     
     advancedLogger.info(`Applied ${preset} configuration preset`, {
       component: 'config_manager',
@@ -560,8 +615,193 @@ export class ConfigManager {
     });
   }
 
+  /**
+   * Save detection overrides as a named preset in config/presets/<name>.json
+   */
+  public savePreset(name: string, detection: Partial<DetectionThresholds>, metadata?: Record<string, any>): string {
+    if (!/^[a-zA-Z0-9_-]+$/.test(name)) {
+      throw new Error(`Invalid preset name: ${name} (use letters, digits, '-' and '_')`);
+    }
+    if (this.isBuiltInPreset(name)) {
+      throw new Error(`Cannot overwrite built-in preset: ${name}`);
+    }
+
+    const preset: SavedPreset = {
+      name,
+      createdAt: new Date().toISOString(),
+      detection,
+      metadata
+    };
+    const presetPath = path.join(this.presetsDir, `${name}.json`);
+
+    if (!fs.existsSync(this.presetsDir)) {
+      fs.mkdirSync(this.presetsDir, { recursive: true });
+    }
+    fs.writeFileSync(presetPath, JSON.stringify(preset, null, 2));
+
+    advancedLogger.info(`Saved configuration preset ${name}`, {
+      component: 'config_manager',
+      operation: 'save_preset',
+      metadata: { preset: name, presetPath }
+    });
+
+    return presetPath;
+  }
+
+  /**
+   * Load a saved preset, or null if it does not exist
+   */
+  public loadSavedPreset(name: string): SavedPreset | null {
+    const presetPath = path.join(this.presetsDir, `${name}.json`);
+    if (!/^[a-zA-Z0-9_-]+$/.test(name) || !fs.existsSync(presetPath)) {
+      return null;
+    }
+
+    return JSON.parse(fs.readFileSync(presetPath, 'utf8')) as SavedPreset;
+  }
+
+  /**
+   * Names of all presets that can be passed to applyPreset
+   */
+  public listPresets(): string[] {
+    const saved = fs.existsSync(this.presetsDir)
+      ? fs.readdirSync(this.presetsDir)
+        .filter(file => file.endsWith('.json'))
+        .map(file => file.replace(/\.json$/, ''))
+      : [];
+
+    return [...BUILT_IN_PRESETS, ...saved.sort()];
+  }
+
+  /**
+   * Every configuration that went live, newest first, without the full configs
+   */
+  public getConfigHistory(limit?: number): ConfigVersionSummary[] {
+    const versions = this.history.list().reverse();
+    return limit !== undefined ? versions.slice(0, limit) : versions;
+  }
+
+  /**
+   * Stored configuration for a version id, or null if it was never live
+   */
+  public findConfigVersion(version: string): ConfigVersion | null {
+    return this.history.get(version);
+  }
+
+  /**
+   * Configuration that was live at a time (epoch ms), or null if it predates the history
+   */
+  public getConfigVersionAt(timestamp: number): ConfigVersion | null {
+    return this.history.at(timestamp);
+  }
+
+  /**
+   * Fields that differ between two stored versions, with their values in each
+   */
+  public diffConfigVersions(fromVersion: string, toVersion: string): ConfigFieldChange[] {
+    const from = this.requireConfigVersion(fromVersion);
+    const to = this.requireConfigVersion(toVersion);
+    return this.describeChanges(from.config, to.config);
+  }
+
+  /**
+   * Make a stored version live again; recorded as a new 'rollback' version
+   */
+  public rollbackConfig(version: string, options: ConfigChangeOptions = {}): ConfigVersion {
+    const target = this.requireConfigVersion(version);
+    if (version === this.getConfigVersion()) {
+      throw new Error(`Config version ${version} is already live`);
+    }
+    this.updateConfig(target.config, { note: `Rollback to ${version}`, ...options, source: 'rollback' });
+
+    advancedLogger.info(`Rolled configuration back to ${version}`, {
+      component: 'config_manager',
+      operation: 'rollback_config',
+      metadata: { version, createdAt: target.createdAt }
+    });
+
+    return this.history.latest()!;
+  }
+
+  /**
+   * Run on a stored version in this process only (backtests): nothing is saved
+   * or recorded, and edits to the config file are ignored from then on
+   */
+  public useConfigVersion(version: string): ConfigVersion {
+    const target = this.requireConfigVersion(version);
+    this.config = this.mergeConfigs(this.loadDefaultConfig(), target.config);
+    this.pinnedVersion = version;
+    this.notifyWatchers();
+
+    advancedLogger.info(`Using configuration version ${version}`, {
+      component: 'config_manager',
+      operation: 'use_config_version',
+      metadata: { version, createdAt: target.createdAt, source: target.source }
+    });
+
+    return target;
+  }
+
   // Private methods
 
+  private requireConfigVersion(version: string): ConfigVersion {
+    const entry = this.history.get(version);
+    if (!entry) {
+      throw new Error(`Unknown config version: ${version}`);
+    }
+    return entry;
+  }
+
+  /**
+   * Append the current config to the history unless it is already the latest version
+   */
+  private recordVersion(source: ConfigChangeSource, options: ConfigChangeOptions = {}): void {
+    try {
+      const version = this.getConfigVersion();
+      const latest = this.history.latest();
+      if (latest?.version === version) return;
+
+      const entry: ConfigVersion = {
+        version,
+        parentVersion: latest?.version ?? null,
+        createdAt: new Date().toISOString(),
+        source,
+        author: options.author || process.env.CONFIG_AUTHOR || process.env.USER || 'system',
+        note: options.note,
+        changes: latest ? this.describeChanges(latest.config, this.config) : [],
+        config: this.config
+      };
+      this.history.append(entry);
+
+      advancedLogger.info(`Configuration version ${version} recorded`, {
+        component: 'config_manager',
+        operation: 'record_version',
+        metadata: { version, parentVersion: entry.parentVersion, source, author: entry.author, changes: entry.changes.length }
+      });
+    } catch (error) {
+      advancedLogger.error('Failed to record configuration version', error as Error, {
+        component: 'config_manager',
+        operation: 'record_version'
+      });
+    }
+  }
+
+  private describeChanges(oldConfig: SystemConfig, newConfig: SystemConfig): ConfigFieldChange[] {
+    return this.getChangedFields(oldConfig, newConfig).map(field => ({
+      path: field,
+      from: this.getFieldValue(oldConfig, field),
+      to: this.getFieldValue(newConfig, field)
+    }));
+  }
+
+  private getFieldValue(config: SystemConfig, field: string): unknown {
+    return field.split('.').reduce<any>((node, key) => (node == null ? undefined : node[key]), config);
+  }
+
+  private isBuiltInPreset(preset: string): preset is BuiltInPreset {
+    return (BUILT_IN_PRESETS as string[]).includes(preset);
+  }
+
   private loadDefaultConfig(): SystemConfig {
     return {
       detection: {
@@ -707,7 +947,9 @@ export class ConfigManager {
             ageWeight: 0.3,                   // Age indicates discovery level
             liquidityWeight: 0.3,             // Depth matters for execution
             optimalSpreadBps: 150,            // 150 bps spread indicates good opportunity
-            maxAgeDays: 60                    // Beyond 60 days, age doesn't matter
+            maxAgeDays: 60,                   // Beyond 60 days, age doesn't matter
+            liquidImpactBps: 25,              // $1k moving the price 25 bps or less is liquid
+            illiquidImpactBps: 500            // $1k moving it 5% or more is not
           }
         },
         alertPrioritization: {
@@ -946,9 +1188,10 @@ export class ConfigManager {
           const stats = fs.statSync(this.configPath);
           const currentModified = stats.mtime.getTime();
           
-          if (currentModified > this.lastModified) {
+          if (currentModified > this.lastModified && !this.pinnedVersion) {
             this.lastModified = currentModified;
             this.loadConfigFromFile();
+            this.recordVersion('file', { author: 'unknown' });
             this.notifyWatchers();
           }
         }
@@ -1060,6 +1303,8 @@ export class ConfigManager {
       if (scoring.qualityScore.liquidityWeight < 0 || scoring.qualityScore.liquidityWeight > 1) return false;
       if (scoring.qualityScore.optimalSpreadBps < 10 || scoring.qualityScore.optimalSpreadBps > 1000) return false;
       if (scoring.qualityScore.maxAgeDays < 1 || scoring.qualityScore.maxAgeDays > 365) return false;
+      if (scoring.qualityScore.liquidImpactBps < 0) return false;
+      if (scoring.qualityScore.illiquidImpactBps <= scoring.qualityScore.liquidImpactBps) return false;
 
       // Validate weights sum approximately to 1.0 (allow 0.95-1.05 for rounding)
       const totalWeight = scoring.volumeScore.weight + scoring.edgeScore.weight +
@@ -1128,12 +1373,17 @@ export class ConfigManager {
       for (const key in current) {
         const currentPath = path ? `${path}.${key}` : key;
         
-        if (typeof current[key] === 'object' && !Array.isArray(current[key])) {
+        if (current[key] && typeof current[key] === 'object' && !Array.isArray(current[key])) {
           if (old[key]) {
             findChanges(old[key], current[key], currentPath);
           } else {
             changes.push(currentPath);
           }
+        } else if (Array.isArray(current[key])) {
+          // Arrays are copied on every merge, so compare contents
+          if (JSON.stringify(old[key]) !== JSON.stringify(current[key])) {
+            changes.push(currentPath);
+          }
         } else if (old[key] !== current[key]) {
           changes.push(currentPath);
         }
@@ -4,10 +4,22 @@ import { Server as SocketIO } from 'socket.io';
 import path from 'path';
 import { EarlyBot } from '../bot/EarlyBot';
 import { metricsCollector } from '../monitoring/MetricsCollector';
+import { PROMETHEUS_CONTENT_TYPE, renderPrometheusMetrics } from '../monitoring/PrometheusExporter';
 import { statisticalWorkerService } from '../services/StatisticalWorkerService';
 import { configManager } from '../config/ConfigManager';
+import { ConfigVersion } from '../config/ConfigHistory';
 import { advancedLogger } from '../utils/AdvancedLogger';
 import { errorHandler } from '../utils/ErrorHandler';
+import { alertManager } from '../services/AlertManager';
+import { SignalValidationInput } from '../services/SignalPerformanceTracker';
+import {
+  AlertSubscriptionService,
+  redactSubscription,
+  SubscriptionValidationError
+} from '../services/AlertSubscriptionService';
+import { SignalRecord } from '../data/DataAccessLayer';
+import { MarketSuppression, SignalProvenance, SuppressionQuery, SuppressionReason } from '../types';
+import { SUPPRESSION_REASONS } from '../services/SuppressionLog';
 
 export interface DashboardConfig {
   port: number;
@@ -34,12 +46,19 @@ export interface DashboardData {
     cpuUsage: number;
   };
   recentSignals: Array<{
+    id?: string; // signals row id, used for manual validation
     marketId: string;
     signalType: string;
     confidence: number;
     timestamp: number;
     marketQuestion: string;
   }>;
+  flowToxicity: Array<{
+    marketId: string;
+    vpin: number;
+    buckets: number;
+    timestamp: number;
+  }>;
   configuration: {
     volumeThreshold: number;
     priceThreshold: number;
@@ -54,9 +73,23 @@ export interface DashboardData {
   };
 }
 
+/**
+ * Request error carrying the HTTP status to respond with
+ */
+class DashboardRequestError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+    this.name = 'DashboardRequestError';
+  }
+}
+
 /**
  * Web Dashboard for monitoring the Poly Early Bot
- * Provides real-time monitoring, configuration management, and signal validation
+ * Provides real-time monitoring, configuration management, signal validation
+ * and alert acknowledge/snooze/mute actions
  */
 export class WebDashboard {
   private app: express.Application;
@@ -64,6 +97,7 @@ export class WebDashboard {
   private io: SocketIO;
   private config: DashboardConfig;
   private bot?: EarlyBot;
+  private subscriptionService?: AlertSubscriptionService;
   private isRunning = false;
   private updateInterval?: NodeJS.Timeout;
   private recentSignals: Array<any> = [];
@@ -100,6 +134,13 @@ export class WebDashboard {
     // This would require the bot to emit events, but for now we'll poll
   }
 
+  /**
+   * Set the alert subscription service backing /api/subscriptions
+   */
+  setSubscriptionService(service: AlertSubscriptionService): void {
+    this.subscriptionService = service;
+  }
+
   /**
    * Start the web dashboard server
    */
@@ -182,6 +223,7 @@ export class WebDashboard {
 
       // Send initial data
       this.sendDashboardData(socket);
+      socket.emit('market_suppressions', alertManager.getMarketSuppressions());
 
       // Handle client requests
       socket.on('get_dashboard_data', () => {
@@ -194,7 +236,7 @@ export class WebDashboard {
 
       socket.on('update_configuration', async (newConfig) => {
         try {
-          configManager.updateConfig(newConfig);
+          configManager.updateConfig(newConfig, { author: 'dashboard' });
           socket.emit('configuration_updated', { success: true });
           
           // Broadcast to all clients
@@ -208,13 +250,24 @@ export class WebDashboard {
         }
       });
 
-      socket.on('manual_signal_validation', async (signalId) => {
-        // This would integrate with a manual signal validation system
-        socket.emit('validation_result', { 
-          signalId, 
-          status: 'validated',
-          timestamp: Date.now()
-        });
+      socket.on('manual_signal_validation', async (payload) => {
+        const signalId = String(payload?.signalId ?? '');
+        try {
+          const validation = await this.validateSignal(signalId, payload);
+          socket.emit('validation_result', { signalId, status: 'validated', validation, timestamp: Date.now() });
+        } catch (error) {
+          socket.emit('validation_result', { signalId, status: 'error', error: (error as Error).message });
+        }
+      });
+
+      socket.on('alert_action', (payload) => {
+        try {
+          const result = this.applyAlertAction(payload?.action, String(payload?.marketId ?? ''), payload);
+          socket.emit('alert_action_result', { success: true, ...result });
+          this.io.emit('market_suppressions', alertManager.getMarketSuppressions());
+        } catch (error) {
+          socket.emit('alert_action_result', { success: false, error: (error as Error).message });
+        }
       });
 
       socket.on('disconnect', () => {
@@ -237,6 +290,15 @@ export class WebDashboard {
       });
     });
 
+    // Prometheus scrape endpoint
+    this.app.get('/metrics', (req, res) => {
+      try {
+        res.type(PROMETHEUS_CONTENT_TYPE).send(renderPrometheusMetrics());
+      } catch (error) {
+        res.status(500).type('text/plain').send((error as Error).message);
+      }
+    });
+
     // Get current dashboard data
     this.app.get('/api/dashboard', async (req, res) => {
       try {
@@ -260,8 +322,8 @@ export class WebDashboard {
     // Update bot configuration
     this.app.post('/api/config', (req, res) => {
       try {
-        configManager.updateConfig(req.body);
-        res.json({ success: true, message: 'Configuration updated' });
+        configManager.updateConfig(req.body, { author: 'dashboard' });
+        res.json({ success: true, message: 'Configuration updated', version: configManager.getConfigVersion() });
         
         // Broadcast to WebSocket clients
         this.io.emit('configuration_changed', req.body);
@@ -277,19 +339,51 @@ export class WebDashboard {
       res.json(this.recentSignals.slice(-limit));
     });
 
-    // Validate a signal manually
-    this.app.post('/api/signals/:id/validate', (req, res) => {
+    // Validate a signal manually (id is a signals row id or a performance record id)
+    this.app.post('/api/signals/:id/validate', async (req, res) => {
       const signalId = req.params.id;
-      const validation = req.body;
-      
-      // Store validation (in production, this would go to a database)
-      advancedLogger.info('Manual signal validation received', {
-        component: 'web_dashboard',
-        operation: 'signal_validation',
-        metadata: { signalId, validation }
-      });
-      
-      res.json({ success: true, signalId, validation });
+      try {
+        const validation = await this.validateSignal(signalId, req.body);
+        res.json({ success: true, signalId, validation });
+      } catch (error) {
+        const status = error instanceof DashboardRequestError ? error.status : 500;
+        res.status(status).json({ error: (error as Error).message });
+      }
+    });
+
+    // Why a stored signal fired and why it did or didn't alert
+    this.app.get('/api/signals/:id/explain', async (req, res) => {
+      try {
+        res.json(await this.explainSignal(req.params.id));
+      } catch (error) {
+        const status = error instanceof DashboardRequestError ? error.status : 500;
+        res.status(status).json({ error: (error as Error).message });
+      }
+    });
+
+    // Signals that were detected but never alerted, and counts per suppression reason
+    this.app.get('/api/suppressions', async (req, res) => {
+      try {
+        res.json(await this.requireBot().getSuppressionLog().query(this.parseSuppressionQuery(req.query)));
+      } catch (error) {
+        const status = error instanceof DashboardRequestError ? error.status : 500;
+        res.status(status).json({ error: (error as Error).message });
+      }
+    });
+
+    this.app.get('/api/suppressions/summary', async (req, res) => {
+      try {
+        res.json(await this.requireBot().getSuppressionLog().summarize(this.parseSuppressionQuery(req.query)));
+      } catch (error) {
+        const status = error instanceof DashboardRequestError ? error.status : 500;
+        res.status(status).json({ error: (error as Error).message });
+      }
+    });
+
+    // Markets with the most toxic recent trade flow (VPIN)
+    this.app.get('/api/flow-toxicity', (req, res) => {
+      const limit = parseInt(req.query.limit as string) || 10;
+      res.json(this.getFlowToxicity(limit));
     });
 
     // Get worker thread statistics
@@ -303,12 +397,324 @@ export class WebDashboard {
       }
     });
 
+    this.setupConfigVersionRoutes();
+    this.setupAlertActionRoutes();
+    this.setupSubscriptionRoutes();
+
     // Serve the main dashboard page
     this.app.get('/', (req, res) => {
       res.send(this.getDashboardHTML());
     });
   }
 
+  /**
+   * Configuration history: list and diff stored versions, look up the version
+   * live at a time, and roll back
+   */
+  private setupConfigVersionRoutes(): void {
+    // Versions newest first, without the full configs
+    this.app.get('/api/config/versions', (req, res) => {
+      const limit = parseInt(req.query.limit as string) || 50;
+      res.json(configManager.getConfigHistory(limit));
+    });
+
+    this.app.get('/api/config/versions/:version', (req, res) => {
+      this.sendConfigResponse(res, () => this.requireConfigVersion(req.params.version));
+    });
+
+    this.app.get('/api/config/diff', (req, res) => {
+      this.sendConfigResponse(res, () => {
+        const from = this.requireConfigVersion(req.query.from as string).version;
+        const to = this.requireConfigVersion(req.query.to as string).version;
+        return { from, to, changes: configManager.diffConfigVersions(from, to) };
+      });
+    });
+
+    // Version live at ?time= (epoch ms or ISO date)
+    this.app.get('/api/config/at', (req, res) => {
+      this.sendConfigResponse(res, () => {
+        const value = String(req.query.time ?? '');
+        const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+        if (!Number.isFinite(time)) {
+          throw new DashboardRequestError(400, 'time must be epoch milliseconds or an ISO date');
+        }
+        const entry = configManager.getConfigVersionAt(time);
+        if (!entry) {
+          throw new DashboardRequestError(404, `No configuration version recorded before ${new Date(time).toISOString()}`);
+        }
+        return entry;
+      });
+    });
+
+    this.app.post('/api/config/rollback', (req, res) => {
+      this.sendConfigResponse(res, () => {
+        const target = this.requireConfigVersion(req.body?.version);
+        const user = typeof req.body?.user === 'string' ? req.body.user : 'dashboard';
+        if (target.version === configManager.getConfigVersion()) {
+          throw new DashboardRequestError(409, `Config version ${target.version} is already live`);
+        }
+
+        const entry = configManager.rollbackConfig(target.version, { author: user });
+        this.io.emit('configuration_changed', configManager.getConfig());
+        return { success: true, version: entry.version, changes: entry.changes };
+      });
+    });
+  }
+
+  private sendConfigResponse(res: express.Response, handler: () => unknown): void {
+    try {
+      res.json(handler());
+    } catch (error) {
+      const status = error instanceof DashboardRequestError ? error.status : 400;
+      res.status(status).json({ error: (error as Error).message });
+    }
+  }
+
+  private requireConfigVersion(version: unknown): ConfigVersion {
+    if (typeof version !== 'string' || !version) {
+      throw new DashboardRequestError(400, 'version is required');
+    }
+    const entry = configManager.findConfigVersion(version);
+    if (!entry) {
+      throw new DashboardRequestError(404, `Config version not found: ${version}`);
+    }
+    return entry;
+  }
+
+  /**
+   * Operator actions on alerts: acknowledge, snooze and mute by market
+   */
+  private setupAlertActionRoutes(): void {
+    // List active mutes and snoozes
+    this.app.get('/api/markets/suppressed', (req, res) => {
+      res.json(alertManager.getMarketSuppressions());
+    });
+
+    this.app.post('/api/alerts/:marketId/acknowledge', (req, res) => {
+      this.sendAlertAction(res, 'acknowledge', req.params.marketId, req.body);
+    });
+
+    this.app.post('/api/markets/:marketId/snooze', (req, res) => {
+      this.sendAlertAction(res, 'snooze', req.params.marketId, req.body);
+    });
+
+    this.app.post('/api/markets/:marketId/mute', (req, res) => {
+      this.sendAlertAction(res, 'mute', req.params.marketId, req.body);
+    });
+
+    // Remove a mute or snooze
+    this.app.delete('/api/markets/:marketId/mute', (req, res) => {
+      this.sendAlertAction(res, 'unmute', req.params.marketId, req.body);
+    });
+  }
+
+  private sendAlertAction(res: express.Response, action: string, marketId: string, body: any): void {
+    try {
+      const result = this.applyAlertAction(action, marketId, body);
+      this.io.emit('market_suppressions', alertManager.getMarketSuppressions());
+      res.json({ success: true, ...result });
+    } catch (error) {
+      const status = error instanceof DashboardRequestError ? error.status : 500;
+      res.status(status).json({ error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Apply an acknowledge/snooze/mute/unmute action to a market's alerts
+   */
+  private applyAlertAction(
+    action: string,
+    marketId: string,
+    body: any
+  ): { action: string; marketId: string; acknowledged?: number; suppression?: MarketSuppression } {
+    if (!marketId) {
+      throw new DashboardRequestError(400, 'marketId is required');
+    }
+    const user = typeof body?.user === 'string' ? body.user : undefined;
+
+    switch (action) {
+      case 'acknowledge':
+        return { action, marketId, acknowledged: alertManager.acknowledgeAlerts(marketId, user) };
+      case 'snooze': {
+        const minutes = Number(body?.minutes ?? 60);
+        if (!Number.isFinite(minutes) || minutes <= 0) {
+          throw new DashboardRequestError(400, 'minutes must be a positive number');
+        }
+        return { action, marketId, suppression: alertManager.snoozeMarket(marketId, minutes, user) };
+      }
+      case 'mute':
+        return { action, marketId, suppression: alertManager.muteMarket(marketId, user) };
+      case 'unmute':
+        if (!alertManager.unmuteMarket(marketId)) {
+          throw new DashboardRequestError(404, 'Market is not muted or snoozed');
+        }
+        return { action, marketId };
+      default:
+        throw new DashboardRequestError(400, `Unknown alert action: ${action}`);
+    }
+  }
+
+  private requireBot(): EarlyBot {
+    if (!this.bot) {
+      throw new DashboardRequestError(503, 'Bot not connected');
+    }
+    return this.bot;
+  }
+
+  /**
+   * Suppression filters from query parameters. since/until take epoch ms or an
+   * ISO date; without either, the last 24 hours are returned.
+   */
+  private parseSuppressionQuery(query: express.Request['query']): SuppressionQuery {
+    const parseTime = (name: string): number | undefined => {
+      const value = query[name];
+      if (value === undefined) return undefined;
+      const time = /^\d+$/.test(String(value)) ? Number(value) : Date.parse(String(value));
+      if (!Number.isFinite(time)) {
+        throw new DashboardRequestError(400, `${name} must be epoch milliseconds or an ISO date`);
+      }
+      return time;
+    };
+
+    const reason = query.reason as string | undefined;
+    if (reason && !SUPPRESSION_REASONS.includes(reason as SuppressionReason)) {
+      throw new DashboardRequestError(400, `reason must be one of ${SUPPRESSION_REASONS.join(', ')}`);
+    }
+
+    const until = parseTime('until');
+    return {
+      marketId: query.marketId as string | undefined,
+      reason: reason as SuppressionReason | undefined,
+      signalType: query.signalType as string | undefined,
+      since: parseTime('since') ?? (until ?? Date.now()) - 24 * 60 * 60 * 1000,
+      until,
+      limit: Math.min(parseInt(query.limit as string) || 100, 1000)
+    };
+  }
+
+  /**
+   * Stored signal with its provenance: inputs, thresholds, config version and alert checks
+   */
+  private async explainSignal(signalId: string): Promise<{ signal: SignalRecord; provenance: SignalProvenance | null }> {
+    if (!this.bot) {
+      throw new DashboardRequestError(503, 'Bot not connected');
+    }
+    const id = Number(signalId);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new DashboardRequestError(400, 'Signal id must be a positive integer');
+    }
+
+    const explanation = await this.bot.explainSignal(id);
+    if (!explanation) {
+      throw new DashboardRequestError(404, `Signal not found: ${signalId}`);
+    }
+    return explanation;
+  }
+
+  /**
+   * Persist a manual validation through the bot (stored against the signal and its performance record)
+   */
+  private async validateSignal(signalId: string, body: any): Promise<SignalValidationInput> {
+    if (!this.bot) {
+      throw new DashboardRequestError(503, 'Bot not connected');
+    }
+    if (typeof body?.correct !== 'boolean') {
+      throw new DashboardRequestError(400, 'correct must be true or false');
+    }
+
+    const validation = await this.bot.validateSignal(signalId, {
+      correct: body.correct,
+      notes: typeof body.notes === 'string' ? body.notes : undefined,
+      validatedBy: typeof body.user === 'string' ? body.user : undefined
+    });
+    if (!validation) {
+      throw new DashboardRequestError(404, `Signal not found: ${signalId}`);
+    }
+    return validation;
+  }
+
+  /**
+   * Alert subscription management. Secrets in destinations are masked in responses.
+   */
+  private setupSubscriptionRoutes(): void {
+    // List subscriptions
+    this.app.get('/api/subscriptions', (req, res) => {
+      const service = this.requireSubscriptionService(res);
+      if (!service) return;
+      res.json(service.list().map(redactSubscription));
+    });
+
+    // Get a subscription
+    this.app.get('/api/subscriptions/:id', (req, res) => {
+      const service = this.requireSubscriptionService(res);
+      if (!service) return;
+
+      const subscription = service.get(req.params.id);
+      if (!subscription) {
+        return res.status(404).json({ error: 'Subscription not found' });
+      }
+      res.json(redactSubscription(subscription));
+    });
+
+    // Create a subscription
+    this.app.post('/api/subscriptions', async (req, res) => {
+      const service = this.requireSubscriptionService(res);
+      if (!service) return;
+
+      try {
+        const subscription = await service.create(req.body);
+        res.status(201).json(redactSubscription(subscription));
+      } catch (error) {
+        this.sendSubscriptionError(res, error as Error);
+      }
+    });
+
+    // Update a subscription (filters are merged, null removes one)
+    this.app.put('/api/subscriptions/:id', async (req, res) => {
+      const service = this.requireSubscriptionService(res);
+      if (!service) return;
+
+      try {
+        const subscription = await service.update(req.params.id, req.body);
+        if (!subscription) {
+          return res.status(404).json({ error: 'Subscription not found' });
+        }
+        res.json(redactSubscription(subscription));
+      } catch (error) {
+        this.sendSubscriptionError(res, error as Error);
+      }
+    });
+
+    // Delete a subscription
+    this.app.delete('/api/subscriptions/:id', async (req, res) => {
+      const service = this.requireSubscriptionService(res);
+      if (!service) return;
+
+      try {
+        const removed = await service.remove(req.params.id);
+        if (!removed) {
+          return res.status(404).json({ error: 'Subscription not found' });
+        }
+        res.json({ success: true, id: req.params.id });
+      } catch (error) {
+        this.sendSubscriptionError(res, error as Error);
+      }
+    });
+  }
+
+  private requireSubscriptionService(res: express.Response): AlertSubscriptionService | null {
+    if (!this.subscriptionService) {
+      res.status(503).json({ error: 'Alert subscriptions not available' });
+      return null;
+    }
+    return this.subscriptionService;
+  }
+
+  private sendSubscriptionError(res: express.Response, error: Error): void {
+    const status = error instanceof SubscriptionValidationError ? 400 : 500;
+    res.status(status).json({ error: error.message });
+  }
+
   private async getDashboardData(): Promise<DashboardData> {
     const botHealth = this.bot ? await this.bot.getHealthStatus() : null;
     const systemMetrics = metricsCollector.getCurrentMetrics();
@@ -333,6 +739,7 @@ export class WebDashboard {
         cpuUsage: systemMetrics?.system?.cpu?.usage || 0
       },
       recentSignals: this.recentSignals.slice(-10),
+      flowToxicity: this.getFlowToxicity(10),
       configuration: {
         volumeThreshold: systemConfig.detection.signals.volumeSpike.multiplier,
         priceThreshold: systemConfig.detection.signals.priceMovement.percentageThreshold,
@@ -353,6 +760,16 @@ export class WebDashboard {
     };
   }
 
+  private getFlowToxicity(limit: number): DashboardData['flowToxicity'] {
+    if (!this.bot) return [];
+    return this.bot.getFlowToxicity(limit).map(result => ({
+      marketId: result.marketId,
+      vpin: result.vpin,
+      buckets: result.buckets,
+      timestamp: result.timestamp
+    }));
+  }
+
   private async sendDashboardData(socket?: any): Promise<void> {
     try {
       const data = await this.getDashboardData();
@@ -379,8 +796,9 @@ export class WebDashboard {
   /**
    * Add a signal to the recent signals list (called by the bot)
    */
-  addSignal(signal: any): void {
+  addSignal(signal: any, signalId?: number | string): void {
     this.recentSignals.push({
+      id: signalId !== undefined ? String(signalId) : undefined,
       marketId: signal.marketId,
       signalType: signal.signalType,
       confidence: signal.confidence,
@@ -467,6 +885,8 @@ export class WebDashboard {
         }
         button:hover { background: #2980b9; }
         .chart-container { height: 200px; position: relative; }
+        .signal-actions { margin-top: 6px; }
+        .signal-actions button { padding: 4px 10px; font-size: 12px; }
     </style>
 </head>
 <body>
@@ -561,17 +981,30 @@ export class WebDashboard {
             <div id="recent-signals">Loading...</div>
         </div>
 
+        <div class="card" style="grid-column: 1 / -1;">
+            <h3>Muted &amp; Snoozed Markets</h3>
+            <div id="market-suppressions">None</div>
+        </div>
+
         <div class="card" style="grid-column: 1 / -1;">
             <h3>Performance Chart</h3>
             <div class="chart-container">
                 <canvas id="performanceChart"></canvas>
             </div>
         </div>
+
+        <div class="card" style="grid-column: 1 / -1;">
+            <h3>Flow Toxicity (VPIN)</h3>
+            <div class="chart-container">
+                <canvas id="vpinChart"></canvas>
+            </div>
+        </div>
     </div>
 
     <script>
         const socket = io();
         let performanceChart;
+        let vpinChart;
 
         // Initialize the performance chart
         function initChart() {
@@ -602,6 +1035,29 @@ export class WebDashboard {
             });
         }
 
+        // Current VPIN of the markets with the most toxic flow
+        function initVpinChart() {
+            const ctx = document.getElementById('vpinChart').getContext('2d');
+            vpinChart = new Chart(ctx, {
+                type: 'bar',
+                data: {
+                    labels: [],
+                    datasets: [{
+                        label: 'VPIN',
+                        data: [],
+                        backgroundColor: '#9b59b6'
+                    }]
+                },
+                options: {
+                    responsive: true,
+                    maintainAspectRatio: false,
+                    scales: {
+                        y: { min: 0, max: 1 }
+                    }
+                }
+            });
+        }
+
         // Update dashboard with real-time data
         socket.on('dashboard_data', (data) => {
             // Update bot status
@@ -636,8 +1092,9 @@ export class WebDashboard {
             // Update recent signals
             updateRecentSignals(data.recentSignals);
 
-            // Update chart
+            // Update charts
             updateChart(data);
+            updateVpinChart(data.flowToxicity);
         });
 
         socket.on('new_signal', (signal) => {
@@ -659,6 +1116,7 @@ export class WebDashboard {
                        '(Confidence: ' + (signal.confidence * 100).toFixed(0) + '%) - ' +
                        signal.marketQuestion.substring(0, 50) + '...' +
                        '<br><small>' + new Date(signal.timestamp).toLocaleTimeString() + '</small>' +
+                       renderSignalActions(signal) +
                        '</div>';
             }).join('');
         }
@@ -673,10 +1131,65 @@ export class WebDashboard {
                               '(Confidence: ' + (signal.confidence * 100).toFixed(0) + '%) - ' +
                               signal.marketQuestion.substring(0, 50) + '...' +
                               '<br><small>' + new Date(signal.timestamp).toLocaleTimeString() + '</small>' +
+                              renderSignalActions(signal) +
                               '</div>';
             container.insertAdjacentHTML('afterbegin', signalHtml);
         }
 
+        // Validate / acknowledge / snooze / mute buttons for a signal
+        function renderSignalActions(signal) {
+            const button = (label, attrs) => '<button ' + attrs + '>' + label + '</button> ';
+            const market = 'data-market="' + signal.marketId + '"';
+            let html = '<div class="signal-actions">';
+            if (signal.id) {
+                html += button('✓ Correct', 'data-validate="true" data-signal="' + signal.id + '"') +
+                        button('✗ Wrong', 'data-validate="false" data-signal="' + signal.id + '"');
+            }
+            html += button('Acknowledge', 'data-action="acknowledge" ' + market) +
+                    button('Snooze 1h', 'data-action="snooze" data-minutes="60" ' + market) +
+                    button('Mute', 'data-action="mute" ' + market);
+            return html + '</div>';
+        }
+
+        function updateSuppressions(suppressions) {
+            const container = document.getElementById('market-suppressions');
+            if (suppressions.length === 0) {
+                container.innerHTML = 'None';
+                return;
+            }
+            container.innerHTML = suppressions.map(s =>
+                '<div class="metric"><span>' + s.marketId + ' - ' + s.mode +
+                (s.until ? ' until ' + new Date(s.until).toLocaleTimeString() : '') + '</span>' +
+                '<button data-action="unmute" data-market="' + s.marketId + '">Unmute</button></div>'
+            ).join('');
+        }
+
+        document.addEventListener('click', (event) => {
+            const target = event.target;
+            if (target.dataset.validate) {
+                socket.emit('manual_signal_validation', {
+                    signalId: target.dataset.signal,
+                    correct: target.dataset.validate === 'true'
+                });
+            } else if (target.dataset.action) {
+                socket.emit('alert_action', {
+                    action: target.dataset.action,
+                    marketId: target.dataset.market,
+                    minutes: target.dataset.minutes ? Number(target.dataset.minutes) : undefined
+                });
+            }
+        });
+
+        socket.on('market_suppressions', updateSuppressions);
+
+        socket.on('validation_result', (result) => {
+            if (result.status === 'error') alert('Validation failed: ' + result.error);
+        });
+
+        socket.on('alert_action_result', (result) => {
+            if (!result.success) alert('Action failed: ' + result.error);
+        });
+
         function updateChart(data) {
             if (!performanceChart) return;
 
@@ -695,12 +1208,21 @@ export class WebDashboard {
             performanceChart.update();
         }
 
+        function updateVpinChart(flowToxicity) {
+            if (!vpinChart) return;
+
+            vpinChart.data.labels = flowToxicity.map(m => m.marketId.substring(0, 8) + '...');
+            vpinChart.data.datasets[0].data = flowToxicity.map(m => m.vpin);
+            vpinChart.update();
+        }
+
         function showConfigModal() {
             alert('Configuration modal would open here. In a full implementation, this would show a form to update bot settings.');
         }
 
         // Initialize
         initChart();
+        initVpinChart();
         
         // Request initial data
         socket.emit('get_dashboard_data');
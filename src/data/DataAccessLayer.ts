@@ -4,9 +4,19 @@ import {
   OrderbookData, 
   TickData, 
   EarlySignal, 
-  EnhancedMicrostructureMetrics
+  EnhancedMicrostructureMetrics,
+  MarketEvent,
+  AnalyzerCheckpoint,
+  WalletProfile,
+  SignalProvenance,
+  SuppressedSignal,
+  SuppressionQuery,
+  SuppressionCount,
+  MarketSuppression
 } from '../types';
 import { logger } from '../utils/logger';
+import { VPINResult } from '../statistics/VPIN';
+import { MidPricePoint, PriceImpactEstimate } from '../statistics/PriceImpact';
 
 interface HistoricalPrice {
   marketId: string;
@@ -16,7 +26,7 @@ interface HistoricalPrice {
   volume?: number;
 }
 
-interface SignalRecord {
+export interface SignalRecord {
   id: number;
   marketId: string;
   signalType: string;
@@ -26,6 +36,7 @@ interface SignalRecord {
   validated: boolean;
   validationTime?: number;
   outcome?: boolean;
+  configVersion?: string;  // Config version live when the signal was handled
 }
 
 export class DataAccessLayer {
@@ -57,6 +68,16 @@ export class DataAccessLayer {
     }
   }
 
+  /**
+   * Get SQL fragment that reads a timestamp column back as epoch milliseconds
+   */
+  private getEpochMsSQL(column: string): string {
+    if (this.db.getProvider() === 'postgresql') {
+      return `EXTRACT(EPOCH FROM ${column}) * 1000`;
+    }
+    return `CAST(strftime('%s', ${column}) AS INTEGER) * 1000`;
+  }
+
   // Market operations
   async saveMarket(market: Market): Promise<void> {
     try {
@@ -351,6 +372,117 @@ export class DataAccessLayer {
     }
   }
 
+  /**
+   * Orderbook snapshots in [startTime, endTime), oldest first (used by event-driven backtests)
+   */
+  async getOrderbookSnapshotsInRange(startTime: number, endTime: number, marketIds?: string[]): Promise<OrderbookData[]> {
+    try {
+      let query = `
+        SELECT market_id, ${this.getEpochMsSQL('timestamp')} as timestamp,
+               bids, asks, spread, mid_price, best_bid, best_ask
+        FROM orderbook_snapshots
+        WHERE timestamp >= ${this.getTimestampSQL(1)} AND timestamp < ${this.getTimestampSQL(2)}
+      `;
+      const params: any[] = [startTime, endTime];
+
+      if (marketIds && marketIds.length > 0) {
+        const placeholders = marketIds.map((_, i) => `$${i + 3}`).join(', ');
+        query += ` AND market_id IN (${placeholders})`;
+        params.push(...marketIds);
+      }
+
+      query += ' ORDER BY timestamp ASC, id ASC';
+
+      const result = await this.db.query(query, params);
+
+      return result.map((row: any) => this.rowToOrderbook(row));
+    } catch (error) {
+      logger.error('Error getting orderbook snapshots in range:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Markets with orderbook snapshots in [startTime, endTime)
+   */
+  async getOrderbookSnapshotMarketIds(startTime: number, endTime: number): Promise<string[]> {
+    try {
+      const result = await this.db.query(`
+        SELECT DISTINCT market_id
+        FROM orderbook_snapshots
+        WHERE timestamp >= ${this.getTimestampSQL(1)} AND timestamp < ${this.getTimestampSQL(2)}
+      `, [startTime, endTime]);
+
+      return result.map((row: any) => row.market_id);
+    } catch (error) {
+      logger.error('Error getting orderbook snapshot markets:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Most recent snapshot at or before `timestamp`, ignoring anything older than maxAgeMs
+   * (used by the backtest fill simulator, which must not look ahead)
+   */
+  async getOrderbookAt(marketId: string, timestamp: number, maxAgeMs: number): Promise<OrderbookData | null> {
+    try {
+      const result = await this.db.query(`
+        SELECT market_id, ${this.getEpochMsSQL('timestamp')} as timestamp,
+               bids, asks, spread, mid_price, best_bid, best_ask
+        FROM orderbook_snapshots
+        WHERE market_id = $1
+          AND timestamp <= ${this.getTimestampSQL(2)}
+          AND timestamp >= ${this.getTimestampSQL(3)}
+        ORDER BY timestamp DESC
+        LIMIT 1
+      `, [marketId, timestamp, timestamp - maxAgeMs]);
+
+      return result.length > 0 ? this.rowToOrderbook(result[0]) : null;
+    } catch (error) {
+      logger.error(`Error getting orderbook at ${timestamp} for market ${marketId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Mid-price series for a market in [startTime, endTime), oldest first
+   * (only the mid column, so long windows stay cheap)
+   */
+  async getMidPricesInRange(marketId: string, startTime: number, endTime: number): Promise<MidPricePoint[]> {
+    try {
+      const result = await this.db.query(`
+        SELECT ${this.getEpochMsSQL('timestamp')} as timestamp, mid_price
+        FROM orderbook_snapshots
+        WHERE market_id = $1
+          AND timestamp >= ${this.getTimestampSQL(2)}
+          AND timestamp < ${this.getTimestampSQL(3)}
+          AND mid_price IS NOT NULL
+        ORDER BY timestamp ASC
+      `, [marketId, startTime, endTime]);
+
+      return result.map((row: any) => ({
+        timestamp: Number(row.timestamp),
+        midPrice: parseFloat(row.mid_price)
+      }));
+    } catch (error) {
+      logger.error(`Error getting mid prices for market ${marketId}:`, error);
+      throw error;
+    }
+  }
+
+  private rowToOrderbook(row: any): OrderbookData {
+    return {
+      marketId: row.market_id,
+      timestamp: Number(row.timestamp),
+      bids: typeof row.bids === 'string' ? JSON.parse(row.bids) : row.bids,
+      asks: typeof row.asks === 'string' ? JSON.parse(row.asks) : row.asks,
+      spread: parseFloat(row.spread),
+      midPrice: parseFloat(row.mid_price),
+      bestBid: parseFloat(row.best_bid),
+      bestAsk: parseFloat(row.best_ask)
+    };
+  }
+
   // Trade tick operations
   async saveTradeTick(tick: TickData): Promise<void> {
     try {
@@ -396,51 +528,361 @@ export class DataAccessLayer {
     }
   }
 
+  /**
+   * Trade ticks in [startTime, endTime), oldest first (used by event-driven backtests)
+   */
+  async getTradeTicksInRange(startTime: number, endTime: number, marketIds?: string[]): Promise<TickData[]> {
+    try {
+      let query = `
+        SELECT market_id, ${this.getEpochMsSQL('timestamp')} as timestamp, price, size, side
+        FROM trade_ticks
+        WHERE timestamp >= ${this.getTimestampSQL(1)} AND timestamp < ${this.getTimestampSQL(2)}
+      `;
+      const params: any[] = [startTime, endTime];
+
+      if (marketIds && marketIds.length > 0) {
+        const placeholders = marketIds.map((_, i) => `$${i + 3}`).join(', ');
+        query += ` AND market_id IN (${placeholders})`;
+        params.push(...marketIds);
+      }
+
+      query += ' ORDER BY timestamp ASC, id ASC';
+
+      const result = await this.db.query(query, params);
+
+      return result.map((row: any) => ({
+        marketId: row.market_id,
+        timestamp: Number(row.timestamp),
+        price: parseFloat(row.price),
+        volume: parseFloat(row.size),
+        size: parseFloat(row.size),
+        side: row.side as 'buy' | 'sell'
+      }));
+    } catch (error) {
+      logger.error('Error getting trade ticks in range:', error);
+      throw error;
+    }
+  }
+
   // Signal operations
   async saveSignal(signal: EarlySignal): Promise<number> {
     try {
       const provider = this.db.getProvider();
+      let signalId: number;
 
       if (provider === 'postgresql') {
         // PostgreSQL: use RETURNING
         const result = await this.db.query(`
-          INSERT INTO signals (market_id, signal_type, confidence, timestamp, metadata)
-          VALUES ($1, $2, $3, ${this.getTimestampSQL(4)}, $5)
+          INSERT INTO signals (market_id, signal_type, confidence, timestamp, metadata, config_version)
+          VALUES ($1, $2, $3, ${this.getTimestampSQL(4)}, $5, $6)
           RETURNING id
         `, [
           signal.marketId,
           signal.signalType,
           signal.confidence,
           signal.timestamp,
-          JSON.stringify(signal.metadata || {})
+          JSON.stringify(signal.metadata || {}),
+          signal.configVersion ?? null
         ]);
 
-        const signalId = result[0].id;
-        logger.info(`Signal saved with ID ${signalId}: ${signal.signalType} for market ${signal.marketId}`);
-        return signalId;
+        signalId = result[0].id;
       } else {
         // SQLite: get last inserted rowid
         const result = await this.db.query(`
-          INSERT INTO signals (market_id, signal_type, confidence, timestamp, metadata)
-          VALUES ($1, $2, $3, ${this.getTimestampSQL(4)}, $5)
+          INSERT INTO signals (market_id, signal_type, confidence, timestamp, metadata, config_version)
+          VALUES ($1, $2, $3, ${this.getTimestampSQL(4)}, $5, $6)
         `, [
           signal.marketId,
           signal.signalType,
           signal.confidence,
           signal.timestamp,
-          JSON.stringify(signal.metadata || {})
+          JSON.stringify(signal.metadata || {}),
+          signal.configVersion ?? null
         ]);
 
-        const signalId = result.insertId || result.lastID;
-        logger.info(`Signal saved with ID ${signalId}: ${signal.signalType} for market ${signal.marketId}`);
-        return signalId;
+        signalId = result.insertId || result.lastID;
+      }
+
+      // The signal row is already written; losing its provenance must not lose its ID
+      if (signal.provenance) {
+        try {
+          await this.saveSignalProvenance(signalId, signal.provenance);
+        } catch {
+          logger.warn(`Signal ${signalId} saved without provenance`);
+        }
       }
+
+      logger.info(`Signal saved with ID ${signalId}: ${signal.signalType} for market ${signal.marketId}`);
+      return signalId;
     } catch (error) {
       logger.error(`Error saving signal for market ${signal.marketId}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Store or replace a signal's provenance (replaced once alerting has decided)
+   */
+  async saveSignalProvenance(signalId: number, provenance: SignalProvenance): Promise<void> {
+    try {
+      await this.db.query(`
+        INSERT INTO signal_provenance (signal_id, config_version, provenance, should_alert, blocked_by, updated_at)
+        VALUES ($1, $2, $3, $4, $5, ${this.getTimestampSQL(6)})
+        ON CONFLICT(signal_id) DO UPDATE SET
+          config_version = EXCLUDED.config_version,
+          provenance = EXCLUDED.provenance,
+          should_alert = EXCLUDED.should_alert,
+          blocked_by = EXCLUDED.blocked_by,
+          updated_at = EXCLUDED.updated_at
+      `, [
+        signalId,
+        provenance.configVersion,
+        JSON.stringify(provenance),
+        provenance.alertDecision ? provenance.alertDecision.shouldAlert : null,
+        provenance.alertDecision?.blockedBy ?? null,
+        Date.now()
+      ]);
+    } catch (error) {
+      logger.error(`Error saving provenance for signal ${signalId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * A stored signal with its provenance, or null if there is no such signal
+   */
+  async getSignalExplanation(signalId: number): Promise<{ signal: SignalRecord; provenance: SignalProvenance | null } | null> {
+    try {
+      const result = await this.db.query(`
+        SELECT s.id, s.market_id, s.signal_type, s.confidence,
+               ${this.getEpochMsSQL('s.timestamp')} as timestamp,
+               s.metadata, s.validated,
+               ${this.getEpochMsSQL('s.validation_time')} as validation_time,
+               s.outcome, s.config_version, p.provenance
+        FROM signals s
+        LEFT JOIN signal_provenance p ON p.signal_id = s.id
+        WHERE s.id = $1
+      `, [signalId]);
+
+      if (result.length === 0) return null;
+      const row = result[0];
+      const parseJson = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value);
+
+      return {
+        signal: {
+          id: Number(row.id),
+          marketId: row.market_id,
+          signalType: row.signal_type,
+          confidence: parseFloat(row.confidence),
+          timestamp: Number(row.timestamp),
+          metadata: row.metadata ? parseJson(row.metadata) : {},
+          validated: row.validated === true || row.validated === 1,
+          validationTime: row.validation_time ? Number(row.validation_time) : undefined,
+          outcome: row.outcome === null || row.outcome === undefined ? undefined : row.outcome === true || row.outcome === 1,
+          configVersion: row.config_version ?? undefined
+        },
+        provenance: row.provenance ? parseJson(row.provenance) : null
+      };
+    } catch (error) {
+      logger.error(`Error getting explanation for signal ${signalId}:`, error);
+      throw error;
+    }
+  }
+
+  // Signal suppression log
+  async saveSignalSuppressions(entries: SuppressedSignal[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    try {
+      await this.db.transaction(async (query) => {
+        for (const entry of entries) {
+          await query(`
+            INSERT INTO signal_suppressions (
+              market_id, signal_type, stage, reason, detail, confidence,
+              adjusted_score, priority, question, metadata, suppressed_at
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, ${this.getTimestampSQL(11)})
+          `, [
+            entry.marketId,
+            entry.signalType,
+            entry.stage,
+            entry.reason,
+            entry.detail,
+            entry.confidence,
+            entry.adjustedScore ?? null,
+            entry.priority ?? null,
+            entry.question ?? null,
+            JSON.stringify(entry.metadata || {}),
+            entry.suppressedAt
+          ]);
+        }
+      });
+    } catch (error) {
+      logger.error('Error saving signal suppressions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Keep only the newest maxRows suppressions
+   */
+  async pruneSignalSuppressions(maxRows: number): Promise<void> {
+    try {
+      await this.db.query(`
+        DELETE FROM signal_suppressions
+        WHERE id <= (SELECT id FROM signal_suppressions ORDER BY id DESC LIMIT 1 OFFSET $1)
+      `, [Math.max(0, Math.floor(maxRows))]);
+    } catch (error) {
+      logger.error('Error pruning signal suppressions:', error);
+      throw error;
+    }
+  }
+
+  private buildSuppressionFilter(filter: SuppressionQuery): { where: string; params: any[] } {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filter.marketId) {
+      params.push(filter.marketId);
+      conditions.push(`market_id = $${params.length}`);
+    }
+    if (filter.reason) {
+      params.push(filter.reason);
+      conditions.push(`reason = $${params.length}`);
+    }
+    if (filter.signalType) {
+      params.push(filter.signalType);
+      conditions.push(`signal_type = $${params.length}`);
+    }
+    if (filter.since !== undefined) {
+      params.push(filter.since);
+      conditions.push(`suppressed_at >= ${this.getTimestampSQL(params.length)}`);
+    }
+    if (filter.until !== undefined) {
+      params.push(filter.until);
+      conditions.push(`suppressed_at <= ${this.getTimestampSQL(params.length)}`);
+    }
+
+    return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+  }
+
+  /**
+   * Suppressed signals matching the filter, newest first
+   */
+  async getSignalSuppressions(filter: SuppressionQuery = {}): Promise<SuppressedSignal[]> {
+    try {
+      const { where, params } = this.buildSuppressionFilter(filter);
+      // Interpolated into the query, so always a whole number in 1..1000
+      const limit = Number.isFinite(filter.limit) ? Math.min(Math.max(Math.floor(filter.limit!), 1), 1000) : 100;
+      const result = await this.db.query(`
+        SELECT market_id, signal_type, stage, reason, detail, confidence, adjusted_score, priority,
+               question, metadata, ${this.getEpochMsSQL('suppressed_at')} as suppressed_at
+        FROM signal_suppressions
+        ${where}
+        ORDER BY suppressed_at DESC, id DESC
+        LIMIT ${limit}
+      `, params);
+
+      return result.map((row: any) => ({
+        marketId: row.market_id,
+        signalType: row.signal_type,
+        stage: row.stage,
+        reason: row.reason,
+        detail: row.detail,
+        confidence: parseFloat(row.confidence),
+        adjustedScore: row.adjusted_score !== null ? parseFloat(row.adjusted_score) : undefined,
+        priority: row.priority ?? undefined,
+        question: row.question ?? undefined,
+        metadata: typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata,
+        suppressedAt: Number(row.suppressed_at)
+      }));
+    } catch (error) {
+      logger.error('Error getting signal suppressions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Suppression counts per reason for the filter (limit is ignored), most frequent first
+   */
+  async getSuppressionCounts(filter: SuppressionQuery = {}): Promise<SuppressionCount[]> {
+    try {
+      const { where, params } = this.buildSuppressionFilter(filter);
+      const result = await this.db.query(`
+        SELECT reason, COUNT(*) as count, COUNT(DISTINCT market_id) as markets,
+               MAX(${this.getEpochMsSQL('suppressed_at')}) as last_suppressed_at
+        FROM signal_suppressions
+        ${where}
+        GROUP BY reason
+        ORDER BY count DESC
+      `, params);
+
+      return result.map((row: any) => ({
+        reason: row.reason,
+        count: Number(row.count),
+        markets: Number(row.markets),
+        lastSuppressedAt: Number(row.last_suppressed_at)
+      }));
+    } catch (error) {
+      logger.error('Error getting suppression counts:', error);
+      throw error;
+    }
+  }
+
+  // Market mutes and snoozes
+  async saveMarketSuppression(suppression: MarketSuppression): Promise<void> {
+    try {
+      await this.db.query(`
+        INSERT INTO market_suppressions (market_id, mode, until_at, created_at, created_by)
+        VALUES ($1, $2, ${this.getTimestampSQL(3)}, ${this.getTimestampSQL(4)}, $5)
+        ON CONFLICT(market_id) DO UPDATE SET
+          mode = EXCLUDED.mode,
+          until_at = EXCLUDED.until_at,
+          created_at = EXCLUDED.created_at,
+          created_by = EXCLUDED.created_by
+      `, [
+        suppression.marketId,
+        suppression.mode,
+        suppression.until ?? null,
+        suppression.createdAt,
+        suppression.createdBy ?? null
+      ]);
+    } catch (error) {
+      logger.error('Error saving market suppression:', error);
+      throw error;
+    }
+  }
+
+  async deleteMarketSuppression(marketId: string): Promise<void> {
+    try {
+      await this.db.query('DELETE FROM market_suppressions WHERE market_id = $1', [marketId]);
+    } catch (error) {
+      logger.error('Error deleting market suppression:', error);
+      throw error;
+    }
+  }
+
+  async getMarketSuppressions(): Promise<MarketSuppression[]> {
+    try {
+      const result = await this.db.query(`
+        SELECT market_id, mode, created_by,
+               ${this.getEpochMsSQL('until_at')} as until_at,
+               ${this.getEpochMsSQL('created_at')} as created_at
+        FROM market_suppressions
+      `);
+
+      return result.map((row: any) => ({
+        marketId: row.market_id,
+        mode: row.mode as MarketSuppression['mode'],
+        ...(row.until_at !== null && row.until_at !== undefined ? { until: Number(row.until_at) } : {}),
+        createdAt: Number(row.created_at),
+        ...(row.created_by ? { createdBy: row.created_by } : {})
+      }));
+    } catch (error) {
+      logger.error('Error getting market suppressions:', error);
+      throw error;
+    }
+  }
+
   async getSignals(marketId?: string, signalType?: string, hours: number = 24): Promise<SignalRecord[]> {
     try {
       const provider = this.db.getProvider();
@@ -463,7 +905,7 @@ export class DataAccessLayer {
                ${timestampExtract} as timestamp,
                metadata, validated,
                ${validationTimeExtract} as validation_time,
-               outcome
+               outcome, config_version
         FROM signals
         WHERE ${timeFilter}
       `;
@@ -493,7 +935,8 @@ export class DataAccessLayer {
         metadata: row.metadata ? JSON.parse(row.metadata) : {},
         validated: row.validated,
         validationTime: row.validation_time ? parseInt(row.validation_time) : undefined,
-        outcome: row.outcome
+        outcome: row.outcome,
+        configVersion: row.config_version ?? undefined
       }));
     } catch (error) {
       logger.error('Error getting signals:', error);
@@ -551,6 +994,163 @@ export class DataAccessLayer {
     }
   }
 
+  /**
+   * Stored microstructure metrics in [startTime, endTime), oldest first
+   * (used to seed baselines when no checkpoint exists)
+   */
+  async getMicrostructureMetricsInRange(startTime: number, endTime: number): Promise<Array<Pick<EnhancedMicrostructureMetrics,
+    'marketId' | 'timestamp' | 'depth1Total' | 'microPrice' | 'spreadBps' | 'orderBookImbalance'>>> {
+    try {
+      const result = await this.db.query(`
+        SELECT market_id, ${this.getEpochMsSQL('timestamp')} as timestamp,
+               depth_1_total, micro_price, spread_bps, orderbook_imbalance
+        FROM microstructure_metrics
+        WHERE timestamp >= ${this.getTimestampSQL(1)} AND timestamp < ${this.getTimestampSQL(2)}
+        ORDER BY timestamp ASC, id ASC
+      `, [startTime, endTime]);
+
+      return result.map((row: any) => ({
+        marketId: row.market_id,
+        timestamp: Number(row.timestamp),
+        depth1Total: parseFloat(row.depth_1_total) || 0,
+        microPrice: parseFloat(row.micro_price) || 0,
+        spreadBps: parseFloat(row.spread_bps) || 0,
+        orderBookImbalance: parseFloat(row.orderbook_imbalance) || 0
+      }));
+    } catch (error) {
+      logger.error('Error getting microstructure metrics in range:', error);
+      throw error;
+    }
+  }
+
+  // Flow toxicity operations
+  async saveFlowToxicity(result: VPINResult): Promise<void> {
+    try {
+      await this.db.query(`
+        INSERT INTO flow_toxicity (
+          market_id, timestamp, vpin, buckets, bucket_volume, last_bucket_imbalance
+        ) VALUES ($1, ${this.getTimestampSQL(2)}, $3, $4, $5, $6)
+      `, [
+        result.marketId,
+        result.timestamp,
+        result.vpin,
+        result.buckets,
+        result.bucketVolume,
+        result.lastBucketImbalance
+      ]);
+    } catch (error) {
+      logger.error(`Error saving flow toxicity for market ${result.marketId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stored VPIN readings for a market since startTime, oldest first
+   */
+  async getFlowToxicityHistory(marketId: string, startTime: number): Promise<VPINResult[]> {
+    try {
+      const result = await this.db.query(`
+        SELECT market_id, ${this.getEpochMsSQL('timestamp')} as timestamp,
+               vpin, buckets, bucket_volume, last_bucket_imbalance
+        FROM flow_toxicity
+        WHERE market_id = $1 AND timestamp >= ${this.getTimestampSQL(2)}
+        ORDER BY timestamp ASC, id ASC
+      `, [marketId, startTime]);
+
+      return result.map((row: any) => ({
+        marketId: row.market_id,
+        timestamp: Number(row.timestamp),
+        vpin: parseFloat(row.vpin),
+        buckets: Number(row.buckets),
+        bucketVolume: parseFloat(row.bucket_volume),
+        lastBucketImbalance: parseFloat(row.last_bucket_imbalance) || 0
+      }));
+    } catch (error) {
+      logger.error(`Error getting flow toxicity history for market ${marketId}:`, error);
+      throw error;
+    }
+  }
+
+  // Price impact operations
+  async savePriceImpactEstimate(estimate: PriceImpactEstimate, estimatedAt: number = Date.now()): Promise<void> {
+    try {
+      await this.db.query(`
+        INSERT INTO price_impact_estimates (
+          market_id, estimated_at, kyle_lambda, lambda_t_stat, r_squared, amihud,
+          impact_bps_per_1k, intervals, window_start, window_end
+        ) VALUES ($1, ${this.getTimestampSQL(2)}, $3, $4, $5, $6, $7, $8, ${this.getTimestampSQL(9)}, ${this.getTimestampSQL(10)})
+      `, [
+        estimate.marketId,
+        estimatedAt,
+        estimate.kyleLambda,
+        estimate.lambdaTStat,
+        estimate.rSquared,
+        estimate.amihud,
+        estimate.impactBpsPer1k ?? null,
+        estimate.intervals,
+        estimate.windowStart,
+        estimate.windowEnd
+      ]);
+    } catch (error) {
+      logger.error(`Error saving price impact estimate for market ${estimate.marketId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Latest price impact estimate per market made at or before asOf
+   * (backtests pass the run start so estimates never look ahead)
+   */
+  async getLatestPriceImpactEstimates(marketIds?: string[], asOf: number = Date.now()): Promise<PriceImpactEstimate[]> {
+    try {
+      let query = `
+        SELECT p.market_id, p.kyle_lambda, p.lambda_t_stat, p.r_squared, p.amihud,
+               p.impact_bps_per_1k, p.intervals,
+               ${this.getEpochMsSQL('p.window_start')} as window_start,
+               ${this.getEpochMsSQL('p.window_end')} as window_end
+        FROM price_impact_estimates p
+        JOIN (
+          SELECT market_id, MAX(estimated_at) as latest
+          FROM price_impact_estimates
+          WHERE estimated_at <= ${this.getTimestampSQL(1)}
+          GROUP BY market_id
+        ) l ON l.market_id = p.market_id AND l.latest = p.estimated_at
+      `;
+      const params: any[] = [asOf];
+
+      if (marketIds && marketIds.length > 0) {
+        const placeholders = marketIds.map((_, i) => `$${i + 2}`).join(', ');
+        query += ` WHERE p.market_id IN (${placeholders})`;
+        params.push(...marketIds);
+      }
+
+      query += ' ORDER BY p.id DESC';
+
+      const result = await this.db.query(query, params);
+
+      // Second-precision timestamps can tie; keep the newest row per market
+      const latest = new Map<string, PriceImpactEstimate>();
+      for (const row of result) {
+        if (latest.has(row.market_id)) continue;
+        latest.set(row.market_id, {
+          marketId: row.market_id,
+          kyleLambda: parseFloat(row.kyle_lambda),
+          lambdaTStat: parseFloat(row.lambda_t_stat) || 0,
+          rSquared: parseFloat(row.r_squared) || 0,
+          amihud: parseFloat(row.amihud) || 0,
+          impactBpsPer1k: row.impact_bps_per_1k !== null ? parseFloat(row.impact_bps_per_1k) : undefined,
+          intervals: Number(row.intervals),
+          windowStart: Number(row.window_start),
+          windowEnd: Number(row.window_end)
+        });
+      }
+      return Array.from(latest.values());
+    } catch (error) {
+      logger.error('Error getting latest price impact estimates:', error);
+      throw error;
+    }
+  }
+
   // Anomaly score operations
   async saveAnomalyScore(anomalyScore: any): Promise<void> {
     try {
@@ -648,6 +1248,384 @@ export class DataAccessLayer {
     }
   }
 
+  /**
+   * Stored front-running scores in [startTime, endTime), oldest first (used for score calibration)
+   */
+  async getFrontRunningScoresInRange(startTime: number, endTime: number, limit: number = 50000): Promise<Array<{
+    marketId: string;
+    timestamp: number;
+    score: number;
+    confidence: number;
+    leakProbability: number;
+    heuristicLeakProbability: number; // Before calibration, equal to leakProbability for uncalibrated scores
+  }>> {
+    try {
+      const result = await this.db.query(`
+        SELECT market_id, ${this.getEpochMsSQL('timestamp')} as timestamp, score, confidence, leak_probability, metadata
+        FROM front_running_scores
+        WHERE timestamp >= ${this.getTimestampSQL(1)} AND timestamp < ${this.getTimestampSQL(2)}
+        ORDER BY timestamp ASC, id ASC
+        LIMIT ${Math.max(1, Math.floor(limit))}
+      `, [startTime, endTime]);
+
+      return result.map((row: any) => {
+        const metadata = typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata || {};
+        const leakProbability = parseFloat(row.leak_probability);
+        return {
+          marketId: row.market_id,
+          timestamp: Number(row.timestamp),
+          score: parseFloat(row.score),
+          confidence: parseFloat(row.confidence),
+          leakProbability,
+          heuristicLeakProbability: metadata.heuristicLeakProbability ?? leakProbability
+        };
+      });
+    } catch (error) {
+      logger.error('Error getting front-running scores in range:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Price series for one outcome in [startTime, endTime], oldest first
+   */
+  async getPriceSeries(marketId: string, outcomeIndex: number, startTime: number, endTime: number): Promise<Array<{
+    timestamp: number;
+    price: number;
+  }>> {
+    try {
+      const result = await this.db.query(`
+        SELECT ${this.getEpochMsSQL('timestamp')} as timestamp, price
+        FROM market_prices
+        WHERE market_id = $1 AND outcome_index = $2
+          AND timestamp >= ${this.getTimestampSQL(3)} AND timestamp <= ${this.getTimestampSQL(4)}
+        ORDER BY timestamp ASC, id ASC
+      `, [marketId, outcomeIndex, startTime, endTime]);
+
+      return result.map((row: any) => ({ timestamp: Number(row.timestamp), price: parseFloat(row.price) }));
+    } catch (error) {
+      logger.error(`Error getting price series for market ${marketId}:`, error);
+      throw error;
+    }
+  }
+
+  // Event operations
+  async saveEvents(events: MarketEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    try {
+      await this.db.transaction(async (query) => {
+        for (const event of events) {
+          await query(`
+            INSERT INTO events (id, slug, title, neg_risk, market_ids, market_count, probability_sum, updated_at)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, ${this.getTimestampSQL(8)})
+            ON CONFLICT(id) DO UPDATE SET
+              slug = EXCLUDED.slug,
+              title = EXCLUDED.title,
+              neg_risk = EXCLUDED.neg_risk,
+              market_ids = EXCLUDED.market_ids,
+              market_count = EXCLUDED.market_count,
+              probability_sum = EXCLUDED.probability_sum,
+              updated_at = EXCLUDED.updated_at
+          `, [
+            event.id,
+            event.slug || null,
+            event.title,
+            event.negRisk,
+            JSON.stringify(event.marketIds),
+            event.marketIds.length,
+            event.probabilitySum ?? null,
+            event.updatedAt
+          ]);
+        }
+      });
+
+      logger.debug(`Saved ${events.length} events`);
+    } catch (error) {
+      logger.error('Error saving events:', error);
+      throw error;
+    }
+  }
+
+  // Analyzer checkpoint operations
+  async saveAnalyzerCheckpoints(checkpoints: AnalyzerCheckpoint[]): Promise<void> {
+    if (checkpoints.length === 0) return;
+
+    try {
+      await this.db.transaction(async (query) => {
+        for (const checkpoint of checkpoints) {
+          await query(`
+            INSERT INTO analyzer_checkpoints (component, market_id, state, checkpoint_at)
+            VALUES ($1, $2, $3, ${this.getTimestampSQL(4)})
+            ON CONFLICT(component, market_id) DO UPDATE SET
+              state = EXCLUDED.state,
+              checkpoint_at = EXCLUDED.checkpoint_at
+          `, [
+            checkpoint.component,
+            checkpoint.marketId,
+            JSON.stringify(checkpoint.state),
+            checkpoint.checkpointAt
+          ]);
+        }
+      });
+
+      logger.debug(`Saved ${checkpoints.length} analyzer checkpoints`);
+    } catch (error) {
+      logger.error('Error saving analyzer checkpoints:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Checkpoints taken at or after `since`
+   */
+  async getAnalyzerCheckpoints(since: number): Promise<AnalyzerCheckpoint[]> {
+    try {
+      const result = await this.db.query(`
+        SELECT component, market_id, state, ${this.getEpochMsSQL('checkpoint_at')} as checkpoint_at
+        FROM analyzer_checkpoints
+        WHERE checkpoint_at >= ${this.getTimestampSQL(1)}
+      `, [since]);
+
+      return result.map((row: any) => ({
+        component: row.component,
+        marketId: row.market_id,
+        state: typeof row.state === 'string' ? JSON.parse(row.state) : row.state,
+        checkpointAt: Number(row.checkpoint_at)
+      }));
+    } catch (error) {
+      logger.error('Error getting analyzer checkpoints:', error);
+      throw error;
+    }
+  }
+
+  async deleteAnalyzerCheckpointsBefore(cutoff: number): Promise<void> {
+    try {
+      await this.db.query(`
+        DELETE FROM analyzer_checkpoints WHERE checkpoint_at < ${this.getTimestampSQL(1)}
+      `, [cutoff]);
+    } catch (error) {
+      logger.error('Error deleting old analyzer checkpoints:', error);
+      throw error;
+    }
+  }
+
+  // Wallet trade operations
+  /**
+   * Store attributed trades, skipping any already stored.
+   * Returns the trades that were new.
+   */
+  async saveWalletTrades(trades: TickData[]): Promise<TickData[]> {
+    const attributed = trades.filter(trade => trade.tradeId && trade.traderAddress);
+    if (attributed.length === 0) return [];
+
+    try {
+      const existing = new Set<string>();
+      for (let i = 0; i < attributed.length; i += 500) {
+        const ids = attributed.slice(i, i + 500).map(trade => trade.tradeId!);
+        const placeholders = ids.map((_, j) => `$${j + 1}`).join(', ');
+        const rows = await this.db.query(`SELECT trade_id FROM wallet_trades WHERE trade_id IN (${placeholders})`, ids);
+        rows.forEach((row: any) => existing.add(row.trade_id));
+      }
+
+      // A poll can return the same trade twice
+      const fresh = new Map<string, TickData>();
+      for (const trade of attributed) {
+        if (!existing.has(trade.tradeId!)) fresh.set(trade.tradeId!, trade);
+      }
+      if (fresh.size === 0) return [];
+
+      await this.db.transaction(async (query) => {
+        for (const trade of fresh.values()) {
+          await query(`
+            INSERT INTO wallet_trades (trade_id, market_id, wallet_address, timestamp, outcome_index, side, price, size)
+            VALUES ($1, $2, $3, ${this.getTimestampSQL(4)}, $5, $6, $7, $8)
+            ON CONFLICT(trade_id) DO NOTHING
+          `, [
+            trade.tradeId,
+            trade.marketId,
+            trade.traderAddress,
+            trade.timestamp,
+            trade.outcomeIndex ?? 0,
+            trade.side,
+            trade.price,
+            trade.size
+          ]);
+        }
+      });
+
+      logger.debug(`Saved ${fresh.size} wallet trades`);
+      return Array.from(fresh.values());
+    } catch (error) {
+      logger.error('Error saving wallet trades:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Attributed trades in the given markets, oldest first
+   */
+  async getWalletTradesForMarkets(marketIds: string[]): Promise<TickData[]> {
+    if (marketIds.length === 0) return [];
+
+    try {
+      const placeholders = marketIds.map((_, i) => `$${i + 1}`).join(', ');
+      const result = await this.db.query(`
+        SELECT trade_id, market_id, wallet_address, ${this.getEpochMsSQL('timestamp')} as timestamp,
+               outcome_index, side, price, size
+        FROM wallet_trades
+        WHERE market_id IN (${placeholders})
+        ORDER BY timestamp ASC
+      `, marketIds);
+
+      return result.map((row: any) => ({
+        tradeId: row.trade_id,
+        marketId: row.market_id,
+        traderAddress: row.wallet_address,
+        timestamp: Number(row.timestamp),
+        outcomeIndex: Number(row.outcome_index),
+        side: row.side as 'buy' | 'sell',
+        price: parseFloat(row.price),
+        size: parseFloat(row.size),
+        volume: parseFloat(row.size)
+      }));
+    } catch (error) {
+      logger.error('Error getting wallet trades:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Earliest stored trade of each wallet
+   */
+  async getWalletFirstTradeTimes(walletAddresses: string[]): Promise<Map<string, number>> {
+    if (walletAddresses.length === 0) return new Map();
+
+    try {
+      const placeholders = walletAddresses.map((_, i) => `$${i + 1}`).join(', ');
+      const result = await this.db.query(`
+        SELECT wallet_address, ${this.getEpochMsSQL('MIN(timestamp)')} as first_trade
+        FROM wallet_trades
+        WHERE wallet_address IN (${placeholders})
+        GROUP BY wallet_address
+      `, walletAddresses);
+
+      return new Map(result.map((row: any) => [row.wallet_address, Number(row.first_trade)]));
+    } catch (error) {
+      logger.error('Error getting wallet first trade times:', error);
+      throw error;
+    }
+  }
+
+  async getWalletTradeMarketIds(): Promise<string[]> {
+    try {
+      const result = await this.db.query('SELECT DISTINCT market_id FROM wallet_trades');
+      return result.map((row: any) => row.market_id);
+    } catch (error) {
+      logger.error('Error getting wallet trade market IDs:', error);
+      throw error;
+    }
+  }
+
+  async saveWalletProfiles(profiles: WalletProfile[]): Promise<void> {
+    if (profiles.length === 0) return;
+
+    try {
+      await this.db.transaction(async (query) => {
+        for (const profile of profiles) {
+          await query(`
+            INSERT INTO wallet_profiles (
+              wallet_address, resolved_markets, winning_markets, hit_rate, realized_pnl,
+              resolved_volume, first_trade_at, last_trade_at, updated_at
+            ) VALUES ($1, $2, $3, $4, $5, $6, ${this.getTimestampSQL(7)}, ${this.getTimestampSQL(8)}, ${this.getTimestampSQL(9)})
+            ON CONFLICT(wallet_address) DO UPDATE SET
+              resolved_markets = EXCLUDED.resolved_markets,
+              winning_markets = EXCLUDED.winning_markets,
+              hit_rate = EXCLUDED.hit_rate,
+              realized_pnl = EXCLUDED.realized_pnl,
+              resolved_volume = EXCLUDED.resolved_volume,
+              first_trade_at = EXCLUDED.first_trade_at,
+              last_trade_at = EXCLUDED.last_trade_at,
+              updated_at = EXCLUDED.updated_at
+          `, [
+            profile.walletAddress,
+            profile.resolvedMarkets,
+            profile.winningMarkets,
+            profile.hitRate,
+            profile.realizedPnl,
+            profile.resolvedVolume,
+            profile.firstTradeAt ?? null,
+            profile.lastTradeAt ?? null,
+            profile.updatedAt
+          ]);
+        }
+      });
+
+      logger.debug(`Saved ${profiles.length} wallet profiles`);
+    } catch (error) {
+      logger.error('Error saving wallet profiles:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Wallet profiles with at least minResolvedMarkets, best realized P&L first
+   */
+  async getWalletProfiles(minResolvedMarkets: number = 0, limit?: number): Promise<WalletProfile[]> {
+    try {
+      const result = await this.db.query(`
+        SELECT wallet_address, resolved_markets, winning_markets, hit_rate, realized_pnl, resolved_volume,
+               ${this.getEpochMsSQL('first_trade_at')} as first_trade_at,
+               ${this.getEpochMsSQL('last_trade_at')} as last_trade_at,
+               ${this.getEpochMsSQL('updated_at')} as updated_at
+        FROM wallet_profiles
+        WHERE resolved_markets >= $1
+        ORDER BY realized_pnl DESC
+        ${limit !== undefined ? `LIMIT ${Math.floor(limit)}` : ''}
+      `, [minResolvedMarkets]);
+
+      return result.map((row: any) => ({
+        walletAddress: row.wallet_address,
+        resolvedMarkets: Number(row.resolved_markets),
+        winningMarkets: Number(row.winning_markets),
+        hitRate: parseFloat(row.hit_rate),
+        realizedPnl: parseFloat(row.realized_pnl),
+        resolvedVolume: parseFloat(row.resolved_volume),
+        firstTradeAt: row.first_trade_at !== null ? Number(row.first_trade_at) : undefined,
+        lastTradeAt: row.last_trade_at !== null ? Number(row.last_trade_at) : undefined,
+        updatedAt: Number(row.updated_at)
+      }));
+    } catch (error) {
+      logger.error('Error getting wallet profiles:', error);
+      throw error;
+    }
+  }
+
+  async getEvent(eventId: string): Promise<MarketEvent | null> {
+    try {
+      const result = await this.db.query(`
+        SELECT id, slug, title, neg_risk, market_ids, probability_sum, ${this.getEpochMsSQL('updated_at')} as updated_at
+        FROM events WHERE id = $1
+      `, [eventId]);
+
+      if (result.length === 0) return null;
+
+      const row = result[0];
+      return {
+        id: row.id,
+        slug: row.slug || undefined,
+        title: row.title,
+        negRisk: row.neg_risk === true || row.neg_risk === 1,
+        marketIds: typeof row.market_ids === 'string' ? JSON.parse(row.market_ids) : row.market_ids || [],
+        probabilitySum: row.probability_sum !== null && row.probability_sum !== undefined ? parseFloat(row.probability_sum) : undefined,
+        updatedAt: Number(row.updated_at)
+      };
+    } catch (error) {
+      logger.error(`Error getting event ${eventId}:`, error);
+      return null;
+    }
+  }
+
   // Analytics operations
   async getSignalAccuracy(signalType?: string, days: number = 30): Promise<{ total: number; validated: number; accuracy: number }> {
     try {
@@ -686,6 +1664,7 @@ export class DataAccessLayer {
         'orderbook_snapshots',
         'trade_ticks',
         'microstructure_metrics',
+        'flow_toxicity',
         'front_running_scores'
       ];
 
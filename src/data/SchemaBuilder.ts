@@ -95,6 +95,7 @@ export class SchemaBuilder {
         validated ${d.boolean()} DEFAULT ${this.boolValue(false)},
         validation_time ${d.timestamp()},
         outcome ${d.boolean()},
+        config_version ${d.varchar(64)},
         FOREIGN KEY (market_id) REFERENCES markets(id)
       );
 
@@ -248,6 +249,34 @@ export class SchemaBuilder {
         FOREIGN KEY (market_id) REFERENCES markets(id)
       );
 
+      -- Flow toxicity (VPIN), one row per completed volume bucket
+      CREATE TABLE IF NOT EXISTS flow_toxicity (
+        id ${d.serial()} PRIMARY KEY ${d.autoIncrement()},
+        market_id ${d.varchar(100)} NOT NULL,
+        timestamp ${d.timestamp()} NOT NULL,
+        vpin ${d.decimal()} NOT NULL,
+        buckets ${d.integer()} NOT NULL,
+        bucket_volume ${d.decimal()} NOT NULL,
+        last_bucket_imbalance ${d.decimal()},
+        FOREIGN KEY (market_id) REFERENCES markets(id)
+      );
+
+      -- Price impact (Kyle's lambda and Amihud illiquidity), one row per rolling estimate
+      CREATE TABLE IF NOT EXISTS price_impact_estimates (
+        id ${d.serial()} PRIMARY KEY ${d.autoIncrement()},
+        market_id ${d.varchar(100)} NOT NULL,
+        estimated_at ${d.timestamp()} NOT NULL,
+        kyle_lambda ${d.decimal()} NOT NULL,
+        lambda_t_stat ${d.decimal()},
+        r_squared ${d.decimal()},
+        amihud ${d.decimal()},
+        impact_bps_per_1k ${d.decimal()},
+        intervals ${d.integer()} NOT NULL,
+        window_start ${d.timestamp()} NOT NULL,
+        window_end ${d.timestamp()} NOT NULL,
+        FOREIGN KEY (market_id) REFERENCES markets(id)
+      );
+
       -- Front-running scores
       CREATE TABLE IF NOT EXISTS front_running_scores (
         id ${d.serial()} PRIMARY KEY ${d.autoIncrement()},
@@ -298,6 +327,248 @@ export class SchemaBuilder {
         FOREIGN KEY (market_id) REFERENCES markets(id)
       );
 
+      -- Paper trading positions opened from live signals
+      CREATE TABLE IF NOT EXISTS paper_positions (
+        id ${d.uuid()} PRIMARY KEY,
+        market_id ${d.varchar(100)} NOT NULL,
+        signal_type ${d.varchar(50)} NOT NULL,
+        signal_confidence ${d.decimal()} NOT NULL,
+        direction ${d.varchar(10)} NOT NULL CHECK (direction IN ('bullish', 'bearish')),
+        status ${d.varchar(10)} NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+
+        -- Entry (price includes slippage and impact, size is dollars committed)
+        entry_time ${d.timestamp()} NOT NULL,
+        entry_price ${d.decimal()} NOT NULL,
+        quantity ${d.decimal()} NOT NULL,
+        cost_basis ${d.decimal()} NOT NULL,
+        stop_loss_price ${d.decimal()},
+        take_profit_price ${d.decimal()},
+
+        -- Latest mark
+        mark_price ${d.decimal()},
+        unrealized_pnl ${d.decimal()} DEFAULT 0,
+        marked_at ${d.timestamp()},
+
+        -- Exit
+        exit_time ${d.timestamp()},
+        exit_price ${d.decimal()},
+        exit_reason ${d.varchar(20)},
+        realized_pnl ${d.decimal()},
+        fees ${d.decimal()} DEFAULT 0,
+
+        metadata ${d.jsonType()},
+        created_at ${d.timestamp()} DEFAULT ${d.currentTimestamp()},
+        updated_at ${d.timestamp()} DEFAULT ${d.currentTimestamp()},
+
+        FOREIGN KEY (market_id) REFERENCES markets(id)
+      );
+
+      -- Paper trading fills (one per entry/exit)
+      CREATE TABLE IF NOT EXISTS paper_fills (
+        id ${d.serial()} PRIMARY KEY ${d.autoIncrement()},
+        position_id ${d.uuid()} NOT NULL,
+        market_id ${d.varchar(100)} NOT NULL,
+        side ${d.varchar(4)} NOT NULL CHECK (side IN ('buy', 'sell')),
+        reason ${d.varchar(20)} NOT NULL,
+        timestamp ${d.timestamp()} NOT NULL,
+        reference_price ${d.decimal()} NOT NULL,
+        fill_price ${d.decimal()} NOT NULL,
+        quantity ${d.decimal()} NOT NULL,
+        notional ${d.decimal()} NOT NULL,
+        fee ${d.decimal()} NOT NULL,
+        slippage_bps ${d.decimal()} NOT NULL,
+        FOREIGN KEY (position_id) REFERENCES paper_positions(id)
+      );
+
+      -- Authoritative market resolutions polled from the Gamma API
+      CREATE TABLE IF NOT EXISTS market_resolutions (
+        market_id ${d.varchar(100)} PRIMARY KEY,
+        status ${d.varchar(10)} NOT NULL CHECK (status IN ('resolved', 'invalid')),
+        winning_outcome_index ${d.integer()},
+
+        -- Settlement payout per outcome (1/0 for a clean resolution, 1/n for invalid)
+        outcome_prices ${d.jsonType()} NOT NULL,
+        resolved_at ${d.timestamp()} NOT NULL,
+        source ${d.varchar(20)} NOT NULL,
+        signals_backfilled ${d.integer()} DEFAULT 0,
+
+        metadata ${d.jsonType()},
+        created_at ${d.timestamp()} DEFAULT ${d.currentTimestamp()},
+        updated_at ${d.timestamp()} DEFAULT ${d.currentTimestamp()},
+
+        FOREIGN KEY (market_id) REFERENCES markets(id)
+      );
+
+      -- Per-user alert subscriptions (destination plus filters)
+      CREATE TABLE IF NOT EXISTS alert_subscriptions (
+        id ${d.uuid()} PRIMARY KEY,
+        name ${d.varchar(100)} NOT NULL,
+
+        -- Notification sink settings (type plus url, bot token or SMTP settings)
+        destination ${d.jsonType()} NOT NULL,
+        filters ${d.jsonType()} NOT NULL,
+
+        cooldown_minutes ${d.integer()} NOT NULL DEFAULT 30,
+        max_per_hour ${d.integer()} NOT NULL DEFAULT 10,
+        enabled ${d.boolean()} DEFAULT ${this.boolValue(true)},
+
+        created_at ${d.timestamp()} DEFAULT ${d.currentTimestamp()},
+        updated_at ${d.timestamp()} DEFAULT ${d.currentTimestamp()}
+      );
+
+      -- Manual signal validations from the dashboard (latest label per signal)
+      CREATE TABLE IF NOT EXISTS signal_validations (
+        id ${d.uuid()} PRIMARY KEY,
+        signal_id ${d.integer()},
+        performance_id ${d.uuid()},
+        market_id ${d.varchar(100)} NOT NULL,
+        signal_type ${d.varchar(50)} NOT NULL,
+
+        correct ${d.boolean()} NOT NULL,
+        notes ${d.text()},
+        validated_by ${d.varchar(100)},
+        validated_at ${d.timestamp()} NOT NULL,
+
+        FOREIGN KEY (signal_id) REFERENCES signals(id),
+        FOREIGN KEY (performance_id) REFERENCES signal_performance(id)
+      );
+
+      -- Fitted score calibration curves (latest row per model is applied)
+      CREATE TABLE IF NOT EXISTS score_calibrations (
+        id ${d.serial()} PRIMARY KEY ${d.autoIncrement()},
+        model ${d.varchar(50)} NOT NULL,
+        method ${d.varchar(20)} NOT NULL CHECK (method IN ('isotonic', 'platt')),
+        curve ${d.jsonType()} NOT NULL,
+        sample_size ${d.integer()} NOT NULL,
+
+        -- In-sample Brier scores of the heuristic and the calibrated probabilities
+        uncalibrated_brier_score ${d.decimal()},
+        calibrated_brier_score ${d.decimal()},
+
+        fitted_at ${d.timestamp()} NOT NULL,
+        created_at ${d.timestamp()} DEFAULT ${d.currentTimestamp()}
+      );
+
+      -- Learned topic clustering: TF-IDF vocabulary of each fit (latest row is used)
+      CREATE TABLE IF NOT EXISTS topic_cluster_models (
+        id ${d.serial()} PRIMARY KEY ${d.autoIncrement()},
+        vocabulary ${d.jsonType()} NOT NULL,
+        document_count ${d.integer()} NOT NULL,
+        cluster_count ${d.integer()} NOT NULL,
+        similarity_threshold ${d.decimal()} NOT NULL,
+        fitted_at ${d.timestamp()} NOT NULL,
+        created_at ${d.timestamp()} DEFAULT ${d.currentTimestamp()}
+      );
+
+      -- Learned topic clusters (ids are carried over between fits when membership overlaps)
+      CREATE TABLE IF NOT EXISTS learned_topic_clusters (
+        id ${d.varchar(100)} PRIMARY KEY,
+        label ${d.varchar(200)} NOT NULL,
+        keywords ${d.jsonType()} NOT NULL,
+
+        -- Top terms of the normalized TF-IDF centroid, used to assign new markets
+        centroid ${d.jsonType()} NOT NULL,
+        market_count ${d.integer()} NOT NULL,
+
+        created_at ${d.timestamp()} DEFAULT ${d.currentTimestamp()},
+        updated_at ${d.timestamp()} DEFAULT ${d.currentTimestamp()}
+      );
+
+      CREATE TABLE IF NOT EXISTS market_topic_assignments (
+        market_id ${d.varchar(100)} PRIMARY KEY,
+        cluster_id ${d.varchar(100)} NOT NULL,
+        similarity ${d.decimal()} NOT NULL,
+        assigned_at ${d.timestamp()} NOT NULL,
+        FOREIGN KEY (cluster_id) REFERENCES learned_topic_clusters(id)
+      );
+
+      -- Gamma events grouping sibling markets (e.g. one binary market per candidate)
+      CREATE TABLE IF NOT EXISTS events (
+        id ${d.varchar(100)} PRIMARY KEY,
+        slug ${d.varchar(200)},
+        title ${d.text()} NOT NULL,
+        neg_risk ${d.boolean()} DEFAULT ${this.boolValue(false)},
+        market_ids ${d.jsonType()} NOT NULL,
+        market_count ${d.integer()} NOT NULL,
+
+        -- Sum of sibling Yes prices at the last update (1 for a fairly priced negRisk event)
+        probability_sum ${d.decimal()},
+
+        created_at ${d.timestamp()} DEFAULT ${d.currentTimestamp()},
+        updated_at ${d.timestamp()} DEFAULT ${d.currentTimestamp()}
+      );
+
+      -- Per-market analyzer state (ring buffers, EWMAs, distributions) restored on restart
+      CREATE TABLE IF NOT EXISTS analyzer_checkpoints (
+        component ${d.varchar(50)} NOT NULL,
+        market_id ${d.varchar(100)} NOT NULL,
+        state ${d.jsonType()} NOT NULL,
+        checkpoint_at ${d.timestamp()} NOT NULL,
+        PRIMARY KEY (component, market_id)
+      );
+
+      -- Trades attributed to wallets (data API or wallet trade file), side relative to outcome_index
+      CREATE TABLE IF NOT EXISTS wallet_trades (
+        trade_id ${d.varchar(150)} PRIMARY KEY,
+        market_id ${d.varchar(100)} NOT NULL,
+        wallet_address ${d.varchar(100)} NOT NULL,
+        timestamp ${d.timestamp()} NOT NULL,
+        outcome_index ${d.integer()} NOT NULL DEFAULT 0,
+        side ${d.varchar(4)} NOT NULL CHECK (side IN ('buy', 'sell')),
+        price ${d.decimal()} NOT NULL,
+        size ${d.decimal()} NOT NULL
+      );
+
+      -- Wallet track records from trades in resolved markets
+      CREATE TABLE IF NOT EXISTS wallet_profiles (
+        wallet_address ${d.varchar(100)} PRIMARY KEY,
+        resolved_markets ${d.integer()} NOT NULL,
+        winning_markets ${d.integer()} NOT NULL,
+        hit_rate ${d.decimal()} NOT NULL,
+        realized_pnl ${d.decimal()} NOT NULL,
+        resolved_volume ${d.decimal()} NOT NULL,
+        first_trade_at ${d.timestamp()},
+        last_trade_at ${d.timestamp()},
+        updated_at ${d.timestamp()} DEFAULT ${d.currentTimestamp()}
+      );
+
+      -- Why each signal fired and what alerting decided (inputs, thresholds, config version, alert checks)
+      CREATE TABLE IF NOT EXISTS signal_provenance (
+        signal_id ${d.integer()} PRIMARY KEY,
+        config_version ${d.varchar(64)} NOT NULL,
+        provenance ${d.jsonType()} NOT NULL,
+        should_alert ${d.boolean()},
+        blocked_by ${d.varchar(20)},
+        created_at ${d.timestamp()} DEFAULT ${d.currentTimestamp()},
+        updated_at ${d.timestamp()} DEFAULT ${d.currentTimestamp()},
+        FOREIGN KEY (signal_id) REFERENCES signals(id)
+      );
+
+      -- Signals dropped as duplicates or blocked by AlertManager, capped to the newest rows
+      CREATE TABLE IF NOT EXISTS signal_suppressions (
+        id ${d.serial()} PRIMARY KEY ${d.autoIncrement()},
+        market_id ${d.varchar(100)} NOT NULL,
+        signal_type ${d.varchar(50)} NOT NULL,
+        stage ${d.varchar(20)} NOT NULL,
+        reason ${d.varchar(20)} NOT NULL,
+        detail ${d.text()} NOT NULL,
+        confidence ${d.decimal()} NOT NULL,
+        adjusted_score ${d.decimal()},
+        priority ${d.varchar(10)},
+        question ${d.text()},
+        metadata ${d.jsonType()},
+        suppressed_at ${d.timestamp()} NOT NULL
+      );
+
+      -- Operator mutes and snoozes, restored into AlertManager on startup
+      CREATE TABLE IF NOT EXISTS market_suppressions (
+        market_id ${d.varchar(100)} PRIMARY KEY,
+        mode ${d.varchar(10)} NOT NULL CHECK (mode IN ('muted', 'snoozed')),
+        until_at ${d.timestamp()},
+        created_at ${d.timestamp()} NOT NULL,
+        created_by ${d.varchar(100)}
+      );
+
       -- Indexes for performance
       -- Market lookup indexes
       CREATE INDEX IF NOT EXISTS idx_markets_active ON markets(active, volume ${this.descKeyword()});
@@ -351,11 +622,52 @@ export class SchemaBuilder {
 
       -- Microstructure and analysis indexes
       CREATE INDEX IF NOT EXISTS idx_microstructure_market_time ON microstructure_metrics(market_id, timestamp ${this.descKeyword()});
+      CREATE INDEX IF NOT EXISTS idx_flow_toxicity_market_time ON flow_toxicity(market_id, timestamp ${this.descKeyword()});
+      CREATE INDEX IF NOT EXISTS idx_price_impact_market_time ON price_impact_estimates(market_id, estimated_at ${this.descKeyword()});
       CREATE INDEX IF NOT EXISTS idx_front_running_market_time ON front_running_scores(market_id, timestamp ${this.descKeyword()});
       CREATE INDEX IF NOT EXISTS idx_front_running_score ON front_running_scores(score ${this.descKeyword()}, timestamp ${this.descKeyword()});
       CREATE INDEX IF NOT EXISTS idx_backtest_results_date ON backtest_results(created_at ${this.descKeyword()});
       CREATE INDEX IF NOT EXISTS idx_anomaly_scores_market_time ON anomaly_scores(market_id, timestamp ${this.descKeyword()});
       CREATE INDEX IF NOT EXISTS idx_anomaly_scores_anomalous ON anomaly_scores(is_anomalous, timestamp ${this.descKeyword()});
+
+      -- Paper trading indexes
+      CREATE INDEX IF NOT EXISTS idx_paper_positions_status ON paper_positions(status, entry_time ${this.descKeyword()});
+      CREATE INDEX IF NOT EXISTS idx_paper_positions_exit_time ON paper_positions(exit_time ${this.descKeyword()});
+      CREATE INDEX IF NOT EXISTS idx_paper_fills_position ON paper_fills(position_id, timestamp);
+
+      -- Market resolution indexes
+      CREATE INDEX IF NOT EXISTS idx_market_resolutions_resolved_at ON market_resolutions(resolved_at ${this.descKeyword()});
+
+      -- Signal validation indexes
+      CREATE INDEX IF NOT EXISTS idx_signal_validations_signal ON signal_validations(signal_id);
+      CREATE INDEX IF NOT EXISTS idx_signal_validations_performance ON signal_validations(performance_id);
+      CREATE INDEX IF NOT EXISTS idx_signal_validations_type_time ON signal_validations(signal_type, validated_at ${this.descKeyword()});
+
+      -- Score calibration indexes
+      CREATE INDEX IF NOT EXISTS idx_score_calibrations_model ON score_calibrations(model, id ${this.descKeyword()});
+      CREATE INDEX IF NOT EXISTS idx_front_running_time ON front_running_scores(timestamp);
+
+      -- Learned topic indexes
+      CREATE INDEX IF NOT EXISTS idx_market_topic_assignments_cluster ON market_topic_assignments(cluster_id);
+
+      -- Event indexes
+      CREATE INDEX IF NOT EXISTS idx_events_updated ON events(updated_at ${this.descKeyword()});
+
+      -- Analyzer checkpoint indexes
+      CREATE INDEX IF NOT EXISTS idx_analyzer_checkpoints_time ON analyzer_checkpoints(checkpoint_at ${this.descKeyword()});
+
+      -- Wallet indexes
+      CREATE INDEX IF NOT EXISTS idx_wallet_trades_wallet ON wallet_trades(wallet_address, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_wallet_trades_market_time ON wallet_trades(market_id, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_wallet_profiles_pnl ON wallet_profiles(realized_pnl ${this.descKeyword()});
+
+      -- Signal provenance indexes
+      CREATE INDEX IF NOT EXISTS idx_signal_provenance_config ON signal_provenance(config_version);
+
+      -- Signal suppression indexes
+      CREATE INDEX IF NOT EXISTS idx_signal_suppressions_market_time ON signal_suppressions(market_id, suppressed_at ${this.descKeyword()});
+      CREATE INDEX IF NOT EXISTS idx_signal_suppressions_time ON signal_suppressions(suppressed_at ${this.descKeyword()});
+      CREATE INDEX IF NOT EXISTS idx_signal_suppressions_reason_time ON signal_suppressions(reason, suppressed_at ${this.descKeyword()});
     `.trim();
   }
 
@@ -2,6 +2,7 @@ import { Pool, PoolClient } from 'pg';
 import { Database } from 'sqlite3';
 import { createClient, RedisClientType } from 'redis';
 import { logger } from '../utils/logger';
+import { tracer } from '../monitoring/Tracer';
 import { getDialect, SQLDialect, convertParameters } from './DatabaseDialect';
 import { SchemaBuilder } from './SchemaBuilder';
 
@@ -141,6 +142,20 @@ export class DatabaseManager {
   }
 
   async query(text: string, params: any[] = []): Promise<any> {
+    // Writes made while handling a traced update are recorded as its spans
+    const write = /^\s*(INSERT|UPDATE|DELETE)\b(?:\s+(?:INTO|FROM))?\s+"?(\w+)/i.exec(text);
+    if (!write) {
+      return this.executeQuery(text, params);
+    }
+
+    return tracer.withChildSpan('db.write', () => this.executeQuery(text, params), {
+      'db.system': this.pgPool ? 'postgresql' : 'sqlite',
+      'db.operation': write[1].toUpperCase(),
+      'db.table': write[2]
+    });
+  }
+
+  private async executeQuery(text: string, params: any[]): Promise<any> {
     if (this.pgPool) {
       const client = await this.pgPool.connect();
       try {
@@ -169,6 +184,10 @@ export class DatabaseManager {
   }
 
   async transaction<T>(callback: (query: (text: string, params?: any[]) => Promise<any>) => Promise<T>): Promise<T> {
+    return tracer.withChildSpan('db.transaction', () => this.runTransaction(callback));
+  }
+
+  private async runTransaction<T>(callback: (query: (text: string, params?: any[]) => Promise<any>) => Promise<T>): Promise<T> {
     if (this.pgPool) {
       const client = await this.pgPool.connect();
       try {
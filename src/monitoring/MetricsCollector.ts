@@ -36,6 +36,40 @@ export interface SystemMetrics {
   };
 }
 
+export interface MetricSeries {
+  name: string;
+  tags: Record<string, string>;
+  value: number;
+}
+
+export interface HistogramSeries {
+  name: string;
+  tags: Record<string, string>;
+  buckets: Array<{ le: number; count: number }>; // Cumulative, ascending upper bounds
+  sum: number;
+  count: number;
+}
+
+/**
+ * Every counter, gauge and histogram with its tags, for exposition
+ */
+export interface MetricsSnapshot {
+  counters: MetricSeries[];
+  gauges: MetricSeries[];
+  histograms: HistogramSeries[];
+}
+
+interface HistogramState {
+  bounds: number[];
+  bucketCounts: number[];     // Per bound, not cumulative
+  sum: number;
+  count: number;
+}
+
+// Upper bounds for histograms without their own; durations are in milliseconds
+const DURATION_BUCKETS = [1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000];
+const DEFAULT_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 0.75, 0.9, 1, 2.5, 5, 10, 25, 50, 100, 250, 500, 1000];
+
 export interface MetricThreshold {
   metric: string;
   warning: number;
@@ -54,6 +88,9 @@ export class MetricsCollector {
   private counters = new Map<string, number>();
   private gauges = new Map<string, number>();
   private histograms = new Map<string, number[]>();
+  private histogramStates = new Map<string, HistogramState>();
+  private histogramBounds = new Map<string, number[]>();
+  private seriesTags = new Map<string, { name: string; tags: Record<string, string> }>();
   
   // Thresholds for alerting
   private thresholds: MetricThreshold[] = [
@@ -112,7 +149,7 @@ export class MetricsCollector {
    * Increment a counter metric
    */
   incrementCounter(name: string, value: number = 1, tags?: Record<string, string>): void {
-    const key = this.createMetricKey(name, tags);
+    const key = this.trackSeries(name, tags);
     this.counters.set(key, (this.counters.get(key) || 0) + value);
     
     advancedLogger.recordMetric({
@@ -128,7 +165,7 @@ export class MetricsCollector {
    * Set a gauge metric
    */
   setGauge(name: string, value: number, tags?: Record<string, string>): void {
-    const key = this.createMetricKey(name, tags);
+    const key = this.trackSeries(name, tags);
     this.gauges.set(key, value);
     
     advancedLogger.recordMetric({
@@ -144,7 +181,7 @@ export class MetricsCollector {
    * Record a histogram value (for response times, etc.)
    */
   recordHistogram(name: string, value: number, tags?: Record<string, string>): void {
-    const key = this.createMetricKey(name, tags);
+    const key = this.trackSeries(name, tags);
     if (!this.histograms.has(key)) {
       this.histograms.set(key, []);
     }
@@ -156,6 +193,18 @@ export class MetricsCollector {
     if (values.length > 1000) {
       values.shift();
     }
+
+    // Lifetime bucket counts for exposition
+    let state = this.histogramStates.get(key);
+    if (!state) {
+      const bounds = this.histogramBounds.get(name) || (this.getMetricUnit(name) === 'ms' ? DURATION_BUCKETS : DEFAULT_BUCKETS);
+      state = { bounds, bucketCounts: new Array(bounds.length).fill(0), sum: 0, count: 0 };
+      this.histogramStates.set(key, state);
+    }
+    const bucket = state.bounds.findIndex(bound => value <= bound);
+    if (bucket >= 0) state.bucketCounts[bucket]++;
+    state.sum += value;
+    state.count++;
     
     advancedLogger.recordMetric({
       name,
@@ -166,6 +215,36 @@ export class MetricsCollector {
     });
   }
 
+  /**
+   * Use these bucket upper bounds for a histogram; applies to series first recorded afterwards
+   */
+  setHistogramBuckets(name: string, bounds: number[]): void {
+    this.histogramBounds.set(name, [...bounds].sort((a, b) => a - b));
+  }
+
+  /**
+   * Current value of every counter, gauge and histogram series
+   */
+  getSnapshot(): MetricsSnapshot {
+    const series = (values: Map<string, number>): MetricSeries[] =>
+      Array.from(values.entries()).map(([key, value]) => ({ ...this.seriesTags.get(key)!, value }));
+
+    const histograms = Array.from(this.histogramStates.entries()).map(([key, state]) => {
+      let cumulative = 0;
+      return {
+        ...this.seriesTags.get(key)!,
+        buckets: state.bounds.map((le, i) => {
+          cumulative += state.bucketCounts[i];
+          return { le, count: cumulative };
+        }),
+        sum: state.sum,
+        count: state.count
+      };
+    });
+
+    return { counters: series(this.counters), gauges: series(this.gauges), histograms };
+  }
+
   /**
    * Record signal detection metrics
    */
@@ -519,6 +598,14 @@ export class MetricsCollector {
     return operations / Math.max(1, recentMetrics.length);
   }
 
+  private trackSeries(name: string, tags?: Record<string, string>): string {
+    const key = this.createMetricKey(name, tags);
+    if (!this.seriesTags.has(key)) {
+      this.seriesTags.set(key, { name, tags: { ...tags } });
+    }
+    return key;
+  }
+
   private createMetricKey(name: string, tags?: Record<string, string>): string {
     if (!tags) return name;
     const tagString = Object.entries(tags)
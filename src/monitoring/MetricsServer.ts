@@ -0,0 +1,99 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { PROMETHEUS_CONTENT_TYPE, renderPrometheusMetrics } from './PrometheusExporter';
+import { advancedLogger } from '../utils/AdvancedLogger';
+
+export interface MetricsServerConfig {
+  port: number;
+  host: string;
+  path: string;
+  authToken?: string;           // Bearer token scrapers must send, when set
+}
+
+const DEFAULT_CONFIG: MetricsServerConfig = {
+  port: 9464,
+  host: '0.0.0.0',
+  path: '/metrics'
+};
+
+/**
+ * Standalone Prometheus scrape endpoint
+ *
+ * Serves the MetricsCollector in text exposition format without the web
+ * dashboard, so metrics can be scraped whether or not the dashboard runs.
+ */
+export class MetricsServer {
+  private config: MetricsServerConfig;
+  private server?: Server;
+
+  constructor(config: Partial<MetricsServerConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  async start(): Promise<void> {
+    if (this.server) return;
+
+    const server = createServer((req, res) => this.handleRequest(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.config.port, this.config.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+
+    advancedLogger.info(`Metrics endpoint listening on ${this.config.host}:${this.getPort()}${this.config.path}`, {
+      component: 'metrics_server',
+      operation: 'start',
+      metadata: { port: this.getPort(), path: this.config.path, authEnabled: !!this.config.authToken }
+    });
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = undefined;
+
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    advancedLogger.info('Metrics endpoint stopped', {
+      component: 'metrics_server',
+      operation: 'stop'
+    });
+  }
+
+  /**
+   * Port actually bound (differs from the configured one when that is 0)
+   */
+  getPort(): number {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : this.config.port;
+  }
+
+  private handleRequest(req: IncomingMessage, res: ServerResponse): void {
+    const path = (req.url || '').split('?')[0];
+    if (req.method !== 'GET' || path !== this.config.path) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not found\n');
+      return;
+    }
+
+    if (this.config.authToken && req.headers.authorization !== `Bearer ${this.config.authToken}`) {
+      res.writeHead(401, { 'Content-Type': 'text/plain' });
+      res.end('Unauthorized\n');
+      return;
+    }
+
+    try {
+      const body = renderPrometheusMetrics();
+      res.writeHead(200, { 'Content-Type': PROMETHEUS_CONTENT_TYPE });
+      res.end(body);
+    } catch (error) {
+      advancedLogger.error('Error rendering metrics', error as Error, {
+        component: 'metrics_server',
+        operation: 'render_metrics'
+      });
+      res.writeHead(500, { 'Content-Type': 'text/plain' });
+      res.end('Error rendering metrics\n');
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { metricsCollector, MetricsSnapshot, MetricSeries } from './MetricsCollector';
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export interface PrometheusOptions {
+  prefix: string;               // Namespace for the bot's own metrics
+  includeProcessMetrics: boolean;
+}
+
+const DEFAULT_OPTIONS: PrometheusOptions = {
+  prefix: 'polybot_',
+  includeProcessMetrics: true
+};
+
+const processStartTime = Date.now() - process.uptime() * 1000;
+
+/**
+ * Metric name in Prometheus form: dots and other invalid characters become
+ * underscores, e.g. signals.generated -> polybot_signals_generated
+ */
+export function toPrometheusName(name: string, prefix: string = DEFAULT_OPTIONS.prefix): string {
+  const sanitized = `${prefix}${name}`.replace(/[^a-zA-Z0-9_:]/g, '_');
+  return /^[0-9]/.test(sanitized) ? `_${sanitized}` : sanitized;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function formatLabels(tags: Record<string, string>, extra: Record<string, string> = {}): string {
+  const entries = Object.entries({ ...tags, ...extra });
+  if (entries.length === 0) return '';
+
+  const labels = entries.map(([key, value]) => {
+    const name = key.replace(/[^a-zA-Z0-9_]/g, '_').replace(/^([0-9])/, '_$1');
+    const escaped = String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+    return `${name}="${escaped}"`;
+  });
+  return `{${labels.join(',')}}`;
+}
+
+// Group series by exposed name so each family gets one HELP and TYPE line
+function groupByName<T extends { name: string }>(series: T[], exposedName: (name: string) => string): Map<string, T[]> {
+  const families = new Map<string, T[]>();
+  for (const entry of series) {
+    const name = exposedName(entry.name);
+    if (!families.has(name)) families.set(name, []);
+    families.get(name)!.push(entry);
+  }
+  return families;
+}
+
+function renderSimpleFamilies(lines: string[], series: MetricSeries[], type: 'counter' | 'gauge', exposedName: (name: string) => string): void {
+  for (const [name, entries] of groupByName(series, exposedName)) {
+    lines.push(`# HELP ${name} ${entries[0].name}`);
+    lines.push(`# TYPE ${name} ${type}`);
+    for (const entry of entries) {
+      lines.push(`${name}${formatLabels(entry.tags)} ${formatValue(entry.value)}`);
+    }
+  }
+}
+
+function renderProcessMetrics(lines: string[]): void {
+  const cpu = process.cpuUsage();
+  const memory = process.memoryUsage();
+  const eventLoopLagMs = metricsCollector.getCurrentMetrics()?.system.eventLoop.lag;
+
+  const metric = (name: string, type: 'counter' | 'gauge', help: string, value: number, labels: Record<string, string> = {}) => {
+    lines.push(`# HELP ${name} ${help}`);
+    lines.push(`# TYPE ${name} ${type}`);
+    lines.push(`${name}${formatLabels(labels)} ${formatValue(value)}`);
+  };
+
+  metric('process_cpu_user_seconds_total', 'counter', 'Total user CPU time spent in seconds.', cpu.user / 1e6);
+  metric('process_cpu_system_seconds_total', 'counter', 'Total system CPU time spent in seconds.', cpu.system / 1e6);
+  metric('process_cpu_seconds_total', 'counter', 'Total user and system CPU time spent in seconds.', (cpu.user + cpu.system) / 1e6);
+  metric('process_resident_memory_bytes', 'gauge', 'Resident memory size in bytes.', memory.rss);
+  metric('process_start_time_seconds', 'gauge', 'Start time of the process since unix epoch in seconds.', Math.floor(processStartTime / 1000));
+  metric('nodejs_heap_size_used_bytes', 'gauge', 'Process heap size used from Node.js in bytes.', memory.heapUsed);
+  metric('nodejs_heap_size_total_bytes', 'gauge', 'Process heap size from Node.js in bytes.', memory.heapTotal);
+  metric('nodejs_external_memory_bytes', 'gauge', 'Node.js external memory size in bytes.', memory.external);
+  if (eventLoopLagMs !== undefined) {
+    metric('nodejs_eventloop_lag_seconds', 'gauge', 'Event loop lag at the last metrics collection in seconds.', eventLoopLagMs / 1000);
+  }
+  metric('nodejs_version_info', 'gauge', 'Node.js version info.', 1, { version: process.version });
+}
+
+/**
+ * Render a metrics snapshot in the Prometheus text exposition format.
+ * Counters get a _total suffix; histograms are exposed as cumulative
+ * _bucket series with _sum and _count.
+ */
+export function renderPrometheusMetrics(
+  snapshot: MetricsSnapshot = metricsCollector.getSnapshot(),
+  options: Partial<PrometheusOptions> = {}
+): string {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const lines: string[] = [];
+
+  renderSimpleFamilies(lines, snapshot.counters, 'counter', name => {
+    const exposed = toPrometheusName(name, opts.prefix);
+    return exposed.endsWith('_total') ? exposed : `${exposed}_total`;
+  });
+  renderSimpleFamilies(lines, snapshot.gauges, 'gauge', name => toPrometheusName(name, opts.prefix));
+
+  for (const [name, entries] of groupByName(snapshot.histograms, entryName => toPrometheusName(entryName, opts.prefix))) {
+    lines.push(`# HELP ${name} ${entries[0].name}`);
+    lines.push(`# TYPE ${name} histogram`);
+    for (const entry of entries) {
+      for (const bucket of entry.buckets) {
+        lines.push(`${name}_bucket${formatLabels(entry.tags, { le: formatValue(bucket.le) })} ${bucket.count}`);
+      }
+      lines.push(`${name}_bucket${formatLabels(entry.tags, { le: '+Inf' })} ${entry.count}`);
+      lines.push(`${name}_sum${formatLabels(entry.tags)} ${formatValue(entry.sum)}`);
+      lines.push(`${name}_count${formatLabels(entry.tags)} ${entry.count}`);
+    }
+  }
+
+  if (opts.includeProcessMetrics) {
+    renderProcessMetrics(lines);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
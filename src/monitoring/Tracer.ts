@@ -0,0 +1,310 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import fetch from 'node-fetch';
+import { logger } from '../utils/logger';
+
+export type SpanAttributeValue = string | number | boolean;
+
+export interface TracerConfig {
+  exporter: 'none' | 'file' | 'otlp';
+  filePath: string;             // Newline-delimited OTLP/JSON export requests
+  otlpEndpoint: string;         // Collector base URL; spans are posted to <endpoint>/v1/traces
+  serviceName: string;
+  sampleRatio: number;          // Share of root spans recorded; children follow their root
+  flushIntervalMs: number;
+  maxQueueSize: number;         // Finished spans buffered between flushes; oldest dropped beyond this
+}
+
+export interface FinishedSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  startTimeUnixNano: bigint;
+  endTimeUnixNano: bigint;
+  attributes: Record<string, SpanAttributeValue>;
+  status: { code: 'ok' | 'error'; message?: string };
+}
+
+const DEFAULT_CONFIG: TracerConfig = {
+  exporter: 'none',
+  filePath: path.join(process.cwd(), 'logs', 'traces.jsonl'),
+  otlpEndpoint: 'http://localhost:4318',
+  serviceName: 'poly-early-bot',
+  sampleRatio: 1,
+  flushIntervalMs: 5000,
+  maxQueueSize: 2048
+};
+
+// Wall-clock nanoseconds from a monotonic clock anchored once at startup
+const epochOffsetNanos = BigInt(Date.now()) * 1000000n - process.hrtime.bigint();
+const nowNanos = (): bigint => process.hrtime.bigint() + epochOffsetNanos;
+
+/**
+ * One timed stage of a trace. Ended by the tracer when its callback finishes.
+ */
+export class Span {
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly parentSpanId?: string;
+  readonly name: string;
+  readonly sampled: boolean;
+  private readonly startTime = nowNanos();
+  private readonly attributes: Record<string, SpanAttributeValue> = {};
+  private status: FinishedSpan['status'] = { code: 'ok' };
+  private ended = false;
+
+  constructor(name: string, traceId: string, parentSpanId: string | undefined, sampled: boolean) {
+    this.name = name;
+    this.traceId = traceId;
+    this.parentSpanId = parentSpanId;
+    this.sampled = sampled;
+    this.spanId = randomBytes(8).toString('hex');
+  }
+
+  setAttribute(key: string, value: SpanAttributeValue | undefined): this {
+    if (value !== undefined) this.attributes[key] = value;
+    return this;
+  }
+
+  setAttributes(attributes: Record<string, SpanAttributeValue | undefined>): this {
+    for (const [key, value] of Object.entries(attributes)) this.setAttribute(key, value);
+    return this;
+  }
+
+  recordError(error: Error): this {
+    this.status = { code: 'error', message: error.message };
+    this.attributes['exception.type'] = error.name;
+    this.attributes['exception.message'] = error.message;
+    return this;
+  }
+
+  /**
+   * Returns the finished span, or null if it was already ended
+   */
+  end(): FinishedSpan | null {
+    if (this.ended) return null;
+    this.ended = true;
+    return {
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      startTimeUnixNano: this.startTime,
+      endTimeUnixNano: nowNanos(),
+      attributes: { ...this.attributes },
+      status: { ...this.status }
+    };
+  }
+}
+
+function toOtlpValue(value: SpanAttributeValue): Record<string, any> {
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  return { stringValue: value };
+}
+
+/**
+ * Wrap finished spans in an OTLP/JSON ExportTraceServiceRequest
+ */
+export function toOtlpJson(spans: FinishedSpan[], serviceName: string): Record<string, any> {
+  return {
+    resourceSpans: [{
+      resource: {
+        attributes: [{ key: 'service.name', value: { stringValue: serviceName } }]
+      },
+      scopeSpans: [{
+        scope: { name: 'poly-early-bot.tracer' },
+        spans: spans.map(span => ({
+          traceId: span.traceId,
+          spanId: span.spanId,
+          ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+          name: span.name,
+          kind: span.parentSpanId ? 1 : 2, // INTERNAL below the root, which handles an incoming update (SERVER)
+          startTimeUnixNano: span.startTimeUnixNano.toString(),
+          endTimeUnixNano: span.endTimeUnixNano.toString(),
+          attributes: Object.entries(span.attributes).map(([key, value]) => ({ key, value: toOtlpValue(value) })),
+          status: span.status.code === 'error'
+            ? { code: 2, message: span.status.message }
+            : { code: 1 }
+        }))
+      }]
+    }]
+  };
+}
+
+/**
+ * Signal pipeline tracing
+ *
+ * Each market update or polling cycle starts a trace; stages run inside
+ * withSpan() and become child spans of whatever span is active, carried across
+ * awaits by AsyncLocalStorage. Spans of sampled traces are buffered and
+ * exported as OTLP/JSON to a file or an OpenTelemetry collector. With the
+ * exporter off, traces still get ids so logs can be correlated.
+ */
+export class Tracer {
+  private config: TracerConfig;
+  private storage = new AsyncLocalStorage<Span>();
+  private queue: FinishedSpan[] = [];
+  private droppedSpans = 0;
+  private flushTimer?: NodeJS.Timeout;
+  private flushing?: Promise<void>;
+
+  constructor(config: Partial<TracerConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.scheduleFlush();
+  }
+
+  configure(config: Partial<TracerConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.scheduleFlush();
+  }
+
+  /**
+   * Run fn inside a span: a child of the active span, or the root of a new trace.
+   * The span ends when fn returns or its promise settles; errors mark it failed.
+   */
+  withSpan<T>(name: string, fn: (span: Span) => T, attributes: Record<string, SpanAttributeValue | undefined> = {}): T {
+    const parent = this.storage.getStore();
+    const span = parent
+      ? new Span(name, parent.traceId, parent.spanId, parent.sampled)
+      : new Span(name, randomBytes(16).toString('hex'), undefined, Math.random() < this.config.sampleRatio);
+    span.setAttributes(attributes);
+
+    return this.storage.run(span, () => {
+      let result: T;
+      try {
+        result = fn(span);
+      } catch (error) {
+        this.finish(span.recordError(error as Error));
+        throw error;
+      }
+
+      if (result instanceof Promise) {
+        return result.then(
+          value => {
+            this.finish(span);
+            return value;
+          },
+          error => {
+            this.finish(span.recordError(error as Error));
+            throw error;
+          }
+        ) as T;
+      }
+
+      this.finish(span);
+      return result;
+    });
+  }
+
+  /**
+   * Like withSpan, but only inside an existing trace; otherwise fn runs untraced
+   */
+  withChildSpan<T>(name: string, fn: (span?: Span) => T, attributes: Record<string, SpanAttributeValue | undefined> = {}): T {
+    return this.storage.getStore() ? this.withSpan(name, fn, attributes) : fn();
+  }
+
+  getActiveSpan(): Span | undefined {
+    return this.storage.getStore();
+  }
+
+  getCurrentTraceId(): string | undefined {
+    return this.storage.getStore()?.traceId;
+  }
+
+  isExporting(): boolean {
+    return this.config.exporter !== 'none';
+  }
+
+  getStats(): { queued: number; dropped: number; exporter: TracerConfig['exporter'] } {
+    return { queued: this.queue.length, dropped: this.droppedSpans, exporter: this.config.exporter };
+  }
+
+  /**
+   * Export buffered spans now
+   */
+  async flush(): Promise<void> {
+    if (this.flushing) await this.flushing;
+    if (this.queue.length === 0 || this.config.exporter === 'none') return;
+
+    const spans = this.queue;
+    this.queue = [];
+    const payload = JSON.stringify(toOtlpJson(spans, this.config.serviceName));
+
+    this.flushing = this.export(payload)
+      .catch(error => {
+        logger.warn(`Failed to export ${spans.length} spans: ${(error as Error).message}`);
+      })
+      .finally(() => {
+        this.flushing = undefined;
+      });
+    await this.flushing;
+  }
+
+  /**
+   * Flush and stop the export timer
+   */
+  async shutdown(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    await this.flush();
+  }
+
+  private finish(span: Span): void {
+    const finished = span.end();
+    if (!finished || !span.sampled || this.config.exporter === 'none') return;
+
+    this.queue.push(finished);
+    if (this.queue.length > this.config.maxQueueSize) {
+      this.queue.shift();
+      this.droppedSpans++;
+    }
+  }
+
+  private async export(payload: string): Promise<void> {
+    if (this.config.exporter === 'file') {
+      await fs.promises.mkdir(path.dirname(this.config.filePath), { recursive: true });
+      await fs.promises.appendFile(this.config.filePath, `${payload}\n`);
+      return;
+    }
+
+    const response = await fetch(`${this.config.otlpEndpoint.replace(/\/$/, '')}/v1/traces`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: payload
+    });
+    if (!response.ok) {
+      throw new Error(`Collector responded ${response.status}`);
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) clearInterval(this.flushTimer);
+    this.flushTimer = undefined;
+    if (this.config.exporter === 'none') return;
+
+    this.flushTimer = setInterval(() => {
+      this.flush().catch(() => undefined);
+    }, this.config.flushIntervalMs);
+    this.flushTimer.unref();
+  }
+}
+
+function configFromEnv(): Partial<TracerConfig> {
+  const config: Partial<TracerConfig> = {};
+  const exporter = process.env.TRACING_EXPORTER;
+  if (exporter === 'file' || exporter === 'otlp' || exporter === 'none') config.exporter = exporter;
+  if (process.env.TRACING_FILE) config.filePath = process.env.TRACING_FILE;
+  if (process.env.OTEL_EXPORTER_OTLP_ENDPOINT) config.otlpEndpoint = process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+  if (process.env.OTEL_SERVICE_NAME) config.serviceName = process.env.OTEL_SERVICE_NAME;
+  if (process.env.TRACING_SAMPLE_RATIO) config.sampleRatio = parseFloat(process.env.TRACING_SAMPLE_RATIO);
+  return config;
+}
+
+// Singleton instance
+export const tracer = new Tracer(configFromEnv());
@@ -1,20 +1,41 @@
-import { Market, EarlySignal, AlertPriority, MarketTier } from '../types';
+import { Market, EarlySignal, AlertPriority, MarketTier, AlertCheck, SuppressedSignal, MarketSuppression } from '../types';
 import { logger } from '../utils/logger';
 import { advancedLogger } from '../utils/AdvancedLogger';
 import { metricsCollector } from '../monitoring/MetricsCollector';
+import { tracer } from '../monitoring/Tracer';
 import { configManager } from '../config/ConfigManager';
+import { AlertSubscription, matchSubscriptionFilters } from './AlertSubscriptionService';
+import type { HumanLabeledStats } from './SignalPerformanceTracker';
+
+export type AlertGate = 'disabled' | 'muted' | 'snoozed' | 'quality' | 'tier' | 'rate_limit' | 'cooldown';
+
+// Human-labeled precision below this scales a signal type's score down,
+// once the type has enough labels to be judged
+const HUMAN_PRECISION_THRESHOLD = 0.5;
+const HUMAN_PRECISION_MIN_LABELS = 10;
+const MIN_SIGNAL_TYPE_WEIGHT = 0.5;
 
 export interface AlertDecision {
   shouldAlert: boolean;
   priority: AlertPriority;
   reason: string;
   adjustedScore: number;
+  blockedBy?: AlertGate; // Set when shouldAlert is false
   rateLimitStatus: {
     allowed: boolean;
     hourlyCount: number;
     maxPerHour: number;
     cooldownRemaining: number;
   };
+  checks?: AlertCheck[]; // Each gate evaluated, in order, up to the one that blocked
+}
+
+export interface SubscriptionDecision {
+  subscription: AlertSubscription;
+  shouldAlert: boolean;
+  reason: string;
+  hourlyCount: number;
+  cooldownRemaining: number; // Minutes
 }
 
 export interface AlertRecord {
@@ -24,6 +45,8 @@ export interface AlertRecord {
   opportunityScore: number;
   timestamp: number;
   notificationSent: boolean;
+  acknowledgedAt?: number;   // Kept with the in-memory history, so lost on restart
+  acknowledgedBy?: string;
 }
 
 export interface AlertStats {
@@ -45,12 +68,21 @@ export interface AlertStats {
  * - Per-priority rate limiting
  * - Market-level cooldown tracking
  * - Quality filtering
+ * - Signal type down-weighting from human-labeled precision
+ * - Operator acknowledge, snooze and mute actions
+ * - Per-subscription fan-out with independent cooldowns and hourly caps
  * - Comprehensive metrics and observability
  */
 export class AlertManager {
   private alertHistory: Map<string, AlertRecord[]>;
   private hourlyAlertCounts: Map<AlertPriority, { count: number; resetTime: number }>;
   private marketCooldowns: Map<string, Map<AlertPriority, number>>; // marketId -> priority -> lastAlertTime
+  private subscriptionCooldowns: Map<string, Map<string, number>> = new Map(); // subscriptionId -> marketId -> lastAlertTime
+  private subscriptionHourlyCounts: Map<string, { count: number; resetTime: number }> = new Map();
+  private marketSuppressions: Map<string, MarketSuppression> = new Map();
+  private signalTypeWeights: Map<string, number> = new Map();
+  private onSuppressedHandler: ((suppressed: SuppressedSignal) => void) | null = null;
+  private onMarketSuppressionHandler: ((marketId: string, suppression: MarketSuppression | null) => void) | null = null;
   private readonly config;
 
   constructor() {
@@ -91,39 +123,110 @@ export class AlertManager {
    * Evaluate whether to send an alert for a signal and determine its priority
    */
   evaluateAlert(signal: EarlySignal): AlertDecision {
+    return tracer.withSpan('alert_manager.evaluate_alert', span => {
+      const decision = this.decideAlert(signal);
+      span.setAttributes({
+        'alert.should_alert': decision.shouldAlert,
+        'alert.priority': decision.priority,
+        'alert.adjusted_score': decision.adjustedScore,
+        'alert.blocked_by': decision.blockedBy,
+        'alert.reason': decision.reason
+      });
+      if (!decision.shouldAlert && decision.blockedBy) {
+        this.reportSuppressed(signal, decision, decision.blockedBy);
+      }
+      return decision;
+    }, { 'market.id': signal.marketId, 'signal.type': signal.signalType });
+  }
+
+  /**
+   * Receive signals blocked from the shared alert channels, with the gate that blocked them
+   */
+  onSuppressed(handler: (suppressed: SuppressedSignal) => void): void {
+    this.onSuppressedHandler = handler;
+  }
+
+  private reportSuppressed(signal: EarlySignal, decision: AlertDecision, reason: AlertGate): void {
+    this.onSuppressedHandler?.({
+      marketId: signal.marketId,
+      signalType: signal.signalType,
+      stage: 'alert_manager',
+      reason,
+      detail: decision.reason,
+      confidence: signal.confidence,
+      adjustedScore: decision.adjustedScore,
+      priority: decision.priority,
+      question: signal.market?.question,
+      metadata: signal.metadata,
+      suppressedAt: Date.now()
+    });
+  }
+
+  private decideAlert(signal: EarlySignal): AlertDecision {
     const market = signal.market;
     const config = this.config;
+    const checks: AlertCheck[] = [];
 
     // Check if system is enabled
     if (!config.enabled) {
-      return this.createDecision(false, AlertPriority.LOW, 'Alert system disabled', 0);
+      checks.push({ check: 'enabled', passed: false, detail: 'Alert prioritization disabled in config' });
+      return this.createDecision(false, AlertPriority.LOW, 'Alert system disabled', 0, checks, 'disabled');
+    }
+
+    // Operator mutes and snoozes apply to shared channels and subscriptions alike
+    const suppression = this.getMarketSuppression(market.id);
+    if (suppression) {
+      const reason = suppression.mode === 'muted'
+        ? 'Market muted'
+        : `Market snoozed: ${Math.ceil((suppression.until! - Date.now()) / (60 * 1000))}min remaining`;
+      checks.push({ check: 'suppression', passed: false, detail: `${reason}${suppression.createdBy ? ` by ${suppression.createdBy}` : ''}` });
+      metricsCollector.incrementCounter(`alerts.${suppression.mode}`);
+      return this.createDecision(false, AlertPriority.LOW, reason, market.opportunityScore || 0, checks, suppression.mode);
     }
+    checks.push({ check: 'suppression', passed: true, detail: 'Market not muted or snoozed' });
 
     // Apply quality filters
     const qualityCheck = this.checkQualityFilters(market);
+    checks.push({ check: 'quality', passed: qualityCheck.passed, detail: qualityCheck.reason });
     if (!qualityCheck.passed) {
-      return this.createDecision(false, AlertPriority.LOW, qualityCheck.reason, market.opportunityScore || 0);
+      return this.createDecision(false, AlertPriority.LOW, qualityCheck.reason, market.opportunityScore || 0, checks, 'quality');
     }
 
-    // Calculate adjusted score (base score + tier adjustment)
-    const adjustedScore = this.calculateAdjustedScore(market);
+    // Calculate adjusted score (base score + tier adjustment, scaled by signal type weight)
+    const tierScore = this.calculateAdjustedScore(market);
+    const signalTypeWeight = this.getSignalTypeWeight(signal.signalType);
+    const adjustedScore = Math.round(tierScore * signalTypeWeight);
+    checks.push({
+      check: 'score',
+      passed: true,
+      detail: `Opportunity score ${market.opportunityScore || 0}, tier-adjusted ${tierScore}, ${signal.signalType} weight ${signalTypeWeight} -> ${adjustedScore}`
+    });
 
     // Assign priority based on adjusted score
     const priority = this.assignPriority(adjustedScore);
+    const { critical, high, medium } = config.thresholds;
+    checks.push({
+      check: 'priority',
+      passed: true,
+      detail: `Score ${adjustedScore} -> ${priority} (critical >= ${critical}, high >= ${high}, medium >= ${medium})`
+    });
 
     // Check tier-specific minimum priority
     const tierMinPriority = this.getTierMinimumPriority(market.tier);
     if (this.priorityLessThan(priority, tierMinPriority)) {
-      return this.createDecision(
-        false,
-        priority,
-        `Priority ${priority} below tier minimum ${tierMinPriority}`,
-        adjustedScore
-      );
+      const reason = `Priority ${priority} below tier minimum ${tierMinPriority}`;
+      checks.push({ check: 'tier', passed: false, detail: reason });
+      return this.createDecision(false, priority, reason, adjustedScore, checks, 'tier');
     }
+    checks.push({ check: 'tier', passed: true, detail: `Priority ${priority} meets tier minimum ${tierMinPriority}` });
 
     // Check rate limits
     const rateLimitStatus = this.checkRateLimits(market.id, priority);
+    checks.push({
+      check: 'rate_limit',
+      passed: rateLimitStatus.allowed,
+      detail: `${rateLimitStatus.hourlyCount}/${rateLimitStatus.maxPerHour} ${priority} alerts this hour`
+    });
     if (!rateLimitStatus.allowed) {
       metricsCollector.incrementCounter('alerts.rate_limited');
       return {
@@ -131,25 +234,32 @@ export class AlertManager {
         priority,
         reason: `Rate limit exceeded: ${rateLimitStatus.hourlyCount}/${rateLimitStatus.maxPerHour} per hour`,
         adjustedScore,
-        rateLimitStatus
+        blockedBy: 'rate_limit',
+        rateLimitStatus,
+        checks
       };
     }
 
     // Check market-specific cooldown
     const cooldownCheck = this.checkMarketCooldown(market.id, priority);
     if (!cooldownCheck.allowed) {
+      const reason = `Market cooldown active: ${Math.round(cooldownCheck.remainingMinutes)}min remaining`;
+      checks.push({ check: 'cooldown', passed: false, detail: reason });
       metricsCollector.incrementCounter('alerts.cooldown_active');
       return {
         shouldAlert: false,
         priority,
-        reason: `Market cooldown active: ${Math.round(cooldownCheck.remainingMinutes)}min remaining`,
+        reason,
         adjustedScore,
+        blockedBy: 'cooldown',
         rateLimitStatus: {
           ...rateLimitStatus,
           cooldownRemaining: cooldownCheck.remainingMinutes
-        }
+        },
+        checks
       };
     }
+    checks.push({ check: 'cooldown', passed: true, detail: `No ${priority} alert for this market within its cooldown` });
 
     // All checks passed - alert should be sent
     return {
@@ -160,8 +270,217 @@ export class AlertManager {
       rateLimitStatus: {
         ...rateLimitStatus,
         cooldownRemaining: 0
+      },
+      checks
+    };
+  }
+
+  /**
+   * Fan a decision out to subscriptions.
+   *
+   * Subscriptions see every signal that passed the quality and tier checks; the
+   * global hourly limit and market cooldown only apply to the shared channels,
+   * each subscription has its own.
+   */
+  evaluateSubscriptions(
+    signal: EarlySignal,
+    decision: AlertDecision,
+    subscriptions: AlertSubscription[],
+    now: number = Date.now()
+  ): SubscriptionDecision[] {
+    const eligible = decision.shouldAlert || decision.blockedBy === 'rate_limit' || decision.blockedBy === 'cooldown';
+    if (!eligible) return [];
+
+    return subscriptions.filter(subscription => subscription.enabled).map(subscription => {
+      const filterCheck = matchSubscriptionFilters(subscription, signal, decision, now);
+      if (!filterCheck.matched) {
+        return { subscription, shouldAlert: false, reason: filterCheck.reason, hourlyCount: 0, cooldownRemaining: 0 };
+      }
+
+      const counter = this.subscriptionHourlyCounts.get(subscription.id);
+      const hourlyCount = counter && now < counter.resetTime ? counter.count : 0;
+      if (hourlyCount >= subscription.maxPerHour) {
+        return {
+          subscription,
+          shouldAlert: false,
+          reason: `Subscription rate limit exceeded: ${hourlyCount}/${subscription.maxPerHour} per hour`,
+          hourlyCount,
+          cooldownRemaining: 0
+        };
+      }
+
+      const lastAlertTime = this.subscriptionCooldowns.get(subscription.id)?.get(signal.market.id);
+      const remainingMs = lastAlertTime ? subscription.cooldownMinutes * 60 * 1000 - (now - lastAlertTime) : 0;
+      if (remainingMs > 0) {
+        return {
+          subscription,
+          shouldAlert: false,
+          reason: `Subscription cooldown active: ${Math.round(remainingMs / (60 * 1000))}min remaining`,
+          hourlyCount,
+          cooldownRemaining: remainingMs / (60 * 1000)
+        };
       }
+
+      return { subscription, shouldAlert: true, reason: 'Subscription filters passed', hourlyCount, cooldownRemaining: 0 };
+    });
+  }
+
+  /**
+   * Record a delivered subscription alert (per-subscription rate limiting)
+   */
+  recordSubscriptionAlert(subscriptionId: string, marketId: string, now: number = Date.now()): void {
+    const counter = this.subscriptionHourlyCounts.get(subscriptionId);
+    if (counter && now < counter.resetTime) {
+      counter.count++;
+    } else {
+      this.subscriptionHourlyCounts.set(subscriptionId, { count: 1, resetTime: now + 3600000 });
+    }
+
+    if (!this.subscriptionCooldowns.has(subscriptionId)) {
+      this.subscriptionCooldowns.set(subscriptionId, new Map());
+    }
+    this.subscriptionCooldowns.get(subscriptionId)!.set(marketId, now);
+
+    metricsCollector.incrementCounter('alerts.subscription_sent');
+  }
+
+  /**
+   * Update signal type weights from human-labeled precision.
+   *
+   * Types with at least HUMAN_PRECISION_MIN_LABELS labels and a posterior
+   * precision below the threshold get their score scaled by precision / threshold,
+   * floored at MIN_SIGNAL_TYPE_WEIGHT. Types missing from the list are reset.
+   */
+  updateHumanPrecision(stats: HumanLabeledStats[]): void {
+    this.signalTypeWeights.clear();
+
+    for (const entry of stats) {
+      if (entry.sampleSize < HUMAN_PRECISION_MIN_LABELS) continue;
+      if (entry.posteriorAccuracy >= HUMAN_PRECISION_THRESHOLD) continue;
+
+      const weight = Math.max(MIN_SIGNAL_TYPE_WEIGHT, entry.posteriorAccuracy / HUMAN_PRECISION_THRESHOLD);
+      this.signalTypeWeights.set(entry.signalType, weight);
+    }
+
+    advancedLogger.info('Signal type weights updated from human labels', {
+      component: 'alert_manager',
+      operation: 'update_human_precision',
+      metadata: { downWeighted: Object.fromEntries(this.signalTypeWeights) }
+    });
+  }
+
+  /**
+   * Score multiplier for a signal type (1 unless down-weighted by human labels)
+   */
+  getSignalTypeWeight(signalType: string): number {
+    return this.signalTypeWeights.get(signalType) ?? 1;
+  }
+
+  /**
+   * Acknowledge the unacknowledged alerts for a market. Returns how many were acknowledged.
+   * Acknowledgements live on the in-memory alert history and do not survive a restart.
+   */
+  acknowledgeAlerts(marketId: string, acknowledgedBy?: string, now: number = Date.now()): number {
+    let acknowledged = 0;
+    for (const record of this.alertHistory.get(marketId) || []) {
+      if (record.acknowledgedAt) continue;
+      record.acknowledgedAt = now;
+      record.acknowledgedBy = acknowledgedBy;
+      acknowledged++;
+    }
+
+    if (acknowledged > 0) {
+      metricsCollector.incrementCounter('alerts.acknowledged', acknowledged);
+    }
+    return acknowledged;
+  }
+
+  /**
+   * Suppress alerts for a market for a number of minutes
+   */
+  snoozeMarket(marketId: string, minutes: number, createdBy?: string, now: number = Date.now()): MarketSuppression {
+    const suppression: MarketSuppression = {
+      marketId,
+      mode: 'snoozed',
+      until: now + minutes * 60 * 1000,
+      createdAt: now,
+      createdBy
     };
+    this.setMarketSuppression(suppression);
+    return suppression;
+  }
+
+  /**
+   * Suppress alerts for a market until it is unmuted
+   */
+  muteMarket(marketId: string, createdBy?: string, now: number = Date.now()): MarketSuppression {
+    const suppression: MarketSuppression = { marketId, mode: 'muted', createdAt: now, createdBy };
+    this.setMarketSuppression(suppression);
+    return suppression;
+  }
+
+  /**
+   * Remove a mute or snooze. Returns false if the market was not suppressed.
+   */
+  unmuteMarket(marketId: string): boolean {
+    if (!this.marketSuppressions.delete(marketId)) return false;
+    this.onMarketSuppressionHandler?.(marketId, null);
+    return true;
+  }
+
+  /**
+   * Report mutes, snoozes and unmutes so they can be stored and restored after a restart
+   */
+  onMarketSuppressionChange(handler: (marketId: string, suppression: MarketSuppression | null) => void): void {
+    this.onMarketSuppressionHandler = handler;
+  }
+
+  /**
+   * Restore stored mutes and snoozes on startup. Snoozes that expired while
+   * stopped are reported as cleared so they are dropped from storage.
+   */
+  restoreMarketSuppressions(suppressions: MarketSuppression[], now: number = Date.now()): number {
+    let restored = 0;
+    for (const suppression of suppressions) {
+      if (suppression.until !== undefined && suppression.until <= now) {
+        this.onMarketSuppressionHandler?.(suppression.marketId, null);
+        continue;
+      }
+      this.marketSuppressions.set(suppression.marketId, suppression);
+      restored++;
+    }
+    return restored;
+  }
+
+  /**
+   * Active mutes and snoozes
+   */
+  getMarketSuppressions(now: number = Date.now()): MarketSuppression[] {
+    return Array.from(this.marketSuppressions.keys())
+      .map(marketId => this.getMarketSuppression(marketId, now))
+      .filter((suppression): suppression is MarketSuppression => suppression !== null);
+  }
+
+  private getMarketSuppression(marketId: string, now: number = Date.now()): MarketSuppression | null {
+    const suppression = this.marketSuppressions.get(marketId);
+    if (!suppression) return null;
+
+    if (suppression.until !== undefined && suppression.until <= now) {
+      this.marketSuppressions.delete(marketId);
+      this.onMarketSuppressionHandler?.(marketId, null);
+      return null;
+    }
+    return suppression;
+  }
+
+  private setMarketSuppression(suppression: MarketSuppression): void {
+    this.marketSuppressions.set(suppression.marketId, suppression);
+    this.onMarketSuppressionHandler?.(suppression.marketId, suppression);
+    advancedLogger.info(`Market ${suppression.mode}`, {
+      component: 'alert_manager',
+      operation: 'suppress_market',
+      metadata: { ...suppression }
+    });
   }
 
   /**
@@ -405,19 +724,23 @@ export class AlertManager {
     shouldAlert: boolean,
     priority: AlertPriority,
     reason: string,
-    adjustedScore: number
+    adjustedScore: number,
+    checks: AlertCheck[],
+    blockedBy?: AlertGate
   ): AlertDecision {
     return {
       shouldAlert,
       priority,
       reason,
       adjustedScore,
+      blockedBy,
       rateLimitStatus: {
         allowed: shouldAlert,
         hourlyCount: 0,
         maxPerHour: 0,
         cooldownRemaining: 0
-      }
+      },
+      checks
     };
   }
 
@@ -516,6 +839,17 @@ export class AlertManager {
       }
     }
 
+    // Drop expired snoozes
+    this.getMarketSuppressions();
+
+    // Subscription cooldowns are dropped after 24 hours; longer ones are not supported
+    for (const [subscriptionId, cooldowns] of this.subscriptionCooldowns.entries()) {
+      for (const [marketId, timestamp] of cooldowns.entries()) {
+        if (timestamp <= cutoff) cooldowns.delete(marketId);
+      }
+      if (cooldowns.size === 0) this.subscriptionCooldowns.delete(subscriptionId);
+    }
+
     if (removedCount > 0) {
       advancedLogger.info(`Alert history cleanup completed`, {
         component: 'alert_manager',
@@ -0,0 +1,436 @@
+import { randomUUID } from 'crypto';
+import { DatabaseManager } from '../data/database';
+import { EarlySignal, MarketTier } from '../types';
+import { advancedLogger as logger } from '../utils/AdvancedLogger';
+import type { AlertDecision } from './AlertManager';
+import { marketCategorizer } from './MarketCategorizer';
+import { NotificationRouter, NotificationDispatchResult } from './NotificationRouter';
+import { AlertNotification, createNotificationSink, NotificationSinkConfig } from './NotificationSinks';
+
+export type SubscriptionDestination = Omit<NotificationSinkConfig, 'name'>;
+
+export interface QuietHours {
+  start: string;     // HH:MM, inclusive
+  end: string;       // HH:MM, exclusive; may be earlier than start to span midnight
+  timezone?: string; // IANA name, default UTC
+}
+
+export interface AlertSubscriptionFilters {
+  categories?: string[];                     // MarketCategorizer categories or 'uncategorized'
+  signalTypes?: EarlySignal['signalType'][];
+  minConfidence?: number;                    // 0-1
+  minOpportunityScore?: number;              // Compared with the tier-adjusted score, 0-100
+  tiers?: MarketTier[];
+  quietHours?: QuietHours;
+}
+
+export interface AlertSubscription {
+  id: string;
+  name: string;
+  destination: SubscriptionDestination;
+  filters: AlertSubscriptionFilters;
+  cooldownMinutes: number; // Per market
+  maxPerHour: number;
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface AlertSubscriptionInput {
+  name: string;
+  destination: SubscriptionDestination;
+  filters?: AlertSubscriptionFilters;
+  cooldownMinutes?: number;
+  maxPerHour?: number;
+  enabled?: boolean;
+}
+
+// Null clears a filter on update
+export type AlertSubscriptionUpdate = Partial<Omit<AlertSubscriptionInput, 'filters'>> & {
+  filters?: { [K in keyof AlertSubscriptionFilters]?: AlertSubscriptionFilters[K] | null };
+};
+
+export class SubscriptionValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubscriptionValidationError';
+  }
+}
+
+const REDACTED = '***configured***';
+const DEFAULT_COOLDOWN_MINUTES = 30;
+const DEFAULT_MAX_PER_HOUR = 10;
+
+// Keyed by the EarlySignal union so a new signal type fails to compile until it is listed here
+const SIGNAL_TYPES: Record<EarlySignal['signalType'], true> = {
+  new_market: true,
+  volume_spike: true,
+  price_movement: true,
+  unusual_activity: true,
+  orderbook_imbalance: true,
+  spread_anomaly: true,
+  market_maker_withdrawal: true,
+  liquidity_shift: true,
+  aggressive_buyer: true,
+  aggressive_seller: true,
+  iceberg_detected: true,
+  wall_break: true,
+  liquidity_vacuum: true,
+  smart_money: true,
+  stop_hunt: true,
+  information_leak: true,
+  coordinated_cross_market: true,
+  off_hours_anomaly: true,
+  stealth_accumulation: true,
+  micro_price_drift: true,
+  front_running_detected: true,
+  event_mispricing: true,
+  event_coordinated_move: true,
+  trade_intensity_burst: true,
+};
+
+export const SUBSCRIPTION_SIGNAL_TYPES = Object.keys(SIGNAL_TYPES) as EarlySignal['signalType'][];
+
+/**
+ * Minutes since midnight in the given timezone
+ */
+function minuteOfDay(now: number, timeZone: string = 'UTC'): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZone,
+  }).formatToParts(new Date(now));
+
+  const hour = Number(parts.find(part => part.type === 'hour')?.value || 0);
+  const minute = Number(parts.find(part => part.type === 'minute')?.value || 0);
+  return hour * 60 + minute;
+}
+
+function parseClock(value: string): number {
+  const [hour, minute] = value.split(':').map(Number);
+  return hour * 60 + minute;
+}
+
+export function isWithinQuietHours(quietHours: QuietHours, now: number): boolean {
+  const start = parseClock(quietHours.start);
+  const end = parseClock(quietHours.end);
+  if (start === end) return false;
+
+  const minute = minuteOfDay(now, quietHours.timezone);
+  return start < end
+    ? minute >= start && minute < end
+    : minute >= start || minute < end;
+}
+
+/**
+ * Check a signal and its alert decision against a subscription's filters
+ */
+export function matchSubscriptionFilters(
+  subscription: AlertSubscription,
+  signal: EarlySignal,
+  decision: AlertDecision,
+  now: number = Date.now()
+): { matched: boolean; reason: string } {
+  const filters = subscription.filters;
+  const category = signal.market.category || 'uncategorized';
+
+  if (filters.categories && !filters.categories.includes(category)) {
+    return { matched: false, reason: `Category ${category} not subscribed` };
+  }
+  if (filters.signalTypes && !filters.signalTypes.includes(signal.signalType)) {
+    return { matched: false, reason: `Signal type ${signal.signalType} not subscribed` };
+  }
+  if (filters.minConfidence !== undefined && signal.confidence < filters.minConfidence) {
+    return { matched: false, reason: `Confidence ${signal.confidence.toFixed(2)} below ${filters.minConfidence}` };
+  }
+  if (filters.minOpportunityScore !== undefined && decision.adjustedScore < filters.minOpportunityScore) {
+    return { matched: false, reason: `Score ${decision.adjustedScore} below ${filters.minOpportunityScore}` };
+  }
+  if (filters.tiers && !filters.tiers.includes(signal.market.tier || MarketTier.IGNORED)) {
+    return { matched: false, reason: `Tier ${signal.market.tier || MarketTier.IGNORED} not subscribed` };
+  }
+  if (filters.quietHours && isWithinQuietHours(filters.quietHours, now)) {
+    return { matched: false, reason: `Quiet hours ${filters.quietHours.start}-${filters.quietHours.end}` };
+  }
+
+  return { matched: true, reason: 'Subscription filters passed' };
+}
+
+/**
+ * Copy of a subscription with webhook URLs, tokens and passwords masked (for APIs and CLI output)
+ */
+export function redactSubscription(subscription: AlertSubscription): AlertSubscription {
+  const destination: SubscriptionDestination = { ...subscription.destination };
+
+  if (destination.url) destination.url = REDACTED;
+  if (destination.botToken) destination.botToken = REDACTED;
+  if (destination.headers) {
+    destination.headers = Object.fromEntries(Object.keys(destination.headers).map(key => [key, REDACTED]));
+  }
+  if (destination.smtp?.password) {
+    destination.smtp = { ...destination.smtp, password: REDACTED };
+  }
+
+  return { ...subscription, destination };
+}
+
+/**
+ * AlertSubscriptionService - Per-user alert subscriptions
+ *
+ * Subscriptions are stored in alert_subscriptions and cached in memory. Each one
+ * has its own notification sink; AlertManager.evaluateSubscriptions decides
+ * which of them receive an alert and this service delivers it.
+ */
+export class AlertSubscriptionService {
+  private database: DatabaseManager;
+  private subscriptions: Map<string, AlertSubscription> = new Map();
+  private router: NotificationRouter = new NotificationRouter([], []);
+
+  constructor(database: DatabaseManager) {
+    this.database = database;
+  }
+
+  /**
+   * Load subscriptions from the database
+   */
+  async initialize(): Promise<void> {
+    const rows = await this.database.query('SELECT * FROM alert_subscriptions ORDER BY created_at ASC');
+
+    this.subscriptions.clear();
+    for (const row of rows) {
+      const subscription = this.rowToSubscription(row);
+      this.subscriptions.set(subscription.id, subscription);
+    }
+    this.rebuildRouter();
+
+    logger.info(`Loaded ${this.subscriptions.size} alert subscriptions`, {
+      component: 'alert_subscriptions',
+      operation: 'initialize',
+      metadata: { enabled: this.getActiveSubscriptions().length }
+    });
+  }
+
+  list(): AlertSubscription[] {
+    return Array.from(this.subscriptions.values());
+  }
+
+  get(id: string): AlertSubscription | null {
+    return this.subscriptions.get(id) || null;
+  }
+
+  getActiveSubscriptions(): AlertSubscription[] {
+    return this.list().filter(subscription => subscription.enabled);
+  }
+
+  async create(input: AlertSubscriptionInput): Promise<AlertSubscription> {
+    const now = Date.now();
+    const subscription: AlertSubscription = {
+      id: randomUUID(),
+      name: input.name,
+      destination: input.destination,
+      filters: input.filters || {},
+      cooldownMinutes: input.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES,
+      maxPerHour: input.maxPerHour ?? DEFAULT_MAX_PER_HOUR,
+      enabled: input.enabled ?? true,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.validate(subscription);
+
+    await this.database.query(`
+      INSERT INTO alert_subscriptions (
+        id, name, destination, filters, cooldown_minutes, max_per_hour, enabled, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    `, [
+      subscription.id,
+      subscription.name,
+      JSON.stringify(subscription.destination),
+      JSON.stringify(subscription.filters),
+      subscription.cooldownMinutes,
+      subscription.maxPerHour,
+      subscription.enabled,
+      new Date(subscription.createdAt),
+      new Date(subscription.updatedAt)
+    ]);
+
+    this.subscriptions.set(subscription.id, subscription);
+    this.rebuildRouter();
+
+    logger.info(`Alert subscription created: ${subscription.name}`, {
+      component: 'alert_subscriptions',
+      operation: 'create',
+      metadata: { id: subscription.id, destination: subscription.destination.type, filters: subscription.filters }
+    });
+
+    return subscription;
+  }
+
+  /**
+   * Update a subscription. Filters are merged (null removes a filter); the
+   * destination is replaced as a whole.
+   */
+  async update(id: string, update: AlertSubscriptionUpdate): Promise<AlertSubscription | null> {
+    const existing = this.subscriptions.get(id);
+    if (!existing) return null;
+
+    const filters: Record<string, unknown> = { ...existing.filters };
+    for (const [key, value] of Object.entries(update.filters || {})) {
+      if (value === null) delete filters[key];
+      else if (value !== undefined) filters[key] = value;
+    }
+
+    const subscription: AlertSubscription = {
+      ...existing,
+      name: update.name ?? existing.name,
+      destination: update.destination ?? existing.destination,
+      filters: filters as AlertSubscriptionFilters,
+      cooldownMinutes: update.cooldownMinutes ?? existing.cooldownMinutes,
+      maxPerHour: update.maxPerHour ?? existing.maxPerHour,
+      enabled: update.enabled ?? existing.enabled,
+      updatedAt: Date.now()
+    };
+
+    this.validate(subscription);
+
+    await this.database.query(`
+      UPDATE alert_subscriptions SET
+        name = $1, destination = $2, filters = $3, cooldown_minutes = $4,
+        max_per_hour = $5, enabled = $6, updated_at = $7
+      WHERE id = $8
+    `, [
+      subscription.name,
+      JSON.stringify(subscription.destination),
+      JSON.stringify(subscription.filters),
+      subscription.cooldownMinutes,
+      subscription.maxPerHour,
+      subscription.enabled,
+      new Date(subscription.updatedAt),
+      id
+    ]);
+
+    this.subscriptions.set(id, subscription);
+    this.rebuildRouter();
+
+    return subscription;
+  }
+
+  async remove(id: string): Promise<boolean> {
+    if (!this.subscriptions.has(id)) return false;
+
+    await this.database.query('DELETE FROM alert_subscriptions WHERE id = $1', [id]);
+    this.subscriptions.delete(id);
+    this.rebuildRouter();
+
+    logger.info(`Alert subscription removed: ${id}`, {
+      component: 'alert_subscriptions',
+      operation: 'remove'
+    });
+
+    return true;
+  }
+
+  /**
+   * Deliver a notification to the given subscriptions' destinations
+   */
+  async deliver(notification: AlertNotification, subscriptionIds: string[]): Promise<NotificationDispatchResult> {
+    const known = subscriptionIds.filter(id => this.subscriptions.has(id));
+    return this.router.deliver(notification, known);
+  }
+
+  /**
+   * Throws SubscriptionValidationError describing the first invalid field
+   */
+  validate(subscription: AlertSubscription): void {
+    const fail = (message: string): never => {
+      throw new SubscriptionValidationError(message);
+    };
+
+    if (!subscription.name || typeof subscription.name !== 'string') fail('name is required');
+    if (!subscription.destination || typeof subscription.destination !== 'object') fail('destination is required');
+
+    // A destination read back from the API still carries masked secrets
+    if (JSON.stringify(subscription.destination).includes(REDACTED)) {
+      fail('destination contains masked values; send the full destination');
+    }
+
+    try {
+      createNotificationSink({ ...subscription.destination, name: subscription.name });
+    } catch (error) {
+      fail(`Invalid destination: ${(error as Error).message}`);
+    }
+
+    if (!Number.isInteger(subscription.cooldownMinutes) || subscription.cooldownMinutes < 0) {
+      fail('cooldownMinutes must be a non-negative integer');
+    }
+    if (!Number.isInteger(subscription.maxPerHour) || subscription.maxPerHour < 1) {
+      fail('maxPerHour must be a positive integer');
+    }
+
+    const filters = subscription.filters;
+    const unknownKeys = Object.keys(filters).filter(key =>
+      !['categories', 'signalTypes', 'minConfidence', 'minOpportunityScore', 'tiers', 'quietHours'].includes(key)
+    );
+    if (unknownKeys.length > 0) fail(`Unknown filters: ${unknownKeys.join(', ')}`);
+
+    const invalidCategories = (filters.categories || []).filter(category =>
+      category !== 'uncategorized' && !marketCategorizer.isValidCategory(category)
+    );
+    if (invalidCategories.length > 0) {
+      fail(`Unknown categories: ${invalidCategories.join(', ')} (valid: ${marketCategorizer.getCategories().join(', ')}, uncategorized)`);
+    }
+
+    const invalidSignalTypes = (filters.signalTypes || []).filter(type => !(type in SIGNAL_TYPES));
+    if (invalidSignalTypes.length > 0) fail(`Unknown signal types: ${invalidSignalTypes.join(', ')}`);
+
+    const tiers = Object.values(MarketTier) as string[];
+    const invalidTiers = (filters.tiers || []).filter(tier => !tiers.includes(tier));
+    if (invalidTiers.length > 0) fail(`Unknown tiers: ${invalidTiers.join(', ')} (valid: ${tiers.join(', ')})`);
+
+    if (filters.minConfidence !== undefined && !(filters.minConfidence >= 0 && filters.minConfidence <= 1)) {
+      fail('minConfidence must be between 0 and 1');
+    }
+    if (filters.minOpportunityScore !== undefined && !(filters.minOpportunityScore >= 0 && filters.minOpportunityScore <= 100)) {
+      fail('minOpportunityScore must be between 0 and 100');
+    }
+
+    if (filters.quietHours) {
+      const clock = /^([01]\d|2[0-3]):[0-5]\d$/;
+      if (!clock.test(filters.quietHours.start) || !clock.test(filters.quietHours.end)) {
+        fail('quietHours.start and quietHours.end must be HH:MM');
+      }
+      try {
+        minuteOfDay(Date.now(), filters.quietHours.timezone);
+      } catch {
+        fail(`Unknown timezone: ${filters.quietHours.timezone}`);
+      }
+    }
+  }
+
+  /**
+   * One sink per subscription, named by subscription id
+   */
+  private rebuildRouter(): void {
+    const sinks = this.list().map(subscription =>
+      createNotificationSink({ ...subscription.destination, name: subscription.id })
+    );
+    this.router = new NotificationRouter(sinks, []);
+  }
+
+  private rowToSubscription(row: any): AlertSubscription {
+    const parse = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value);
+
+    return {
+      id: row.id,
+      name: row.name,
+      destination: parse(row.destination),
+      filters: parse(row.filters) || {},
+      cooldownMinutes: Number(row.cooldown_minutes),
+      maxPerHour: Number(row.max_per_hour),
+      enabled: Boolean(row.enabled),
+      createdAt: new Date(row.created_at).getTime(),
+      updatedAt: new Date(row.updated_at).getTime()
+    };
+  }
+}
@@ -0,0 +1,169 @@
+import { DataAccessLayer } from '../data/DataAccessLayer';
+import { AnalyzerCheckpoint, EnhancedMicrostructureMetrics, OrderbookData } from '../types';
+import { advancedLogger as logger } from '../utils/AdvancedLogger';
+
+export interface AnalyzerCheckpointConfig {
+  checkpointIntervalMs: number;   // Minimum time between checkpoints from checkpointIfDue
+  maxCheckpointAgeMs: number;     // Older checkpoints are ignored on warm-start and deleted
+  rebuildLookbackMs: number;      // History replayed for markets without a checkpoint
+}
+
+/**
+ * An analyzer with per-market state that survives restarts
+ * (EnhancedMicrostructureAnalyzer, OrderFlowAnalyzer, SignalDetector)
+ */
+export interface CheckpointableAnalyzer<T = any> {
+  getCheckpointMarketIds(): string[];
+  exportMarketState(marketId: string): T | null;
+  importMarketState(marketId: string, state: T): void;
+}
+
+/**
+ * Rebuilds baselines from stored history when a market has no checkpoint
+ */
+export interface BaselineRebuilder {
+  replayOrderbook(orderbook: OrderbookData): void;
+  seedFromMetrics(metrics: Pick<EnhancedMicrostructureMetrics,
+    'marketId' | 'timestamp' | 'depth1Total' | 'microPrice' | 'spreadBps' | 'orderBookImbalance'>): void;
+}
+
+export interface WarmStartResult {
+  restoredCheckpoints: number;
+  restoredMarkets: number;
+  rebuiltFromOrderbooks: number;   // Markets replayed from orderbook_snapshots
+  seededFromMetrics: number;       // Markets seeded from microstructure_metrics
+}
+
+/**
+ * Checkpoints per-market analyzer state to the database and restores it on startup
+ *
+ * Ring buffers, EWMAs and activity distributions otherwise start empty after
+ * every restart, leaving z-scores unusable until minSampleSize samples have
+ * arrived again. Markets without a recent checkpoint are rebuilt from stored
+ * orderbook snapshots, or failing that from stored microstructure metrics.
+ */
+export class AnalyzerCheckpointService {
+  private dataLayer: DataAccessLayer;
+  private config: AnalyzerCheckpointConfig;
+  private analyzers: Map<string, CheckpointableAnalyzer> = new Map();
+  private lastCheckpointTime = 0;
+
+  constructor(dataLayer: DataAccessLayer, config?: Partial<AnalyzerCheckpointConfig>) {
+    this.dataLayer = dataLayer;
+    this.config = {
+      checkpointIntervalMs: 300000,   // 5 minutes
+      maxCheckpointAgeMs: 21600000,   // 6 hours
+      rebuildLookbackMs: 7200000,     // 2 hours
+      ...config
+    };
+  }
+
+  register(component: string, analyzer: CheckpointableAnalyzer): void {
+    this.analyzers.set(component, analyzer);
+  }
+
+  /**
+   * Save every registered analyzer's per-market state and drop expired checkpoints
+   */
+  async checkpoint(now: number = Date.now()): Promise<number> {
+    const checkpoints: AnalyzerCheckpoint[] = [];
+
+    for (const [component, analyzer] of this.analyzers) {
+      for (const marketId of analyzer.getCheckpointMarketIds()) {
+        const state = analyzer.exportMarketState(marketId);
+        if (state) checkpoints.push({ component, marketId, state, checkpointAt: now });
+      }
+    }
+
+    await this.dataLayer.saveAnalyzerCheckpoints(checkpoints);
+    await this.dataLayer.deleteAnalyzerCheckpointsBefore(now - this.config.maxCheckpointAgeMs);
+    this.lastCheckpointTime = now;
+
+    logger.info(`Checkpointed analyzer state: ${checkpoints.length} entries`, {
+      component: 'analyzer_checkpoint',
+      operation: 'checkpoint',
+      metadata: { checkpoints: checkpoints.length, components: this.analyzers.size }
+    });
+
+    return checkpoints.length;
+  }
+
+  /**
+   * Checkpoint when checkpointIntervalMs has passed since the last one
+   */
+  async checkpointIfDue(now: number = Date.now()): Promise<boolean> {
+    if (now - this.lastCheckpointTime < this.config.checkpointIntervalMs) return false;
+    await this.checkpoint(now);
+    return true;
+  }
+
+  /**
+   * Restore recent checkpoints into the registered analyzers, then rebuild
+   * markets seen in the stored history that had no checkpoint
+   */
+  async warmStart(rebuilder?: BaselineRebuilder, now: number = Date.now()): Promise<WarmStartResult> {
+    const result: WarmStartResult = { restoredCheckpoints: 0, restoredMarkets: 0, rebuiltFromOrderbooks: 0, seededFromMetrics: 0 };
+    const restoredMarkets = new Set<string>();
+
+    const checkpoints = await this.dataLayer.getAnalyzerCheckpoints(now - this.config.maxCheckpointAgeMs);
+    for (const checkpoint of checkpoints) {
+      const analyzer = this.analyzers.get(checkpoint.component);
+      if (!analyzer) continue;
+
+      try {
+        analyzer.importMarketState(checkpoint.marketId, checkpoint.state);
+        restoredMarkets.add(checkpoint.marketId);
+        result.restoredCheckpoints++;
+      } catch (error) {
+        logger.warn(`Skipping unreadable ${checkpoint.component} checkpoint for ${checkpoint.marketId}`, {
+          component: 'analyzer_checkpoint',
+          operation: 'warm_start',
+          metadata: { error: (error as Error).message }
+        });
+      }
+    }
+    result.restoredMarkets = restoredMarkets.size;
+    // The restored state is already persisted
+    this.lastCheckpointTime = now;
+
+    if (rebuilder) {
+      const since = now - this.config.rebuildLookbackMs;
+      const rebuilt = new Set<string>();
+
+      // One market at a time, so only that market's snapshots are held in memory
+      const marketIds = await this.dataLayer.getOrderbookSnapshotMarketIds(since, now);
+      for (const marketId of marketIds.filter(id => !restoredMarkets.has(id))) {
+        const orderbooks = await this.dataLayer.getOrderbookSnapshotsInRange(since, now, [marketId]);
+        for (const orderbook of orderbooks) {
+          rebuilder.replayOrderbook(orderbook);
+        }
+        if (orderbooks.length > 0) rebuilt.add(marketId);
+      }
+      result.rebuiltFromOrderbooks = rebuilt.size;
+
+      const seeded = new Set<string>();
+      for (const metrics of await this.dataLayer.getMicrostructureMetricsInRange(since, now)) {
+        if (restoredMarkets.has(metrics.marketId) || rebuilt.has(metrics.marketId)) continue;
+        rebuilder.seedFromMetrics(metrics);
+        seeded.add(metrics.marketId);
+      }
+      result.seededFromMetrics = seeded.size;
+    }
+
+    logger.info(`Warm start: ${result.restoredMarkets} markets from checkpoints, ` +
+      `${result.rebuiltFromOrderbooks} from orderbooks, ${result.seededFromMetrics} from metrics`, {
+      component: 'analyzer_checkpoint',
+      operation: 'warm_start',
+      metadata: { ...result }
+    });
+
+    return result;
+  }
+
+  /**
+   * Get configuration
+   */
+  getConfig(): AnalyzerCheckpointConfig {
+    return { ...this.config };
+  }
+}
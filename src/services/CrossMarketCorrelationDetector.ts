@@ -1,4 +1,5 @@
 import { PriceHistoryTracker } from './PriceHistoryTracker';
+import { TopicClusteringEngine } from './TopicClusteringEngine';
 import { Market, EarlySignal } from '../types';
 import { advancedLogger as logger } from '../utils/AdvancedLogger';
 
@@ -32,6 +33,7 @@ export class CrossMarketCorrelationDetector {
   private priceTracker: PriceHistoryTracker;
   private config: CrossMarketConfig;
   private baselineCorrelations: Map<string, number>;
+  private topicClustering?: TopicClusteringEngine;
 
   constructor(priceTracker: PriceHistoryTracker, config?: Partial<CrossMarketConfig>) {
     this.priceTracker = priceTracker;
@@ -51,13 +53,20 @@ export class CrossMarketCorrelationDetector {
     };
   }
 
+  /**
+   * Also group markets by their learned topic cluster (see TopicClusteringEngine.setLearnedTopics)
+   */
+  setTopicClustering(topicClustering: TopicClusteringEngine): void {
+    this.topicClustering = topicClustering;
+  }
+
   /**
    * Detect cross-market information leaks for a group of related markets
    * Returns signal if correlation spike detected
    *
    * PERFORMANCE OPTIMIZATION: Pre-filters markets to reduce O(N²) correlation calculations
    */
-  detectCoordinatedMovement(markets: Market[]): CorrelationSignal | null {
+  detectCoordinatedMovement(markets: Market[], group?: string): CorrelationSignal | null {
     // Need at least minMarketsForSignal to detect coordination
     if (markets.length < this.config.minMarketsForSignal) {
       return null;
@@ -65,7 +74,7 @@ export class CrossMarketCorrelationDetector {
 
     // PERFORMANCE: Filter markets with sufficient price history AND significant movement
     // This dramatically reduces the number of correlation calculations needed
-    const activeMarkets = markets.filter(m => {
+    const activeMarkets = this.collapseEventSiblings(markets.filter(m => {
       // Must have price history
       if (!this.priceTracker.hasSufficientHistory(m.id, 10)) {
         return false;
@@ -74,7 +83,7 @@ export class CrossMarketCorrelationDetector {
       // OPTIMIZATION: Only check markets that have moved recently (>1% in last hour)
       const priceChange = Math.abs(this.priceTracker.calculatePriceChange(m.id, 3600000)); // 1 hour
       return priceChange > 1.0; // 1% minimum movement
-    });
+    }));
 
     if (activeMarkets.length < this.config.minMarketsForSignal) {
       // Not enough actively moving markets - skip expensive correlation checks
@@ -103,7 +112,7 @@ export class CrossMarketCorrelationDetector {
 
     // Test each correlation window
     for (const windowMs of this.config.correlationWindows) {
-      const signal = this.detectCorrelationSpike(limitedMarkets, windowMs);
+      const signal = this.detectCorrelationSpike(limitedMarkets, windowMs, group);
       if (signal) {
         return signal;
       }
@@ -115,7 +124,7 @@ export class CrossMarketCorrelationDetector {
   /**
    * Detect correlation spike within a specific time window
    */
-  private detectCorrelationSpike(markets: Market[], windowMs: number): CorrelationSignal | null {
+  private detectCorrelationSpike(markets: Market[], windowMs: number, group?: string): CorrelationSignal | null {
     const marketIds = markets.map(m => m.id);
 
     // Calculate pairwise correlations
@@ -158,7 +167,7 @@ export class CrossMarketCorrelationDetector {
     const avgVolumeIncrease = volumeIncreases.reduce((sum, v) => sum + v, 0) / volumeIncreases.length;
 
     // Check if correlation is abnormally high
-    const baselineCorrelation = this.getBaselineCorrelation(markets[0].category || 'uncategorized');
+    const baselineCorrelation = this.getBaselineCorrelation(group || markets[0].category || 'uncategorized');
     const correlationSpike = avgCorrelation - baselineCorrelation;
 
     logger.info(`Cross-market analysis: correlation=${avgCorrelation.toFixed(2)}, ` +
@@ -286,6 +295,32 @@ export class CrossMarketCorrelationDetector {
     return baseline;
   }
 
+  /**
+   * Keep only the biggest mover of each event. Siblings of one event (one market per
+   * candidate) move together mechanically, so they would pass as several coordinated
+   * markets; EventGroupAnalyzer covers moves within an event.
+   */
+  private collapseEventSiblings(markets: Market[]): Market[] {
+    const representatives = new Map<string, Market>();
+    const result: Market[] = [];
+
+    for (const market of markets) {
+      const eventId = market.metadata?.eventId;
+      if (!eventId) {
+        result.push(market);
+        continue;
+      }
+
+      const current = representatives.get(eventId);
+      if (!current || Math.abs(this.priceTracker.calculatePriceChange(market.id, 3600000)) >
+          Math.abs(this.priceTracker.calculatePriceChange(current.id, 3600000))) {
+        representatives.set(eventId, market);
+      }
+    }
+
+    return result.concat(Array.from(representatives.values()));
+  }
+
   /**
    * Calculate baseline volume for a market (24-hour average)
    */
@@ -298,16 +333,25 @@ export class CrossMarketCorrelationDetector {
   }
 
   /**
-   * Group markets by category for correlation analysis
+   * Group markets by category for correlation analysis. Learned topic clusters
+   * form additional groups (keyed by cluster id), so a market can be in both its
+   * category group and its topic group.
    */
   groupMarketsByCategory(markets: Market[]): Map<string, Market[]> {
     const groups = new Map<string, Market[]>();
+    const addToGroup = (key: string, market: Market) => {
+      const existing = groups.get(key) || [];
+      existing.push(market);
+      groups.set(key, existing);
+    };
 
     for (const market of markets) {
-      const category = market.category || 'uncategorized';
-      const existing = groups.get(category) || [];
-      existing.push(market);
-      groups.set(category, existing);
+      addToGroup(market.category || 'uncategorized', market);
+
+      const learnedTopicId = this.topicClustering?.getLearnedTopicId(market.id);
+      if (learnedTopicId) {
+        addToGroup(learnedTopicId, market);
+      }
     }
 
     return groups;
@@ -331,7 +375,7 @@ export class CrossMarketCorrelationDetector {
           operation: 'check_category',
           metadata: { category, marketCount: categoryMarkets.length }
         });
-        const signal = this.detectCoordinatedMovement(categoryMarkets);
+        const signal = this.detectCoordinatedMovement(categoryMarkets, category);
         if (signal) {
           signals.push(signal);
         }
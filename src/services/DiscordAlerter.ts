@@ -2,6 +2,7 @@ import { EarlySignal, AlertMessage, BotConfig, MicrostructureSignal } from '../t
 import { logger } from '../utils/logger';
 import { discordRateLimiter } from '../utils/RateLimiter';
 import type { SignalPerformanceTracker } from './SignalPerformanceTracker';
+import type { PaperPortfolioSummary } from './PaperTradingEngine';
 
 interface DiscordEmbed {
   title?: string;
@@ -763,6 +764,83 @@ export class DiscordAlerter {
         }
         break;
 
+      case 'event_mispricing':
+        if (metadata.probabilitySum !== undefined) {
+          reasoning += `Event: ${metadata.eventTitle}\n`;
+          reasoning += `Outcomes: ${metadata.marketCount}\n`;
+          reasoning += `Probability Sum: ${(metadata.probabilitySum * 100).toFixed(1)}%\n`;
+          reasoning += `Spread Cost: ${(metadata.halfSpreadSum * 100).toFixed(1)}%\n`;
+          reasoning += `Detection: Sibling prices ${metadata.deviation > 0 ? 'above' : 'below'} 100%\n`;
+          if (signal.confidence) {
+            reasoning += `Confidence: ${(signal.confidence * 100).toFixed(0)}%\n`;
+          }
+        }
+        break;
+
+      case 'event_coordinated_move':
+        if (metadata.siblingMoves) {
+          reasoning += `Event: ${metadata.eventTitle}\n`;
+          for (const move of metadata.siblingMoves.slice(0, 5)) {
+            reasoning += `${move.question.substring(0, 40)}: ${move.change > 0 ? '+' : ''}${(move.change * 100).toFixed(1)}pts\n`;
+          }
+          reasoning += `Window: ${metadata.windowMs / 60000} minutes\n`;
+          reasoning += 'Detection: Coordinated sibling repricing\n';
+          if (signal.confidence) {
+            reasoning += `Confidence: ${(signal.confidence * 100).toFixed(0)}%\n`;
+          }
+        }
+        break;
+
+      case 'information_leak':
+        if (metadata.leakType === 'fresh_wallet') {
+          const outcomeName = signal.market?.outcomes?.[metadata.outcomeIndex] || `Outcome ${metadata.outcomeIndex}`;
+          reasoning += `Wallet: ${metadata.wallet.substring(0, 6)}...${metadata.wallet.slice(-4)}\n`;
+          reasoning += `First Activity: ${metadata.walletAgeHours.toFixed(1)}h ago\n`;
+          reasoning += `Position: +$${metadata.positionNotional.toFixed(0)} ${outcomeName} @ ${(metadata.averagePrice * 100).toFixed(1)}¢ (${metadata.trades} trades)\n`;
+          reasoning += `Share of Market Volume: ${(metadata.volumeShare * 100).toFixed(1)}% of $${metadata.marketVolume.toFixed(0)}\n`;
+          reasoning += `Concentration: ${(metadata.marketConcentration * 100).toFixed(0)}% in this market`;
+          if (metadata.topicCluster) {
+            reasoning += `, ${(metadata.topicConcentration * 100).toFixed(0)}% in ${metadata.topicCluster}`;
+          }
+          reasoning += ` (${metadata.walletMarkets} market${metadata.walletMarkets === 1 ? '' : 's'}, $${metadata.walletNotional.toFixed(0)} traded)\n`;
+          reasoning += 'Detection: Fresh wallet, concentrated position\n';
+          if (signal.confidence) {
+            reasoning += `Confidence: ${(signal.confidence * 100).toFixed(0)}%\n`;
+          }
+        }
+        break;
+
+      case 'smart_money':
+        if (metadata.trackRecord) {
+          const record = metadata.trackRecord;
+          const outcomeName = signal.market?.outcomes?.[metadata.outcomeIndex] || `Outcome ${metadata.outcomeIndex}`;
+          reasoning += `Wallet: ${metadata.wallet.substring(0, 6)}...${metadata.wallet.slice(-4)}\n`;
+          reasoning += `Position: +$${metadata.netNotional.toFixed(0)} ${outcomeName} @ ${(metadata.averagePrice * 100).toFixed(1)}¢ (${metadata.trades} trades)\n`;
+          reasoning += `Track Record: ${record.winningMarkets}/${record.resolvedMarkets} markets won (${(record.hitRate * 100).toFixed(0)}%)\n`;
+          reasoning += `Realized P&L: ${record.realizedPnl >= 0 ? '+' : '-'}$${Math.abs(record.realizedPnl).toFixed(0)} on $${record.resolvedVolume.toFixed(0)} traded\n`;
+          if (metadata.alignedWallets > 0) {
+            reasoning += `Other Smart Wallets: ${metadata.alignedWallets} on the same side ($${metadata.alignedNotional.toFixed(0)})\n`;
+          }
+          reasoning += 'Detection: Accurate wallet building a position\n';
+          if (signal.confidence) {
+            reasoning += `Confidence: ${(signal.confidence * 100).toFixed(0)}%\n`;
+          }
+        }
+        break;
+
+      case 'trade_intensity_burst':
+        if (metadata.intensityRatio !== undefined) {
+          reasoning += `Side: ${metadata.side}\n`;
+          reasoning += `Trade Rate: ${(metadata.realizedIntensity * 60).toFixed(1)}/min (baseline ${(metadata.baselineIntensity * 60).toFixed(2)}/min)\n`;
+          reasoning += `Intensity Ratio: ${metadata.intensityRatio.toFixed(1)}x\n`;
+          reasoning += `Branching Ratio: ${metadata.branchingRatio.toFixed(2)}${metadata.recentBranchingRatio !== null ? ` (recent ${metadata.recentBranchingRatio.toFixed(2)})` : ''}\n`;
+          reasoning += 'Detection: Hawkes self-exciting trade clustering\n';
+          if (signal.confidence) {
+            reasoning += `Confidence: ${(signal.confidence * 100).toFixed(0)}%\n`;
+          }
+        }
+        break;
+
       case 'coordinated_cross_market':
         if (metadata.correlatedMarketQuestion) {
           reasoning += `Correlated Market:\n${metadata.correlatedMarketQuestion}\n`;
@@ -870,7 +948,35 @@ export class DiscordAlerter {
         break;
 
       case 'information_leak':
-        interpretation = `🔓 **Unusual cross-market activity** - Multiple related markets are moving in coordinated ways, suggesting information may be leaking before official announcements.`;
+        if (metadata.leakType === 'fresh_wallet') {
+          interpretation = `🆕 **New wallet, one big bet** - A wallet first seen ${metadata.walletAgeHours < 24 ? `${metadata.walletAgeHours.toFixed(0)} hours` : `${(metadata.walletAgeHours / 24).toFixed(1)} days`} ago put $${metadata.positionNotional.toFixed(0)} into ${signal.market?.outcomes?.[metadata.outcomeIndex] || `outcome ${metadata.outcomeIndex}`}, ${(metadata.volumeShare * 100).toFixed(1)}% of everything this market has ever traded, with ${(Math.max(metadata.marketConcentration, metadata.topicConcentration) * 100).toFixed(0)}% of its money in ${metadata.marketConcentration >= metadata.topicConcentration ? 'this one market' : 'this one topic'}. Accounts funded just to place a single large bet are a classic insider pattern.`;
+        } else {
+          interpretation = `🔓 **Unusual cross-market activity** - Multiple related markets are moving in coordinated ways, suggesting information may be leaking before official announcements.`;
+        }
+        break;
+
+      case 'event_mispricing':
+        if (metadata.probabilitySum !== undefined) {
+          interpretation = metadata.deviation > 0
+            ? `⚖️ **Event overpriced** - The outcomes of this event add up to ${(metadata.probabilitySum * 100).toFixed(1)}% even though only one can win. ${metadata.executable ? 'The gap is wider than the spreads, so selling Yes across the outcomes locks it in.' : 'The gap is within the spreads and may just be stale quotes.'}`
+            : `⚖️ **Event underpriced** - The outcomes of this event add up to only ${(metadata.probabilitySum * 100).toFixed(1)}% even though one must win. ${metadata.executable ? 'The gap is wider than the spreads, so buying Yes across the outcomes locks it in.' : 'The gap is within the spreads and may just be stale quotes.'}`;
+        }
+        break;
+
+      case 'event_coordinated_move':
+        interpretation = '🔀 **Probability shifting within an event** - Several outcomes of the same event repriced together. When one outcome gains at the expense of the others, traders are usually acting on news about that outcome.';
+        break;
+
+      case 'smart_money':
+        if (metadata.trackRecord) {
+          interpretation = `🧠 **Smart money is buying** - A wallet that won ${metadata.trackRecord.winningMarkets} of its ${metadata.trackRecord.resolvedMarkets} resolved markets (${metadata.trackRecord.realizedPnl >= 0 ? '+' : '-'}$${Math.abs(metadata.trackRecord.realizedPnl).toFixed(0)} realized) just put $${metadata.netNotional.toFixed(0)} into ${signal.market?.outcomes?.[metadata.outcomeIndex] || `outcome ${metadata.outcomeIndex}`}.${metadata.alignedWallets > 0 ? ` ${metadata.alignedWallets} other accurate wallet${metadata.alignedWallets === 1 ? ' is' : 's are'} on the same side.` : ''} Traders with a real record tend to size up when they know something.`;
+        }
+        break;
+
+      case 'trade_intensity_burst':
+        if (metadata.intensityRatio !== undefined) {
+          interpretation = `🌋 **${metadata.side === 'buy' ? 'Buying' : 'Selling'} frenzy** - Trades are arriving ${metadata.intensityRatio.toFixed(1)}x faster than this market's fitted baseline, and each trade is setting off more trades. Clustered bursts like this are the footprint of someone working a large order on information.`;
+        }
         break;
 
       case 'new_market':
@@ -1007,12 +1113,61 @@ export class DiscordAlerter {
         break;
 
       case 'information_leak':
-        guidance += '• Official announcements or news within hours\n';
-        guidance += '• Additional correlated markets activating\n';
-        guidance += '• Volume acceleration across cluster\n';
+        if (signal.metadata?.leakType === 'fresh_wallet') {
+          guidance += '• The wallet adding to the position before news\n';
+          guidance += '• Other new wallets buying the same outcome\n';
+          guidance += '• Price following after the fill\n';
+          guidance += '\n🚨 **Red flags:**\n';
+          guidance += '• The wallet selling out within hours\n';
+          guidance += '• A known trader\'s new account (check the funding source)';
+        } else {
+          guidance += '• Official announcements or news within hours\n';
+          guidance += '• Additional correlated markets activating\n';
+          guidance += '• Volume acceleration across cluster\n';
+          guidance += '\n🚨 **Red flags:**\n';
+          guidance += '• Correlation breaking down\n';
+          guidance += '• No news materializing within 24 hours';
+        }
+        added = true;
+        break;
+
+      case 'event_mispricing':
+        guidance += '• Outcome prices converging back to 100% total\n';
+        guidance += '• Which outcome absorbs the correction\n';
+        guidance += '• Depth on each outcome before trading the basket\n';
+        guidance += '\n🚨 **Red flags:**\n';
+        guidance += '• Thin books on minor outcomes (gap not fillable)\n';
+        guidance += '• Outcomes added or removed from the event';
+        added = true;
+        break;
+
+      case 'event_coordinated_move':
+        guidance += '• News about the outcome that gained most\n';
+        guidance += '• The move continuing across the other outcomes\n';
+        guidance += '• Volume following the price shift\n';
+        guidance += '\n🚨 **Red flags:**\n';
+        guidance += '• Prices snapping back within the hour\n';
+        guidance += '• Move confined to illiquid outcomes';
+        added = true;
+        break;
+
+      case 'smart_money':
+        guidance += '• The wallet adding to the position\n';
+        guidance += '• Other accurate wallets joining the same side\n';
+        guidance += '• Price drifting toward their outcome\n';
+        guidance += '\n🚨 **Red flags:**\n';
+        guidance += '• The wallet selling out within hours (a trade, not a view)\n';
+        guidance += '• A thin record built on a few lucky markets';
+        added = true;
+        break;
+
+      case 'trade_intensity_burst':
+        guidance += '• Price following the side of the burst\n';
+        guidance += '• The burst continuing after the first few minutes\n';
+        guidance += '• News in the next few hours\n';
         guidance += '\n🚨 **Red flags:**\n';
-        guidance += '• Correlation breaking down\n';
-        guidance += '• No news materializing within 24 hours';
+        guidance += '• Many tiny trades from one bot (no price impact)\n';
+        guidance += '• Burst on both sides at once (market maker rebalancing)';
         added = true;
         break;
 
@@ -1065,6 +1220,15 @@ export class DiscordAlerter {
       health += `${spreadEmoji} Spread: ${spreadBps.toFixed(0)} bps\n`;
     }
 
+    // Measured price impact
+    if (market.impactBpsPer1k !== undefined) {
+      const impactBps = market.impactBpsPer1k;
+      let impactEmoji = '🟢';
+      if (impactBps > 300) impactEmoji = '🔴';
+      else if (impactBps > 100) impactEmoji = '🟡';
+      health += `${impactEmoji} Impact: $1k moves ~${impactBps.toFixed(0)} bps\n`;
+    }
+
     // Market age
     if (market.marketAge !== undefined) {
       const ageHours = market.marketAge / (1000 * 60 * 60);
@@ -1401,4 +1565,87 @@ Avg 24hr P&L:  ${(avgPnL24hr * 100).toFixed(2)}%
       return false;
     }
   }
+  /**
+   * Send the forward-tested paper portfolio P&L report
+   */
+  async sendPaperPortfolioReport(summary: PaperPortfolioSummary): Promise<boolean> {
+    if (!this.config.discord.webhookUrl) return false;
+
+    try {
+      const money = (value: number) => `${value < 0 ? '-' : '+'}$${Math.abs(value).toFixed(2)}`;
+      const fields: { name: string; value: string; inline: boolean }[] = [];
+
+      fields.push({
+        name: '💼 Portfolio',
+        value: `\`\`\`
+Equity:        $${summary.equity.toFixed(2)}
+Starting:      $${summary.startingCapital.toFixed(2)}
+Total Return:  ${summary.totalReturnPct.toFixed(2)}%
+Realized:      ${money(summary.realizedPnL)}
+Unrealized:    ${money(summary.unrealizedPnL)}
+Fees Paid:     $${summary.totalFees.toFixed(2)}
+Cash:          $${summary.cash.toFixed(2)}
+\`\`\``,
+        inline: false
+      });
+
+      fields.push({
+        name: '📅 Last 24 Hours',
+        value: `\`\`\`
+Opened:        ${summary.periodOpened}
+Closed:        ${summary.periodClosed}
+Realized P&L:  ${money(summary.periodRealizedPnL)}
+\`\`\``,
+        inline: false
+      });
+
+      fields.push({
+        name: '📈 Positions',
+        value: `\`\`\`
+Open:          ${summary.openPositions}
+Closed:        ${summary.closedPositions}
+Win Rate:      ${(summary.winRate * 100).toFixed(1)}%
+\`\`\``,
+        inline: false
+      });
+
+      const topTypes = summary.bySignalType.slice(0, 8);
+      if (topTypes.length > 0) {
+        let statsText = '```\n';
+        topTypes.forEach(stat => {
+          const signalName = stat.signalType.replace(/_/g, ' ').substring(0, 22).padEnd(22);
+          statsText += `${signalName} ${String(stat.closed).padStart(3)}  ${money(stat.realizedPnL).padStart(10)}  ${(stat.winRate * 100).toFixed(0).padStart(3)}%\n`;
+        });
+        statsText += '```';
+
+        fields.push({
+          name: '📌 Realized P&L by Signal Type',
+          value: statsText,
+          inline: false
+        });
+      }
+
+      const embed: DiscordEmbed = {
+        title: '💰 Paper Trading P&L Report',
+        description: 'Forward-tested portfolio following live signals',
+        color: summary.totalReturnPct >= 0 ? 0x00ff00 : 0xff0000,
+        fields,
+        footer: {
+          text: 'Poly Early Bot • Paper Trading',
+        },
+        timestamp: new Date().toISOString(),
+      };
+
+      const payload: DiscordWebhookPayload = {
+        embeds: [embed],
+        username: 'Poly Early Bot',
+      };
+
+      logger.info('Sending paper trading P&L report to Discord');
+      return await this.sendWebhookMessage(payload);
+    } catch (error) {
+      logger.error('Error sending paper trading P&L report:', error);
+      return false;
+    }
+  }
 }
\ No newline at end of file
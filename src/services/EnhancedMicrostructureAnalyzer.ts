@@ -1,10 +1,18 @@
-import { OrderbookData, EnhancedMicrostructureMetrics, BotConfig } from '../types';
-import { RingBuffer, StatisticalModels, StatisticalConfig } from '../statistics/StatisticalModels';
+import { OrderbookData, EnhancedMicrostructureMetrics, BotConfig, MarketRegime } from '../types';
+import {
+  RingBuffer,
+  StatisticalModels,
+  StatisticalConfig,
+  StatisticalModelsMarketState,
+  classifyRegime,
+  regimeKey
+} from '../statistics/StatisticalModels';
 import { AnomalyDetector, AnomalyDetectionConfig } from '../statistics/AnomalyDetector';
 import { logger } from '../utils/logger';
+import { clock } from '../utils/Clock';
 import { toBasisPoints } from '../utils/spreadHelpers';
 
-interface TimeBasedBaseline {
+export interface TimeBasedBaseline {
   hourOfDay: number;
   volume: number;
   depth: number;
@@ -14,7 +22,7 @@ interface TimeBasedBaseline {
 }
 
 interface MarketBaselines {
-  hourlyBaselines: Map<number, TimeBasedBaseline>;
+  hourlyBaselines: Map<string, TimeBasedBaseline>; // Keyed by regime and hour
   overallBaselines: {
     volume: number;
     depth: number;
@@ -24,6 +32,24 @@ interface MarketBaselines {
   lastUpdated: number;
 }
 
+export interface RegimeState {
+  closeTime?: number;
+  epoch: number;
+  epochStart: number;     // Sample count at which the current epoch began
+  sampleCount: number;
+}
+
+// Per-market state serialized for checkpoints (see AnalyzerCheckpointService)
+export interface MicrostructureAnalyzerState {
+  buffers: Record<'depth' | 'microPrice' | 'spread' | 'imbalance' | 'volume', number[]>;
+  hourlyBaselines: Array<[string, TimeBasedBaseline]>;
+  overallBaselines: { volume: number; depth: number; spread: number; imbalance: number };
+  lastUpdated: number;
+  regime?: RegimeState;
+  statistics: StatisticalModelsMarketState | null;
+  lastMetrics?: EnhancedMicrostructureMetrics;
+}
+
 export class EnhancedMicrostructureAnalyzer {
   private config: BotConfig;
   private marketMetrics: Map<string, EnhancedMicrostructureMetrics> = new Map();
@@ -40,10 +66,15 @@ export class EnhancedMicrostructureAnalyzer {
   private imbalanceBuffers: Map<string, RingBuffer<number>> = new Map();
   private volumeBuffers: Map<string, RingBuffer<number>> = new Map();
   
+  // Regime tracking (time to close, weekday/weekend, post-break epoch)
+  private regimeStates: Map<string, RegimeState> = new Map();
+  
   // Constants for baseline calculations
   private readonly BASELINE_WINDOW_SIZE = 720; // 6 hours at 30s intervals
   private readonly MICRO_PRICE_WINDOW = 50; // 50 ticks for micro-price calculation
   private readonly SLOPE_CALCULATION_WINDOW = 20; // 20 data points for slope
+  private readonly STRUCTURAL_BREAK_CHECK_INTERVAL = 60; // Check for breaks every 30 minutes at 30s intervals
+  private readonly MIN_EPOCH_SAMPLES = 120; // An epoch lasts at least 1 hour before another break is accepted
   
   constructor(config: BotConfig) {
     this.config = config;
@@ -72,9 +103,10 @@ export class EnhancedMicrostructureAnalyzer {
   }
 
   /**
-   * Process orderbook data and generate enhanced microstructure metrics
+   * Process orderbook data and generate enhanced microstructure metrics.
+   * vpin is the market's current flow toxicity from OrderFlowAnalyzer, when known.
    */
-  processOrderbook(orderbook: OrderbookData): EnhancedMicrostructureMetrics | null {
+  processOrderbook(orderbook: OrderbookData, vpin?: number): EnhancedMicrostructureMetrics | null {
     try {
       const marketId = orderbook.marketId;
       const timestamp = orderbook.timestamp;
@@ -94,11 +126,14 @@ export class EnhancedMicrostructureAnalyzer {
       // Get or create baselines
       const baselines = this.getOrCreateBaselines(marketId);
       
+      // Resolve the regime so z-scores compare against like conditions
+      const regime = this.updateRegime(marketId, timestamp);
+      
       // Calculate robust z-scores using statistical models
-      const zScores = this.calculateRobustZScores(orderbook, depth1Metrics, advancedMetrics, timestamp);
+      const zScores = this.calculateRobustZScores(orderbook, depth1Metrics, advancedMetrics, timestamp, regime);
       
       // Get time-of-day baseline
-      const timeBaseline = this.getTimeOfDayBaseline(marketId, timestamp);
+      const timeBaseline = this.getTimeOfDayBaseline(marketId, timestamp, regime);
       
       const metrics: EnhancedMicrostructureMetrics = {
         marketId,
@@ -129,7 +164,9 @@ export class EnhancedMicrostructureAnalyzer {
         imbalanceZScore: zScores.imbalance,
         
         // Time-based baseline
-        timeOfDayBaseline: timeBaseline
+        timeOfDayBaseline: timeBaseline,
+        regime,
+        vpin
       };
       
       // Store metrics and update baselines
@@ -274,7 +311,8 @@ export class EnhancedMicrostructureAnalyzer {
     orderbook: OrderbookData,
     depthMetrics: any,
     advancedMetrics: any,
-    timestamp: number
+    timestamp: number,
+    regime: MarketRegime
   ): {
     volume: number;
     depth: number;
@@ -284,15 +322,15 @@ export class EnhancedMicrostructureAnalyzer {
     const marketId = orderbook.marketId;
     
     // Update statistical models with current data
-    this.statisticalModels.addDataPoint(marketId, 'depth', depthMetrics.totalDepth);
-    this.statisticalModels.addDataPoint(marketId, 'spread', advancedMetrics.spreadBps);
-    this.statisticalModels.addDataPoint(marketId, 'imbalance', Math.abs(advancedMetrics.imbalance));
+    this.statisticalModels.addDataPoint(marketId, 'depth', depthMetrics.totalDepth, regime);
+    this.statisticalModels.addDataPoint(marketId, 'spread', advancedMetrics.spreadBps, regime);
+    this.statisticalModels.addDataPoint(marketId, 'imbalance', Math.abs(advancedMetrics.imbalance), regime);
     
-    // Calculate time-adjusted z-scores for better anomaly detection
-    const volumeResult = this.statisticalModels.calculateTimeAdjustedZScore(marketId, 'volume', 0, timestamp); // Placeholder volume
-    const depthResult = this.statisticalModels.calculateTimeAdjustedZScore(marketId, 'depth', depthMetrics.totalDepth, timestamp);
-    const spreadResult = this.statisticalModels.calculateTimeAdjustedZScore(marketId, 'spread', advancedMetrics.spreadBps, timestamp);
-    const imbalanceResult = this.statisticalModels.calculateTimeAdjustedZScore(marketId, 'imbalance', Math.abs(advancedMetrics.imbalance), timestamp);
+    // Calculate regime- and time-adjusted z-scores for better anomaly detection
+    const volumeResult = this.statisticalModels.calculateTimeAdjustedZScore(marketId, 'volume', 0, timestamp, regime); // Placeholder volume
+    const depthResult = this.statisticalModels.calculateTimeAdjustedZScore(marketId, 'depth', depthMetrics.totalDepth, timestamp, regime);
+    const spreadResult = this.statisticalModels.calculateTimeAdjustedZScore(marketId, 'spread', advancedMetrics.spreadBps, timestamp, regime);
+    const imbalanceResult = this.statisticalModels.calculateTimeAdjustedZScore(marketId, 'imbalance', Math.abs(advancedMetrics.imbalance), timestamp, regime);
     
     // Log significant anomalies
     if (depthResult.isAnomaly) {
@@ -371,6 +409,21 @@ export class EnhancedMicrostructureAnalyzer {
     return this.statisticalModels.detectStructuralBreaks(marketId, type);
   }
 
+  /**
+   * Set when a market closes so its baselines are segmented by time to close
+   */
+  setMarketCloseTime(marketId: string, closeTime: number | undefined): void {
+    const state = this.getOrCreateRegimeState(marketId);
+    state.closeTime = closeTime !== undefined && Number.isFinite(closeTime) ? closeTime : undefined;
+  }
+
+  /**
+   * Regime of the last processed orderbook for a market
+   */
+  getMarketRegime(marketId: string): MarketRegime | null {
+    return this.marketMetrics.get(marketId)?.regime || null;
+  }
+
   /**
    * Get comprehensive market statistics for a given market
    */
@@ -500,6 +553,45 @@ export class EnhancedMicrostructureAnalyzer {
     }
   }
 
+  private getOrCreateRegimeState(marketId: string): RegimeState {
+    if (!this.regimeStates.has(marketId)) {
+      this.regimeStates.set(marketId, { epoch: 0, epochStart: 0, sampleCount: 0 });
+    }
+    return this.regimeStates.get(marketId)!;
+  }
+
+  /**
+   * Count a sample and classify the market's regime. Every
+   * STRUCTURAL_BREAK_CHECK_INTERVAL samples the spread and depth series are
+   * checked for structural breaks; a break inside the current epoch starts a new
+   * one, so baselines from before a liquidity shift are not compared against.
+   */
+  private updateRegime(marketId: string, timestamp: number): MarketRegime {
+    const state = this.getOrCreateRegimeState(marketId);
+    state.sampleCount++;
+
+    if (state.sampleCount % this.STRUCTURAL_BREAK_CHECK_INTERVAL === 0 &&
+        state.sampleCount - state.epochStart >= this.MIN_EPOCH_SAMPLES) {
+      // Break indices are positions in the window buffer; convert them to sample counts
+      const windowStart = state.sampleCount - Math.min(state.sampleCount, this.BASELINE_WINDOW_SIZE);
+      const breaks = [
+        ...this.statisticalModels.detectStructuralBreaks(marketId, 'spread'),
+        ...this.statisticalModels.detectStructuralBreaks(marketId, 'depth')
+      ].map(index => windowStart + index);
+      const latestBreak = breaks.length > 0 ? Math.max(...breaks) : -1;
+
+      if (latestBreak - state.epochStart >= this.MIN_EPOCH_SAMPLES) {
+        state.epoch++;
+        state.epochStart = latestBreak;
+        this.statisticalModels.clearRegimeBaselines(marketId);
+        this.marketBaselines.get(marketId)?.hourlyBaselines.clear();
+        logger.info(`Structural break in market ${marketId}: starting regime epoch ${state.epoch}`);
+      }
+    }
+
+    return classifyRegime(timestamp, state.closeTime, state.epoch);
+  }
+
   /**
    * Get or create baselines for a market
    */
@@ -513,7 +605,7 @@ export class EnhancedMicrostructureAnalyzer {
           spread: 0,
           imbalance: 0
         },
-        lastUpdated: Date.now()
+        lastUpdated: clock.now()
       };
       this.marketBaselines.set(marketId, baselines);
     }
@@ -523,17 +615,17 @@ export class EnhancedMicrostructureAnalyzer {
   /**
    * Get time-of-day baseline for a specific hour
    */
-  private getTimeOfDayBaseline(marketId: string, timestamp: number): {
+  private getTimeOfDayBaseline(marketId: string, timestamp: number, regime: MarketRegime): {
     volume: number;
     depth: number;
     spread: number;
     imbalance: number;
   } {
-    const hour = new Date(timestamp).getHours();
+    const key = `${regimeKey(regime)}|${new Date(timestamp).getHours()}`;
     const baselines = this.marketBaselines.get(marketId);
     
-    if (baselines && baselines.hourlyBaselines.has(hour)) {
-      const hourlyBaseline = baselines.hourlyBaselines.get(hour)!;
+    if (baselines && baselines.hourlyBaselines.has(key)) {
+      const hourlyBaseline = baselines.hourlyBaselines.get(key)!;
       return {
         volume: hourlyBaseline.volume,
         depth: hourlyBaseline.depth,
@@ -557,10 +649,11 @@ export class EnhancedMicrostructureAnalyzer {
   private updateBaselines(marketId: string, metrics: EnhancedMicrostructureMetrics, timestamp: number): void {
     const baselines = this.marketBaselines.get(marketId)!;
     const hour = new Date(timestamp).getHours();
+    const key = metrics.regime ? `${regimeKey(metrics.regime)}|${hour}` : `${hour}`;
     
-    // Update hourly baselines
-    if (!baselines.hourlyBaselines.has(hour)) {
-      baselines.hourlyBaselines.set(hour, {
+    // Update hourly baselines within the current regime
+    if (!baselines.hourlyBaselines.has(key)) {
+      baselines.hourlyBaselines.set(key, {
         hourOfDay: hour,
         volume: 0,
         depth: metrics.depth1Total,
@@ -569,7 +662,7 @@ export class EnhancedMicrostructureAnalyzer {
         sampleCount: 1
       });
     } else {
-      const hourlyBaseline = baselines.hourlyBaselines.get(hour)!;
+      const hourlyBaseline = baselines.hourlyBaselines.get(key)!;
       const count = hourlyBaseline.sampleCount;
       
       // Running average update
@@ -590,6 +683,93 @@ export class EnhancedMicrostructureAnalyzer {
     baselines.lastUpdated = timestamp;
   }
 
+  /**
+   * Markets with baselines, i.e. those exportMarketState can snapshot
+   */
+  getCheckpointMarketIds(): string[] {
+    return Array.from(this.marketBaselines.keys());
+  }
+
+  /**
+   * Snapshot of a market's buffers, baselines, regime and statistical models
+   */
+  exportMarketState(marketId: string): MicrostructureAnalyzerState | null {
+    const baselines = this.marketBaselines.get(marketId);
+    if (!baselines || !this.depthBuffers.has(marketId)) return null;
+
+    return {
+      buffers: {
+        depth: this.depthBuffers.get(marketId)!.getAll(),
+        microPrice: this.microPriceBuffers.get(marketId)!.getAll(),
+        spread: this.spreadBuffers.get(marketId)!.getAll(),
+        imbalance: this.imbalanceBuffers.get(marketId)!.getAll(),
+        volume: this.volumeBuffers.get(marketId)!.getAll()
+      },
+      hourlyBaselines: Array.from(baselines.hourlyBaselines.entries()),
+      overallBaselines: { ...baselines.overallBaselines },
+      lastUpdated: baselines.lastUpdated,
+      regime: this.regimeStates.has(marketId) ? { ...this.regimeStates.get(marketId)! } : undefined,
+      statistics: this.statisticalModels.exportMarketState(marketId),
+      lastMetrics: this.marketMetrics.get(marketId)
+    };
+  }
+
+  /**
+   * Restore a market from exportMarketState. A close time set since the
+   * checkpoint (setMarketCloseTime) is kept.
+   */
+  importMarketState(marketId: string, state: MicrostructureAnalyzerState): void {
+    const fill = (capacity: number, values: number[] = []) => {
+      const buffer = new RingBuffer<number>(capacity);
+      for (const value of values.slice(-capacity)) buffer.push(value);
+      return buffer;
+    };
+
+    this.depthBuffers.set(marketId, fill(this.BASELINE_WINDOW_SIZE, state.buffers.depth));
+    this.microPriceBuffers.set(marketId, fill(this.MICRO_PRICE_WINDOW, state.buffers.microPrice));
+    this.spreadBuffers.set(marketId, fill(this.BASELINE_WINDOW_SIZE, state.buffers.spread));
+    this.imbalanceBuffers.set(marketId, fill(this.BASELINE_WINDOW_SIZE, state.buffers.imbalance));
+    this.volumeBuffers.set(marketId, fill(this.BASELINE_WINDOW_SIZE, state.buffers.volume));
+
+    this.marketBaselines.set(marketId, {
+      hourlyBaselines: new Map(state.hourlyBaselines),
+      overallBaselines: { ...state.overallBaselines },
+      lastUpdated: state.lastUpdated
+    });
+
+    if (state.regime) {
+      const closeTime = this.regimeStates.get(marketId)?.closeTime ?? state.regime.closeTime;
+      this.regimeStates.set(marketId, { ...state.regime, closeTime });
+    }
+    if (state.statistics) {
+      this.statisticalModels.importMarketState(marketId, state.statistics);
+    }
+    if (state.lastMetrics) {
+      this.marketMetrics.set(marketId, state.lastMetrics);
+    }
+  }
+
+  /**
+   * Seed baselines from stored metrics (microstructure_metrics rows) when no
+   * checkpoint or orderbook history is available. Rows must be oldest first.
+   */
+  seedFromMetrics(metrics: Pick<EnhancedMicrostructureMetrics, 'marketId' | 'timestamp' | 'depth1Total' | 'microPrice' | 'spreadBps' | 'orderBookImbalance'>): void {
+    const { marketId, timestamp } = metrics;
+    this.initializeBuffersForMarket(marketId);
+    this.getOrCreateBaselines(marketId);
+    const regime = this.updateRegime(marketId, timestamp);
+
+    this.depthBuffers.get(marketId)!.push(metrics.depth1Total);
+    this.microPriceBuffers.get(marketId)!.push(metrics.microPrice);
+    this.spreadBuffers.get(marketId)!.push(metrics.spreadBps);
+
+    this.statisticalModels.addDataPoint(marketId, 'depth', metrics.depth1Total, regime);
+    this.statisticalModels.addDataPoint(marketId, 'spread', metrics.spreadBps, regime);
+    this.statisticalModels.addDataPoint(marketId, 'imbalance', Math.abs(metrics.orderBookImbalance), regime);
+
+    this.updateBaselines(marketId, { ...metrics, regime } as EnhancedMicrostructureMetrics, timestamp);
+  }
+
   /**
    * Get enhanced metrics for a market
    */
@@ -601,7 +781,7 @@ export class EnhancedMicrostructureAnalyzer {
    * Cleanup stale market data
    */
   cleanupStaleMarkets(maxAge: number = 24 * 60 * 60 * 1000): void {
-    const now = Date.now();
+    const now = clock.now();
     const staleMarkets: string[] = [];
     
     for (const [marketId, baselines] of this.marketBaselines) {
@@ -618,6 +798,9 @@ export class EnhancedMicrostructureAnalyzer {
       this.spreadBuffers.delete(marketId);
       this.imbalanceBuffers.delete(marketId);
       this.volumeBuffers.delete(marketId);
+      this.regimeStates.delete(marketId);
+      this.statisticalModels.clearRegimeBaselines(marketId);
+      this.anomalyDetector.clearMarket(marketId);
     }
     
     if (staleMarkets.length > 0) {
@@ -1,11 +1,12 @@
 import { BotConfig, Market, OrderbookData, TickData } from '../types';
-import { PolymarketService } from './PolymarketService';
+import { MarketLookupOptions, PolymarketService } from './PolymarketService';
 import { MarketClassifier } from './MarketClassifier';
 import { DataAccessLayer } from '../data/DataAccessLayer';
 import { configManager } from '../config/ConfigManager';
 import { logger } from '../utils/logger';
 import { advancedLogger } from '../utils/AdvancedLogger';
 import { polymarketRateLimiter } from '../utils/RateLimiter';
+import { estimatePriceImpact, PriceImpactEstimate } from '../statistics/PriceImpact';
 
 interface MarketSyncStats {
   marketsProcessed: number;
@@ -37,6 +38,10 @@ export class EnhancedPolymarketService extends PolymarketService {
   private isRunning = false;
   private isSyncing = false; // Track if sync is currently in progress
   private syncPromise: Promise<void> | null = null; // Track current sync operation
+  private priceImpacts: Map<string, PriceImpactEstimate> = new Map();
+  private priceImpactCheckedAt: Map<string, number> = new Map();
+  private readonly PRICE_IMPACT_WINDOW_MS = 86400000; // 24 hours of trades per estimate
+  private readonly PRICE_IMPACT_REFRESH_MS = 900000; // Re-estimate each market at most every 15 minutes
 
   constructor(config: BotConfig, dataLayer: DataAccessLayer) {
     super(config);
@@ -54,6 +59,9 @@ export class EnhancedPolymarketService extends PolymarketService {
 
   async initialize(): Promise<void> {
     await super.initialize();
+
+    // Stored estimates first, so the initial sync scores liquidity from measured impact
+    await this.loadPriceImpactEstimates();
     
     // Start background sync processes
     await this.startBackgroundSync();
@@ -273,23 +281,24 @@ export class EnhancedPolymarketService extends PolymarketService {
     }
   }
 
-  async getMarketById(marketId: string): Promise<Market | null> {
+  async getMarketById(marketId: string, options: MarketLookupOptions = {}): Promise<Market | null> {
     try {
       // SAFETY CHECK: Don't access database if service is shutting down
       if (!this.isRunning) {
         logger.debug(`Service is shutting down, skipping database access for market ${marketId}`);
-        return super.getMarketById(marketId); // Fallback to API only
+        return super.getMarketById(marketId, options); // Fallback to API only
       }
 
-      // Try database first (faster)
-      let market = await this.dataLayer.getMarket(marketId);
+      // Try database first (faster). Resolution lookups skip it: the stored row
+      // still says open after the market closes
+      let market = options.includeClosed ? null : await this.dataLayer.getMarket(marketId);
 
       if (market) {
         return market;
       }
 
       // Fallback to API
-      market = await super.getMarketById(marketId);
+      market = await super.getMarketById(marketId, options);
 
       if (market && this.isRunning) {
         // Save to database for future use (only if still running)
@@ -433,6 +442,77 @@ export class EnhancedPolymarketService extends PolymarketService {
     return results;
   }
 
+  // Price impact estimation
+  /**
+   * Re-estimate Kyle's lambda and Amihud illiquidity for markets whose estimate
+   * is older than the refresh interval, from stored trades and orderbook mids
+   * over the trailing window. New estimates are persisted and applied to the
+   * market cache. Returns the number of markets estimated.
+   */
+  async refreshPriceImpact(marketIds: string[], now: number = Date.now()): Promise<number> {
+    const windowStart = now - this.PRICE_IMPACT_WINDOW_MS;
+    let estimated = 0;
+
+    for (const marketId of marketIds) {
+      if (!this.isRunning) break;
+      const checkedAt = this.priceImpactCheckedAt.get(marketId);
+      if (checkedAt !== undefined && now - checkedAt < this.PRICE_IMPACT_REFRESH_MS) continue;
+      this.priceImpactCheckedAt.set(marketId, now);
+
+      try {
+        const [trades, mids] = await Promise.all([
+          this.dataLayer.getTradeTicksInRange(windowStart, now, [marketId]),
+          this.dataLayer.getMidPricesInRange(marketId, windowStart, now)
+        ]);
+
+        const estimate = estimatePriceImpact(marketId, trades, mids, windowStart, now);
+        if (!estimate) continue;
+
+        await this.dataLayer.savePriceImpactEstimate(estimate, now);
+        this.applyPriceImpact(estimate);
+        estimated++;
+      } catch (error) {
+        logger.debug(`Failed to estimate price impact for ${marketId}:`, error);
+      }
+    }
+
+    if (estimated > 0) {
+      advancedLogger.info(`Estimated price impact for ${estimated} markets`, {
+        component: 'enhanced_polymarket_service',
+        operation: 'refresh_price_impact',
+        metadata: { estimated, candidates: marketIds.length, windowMs: this.PRICE_IMPACT_WINDOW_MS }
+      });
+    }
+
+    return estimated;
+  }
+
+  getPriceImpact(marketId: string): PriceImpactEstimate | null {
+    return this.priceImpacts.get(marketId) || null;
+  }
+
+  getPriceImpacts(): Map<string, PriceImpactEstimate> {
+    return new Map(this.priceImpacts);
+  }
+
+  private async loadPriceImpactEstimates(): Promise<void> {
+    try {
+      const estimates = await this.dataLayer.getLatestPriceImpactEstimates();
+      for (const estimate of estimates) {
+        this.applyPriceImpact(estimate);
+        this.priceImpactCheckedAt.set(estimate.marketId, estimate.windowEnd);
+      }
+      logger.info(`Loaded ${estimates.length} stored price impact estimates`);
+    } catch (error) {
+      logger.warn('Failed to load stored price impact estimates:', error);
+    }
+  }
+
+  private applyPriceImpact(estimate: PriceImpactEstimate): void {
+    this.priceImpacts.set(estimate.marketId, estimate);
+    this.updateMarketPriceImpact(estimate.marketId, estimate.impactBpsPer1k);
+  }
+
   // Analytics and monitoring
   async getMarketStatistics(): Promise<any> {
     try {
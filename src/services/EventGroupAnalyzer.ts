@@ -0,0 +1,275 @@
+import { PriceHistoryTracker } from './PriceHistoryTracker';
+import { EarlySignal, Market, MarketEvent } from '../types';
+import { advancedLogger as logger } from '../utils/AdvancedLogger';
+
+export interface EventGroupConfig {
+  minSumDeviation: number;        // |sum of Yes prices - 1| that counts as mispricing (negRisk events only)
+  minSiblingMove: number;         // Probability points a sibling must move to count as moving
+  minMovingSiblings: number;      // Siblings that must move together for a coordinated move
+  minProbabilityFlow: number;     // Total absolute probability moved across the moving siblings
+  moveWindows: number[];          // Windows checked for coordinated moves, shortest first
+  signalCooldownMs: number;       // Per event and signal type
+}
+
+export interface SiblingPrice {
+  marketId: string;
+  question: string;
+  price: number;
+}
+
+export interface SiblingMove extends SiblingPrice {
+  fromPrice: number;
+  change: number;                 // Probability points over the window
+}
+
+export interface EventAnalysis {
+  event: MarketEvent;
+  markets: Market[];
+  prices: SiblingPrice[];
+  probabilitySum: number;
+  deviation: number;              // probabilitySum - 1
+  halfSpreadSum: number;          // Cost of crossing every sibling's spread, in probability points
+  complete: boolean;              // Every open sibling of the event is present and priced
+}
+
+/**
+ * Event-level analytics for sibling markets of one Gamma event
+ *
+ * Polymarket lists multi-outcome events as one binary market per outcome. For
+ * negRisk events exactly one outcome resolves Yes, so sibling Yes prices should
+ * sum to 1; a persistent gap is a mispricing (or an arbitrage once it exceeds the
+ * spreads). Siblings are also mechanically linked - news about one candidate moves
+ * probability between all of them - so coordinated sibling moves are detected
+ * here rather than counted as independent markets by CrossMarketCorrelationDetector.
+ */
+export class EventGroupAnalyzer {
+  private priceTracker: PriceHistoryTracker;
+  private config: EventGroupConfig;
+  private lastSignalTimes: Map<string, number> = new Map();
+
+  constructor(priceTracker: PriceHistoryTracker, config?: Partial<EventGroupConfig>) {
+    this.priceTracker = priceTracker;
+    this.config = {
+      minSumDeviation: 0.05,
+      minSiblingMove: 0.03,
+      minMovingSiblings: 2,
+      minProbabilityFlow: 0.08,
+      moveWindows: [
+        900000,   // 15 minutes
+        3600000   // 1 hour
+      ],
+      signalCooldownMs: 1800000, // 30 minutes
+      ...config
+    };
+  }
+
+  /**
+   * Record sibling prices and run both detectors on every event group
+   * (see PolymarketService.getEventGroups)
+   */
+  analyze(eventGroups: Map<string, Market[]>, now: number = Date.now()): { events: MarketEvent[]; signals: EarlySignal[] } {
+    const events: MarketEvent[] = [];
+    const signals: EarlySignal[] = [];
+
+    for (const siblings of eventGroups.values()) {
+      for (const market of siblings) {
+        this.priceTracker.recordMarketUpdate(market);
+      }
+
+      const analysis = this.analyzeEvent(siblings, now);
+      if (!analysis) continue;
+      events.push(analysis.event);
+
+      for (const signal of [this.detectMispricing(analysis, now), this.detectCoordinatedMove(analysis, now)]) {
+        if (signal) signals.push(signal);
+      }
+    }
+
+    if (signals.length > 0) {
+      logger.info(`Event analysis: ${signals.length} signals across ${events.length} events`, {
+        component: 'event_group_analyzer',
+        operation: 'analyze',
+        metadata: { eventCount: events.length, signalCount: signals.length }
+      });
+    }
+
+    return { events, signals };
+  }
+
+  /**
+   * Sum of probabilities across the siblings of one event
+   */
+  analyzeEvent(siblings: Market[], now: number = Date.now()): EventAnalysis | null {
+    const metadata = siblings[0]?.metadata;
+    if (!metadata?.eventId || siblings.length < 2) return null;
+
+    const prices: SiblingPrice[] = [];
+    let halfSpreadSum = 0;
+    for (const market of siblings) {
+      const price = parseFloat(market.outcomePrices?.[0]);
+      if (!Number.isFinite(price)) continue;
+      prices.push({ marketId: market.id, question: market.question, price });
+      halfSpreadSum += (market.spread || 0) / 10000 / 2;
+    }
+
+    const probabilitySum = prices.reduce((sum, p) => sum + p.price, 0);
+    const expectedCount = metadata.eventMarketCount || siblings.length;
+
+    return {
+      event: {
+        id: metadata.eventId,
+        slug: metadata.eventSlug,
+        title: metadata.eventTitle || siblings[0].question,
+        negRisk: siblings.some(m => m.metadata?.negRisk === true),
+        marketIds: siblings.map(m => m.id),
+        probabilitySum,
+        updatedAt: now
+      },
+      markets: siblings,
+      prices,
+      probabilitySum,
+      deviation: probabilitySum - 1,
+      halfSpreadSum,
+      complete: prices.length === siblings.length && siblings.length >= expectedCount
+    };
+  }
+
+  /**
+   * Sibling Yes prices of a mutually exclusive event that do not sum to 1.
+   * Only complete negRisk events are checked; other events (e.g. price ladders)
+   * have no sum constraint.
+   */
+  detectMispricing(analysis: EventAnalysis, now: number = Date.now()): EarlySignal | null {
+    if (!analysis.event.negRisk || !analysis.complete) return null;
+
+    const deviation = analysis.deviation;
+    if (Math.abs(deviation) < this.config.minSumDeviation) return null;
+    if (this.isCoolingDown(analysis.event.id, 'event_mispricing', now)) return null;
+
+    // The gap is only tradeable once it exceeds the cost of crossing every sibling's spread
+    const executable = Math.abs(deviation) > analysis.halfSpreadSum;
+
+    let confidence = 0.5;
+    if (Math.abs(deviation) >= 0.1) confidence += 0.2;
+    else if (Math.abs(deviation) >= 0.07) confidence += 0.1;
+    if (executable) confidence += 0.2;
+    confidence = Math.min(confidence, 1.0);
+
+    // Overpriced events are traded by selling Yes, underpriced ones by buying it; the most liquid sibling represents the event
+    const primaryMarket = [...analysis.markets].sort((a, b) => (b.volumeNum || 0) - (a.volumeNum || 0))[0];
+
+    logger.info(`⚖️ Event mispricing: "${analysis.event.title}" probabilities sum to ${analysis.probabilitySum.toFixed(3)}`, {
+      component: 'event_group_analyzer',
+      operation: 'detect_mispricing',
+      metadata: { eventId: analysis.event.id, probabilitySum: analysis.probabilitySum, executable }
+    });
+
+    this.lastSignalTimes.set(`${analysis.event.id}:event_mispricing`, now);
+    return {
+      marketId: primaryMarket.id,
+      market: primaryMarket,
+      signalType: 'event_mispricing',
+      timestamp: now,
+      confidence,
+      metadata: {
+        eventId: analysis.event.id,
+        eventTitle: analysis.event.title,
+        probabilitySum: analysis.probabilitySum,
+        deviation,
+        halfSpreadSum: analysis.halfSpreadSum,
+        executable,
+        siblingPrices: analysis.prices,
+        correlatedMarkets: analysis.event.marketIds,
+        marketCount: analysis.markets.length,
+        direction: deviation > 0 ? 'bearish' : 'bullish'
+      }
+    };
+  }
+
+  /**
+   * Several siblings repricing within one window. In a negRisk event probability
+   * flowing from some outcomes into others is the footprint of news about one of them.
+   */
+  detectCoordinatedMove(analysis: EventAnalysis, now: number = Date.now()): EarlySignal | null {
+    if (this.isCoolingDown(analysis.event.id, 'event_coordinated_move', now)) return null;
+
+    for (const windowMs of this.config.moveWindows) {
+      const moves = this.getSiblingMoves(analysis.markets, windowMs);
+      const moving = moves.filter(move => Math.abs(move.change) >= this.config.minSiblingMove);
+      if (moving.length < this.config.minMovingSiblings) continue;
+
+      const probabilityFlow = moving.reduce((sum, move) => sum + Math.abs(move.change), 0);
+      if (probabilityFlow < this.config.minProbabilityFlow) continue;
+
+      const netChange = moves.reduce((sum, move) => sum + move.change, 0);
+      const reallocation = moving.some(move => move.change > 0) && moving.some(move => move.change < 0);
+
+      let confidence = 0.5;
+      if (probabilityFlow >= 0.2) confidence += 0.2;
+      else if (probabilityFlow >= 0.12) confidence += 0.1;
+      if (moving.length >= 3) confidence += 0.1;
+      if (analysis.event.negRisk && reallocation) confidence += 0.1;
+      confidence = Math.min(confidence, 1.0);
+
+      // The sibling that moved most carries the news
+      const leader = [...moving].sort((a, b) => Math.abs(b.change) - Math.abs(a.change))[0];
+      const primaryMarket = analysis.markets.find(m => m.id === leader.marketId)!;
+
+      logger.info(`🔀 Coordinated sibling move: "${analysis.event.title}" ${moving.length} markets, ` +
+        `flow=${probabilityFlow.toFixed(3)} in ${windowMs / 60000} minutes`, {
+        component: 'event_group_analyzer',
+        operation: 'detect_coordinated_move',
+        metadata: { eventId: analysis.event.id, movingSiblings: moving.length, probabilityFlow, netChange, windowMs }
+      });
+
+      this.lastSignalTimes.set(`${analysis.event.id}:event_coordinated_move`, now);
+      return {
+        marketId: primaryMarket.id,
+        market: primaryMarket,
+        signalType: 'event_coordinated_move',
+        timestamp: now,
+        confidence,
+        metadata: {
+          eventId: analysis.event.id,
+          eventTitle: analysis.event.title,
+          windowMs,
+          siblingMoves: moving,
+          probabilityFlow,
+          netChange,
+          reallocation,
+          probabilitySum: analysis.probabilitySum,
+          correlatedMarkets: moving.map(move => move.marketId),
+          marketCount: moving.length,
+          direction: leader.change > 0 ? 'bullish' : 'bearish'
+        }
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Get configuration
+   */
+  getConfig(): EventGroupConfig {
+    return { ...this.config };
+  }
+
+  private getSiblingMoves(markets: Market[], windowMs: number): SiblingMove[] {
+    const moves: SiblingMove[] = [];
+    for (const market of markets) {
+      const history = this.priceTracker.getPriceHistory(market.id, windowMs);
+      if (history.length < 2) continue;
+
+      const fromPrice = history[0].price;
+      const price = history[history.length - 1].price;
+      moves.push({ marketId: market.id, question: market.question, price, fromPrice, change: price - fromPrice });
+    }
+    return moves;
+  }
+
+  private isCoolingDown(eventId: string, signalType: EarlySignal['signalType'], now: number): boolean {
+    const last = this.lastSignalTimes.get(`${eventId}:${signalType}`);
+    return last !== undefined && now - last < this.config.signalCooldownMs;
+  }
+}
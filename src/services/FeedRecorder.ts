@@ -0,0 +1,197 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import * as zlib from 'zlib';
+import { logger } from '../utils/logger';
+
+/**
+ * One line of a recorded feed file: the raw WebSocket payload and when it arrived.
+ */
+export interface RecordedMessage {
+  t: number;   // Arrival timestamp (ms since epoch)
+  m: string;   // Raw message exactly as received
+}
+
+export interface ReplayOptions {
+  // Playback speed relative to the recording: 1 = real time, 10 = ten times faster, 0 = as fast as possible
+  speed?: number;
+  // Upper bound on any single wait between messages (ms, after applying speed)
+  maxDelayMs?: number;
+}
+
+export interface ReplayStats {
+  messages: number;
+  skipped: number;
+  firstTimestamp: number;
+  lastTimestamp: number;
+  durationMs: number;
+}
+
+/**
+ * Records every raw WebSocket message to a gzip-compressed newline-delimited file
+ * so a live session can be replayed later through the same parsing path.
+ */
+export class FeedRecorder {
+  private filePath: string;
+  private gzip: zlib.Gzip | null = null;
+  private output: fs.WriteStream | null = null;
+  private messagesRecorded = 0;
+  private startedAt = 0;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  start(): void {
+    if (this.gzip) {
+      logger.warn(`Feed recorder already writing to ${this.filePath}`);
+      return;
+    }
+
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    this.gzip = zlib.createGzip();
+    this.output = fs.createWriteStream(this.filePath);
+    this.gzip.pipe(this.output);
+
+    this.output.on('error', (error) => {
+      logger.error(`Feed recorder write error (${this.filePath}):`, error);
+    });
+
+    this.messagesRecorded = 0;
+    this.startedAt = Date.now();
+    logger.info(`📼 Recording WebSocket feed to ${this.filePath}`);
+  }
+
+  record(raw: string, receivedAt: number): void {
+    if (!this.gzip) return;
+
+    const entry: RecordedMessage = { t: receivedAt, m: raw };
+    this.gzip.write(`${JSON.stringify(entry)}\n`);
+    this.messagesRecorded++;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.gzip || !this.output) return;
+
+    const output = this.output;
+    const finished = new Promise<void>((resolve) => {
+      output.on('close', () => resolve());
+    });
+
+    this.gzip.end();
+    await finished;
+
+    logger.info(`📼 Feed recording stopped: ${this.messagesRecorded} messages written to ${this.filePath}`);
+    this.gzip = null;
+    this.output = null;
+  }
+
+  isRecording(): boolean {
+    return this.gzip !== null;
+  }
+
+  getStats(): { filePath: string; recording: boolean; messagesRecorded: number; startedAt: number } {
+    return {
+      filePath: this.filePath,
+      recording: this.isRecording(),
+      messagesRecorded: this.messagesRecorded,
+      startedAt: this.startedAt,
+    };
+  }
+}
+
+/**
+ * Reads a file written by FeedRecorder and hands each message back with its
+ * original arrival timestamp, pacing delivery at real or accelerated speed.
+ */
+export class FeedReplaySource {
+  private filePath: string;
+  private options: Required<ReplayOptions>;
+  private stopped = false;
+
+  constructor(filePath: string, options: ReplayOptions = {}) {
+    this.filePath = filePath;
+    this.options = {
+      speed: options.speed ?? 1,
+      maxDelayMs: options.maxDelayMs ?? 60000,
+    };
+  }
+
+  async replay(onMessage: (raw: string, receivedAt: number) => void): Promise<ReplayStats> {
+    if (!fs.existsSync(this.filePath)) {
+      throw new Error(`Feed recording not found: ${this.filePath}`);
+    }
+
+    this.stopped = false;
+    const stats: ReplayStats = { messages: 0, skipped: 0, firstTimestamp: 0, lastTimestamp: 0, durationMs: 0 };
+    const startedAt = Date.now();
+
+    const fileStream = fs.createReadStream(this.filePath);
+    const input = this.isGzipped() ? fileStream.pipe(zlib.createGunzip()) : fileStream;
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+    let previousTimestamp = 0;
+
+    try {
+      for await (const line of lines) {
+        if (this.stopped) break;
+        if (!line.trim()) continue;
+
+        let entry: RecordedMessage;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          stats.skipped++;
+          continue;
+        }
+
+        if (typeof entry.t !== 'number' || typeof entry.m !== 'string') {
+          stats.skipped++;
+          continue;
+        }
+
+        if (previousTimestamp > 0 && this.options.speed > 0) {
+          const delay = Math.min((entry.t - previousTimestamp) / this.options.speed, this.options.maxDelayMs);
+          if (delay > 0) {
+            await new Promise(resolve => setTimeout(resolve, delay));
+          }
+        }
+
+        if (stats.firstTimestamp === 0) stats.firstTimestamp = entry.t;
+        stats.lastTimestamp = entry.t;
+        previousTimestamp = entry.t;
+
+        onMessage(entry.m, entry.t);
+        stats.messages++;
+      }
+    } finally {
+      lines.close();
+      fileStream.destroy();
+    }
+
+    stats.durationMs = Date.now() - startedAt;
+    logger.info(`📼 Replayed ${stats.messages} messages from ${this.filePath} (${stats.skipped} skipped) in ${stats.durationMs}ms`);
+
+    return stats;
+  }
+
+  stop(): void {
+    this.stopped = true;
+  }
+
+  private isGzipped(): boolean {
+    // Check the gzip magic bytes rather than trusting the file extension
+    const fd = fs.openSync(this.filePath, 'r');
+    try {
+      const header = Buffer.alloc(2);
+      const bytesRead = fs.readSync(fd, header, 0, 2, 0);
+      return bytesRead === 2 && header[0] === 0x1f && header[1] === 0x8b;
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+}
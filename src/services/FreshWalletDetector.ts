@@ -0,0 +1,261 @@
+import { EarlySignal, Market, TickData } from '../types';
+import { TopicClusteringEngine } from './TopicClusteringEngine';
+import { advancedLogger as logger } from '../utils/AdvancedLogger';
+
+export interface FreshWalletConfig {
+  maxWalletAgeMs: number;         // Wallets whose first activity is more recent count as fresh
+  positionWindowMs: number;       // Trades summed into positions and concentration
+  minPositionNotional: number;    // Net dollars bought of one outcome
+  minVolumeShare: number;         // Position relative to the market's lifetime volume
+  minConcentration: number;       // Share of the wallet's notional in the market or its topic
+  signalCooldownMs: number;       // Per market and wallet
+}
+
+/**
+ * Earliest activity of a wallet, or null when it can't be determined
+ */
+export type FirstActivityLookup = (walletAddress: string) => Promise<number | null>;
+
+interface FreshWalletTrade {
+  marketId: string;
+  timestamp: number;
+  outcomeIndex: number;
+  signedNotional: number;         // Positive for buys of the outcome
+  signedShares: number;
+}
+
+const DEFAULT_CONFIG: FreshWalletConfig = {
+  maxWalletAgeMs: 604800000,      // 7 days
+  positionWindowMs: 86400000,     // 24 hours
+  minPositionNotional: 2000,
+  minVolumeShare: 0.02,
+  minConcentration: 0.8,
+  signalCooldownMs: 21600000      // 6 hours
+};
+
+/**
+ * Fresh-wallet, concentrated-position detection
+ *
+ * Insider trades often come from a newly funded wallet taking one large
+ * position. A trade is flagged when the wallet's net buying of one outcome is
+ * large in absolute terms and relative to the market's volume, nearly all of
+ * the wallet's recent notional sits in this market or its topic cluster, and
+ * the wallet's first activity is recent. First activity is looked up only
+ * for wallets that pass the position checks, and cached; wallets found to be
+ * established are ignored from then on.
+ *
+ * Signals are information_leak signals with leakType 'fresh_wallet'.
+ */
+export class FreshWalletDetector {
+  private config: FreshWalletConfig;
+  private firstActivity: FirstActivityLookup;
+  private topicClustering?: TopicClusteringEngine;
+  private walletTrades: Map<string, FreshWalletTrade[]> = new Map();
+  private firstActivityTimes: Map<string, number> = new Map();
+  private establishedWallets: Set<string> = new Set();
+  private lastSignalTimes: Map<string, number> = new Map();
+  private lastPrune = 0;
+
+  constructor(firstActivity: FirstActivityLookup, config: Partial<FreshWalletConfig> = {}) {
+    this.firstActivity = firstActivity;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Measure topic concentration against these clusters (market concentration only without)
+   */
+  setTopicClustering(topicClustering: TopicClusteringEngine): void {
+    this.topicClustering = topicClustering;
+  }
+
+  /**
+   * Record an attributed trade. Uses the trade timestamp as the clock so
+   * replays behave like live data.
+   */
+  /**
+   * First activity from the data API, or the first stored trade when earlier.
+   * Stored trades only cover tracked markets and already include the trade
+   * being checked, so without an API answer they can only show that a wallet
+   * is established: a failed lookup gives null unless the stored trade is
+   * older than maxWalletAgeMs.
+   */
+  static combineFirstActivity(
+    fromApi: FirstActivityLookup,
+    fromStore: FirstActivityLookup,
+    maxWalletAgeMs: number = DEFAULT_CONFIG.maxWalletAgeMs,
+    now: () => number = Date.now
+  ): FirstActivityLookup {
+    return async (walletAddress: string) => {
+      const apiTime = await fromApi(walletAddress);
+      const storedTime = await fromStore(walletAddress);
+      if (apiTime !== null) {
+        return storedTime !== null ? Math.min(apiTime, storedTime) : apiTime;
+      }
+      return storedTime !== null && now() - storedTime > maxWalletAgeMs ? storedTime : null;
+    };
+  }
+
+  async recordTrade(tick: TickData, market: Market): Promise<EarlySignal | null> {
+    const wallet = tick.traderAddress?.toLowerCase();
+    if (!wallet || this.establishedWallets.has(wallet)) return null;
+
+    const outcomeIndex = tick.outcomeIndex ?? 0;
+    const direction = tick.side === 'buy' ? 1 : -1;
+    const cutoff = tick.timestamp - this.config.positionWindowMs;
+    const trades = (this.walletTrades.get(wallet) || []).filter(trade => trade.timestamp >= cutoff);
+    trades.push({
+      marketId: tick.marketId,
+      timestamp: tick.timestamp,
+      outcomeIndex,
+      signedNotional: direction * tick.price * tick.size,
+      signedShares: direction * tick.size
+    });
+    this.walletTrades.set(wallet, trades);
+    this.prune(tick.timestamp);
+
+    // Net position in this outcome
+    let positionNotional = 0;
+    let positionShares = 0;
+    let positionTrades = 0;
+    for (const trade of trades) {
+      if (trade.marketId !== tick.marketId || trade.outcomeIndex !== outcomeIndex) continue;
+      positionNotional += trade.signedNotional;
+      positionShares += trade.signedShares;
+      positionTrades++;
+    }
+    if (positionNotional < this.config.minPositionNotional) return null;
+
+    const volumeShare = market.volumeNum > 0 ? positionNotional / market.volumeNum : 1;
+    if (volumeShare < this.config.minVolumeShare) return null;
+
+    const concentration = this.concentration(trades, tick.marketId);
+    if (Math.max(concentration.market, concentration.topic) < this.config.minConcentration) return null;
+
+    const cooldownKey = `${tick.marketId}:${wallet}`;
+    const lastSignal = this.lastSignalTimes.get(cooldownKey);
+    if (lastSignal !== undefined && tick.timestamp - lastSignal < this.config.signalCooldownMs) return null;
+
+    const firstActivityAt = await this.getFirstActivity(wallet);
+    if (firstActivityAt === null) return null;
+
+    const walletAgeMs = Math.max(0, tick.timestamp - firstActivityAt);
+    if (walletAgeMs > this.config.maxWalletAgeMs) {
+      this.establishedWallets.add(wallet);
+      this.walletTrades.delete(wallet);
+      this.firstActivityTimes.delete(wallet);
+      return null;
+    }
+
+    let confidence = 0.5;
+    if (walletAgeMs < 86400000) confidence += 0.15;
+    if (volumeShare >= 0.1) confidence += 0.1;
+    if (concentration.market >= 0.95) confidence += 0.1;
+    confidence = Math.min(confidence, 0.9);
+
+    logger.info(`🆕 Fresh wallet: ${wallet.substring(0, 10)}... (${(walletAgeMs / 3600000).toFixed(1)}h old) bought ` +
+      `$${positionNotional.toFixed(0)} of outcome ${outcomeIndex} in ${tick.marketId.substring(0, 8)}...`, {
+      component: 'fresh_wallet',
+      operation: 'detect_position',
+      metadata: { marketId: tick.marketId, wallet, walletAgeMs, positionNotional, volumeShare, ...concentration }
+    });
+
+    this.lastSignalTimes.set(cooldownKey, tick.timestamp);
+    return {
+      marketId: tick.marketId,
+      market,
+      signalType: 'information_leak',
+      timestamp: tick.timestamp,
+      confidence,
+      metadata: {
+        severity: confidence >= 0.75 ? 'high' : 'medium',
+        signalSource: 'wallet_tracking',
+        leakType: 'fresh_wallet',
+        wallet,
+        firstActivityAt,
+        walletAgeHours: walletAgeMs / 3600000,
+        outcomeIndex,
+        // Buying the first (Yes) outcome is bullish for the market; buying another outcome is bearish
+        direction: outcomeIndex === 0 ? 'bullish' : 'bearish',
+        positionNotional,
+        averagePrice: positionShares > 0 ? positionNotional / positionShares : tick.price,
+        trades: positionTrades,
+        marketVolume: market.volumeNum,
+        volumeShare,
+        walletNotional: concentration.walletNotional,
+        walletMarkets: concentration.walletMarkets,
+        marketConcentration: concentration.market,
+        topicCluster: concentration.topicId,
+        topicConcentration: concentration.topic,
+        windowMs: this.config.positionWindowMs
+      }
+    };
+  }
+
+  /**
+   * Get configuration
+   */
+  getConfig(): FreshWalletConfig {
+    return { ...this.config };
+  }
+
+  // Shares of the wallet's gross notional in the market and in its most concentrated topic
+  private concentration(trades: FreshWalletTrade[], marketId: string): {
+    market: number;
+    topic: number;
+    topicId: string | null;
+    walletNotional: number;
+    walletMarkets: number;
+  } {
+    const byMarket = new Map<string, number>();
+    for (const trade of trades) {
+      byMarket.set(trade.marketId, (byMarket.get(trade.marketId) || 0) + Math.abs(trade.signedNotional));
+    }
+    const walletNotional = Array.from(byMarket.values()).reduce((sum, notional) => sum + notional, 0);
+
+    let topic = 0;
+    let topicId: string | null = null;
+    for (const candidate of this.topicClustering?.getMarketTopics(marketId) || []) {
+      let topicNotional = 0;
+      for (const [otherMarketId, notional] of byMarket) {
+        if (otherMarketId === marketId || this.topicClustering!.getMarketTopics(otherMarketId).includes(candidate)) {
+          topicNotional += notional;
+        }
+      }
+      if (topicNotional / walletNotional > topic) {
+        topic = topicNotional / walletNotional;
+        topicId = candidate;
+      }
+    }
+
+    return {
+      market: (byMarket.get(marketId) || 0) / walletNotional,
+      topic,
+      topicId,
+      walletNotional,
+      walletMarkets: byMarket.size
+    };
+  }
+
+  // Drop wallets that have stopped trading, at most once an hour of trade time
+  private prune(now: number): void {
+    if (now - this.lastPrune < 3600000) return;
+    this.lastPrune = now;
+
+    const cutoff = now - this.config.positionWindowMs;
+    for (const [wallet, trades] of this.walletTrades) {
+      if (trades[trades.length - 1].timestamp < cutoff) this.walletTrades.delete(wallet);
+    }
+    for (const [key, timestamp] of this.lastSignalTimes) {
+      if (now - timestamp >= this.config.signalCooldownMs) this.lastSignalTimes.delete(key);
+    }
+  }
+
+  private async getFirstActivity(wallet: string): Promise<number | null> {
+    const cached = this.firstActivityTimes.get(wallet);
+    if (cached !== undefined) return cached;
+
+    const firstActivityAt = await this.firstActivity(wallet);
+    if (firstActivityAt !== null) this.firstActivityTimes.set(wallet, firstActivityAt);
+    return firstActivityAt;
+  }
+}
@@ -6,12 +6,15 @@ import {
   LeakDetectionSignal 
 } from '../types';
 import { logger } from '../utils/logger';
+import { clock } from '../utils/Clock';
+import { applyCalibration, CalibrationCurve } from '../statistics/ScoreCalibration';
 
 export interface FrontRunningScore {
   marketId: string;
   score: number;
   confidence: number;
-  leakProbability: number;
+  leakProbability: number; // Calibrated when a calibration curve is loaded
+  calibrated: boolean;
   timeToNews: number; // Estimated minutes until news breaks
   components: {
     microPriceWeight: number;
@@ -20,6 +23,7 @@ export interface FrontRunningScore {
     spreadStabilityBonus: number;
     crossMarketConfirmation: number;
     offHoursMultiplier: number;
+    flowToxicityMultiplier: number;
   };
   metadata: {
     microPriceDelta: number;
@@ -28,7 +32,9 @@ export interface FrontRunningScore {
     spreadBps: number;
     correlatedMarkets: number;
     isOffHours: boolean;
+    vpin?: number;
     topicCluster?: string;
+    heuristicLeakProbability: number;
   };
 }
 
@@ -47,6 +53,7 @@ export class FrontRunningHeuristicEngine {
   private marketScores: Map<string, FrontRunningScore> = new Map();
   private historicalLeaks: LeakageEvent[] = [];
   private scoreHistory: Map<string, number[]> = new Map(); // For calibration
+  private calibration: CalibrationCurve | null = null;
   
   // Configurable parameters for the heuristic
   private readonly HEURISTIC_PARAMS = {
@@ -66,6 +73,8 @@ export class FrontRunningHeuristicEngine {
     SPREAD_STABILITY_BONUS: 1.2, // When spread is stable during activity
     CROSS_MARKET_MULTIPLIER: 1.5, // When multiple markets move together
     OFF_HOURS_MULTIPLIER: 2.0, // Higher weight for off-hours activity
+    TOXIC_FLOW_VPIN: 0.5, // VPIN above which trade flow is treated as informed
+    TOXIC_FLOW_MULTIPLIER: 1.3,
     
     // Time predictions (minutes)
     BASE_TIME_TO_NEWS: 5, // Base estimate: 5 minutes
@@ -80,6 +89,21 @@ export class FrontRunningHeuristicEngine {
     this.config = config;
   }
 
+  /**
+   * Use a fitted calibration curve (see FrontRunningCalibrator) for leakProbability;
+   * null falls back to the heuristic estimate
+   */
+  setCalibration(curve: CalibrationCurve | null): void {
+    this.calibration = curve;
+    logger.info(curve
+      ? `Front-running calibration loaded: ${curve.method}, ${curve.sampleSize} samples`
+      : 'Front-running calibration cleared');
+  }
+
+  getCalibration(): CalibrationCurve | null {
+    return this.calibration;
+  }
+
   /**
    * Calculate front-running score using the core heuristic formula
    */
@@ -107,7 +131,8 @@ export class FrontRunningHeuristicEngine {
       liquidityDropWeight: liquidityDrop * this.HEURISTIC_PARAMS.LIQUIDITY_DROP_WEIGHT,
       spreadStabilityBonus: this.calculateSpreadStabilityBonus(metrics),
       crossMarketConfirmation: this.calculateCrossMarketBonus(correlatedMarkets),
-      offHoursMultiplier: this.calculateOffHoursMultiplier(metrics.timestamp)
+      offHoursMultiplier: this.calculateOffHoursMultiplier(metrics.timestamp),
+      flowToxicityMultiplier: this.calculateFlowToxicityMultiplier(metrics)
     };
     
     // Apply bonuses and multipliers
@@ -115,6 +140,7 @@ export class FrontRunningHeuristicEngine {
     adjustedScore *= components.spreadStabilityBonus;
     adjustedScore *= components.crossMarketConfirmation;
     adjustedScore *= components.offHoursMultiplier;
+    adjustedScore *= components.flowToxicityMultiplier;
     
     // Normalize score to 0-1 range
     const normalizedScore = Math.tanh(adjustedScore / 10); // Sigmoid-like normalization
@@ -122,8 +148,11 @@ export class FrontRunningHeuristicEngine {
     // Calculate confidence based on multiple factors
     const confidence = this.calculateConfidence(metrics, components, correlatedMarkets);
     
-    // Calculate leak probability
-    const leakProbability = this.calculateLeakProbability(normalizedScore, confidence, components);
+    // Calculate leak probability (empirical when calibrated, heuristic otherwise)
+    const heuristicLeakProbability = this.calculateLeakProbability(normalizedScore, confidence, components);
+    const leakProbability = this.calibration
+      ? applyCalibration(this.calibration, normalizedScore)
+      : heuristicLeakProbability;
     
     // Estimate time to news
     const timeToNews = this.estimateTimeToNews(normalizedScore, components);
@@ -133,6 +162,7 @@ export class FrontRunningHeuristicEngine {
       score: normalizedScore,
       confidence,
       leakProbability,
+      calibrated: this.calibration !== null,
       timeToNews,
       components,
       metadata: {
@@ -142,7 +172,9 @@ export class FrontRunningHeuristicEngine {
         spreadBps,
         correlatedMarkets: correlatedMarkets.length,
         isOffHours: components.offHoursMultiplier > 1,
-        topicCluster
+        vpin: metrics.vpin,
+        topicCluster,
+        heuristicLeakProbability
       }
     };
     
@@ -212,6 +244,15 @@ export class FrontRunningHeuristicEngine {
     return isOffHours ? this.HEURISTIC_PARAMS.OFF_HOURS_MULTIPLIER : 1.0;
   }
 
+  /**
+   * Calculate flow toxicity multiplier from VPIN (1.0 while VPIN is unavailable)
+   */
+  private calculateFlowToxicityMultiplier(metrics: EnhancedMicrostructureMetrics): number {
+    if (metrics.vpin === undefined) return 1.0;
+    
+    return metrics.vpin >= this.HEURISTIC_PARAMS.TOXIC_FLOW_VPIN ? this.HEURISTIC_PARAMS.TOXIC_FLOW_MULTIPLIER : 1.0;
+  }
+
   /**
    * Calculate overall confidence score
    */
@@ -239,6 +280,9 @@ export class FrontRunningHeuristicEngine {
     // Off-hours bonus (higher confidence for off-hours signals)
     if (components.offHoursMultiplier > 1) confidence += 0.1;
     
+    // Toxic (one-sided) trade flow bonus
+    if (components.flowToxicityMultiplier > 1) confidence += 0.1;
+    
     return Math.min(1.0, confidence);
   }
 
@@ -256,6 +300,7 @@ export class FrontRunningHeuristicEngine {
     if (components.spreadStabilityBonus > 1) probability += 0.1;
     if (components.crossMarketConfirmation > 1) probability += 0.15;
     if (components.offHoursMultiplier > 1) probability += 0.1;
+    if (components.flowToxicityMultiplier > 1) probability += 0.1;
     
     // Historical calibration (if we have data)
     const historicalAccuracy = this.getHistoricalAccuracy();
@@ -300,7 +345,7 @@ export class FrontRunningHeuristicEngine {
       market,
       signalType: 'information_leak',
       confidence: score.confidence,
-      timestamp: Date.now(),
+      timestamp: clock.now(),
       metadata: {
         severity,
         signalSource: 'front_running_heuristic',
@@ -327,7 +372,7 @@ export class FrontRunningHeuristicEngine {
   private recordLeakageEvent(score: FrontRunningScore, signalType: string): void {
     const event: LeakageEvent = {
       marketId: score.marketId,
-      timestamp: Date.now(),
+      timestamp: clock.now(),
       frontRunScore: score.score,
       validated: false,
       signalType
@@ -375,7 +420,7 @@ export class FrontRunningHeuristicEngine {
    */
   private getHistoricalAccuracy(): number {
     const validatedEvents = this.historicalLeaks.filter(e => e.validated);
-    const totalPredictions = this.historicalLeaks.filter(e => e.timestamp < Date.now() - this.HEURISTIC_PARAMS.VALIDATION_WINDOW_HOURS * 60 * 60 * 1000);
+    const totalPredictions = this.historicalLeaks.filter(e => e.timestamp < clock.now() - this.HEURISTIC_PARAMS.VALIDATION_WINDOW_HOURS * 60 * 60 * 1000);
     
     if (totalPredictions.length < 10) return 0; // Need sufficient data
     
@@ -442,7 +487,7 @@ export class FrontRunningHeuristicEngine {
    * Cleanup stale data
    */
   cleanup(): void {
-    const now = Date.now();
+    const now = clock.now();
     const staleThreshold = 24 * 60 * 60 * 1000; // 24 hours
     
     // Remove stale market scores
@@ -473,6 +518,9 @@ export class FrontRunningHeuristicEngine {
         accuracy: stats.accuracy,
         averageLeadTime: stats.averageLeadTime,
         historicalEvents: this.historicalLeaks.length,
+        calibration: this.calibration
+          ? { method: this.calibration.method, sampleSize: this.calibration.sampleSize, fittedAt: this.calibration.fittedAt }
+          : null,
         lastUpdate: new Date().toISOString()
       }
     };
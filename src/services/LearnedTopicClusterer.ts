@@ -0,0 +1,352 @@
+import { DatabaseManager } from '../data/database';
+import { Market } from '../types';
+import { advancedLogger as logger } from '../utils/AdvancedLogger';
+import {
+  agglomerativeCluster,
+  buildTfIdf,
+  centroid,
+  cosineSimilarity,
+  SparseVector,
+  TfIdfModel,
+  topTerms,
+  vectorize
+} from '../statistics/TextClustering';
+
+export interface LearnedTopicCluster {
+  id: string;
+  label: string;
+  keywords: string[];
+  centroid: Record<string, number>;
+  marketCount: number;
+  updatedAt: number;
+}
+
+export interface LearnedTopicConfig {
+  similarityThreshold: number;   // Average-linkage cosine similarity needed to merge clusters
+  assignmentThreshold: number;   // Centroid similarity needed to assign a market between fits
+  minClusterSize: number;
+  maxMarkets: number;            // Highest-volume markets used for a fit
+  keywordCount: number;
+  centroidTerms: number;         // Centroid terms kept for assigning new markets
+}
+
+export interface TopicFitResult {
+  clusters: LearnedTopicCluster[];
+  assignedMarkets: number;
+  totalMarkets: number;
+  carriedOverIds: number;
+}
+
+const DEFAULT_CONFIG: LearnedTopicConfig = {
+  similarityThreshold: 0.3,
+  assignmentThreshold: 0.3,
+  minClusterSize: 2,
+  maxMarkets: 2000,
+  keywordCount: 5,
+  centroidTerms: 50
+};
+
+// A new cluster keeps an old cluster's id when their member sets overlap at least this much (Jaccard)
+const MIN_ID_OVERLAP = 0.3;
+
+/**
+ * Learns topic clusters from market text instead of a fixed keyword list.
+ *
+ * Markets are embedded as TF-IDF vectors of their question and description and
+ * grouped by agglomerative clustering on cosine similarity. Runs entirely
+ * offline. The vocabulary, clusters and market assignments are persisted so the
+ * same markets stay in the same clusters across restarts; between fits, new
+ * markets are assigned to the closest cluster centroid.
+ */
+export class LearnedTopicClusterer {
+  private database: DatabaseManager;
+  private config: LearnedTopicConfig;
+  private model: TfIdfModel | null = null;
+  private lastFitTime: number | null = null;
+  private clusters: Map<string, LearnedTopicCluster> = new Map();
+  private centroids: Map<string, SparseVector> = new Map();
+  private assignments: Map<string, string> = new Map();
+  private unassigned: Set<string> = new Set();
+
+  constructor(database: DatabaseManager, config: Partial<LearnedTopicConfig> = {}) {
+    this.database = database;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Load the latest vocabulary, clusters and assignments
+   */
+  async initialize(): Promise<void> {
+    const [modelRow] = await this.database.query(
+      'SELECT vocabulary, document_count, fitted_at FROM topic_cluster_models ORDER BY id DESC LIMIT 1'
+    );
+    if (modelRow) {
+      this.model = { idf: this.parseJson(modelRow.vocabulary), documentCount: Number(modelRow.document_count) };
+      const fittedAt = new Date(modelRow.fitted_at).getTime();
+      this.lastFitTime = Number.isFinite(fittedAt) ? fittedAt : null;
+    }
+
+    this.clusters.clear();
+    this.centroids.clear();
+    for (const row of await this.database.query('SELECT * FROM learned_topic_clusters ORDER BY id ASC')) {
+      this.setCluster({
+        id: row.id,
+        label: row.label,
+        keywords: this.parseJson(row.keywords),
+        centroid: this.parseJson(row.centroid),
+        marketCount: Number(row.market_count),
+        updatedAt: new Date(row.updated_at).getTime()
+      });
+    }
+
+    this.assignments.clear();
+    this.unassigned.clear();
+    for (const row of await this.database.query('SELECT market_id, cluster_id FROM market_topic_assignments')) {
+      if (this.clusters.has(row.cluster_id)) this.assignments.set(row.market_id, row.cluster_id);
+    }
+
+    logger.info(`Loaded ${this.clusters.size} learned topic clusters`, {
+      component: 'learned_topics',
+      operation: 'initialize',
+      metadata: { assignedMarkets: this.assignments.size, vocabulary: this.model ? Object.keys(this.model.idf).length : 0 }
+    });
+  }
+
+  /**
+   * Re-learn clusters from a set of markets and persist them. Markets outside
+   * the set keep their assignment if their cluster survives.
+   */
+  async fit(markets: Market[], now: number = Date.now()): Promise<TopicFitResult> {
+    const corpus = [...markets]
+      .sort((a, b) => (b.volumeNum || 0) - (a.volumeNum || 0))
+      .slice(0, this.config.maxMarkets);
+
+    const { model, vectors } = buildTfIdf(corpus.map(market => this.documentText(market)));
+    const groups = agglomerativeCluster(vectors, this.config.similarityThreshold, this.config.minClusterSize);
+
+    // Carry over ids of previous clusters with the most overlapping membership
+    const previousMembers = new Map<string, Set<string>>();
+    for (const [marketId, clusterId] of this.assignments) {
+      if (!previousMembers.has(clusterId)) previousMembers.set(clusterId, new Set());
+      previousMembers.get(clusterId)!.add(marketId);
+    }
+    const groupIds = this.matchPreviousIds(groups.map(group => group.map(i => corpus[i].id)), previousMembers);
+
+    const clusters: LearnedTopicCluster[] = [];
+    const assignments = new Map<string, { clusterId: string; similarity: number }>();
+    const usedIds = new Set(groupIds.filter((id): id is string => id !== null));
+
+    groups.forEach((group, index) => {
+      const groupCentroid = centroid(group.map(i => vectors[i]));
+      const keywords = topTerms(groupCentroid, this.config.keywordCount);
+      const id = groupIds[index] ?? this.newClusterId(keywords, usedIds);
+      usedIds.add(id);
+
+      const centroidTerms = Array.from(groupCentroid.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, this.config.centroidTerms);
+
+      clusters.push({
+        id,
+        label: keywords.slice(0, 3).join(' / '),
+        keywords,
+        centroid: Object.fromEntries(centroidTerms),
+        marketCount: group.length,
+        updatedAt: now
+      });
+
+      for (const i of group) {
+        assignments.set(corpus[i].id, { clusterId: id, similarity: cosineSimilarity(vectors[i], groupCentroid) });
+      }
+    });
+
+    await this.saveFit(model, clusters, corpus.map(market => market.id), assignments, now);
+
+    this.model = model;
+    this.lastFitTime = now;
+    this.clusters.clear();
+    this.centroids.clear();
+    clusters.forEach(cluster => this.setCluster(cluster));
+
+    for (const market of corpus) this.assignments.delete(market.id);
+    for (const [marketId, clusterId] of this.assignments) {
+      if (!this.clusters.has(clusterId)) this.assignments.delete(marketId);
+    }
+    for (const [marketId, assignment] of assignments) this.assignments.set(marketId, assignment.clusterId);
+    this.unassigned = new Set(corpus.filter(market => !assignments.has(market.id)).map(market => market.id));
+
+    const carriedOverIds = groupIds.filter(id => id !== null).length;
+    logger.info(`Learned ${clusters.length} topic clusters from ${corpus.length} markets`, {
+      component: 'learned_topics',
+      operation: 'fit',
+      metadata: {
+        assignedMarkets: assignments.size,
+        carriedOverIds,
+        vocabulary: Object.keys(model.idf).length,
+        topClusters: clusters.slice().sort((a, b) => b.marketCount - a.marketCount).slice(0, 5).map(c => c.label)
+      }
+    });
+
+    return { clusters, assignedMarkets: assignments.size, totalMarkets: corpus.length, carriedOverIds };
+  }
+
+  /**
+   * Assign markets that have not been seen since the last fit to their closest
+   * cluster centroid. Returns the number of new assignments.
+   */
+  async assignMarkets(markets: Market[], now: number = Date.now()): Promise<number> {
+    if (!this.model || this.centroids.size === 0) return 0;
+
+    let assigned = 0;
+    for (const market of markets) {
+      if (this.assignments.has(market.id) || this.unassigned.has(market.id)) continue;
+
+      const vector = vectorize(this.model, this.documentText(market));
+      let best: { clusterId: string; similarity: number } | null = null;
+      for (const [clusterId, clusterCentroid] of this.centroids) {
+        const similarity = cosineSimilarity(vector, clusterCentroid);
+        if (!best || similarity > best.similarity) best = { clusterId, similarity };
+      }
+
+      if (!best || best.similarity < this.config.assignmentThreshold) {
+        this.unassigned.add(market.id);
+        continue;
+      }
+
+      await this.database.query(`
+        INSERT INTO market_topic_assignments (market_id, cluster_id, similarity, assigned_at)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT(market_id) DO UPDATE SET
+          cluster_id = EXCLUDED.cluster_id,
+          similarity = EXCLUDED.similarity,
+          assigned_at = EXCLUDED.assigned_at
+      `, [market.id, best.clusterId, best.similarity, new Date(now)]);
+
+      this.assignments.set(market.id, best.clusterId);
+      assigned++;
+    }
+
+    if (assigned > 0) {
+      logger.info(`Assigned ${assigned} new markets to learned topic clusters`, {
+        component: 'learned_topics',
+        operation: 'assign_markets'
+      });
+    }
+
+    return assigned;
+  }
+
+  getClusterId(marketId: string): string | undefined {
+    return this.assignments.get(marketId);
+  }
+
+  getCluster(clusterId: string): LearnedTopicCluster | undefined {
+    return this.clusters.get(clusterId);
+  }
+
+  getClusters(): LearnedTopicCluster[] {
+    return Array.from(this.clusters.values());
+  }
+
+  getLastFitTime(): number | null {
+    return this.lastFitTime;
+  }
+
+  private documentText(market: Market): string {
+    return `${market.question} ${market.description || ''}`;
+  }
+
+  /**
+   * Greedily pair new groups with previous clusters by Jaccard overlap; null means a new cluster
+   */
+  private matchPreviousIds(groups: string[][], previousMembers: Map<string, Set<string>>): Array<string | null> {
+    const candidates: Array<{ group: number; id: string; overlap: number }> = [];
+    groups.forEach((members, group) => {
+      for (const [id, previous] of previousMembers) {
+        const shared = members.filter(marketId => previous.has(marketId)).length;
+        if (shared === 0) continue;
+        const overlap = shared / (members.length + previous.size - shared);
+        if (overlap >= MIN_ID_OVERLAP) candidates.push({ group, id, overlap });
+      }
+    });
+
+    const ids: Array<string | null> = groups.map(() => null);
+    const taken = new Set<string>();
+    for (const candidate of candidates.sort((a, b) => b.overlap - a.overlap)) {
+      if (ids[candidate.group] !== null || taken.has(candidate.id)) continue;
+      ids[candidate.group] = candidate.id;
+      taken.add(candidate.id);
+    }
+    return ids;
+  }
+
+  private newClusterId(keywords: string[], usedIds: Set<string>): string {
+    const base = `learned_${(keywords[0] || 'topic').replace(/[^a-z0-9]+/g, '_')}`;
+    let id = base;
+    for (let suffix = 2; usedIds.has(id) || this.clusters.has(id); suffix++) {
+      id = `${base}_${suffix}`;
+    }
+    return id;
+  }
+
+  private async saveFit(
+    model: TfIdfModel,
+    clusters: LearnedTopicCluster[],
+    fittedMarketIds: string[],
+    assignments: Map<string, { clusterId: string; similarity: number }>,
+    now: number
+  ): Promise<void> {
+    const clusterIds = new Set(clusters.map(cluster => cluster.id));
+    const removedIds = Array.from(this.clusters.keys()).filter(id => !clusterIds.has(id));
+
+    await this.database.transaction(async (query) => {
+      await query(`
+        INSERT INTO topic_cluster_models (vocabulary, document_count, cluster_count, similarity_threshold, fitted_at)
+        VALUES ($1, $2, $3, $4, $5)
+      `, [JSON.stringify(model.idf), model.documentCount, clusters.length, this.config.similarityThreshold, new Date(now)]);
+
+      for (const id of removedIds) {
+        await query('DELETE FROM market_topic_assignments WHERE cluster_id = $1', [id]);
+        await query('DELETE FROM learned_topic_clusters WHERE id = $1', [id]);
+      }
+
+      for (const cluster of clusters) {
+        await query(`
+          INSERT INTO learned_topic_clusters (id, label, keywords, centroid, market_count, created_at, updated_at)
+          VALUES ($1, $2, $3, $4, $5, $6, $6)
+          ON CONFLICT(id) DO UPDATE SET
+            label = EXCLUDED.label,
+            keywords = EXCLUDED.keywords,
+            centroid = EXCLUDED.centroid,
+            market_count = EXCLUDED.market_count,
+            updated_at = EXCLUDED.updated_at
+        `, [cluster.id, cluster.label, JSON.stringify(cluster.keywords), JSON.stringify(cluster.centroid), cluster.marketCount, new Date(now)]);
+      }
+
+      for (const marketId of fittedMarketIds) {
+        const assignment = assignments.get(marketId);
+        if (!assignment) {
+          await query('DELETE FROM market_topic_assignments WHERE market_id = $1', [marketId]);
+          continue;
+        }
+        await query(`
+          INSERT INTO market_topic_assignments (market_id, cluster_id, similarity, assigned_at)
+          VALUES ($1, $2, $3, $4)
+          ON CONFLICT(market_id) DO UPDATE SET
+            cluster_id = EXCLUDED.cluster_id,
+            similarity = EXCLUDED.similarity,
+            assigned_at = EXCLUDED.assigned_at
+        `, [marketId, assignment.clusterId, assignment.similarity, new Date(now)]);
+      }
+    });
+  }
+
+  private setCluster(cluster: LearnedTopicCluster): void {
+    this.clusters.set(cluster.id, cluster);
+    this.centroids.set(cluster.id, new Map(Object.entries(cluster.centroid)));
+  }
+
+  private parseJson(value: any): any {
+    return typeof value === 'string' ? JSON.parse(value) : value;
+  }
+}
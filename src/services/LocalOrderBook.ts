@@ -0,0 +1,194 @@
+import { OrderbookData, OrderbookLevel } from '../types';
+
+export type BookSide = 'buy' | 'sell';
+
+export interface PriceLevelChange {
+  price: number;
+  size: number; // New absolute size at this level (0 removes the level)
+  side: BookSide;
+}
+
+export interface DeltaContext {
+  timestamp: number;
+  hash?: string;
+  sequence?: number;
+  // Top-of-book reported by the exchange alongside the delta (used to verify our book)
+  bestBid?: number;
+  bestAsk?: number;
+}
+
+export type DeltaResult = 'applied' | 'duplicate' | 'stale' | 'gap' | 'no_snapshot';
+
+/**
+ * Local L2 order book for a single asset.
+ *
+ * Seeded from full `book` snapshots and kept current by applying `price_change`
+ * level updates in between. Any sign that we missed an update (sequence gap,
+ * crossed book, top-of-book disagreeing with the exchange) marks the book out of
+ * sync so the caller can re-request a snapshot.
+ */
+export class LocalOrderBook {
+  readonly assetId: string;
+  readonly marketId: string;
+
+  private bids: Map<number, number> = new Map();
+  private asks: Map<number, number> = new Map();
+  private synced = false;
+  private lastHash?: string;
+  private lastSequence?: number;
+  private lastTimestamp = 0;
+  private deltasApplied = 0;
+  private gapsDetected = 0;
+
+  // Tolerance when comparing our top-of-book to the exchange-reported one
+  private readonly PRICE_EPSILON = 1e-9;
+
+  constructor(assetId: string, marketId: string) {
+    this.assetId = assetId;
+    this.marketId = marketId;
+  }
+
+  applySnapshot(bids: OrderbookLevel[], asks: OrderbookLevel[], timestamp: number, hash?: string, sequence?: number): void {
+    this.bids.clear();
+    this.asks.clear();
+
+    for (const level of bids) {
+      if (level.size > 0) this.bids.set(level.price, level.size);
+    }
+    for (const level of asks) {
+      if (level.size > 0) this.asks.set(level.price, level.size);
+    }
+
+    this.lastHash = hash;
+    this.lastSequence = sequence;
+    this.lastTimestamp = timestamp;
+    this.synced = true;
+  }
+
+  applyDelta(changes: PriceLevelChange[], context: DeltaContext): DeltaResult {
+    if (!this.synced) {
+      return 'no_snapshot';
+    }
+
+    // Same hash as the last state we applied - replayed or duplicated message
+    if (context.hash && context.hash === this.lastHash) {
+      return 'duplicate';
+    }
+
+    if (context.timestamp < this.lastTimestamp) {
+      return 'stale';
+    }
+
+    if (context.sequence !== undefined && this.lastSequence !== undefined) {
+      if (context.sequence <= this.lastSequence) {
+        return 'duplicate';
+      }
+      if (context.sequence !== this.lastSequence + 1) {
+        return this.markGap();
+      }
+    }
+
+    for (const change of changes) {
+      const levels = change.side === 'buy' ? this.bids : this.asks;
+      if (change.size > 0) {
+        levels.set(change.price, change.size);
+      } else {
+        levels.delete(change.price);
+      }
+    }
+
+    const bestBid = this.getBestBid();
+    const bestAsk = this.getBestAsk();
+
+    // A crossed book can only come from a missed update
+    if (bestBid > 0 && bestAsk > 0 && bestBid >= bestAsk) {
+      return this.markGap();
+    }
+
+    if (context.bestBid !== undefined && Math.abs(context.bestBid - bestBid) > this.PRICE_EPSILON) {
+      return this.markGap();
+    }
+    if (context.bestAsk !== undefined && Math.abs(context.bestAsk - bestAsk) > this.PRICE_EPSILON) {
+      return this.markGap();
+    }
+
+    this.lastHash = context.hash ?? this.lastHash;
+    this.lastSequence = context.sequence ?? this.lastSequence;
+    this.lastTimestamp = context.timestamp;
+    this.deltasApplied++;
+
+    return 'applied';
+  }
+
+  invalidate(): void {
+    this.synced = false;
+  }
+
+  isSynced(): boolean {
+    return this.synced;
+  }
+
+  getBestBid(): number {
+    let best = 0;
+    for (const price of this.bids.keys()) {
+      if (price > best) best = price;
+    }
+    return best;
+  }
+
+  getBestAsk(): number {
+    let best = 0;
+    for (const price of this.asks.keys()) {
+      if (best === 0 || price < best) best = price;
+    }
+    return best;
+  }
+
+  getStats(): { synced: boolean; bidLevels: number; askLevels: number; deltasApplied: number; gapsDetected: number; lastUpdate: number } {
+    return {
+      synced: this.synced,
+      bidLevels: this.bids.size,
+      askLevels: this.asks.size,
+      deltasApplied: this.deltasApplied,
+      gapsDetected: this.gapsDetected,
+      lastUpdate: this.lastTimestamp,
+    };
+  }
+
+  toOrderbookData(maxLevels: number = 100): OrderbookData {
+    const bids = this.toLevels(this.bids, true, maxLevels); // Bids descending
+    const asks = this.toLevels(this.asks, false, maxLevels); // Asks ascending
+
+    const bestBid = bids.length > 0 ? bids[0].price : 0;
+    const bestAsk = asks.length > 0 ? asks[0].price : 0;
+    const spread = bestAsk > 0 && bestBid > 0 ? bestAsk - bestBid : 0;
+    const midPrice = bestAsk > 0 && bestBid > 0 ? (bestAsk + bestBid) / 2 : 0;
+
+    return {
+      marketId: this.marketId,
+      timestamp: this.lastTimestamp,
+      bids,
+      asks,
+      spread,
+      midPrice,
+      bestBid,
+      bestAsk,
+    };
+  }
+
+  private toLevels(levels: Map<number, number>, descending: boolean, maxLevels: number): OrderbookLevel[] {
+    return Array.from(levels.keys())
+      .sort((a, b) => descending ? b - a : a - b)
+      .slice(0, maxLevels)
+      .map(price => {
+        const size = levels.get(price)!;
+        return { price, size, volume: price * size };
+      });
+  }
+
+  private markGap(): DeltaResult {
+    this.synced = false;
+    this.gapsDetected++;
+    return 'gap';
+  }
+}
@@ -96,6 +96,8 @@ export interface OpportunityScoringConfig {
     liquidityWeight: number;
     optimalSpreadBps: number;
     maxAgeDays: number;
+    liquidImpactBps: number;    // Measured impact per $1k at or below this earns full liquidity points
+    illiquidImpactBps: number;  // At or above this earns none
   };
 }
 
@@ -306,7 +308,9 @@ export class MarketCategorizer {
         ageWeight: 0.3,
         liquidityWeight: 0.3,
         optimalSpreadBps: 150,
-        maxAgeDays: 60
+        maxAgeDays: 60,
+        liquidImpactBps: 25,
+        illiquidImpactBps: 500
       }
     };
   }
@@ -646,6 +650,7 @@ export class MarketCategorizer {
     const categoryScore = market.categoryScore || 0;
     const outcomeCount = market.outcomeCount || 2;
     const spread = market.spread || 0;
+    const impactBpsPer1k = market.impactBpsPer1k;
     const marketAge = market.marketAge || 0;
     const timeToClose = market.timeToClose || Infinity;
 
@@ -664,7 +669,7 @@ export class MarketCategorizer {
     const catalystScore = this.calculateCatalystScore(daysToClose);
 
     // Component 4: Quality Score (0-20)
-    const qualityScore = this.calculateQualityScore(spread, marketAgeDays, volumeRatio);
+    const qualityScore = this.calculateQualityScore(spread, marketAgeDays, volumeRatio, impactBpsPer1k);
 
     // Combine into total (0-100)
     const total = Math.round(volumeScore + edgeScore + catalystScore + qualityScore);
@@ -781,8 +786,9 @@ export class MarketCategorizer {
   /**
    * Calculate quality score (0-20): Market efficiency indicators
    * Based on spread, market age, and liquidity depth
+   * Liquidity uses measured price impact when the market has an estimate, else volume
    */
-  private calculateQualityScore(spreadBps: number, marketAgeDays: number, volumeRatio: number): number {
+  private calculateQualityScore(spreadBps: number, marketAgeDays: number, volumeRatio: number, impactBpsPer1k?: number): number {
     const config = this.opportunityScoringConfig.qualityScore;
     const maxPoints = config.weight * 100; // 20 points
 
@@ -804,9 +810,14 @@ export class MarketCategorizer {
     }
 
     // Liquidity component: decent liquidity (but not too much)
-    // Best: 0.5x - 3x threshold
+    // Measured impact: full points up to liquidImpactBps, fading to none at illiquidImpactBps
+    // Volume fallback best: 0.5x - 3x threshold
     let liquidityScore: number;
-    if (volumeRatio >= 0.5 && volumeRatio <= 3.0) {
+    if (impactBpsPer1k !== undefined) {
+      const impactRange = config.illiquidImpactBps - config.liquidImpactBps;
+      const illiquidity = Math.min(Math.max((impactBpsPer1k - config.liquidImpactBps) / impactRange, 0), 1);
+      liquidityScore = (1 - illiquidity) * config.liquidityWeight * maxPoints;
+    } else if (volumeRatio >= 0.5 && volumeRatio <= 3.0) {
       liquidityScore = config.liquidityWeight * maxPoints;
     } else if (volumeRatio < 0.5) {
       liquidityScore = (volumeRatio / 0.5) * config.liquidityWeight * maxPoints;
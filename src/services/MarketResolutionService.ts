@@ -0,0 +1,319 @@
+import { DatabaseManager } from '../data/database';
+import { Market } from '../types';
+import { PolymarketService } from './PolymarketService';
+import { SignalPerformanceTracker } from './SignalPerformanceTracker';
+import { advancedLogger as logger } from '../utils/AdvancedLogger';
+
+export type ResolutionStatus = 'resolved' | 'invalid';
+
+export interface ParsedResolution {
+  status: ResolutionStatus;
+  winningOutcomeIndex?: number; // Undefined for invalid (50-50) resolutions
+  outcomePrices: number[];      // Settlement payout per outcome
+}
+
+export interface MarketResolutionRecord extends ParsedResolution {
+  marketId: string;
+  resolvedAt: number;
+  source: 'gamma_api';
+  signalsBackfilled: number;
+  metadata?: Record<string, any>;
+}
+
+export interface MarketResolutionConfig {
+  pollIntervalMs: number;
+  recheckIntervalMs: number;   // Minimum time between API lookups of the same unresolved market
+  batchSize: number;           // API lookups per poll
+  settlementTolerance: number; // How far final prices may sit from an exact payout
+}
+
+const DEFAULT_CONFIG: MarketResolutionConfig = {
+  pollIntervalMs: 15 * 60 * 1000,
+  recheckIntervalMs: 60 * 60 * 1000,
+  batchSize: 25,
+  settlementTolerance: 0.02
+};
+
+/**
+ * Turn a closed market's final outcome prices into a resolution.
+ *
+ * One outcome at ~1 and the rest at ~0 is a clean resolution; all outcomes at
+ * ~1/n is an invalid (50-50) resolution that pays every outcome equally.
+ * Anything else means the market has closed but not settled yet (e.g. the UMA
+ * proposal is still in its challenge window) and returns null.
+ */
+export function parseResolution(market: Market, tolerance: number = DEFAULT_CONFIG.settlementTolerance): ParsedResolution | null {
+  if (!market.closed) return null;
+
+  const prices = (market.outcomePrices || []).map(price => parseFloat(price));
+  if (prices.length < 2 || prices.some(price => !Number.isFinite(price))) return null;
+
+  const winner = prices.indexOf(Math.max(...prices));
+  const isClean = prices.every((price, index) =>
+    index === winner ? price >= 1 - tolerance : price <= tolerance
+  );
+
+  if (isClean) {
+    return {
+      status: 'resolved',
+      winningOutcomeIndex: winner,
+      outcomePrices: prices.map((_, index) => (index === winner ? 1 : 0))
+    };
+  }
+
+  const evenPayout = 1 / prices.length;
+  if (prices.every(price => Math.abs(price - evenPayout) <= tolerance)) {
+    return {
+      status: 'invalid',
+      outcomePrices: prices.map(() => evenPayout)
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Authoritative market resolutions for outcome matching
+ *
+ * Polls every market that still has unsettled signal_performance rows (or
+ * attributed wallet trades, for wallet track records) via
+ * PolymarketService.getMarketById, stores settled outcomes in market_resolutions,
+ * and has SignalPerformanceTracker backfill finalPnL / wasCorrect on every
+ * signal for that market. Resolutions already stored are re-applied without an
+ * API call, so a backfill interrupted by a restart completes on the next poll.
+ */
+export class MarketResolutionService {
+  private database: DatabaseManager;
+  private polymarketService: PolymarketService;
+  private performanceTracker: SignalPerformanceTracker;
+  private config: MarketResolutionConfig;
+
+  private lastChecked: Map<string, number> = new Map();
+  private pollInterval: NodeJS.Timeout | null = null;
+  private isPolling = false;
+
+  constructor(
+    database: DatabaseManager,
+    polymarketService: PolymarketService,
+    performanceTracker: SignalPerformanceTracker,
+    config: Partial<MarketResolutionConfig> = {}
+  ) {
+    this.database = database;
+    this.polymarketService = polymarketService;
+    this.performanceTracker = performanceTracker;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  start(): void {
+    if (this.pollInterval) return;
+
+    this.pollInterval = setInterval(async () => {
+      try {
+        await this.checkResolutions();
+      } catch (error) {
+        logger.error('Error polling market resolutions', error as Error, {
+          component: 'market_resolution',
+          operation: 'check_resolutions'
+        });
+      }
+    }, this.config.pollIntervalMs);
+  }
+
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+  }
+
+  /**
+   * Resolve pending markets and backfill their signals.
+   * Returns the resolutions stored during this poll.
+   */
+  async checkResolutions(now: number = Date.now()): Promise<MarketResolutionRecord[]> {
+    if (this.isPolling) return [];
+    this.isPolling = true;
+
+    try {
+      await this.reapplyStoredResolutions();
+
+      const candidates = (await this.getUnresolvedMarketIds())
+        .filter(marketId => now - (this.lastChecked.get(marketId) || 0) >= this.config.recheckIntervalMs)
+        .slice(0, this.config.batchSize);
+
+      const resolved: MarketResolutionRecord[] = [];
+
+      for (const marketId of candidates) {
+        this.lastChecked.set(marketId, now);
+
+        const market = await this.polymarketService.getMarketById(marketId, { includeClosed: true });
+        const parsed = market ? parseResolution(market, this.config.settlementTolerance) : null;
+        if (!market || !parsed) continue;
+
+        const resolution: MarketResolutionRecord = {
+          ...parsed,
+          marketId,
+          resolvedAt: this.resolutionTime(market, now),
+          source: 'gamma_api',
+          signalsBackfilled: 0,
+          metadata: {
+            finalPrices: market.outcomePrices,
+            outcomes: market.outcomes,
+            umaResolutionStatus: market.metadata?.umaResolutionStatus
+          }
+        };
+
+        await this.saveResolution(resolution);
+        resolution.signalsBackfilled = await this.backfill(resolution);
+        this.lastChecked.delete(marketId);
+        resolved.push(resolution);
+      }
+
+      if (candidates.length > 0) {
+        logger.info(`Resolved ${resolved.length}/${candidates.length} pending markets`, {
+          component: 'market_resolution',
+          operation: 'check_resolutions',
+          metadata: {
+            checked: candidates.length,
+            resolved: resolved.filter(r => r.status === 'resolved').length,
+            invalid: resolved.filter(r => r.status === 'invalid').length,
+            signalsBackfilled: resolved.reduce((sum, r) => sum + r.signalsBackfilled, 0)
+          }
+        });
+      }
+
+      return resolved;
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  async getResolution(marketId: string): Promise<MarketResolutionRecord | null> {
+    const resolutions = await this.getResolutions([marketId]);
+    return resolutions.get(marketId) || null;
+  }
+
+  async getResolutions(marketIds: string[]): Promise<Map<string, MarketResolutionRecord>> {
+    const resolutions = new Map<string, MarketResolutionRecord>();
+    if (marketIds.length === 0) return resolutions;
+
+    const placeholders = marketIds.map((_, i) => `$${i + 1}`).join(', ');
+    const rows = await this.database.query(
+      `SELECT * FROM market_resolutions WHERE market_id IN (${placeholders})`,
+      marketIds
+    );
+
+    for (const row of rows) {
+      resolutions.set(row.market_id, this.rowToResolution(row));
+    }
+
+    return resolutions;
+  }
+
+  /**
+   * Markets with signals or attributed wallet trades that have no authoritative
+   * settlement yet, including signal rows an older tracker marked resolved
+   * without a winning outcome
+   */
+  private async getUnresolvedMarketIds(): Promise<string[]> {
+    const rows = await this.database.query(`
+      SELECT pending.market_id, MIN(pending.first_entry) AS first_entry
+      FROM (
+        SELECT sp.market_id, sp.entry_time AS first_entry
+        FROM signal_performance sp
+        WHERE sp.market_resolved = $1 OR sp.winning_outcome_index IS NULL
+        UNION ALL
+        SELECT wt.market_id, wt.timestamp AS first_entry
+        FROM wallet_trades wt
+      ) pending
+      LEFT JOIN market_resolutions mr ON mr.market_id = pending.market_id
+      WHERE mr.market_id IS NULL
+      GROUP BY pending.market_id
+      ORDER BY first_entry ASC
+    `, [false]);
+
+    return rows.map((row: any) => row.market_id);
+  }
+
+  /**
+   * Finish backfills for stored resolutions that still have unsettled signals
+   */
+  private async reapplyStoredResolutions(): Promise<void> {
+    const rows = await this.database.query(`
+      SELECT * FROM market_resolutions
+      WHERE market_id IN (
+        SELECT market_id FROM signal_performance WHERE market_resolved = $1
+      )
+    `, [false]);
+
+    for (const row of rows) {
+      await this.backfill(this.rowToResolution(row));
+    }
+  }
+
+  private async backfill(resolution: MarketResolutionRecord): Promise<number> {
+    const updated = await this.performanceTracker.applyResolution(resolution);
+
+    await this.database.query(
+      'UPDATE market_resolutions SET signals_backfilled = $1, updated_at = $2 WHERE market_id = $3',
+      [updated, new Date(), resolution.marketId]
+    );
+
+    return updated;
+  }
+
+  private resolutionTime(market: Market, fallback: number): number {
+    const candidates = [market.metadata?.closedTime, market.endDate];
+
+    for (const candidate of candidates) {
+      const time = candidate ? new Date(candidate).getTime() : NaN;
+      if (Number.isFinite(time) && time <= fallback) return time;
+    }
+
+    return fallback;
+  }
+
+  private async saveResolution(resolution: MarketResolutionRecord): Promise<void> {
+    await this.database.query(`
+      INSERT INTO market_resolutions (
+        market_id, status, winning_outcome_index, outcome_prices,
+        resolved_at, source, signals_backfilled, metadata
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      ON CONFLICT(market_id) DO UPDATE SET
+        status = EXCLUDED.status,
+        winning_outcome_index = EXCLUDED.winning_outcome_index,
+        outcome_prices = EXCLUDED.outcome_prices,
+        resolved_at = EXCLUDED.resolved_at,
+        source = EXCLUDED.source,
+        metadata = EXCLUDED.metadata,
+        updated_at = $9
+    `, [
+      resolution.marketId,
+      resolution.status,
+      resolution.winningOutcomeIndex ?? null,
+      JSON.stringify(resolution.outcomePrices),
+      new Date(resolution.resolvedAt),
+      resolution.source,
+      resolution.signalsBackfilled,
+      JSON.stringify(resolution.metadata || {}),
+      new Date()
+    ]);
+  }
+
+  private rowToResolution(row: any): MarketResolutionRecord {
+    const outcomePrices = typeof row.outcome_prices === 'string'
+      ? JSON.parse(row.outcome_prices)
+      : row.outcome_prices;
+
+    return {
+      marketId: row.market_id,
+      status: row.status,
+      winningOutcomeIndex: row.winning_outcome_index ?? undefined,
+      outcomePrices: (outcomePrices || []).map((price: string | number) => Number(price)),
+      resolvedAt: new Date(row.resolved_at).getTime(),
+      source: row.source,
+      signalsBackfilled: row.signals_backfilled || 0,
+      metadata: row.metadata ? (typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata) : undefined
+    };
+  }
+}
@@ -13,8 +13,14 @@ import { OrderbookAnalyzer } from './OrderbookAnalyzer';
 import { WebSocketService } from './WebSocketService';
 import { OrderFlowAnalyzer } from './OrderFlowAnalyzer';
 import { EnhancedMicrostructureAnalyzer } from './EnhancedMicrostructureAnalyzer';
-import { FrontRunningHeuristicEngine } from './FrontRunningHeuristicEngine';
+import { FrontRunningHeuristicEngine, FrontRunningScore } from './FrontRunningHeuristicEngine';
+import { TradeIntensityAnalyzer } from './TradeIntensityAnalyzer';
+import { VPINResult } from '../statistics/VPIN';
+import { CalibrationCurve } from '../statistics/ScoreCalibration';
+import { FeedRecorder, FeedReplaySource, ReplayStats } from './FeedRecorder';
 import { logger } from '../utils/logger';
+import { clock } from '../utils/Clock';
+import { tracer } from '../monitoring/Tracer';
 
 export class MicrostructureDetector {
   private config: BotConfig;
@@ -23,14 +29,22 @@ export class MicrostructureDetector {
   private orderFlowAnalyzer: OrderFlowAnalyzer;
   private enhancedAnalyzer: EnhancedMicrostructureAnalyzer;
   private frontRunEngine: FrontRunningHeuristicEngine;
+  private tradeIntensityAnalyzer: TradeIntensityAnalyzer;
   private webSocketService: WebSocketService;
   private isRunning = false;
+  private replayMode = false; // Offline replay processes every market in the recording
   private trackedMarkets: Set<string> = new Set();
+
+  // Trades seen since the last orderbook update, handed to the order flow analyzer
+  private pendingTrades: Map<string, TickData[]> = new Map();
+  private readonly MAX_PENDING_TRADES = 500;
   
   // Event handlers
   private onSignalHandler: ((signal: EarlySignal) => void) | null = null;
   private onMicrostructureSignalHandler: ((signal: MicrostructureSignal) => void) | null = null;
   private onOrderbookUpdateHandler: ((orderbook: OrderbookData) => void) | null = null;
+  private onFrontRunningScoreHandler: ((score: FrontRunningScore) => void) | null = null;
+  private onFlowToxicityHandler: ((result: VPINResult) => void) | null = null;
 
   // Performance tracking
   private signalCounts: Map<string, number> = new Map();
@@ -44,6 +58,7 @@ export class MicrostructureDetector {
     this.orderFlowAnalyzer = new OrderFlowAnalyzer(config);
     this.enhancedAnalyzer = new EnhancedMicrostructureAnalyzer(config);
     this.frontRunEngine = new FrontRunningHeuristicEngine(config);
+    this.tradeIntensityAnalyzer = new TradeIntensityAnalyzer();
     this.webSocketService = new WebSocketService(config);
   }
 
@@ -58,6 +73,11 @@ export class MicrostructureDetector {
     this.webSocketService.onOrderbook(this.handleOrderbook.bind(this));
     this.webSocketService.onConnection(this.handleConnectionChange.bind(this));
 
+    // Optionally record the raw feed for offline replay
+    if (process.env.WS_RECORD_FILE) {
+      this.startRecording(process.env.WS_RECORD_FILE);
+    }
+
     // Connect to WebSocket
     try {
       await this.webSocketService.connect();
@@ -94,7 +114,9 @@ export class MicrostructureDetector {
     }
     
     this.webSocketService.disconnect();
+    await this.stopRecording();
     this.trackedMarkets.clear();
+    this.pendingTrades.clear();
     
     // Clean up ring buffers to prevent memory leaks
     this.orderbookAnalyzer.dispose();
@@ -105,7 +127,12 @@ export class MicrostructureDetector {
     logger.info('MicrostructureDetector stopped');
   }
 
-  trackMarket(marketId: string, assetIds?: string[]): void {
+  trackMarket(marketId: string, assetIds?: string[], endDate?: string): void {
+    if (endDate) {
+      // Baselines are segmented by time to close
+      this.enhancedAnalyzer.setMarketCloseTime(marketId, Date.parse(endDate));
+    }
+
     if (this.trackedMarkets.has(marketId)) return;
 
     this.trackedMarkets.add(marketId);
@@ -129,16 +156,104 @@ export class MicrostructureDetector {
 
     this.trackedMarkets.delete(marketId);
     this.webSocketService.unsubscribeFromMarket(marketId);
+    this.tradeIntensityAnalyzer.clearMarket(marketId);
     
     logger.debug(`Stopped tracking market: ${marketId}`);
   }
 
-  trackMarkets(markets: { id: string; assetIds?: string[] }[]): void {
+  trackMarkets(markets: { id: string; assetIds?: string[]; endDate?: string }[]): void {
     for (const market of markets) {
-      this.trackMarket(market.id, market.assetIds);
+      this.trackMarket(market.id, market.assetIds, market.endDate);
     }
   }
 
+  startRecording(filePath: string): void {
+    const recorder = new FeedRecorder(filePath);
+    recorder.start();
+    this.webSocketService.setRecorder(recorder);
+  }
+
+  async stopRecording(): Promise<void> {
+    const recorder = this.webSocketService.getRecorder();
+    if (!recorder) return;
+
+    this.webSocketService.setRecorder(null);
+    await recorder.stop();
+  }
+
+  /**
+   * Run a recorded WebSocket session through the full detection stack without a live connection.
+   * Signals are delivered to the registered handlers exactly as they would be live.
+   */
+  async replayFeed(source: FeedReplaySource): Promise<ReplayStats> {
+    this.webSocketService.onTick(this.handleTick.bind(this));
+    this.webSocketService.onOrderbook(this.handleOrderbook.bind(this));
+
+    const wasRunning = this.isRunning;
+    this.isRunning = true;
+    this.replayMode = true;
+
+    try {
+      return await this.webSocketService.replay(source);
+    } finally {
+      this.replayMode = false;
+      this.isRunning = wasRunning;
+    }
+  }
+
+  /**
+   * Push a stored orderbook snapshot or trade straight into the detection pipeline,
+   * bypassing the WebSocket and market tracking. Used by event-driven backtests,
+   * which advance the simulated clock before each call.
+   */
+  async ingestOrderbook(orderbook: OrderbookData): Promise<void> {
+    await this.processOrderbook(orderbook);
+  }
+
+  async ingestTick(tick: TickData): Promise<void> {
+    await this.processTick(tick);
+  }
+
+  /**
+   * Rebuild baselines from a stored orderbook snapshot without emitting signals
+   * (warm-start for markets that have no checkpoint)
+   */
+  replayOrderbook(orderbook: OrderbookData): void {
+    this.enhancedAnalyzer.processOrderbook(orderbook);
+    this.orderFlowAnalyzer.analyzeOrderFlow(orderbook);
+  }
+
+  seedFromMetrics(metrics: Parameters<EnhancedMicrostructureAnalyzer['seedFromMetrics']>[0]): void {
+    this.enhancedAnalyzer.seedFromMetrics(metrics);
+  }
+
+  /**
+   * Fit trade intensity baselines from stored trades (oldest first) observed since `since`
+   */
+  loadTradeHistory(ticks: TickData[], since: number): number {
+    return this.tradeIntensityAnalyzer.loadHistory(ticks, since);
+  }
+
+  getTradeIntensityAnalyzer(): TradeIntensityAnalyzer {
+    return this.tradeIntensityAnalyzer;
+  }
+
+  /**
+   * Markets with the most toxic recent trade flow (highest VPIN)
+   */
+  getTopFlowToxicity(limit: number = 10): VPINResult[] {
+    return this.orderFlowAnalyzer.getTopVPIN(limit);
+  }
+
+  // Analyzers whose per-market state is checkpointed across restarts
+  getEnhancedAnalyzer(): EnhancedMicrostructureAnalyzer {
+    return this.enhancedAnalyzer;
+  }
+
+  getOrderFlowAnalyzer(): OrderFlowAnalyzer {
+    return this.orderFlowAnalyzer;
+  }
+
   // Event handler setters
   onSignal(handler: (signal: EarlySignal) => void): void {
     this.onSignalHandler = handler;
@@ -152,6 +267,19 @@ export class MicrostructureDetector {
     this.onOrderbookUpdateHandler = handler;
   }
 
+  onFrontRunningScore(handler: (score: FrontRunningScore) => void): void {
+    this.onFrontRunningScoreHandler = handler;
+  }
+
+  // Called with the updated VPIN each time a market's trades complete a volume bucket
+  onFlowToxicity(handler: (result: VPINResult) => void): void {
+    this.onFlowToxicityHandler = handler;
+  }
+
+  setFrontRunningCalibration(curve: CalibrationCurve | null): void {
+    this.frontRunEngine.setCalibration(curve);
+  }
+
   // Getters for market data
   getMarketOrderbookMetrics(marketId: string): OrderbookMetrics | null {
     return this.orderbookAnalyzer.getMarketMetrics(marketId);
@@ -187,12 +315,47 @@ export class MicrostructureDetector {
   }
 
   private async handleTick(tick: TickData): Promise<void> {
-    if (!this.isRunning || !this.trackedMarkets.has(tick.marketId)) return;
+    if (!this.isRunning || (!this.replayMode && !this.trackedMarkets.has(tick.marketId))) return;
+
+    // Each market update starts a trace that follows any signal it produces
+    await tracer.withSpan('microstructure.tick', () => this.processTick(tick), {
+      'market.id': tick.marketId,
+      'trade.side': tick.side,
+      'trade.size': tick.size
+    });
+  }
 
+  private async handleOrderbook(orderbook: OrderbookData): Promise<void> {
+    if (!this.isRunning || (!this.replayMode && !this.trackedMarkets.has(orderbook.marketId))) return;
+
+    await tracer.withSpan('microstructure.orderbook', () => this.processOrderbook(orderbook), {
+      'market.id': orderbook.marketId,
+      'orderbook.spread': orderbook.spread
+    });
+  }
+
+  private async processTick(tick: TickData): Promise<void> {
     try {
-      // Tick data is primarily used for trade flow analysis
-      // Microstructure signals are detected from orderbook data via handleOrderbook()
-      // This handler exists to capture trade events for future analysis
+      // Microstructure signals are detected from orderbook data via processOrderbook();
+      // trades are buffered here and handed to the order flow analyzer with the next book
+      const trades = this.pendingTrades.get(tick.marketId) || [];
+      trades.push(tick);
+      if (trades.length > this.MAX_PENDING_TRADES) {
+        trades.shift();
+      }
+      this.pendingTrades.set(tick.marketId, trades);
+
+      // VPIN volume buckets fill as trades arrive so the next orderbook sees current toxicity
+      const toxicity = this.orderFlowAnalyzer.recordTrade(tick);
+      if (toxicity && this.onFlowToxicityHandler) {
+        this.onFlowToxicityHandler(toxicity);
+      }
+
+      // Hawkes trade arrival intensity: bursts of self-exciting buying or selling
+      const burst = this.tradeIntensityAnalyzer.recordTrade(tick);
+      if (burst) {
+        this.processSignal(burst);
+      }
 
       // Update performance counters
       this.updateSignalCounts('tick', 0);
@@ -202,9 +365,7 @@ export class MicrostructureDetector {
     }
   }
 
-  private async handleOrderbook(orderbook: OrderbookData): Promise<void> {
-    if (!this.isRunning || !this.trackedMarkets.has(orderbook.marketId)) return;
-
+  private async processOrderbook(orderbook: OrderbookData): Promise<void> {
     try {
       // Update market spread if handler is set
       if (this.onOrderbookUpdateHandler) {
@@ -212,7 +373,10 @@ export class MicrostructureDetector {
       }
 
       // 🔥 ENHANCED: Process with advanced microstructure analyzer
-      const enhancedMetrics = this.enhancedAnalyzer.processOrderbook(orderbook);
+      const enhancedMetrics = this.enhancedAnalyzer.processOrderbook(
+        orderbook,
+        this.orderFlowAnalyzer.getVPIN(orderbook.marketId)?.vpin
+      );
       
       if (enhancedMetrics) {
         // Detect information leakage patterns
@@ -236,7 +400,9 @@ export class MicrostructureDetector {
       }
 
       // 🔥 NEW: Advanced order flow analysis
-      const flowSignals = this.orderFlowAnalyzer.analyzeOrderFlow(orderbook);
+      const recentTrades = this.pendingTrades.get(orderbook.marketId);
+      this.pendingTrades.delete(orderbook.marketId);
+      const flowSignals = this.orderFlowAnalyzer.analyzeOrderFlow(orderbook, recentTrades);
       for (const flowSignal of flowSignals) {
         this.processOrderFlowSignal(flowSignal, orderbook.marketId);
       }
@@ -446,6 +612,10 @@ export class MicrostructureDetector {
         [], // No correlated markets for now - would need integration with TopicClusteringEngine
         'unknown' // No topic cluster for now
       );
+
+      if (this.onFrontRunningScoreHandler) {
+        this.onFrontRunningScoreHandler(frontRunScore);
+      }
       
       // Create leak signal if score is significant
       const leakSignal = this.frontRunEngine.createLeakSignal(
@@ -498,7 +668,7 @@ export class MicrostructureDetector {
         market: {} as Market, // Will be enriched later
         signalType: flowSignal.type as any,
         confidence: flowSignal.confidence,
-        timestamp: Date.now(),
+        timestamp: clock.now(),
         metadata: {
           severity: flowSignal.severity,
           signalSource: 'order_flow',
@@ -520,7 +690,8 @@ export class MicrostructureDetector {
       metadata: {
         ...signal.metadata,
         orderbookMetrics: orderbookMetrics,
-        detectionTimestamp: Date.now(),
+        regime: this.enhancedAnalyzer.getMarketRegime(signal.marketId) || undefined,
+        detectionTimestamp: clock.now(),
         enrichmentVersion: '1.0',
       },
     };
@@ -0,0 +1,320 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AlertPriority } from '../types';
+import { advancedLogger as logger } from '../utils/AdvancedLogger';
+import { metricsCollector } from '../monitoring/MetricsCollector';
+import {
+  AlertNotification,
+  createNotificationSink,
+  NotificationSink,
+  NotificationSinkConfig
+} from './NotificationSinks';
+
+/**
+ * A routing rule. Every filter that is set must match (priorities, signal types
+ * and market categories are each "any of"); an unset filter matches everything.
+ */
+export interface NotificationRoute {
+  name: string;
+  priorities?: AlertPriority[];
+  signalTypes?: string[];
+  categories?: string[]; // 'uncategorized' matches alerts without a category
+  sinks: string[];
+  stop?: boolean;        // Skip later rules once this one matches
+}
+
+export interface NotificationRoutingConfig {
+  sinks: NotificationSinkConfig[];
+  routes: NotificationRoute[];
+}
+
+export interface NotificationDispatchResult {
+  routes: string[];
+  delivered: string[];
+  failed: Array<{ sink: string; error: string }>;
+}
+
+export interface NotificationRouterOptions {
+  maxRetries?: number;
+  retryDelayMs?: number;
+}
+
+type PriorityNotificationSettings = Record<'critical' | 'high' | 'medium' | 'low', {
+  enableDiscord: boolean;
+  enableWebhook: boolean;
+}>;
+
+const ALL_PRIORITIES = [AlertPriority.CRITICAL, AlertPriority.HIGH, AlertPriority.MEDIUM, AlertPriority.LOW];
+
+export const DEFAULT_ROUTING_FILE = path.join(process.cwd(), 'config', 'notification-routing.json');
+
+/**
+ * Routes alerts to notification sinks (Discord, Slack, Telegram, JSON webhook,
+ * email) by AlertPriority, signal type and market category.
+ *
+ * Rules are evaluated in order and the sinks of every matching rule are
+ * collected, so e.g. a CRITICAL politics alert can go to a dedicated channel
+ * while still reaching the catch-all route. Each sink is retried independently;
+ * one failing channel does not block the others.
+ */
+export class NotificationRouter {
+  private sinks: Map<string, NotificationSink> = new Map();
+  private routes: NotificationRoute[] = [];
+  private readonly maxRetries: number;
+  private readonly retryDelayMs: number;
+
+  constructor(sinks: NotificationSink[], routes: NotificationRoute[], options: NotificationRouterOptions = {}) {
+    for (const sink of sinks) {
+      if (this.sinks.has(sink.name)) {
+        throw new Error(`Duplicate notification sink name: ${sink.name}`);
+      }
+      this.sinks.set(sink.name, sink);
+    }
+
+    this.setRoutes(routes);
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
+  }
+
+  /**
+   * Build sinks and routes from a routing configuration
+   */
+  static fromConfig(config: NotificationRoutingConfig, options: NotificationRouterOptions = {}): NotificationRouter {
+    return new NotificationRouter(config.sinks.map(createNotificationSink), config.routes, options);
+  }
+
+  /**
+   * Load a routing file. `${VAR}` placeholders are replaced with environment
+   * variables so webhook URLs and credentials can stay out of the file.
+   */
+  static fromFile(filePath: string, options: NotificationRouterOptions = {}): NotificationRouter {
+    const raw = fs.readFileSync(filePath, 'utf-8');
+    const interpolated = raw.replace(/\$\{([A-Z0-9_]+)\}/g, (_, name) => JSON.stringify(process.env[name] || '').slice(1, -1));
+    const config = JSON.parse(interpolated) as NotificationRoutingConfig;
+
+    // Sinks whose credentials are not set in this environment are skipped
+    const sinks = config.sinks.filter(sink => {
+      const configured = sink.type === 'email'
+        ? Boolean(sink.smtp?.host)
+        : sink.type === 'telegram' ? Boolean(sink.botToken && sink.chatId) : Boolean(sink.url);
+      if (!configured) {
+        logger.warn(`Notification sink ${sink.name} is missing credentials, skipping`, {
+          component: 'notification_router',
+          operation: 'load_routing',
+          metadata: { sink: sink.name, type: sink.type, filePath }
+        });
+      }
+      return configured;
+    });
+
+    const available = new Set(sinks.map(sink => sink.name));
+    const routes = config.routes.map(route => ({ ...route, sinks: route.sinks.filter(name => available.has(name)) }));
+
+    return NotificationRouter.fromConfig({ sinks, routes }, options);
+  }
+
+  /**
+   * Sinks from environment variables, routed by the per-priority
+   * enableDiscord / enableWebhook flags of alertPrioritization.notifications.
+   * Chat and email sinks follow enableDiscord; the JSON webhook follows enableWebhook.
+   */
+  static fromEnvironment(
+    discordWebhookUrl: string | undefined,
+    notifications: PriorityNotificationSettings,
+    options: NotificationRouterOptions = {}
+  ): NotificationRouter {
+    const env = process.env;
+    const sinks: NotificationSinkConfig[] = [];
+
+    if (discordWebhookUrl) {
+      sinks.push({ name: 'discord', type: 'discord', url: discordWebhookUrl });
+    }
+    if (env.SLACK_WEBHOOK_URL) {
+      sinks.push({ name: 'slack', type: 'slack', url: env.SLACK_WEBHOOK_URL });
+    }
+    if (env.TELEGRAM_BOT_TOKEN && env.TELEGRAM_CHAT_ID) {
+      sinks.push({ name: 'telegram', type: 'telegram', botToken: env.TELEGRAM_BOT_TOKEN, chatId: env.TELEGRAM_CHAT_ID });
+    }
+    if (env.NOTIFICATION_WEBHOOK_URL) {
+      sinks.push({ name: 'webhook', type: 'webhook', url: env.NOTIFICATION_WEBHOOK_URL });
+    }
+    if (env.SMTP_HOST && env.ALERT_EMAIL_TO) {
+      sinks.push({
+        name: 'email',
+        type: 'email',
+        smtp: {
+          host: env.SMTP_HOST,
+          port: env.SMTP_PORT ? parseInt(env.SMTP_PORT, 10) : undefined,
+          secure: env.SMTP_SECURE === 'true',
+          username: env.SMTP_USER,
+          password: env.SMTP_PASS,
+          from: env.ALERT_EMAIL_FROM || env.SMTP_USER || 'poly-early-bot@localhost',
+          to: env.ALERT_EMAIL_TO.split(',').map(address => address.trim()).filter(Boolean)
+        }
+      });
+    }
+
+    return NotificationRouter.fromConfig(
+      { sinks, routes: NotificationRouter.defaultRoutes(sinks, notifications) },
+      options
+    );
+  }
+
+  /**
+   * Routing file if one exists (NOTIFICATION_ROUTING_FILE or config/notification-routing.json),
+   * otherwise sinks from the environment
+   */
+  static load(
+    discordWebhookUrl: string | undefined,
+    notifications: PriorityNotificationSettings,
+    options: NotificationRouterOptions = {}
+  ): { router: NotificationRouter; source: 'file' | 'environment' } {
+    const filePath = process.env.NOTIFICATION_ROUTING_FILE || DEFAULT_ROUTING_FILE;
+
+    if (fs.existsSync(filePath)) {
+      return { router: NotificationRouter.fromFile(filePath, options), source: 'file' };
+    }
+
+    return { router: NotificationRouter.fromEnvironment(discordWebhookUrl, notifications, options), source: 'environment' };
+  }
+
+  static defaultRoutes(sinks: NotificationSinkConfig[], notifications: PriorityNotificationSettings): NotificationRoute[] {
+    const enabledFor = (flag: 'enableDiscord' | 'enableWebhook') =>
+      ALL_PRIORITIES.filter(priority => notifications[priority]?.[flag]);
+
+    const chatSinks = sinks.filter(sink => sink.type !== 'webhook').map(sink => sink.name);
+    const webhookSinks = sinks.filter(sink => sink.type === 'webhook').map(sink => sink.name);
+
+    return [
+      { name: 'default', priorities: enabledFor('enableDiscord'), sinks: chatSinks },
+      { name: 'default_webhook', priorities: enabledFor('enableWebhook'), sinks: webhookSinks }
+    ].filter(route => route.sinks.length > 0);
+  }
+
+  setRoutes(routes: NotificationRoute[]): void {
+    for (const route of routes) {
+      const unknown = route.sinks.filter(name => !this.sinks.has(name));
+      if (unknown.length > 0) {
+        throw new Error(`Route ${route.name} references unknown sinks: ${unknown.join(', ')}`);
+      }
+    }
+    this.routes = routes;
+  }
+
+  getRoutes(): NotificationRoute[] {
+    return [...this.routes];
+  }
+
+  getSinkNames(): string[] {
+    return Array.from(this.sinks.keys());
+  }
+
+  hasSinks(): boolean {
+    return this.sinks.size > 0;
+  }
+
+  /**
+   * Names of the matching routes and the (deduplicated) sinks they deliver to
+   */
+  resolve(notification: AlertNotification): { routes: string[]; sinks: string[] } {
+    const routes: string[] = [];
+    const sinks = new Set<string>();
+    const category = (notification.category || 'uncategorized').toLowerCase();
+
+    for (const route of this.routes) {
+      if (route.priorities && !route.priorities.includes(notification.priority)) continue;
+      if (route.signalTypes && !route.signalTypes.includes(notification.signalType)) continue;
+      if (route.categories && !route.categories.some(c => c.toLowerCase() === category)) continue;
+
+      routes.push(route.name);
+      route.sinks.forEach(name => sinks.add(name));
+      if (route.stop) break;
+    }
+
+    return { routes, sinks: Array.from(sinks) };
+  }
+
+  /**
+   * Deliver to every sink the routing rules select
+   */
+  async dispatch(notification: AlertNotification): Promise<NotificationDispatchResult> {
+    const { routes, sinks } = this.resolve(notification);
+
+    if (sinks.length === 0) {
+      logger.info(`No notification route for ${notification.priority} ${notification.signalType}`, {
+        component: 'notification_router',
+        operation: 'dispatch',
+        metadata: {
+          marketId: notification.marketId,
+          priority: notification.priority,
+          signalType: notification.signalType,
+          category: notification.category
+        }
+      });
+      return { routes, delivered: [], failed: [] };
+    }
+
+    return this.deliver(notification, sinks, routes);
+  }
+
+  /**
+   * Deliver to every sink regardless of routing (test notifications)
+   */
+  async broadcast(notification: AlertNotification): Promise<NotificationDispatchResult> {
+    return this.deliver(notification, this.getSinkNames(), []);
+  }
+
+  /**
+   * Deliver to the named sinks, bypassing the routing rules
+   */
+  async deliver(notification: AlertNotification, sinkNames: string[], routes: string[] = []): Promise<NotificationDispatchResult> {
+    const outcomes = await Promise.all(sinkNames.map(async name => {
+      try {
+        await this.sendWithRetry(this.sinks.get(name)!, notification);
+        metricsCollector.incrementCounter(`notifications.sink.${name}.sent`);
+        return { sink: name, error: null as string | null };
+      } catch (error) {
+        metricsCollector.incrementCounter(`notifications.sink.${name}.failed`);
+        return { sink: name, error: (error as Error).message };
+      }
+    }));
+
+    const result: NotificationDispatchResult = {
+      routes,
+      delivered: outcomes.filter(o => o.error === null).map(o => o.sink),
+      failed: outcomes.filter(o => o.error !== null).map(o => ({ sink: o.sink, error: o.error as string }))
+    };
+
+    logger.info(`Notification delivered to ${result.delivered.length}/${sinkNames.length} sinks`, {
+      component: 'notification_router',
+      operation: 'dispatch',
+      metadata: {
+        marketId: notification.marketId,
+        priority: notification.priority,
+        routes,
+        delivered: result.delivered,
+        failed: result.failed
+      }
+    });
+
+    return result;
+  }
+
+  private async sendWithRetry(sink: NotificationSink, notification: AlertNotification): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await sink.send(notification);
+        return;
+      } catch (error) {
+        logger.error(`Notification attempt ${attempt} to ${sink.name} failed`, error as Error, {
+          component: 'notification_router',
+          operation: 'send',
+          metadata: { sink: sink.name, type: sink.type, attempt, maxRetries: this.maxRetries }
+        });
+
+        if (attempt >= this.maxRetries) throw error;
+        await new Promise(resolve => setTimeout(resolve, this.retryDelayMs * attempt));
+      }
+    }
+  }
+}
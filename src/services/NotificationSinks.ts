@@ -0,0 +1,498 @@
+import { EventEmitter, once } from 'events';
+import * as net from 'net';
+import * as os from 'os';
+import * as tls from 'tls';
+import { AlertPriority } from '../types';
+
+export interface DiscordEmbed {
+  title?: string;
+  description?: string;
+  color?: number;
+  fields?: Array<{
+    name: string;
+    value: string;
+    inline?: boolean;
+  }>;
+  footer?: {
+    text: string;
+  };
+  timestamp?: string;
+  author?: {
+    name: string;
+    icon_url?: string;
+  };
+}
+
+export interface DiscordWebhookPayload {
+  content?: string;
+  embeds?: DiscordEmbed[];
+  username?: string;
+  avatar_url?: string;
+}
+
+/**
+ * Channel-agnostic alert. Sinks render it in their own format; the Discord
+ * sink sends `discordEmbed` as-is when the notifier already built one.
+ */
+export interface AlertNotification {
+  title: string;
+  description: string;
+  priority: AlertPriority;
+  signalType: string;
+  category?: string;
+  marketId: string;
+  marketQuestion: string;
+  marketUrl?: string;
+  score?: number;
+  fields: Array<{ name: string; value: string; inline?: boolean }>;
+  mentionEveryone?: boolean;
+  timestamp: number;
+  discordEmbed?: DiscordEmbed;
+}
+
+export type NotificationSinkType = 'discord' | 'slack' | 'telegram' | 'webhook' | 'email';
+
+export interface SmtpSettings {
+  host: string;
+  port?: number;      // Default 465 when secure, 587 otherwise
+  secure?: boolean;   // Implicit TLS; otherwise STARTTLS is used when the server offers it
+  username?: string;
+  password?: string;
+  from: string;
+  to: string[];
+  rejectUnauthorized?: boolean;
+}
+
+export interface NotificationSinkConfig {
+  name: string;
+  type: NotificationSinkType;
+  url?: string;                     // discord, slack, webhook
+  headers?: Record<string, string>; // webhook
+  botToken?: string;                // telegram
+  chatId?: string;                  // telegram
+  apiUrl?: string;                  // telegram (default https://api.telegram.org)
+  smtp?: SmtpSettings;              // email
+  username?: string;                // discord display name
+  timeoutMs?: number;
+}
+
+/**
+ * A delivery channel. send() resolves once the provider has accepted the
+ * message and throws otherwise; retries are left to NotificationRouter.
+ */
+export interface NotificationSink {
+  readonly name: string;
+  readonly type: NotificationSinkType;
+  send(notification: AlertNotification): Promise<void>;
+}
+
+const PRIORITY_COLORS: Record<AlertPriority, number> = {
+  [AlertPriority.CRITICAL]: 0xFF0000,
+  [AlertPriority.HIGH]: 0xFF6600,
+  [AlertPriority.MEDIUM]: 0xFFAA00,
+  [AlertPriority.LOW]: 0x888888,
+};
+
+/**
+ * Markdown links ([text](url)) as used in the Discord embed fields, rewritten per channel
+ */
+const LINK_FORMATS = {
+  slack: (label: string, url: string) => `<${url}|${label}>`,
+  html: (label: string, url: string) => `<a href="${url}">${label}</a>`,
+  text: (label: string, url: string) => `${label}: ${url}`,
+};
+
+function rewriteLinks(text: string, format: keyof typeof LINK_FORMATS): string {
+  return text.replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, (_, label, url) => LINK_FORMATS[format](label, url));
+}
+
+abstract class HttpSink {
+  abstract readonly type: NotificationSinkType;
+  readonly name: string;
+  protected timeoutMs: number;
+
+  constructor(name: string, timeoutMs: number = 10000) {
+    this.name = name;
+    this.timeoutMs = timeoutMs;
+  }
+
+  protected async postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => 'Unknown error');
+        throw new Error(`${this.type} sink ${this.name} failed: ${response.status} ${errorText}`);
+      }
+
+      return response;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+export class DiscordSink extends HttpSink implements NotificationSink {
+  readonly type = 'discord' as const;
+  private url: string;
+  private username: string;
+
+  constructor(config: NotificationSinkConfig) {
+    super(config.name, config.timeoutMs);
+    this.url = requireSetting(config, 'url');
+    this.username = config.username || 'Poly Early Bot - Prioritized Alerts';
+  }
+
+  async send(notification: AlertNotification): Promise<void> {
+    const embed: DiscordEmbed = notification.discordEmbed || {
+      title: notification.title,
+      description: notification.description,
+      color: PRIORITY_COLORS[notification.priority],
+      fields: notification.fields.slice(0, 25),
+      timestamp: new Date(notification.timestamp).toISOString(),
+    };
+
+    const payload: DiscordWebhookPayload = {
+      content: notification.mentionEveryone ? '@everyone' : undefined,
+      embeds: [embed],
+      username: this.username,
+    };
+
+    await this.postJson(this.url, payload);
+  }
+}
+
+/**
+ * Slack incoming webhook (Block Kit)
+ */
+export class SlackSink extends HttpSink implements NotificationSink {
+  readonly type = 'slack' as const;
+  private url: string;
+
+  constructor(config: NotificationSinkConfig) {
+    super(config.name, config.timeoutMs);
+    this.url = requireSetting(config, 'url');
+  }
+
+  async send(notification: AlertNotification): Promise<void> {
+    const toMrkdwn = (text: string) => rewriteLinks(text.replace(/\*\*/g, '*'), 'slack');
+    const blocks: any[] = [
+      { type: 'header', text: { type: 'plain_text', text: notification.title.substring(0, 150), emoji: true } },
+      { type: 'section', text: { type: 'mrkdwn', text: toMrkdwn(notification.description) } },
+    ];
+
+    // Slack allows at most 10 fields per section block
+    for (let i = 0; i < notification.fields.length; i += 10) {
+      blocks.push({
+        type: 'section',
+        fields: notification.fields.slice(i, i + 10).map(field => ({
+          type: 'mrkdwn',
+          text: `*${field.name}*\n${toMrkdwn(field.value)}`.substring(0, 2000),
+        })),
+      });
+    }
+
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `${notification.priority} • ${notification.signalType} • ${notification.category || 'uncategorized'}` }],
+    });
+
+    await this.postJson(this.url, {
+      text: `${notification.mentionEveryone ? '<!channel> ' : ''}${notification.title}`,
+      blocks,
+    });
+  }
+}
+
+/**
+ * Telegram Bot API sendMessage
+ */
+export class TelegramSink extends HttpSink implements NotificationSink {
+  readonly type = 'telegram' as const;
+  private botToken: string;
+  private chatId: string;
+  private apiUrl: string;
+
+  constructor(config: NotificationSinkConfig) {
+    super(config.name, config.timeoutMs);
+    this.botToken = requireSetting(config, 'botToken');
+    this.chatId = requireSetting(config, 'chatId');
+    this.apiUrl = (config.apiUrl || 'https://api.telegram.org').replace(/\/$/, '');
+  }
+
+  async send(notification: AlertNotification): Promise<void> {
+    const toHtml = (text: string) => rewriteLinks(
+      escapeHtml(text).replace(/\*\*(.+?)\*\*/g, '<b>$1</b>'),
+      'html'
+    );
+
+    const lines = [
+      `<b>${escapeHtml(notification.title)}</b>`,
+      toHtml(notification.description),
+      '',
+      ...notification.fields.map(field => `<b>${escapeHtml(field.name)}</b>\n${toHtml(field.value)}`),
+    ];
+
+    // Telegram caps messages at 4096 characters
+    const response = await this.postJson(`${this.apiUrl}/bot${this.botToken}/sendMessage`, {
+      chat_id: this.chatId,
+      text: lines.join('\n').substring(0, 4096),
+      parse_mode: 'HTML',
+      disable_web_page_preview: true,
+    });
+
+    const result = await response.json().catch(() => null) as { ok?: boolean; description?: string } | null;
+    if (result && result.ok === false) {
+      throw new Error(`telegram sink ${this.name} failed: ${result.description || 'unknown error'}`);
+    }
+  }
+}
+
+/**
+ * Generic JSON webhook: POSTs the notification itself
+ */
+export class WebhookSink extends HttpSink implements NotificationSink {
+  readonly type = 'webhook' as const;
+  private url: string;
+  private headers: Record<string, string>;
+
+  constructor(config: NotificationSinkConfig) {
+    super(config.name, config.timeoutMs);
+    this.url = requireSetting(config, 'url');
+    this.headers = config.headers || {};
+  }
+
+  async send(notification: AlertNotification): Promise<void> {
+    // The Discord embed duplicates the fields and is dropped by JSON.stringify when undefined
+    const body = { ...notification, discordEmbed: undefined, timestamp: new Date(notification.timestamp).toISOString() };
+    await this.postJson(this.url, body, this.headers);
+  }
+}
+
+/**
+ * Plain-text email over SMTP (implicit TLS, STARTTLS or plain, with AUTH PLAIN)
+ */
+export class EmailSink implements NotificationSink {
+  readonly type = 'email' as const;
+  readonly name: string;
+  private smtp: SmtpSettings;
+  private timeoutMs: number;
+
+  constructor(config: NotificationSinkConfig) {
+    if (!config.smtp?.host || !config.smtp.from || !config.smtp.to?.length) {
+      throw new Error(`email sink ${config.name} requires smtp.host, smtp.from and smtp.to`);
+    }
+    this.name = config.name;
+    this.smtp = config.smtp;
+    this.timeoutMs = config.timeoutMs || 15000;
+  }
+
+  async send(notification: AlertNotification): Promise<void> {
+    const subject = `[${notification.priority.toUpperCase()}] ${notification.title.replace(/[^\x20-\x7E]/g, '').trim()}`;
+    const body = [
+      notification.description.replace(/\*\*/g, ''),
+      '',
+      ...notification.fields.map(field => `${field.name}\n${rewriteLinks(field.value, 'text')}\n`),
+    ].join('\r\n');
+
+    const message = [
+      `From: ${this.smtp.from}`,
+      `To: ${this.smtp.to.join(', ')}`,
+      `Subject: ${subject}`,
+      `Date: ${new Date(notification.timestamp).toUTCString()}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit',
+      '',
+      body,
+    ].join('\r\n');
+
+    const client = new SmtpClient(this.smtp, this.timeoutMs);
+    await client.sendMail(this.smtp.from, this.smtp.to, message);
+  }
+}
+
+/**
+ * Minimal SMTP client for EmailSink (one message per connection)
+ */
+class SmtpClient {
+  private settings: SmtpSettings;
+  private timeoutMs: number;
+  private socket!: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private lineEvents = new EventEmitter();
+  private closed = false;
+
+  constructor(settings: SmtpSettings, timeoutMs: number) {
+    this.settings = settings;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async sendMail(from: string, recipients: string[], message: string): Promise<void> {
+    const secure = this.settings.secure ?? false;
+    const port = this.settings.port || (secure ? 465 : 587);
+
+    this.socket = await this.connect(port, secure);
+
+    try {
+      await this.expect(220);
+      let capabilities = await this.ehlo();
+
+      if (!secure && capabilities.includes('STARTTLS')) {
+        await this.command('STARTTLS', 220);
+        this.socket = await this.upgrade(this.socket);
+        capabilities = await this.ehlo();
+      }
+
+      if (this.settings.username) {
+        const credentials = Buffer.from(`\0${this.settings.username}\0${this.settings.password || ''}`).toString('base64');
+        await this.command(`AUTH PLAIN ${credentials}`, 235);
+      }
+
+      await this.command(`MAIL FROM:<${extractAddress(from)}>`, 250);
+      for (const recipient of recipients) {
+        await this.command(`RCPT TO:<${extractAddress(recipient)}>`, [250, 251]);
+      }
+
+      await this.command('DATA', 354);
+      // Dot-stuff lines that begin with '.' and terminate with <CRLF>.<CRLF>
+      const data = message.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+      await this.command(`${data}\r\n.`, 250);
+      await this.command('QUIT', 221).catch(() => undefined);
+    } finally {
+      this.socket.destroy();
+    }
+  }
+
+  private connect(port: number, secure: boolean): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+      const onError = (error: Error) => reject(error);
+      const socket: net.Socket = secure
+        ? tls.connect({ host: this.settings.host, port, servername: this.settings.host, rejectUnauthorized: this.settings.rejectUnauthorized ?? true }, () => resolve(socket))
+        : net.connect({ host: this.settings.host, port }, () => resolve(socket));
+
+      socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error(`SMTP timeout after ${this.timeoutMs}ms`)));
+      socket.once('error', onError);
+      this.attach(socket);
+    });
+  }
+
+  private upgrade(socket: net.Socket): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+      socket.removeAllListeners('data');
+      const secured = tls.connect({
+        socket,
+        servername: this.settings.host,
+        rejectUnauthorized: this.settings.rejectUnauthorized ?? true,
+      }, () => resolve(secured));
+      secured.once('error', reject);
+      this.attach(secured);
+    });
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      let index: number;
+      while ((index = this.buffer.indexOf('\n')) >= 0) {
+        const line = this.buffer.slice(0, index).replace(/\r$/, '');
+        this.buffer = this.buffer.slice(index + 1);
+        this.lines.push(line);
+        this.lineEvents.emit('line');
+      }
+    });
+    socket.on('close', () => {
+      this.closed = true;
+      this.lineEvents.emit('line');
+    });
+  }
+
+  /**
+   * Next reply line, or '' once the connection has closed
+   */
+  private async readLine(): Promise<string> {
+    while (this.lines.length === 0) {
+      if (this.closed) return '';
+      await once(this.lineEvents, 'line');
+    }
+    return this.lines.shift()!;
+  }
+
+  /**
+   * Read a (possibly multi-line) reply and check its status code
+   */
+  private async expect(expected: number | number[]): Promise<string[]> {
+    const codes = Array.isArray(expected) ? expected : [expected];
+    const replyLines: string[] = [];
+
+    for (;;) {
+      const line = await this.readLine();
+      replyLines.push(line);
+      if (line.length < 4 || line[3] !== '-') break;
+    }
+
+    const code = parseInt(replyLines[replyLines.length - 1].slice(0, 3), 10);
+    if (!codes.includes(code)) {
+      throw new Error(`SMTP error: expected ${codes.join('/')}, got "${replyLines.join(' | ') || 'connection closed'}"`);
+    }
+
+    return replyLines.map(line => line.slice(4));
+  }
+
+  private async command(line: string, expected: number | number[]): Promise<string[]> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected);
+  }
+
+  private async ehlo(): Promise<string[]> {
+    const reply = await this.command(`EHLO ${os.hostname() || 'localhost'}`, 250);
+    return reply.map(capability => capability.toUpperCase());
+  }
+}
+
+/**
+ * Build a sink from its configuration
+ */
+export function createNotificationSink(config: NotificationSinkConfig): NotificationSink {
+  switch (config.type) {
+    case 'discord':
+      return new DiscordSink(config);
+    case 'slack':
+      return new SlackSink(config);
+    case 'telegram':
+      return new TelegramSink(config);
+    case 'webhook':
+      return new WebhookSink(config);
+    case 'email':
+      return new EmailSink(config);
+    default:
+      throw new Error(`Unknown notification sink type: ${(config as NotificationSinkConfig).type}`);
+  }
+}
+
+function requireSetting(config: NotificationSinkConfig, key: 'url' | 'botToken' | 'chatId'): string {
+  const value = config[key];
+  if (!value) {
+    throw new Error(`${config.type} sink ${config.name} requires ${key}`);
+  }
+  return value;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function extractAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return match ? match[1] : mailbox.trim();
+}
@@ -1,8 +1,10 @@
 import { OrderbookData, OrderbookLevel, TickData, MicrostructureSignal, BotConfig } from '../types';
 import { logger } from '../utils/logger';
+import { clock } from '../utils/Clock';
 import { calculateTightness } from '../utils/spreadHelpers';
+import { VPINCalculator, VPINMarketState, VPINResult } from '../statistics/VPIN';
 
-interface OrderFlowMetrics {
+export interface OrderFlowMetrics {
   marketId: string;
   timestamp: number;
   
@@ -30,6 +32,15 @@ interface OrderFlowMetrics {
   icebergProbability: number;     // Likelihood of hidden large orders
   wallStrength: number;           // Strength of support/resistance levels
   liquidationRisk: number;       // Risk of forced selling/buying
+
+  // Flow toxicity
+  vpin: number | null;            // VPIN over recent volume buckets, null until enough have filled
+}
+
+// Per-market state serialized for checkpoints (see AnalyzerCheckpointService)
+export interface OrderFlowAnalyzerState {
+  flowHistory: OrderFlowMetrics[];
+  vpin?: VPINMarketState;
 }
 
 interface FlowSignal {
@@ -45,6 +56,7 @@ export class OrderFlowAnalyzer {
   private flowHistory: Map<string, OrderFlowMetrics[]> = new Map();
   private orderbookSnapshots: Map<string, OrderbookData[]> = new Map();
   private recentTrades: Map<string, TickData[]> = new Map();
+  private vpinCalculator: VPINCalculator = new VPINCalculator();
   
   // Configuration for flow analysis
   private readonly HISTORY_LENGTH = 100;      // Keep last 100 flow metrics
@@ -67,6 +79,29 @@ export class OrderFlowAnalyzer {
     return this.detectFlowSignals(metrics);
   }
 
+  /**
+   * Feed a trade into the VPIN volume buckets as it arrives. Returns the
+   * updated VPIN when the trade completed a bucket.
+   */
+  recordTrade(tick: TickData): VPINResult | null {
+    return this.vpinCalculator.addTrade(tick);
+  }
+
+  getVPIN(marketId: string): VPINResult | null {
+    return this.vpinCalculator.getVPIN(marketId);
+  }
+
+  /**
+   * Markets with the most toxic recent flow
+   */
+  getTopVPIN(limit: number = 10): VPINResult[] {
+    return this.vpinCalculator.getMarketIds()
+      .map(marketId => this.vpinCalculator.getVPIN(marketId))
+      .filter((result): result is VPINResult => result !== null)
+      .sort((a, b) => b.vpin - a.vpin)
+      .slice(0, limit);
+  }
+
   private calculateFlowMetrics(orderbook: OrderbookData, recentTrades?: TickData[]): OrderFlowMetrics {
     const { bids, asks, marketId, timestamp } = orderbook;
     
@@ -94,6 +129,9 @@ export class OrderFlowAnalyzer {
     const wallStrength = this.calculateWallStrength(bids, asks);
     const liquidationRisk = this.calculateLiquidationRisk(orderbook, recentTrades);
 
+    // Flow toxicity (trades are fed in as they arrive via recordTrade)
+    const vpin = this.vpinCalculator.getVPIN(marketId)?.vpin ?? null;
+
     return {
       marketId,
       timestamp,
@@ -112,6 +150,7 @@ export class OrderFlowAnalyzer {
       icebergProbability,
       wallStrength,
       liquidationRisk,
+      vpin,
     };
   }
 
@@ -513,7 +552,7 @@ export class OrderFlowAnalyzer {
     recentTrades.push(...trades);
     
     // Keep only trades within time window
-    const cutoff = Date.now() - this.TRADE_WINDOW_MS;
+    const cutoff = clock.now() - this.TRADE_WINDOW_MS;
     this.recentTrades.set(marketId, recentTrades.filter(trade => trade.timestamp > cutoff));
   }
 
@@ -539,16 +578,40 @@ export class OrderFlowAnalyzer {
     return orderbook.spread;
   }
 
+  // Checkpointing
+  getCheckpointMarketIds(): string[] {
+    return Array.from(new Set([...this.flowHistory.keys(), ...this.vpinCalculator.getMarketIds()]));
+  }
+
+  exportMarketState(marketId: string): OrderFlowAnalyzerState | null {
+    const history = this.flowHistory.get(marketId) || [];
+    const vpin = this.vpinCalculator.exportMarketState(marketId);
+    if (history.length === 0 && !vpin) return null;
+
+    const state: OrderFlowAnalyzerState = { flowHistory: [...history] };
+    if (vpin) state.vpin = vpin;
+    return state;
+  }
+
+  importMarketState(marketId: string, state: OrderFlowAnalyzerState): void {
+    this.flowHistory.set(marketId, state.flowHistory.slice(-this.HISTORY_LENGTH));
+    if (state.vpin) {
+      this.vpinCalculator.importMarketState(marketId, state.vpin);
+    }
+  }
+
   // Cleanup methods
   clearMarketData(marketId: string): void {
     this.flowHistory.delete(marketId);
     this.orderbookSnapshots.delete(marketId);
     this.recentTrades.delete(marketId);
+    this.vpinCalculator.clearMarket(marketId);
   }
 
   dispose(): void {
     this.flowHistory.clear();
     this.orderbookSnapshots.clear();
     this.recentTrades.clear();
+    this.vpinCalculator.clear();
   }
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { OrderbookData, OrderbookLevel, OrderbookMetrics, MicrostructureSignal, BotConfig } from '../types';
 import { OrderbookBuffer } from '../utils/RingBuffer';
 import { logger } from '../utils/logger';
+import { clock } from '../utils/Clock';
 import { toPercentage, toBasisPoints } from '../utils/spreadHelpers';
 
 export class OrderbookAnalyzer {
@@ -323,7 +324,7 @@ export class OrderbookAnalyzer {
 
   // Utility method to clean up old market data
   cleanupStaleMarkets(maxAgeMs: number = 24 * 60 * 60 * 1000): void {
-    const now = Date.now();
+    const now = clock.now();
     const marketsToRemove: string[] = [];
 
     // Age-based cleanup
@@ -0,0 +1,601 @@
+import { randomUUID } from 'crypto';
+import { DatabaseManager } from '../data/database';
+import { TradeSimulator, TradeSimulatorConfig } from '../backtesting/TradeSimulator';
+import { PriceHistoryTracker } from './PriceHistoryTracker';
+import { EarlySignal } from '../types';
+import { advancedLogger as logger } from '../utils/AdvancedLogger';
+
+export type PaperExitReason = 'stop_loss' | 'take_profit' | 'max_hold';
+
+export interface PaperTradingConfig extends Partial<TradeSimulatorConfig> {
+  minConfidence?: number;
+  maxHoldingMs?: number; // Positions are closed at the mark once this old
+  markIntervalMs?: number;
+}
+
+export interface PaperPosition {
+  id: string;
+  marketId: string;
+  signalType: string;
+  signalConfidence: number;
+  direction: 'bullish' | 'bearish';
+  status: 'open' | 'closed';
+
+  entryTime: number;
+  entryPrice: number; // YES price paid/received after slippage and impact
+  quantity: number;   // Shares of the YES outcome
+  costBasis: number;  // Dollars committed at entry (excluding fees)
+  stopLossPrice?: number;
+  takeProfitPrice?: number;
+
+  markPrice?: number;
+  unrealizedPnL: number;
+  markedAt?: number;
+
+  exitTime?: number;
+  exitPrice?: number;
+  exitReason?: PaperExitReason;
+  realizedPnL?: number;
+  fees: number;
+
+  metadata?: Record<string, any>;
+}
+
+export interface PaperFill {
+  positionId: string;
+  marketId: string;
+  side: 'buy' | 'sell';
+  reason: 'entry' | PaperExitReason;
+  timestamp: number;
+  referencePrice: number;
+  fillPrice: number;
+  quantity: number;
+  notional: number;
+  fee: number;
+  slippageBps: number;
+}
+
+export interface PaperPortfolioSummary {
+  startingCapital: number;
+  cash: number;
+  equity: number;
+  realizedPnL: number;
+  unrealizedPnL: number;
+  totalReturnPct: number;
+  totalFees: number;
+  openPositions: number;
+  closedPositions: number;
+  winRate: number;
+
+  // Activity within the reporting window
+  periodStart: number;
+  periodOpened: number;
+  periodClosed: number;
+  periodRealizedPnL: number;
+
+  bySignalType: Array<{
+    signalType: string;
+    closed: number;
+    realizedPnL: number;
+    winRate: number;
+  }>;
+}
+
+/**
+ * Forward-tests live signals with a simulated portfolio
+ *
+ * Takes the same EarlySignal stream the bot alerts on, sizes entries with the
+ * TradeSimulator rules (Kelly fraction, max concurrent positions, stop-loss /
+ * take-profit), and marks open positions to market from PriceHistoryTracker.
+ * Positions trade the YES price: bullish signals go long, bearish signals go
+ * short. Every entry and exit is written to paper_positions / paper_fills so
+ * the portfolio survives restarts.
+ */
+export class PaperTradingEngine {
+  private database: DatabaseManager;
+  private priceHistoryTracker: PriceHistoryTracker;
+  private simulator: TradeSimulator;
+  private config: Required<Pick<PaperTradingConfig, 'minConfidence' | 'maxHoldingMs' | 'markIntervalMs'>>;
+  private startingCapital: number;
+  private maxConcurrentPositions: number;
+  private feeBps: number;
+
+  private cash: number;
+  private openPositions: Map<string, PaperPosition> = new Map(); // Keyed by market
+  private markInterval: NodeJS.Timeout | null = null;
+
+  constructor(database: DatabaseManager, priceHistoryTracker: PriceHistoryTracker, config: PaperTradingConfig = {}) {
+    this.database = database;
+    this.priceHistoryTracker = priceHistoryTracker;
+    this.simulator = new TradeSimulator(config);
+
+    const simulatorConfig = this.simulator.getConfig();
+    this.startingCapital = simulatorConfig.initialCapital;
+    this.maxConcurrentPositions = simulatorConfig.maxConcurrentPositions || 10;
+    this.feeBps = simulatorConfig.feeBps;
+    this.cash = this.startingCapital;
+
+    this.config = {
+      minConfidence: config.minConfidence ?? 0.5,
+      maxHoldingMs: config.maxHoldingMs ?? 24 * 60 * 60 * 1000,
+      markIntervalMs: config.markIntervalMs ?? 60 * 1000
+    };
+  }
+
+  /**
+   * Restore open positions and cash from the database
+   */
+  async initialize(): Promise<void> {
+    const openRows = await this.database.query(
+      'SELECT * FROM paper_positions WHERE status = $1',
+      ['open']
+    );
+    const realizedRows = await this.database.query(
+      'SELECT COALESCE(SUM(realized_pnl), 0) AS realized FROM paper_positions WHERE status = $1',
+      ['closed']
+    );
+
+    this.openPositions.clear();
+    this.cash = this.startingCapital + parseFloat(realizedRows[0]?.realized || 0);
+
+    for (const row of openRows) {
+      const position = this.rowToPosition(row);
+      this.openPositions.set(position.marketId, position);
+      this.cash -= position.costBasis + position.fees;
+    }
+
+    logger.info(`Paper trading restored ${this.openPositions.size} open positions`, {
+      component: 'paper_trading',
+      operation: 'initialize',
+      metadata: {
+        openPositions: this.openPositions.size,
+        cash: this.cash,
+        startingCapital: this.startingCapital
+      }
+    });
+  }
+
+  start(): void {
+    if (this.markInterval) return;
+
+    this.markInterval = setInterval(async () => {
+      try {
+        await this.markToMarket();
+      } catch (error) {
+        logger.error('Error marking paper positions to market', error as Error, {
+          component: 'paper_trading',
+          operation: 'mark_to_market'
+        });
+      }
+    }, this.config.markIntervalMs);
+  }
+
+  stop(): void {
+    if (this.markInterval) {
+      clearInterval(this.markInterval);
+      this.markInterval = null;
+    }
+  }
+
+  /**
+   * Open a position for a live signal if the risk rules allow it.
+   * Returns the new position, or null when the signal is skipped.
+   */
+  async handleSignal(signal: EarlySignal): Promise<PaperPosition | null> {
+    if (signal.confidence < this.config.minConfidence) return null;
+    if (this.openPositions.has(signal.marketId)) return null;
+    if (this.openPositions.size >= this.maxConcurrentPositions) return null;
+
+    const direction = this.inferDirection(signal);
+    if (direction === 'neutral') return null;
+
+    const referencePrice = this.getMarkPrice(signal);
+    if (!referencePrice || referencePrice <= 0 || referencePrice >= 1) return null;
+
+    const size = this.simulator.sizePosition(signal.confidence, this.cash);
+    const entryFee = (size * this.feeBps) / 10000;
+    if (size <= 0 || size + entryFee > this.cash) return null;
+
+    const slippageBps = this.simulator.estimateExecutionCostBps(size, referencePrice, signal.marketId);
+    const entryPrice = direction === 'bullish'
+      ? referencePrice * (1 + slippageBps / 10000)
+      : referencePrice * (1 - slippageBps / 10000);
+    const quantity = size / entryPrice;
+    const { stopLossPrice, takeProfitPrice } = this.simulator.calculateExitLevels(direction, entryPrice);
+
+    const position: PaperPosition = {
+      id: randomUUID(),
+      marketId: signal.marketId,
+      signalType: signal.signalType,
+      signalConfidence: signal.confidence,
+      direction,
+      status: 'open',
+      entryTime: signal.timestamp || Date.now(),
+      entryPrice,
+      quantity,
+      costBasis: size,
+      stopLossPrice,
+      takeProfitPrice,
+      markPrice: referencePrice,
+      unrealizedPnL: this.calculatePnL(direction, entryPrice, referencePrice, quantity),
+      markedAt: Date.now(),
+      fees: entryFee,
+      metadata: {
+        marketQuestion: signal.market?.question,
+        signalMetadata: signal.metadata
+      }
+    };
+
+    await this.insertPosition(position);
+    await this.insertFill({
+      positionId: position.id,
+      marketId: position.marketId,
+      side: direction === 'bullish' ? 'buy' : 'sell',
+      reason: 'entry',
+      timestamp: position.entryTime,
+      referencePrice,
+      fillPrice: entryPrice,
+      quantity,
+      notional: size,
+      fee: entryFee,
+      slippageBps
+    });
+
+    this.cash -= size + entryFee;
+    this.openPositions.set(position.marketId, position);
+
+    logger.info(`Paper position opened: ${direction} ${position.marketId.substring(0, 8)}... $${size.toFixed(2)} @ ${entryPrice.toFixed(4)}`, {
+      component: 'paper_trading',
+      operation: 'open_position',
+      metadata: {
+        positionId: position.id,
+        signalType: signal.signalType,
+        confidence: signal.confidence,
+        size,
+        entryPrice,
+        stopLossPrice,
+        takeProfitPrice,
+        cash: this.cash
+      }
+    });
+
+    return position;
+  }
+
+  /**
+   * Revalue open positions at the latest tracked price and close any that hit
+   * their stop-loss, take-profit or maximum holding time
+   */
+  async markToMarket(now: number = Date.now()): Promise<PaperPosition[]> {
+    const closed: PaperPosition[] = [];
+
+    for (const position of Array.from(this.openPositions.values())) {
+      const markPrice = this.priceHistoryTracker.getCurrentPrice(position.marketId);
+      if (markPrice === null || markPrice <= 0) continue;
+
+      position.markPrice = markPrice;
+      position.markedAt = now;
+      position.unrealizedPnL = this.calculatePnL(position.direction, position.entryPrice, markPrice, position.quantity);
+
+      const exitReason = this.checkExit(position, markPrice, now);
+      if (exitReason) {
+        closed.push(await this.closePosition(position, markPrice, exitReason, now));
+      } else {
+        await this.updateMark(position);
+      }
+    }
+
+    return closed;
+  }
+
+  getOpenPositions(): PaperPosition[] {
+    return Array.from(this.openPositions.values());
+  }
+
+  /**
+   * Portfolio P&L from the persisted positions, with activity since `periodStart`
+   */
+  async getPortfolioSummary(periodStart: number = Date.now() - 24 * 60 * 60 * 1000): Promise<PaperPortfolioSummary> {
+    const closedRows = await this.database.query(
+      'SELECT signal_type, realized_pnl, fees, exit_time FROM paper_positions WHERE status = $1',
+      ['closed']
+    );
+    const openedRows = await this.database.query(
+      'SELECT COUNT(*) AS opened FROM paper_positions WHERE entry_time >= $1',
+      [new Date(periodStart)]
+    );
+
+    const closed: Array<{ signalType: string; realizedPnL: number; fees: number; exitTime: number }> = closedRows.map((row: any) => ({
+      signalType: row.signal_type,
+      realizedPnL: parseFloat(row.realized_pnl || 0),
+      fees: parseFloat(row.fees || 0),
+      exitTime: new Date(row.exit_time).getTime()
+    }));
+
+    const openPositions = this.getOpenPositions();
+    const realizedPnL = closed.reduce((sum, p) => sum + p.realizedPnL, 0);
+    const unrealizedPnL = openPositions.reduce((sum, p) => sum + p.unrealizedPnL, 0);
+    const openValue = openPositions.reduce((sum, p) => sum + p.costBasis + p.unrealizedPnL, 0);
+    const equity = this.cash + openValue;
+    const wins = closed.filter(p => p.realizedPnL > 0).length;
+
+    const periodClosed = closed.filter(p => p.exitTime >= periodStart);
+
+    const byType = new Map<string, { closed: number; realizedPnL: number; wins: number }>();
+    for (const position of closed) {
+      const stats = byType.get(position.signalType) || { closed: 0, realizedPnL: 0, wins: 0 };
+      stats.closed++;
+      stats.realizedPnL += position.realizedPnL;
+      if (position.realizedPnL > 0) stats.wins++;
+      byType.set(position.signalType, stats);
+    }
+
+    return {
+      startingCapital: this.startingCapital,
+      cash: this.cash,
+      equity,
+      realizedPnL,
+      unrealizedPnL,
+      totalReturnPct: ((equity - this.startingCapital) / this.startingCapital) * 100,
+      totalFees: closed.reduce((sum, p) => sum + p.fees, 0) +
+        openPositions.reduce((sum, p) => sum + p.fees, 0),
+      openPositions: openPositions.length,
+      closedPositions: closed.length,
+      winRate: closed.length > 0 ? wins / closed.length : 0,
+      periodStart,
+      periodOpened: parseInt(openedRows[0]?.opened || 0, 10),
+      periodClosed: periodClosed.length,
+      periodRealizedPnL: periodClosed.reduce((sum, p) => sum + p.realizedPnL, 0),
+      bySignalType: Array.from(byType.entries())
+        .map(([signalType, stats]) => ({
+          signalType,
+          closed: stats.closed,
+          realizedPnL: stats.realizedPnL,
+          winRate: stats.wins / stats.closed
+        }))
+        .sort((a, b) => b.realizedPnL - a.realizedPnL)
+    };
+  }
+
+  private checkExit(position: PaperPosition, markPrice: number, now: number): PaperExitReason | null {
+    const long = position.direction === 'bullish';
+
+    if (position.stopLossPrice !== undefined &&
+      (long ? markPrice <= position.stopLossPrice : markPrice >= position.stopLossPrice)) {
+      return 'stop_loss';
+    }
+
+    if (position.takeProfitPrice !== undefined &&
+      (long ? markPrice >= position.takeProfitPrice : markPrice <= position.takeProfitPrice)) {
+      return 'take_profit';
+    }
+
+    if (now - position.entryTime >= this.config.maxHoldingMs) {
+      return 'max_hold';
+    }
+
+    return null;
+  }
+
+  private async closePosition(
+    position: PaperPosition,
+    markPrice: number,
+    reason: PaperExitReason,
+    now: number
+  ): Promise<PaperPosition> {
+    const slippageBps = this.simulator.estimateExecutionCostBps(position.costBasis, markPrice, position.marketId);
+    const exitPrice = position.direction === 'bullish'
+      ? markPrice * (1 - slippageBps / 10000)
+      : markPrice * (1 + slippageBps / 10000);
+
+    const grossPnL = this.calculatePnL(position.direction, position.entryPrice, exitPrice, position.quantity);
+    const notional = position.quantity * exitPrice;
+    const exitFee = (notional * this.feeBps) / 10000;
+
+    position.status = 'closed';
+    position.markPrice = markPrice;
+    position.markedAt = now;
+    position.unrealizedPnL = 0;
+    position.exitTime = now;
+    position.exitPrice = exitPrice;
+    position.exitReason = reason;
+    position.fees += exitFee;
+    position.realizedPnL = grossPnL - position.fees;
+
+    await this.insertFill({
+      positionId: position.id,
+      marketId: position.marketId,
+      side: position.direction === 'bullish' ? 'sell' : 'buy',
+      reason,
+      timestamp: now,
+      referencePrice: markPrice,
+      fillPrice: exitPrice,
+      quantity: position.quantity,
+      notional,
+      fee: exitFee,
+      slippageBps
+    });
+    await this.updateClosed(position);
+
+    this.cash += position.costBasis + grossPnL - exitFee;
+    this.openPositions.delete(position.marketId);
+
+    logger.info(`Paper position closed (${reason}): ${position.marketId.substring(0, 8)}... P&L $${position.realizedPnL.toFixed(2)}`, {
+      component: 'paper_trading',
+      operation: 'close_position',
+      metadata: {
+        positionId: position.id,
+        reason,
+        entryPrice: position.entryPrice,
+        exitPrice,
+        realizedPnL: position.realizedPnL,
+        cash: this.cash
+      }
+    });
+
+    return position;
+  }
+
+  private calculatePnL(direction: 'bullish' | 'bearish', entryPrice: number, price: number, quantity: number): number {
+    return direction === 'bullish'
+      ? (price - entryPrice) * quantity
+      : (entryPrice - price) * quantity;
+  }
+
+  /**
+   * Latest tracked price, falling back to the YES price on the signal's market
+   */
+  private getMarkPrice(signal: EarlySignal): number | null {
+    const tracked = this.priceHistoryTracker.getCurrentPrice(signal.marketId);
+    if (tracked !== null && tracked > 0) return tracked;
+
+    const price = parseFloat(signal.market?.outcomePrices?.[0] || '');
+    return isNaN(price) ? null : price;
+  }
+
+  /**
+   * Direction from the signal itself, falling back to price moves and book imbalance
+   */
+  private inferDirection(signal: EarlySignal): 'bullish' | 'bearish' | 'neutral' {
+    const metadata = signal.metadata || {};
+
+    if (metadata.direction === 'bullish' || metadata.direction === 'bearish') {
+      return metadata.direction;
+    }
+
+    // Price movement signals report change per outcome; only the YES leg is traded
+    const yesChange = metadata.priceChanges?.outcome_0;
+    if (typeof yesChange === 'number' && yesChange !== 0) {
+      return yesChange > 0 ? 'bullish' : 'bearish';
+    }
+
+    const context = metadata.microstructureData?.context;
+    if (context && (context.bidVolume || context.askVolume)) {
+      const ratio = context.askVolume > 0 ? context.bidVolume / context.askVolume : 0;
+      return ratio > 1.5 ? 'bullish' : ratio < 0.67 ? 'bearish' : 'neutral';
+    }
+
+    const imbalance = metadata.orderBookImbalance ?? metadata.orderbookMetrics?.depthImbalance;
+    if (typeof imbalance === 'number' && Math.abs(imbalance) > 0.1) {
+      return imbalance > 0 ? 'bullish' : 'bearish';
+    }
+
+    return 'neutral';
+  }
+
+  // Database operations
+
+  private async insertPosition(position: PaperPosition): Promise<void> {
+    await this.database.query(`
+      INSERT INTO paper_positions (
+        id, market_id, signal_type, signal_confidence, direction, status,
+        entry_time, entry_price, quantity, cost_basis, stop_loss_price, take_profit_price,
+        mark_price, unrealized_pnl, marked_at, fees, metadata
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+    `, [
+      position.id,
+      position.marketId,
+      position.signalType,
+      position.signalConfidence,
+      position.direction,
+      position.status,
+      new Date(position.entryTime),
+      position.entryPrice,
+      position.quantity,
+      position.costBasis,
+      position.stopLossPrice ?? null,
+      position.takeProfitPrice ?? null,
+      position.markPrice ?? null,
+      position.unrealizedPnL,
+      position.markedAt ? new Date(position.markedAt) : null,
+      position.fees,
+      JSON.stringify(position.metadata || {})
+    ]);
+  }
+
+  private async updateMark(position: PaperPosition): Promise<void> {
+    await this.database.query(`
+      UPDATE paper_positions
+      SET mark_price = $1, unrealized_pnl = $2, marked_at = $3, updated_at = $4
+      WHERE id = $5
+    `, [
+      position.markPrice,
+      position.unrealizedPnL,
+      new Date(position.markedAt!),
+      new Date(),
+      position.id
+    ]);
+  }
+
+  private async updateClosed(position: PaperPosition): Promise<void> {
+    await this.database.query(`
+      UPDATE paper_positions
+      SET status = $1, mark_price = $2, unrealized_pnl = $3, marked_at = $4,
+          exit_time = $5, exit_price = $6, exit_reason = $7, realized_pnl = $8, fees = $9, updated_at = $10
+      WHERE id = $11
+    `, [
+      position.status,
+      position.markPrice,
+      position.unrealizedPnL,
+      new Date(position.markedAt!),
+      new Date(position.exitTime!),
+      position.exitPrice,
+      position.exitReason,
+      position.realizedPnL,
+      position.fees,
+      new Date(),
+      position.id
+    ]);
+  }
+
+  private async insertFill(fill: PaperFill): Promise<void> {
+    await this.database.query(`
+      INSERT INTO paper_fills (
+        position_id, market_id, side, reason, timestamp,
+        reference_price, fill_price, quantity, notional, fee, slippage_bps
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+    `, [
+      fill.positionId,
+      fill.marketId,
+      fill.side,
+      fill.reason,
+      new Date(fill.timestamp),
+      fill.referencePrice,
+      fill.fillPrice,
+      fill.quantity,
+      fill.notional,
+      fill.fee,
+      fill.slippageBps
+    ]);
+  }
+
+  private rowToPosition(row: any): PaperPosition {
+    return {
+      id: row.id,
+      marketId: row.market_id,
+      signalType: row.signal_type,
+      signalConfidence: parseFloat(row.signal_confidence),
+      direction: row.direction,
+      status: row.status,
+
+      entryTime: new Date(row.entry_time).getTime(),
+      entryPrice: parseFloat(row.entry_price),
+      quantity: parseFloat(row.quantity),
+      costBasis: parseFloat(row.cost_basis),
+      stopLossPrice: row.stop_loss_price != null ? parseFloat(row.stop_loss_price) : undefined,
+      takeProfitPrice: row.take_profit_price != null ? parseFloat(row.take_profit_price) : undefined,
+
+      markPrice: row.mark_price != null ? parseFloat(row.mark_price) : undefined,
+      unrealizedPnL: parseFloat(row.unrealized_pnl || 0),
+      markedAt: row.marked_at ? new Date(row.marked_at).getTime() : undefined,
+
+      exitTime: row.exit_time ? new Date(row.exit_time).getTime() : undefined,
+      exitPrice: row.exit_price != null ? parseFloat(row.exit_price) : undefined,
+      exitReason: row.exit_reason || undefined,
+      realizedPnL: row.realized_pnl != null ? parseFloat(row.realized_pnl) : undefined,
+      fees: parseFloat(row.fees || 0),
+
+      metadata: row.metadata ? (typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata) : undefined
+    };
+  }
+}
@@ -5,6 +5,7 @@ import { metricsCollector } from '../monitoring/MetricsCollector';
 import { polymarketRateLimiter } from '../utils/RateLimiter';
 import { MarketCategorizer } from './MarketCategorizer';
 import { configManager } from '../config/ConfigManager';
+import { attributedWallet } from './WalletTradeFeed';
 
 // Helper function to add timeout to fetch requests
 function fetchWithTimeout(url: string, options: RequestInit = {}, timeoutMs: number = 10000): Promise<Response> {
@@ -19,11 +20,17 @@ function fetchWithTimeout(url: string, options: RequestInit = {}, timeoutMs: num
   });
 }
 
+export interface MarketLookupOptions {
+  includeClosed?: boolean; // Return closed markets too (resolution polling); they are never cached
+}
+
 export class PolymarketService {
   private config: BotConfig;
   protected categorizer: MarketCategorizer;
   private marketCache: Map<string, Market> = new Map(); // Cache markets to update spread from orderbook
   private assetIdToMarketId: Map<string, string> = new Map(); // Map asset IDs to market IDs for spread updates
+  private eventGroups: Map<string, Market[]> = new Map(); // Open sibling markets of multi-market events, from the last fetch
+  private priceImpactBps: Map<string, number> = new Map(); // Latest measured impact per $1k, kept across refetches
 
   constructor(config: BotConfig) {
     this.config = config;
@@ -115,12 +122,21 @@ export class PolymarketService {
 
       for (const event of allEvents) {
         if (event.markets && Array.isArray(event.markets)) {
+          // Nested markets carry no reference to their event; attach it in the shape the /markets endpoint uses
+          const parentEvent = {
+            id: event.id,
+            slug: event.slug,
+            title: event.title,
+            negRisk: event.negRisk === true || event.enableNegRisk === true,
+            openMarketCount: event.markets.filter((m: any) => m.closed !== true).length
+          };
+
           for (const market of event.markets) {
             // Deduplicate by market ID (same market might appear in multiple events)
             const marketId = market.id || market.condition_id || market.conditionId;
             if (marketId && !marketIds.has(marketId)) {
               marketIds.add(marketId);
-              allMarkets.push(market);
+              allMarkets.push({ ...market, events: [parentEvent] });
             }
           }
         }
@@ -130,6 +146,9 @@ export class PolymarketService {
 
       const transformedMarkets = this.transformMarkets(allMarkets);
 
+      // Group siblings before tiering drops low-volume ones; event analytics need every open outcome
+      this.eventGroups = this.groupByEvent(transformedMarkets);
+
       // Apply tier assignment (categorization + volume filtering + watchlist logic)
       const tierResult = this.categorizer.assignTiers(transformedMarkets);
 
@@ -212,7 +231,7 @@ export class PolymarketService {
     }
   }
 
-  async getMarketById(marketId: string): Promise<Market | null> {
+  async getMarketById(marketId: string, options: MarketLookupOptions = {}): Promise<Market | null> {
     try {
       // Try to fetch single market by condition_id query parameter
       // This is much more efficient than fetching all 1000 markets
@@ -240,7 +259,7 @@ export class PolymarketService {
         return null;
       }
 
-      const transformedMarkets = this.transformMarkets(marketsList);
+      const transformedMarkets = this.transformMarkets(marketsList, options.includeClosed);
       return transformedMarkets[0] || null;
 
     } catch (error) {
@@ -262,11 +281,35 @@ export class PolymarketService {
     }
   }
 
-  private transformMarkets(data: any[]): Market[] {
-    return data.map(market => this.transformMarket(market)).filter(Boolean) as Market[];
+  /**
+   * Open sibling markets of each multi-market event seen in the last getActiveMarkets() call,
+   * including siblings that were not assigned to a monitored tier
+   */
+  getEventGroups(): Map<string, Market[]> {
+    return new Map(this.eventGroups);
+  }
+
+  private groupByEvent(markets: Market[]): Map<string, Market[]> {
+    const groups = new Map<string, Market[]>();
+    for (const market of markets) {
+      const eventId = market.metadata?.eventId;
+      if (!eventId) continue;
+      const siblings = groups.get(eventId) || [];
+      siblings.push(market);
+      groups.set(eventId, siblings);
+    }
+
+    for (const [eventId, siblings] of groups) {
+      if (siblings.length < 2) groups.delete(eventId);
+    }
+    return groups;
   }
 
-  private transformMarket(data: any): Market | null {
+  private transformMarkets(data: any[], includeClosed: boolean = false): Market[] {
+    return data.map(market => this.transformMarket(market, includeClosed)).filter(Boolean) as Market[];
+  }
+
+  private transformMarket(data: any, includeClosed: boolean = false): Market | null {
     try {
       // FILTER: Skip markets that are not ready for tracking
       // These markets don't have asset IDs yet because they're not fully deployed on-chain
@@ -279,8 +322,8 @@ export class PolymarketService {
       const isPendingDeployment = data.pendingDeployment === true;
       const hasValidConditionId = conditionId.length > 0;
 
-      // Skip if market is closed
-      if (isClosed) {
+      // Skip if market is closed (unless the caller is looking for its resolution)
+      if (isClosed && !includeClosed) {
         return null;
       }
 
@@ -290,7 +333,7 @@ export class PolymarketService {
       }
 
       // Skip if market is not active AND not ready (requires at least one to be true)
-      if (!isActive && !isReady) {
+      if (!isActive && !isReady && !isClosed) {
         return null;
       }
 
@@ -462,6 +505,9 @@ export class PolymarketService {
         });
       }
 
+      // Parent event: attached by getActiveMarkets(), embedded by the /markets endpoint
+      const event = Array.isArray(data.events) ? data.events[0] : undefined;
+
       // Build initial market object
       const market: Market = {
         id: data.condition_id || data.id,
@@ -480,14 +526,22 @@ export class PolymarketService {
         // Add asset IDs for WebSocket subscriptions
         metadata: {
           assetIds: assetIds,
-          conditionId: data.condition_id,
+          conditionId: data.condition_id || data.conditionId,
           slug: data.slug || data.market_slug,
           clobTokenIds: data.clobTokenIds,
+          closedTime: data.closedTime || data.closed_time,
+          umaResolutionStatus: data.umaResolutionStatus,
+          eventId: event?.id !== undefined ? String(event.id) : undefined,
+          eventSlug: event?.slug,
+          eventTitle: event?.title,
+          negRisk: data.negRisk === true || event?.negRisk === true,
+          eventMarketCount: event?.openMarketCount,
           rawTokensData: process.env.LOG_LEVEL === 'debug' ? data.tokens : undefined,
         },
         // Market characteristics
         outcomeCount: outcomes.length,
         spread,
+        impactBpsPer1k: this.priceImpactBps.get(data.condition_id || data.id),
         marketAge,
         timeToClose
       };
@@ -498,6 +552,11 @@ export class PolymarketService {
       market.categoryScore = categoryResult.categoryScore;
       market.isBlacklisted = categoryResult.isBlacklisted;
 
+      // Closed markets receive no orderbook updates
+      if (market.closed) {
+        return market;
+      }
+
       // Cache market for spread updates from orderbook
       this.marketCache.set(market.id, market);
 
@@ -538,6 +597,23 @@ export class PolymarketService {
     }
   }
 
+  /**
+   * Record a measured price impact for a market. Applied to the cached market now
+   * and to every later fetch, so tier scoring sees it. Undefined clears it, so
+   * scoring falls back to volume.
+   */
+  updateMarketPriceImpact(marketId: string, impactBpsPer1k: number | undefined): void {
+    if (impactBpsPer1k === undefined) {
+      this.priceImpactBps.delete(marketId);
+    } else {
+      this.priceImpactBps.set(marketId, impactBpsPer1k);
+    }
+    const market = this.marketCache.get(marketId);
+    if (market) {
+      market.impactBpsPer1k = impactBpsPer1k;
+    }
+  }
+
   /**
    * Get cached market with latest spread data
    * Returns the cached market or null if not found
@@ -766,6 +842,10 @@ export class PolymarketService {
       volume: parseFloat(trade.size || trade.volume || '0'),
       side: (trade.side === 'buy' ? 'buy' : 'sell') as 'buy' | 'sell',
       size: parseFloat(trade.size || '0'),
+      // Attribution, when the payload carries it
+      traderAddress: attributedWallet(trade),
+      outcomeIndex: Number.isInteger(trade.outcomeIndex) ? trade.outcomeIndex : undefined,
+      tradeId: trade.transactionHash || trade.id || undefined,
     })).sort((a, b) => b.timestamp - a.timestamp); // Most recent first
   }
 
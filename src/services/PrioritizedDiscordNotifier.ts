@@ -2,52 +2,31 @@ import { EarlySignal, AlertPriority, BotConfig } from '../types';
 import { logger } from '../utils/logger';
 import { advancedLogger } from '../utils/AdvancedLogger';
 import { metricsCollector } from '../monitoring/MetricsCollector';
-import { alertManager, AlertDecision } from './AlertManager';
+import { tracer } from '../monitoring/Tracer';
+import { alertManager, AlertDecision, SubscriptionDecision } from './AlertManager';
 import { configManager } from '../config/ConfigManager';
 import type { SignalPerformanceTracker } from './SignalPerformanceTracker';
-
-interface DiscordEmbed {
-  title?: string;
-  description?: string;
-  color?: number;
-  fields?: Array<{
-    name: string;
-    value: string;
-    inline?: boolean;
-  }>;
-  footer?: {
-    text: string;
-  };
-  timestamp?: string;
-  author?: {
-    name: string;
-    icon_url?: string;
-  };
-}
-
-interface DiscordWebhookPayload {
-  content?: string;
-  embeds?: DiscordEmbed[];
-  username?: string;
-  avatar_url?: string;
-}
+import { AlertNotification, DiscordEmbed } from './NotificationSinks';
+import { NotificationRouter } from './NotificationRouter';
+import type { AlertSubscriptionService } from './AlertSubscriptionService';
 
 /**
- * PrioritizedDiscordNotifier - Priority-aware Discord notification service
+ * PrioritizedDiscordNotifier - Priority-aware notification service
  *
  * Production-grade notification orchestration that:
  * - Evaluates signals through AlertManager
  * - Formats Discord embeds based on priority level
- * - Implements priority-specific notification strategies
- * - Handles retries and error recovery
+ * - Delivers through NotificationRouter (Discord, Slack, Telegram, webhook, email)
+ *   using routing rules keyed on priority, signal type and market category
+ * - Fans alerts out to per-user subscriptions
  * - Tracks comprehensive metrics
  */
 export class PrioritizedDiscordNotifier {
   private config: BotConfig;
-  private webhookUrl: string | null = null;
-  private readonly maxRetries = 3;
-  private readonly retryDelayMs = 1000;
+  private router: NotificationRouter;
+  private routerSource: 'file' | 'environment' | 'custom';
   private performanceTracker?: SignalPerformanceTracker;
+  private subscriptionService?: AlertSubscriptionService;
 
   // Priority-specific colors
   private readonly PRIORITY_COLORS = {
@@ -67,7 +46,50 @@ export class PrioritizedDiscordNotifier {
 
   constructor(config: BotConfig) {
     this.config = config;
-    this.webhookUrl = config.discord.webhookUrl || null;
+
+    const { router, source } = NotificationRouter.load(
+      config.discord.webhookUrl,
+      configManager.getConfig().detection.alertPrioritization.notifications
+    );
+    this.router = router;
+    this.routerSource = source;
+
+    advancedLogger.info(`Notification sinks: ${router.getSinkNames().join(', ') || 'none'}`, {
+      component: 'prioritized_notifier',
+      operation: 'initialize',
+      metadata: { source, sinks: router.getSinkNames(), routes: router.getRoutes().map(r => r.name) }
+    });
+
+    // Default routes follow the per-priority enable flags, so rebuild them when those change
+    configManager.onConfigChange('prioritized_notifier', (newConfig) => {
+      if (this.routerSource !== 'environment') return;
+      this.router = NotificationRouter.fromEnvironment(
+        this.config.discord.webhookUrl,
+        newConfig.detection.alertPrioritization.notifications
+      );
+    });
+  }
+
+  /**
+   * Replace the notification router (e.g. with custom sinks and routes)
+   */
+  setNotificationRouter(router: NotificationRouter): void {
+    this.router = router;
+    this.routerSource = 'custom';
+  }
+
+  /**
+   * Set the subscription service (can be set after construction)
+   */
+  setSubscriptionService(service: AlertSubscriptionService): void {
+    this.subscriptionService = service;
+  }
+
+  /**
+   * Whether any notification sink or active subscription is configured
+   */
+  isConfigured(): boolean {
+    return this.router.hasSinks() || (this.subscriptionService?.getActiveSubscriptions().length ?? 0) > 0;
   }
 
   /**
@@ -80,7 +102,19 @@ export class PrioritizedDiscordNotifier {
   /**
    * Process signal through alert manager and send notification if approved
    */
-  async processSignal(signal: EarlySignal): Promise<{ sent: boolean; decision: AlertDecision }> {
+  async processSignal(signal: EarlySignal): Promise<{ sent: boolean; decision: AlertDecision; subscriptionsNotified: number }> {
+    return tracer.withSpan('prioritized_notifier.process_signal', async span => {
+      const result = await this.routeSignal(signal);
+      span.setAttributes({
+        'notification.sent': result.sent,
+        'notification.priority': result.decision.priority,
+        'notification.subscriptions_notified': result.subscriptionsNotified
+      });
+      return result;
+    }, { 'market.id': signal.marketId, 'signal.type': signal.signalType });
+  }
+
+  private async routeSignal(signal: EarlySignal): Promise<{ sent: boolean; decision: AlertDecision; subscriptionsNotified: number }> {
     const startTime = Date.now();
 
     try {
@@ -100,6 +134,12 @@ export class PrioritizedDiscordNotifier {
         }
       });
 
+      // Subscriptions have their own filters, cooldowns and hourly caps
+      const subscriberDecisions = this.subscriptionService
+        ? alertManager.evaluateSubscriptions(signal, decision, this.subscriptionService.getActiveSubscriptions())
+        : [];
+      const subscribers = subscriberDecisions.filter(d => d.shouldAlert);
+
       // If alert should not be sent, record and return
       if (!decision.shouldAlert) {
         metricsCollector.incrementCounter('notifications.filtered');
@@ -110,49 +150,41 @@ export class PrioritizedDiscordNotifier {
             marketId: signal.marketId,
             priority: decision.priority,
             score: decision.adjustedScore,
-            reason: decision.reason
+            reason: decision.reason,
+            subscribers: subscribers.length
           }
         });
-        return { sent: false, decision };
-      }
-
-      // Check if Discord is configured
-      if (!this.webhookUrl) {
-        logger.warn('Discord webhook not configured, skipping notification');
-        alertManager.recordAlert(signal, decision.priority, false);
-        return { sent: false, decision };
+        if (subscribers.length === 0) {
+          return { sent: false, decision, subscriptionsNotified: 0 };
+        }
       }
 
       // Get notification config for this priority
       const priorityKey = decision.priority.toLowerCase() as 'critical' | 'high' | 'medium' | 'low';
       const notificationConfig = configManager.getConfig().detection.alertPrioritization.notifications[priorityKey];
+      const notification = await this.buildNotification(signal, decision, notificationConfig);
 
-      // Check if Discord is enabled for this priority
-      if (!notificationConfig.enableDiscord) {
-        advancedLogger.info(`Discord disabled for ${decision.priority} priority`, {
-          component: 'prioritized_notifier',
-          operation: 'process_signal',
-          metadata: {
-            marketId: signal.marketId,
-            priority: decision.priority
-          }
-        });
-        alertManager.recordAlert(signal, decision.priority, false);
-        return { sent: false, decision };
-      }
+      let sent = false;
+      if (decision.shouldAlert) {
+        if (this.router.hasSinks()) {
+          // Send notification with priority-specific formatting; routing rules decide the channels
+          sent = await this.sendPrioritizedNotification(notification);
+        } else {
+          logger.warn('No notification sinks configured, skipping notification');
+        }
 
-      // Send notification with priority-specific formatting
-      const sent = await this.sendPrioritizedNotification(signal, decision, notificationConfig);
+        // Record alert in AlertManager
+        alertManager.recordAlert(signal, decision.priority, sent);
+        metricsCollector.incrementCounter(sent ? 'notifications.sent' : 'notifications.failed');
+      }
 
-      // Record alert in AlertManager
-      alertManager.recordAlert(signal, decision.priority, sent);
+      const subscriptionsNotified = await this.notifySubscribers(signal, notification, subscribers);
 
       // Record metrics
       const duration = Date.now() - startTime;
-      metricsCollector.incrementCounter(sent ? 'notifications.sent' : 'notifications.failed');
       metricsCollector.setGauge('notifications.processing_time_ms', duration);
 
-      return { sent, decision };
+      return { sent, decision, subscriptionsNotified };
     } catch (error) {
       advancedLogger.error('Error processing signal notification', error as Error, {
         component: 'prioritized_notifier',
@@ -166,6 +198,7 @@ export class PrioritizedDiscordNotifier {
       metricsCollector.incrementCounter('notifications.errors');
       return {
         sent: false,
+        subscriptionsNotified: 0,
         decision: {
           shouldAlert: false,
           priority: AlertPriority.LOW,
@@ -183,57 +216,93 @@ export class PrioritizedDiscordNotifier {
   }
 
   /**
-   * Send prioritized notification with retry logic
+   * Build the channel-independent notification (with the Discord embed attached)
    */
-  private async sendPrioritizedNotification(
+  private async buildNotification(
     signal: EarlySignal,
     decision: AlertDecision,
     notificationConfig: any
-  ): Promise<boolean> {
+  ): Promise<AlertNotification> {
     const embed = await this.buildPrioritizedEmbed(signal, decision, notificationConfig);
-    const content = notificationConfig.mentionEveryone ? '@everyone' : undefined;
 
-    const payload: DiscordWebhookPayload = {
-      content,
-      embeds: [embed],
-      username: 'Poly Early Bot - Prioritized Alerts',
-      avatar_url: 'https://i.imgur.com/polymarket-logo.png'
+    return {
+      title: embed.title || `${decision.priority} OPPORTUNITY`,
+      description: embed.description || '',
+      priority: decision.priority,
+      signalType: signal.signalType,
+      category: signal.market.category,
+      marketId: signal.marketId,
+      marketQuestion: signal.market.question,
+      marketUrl: this.getMarketUrl(signal),
+      score: decision.adjustedScore,
+      fields: embed.fields || [],
+      mentionEveryone: notificationConfig.mentionEveryone,
+      timestamp: signal.timestamp,
+      discordEmbed: embed
     };
+  }
 
-    // Send with retry logic
-    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
-      try {
-        const success = await this.sendWebhook(payload);
+  /**
+   * Send prioritized notification to the sinks selected by the routing rules
+   */
+  private async sendPrioritizedNotification(notification: AlertNotification): Promise<boolean> {
+    const result = await this.router.dispatch(notification);
 
-        if (success) {
-          metricsCollector.incrementCounter('notifications.sent_on_attempt_' + attempt);
-          return true;
-        }
+    if (result.failed.length > 0) {
+      metricsCollector.incrementCounter('notifications.exhausted_retries', result.failed.length);
+    }
 
-        // If not last attempt, wait before retrying
-        if (attempt < this.maxRetries) {
-          await this.sleep(this.retryDelayMs * attempt); // Exponential backoff
+    if (result.delivered.length === 0 && result.failed.length === 0) {
+      advancedLogger.info(`No notification route for ${notification.priority} ${notification.signalType}`, {
+        component: 'prioritized_notifier',
+        operation: 'send_prioritized_notification',
+        metadata: {
+          marketId: notification.marketId,
+          priority: notification.priority,
+          category: notification.category
         }
-      } catch (error) {
-        advancedLogger.error(`Notification attempt ${attempt} failed`, error as Error, {
-          component: 'prioritized_notifier',
-          operation: 'send_prioritized_notification',
-          metadata: {
-            attempt,
-            maxRetries: this.maxRetries,
-            marketId: signal.marketId,
-            priority: decision.priority
-          }
-        });
+      });
+    }
 
-        if (attempt === this.maxRetries) {
-          metricsCollector.incrementCounter('notifications.exhausted_retries');
-          return false;
-        }
-      }
+    return result.delivered.length > 0;
+  }
+
+  /**
+   * Deliver to matching subscriptions; only delivered alerts count towards their limits
+   */
+  private async notifySubscribers(
+    signal: EarlySignal,
+    notification: AlertNotification,
+    subscribers: SubscriptionDecision[]
+  ): Promise<number> {
+    if (!this.subscriptionService || subscribers.length === 0) return 0;
+
+    const ids = subscribers.map(d => d.subscription.id);
+    const result = await this.subscriptionService.deliver({ ...notification, mentionEveryone: false }, ids);
+
+    for (const id of result.delivered) {
+      alertManager.recordSubscriptionAlert(id, signal.market.id);
     }
 
-    return false;
+    advancedLogger.info(`Alert delivered to ${result.delivered.length}/${ids.length} subscriptions`, {
+      component: 'prioritized_notifier',
+      operation: 'notify_subscribers',
+      metadata: {
+        marketId: signal.marketId,
+        priority: notification.priority,
+        subscriptions: subscribers.map(d => d.subscription.name),
+        failed: result.failed
+      }
+    });
+
+    return result.delivered.length;
+  }
+
+  private getMarketUrl(signal: EarlySignal): string {
+    const slug = signal.market.metadata?.slug;
+    return slug
+      ? `https://polymarket.com/event/${slug}`
+      : `https://polymarket.com/event/${signal.market.id}`;
   }
 
   /**
@@ -292,6 +361,7 @@ export class PrioritizedDiscordNotifier {
       value: `Category: ${market.category || 'uncategorized'}\n` +
              `Cat. Score: ${market.categoryScore || 0} keywords\n` +
              `Spread: ${market.spread?.toFixed(0) || 'N/A'} bps\n` +
+             (market.impactBpsPer1k !== undefined ? `Impact: $1k moves ~${market.impactBpsPer1k.toFixed(0)} bps\n` : '') +
              `Signal: ${signal.signalType}`,
       inline: true
     });
@@ -371,10 +441,7 @@ export class PrioritizedDiscordNotifier {
     }
 
     // Market Link
-    const slug = market.metadata?.slug;
-    const marketUrl = slug
-      ? `https://polymarket.com/event/${slug}`
-      : `https://polymarket.com/event/${market.id}`;
+    const marketUrl = this.getMarketUrl(signal);
 
     fields.push({
       name: '🔗 Action',
@@ -440,62 +507,6 @@ export class PrioritizedDiscordNotifier {
     return parts.length > 0 ? parts.join('\n') : null;
   }
 
-  /**
-   * Send webhook with timeout and error handling
-   */
-  private async sendWebhook(payload: DiscordWebhookPayload): Promise<boolean> {
-    if (!this.webhookUrl) {
-      return false;
-    }
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-
-    try {
-      const response = await fetch(this.webhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => 'Unknown error');
-        advancedLogger.error(`Discord webhook failed: ${response.status}`, new Error(errorText), {
-          component: 'prioritized_notifier',
-          operation: 'send_webhook',
-          metadata: {
-            status: response.status,
-            statusText: response.statusText
-          }
-        });
-        return false;
-      }
-
-      return true;
-    } catch (error) {
-      clearTimeout(timeoutId);
-
-      if (error instanceof Error && error.name === 'AbortError') {
-        advancedLogger.error('Discord webhook timeout', error, {
-          component: 'prioritized_notifier',
-          operation: 'send_webhook'
-        });
-      } else {
-        advancedLogger.error('Discord webhook error', error as Error, {
-          component: 'prioritized_notifier',
-          operation: 'send_webhook'
-        });
-      }
-
-      return false;
-    }
-  }
-
   /**
    * Sleep helper for retry delays
    */
@@ -568,7 +579,35 @@ export class PrioritizedDiscordNotifier {
         break;
 
       case 'information_leak':
-        interpretation = `🔓 **Unusual cross-market activity** - Multiple related markets are moving in coordinated ways, suggesting information may be leaking before official announcements.`;
+        if (metadata.leakType === 'fresh_wallet') {
+          interpretation = `🆕 **New wallet, one big bet** - A wallet first seen ${metadata.walletAgeHours < 24 ? `${metadata.walletAgeHours.toFixed(0)} hours` : `${(metadata.walletAgeHours / 24).toFixed(1)} days`} ago put $${metadata.positionNotional.toFixed(0)} into ${signal.market?.outcomes?.[metadata.outcomeIndex] || `outcome ${metadata.outcomeIndex}`}, ${(metadata.volumeShare * 100).toFixed(1)}% of everything this market has ever traded, with ${(Math.max(metadata.marketConcentration, metadata.topicConcentration) * 100).toFixed(0)}% of its money in ${metadata.marketConcentration >= metadata.topicConcentration ? 'this one market' : 'this one topic'}. Accounts funded just to place a single large bet are a classic insider pattern.`;
+        } else {
+          interpretation = `🔓 **Unusual cross-market activity** - Multiple related markets are moving in coordinated ways, suggesting information may be leaking before official announcements.`;
+        }
+        break;
+
+      case 'event_mispricing':
+        if (metadata.probabilitySum !== undefined) {
+          interpretation = metadata.deviation > 0
+            ? `⚖️ **Event overpriced** - The outcomes of this event add up to ${(metadata.probabilitySum * 100).toFixed(1)}% even though only one can win. ${metadata.executable ? 'The gap is wider than the spreads, so selling Yes across the outcomes locks it in.' : 'The gap is within the spreads and may just be stale quotes.'}`
+            : `⚖️ **Event underpriced** - The outcomes of this event add up to only ${(metadata.probabilitySum * 100).toFixed(1)}% even though one must win. ${metadata.executable ? 'The gap is wider than the spreads, so buying Yes across the outcomes locks it in.' : 'The gap is within the spreads and may just be stale quotes.'}`;
+        }
+        break;
+
+      case 'event_coordinated_move':
+        interpretation = '🔀 **Probability shifting within an event** - Several outcomes of the same event repriced together. When one outcome gains at the expense of the others, traders are usually acting on news about that outcome.';
+        break;
+
+      case 'smart_money':
+        if (metadata.trackRecord) {
+          interpretation = `🧠 **Smart money is buying** - A wallet that won ${metadata.trackRecord.winningMarkets} of its ${metadata.trackRecord.resolvedMarkets} resolved markets (${metadata.trackRecord.realizedPnl >= 0 ? '+' : '-'}$${Math.abs(metadata.trackRecord.realizedPnl).toFixed(0)} realized) just put $${metadata.netNotional.toFixed(0)} into ${signal.market?.outcomes?.[metadata.outcomeIndex] || `outcome ${metadata.outcomeIndex}`}.${metadata.alignedWallets > 0 ? ` ${metadata.alignedWallets} other accurate wallet${metadata.alignedWallets === 1 ? ' is' : 's are'} on the same side.` : ''} Traders with a real record tend to size up when they know something.`;
+        }
+        break;
+
+      case 'trade_intensity_burst':
+        if (metadata.intensityRatio !== undefined) {
+          interpretation = `🌋 **${metadata.side === 'buy' ? 'Buying' : 'Selling'} frenzy** - Trades are arriving ${metadata.intensityRatio.toFixed(1)}x faster than this market's fitted baseline, and each trade is setting off more trades. Clustered bursts like this are the footprint of someone working a large order on information.`;
+        }
         break;
 
       case 'new_market':
@@ -774,6 +813,43 @@ export class PrioritizedDiscordNotifier {
         }
         break;
 
+      case 'information_leak':
+        if (metadata.leakType === 'fresh_wallet') {
+          const outcomeName = signal.market?.outcomes?.[metadata.outcomeIndex] || `Outcome ${metadata.outcomeIndex}`;
+          reasoning += `Wallet: ${metadata.wallet.substring(0, 6)}...${metadata.wallet.slice(-4)}\n`;
+          reasoning += `First Activity: ${metadata.walletAgeHours.toFixed(1)}h ago\n`;
+          reasoning += `Position: +$${metadata.positionNotional.toFixed(0)} ${outcomeName} @ ${(metadata.averagePrice * 100).toFixed(1)}¢ (${metadata.trades} trades)\n`;
+          reasoning += `Share of Market Volume: ${(metadata.volumeShare * 100).toFixed(1)}% of $${metadata.marketVolume.toFixed(0)}\n`;
+          reasoning += `Concentration: ${(metadata.marketConcentration * 100).toFixed(0)}% in this market`;
+          if (metadata.topicCluster) {
+            reasoning += `, ${(metadata.topicConcentration * 100).toFixed(0)}% in ${metadata.topicCluster}`;
+          }
+          reasoning += ` (${metadata.walletMarkets} market${metadata.walletMarkets === 1 ? '' : 's'}, $${metadata.walletNotional.toFixed(0)} traded)\n`;
+          reasoning += 'Detection: Fresh wallet, concentrated position\n';
+          if (signal.confidence) {
+            reasoning += `Confidence: ${(signal.confidence * 100).toFixed(0)}%\n`;
+          }
+        }
+        break;
+
+      case 'smart_money':
+        if (metadata.trackRecord) {
+          const record = metadata.trackRecord;
+          const outcomeName = signal.market?.outcomes?.[metadata.outcomeIndex] || `Outcome ${metadata.outcomeIndex}`;
+          reasoning += `Wallet: ${metadata.wallet.substring(0, 6)}...${metadata.wallet.slice(-4)}\n`;
+          reasoning += `Position: +$${metadata.netNotional.toFixed(0)} ${outcomeName} @ ${(metadata.averagePrice * 100).toFixed(1)}¢ (${metadata.trades} trades)\n`;
+          reasoning += `Track Record: ${record.winningMarkets}/${record.resolvedMarkets} markets won (${(record.hitRate * 100).toFixed(0)}%)\n`;
+          reasoning += `Realized P&L: ${record.realizedPnl >= 0 ? '+' : '-'}$${Math.abs(record.realizedPnl).toFixed(0)} on $${record.resolvedVolume.toFixed(0)} traded\n`;
+          if (metadata.alignedWallets > 0) {
+            reasoning += `Other Smart Wallets: ${metadata.alignedWallets} on the same side ($${metadata.alignedNotional.toFixed(0)})\n`;
+          }
+          reasoning += 'Detection: Accurate wallet building a position\n';
+          if (signal.confidence) {
+            reasoning += `Confidence: ${(signal.confidence * 100).toFixed(0)}%\n`;
+          }
+        }
+        break;
+
       default:
         // Generic metadata display for other signal types
         if (metadata.microstructureData) {
@@ -1067,7 +1143,7 @@ export class PrioritizedDiscordNotifier {
   }
 
   /**
-   * Send test notification at each priority level
+   * Send test notification at each priority level to every configured sink
    */
   async sendTestNotifications(): Promise<Record<AlertPriority, boolean>> {
     const results: Record<AlertPriority, boolean> = {
@@ -1105,13 +1181,21 @@ export class PrioritizedDiscordNotifier {
         timestamp: new Date().toISOString()
       };
 
-      const payload: DiscordWebhookPayload = {
-        embeds: [embed],
-        username: 'Poly Early Bot - Priority Test',
+      const notification: AlertNotification = {
+        title: embed.title!,
+        description: embed.description!,
+        priority,
+        signalType: 'test',
+        marketId: 'test',
+        marketQuestion: 'Test Alert',
+        fields: embed.fields || [],
+        timestamp: Date.now(),
+        discordEmbed: embed
       };
 
       try {
-        results[priority] = await this.sendWebhook(payload);
+        const result = await this.router.broadcast(notification);
+        results[priority] = result.delivered.length > 0 && result.failed.length === 0;
         // Wait 1 second between test messages to avoid rate limits
         await this.sleep(1000);
       } catch (error) {
@@ -1135,12 +1219,16 @@ export class PrioritizedDiscordNotifier {
   getStats(): {
     configured: boolean;
     webhookUrl: string | null;
+    sinks: string[];
+    routes: string[];
     alertManagerStats: any;
     rateLimitStatus: any;
   } {
     return {
-      configured: this.webhookUrl !== null,
-      webhookUrl: this.webhookUrl ? '***configured***' : null,
+      configured: this.router.hasSinks(),
+      webhookUrl: this.config.discord.webhookUrl ? '***configured***' : null,
+      sinks: this.router.getSinkNames(),
+      routes: this.router.getRoutes().map(route => route.name),
       alertManagerStats: alertManager.getStats(),
       rateLimitStatus: alertManager.getRateLimitStatus()
     };
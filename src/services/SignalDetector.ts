@@ -1,9 +1,17 @@
-import { BotConfig, EarlySignal, Market, MarketMetrics, MicrostructureSignal, TickData, OrderbookData } from '../types';
+import { BotConfig, EarlySignal, Market, MarketMetrics, MicrostructureSignal, TickData, OrderbookData, SuppressedSignal } from '../types';
 import { OrderbookAnalyzer } from './OrderbookAnalyzer';
 import { statisticalWorkerService } from './StatisticalWorkerService';
 import { configManager } from '../config/ConfigManager';
 import { logger } from '../utils/logger';
 import { advancedLogger } from '../utils/AdvancedLogger';
+import { tracer } from '../monitoring/Tracer';
+
+// Per-market state serialized for checkpoints (see AnalyzerCheckpointService)
+export interface SignalDetectorState {
+  volumeChanges: number[];
+  priceChanges: number[];
+  competitivenessScores: number[];
+}
 
 export class SignalDetector {
   private config: BotConfig;
@@ -11,13 +19,10 @@ export class SignalDetector {
   private lastScanTime = 0;
   private orderbookAnalyzer: OrderbookAnalyzer;
   private recentSignals: Map<string, { signalType: string; timestamp: number; }[]> = new Map();
+  private onSuppressedHandler: ((suppressed: SuppressedSignal) => void) | null = null;
 
   // Statistical activity score storage for percentile-based scoring
-  private activityDistributions: Map<string, {
-    volumeChanges: number[];
-    priceChanges: number[];
-    competitivenessScores: number[];
-  }> = new Map();
+  private activityDistributions: Map<string, SignalDetectorState> = new Map();
 
   // Cleanup tracking to prevent unbounded memory growth
   private lastFullCleanup = 0;
@@ -38,6 +43,13 @@ export class SignalDetector {
     configManager.onConfigChange('signal_detector', this.onConfigurationChange.bind(this));
   }
 
+  /**
+   * Receive signals dropped as duplicates of a recent signal
+   */
+  onSuppressed(handler: (suppressed: SuppressedSignal) => void): void {
+    this.onSuppressedHandler = handler;
+  }
+
   async initialize(): Promise<void> {
     const systemConfig = configManager.getConfig();
     
@@ -55,6 +67,14 @@ export class SignalDetector {
   }
 
   async detectSignals(markets: Market[]): Promise<EarlySignal[]> {
+    return tracer.withSpan('signal_detector.detect_signals', async span => {
+      const signals = await this.detectMarketSignals(markets);
+      span.setAttribute('signals.count', signals.length);
+      return signals;
+    }, { 'markets.count': markets.length });
+  }
+
+  private async detectMarketSignals(markets: Market[]): Promise<EarlySignal[]> {
     const signals: EarlySignal[] = [];
     const currentTime = Date.now();
     
@@ -80,28 +100,28 @@ export class SignalDetector {
 
       // Detect various signal types with deduplication
       const newMarketSignal = this.detectNewMarket(market, currentTime);
-      if (newMarketSignal && !this.isDuplicateSignal(market.id, newMarketSignal.signalType, currentTime)) {
+      if (newMarketSignal && !this.isDuplicateSignal(newMarketSignal, currentTime)) {
         signals.push(newMarketSignal);
         this.recordSignal(market.id, newMarketSignal.signalType, currentTime);
         newMarketCount++;
       }
 
       const volumeSpikeSignal = this.detectVolumeSpike(market, currentTime);
-      if (volumeSpikeSignal && !this.isDuplicateSignal(market.id, volumeSpikeSignal.signalType, currentTime)) {
+      if (volumeSpikeSignal && !this.isDuplicateSignal(volumeSpikeSignal, currentTime)) {
         signals.push(volumeSpikeSignal);
         this.recordSignal(market.id, volumeSpikeSignal.signalType, currentTime);
         volumeSpikeCount++;
       }
 
       const priceMovementSignal = this.detectPriceMovement(market, currentTime);
-      if (priceMovementSignal && !this.isDuplicateSignal(market.id, priceMovementSignal.signalType, currentTime)) {
+      if (priceMovementSignal && !this.isDuplicateSignal(priceMovementSignal, currentTime)) {
         signals.push(priceMovementSignal);
         this.recordSignal(market.id, priceMovementSignal.signalType, currentTime);
         priceMovementCount++;
       }
 
       const unusualActivitySignal = this.detectUnusualActivity(market, currentTime);
-      if (unusualActivitySignal && !this.isDuplicateSignal(market.id, unusualActivitySignal.signalType, currentTime)) {
+      if (unusualActivitySignal && !this.isDuplicateSignal(unusualActivitySignal, currentTime)) {
         signals.push(unusualActivitySignal);
         this.recordSignal(market.id, unusualActivitySignal.signalType, currentTime);
         unusualActivityCount++;
@@ -139,12 +159,15 @@ export class SignalDetector {
 
   // Real-time orderbook analysis for microstructure signals
   detectOrderbookSignals(orderbook: OrderbookData): EarlySignal[] {
-    const signals: EarlySignal[] = [];
-    
-    const orderbookSignals = this.orderbookAnalyzer.detectOrderbookSignals(orderbook);
-    signals.push(...this.convertMicrostructureToEarlySignals(orderbookSignals));
+    return tracer.withSpan('signal_detector.detect_orderbook_signals', span => {
+      const signals: EarlySignal[] = [];
 
-    return signals;
+      const orderbookSignals = this.orderbookAnalyzer.detectOrderbookSignals(orderbook);
+      signals.push(...this.convertMicrostructureToEarlySignals(orderbookSignals));
+
+      span.setAttribute('signals.count', signals.length);
+      return signals;
+    }, { 'market.id': orderbook.marketId });
   }
 
   private convertMicrostructureToEarlySignals(microSignals: MicrostructureSignal[]): EarlySignal[] {
@@ -446,6 +469,38 @@ export class SignalDetector {
     return Math.min(100, Math.max(0, totalScore));
   }
 
+  /**
+   * Markets with an activity distribution, i.e. those exportMarketState can snapshot
+   */
+  getCheckpointMarketIds(): string[] {
+    return Array.from(this.activityDistributions.keys());
+  }
+
+  /**
+   * Snapshot of a market's activity distribution
+   */
+  exportMarketState(marketId: string): SignalDetectorState | null {
+    const dist = this.activityDistributions.get(marketId);
+    if (!dist) return null;
+
+    return {
+      volumeChanges: [...dist.volumeChanges],
+      priceChanges: [...dist.priceChanges],
+      competitivenessScores: [...dist.competitivenessScores]
+    };
+  }
+
+  /**
+   * Restore a market's activity distribution from exportMarketState
+   */
+  importMarketState(marketId: string, state: SignalDetectorState): void {
+    this.activityDistributions.set(marketId, {
+      volumeChanges: [...state.volumeChanges],
+      priceChanges: [...state.priceChanges],
+      competitivenessScores: [...state.competitivenessScores]
+    });
+  }
+
   /**
    * Update historical distribution for statistical activity scoring
    */
@@ -587,9 +642,10 @@ export class SignalDetector {
   }
 
   /**
-   * Check if a signal is a duplicate within the cooldown period
+   * Check if a signal is a duplicate within the cooldown period (duplicates are reported as suppressed)
    */
-  private isDuplicateSignal(marketId: string, signalType: string, currentTime: number): boolean {
+  private isDuplicateSignal(signal: EarlySignal, currentTime: number): boolean {
+    const { marketId, signalType } = signal;
     const marketSignals = this.recentSignals.get(marketId);
     if (!marketSignals) return false;
 
@@ -613,6 +669,17 @@ export class SignalDetector {
     if (recentSignal) {
       const minutesAgo = Math.floor((currentTime - recentSignal.timestamp) / (60 * 1000));
       logger.debug(`Duplicate signal suppressed: ${signalType} for market ${marketId.substring(0, 8)}... (last seen ${minutesAgo}min ago)`);
+      this.onSuppressedHandler?.({
+        marketId,
+        signalType: signal.signalType,
+        stage: 'signal_detector',
+        reason: 'duplicate',
+        detail: `Same signal type ${minutesAgo}min ago, within the ${Math.round(cooldownTime / 60000)}min cooldown`,
+        confidence: signal.confidence,
+        question: signal.market?.question,
+        metadata: signal.metadata,
+        suppressedAt: currentTime
+      });
       return true;
     }
 
@@ -3,6 +3,7 @@ import { DatabaseManager } from '../data/database';
 import { logger } from '../utils/logger';
 import { advancedLogger } from '../utils/AdvancedLogger';
 import { randomUUID } from 'crypto';
+import type { MarketResolutionRecord } from './MarketResolutionService';
 
 export interface SignalPerformanceRecord {
   id: string;
@@ -72,6 +73,32 @@ export interface SignalTypeStats {
 
   posteriorConfidence: number;
   sampleSize: number;
+
+  // Manual validations from the dashboard, kept apart from resolution-based accuracy
+  humanLabeled: HumanLabeledStats;
+}
+
+export interface HumanLabeledStats {
+  signalType: string;
+  sampleSize: number;
+  correct: number;
+  accuracy: number;
+  posteriorAccuracy: number;
+}
+
+export interface SignalValidationInput {
+  correct: boolean;
+  notes?: string;
+  validatedBy?: string;
+}
+
+export interface SignalValidationRecord extends SignalValidationInput {
+  id: string;
+  signalId?: number;
+  performanceId?: string;
+  marketId: string;
+  signalType: string;
+  validatedAt: number;
 }
 
 export class SignalPerformanceTracker {
@@ -101,7 +128,11 @@ export class SignalPerformanceTracker {
       'market_maker_withdrawal',
       'liquidity_vacuum',
       'micro_price_drift',
-      'front_running_detected'
+      'front_running_detected',
+      'event_mispricing',
+      'event_coordinated_move',
+      'trade_intensity_burst',
+      'smart_money'
     ];
 
     for (const type of signalTypes) {
@@ -147,9 +178,9 @@ export class SignalPerformanceTracker {
   }
 
   /**
-   * Track a new signal
+   * Track a new signal (signalId links the record to its row in the signals table)
    */
-  async trackSignal(signal: EarlySignal, market: Market): Promise<string> {
+  async trackSignal(signal: EarlySignal, market: Market, signalId?: number): Promise<string> {
     // Determine which outcome and direction
     const { outcomeIndex, outcomeName, direction } = this.extractSignalDirection(signal, market);
 
@@ -157,6 +188,7 @@ export class SignalPerformanceTracker {
 
     const record: SignalPerformanceRecord = {
       id: randomUUID(),
+      signalId,
       marketId: market.id,
       signalType: signal.signalType,
       confidence: signal.confidence,
@@ -269,16 +301,7 @@ export class SignalPerformanceTracker {
       updates.pnl7day = pnl;
     }
 
-    // Check if market is closed/resolved
-    if (market.closed && !record.marketResolved) {
-      updates.marketResolved = true;
-      updates.resolutionTime = now;
-      updates.finalPnL = pnl;
-
-      // Determine if signal was correct
-      updates.wasCorrect = pnl > 0;
-      updates.magnitude = Math.abs(pnl);
-    }
+    // Resolution (finalPnL / wasCorrect) is settled by MarketResolutionService via applyResolution
 
     // Track max favorable and adverse moves
     const currentMove = currentPrice - record.entryPrice;
@@ -297,6 +320,58 @@ export class SignalPerformanceTracker {
     }
   }
 
+  /**
+   * Settle every tracked signal on a resolved market at the outcome payout.
+   * Overwrites interim values, so re-applying the same resolution is safe.
+   * Returns the number of signals updated.
+   */
+  async applyResolution(resolution: MarketResolutionRecord): Promise<number> {
+    const rows = await this.database.query(
+      'SELECT * FROM signal_performance WHERE market_id = $1',
+      [resolution.marketId]
+    );
+
+    for (const row of rows) {
+      const record = this.rowToRecord(row);
+      const payout = resolution.outcomePrices[record.entryOutcomeIndex] ?? 0;
+      const finalPnL = record.entryDirection === 'neutral'
+        ? 0
+        : this.calculatePnL(record.entryPrice, payout, record.entryDirection);
+
+      // A clean resolution grades the call itself: bullish on the winner or bearish on a loser.
+      // Invalid resolutions have no winner, so only the settlement P&L counts.
+      const wasCorrect = resolution.status === 'resolved' && record.entryDirection !== 'neutral'
+        ? (record.entryOutcomeIndex === resolution.winningOutcomeIndex) === (record.entryDirection === 'bullish')
+        : finalPnL > 0;
+
+      await this.updatePerformanceRecord(record.id, {
+        marketResolved: true,
+        resolutionTime: resolution.resolvedAt,
+        winningOutcomeIndex: resolution.winningOutcomeIndex, // Cleared for invalid resolutions
+        finalPnL,
+        wasCorrect,
+        magnitude: Math.abs(finalPnL)
+      });
+    }
+
+    const signalTypes = new Set<string>(rows.map((row: any) => row.signal_type));
+    for (const signalType of signalTypes) {
+      await this.recalculateSignalTypeStats(signalType);
+    }
+
+    advancedLogger.info(`Settled ${rows.length} signals on resolved market`, {
+      component: 'signal_performance_tracker',
+      operation: 'apply_resolution',
+      metadata: {
+        marketId: resolution.marketId.substring(0, 8),
+        status: resolution.status,
+        winningOutcomeIndex: resolution.winningOutcomeIndex
+      }
+    });
+
+    return rows.length;
+  }
+
   /**
    * Extract price for a specific outcome from market data
    */
@@ -419,29 +494,8 @@ export class SignalPerformanceTracker {
 
     if (rows.length === 0) return null;
 
-    const row = rows[0];
-    return {
-      signalType: row.signal_type,
-      totalSignals: row.total_signals,
-      correctPredictions: row.correct_predictions,
-      accuracy: parseFloat(row.accuracy || 0),
-
-      avgPnL30min: parseFloat(row.avg_pnl_30min || 0),
-      avgPnL1hr: parseFloat(row.avg_pnl_1hr || 0),
-      avgPnL24hr: parseFloat(row.avg_pnl_24hr || 0),
-      avgPnLFinal: parseFloat(row.avg_pnl_final || 0),
-
-      sharpeRatio: parseFloat(row.sharpe_ratio || 0),
-      winRate: parseFloat(row.win_rate || 0),
-      avgWin: parseFloat(row.avg_win || 0),
-      avgLoss: parseFloat(row.avg_loss || 0),
-
-      expectedValue: parseFloat(row.expected_value || 0),
-      kellyFraction: parseFloat(row.kelly_fraction || 0),
-
-      posteriorConfidence: parseFloat(row.posterior_confidence || 0.5),
-      sampleSize: row.sample_size || 0
-    };
+    const humanLabeled = await this.getHumanLabeledStats();
+    return this.rowToStats(rows[0], humanLabeled.find(stats => stats.signalType === signalType));
   }
 
   /**
@@ -452,28 +506,134 @@ export class SignalPerformanceTracker {
       'SELECT * FROM signal_type_performance ORDER BY total_signals DESC'
     );
 
-    return rows.map((row: any) => ({
-      signalType: row.signal_type,
-      totalSignals: row.total_signals,
-      correctPredictions: row.correct_predictions,
-      accuracy: parseFloat(row.accuracy || 0),
+    const humanLabeled = new Map((await this.getHumanLabeledStats()).map(stats => [stats.signalType, stats]));
+    return rows.map((row: any) => this.rowToStats(row, humanLabeled.get(row.signal_type)));
+  }
 
-      avgPnL30min: parseFloat(row.avg_pnl_30min || 0),
-      avgPnL1hr: parseFloat(row.avg_pnl_1hr || 0),
-      avgPnL24hr: parseFloat(row.avg_pnl_24hr || 0),
-      avgPnLFinal: parseFloat(row.avg_pnl_final || 0),
+  /**
+   * Human-labeled accuracy per signal type: the share of manually validated
+   * signals marked correct, optionally only counting labels since a timestamp
+   */
+  async getHumanLabeledStats(since?: number): Promise<HumanLabeledStats[]> {
+    const rows = await this.database.query(`
+      SELECT signal_type,
+        COUNT(*) AS labeled,
+        SUM(CASE WHEN correct THEN 1 ELSE 0 END) AS correct
+      FROM signal_validations
+      WHERE validated_at >= $1
+      GROUP BY signal_type
+    `, [new Date(since ?? 0)]);
+
+    return rows.map((row: any) => {
+      const sampleSize = Number(row.labeled);
+      const correct = Number(row.correct || 0);
+      const accuracy = sampleSize > 0 ? correct / sampleSize : 0;
+      return {
+        signalType: row.signal_type,
+        sampleSize,
+        correct,
+        accuracy,
+        posteriorAccuracy: this.calculateBayesianConfidence(accuracy, sampleSize)
+      };
+    });
+  }
 
-      sharpeRatio: parseFloat(row.sharpe_ratio || 0),
-      winRate: parseFloat(row.win_rate || 0),
-      avgWin: parseFloat(row.avg_win || 0),
-      avgLoss: parseFloat(row.avg_loss || 0),
+  /**
+   * Persist a manual validation against the signals and signal_performance rows.
+   *
+   * The id is either a signals row id or a performance record id. Validating a
+   * signal again replaces its earlier label. Returns null if no signal matches.
+   */
+  async recordValidation(id: string, input: SignalValidationInput): Promise<SignalValidationRecord | null> {
+    let signalRow: any;
+    let performanceRow: any;
+
+    if (/^\d+$/.test(id)) {
+      [signalRow] = await this.database.query('SELECT * FROM signals WHERE id = $1', [parseInt(id, 10)]);
+      [performanceRow] = await this.database.query(
+        'SELECT * FROM signal_performance WHERE signal_id = $1 ORDER BY entry_time DESC LIMIT 1',
+        [parseInt(id, 10)]
+      );
+    } else {
+      [performanceRow] = await this.database.query('SELECT * FROM signal_performance WHERE id = $1', [id]);
+      if (performanceRow?.signal_id) {
+        [signalRow] = await this.database.query('SELECT * FROM signals WHERE id = $1', [performanceRow.signal_id]);
+      }
+    }
 
-      expectedValue: parseFloat(row.expected_value || 0),
-      kellyFraction: parseFloat(row.kelly_fraction || 0),
+    const source = performanceRow || signalRow;
+    if (!source) return null;
 
-      posteriorConfidence: parseFloat(row.posterior_confidence || 0.5),
-      sampleSize: row.sample_size || 0
-    }));
+    const validation: SignalValidationRecord = {
+      id: randomUUID(),
+      signalId: signalRow?.id ?? undefined,
+      performanceId: performanceRow?.id ?? undefined,
+      marketId: source.market_id,
+      signalType: source.signal_type,
+      correct: input.correct,
+      notes: input.notes,
+      validatedBy: input.validatedBy,
+      validatedAt: Date.now()
+    };
+
+    if (validation.performanceId) {
+      await this.database.query('DELETE FROM signal_validations WHERE performance_id = $1', [validation.performanceId]);
+    }
+    if (validation.signalId) {
+      await this.database.query('DELETE FROM signal_validations WHERE signal_id = $1', [validation.signalId]);
+    }
+
+    await this.database.query(`
+      INSERT INTO signal_validations (
+        id, signal_id, performance_id, market_id, signal_type,
+        correct, notes, validated_by, validated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    `, [
+      validation.id,
+      validation.signalId ?? null,
+      validation.performanceId ?? null,
+      validation.marketId,
+      validation.signalType,
+      validation.correct,
+      validation.notes ?? null,
+      validation.validatedBy ?? null,
+      new Date(validation.validatedAt)
+    ]);
+
+    if (validation.signalId) {
+      await this.database.query(
+        'UPDATE signals SET validated = $1, validation_time = $2, outcome = $3 WHERE id = $4',
+        [true, new Date(validation.validatedAt), validation.correct, validation.signalId]
+      );
+    }
+
+    if (performanceRow) {
+      const record = this.rowToRecord(performanceRow);
+      await this.updatePerformanceRecord(record.id, {
+        metadata: {
+          ...record.metadata,
+          humanValidation: {
+            correct: validation.correct,
+            notes: validation.notes,
+            validatedBy: validation.validatedBy,
+            validatedAt: validation.validatedAt
+          }
+        }
+      });
+    }
+
+    advancedLogger.info('Manual signal validation recorded', {
+      component: 'signal_performance_tracker',
+      operation: 'record_validation',
+      metadata: {
+        signalId: validation.signalId,
+        performanceId: validation.performanceId,
+        signalType: validation.signalType,
+        correct: validation.correct
+      }
+    });
+
+    return validation;
   }
 
   /**
@@ -636,12 +796,13 @@ export class SignalPerformanceTracker {
   private async savePerformanceRecord(record: SignalPerformanceRecord): Promise<void> {
     await this.database.query(`
       INSERT INTO signal_performance (
-        id, market_id, signal_type, confidence,
+        id, signal_id, market_id, signal_type, confidence,
         entry_time, entry_outcome_index, entry_outcome_name, entry_price, entry_direction,
         market_volume, market_active, market_resolved, metadata
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
     `, [
       record.id,
+      record.signalId ?? null,
       record.marketId,
       record.signalType,
       record.confidence,
@@ -695,7 +856,13 @@ export class SignalPerformanceTracker {
       }
 
       setClauses.push(`${columnName} = $${paramIndex++}`);
-      values.push(value);
+      if (columnName === 'resolution_time' && typeof value === 'number') {
+        values.push(new Date(value));
+      } else if (columnName === 'metadata') {
+        values.push(JSON.stringify(value || {}));
+      } else {
+        values.push(value ?? null);
+      }
     });
 
     if (setClauses.length === 0) return;
@@ -714,6 +881,39 @@ export class SignalPerformanceTracker {
     await this.database.query(query, values);
   }
 
+  private rowToStats(row: any, humanLabeled?: HumanLabeledStats): SignalTypeStats {
+    return {
+      signalType: row.signal_type,
+      totalSignals: row.total_signals,
+      correctPredictions: row.correct_predictions,
+      accuracy: parseFloat(row.accuracy || 0),
+
+      avgPnL30min: parseFloat(row.avg_pnl_30min || 0),
+      avgPnL1hr: parseFloat(row.avg_pnl_1hr || 0),
+      avgPnL24hr: parseFloat(row.avg_pnl_24hr || 0),
+      avgPnLFinal: parseFloat(row.avg_pnl_final || 0),
+
+      sharpeRatio: parseFloat(row.sharpe_ratio || 0),
+      winRate: parseFloat(row.win_rate || 0),
+      avgWin: parseFloat(row.avg_win || 0),
+      avgLoss: parseFloat(row.avg_loss || 0),
+
+      expectedValue: parseFloat(row.expected_value || 0),
+      kellyFraction: parseFloat(row.kelly_fraction || 0),
+
+      posteriorConfidence: parseFloat(row.posterior_confidence || 0.5),
+      sampleSize: row.sample_size || 0,
+
+      humanLabeled: humanLabeled || {
+        signalType: row.signal_type,
+        sampleSize: 0,
+        correct: 0,
+        accuracy: 0,
+        posteriorAccuracy: this.calculateBayesianConfidence(0, 0)
+      }
+    };
+  }
+
   private rowToRecord(row: any): SignalPerformanceRecord {
     return {
       id: row.id,
@@ -0,0 +1,125 @@
+import { EarlySignal, ProvenanceValue, SignalProvenance } from '../types';
+import type { DetectionThresholds } from '../config/ConfigManager';
+import type { AlertDecision } from './AlertManager';
+
+// DetectionThresholds sections each signal type is detected against. Types
+// detected by analyzers with their own settings record them in metadata instead.
+const THRESHOLD_SECTIONS: Partial<Record<EarlySignal['signalType'], string[]>> = {
+  volume_spike: ['signals.volumeSpike'],
+  price_movement: ['signals.priceMovement'],
+  unusual_activity: ['signals.activityDetection'],
+  orderbook_imbalance: ['microstructure.orderbookImbalance'],
+  spread_anomaly: ['microstructure.spreadAnomaly'],
+  liquidity_shift: ['microstructure.liquidityShift'],
+  market_maker_withdrawal: ['microstructure.liquidityShift'],
+  liquidity_vacuum: ['microstructure.liquidityVacuum'],
+  front_running_detected: ['microstructure.frontRunning'],
+  coordinated_cross_market: ['signals.crossMarketCorrelation'],
+  event_coordinated_move: ['signals.crossMarketCorrelation']
+};
+
+// Thresholds AlertManager applies to every signal
+const ALERT_THRESHOLD_SECTIONS = ['alertPrioritization.thresholds', 'alertPrioritization.qualityFilters'];
+
+// Metadata carried on the provenance itself rather than as an input
+const NON_INPUT_METADATA = new Set(['signalSource', 'traceId']);
+
+const MAX_DEPTH = 3;
+const MAX_STRING_LENGTH = 200;
+
+function flatten(value: unknown, prefix: string, out: Record<string, ProvenanceValue>, depth: number = 0): void {
+  if (typeof value === 'number') {
+    if (Number.isFinite(value)) out[prefix] = value;
+  } else if (typeof value === 'boolean') {
+    out[prefix] = value;
+  } else if (typeof value === 'string') {
+    out[prefix] = value.length > MAX_STRING_LENGTH ? `${value.substring(0, MAX_STRING_LENGTH)}...` : value;
+  } else if (value && typeof value === 'object' && !Array.isArray(value) && depth < MAX_DEPTH) {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, prefix ? `${prefix}.${key}` : key, out, depth + 1);
+    }
+  }
+  // Arrays (price series, trade lists) are left out; the scalars derived from them are kept
+}
+
+function getPath(source: unknown, dottedPath: string): unknown {
+  return dottedPath.split('.').reduce<any>((node, key) => (node == null ? undefined : node[key]), source);
+}
+
+/**
+ * DetectionThresholds paths consulted for a signal type
+ */
+export function getThresholdSections(signalType: EarlySignal['signalType']): string[] {
+  return [...(THRESHOLD_SECTIONS[signalType] || []), ...ALERT_THRESHOLD_SECTIONS];
+}
+
+/**
+ * The market a signal fired on, as recorded in its provenance
+ */
+export function buildMarketProvenance(signal: EarlySignal): Record<string, ProvenanceValue> {
+  const market: Record<string, ProvenanceValue> = {};
+  const price = parseFloat(signal.market?.outcomePrices?.[0] ?? '');
+  flatten({
+    id: signal.market?.id ?? signal.marketId,
+    question: signal.market?.question,
+    category: signal.market?.category,
+    tier: signal.market?.tier,
+    volume: signal.market?.volumeNum,
+    price: Number.isFinite(price) ? price : undefined,
+    spreadBps: signal.market?.spread,
+    opportunityScore: signal.market?.opportunityScore,
+    categoryScore: signal.market?.categoryScore
+  }, '', market);
+  return market;
+}
+
+/**
+ * Structured record of why a signal fired: its raw inputs from metadata, the
+ * market it fired on, and the thresholds and config version in effect
+ */
+export function buildSignalProvenance(
+  signal: EarlySignal,
+  thresholds: DetectionThresholds,
+  configVersion: string,
+  now: number = Date.now()
+): SignalProvenance {
+  const inputs: Record<string, ProvenanceValue> = {};
+  for (const [key, value] of Object.entries(signal.metadata || {})) {
+    if (!NON_INPUT_METADATA.has(key)) flatten(value, key, inputs);
+  }
+  inputs.confidence = signal.confidence;
+
+  const thresholdValues: Record<string, ProvenanceValue> = {};
+  for (const section of getThresholdSections(signal.signalType)) {
+    flatten(getPath(thresholds, section), section, thresholdValues);
+  }
+
+  return {
+    signalType: signal.signalType,
+    source: signal.metadata?.signalSource,
+    generatedAt: signal.timestamp || now,
+    configVersion,
+    traceId: signal.metadata?.traceId,
+    inputs,
+    market: buildMarketProvenance(signal),
+    thresholds: thresholdValues
+  };
+}
+
+/**
+ * Provenance with AlertManager's decision and the checks behind it
+ */
+export function withAlertDecision(provenance: SignalProvenance, decision: AlertDecision, now: number = Date.now()): SignalProvenance {
+  return {
+    ...provenance,
+    alertDecision: {
+      evaluatedAt: now,
+      shouldAlert: decision.shouldAlert,
+      priority: decision.priority,
+      adjustedScore: decision.adjustedScore,
+      reason: decision.reason,
+      blockedBy: decision.blockedBy,
+      checks: decision.checks || []
+    }
+  };
+}
@@ -0,0 +1,198 @@
+import { EarlySignal, Market, TickData, WalletProfile } from '../types';
+import { advancedLogger as logger } from '../utils/AdvancedLogger';
+
+export interface SmartMoneyConfig {
+  minResolvedMarkets: number;     // Track record needed before a wallet counts as smart money
+  minHitRate: number;
+  minRealizedPnl: number;
+  accumulationWindowMs: number;   // Trades summed into a wallet's position
+  minPositionNotional: number;    // Net dollars bought of one outcome within the window
+  signalCooldownMs: number;       // Per market, wallet and outcome
+}
+
+interface WalletTrade {
+  timestamp: number;
+  outcomeIndex: number;
+  signedShares: number;           // Positive for buys of the outcome
+  signedNotional: number;
+}
+
+const DEFAULT_CONFIG: SmartMoneyConfig = {
+  minResolvedMarkets: 5,
+  minHitRate: 0.6,
+  minRealizedPnl: 0,
+  accumulationWindowMs: 21600000, // 6 hours
+  minPositionNotional: 1000,
+  signalCooldownMs: 3600000       // 1 hour
+};
+
+/**
+ * Smart-money position building from attributed trades
+ *
+ * Wallets with a profitable, accurate record in resolved markets are smart
+ * money. When one of them nets at least minPositionNotional of buying in one
+ * outcome within the accumulation window, the position is flagged with the
+ * wallet's track record and how many other smart wallets are on the same side.
+ */
+export class SmartMoneyDetector {
+  private config: SmartMoneyConfig;
+  private smartWallets: Map<string, WalletProfile> = new Map();
+  private positions: Map<string, Map<string, WalletTrade[]>> = new Map(); // market -> wallet -> trades
+  private lastSignalTimes: Map<string, number> = new Map();
+
+  constructor(config: Partial<SmartMoneyConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Replace the wallet profiles; only wallets meeting the track-record thresholds are kept
+   */
+  setProfiles(profiles: WalletProfile[]): void {
+    this.smartWallets = new Map(
+      profiles
+        .filter(profile => this.qualifies(profile))
+        .map(profile => [profile.walletAddress, profile])
+    );
+  }
+
+  isSmartMoney(walletAddress: string): boolean {
+    return this.smartWallets.has(walletAddress.toLowerCase());
+  }
+
+  getSmartWalletCount(): number {
+    return this.smartWallets.size;
+  }
+
+  /**
+   * Record an attributed trade. Uses the trade timestamp as the clock so
+   * replays behave like live data.
+   */
+  recordTrade(tick: TickData): EarlySignal | null {
+    const wallet = tick.traderAddress?.toLowerCase();
+    const profile = wallet ? this.smartWallets.get(wallet) : undefined;
+    if (!wallet || !profile) return null;
+
+    const outcomeIndex = tick.outcomeIndex ?? 0;
+    const direction = tick.side === 'buy' ? 1 : -1;
+
+    if (!this.positions.has(tick.marketId)) this.positions.set(tick.marketId, new Map());
+    const wallets = this.positions.get(tick.marketId)!;
+    const trades = wallets.get(wallet) || [];
+    trades.push({
+      timestamp: tick.timestamp,
+      outcomeIndex,
+      signedShares: direction * tick.size,
+      signedNotional: direction * tick.price * tick.size
+    });
+    wallets.set(wallet, trades);
+    this.prune(tick.marketId, tick.timestamp);
+
+    const position = this.netPosition(wallets.get(wallet) || [], outcomeIndex);
+    if (position.notional < this.config.minPositionNotional) return null;
+
+    const cooldownKey = `${tick.marketId}:${wallet}:${outcomeIndex}`;
+    const lastSignal = this.lastSignalTimes.get(cooldownKey);
+    if (lastSignal !== undefined && tick.timestamp - lastSignal < this.config.signalCooldownMs) return null;
+
+    // Other smart wallets net long the same outcome
+    let alignedWallets = 0;
+    let alignedNotional = 0;
+    for (const [otherWallet, otherTrades] of wallets) {
+      if (otherWallet === wallet) continue;
+      const other = this.netPosition(otherTrades, outcomeIndex);
+      if (other.notional > 0) {
+        alignedWallets++;
+        alignedNotional += other.notional;
+      }
+    }
+
+    let confidence = 0.5;
+    if (profile.hitRate >= 0.75) confidence += 0.15;
+    if (profile.resolvedMarkets >= 20) confidence += 0.1;
+    if (profile.realizedPnl >= 10000) confidence += 0.1;
+    confidence += Math.min(alignedWallets * 0.05, 0.15);
+    confidence = Math.min(confidence, 0.95);
+
+    logger.info(`🧠 Smart money: ${wallet.substring(0, 10)}... bought $${position.notional.toFixed(0)} of outcome ${outcomeIndex} ` +
+      `in ${tick.marketId.substring(0, 8)}... (${(profile.hitRate * 100).toFixed(0)}% of ${profile.resolvedMarkets} markets)`, {
+      component: 'smart_money',
+      operation: 'detect_position',
+      metadata: { marketId: tick.marketId, wallet, outcomeIndex, netNotional: position.notional, alignedWallets }
+    });
+
+    this.lastSignalTimes.set(cooldownKey, tick.timestamp);
+    return {
+      marketId: tick.marketId,
+      market: {} as Market, // Enriched by the bot
+      signalType: 'smart_money',
+      timestamp: tick.timestamp,
+      confidence,
+      metadata: {
+        signalSource: 'wallet_tracking',
+        wallet,
+        outcomeIndex,
+        // Buying the first (Yes) outcome is bullish for the market; buying another outcome is bearish
+        direction: outcomeIndex === 0 ? 'bullish' : 'bearish',
+        netNotional: position.notional,
+        netShares: position.shares,
+        averagePrice: position.shares > 0 ? position.notional / position.shares : tick.price,
+        trades: position.trades,
+        windowMs: this.config.accumulationWindowMs,
+        alignedWallets,
+        alignedNotional,
+        trackRecord: {
+          resolvedMarkets: profile.resolvedMarkets,
+          winningMarkets: profile.winningMarkets,
+          hitRate: profile.hitRate,
+          realizedPnl: profile.realizedPnl,
+          resolvedVolume: profile.resolvedVolume
+        }
+      }
+    };
+  }
+
+  clearMarket(marketId: string): void {
+    this.positions.delete(marketId);
+    for (const key of this.lastSignalTimes.keys()) {
+      if (key.startsWith(`${marketId}:`)) this.lastSignalTimes.delete(key);
+    }
+  }
+
+  /**
+   * Get configuration
+   */
+  getConfig(): SmartMoneyConfig {
+    return { ...this.config };
+  }
+
+  private qualifies(profile: WalletProfile): boolean {
+    return profile.resolvedMarkets >= this.config.minResolvedMarkets &&
+      profile.hitRate >= this.config.minHitRate &&
+      profile.realizedPnl > this.config.minRealizedPnl;
+  }
+
+  private netPosition(trades: WalletTrade[], outcomeIndex: number): { notional: number; shares: number; trades: number } {
+    let notional = 0;
+    let shares = 0;
+    let count = 0;
+    for (const trade of trades) {
+      if (trade.outcomeIndex !== outcomeIndex) continue;
+      notional += trade.signedNotional;
+      shares += trade.signedShares;
+      count++;
+    }
+    return { notional, shares, trades: count };
+  }
+
+  private prune(marketId: string, now: number): void {
+    const wallets = this.positions.get(marketId);
+    if (!wallets) return;
+
+    const cutoff = now - this.config.accumulationWindowMs;
+    for (const [wallet, trades] of wallets) {
+      const recent = trades.filter(trade => trade.timestamp >= cutoff);
+      if (recent.length > 0) wallets.set(wallet, recent);
+      else wallets.delete(wallet);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { DataAccessLayer } from '../data/DataAccessLayer';
+import { SuppressedSignal, SuppressionCount, SuppressionQuery, SuppressionReason } from '../types';
+import { advancedLogger as logger } from '../utils/AdvancedLogger';
+import { metricsCollector } from '../monitoring/MetricsCollector';
+
+export const SUPPRESSION_REASONS: SuppressionReason[] = [
+  'duplicate', 'disabled', 'muted', 'snoozed', 'quality', 'tier', 'rate_limit', 'cooldown'
+];
+
+export interface SuppressionLogConfig {
+  maxRows: number;             // Table is pruned to the newest maxRows after each flush
+  flushIntervalMs: number;
+  flushBatchSize: number;      // Flush early once this many entries are buffered
+  maxBuffered: number;         // Oldest buffered entries are dropped beyond this while writes fail
+}
+
+/**
+ * Records every signal that was detected but never alerted
+ *
+ * SignalDetector drops duplicates of a recent signal and AlertManager blocks
+ * signals on cooldowns, hourly caps, tier minimums and quality filters. Both
+ * report here; entries are buffered and written in batches to a capped table
+ * so "why didn't it alert?" can be answered after the fact.
+ */
+export class SuppressionLog {
+  private dataLayer: DataAccessLayer;
+  private config: SuppressionLogConfig;
+  private buffer: SuppressedSignal[] = [];
+  private flushTimer?: NodeJS.Timeout;
+  private flushChain: Promise<void> = Promise.resolve();
+
+  constructor(dataLayer: DataAccessLayer, config?: Partial<SuppressionLogConfig>) {
+    this.dataLayer = dataLayer;
+    this.config = {
+      maxRows: 100000,
+      flushIntervalMs: 10000,   // 10 seconds
+      flushBatchSize: 100,
+      maxBuffered: 5000,
+      ...config
+    };
+  }
+
+  start(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setInterval(() => {
+      this.flush().catch(() => undefined);
+    }, this.config.flushIntervalMs);
+  }
+
+  /**
+   * Stop the flush timer and write what is buffered
+   */
+  async stop(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    await this.flush();
+  }
+
+  record(entry: SuppressedSignal): void {
+    metricsCollector.incrementCounter('signals.suppressed', 1, { reason: entry.reason, stage: entry.stage });
+
+    this.buffer.push(entry);
+    if (this.buffer.length > this.config.maxBuffered) {
+      this.buffer.shift();
+      metricsCollector.incrementCounter('signals.suppressions_dropped', 1);
+    }
+    if (this.buffer.length >= this.config.flushBatchSize) {
+      this.flush().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Write buffered entries and prune the table to maxRows
+   */
+  async flush(): Promise<void> {
+    // Flushes run one after another, so writes never overlap and a caller only
+    // returns once everything buffered before it was written
+    const flushed = this.flushChain.then(() => this.writeBuffered());
+    this.flushChain = flushed.catch(() => undefined);
+    await flushed;
+  }
+
+  private async writeBuffered(): Promise<void> {
+    if (this.buffer.length === 0) return;
+
+    const entries = this.buffer;
+    this.buffer = [];
+
+    try {
+      await this.dataLayer.saveSignalSuppressions(entries);
+      await this.dataLayer.pruneSignalSuppressions(this.config.maxRows);
+    } catch (error) {
+      // Keep the entries for the next flush, newest last
+      this.buffer = [...entries, ...this.buffer].slice(-this.config.maxBuffered);
+      logger.error('Error writing signal suppressions', error as Error, {
+        component: 'suppression_log',
+        operation: 'flush',
+        metadata: { entries: entries.length }
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Suppressed signals by market, reason, signal type and time range, newest first.
+   * Buffered entries are written first so they are included.
+   */
+  async query(filter: SuppressionQuery = {}): Promise<SuppressedSignal[]> {
+    await this.flush().catch(() => undefined);
+    return this.dataLayer.getSignalSuppressions(filter);
+  }
+
+  /**
+   * Suppression counts per reason for the same filters
+   */
+  async summarize(filter: SuppressionQuery = {}): Promise<SuppressionCount[]> {
+    await this.flush().catch(() => undefined);
+    return this.dataLayer.getSuppressionCounts(filter);
+  }
+}
@@ -1,5 +1,6 @@
 import { Market } from '../types';
 import { logger } from '../utils/logger';
+import { LearnedTopicClusterer } from './LearnedTopicClusterer';
 
 export interface TopicCluster {
   id: string;
@@ -8,6 +9,7 @@ export interface TopicCluster {
   markets: Market[];
   correlationMatrix: Map<string, number>;
   lastUpdated: number;
+  source: 'manual' | 'learned';
 }
 
 export interface EntityCluster {
@@ -21,6 +23,7 @@ export class TopicClusteringEngine {
   private clusters: Map<string, TopicCluster> = new Map();
   private entityClusters: Map<string, EntityCluster> = new Map();
   private marketToTopics: Map<string, string[]> = new Map();
+  private learnedTopics?: LearnedTopicClusterer;
   
   // Predefined entity patterns for political/financial markets
   private readonly entityPatterns = {
@@ -88,7 +91,8 @@ export class TopicClusteringEngine {
         keywords,
         markets: [],
         correlationMatrix: new Map(),
-        lastUpdated: Date.now()
+        lastUpdated: Date.now(),
+        source: 'manual'
       };
       
       this.clusters.set(entity, cluster);
@@ -107,7 +111,21 @@ export class TopicClusteringEngine {
   }
 
   /**
-   * Classify markets into topic clusters based on keywords
+   * Use learned clusters (see LearnedTopicClusterer) alongside the keyword clusters
+   */
+  setLearnedTopics(learnedTopics: LearnedTopicClusterer): void {
+    this.learnedTopics = learnedTopics;
+  }
+
+  /**
+   * Learned cluster of a market, if any
+   */
+  getLearnedTopicId(marketId: string): string | undefined {
+    return this.learnedTopics?.getClusterId(marketId);
+  }
+
+  /**
+   * Classify markets into topic clusters based on keywords and learned clusters
    */
   classifyMarkets(markets: Market[]): void {
     logger.debug(`Classifying ${markets.length} markets into topic clusters`);
@@ -117,6 +135,7 @@ export class TopicClusteringEngine {
       cluster.markets = [];
     }
     this.marketToTopics.clear();
+    this.syncLearnedClusters();
     
     for (const market of markets) {
       const marketTopics = this.classifyMarket(market);
@@ -148,6 +167,8 @@ export class TopicClusteringEngine {
     const searchText = `${market.question} ${market.description || ''}`.toLowerCase();
     
     for (const [clusterId, cluster] of this.clusters) {
+      if (cluster.source === 'learned') continue;
+
       let score = 0;
       let matchedKeywords = 0;
       
@@ -170,10 +191,43 @@ export class TopicClusteringEngine {
         logger.debug(`Market "${market.question.substring(0, 50)}..." classified as ${clusterId} (score: ${score}, keywords: ${matchedKeywords})`);
       }
     }
+
+    const learnedTopicId = this.getLearnedTopicId(market.id);
+    if (learnedTopicId && this.clusters.has(learnedTopicId)) {
+      topics.push(learnedTopicId);
+    }
     
     return topics;
   }
 
+  /**
+   * Mirror the current learned clusters; learned keywords are labels only and
+   * are not used for substring matching
+   */
+  private syncLearnedClusters(): void {
+    if (!this.learnedTopics) return;
+
+    const learned = this.learnedTopics.getClusters();
+    const learnedIds = new Set(learned.map(cluster => cluster.id));
+    for (const [clusterId, cluster] of this.clusters) {
+      if (cluster.source === 'learned' && !learnedIds.has(clusterId)) {
+        this.clusters.delete(clusterId);
+      }
+    }
+
+    for (const cluster of learned) {
+      this.clusters.set(cluster.id, {
+        id: cluster.id,
+        name: cluster.label.toUpperCase(),
+        keywords: cluster.keywords,
+        markets: [],
+        correlationMatrix: new Map(),
+        lastUpdated: cluster.updatedAt,
+        source: 'learned'
+      });
+    }
+  }
+
   /**
    * Update statistics for entity clusters
    */
@@ -187,6 +241,13 @@ export class TopicClusteringEngine {
     }
   }
 
+  /**
+   * Topic clusters a market was classified into
+   */
+  getMarketTopics(marketId: string): string[] {
+    return [...(this.marketToTopics.get(marketId) || [])];
+  }
+
   /**
    * Get markets that are correlated within the same topic cluster
    */
@@ -311,6 +372,16 @@ export class TopicClusteringEngine {
       };
     }
 
+    for (const cluster of this.clusters.values()) {
+      if (cluster.source !== 'learned') continue;
+      const totalVolume = cluster.markets.reduce((sum, market) => sum + market.volumeNum, 0);
+      stats[cluster.id] = {
+        marketCount: cluster.markets.length,
+        totalVolume,
+        averageVolume: cluster.markets.length > 0 ? totalVolume / cluster.markets.length : 0
+      };
+    }
+
     return stats;
   }
 
@@ -362,6 +433,7 @@ export class TopicClusteringEngine {
       healthy: activeClusters > 0 && totalMarkets > 0,
       details: {
         totalClusters: this.clusters.size,
+        learnedClusters: Array.from(this.clusters.values()).filter(c => c.source === 'learned').length,
         activeClusters,
         totalClassifiedMarkets: totalMarkets,
         entityClusters: this.entityClusters.size,
@@ -0,0 +1,237 @@
+import { EarlySignal, Market, TickData } from '../types';
+import { fitHawkes, hawkesIntensity, HawkesFit } from '../statistics/HawkesProcess';
+import { advancedLogger as logger } from '../utils/AdvancedLogger';
+
+export interface TradeIntensityConfig {
+  fitWindowMs: number;            // Trades used for the baseline fit
+  maxEventsPerSide: number;
+  minFitEvents: number;           // Trades needed before a side has a baseline
+  refitIntervalMs: number;
+  fitRetryMs: number;             // Wait after a failed fit before trying again
+  burstWindowMs: number;          // Window for the realized intensity
+  minBurstEvents: number;
+  intensityMultiplier: number;    // Realized / fitted stationary intensity that counts as a burst
+  branchingWindowMs: number;      // Window refitted to measure the recent branching ratio
+  minBranchingEvents: number;
+  minBranchingRatio: number;
+  minBranchingIncrease: number;   // Over the fitted baseline branching ratio
+  signalCooldownMs: number;       // Per market and side
+}
+
+export type TradeSide = 'buy' | 'sell';
+
+interface SideState {
+  times: number[];                // Trade timestamps (ms), oldest first
+  observedSince: number;
+  fit: HawkesFit | null;
+  fittedAt: number;               // Last fit attempt, successful or not
+}
+
+const DEFAULT_CONFIG: TradeIntensityConfig = {
+  fitWindowMs: 21600000,          // 6 hours
+  maxEventsPerSide: 2000,
+  minFitEvents: 30,
+  refitIntervalMs: 1800000,       // 30 minutes
+  fitRetryMs: 300000,             // 5 minutes
+  burstWindowMs: 300000,          // 5 minutes
+  minBurstEvents: 5,
+  intensityMultiplier: 4,
+  branchingWindowMs: 900000,      // 15 minutes
+  minBranchingEvents: 15,
+  minBranchingRatio: 0.7,
+  minBranchingIncrease: 0.3,
+  signalCooldownMs: 600000        // 10 minutes
+};
+
+/**
+ * Trade arrival intensity per market and side, modelled as a Hawkes process
+ *
+ * Informed traders split orders and other traders react to them, so trades
+ * cluster: each trade raises the chance of another. A Hawkes fit separates the
+ * background rate (mu) from that self-excitation (the branching ratio). A burst
+ * is flagged when the realized trade rate far exceeds the fitted stationary
+ * intensity, or when a fit on the last few minutes shows much stronger
+ * self-excitation than the baseline - clustering that volume thresholds miss.
+ */
+export class TradeIntensityAnalyzer {
+  private config: TradeIntensityConfig;
+  private markets: Map<string, Record<TradeSide, SideState>> = new Map();
+  private lastSignalTimes: Map<string, number> = new Map();
+
+  constructor(config: Partial<TradeIntensityConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Record a trade and check its side for a burst. Uses the trade timestamp as
+   * the clock so replays and backtests behave like live data.
+   */
+  recordTrade(tick: TickData): EarlySignal | null {
+    const side = this.getOrCreateSide(tick.marketId, tick.side, tick.timestamp);
+    this.pushTime(side, tick.timestamp);
+
+    // EM is not re-run on every trade while a side cannot be fitted
+    const refitAfter = side.fit ? this.config.refitIntervalMs : this.config.fitRetryMs;
+    if (tick.timestamp - side.fittedAt >= refitAfter) {
+      this.refit(side, tick.timestamp);
+    }
+
+    return this.detectBurst(tick.marketId, tick.side, side, tick.timestamp);
+  }
+
+  /**
+   * Fit baselines from stored trades (trade_ticks rows, oldest first) observed since `since`
+   */
+  loadHistory(ticks: TickData[], since: number, now: number = Date.now()): number {
+    for (const tick of ticks) {
+      this.pushTime(this.getOrCreateSide(tick.marketId, tick.side, since), tick.timestamp);
+    }
+
+    let fitted = 0;
+    for (const sides of this.markets.values()) {
+      for (const side of Object.values(sides)) {
+        if (this.refit(side, now)) fitted++;
+      }
+    }
+
+    logger.info(`Fitted trade intensity baselines for ${fitted} market sides from ${ticks.length} trades`, {
+      component: 'trade_intensity',
+      operation: 'load_history',
+      metadata: { trades: ticks.length, fittedSides: fitted }
+    });
+
+    return fitted;
+  }
+
+  getFit(marketId: string, side: TradeSide): HawkesFit | null {
+    return this.markets.get(marketId)?.[side].fit || null;
+  }
+
+  clearMarket(marketId: string): void {
+    this.markets.delete(marketId);
+    this.lastSignalTimes.delete(`${marketId}:buy`);
+    this.lastSignalTimes.delete(`${marketId}:sell`);
+  }
+
+  /**
+   * Get configuration
+   */
+  getConfig(): TradeIntensityConfig {
+    return { ...this.config };
+  }
+
+  private detectBurst(marketId: string, sideName: TradeSide, side: SideState, now: number): EarlySignal | null {
+    const fit = side.fit;
+    if (!fit || fit.stationaryIntensity <= 0) return null;
+
+    const cooldownKey = `${marketId}:${sideName}`;
+    const lastSignal = this.lastSignalTimes.get(cooldownKey);
+    if (lastSignal !== undefined && now - lastSignal < this.config.signalCooldownMs) return null;
+
+    const burstEvents = this.countSince(side.times, now - this.config.burstWindowMs);
+    const realizedIntensity = burstEvents / (this.config.burstWindowMs / 1000);
+    const intensityRatio = realizedIntensity / fit.stationaryIntensity;
+    // The recent branching fit is only worth running while trading is already elevated
+    if (intensityRatio < this.config.intensityMultiplier / 2) return null;
+
+    const intensityBurst = burstEvents >= this.config.minBurstEvents && intensityRatio >= this.config.intensityMultiplier;
+
+    const recentBranchingRatio = this.fitRecentBranchingRatio(side.times, now);
+    const branchingBurst = recentBranchingRatio !== null &&
+      recentBranchingRatio >= this.config.minBranchingRatio &&
+      recentBranchingRatio - fit.alpha >= this.config.minBranchingIncrease;
+
+    if (!intensityBurst && !branchingBurst) return null;
+
+    // Model intensity right after this trade, from events still inside the excitation's reach
+    const reachMs = (10 / fit.beta) * 1000;
+    const recentSeconds = side.times.filter(time => time >= now - reachMs).map(time => (time - now) / 1000);
+    const conditionalIntensity = hawkesIntensity(fit, recentSeconds, 1e-9);
+
+    let confidence = 0.5;
+    if (intensityRatio >= this.config.intensityMultiplier * 2) confidence += 0.2;
+    else if (intensityBurst) confidence += 0.1;
+    if (branchingBurst) confidence += 0.15;
+    if (fit.eventCount >= 200) confidence += 0.05;
+    confidence = Math.min(confidence, 0.95);
+
+    const trigger = intensityBurst && branchingBurst ? 'both' : intensityBurst ? 'intensity' : 'branching';
+
+    logger.info(`🌋 Trade intensity burst: ${marketId.substring(0, 8)}... ${sideName} ` +
+      `${intensityRatio.toFixed(1)}x baseline (${trigger})`, {
+      component: 'trade_intensity',
+      operation: 'detect_burst',
+      metadata: { marketId, side: sideName, intensityRatio, recentBranchingRatio, baselineBranchingRatio: fit.alpha }
+    });
+
+    this.lastSignalTimes.set(cooldownKey, now);
+    return {
+      marketId,
+      market: {} as Market, // Enriched by the bot
+      signalType: 'trade_intensity_burst',
+      timestamp: now,
+      confidence,
+      metadata: {
+        signalSource: 'hawkes',
+        side: sideName,
+        direction: sideName === 'buy' ? 'bullish' : 'bearish',
+        trigger,
+        realizedIntensity,
+        baselineIntensity: fit.stationaryIntensity,
+        intensityRatio,
+        conditionalIntensity,
+        branchingRatio: fit.alpha,
+        recentBranchingRatio,
+        burstEvents,
+        windowMs: this.config.burstWindowMs,
+        hawkes: { mu: fit.mu, alpha: fit.alpha, beta: fit.beta, eventCount: fit.eventCount }
+      }
+    };
+  }
+
+  private fitRecentBranchingRatio(times: number[], now: number): number | null {
+    const windowStart = now - this.config.branchingWindowMs;
+    const recent = times.filter(time => time >= windowStart);
+    if (recent.length < this.config.minBranchingEvents) return null;
+
+    const fit = fitHawkes(recent.map(time => (time - windowStart) / 1000), this.config.branchingWindowMs / 1000);
+    return fit ? fit.alpha : null;
+  }
+
+  private refit(side: SideState, now: number): boolean {
+    const windowStart = Math.max(now - this.config.fitWindowMs, side.observedSince);
+    const times = side.times.filter(time => time >= windowStart);
+    const duration = (now - windowStart) / 1000;
+    if (times.length < this.config.minFitEvents || duration <= 0) return false;
+
+    // A failed refit keeps the previous baseline until the next attempt
+    const fit = fitHawkes(times.map(time => (time - windowStart) / 1000), duration);
+    side.fittedAt = now;
+    if (fit) side.fit = fit;
+    return fit !== null;
+  }
+
+  private pushTime(side: SideState, timestamp: number): void {
+    side.times.push(timestamp);
+    const cutoff = timestamp - this.config.fitWindowMs;
+    while (side.times.length > 0 && (side.times[0] < cutoff || side.times.length > this.config.maxEventsPerSide)) {
+      side.times.shift();
+    }
+  }
+
+  private countSince(times: number[], since: number): number {
+    let count = 0;
+    for (let i = times.length - 1; i >= 0 && times[i] >= since; i--) count++;
+    return count;
+  }
+
+  private getOrCreateSide(marketId: string, side: TradeSide, observedSince: number): SideState {
+    if (!this.markets.has(marketId)) {
+      this.markets.set(marketId, {
+        buy: { times: [], observedSince, fit: null, fittedAt: 0 },
+        sell: { times: [], observedSince, fit: null, fittedAt: 0 }
+      });
+    }
+    return this.markets.get(marketId)![side];
+  }
+}
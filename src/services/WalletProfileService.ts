@@ -0,0 +1,123 @@
+import { DataAccessLayer } from '../data/DataAccessLayer';
+import { TickData, WalletProfile } from '../types';
+import { MarketResolutionService } from './MarketResolutionService';
+import { advancedLogger as logger } from '../utils/AdvancedLogger';
+
+/**
+ * Build wallet track records from attributed trades and settlement payouts.
+ *
+ * Each trade is marked to its outcome's payout: a buy of `size` shares at
+ * `price` realizes size * (payout - price), a sell size * (price - payout).
+ * A market counts as a win for the wallet when its net P&L there is positive.
+ * Trades in markets without a payout are ignored; trades without an outcome
+ * index are taken to be on the first outcome.
+ */
+export function computeWalletProfiles(
+  trades: TickData[],
+  payouts: Map<string, number[]>,
+  now: number = Date.now()
+): WalletProfile[] {
+  // wallet -> market -> net P&L
+  const marketPnl = new Map<string, Map<string, number>>();
+  const volume = new Map<string, number>();
+  const firstTrade = new Map<string, number>();
+  const lastTrade = new Map<string, number>();
+
+  for (const trade of trades) {
+    const payout = payouts.get(trade.marketId);
+    if (!payout || !trade.traderAddress) continue;
+
+    const wallet = trade.traderAddress;
+    const settlement = payout[trade.outcomeIndex ?? 0] ?? 0;
+    const pnl = trade.side === 'buy'
+      ? trade.size * (settlement - trade.price)
+      : trade.size * (trade.price - settlement);
+
+    if (!marketPnl.has(wallet)) marketPnl.set(wallet, new Map());
+    const markets = marketPnl.get(wallet)!;
+    markets.set(trade.marketId, (markets.get(trade.marketId) || 0) + pnl);
+
+    volume.set(wallet, (volume.get(wallet) || 0) + trade.price * trade.size);
+    firstTrade.set(wallet, Math.min(firstTrade.get(wallet) ?? Infinity, trade.timestamp));
+    lastTrade.set(wallet, Math.max(lastTrade.get(wallet) ?? -Infinity, trade.timestamp));
+  }
+
+  return Array.from(marketPnl.entries()).map(([walletAddress, markets]) => {
+    const pnls = Array.from(markets.values());
+    const winningMarkets = pnls.filter(pnl => pnl > 0).length;
+    return {
+      walletAddress,
+      resolvedMarkets: pnls.length,
+      winningMarkets,
+      hitRate: winningMarkets / pnls.length,
+      realizedPnl: pnls.reduce((sum, pnl) => sum + pnl, 0),
+      resolvedVolume: volume.get(walletAddress) || 0,
+      firstTradeAt: firstTrade.get(walletAddress),
+      lastTradeAt: lastTrade.get(walletAddress),
+      updatedAt: now
+    };
+  });
+}
+
+/**
+ * Wallet profile store
+ *
+ * Recomputes every wallet's realized P&L and hit rate from the stored wallet
+ * trades of markets that have an authoritative resolution, and keeps the
+ * result in wallet_profiles so detectors can look up a trader's record.
+ */
+export class WalletProfileService {
+  private dataLayer: DataAccessLayer;
+  private resolutionService: MarketResolutionService;
+  private profiles: Map<string, WalletProfile> = new Map();
+
+  constructor(dataLayer: DataAccessLayer, resolutionService: MarketResolutionService) {
+    this.dataLayer = dataLayer;
+    this.resolutionService = resolutionService;
+  }
+
+  /**
+   * Load stored profiles (no recomputation)
+   */
+  async initialize(): Promise<void> {
+    const stored = await this.dataLayer.getWalletProfiles();
+    this.profiles = new Map(stored.map(profile => [profile.walletAddress, profile]));
+  }
+
+  /**
+   * Recompute all profiles from resolved markets and persist them
+   */
+  async refreshProfiles(now: number = Date.now()): Promise<WalletProfile[]> {
+    const marketIds = await this.dataLayer.getWalletTradeMarketIds();
+    const resolutions = await this.resolutionService.getResolutions(marketIds);
+
+    const payouts = new Map<string, number[]>();
+    for (const [marketId, resolution] of resolutions) {
+      payouts.set(marketId, resolution.outcomePrices);
+    }
+
+    const trades = await this.dataLayer.getWalletTradesForMarkets(Array.from(payouts.keys()));
+    const profiles = computeWalletProfiles(trades, payouts, now);
+    await this.dataLayer.saveWalletProfiles(profiles);
+
+    for (const profile of profiles) {
+      this.profiles.set(profile.walletAddress, profile);
+    }
+
+    logger.info(`Refreshed ${profiles.length} wallet profiles from ${payouts.size} resolved markets`, {
+      component: 'wallet_profiles',
+      operation: 'refresh_profiles',
+      metadata: { wallets: profiles.length, resolvedMarkets: payouts.size, trades: trades.length }
+    });
+
+    return profiles;
+  }
+
+  getProfile(walletAddress: string): WalletProfile | null {
+    return this.profiles.get(walletAddress.toLowerCase()) || null;
+  }
+
+  getProfiles(): WalletProfile[] {
+    return Array.from(this.profiles.values());
+  }
+}
@@ -0,0 +1,240 @@
+import * as fs from 'fs';
+import { Market, TickData } from '../types';
+import { polymarketRateLimiter } from '../utils/RateLimiter';
+import { advancedLogger as logger } from '../utils/AdvancedLogger';
+
+export interface WalletTradeFeedConfig {
+  apiUrl: string;              // Data API trades endpoint (?market=<condition id>)
+  activityUrl: string;         // Data API activity endpoint (?user=<wallet>), for a wallet's first activity
+  filePath?: string;           // Newline-delimited JSON stand-in; replaces the API when set
+  tradesPerRequest: number;
+  pollIntervalMs: number;      // Minimum time between API polls of the same market
+  marketsPerPoll: number;      // API requests per poll
+  requestTimeoutMs: number;
+}
+
+const DEFAULT_CONFIG: WalletTradeFeedConfig = {
+  apiUrl: 'https://data-api.polymarket.com/trades',
+  activityUrl: 'https://data-api.polymarket.com/activity',
+  tradesPerRequest: 100,
+  pollIntervalMs: 5 * 60 * 1000,
+  marketsPerPoll: 10,
+  requestTimeoutMs: 10000
+};
+
+/**
+ * Trader address of a raw trade payload, lowercased, if it names one
+ */
+export function attributedWallet(raw: any): string | undefined {
+  const wallet = raw?.proxyWallet || raw?.trader || raw?.taker_address || raw?.maker_address || raw?.owner;
+  return typeof wallet === 'string' && wallet ? wallet.toLowerCase() : undefined;
+}
+
+/**
+ * Normalize one attributed trade into TickData. Accepts the data API shape
+ * (proxyWallet, outcomeIndex, unix-second timestamps) and the CLOB trades
+ * shape (maker_address / owner, match_time). Returns null without a wallet,
+ * price or size.
+ */
+export function parseAttributedTrade(raw: any, marketId: string): TickData | null {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const traderAddress = attributedWallet(raw);
+  const price = parseFloat(raw.price);
+  const size = parseFloat(raw.size ?? raw.trade_size);
+  if (!traderAddress || !(price > 0) || !(size > 0)) return null;
+
+  const rawTime = raw.timestamp ?? raw.match_time;
+  const numericTime = Number(rawTime);
+  const timestamp = Number.isFinite(numericTime)
+    ? (numericTime < 1e12 ? numericTime * 1000 : numericTime) // Seconds or milliseconds
+    : new Date(rawTime).getTime();
+  if (!Number.isFinite(timestamp)) return null;
+
+  const side: 'buy' | 'sell' = String(raw.side).toLowerCase() === 'sell' ? 'sell' : 'buy';
+  const outcomeIndex = raw.outcomeIndex !== undefined ? Number(raw.outcomeIndex) : undefined;
+
+  return {
+    timestamp,
+    marketId,
+    price,
+    size,
+    volume: size,
+    side,
+    traderAddress,
+    outcomeIndex: Number.isInteger(outcomeIndex) ? outcomeIndex : undefined,
+    tradeId: String(raw.transactionHash || raw.transaction_hash || raw.id ||
+      `${marketId}:${traderAddress}:${timestamp}:${side}:${price}:${size}`)
+  };
+}
+
+/**
+ * Trades attributed to wallets, for smart-money tracking
+ *
+ * The WebSocket trade feed carries no trader addresses, so attributed trades
+ * are polled per market from the Polymarket data API, a few markets per poll
+ * to stay inside the rate limit. When `filePath` is set the feed instead
+ * tails a local newline-delimited JSON file of trades in either payload shape
+ * (each line naming its market by `market`, `conditionId` or `marketId`), so
+ * other sources or recorded data can stand in for the API.
+ *
+ * Trades may repeat across polls; the wallet trade store drops duplicates by tradeId.
+ */
+export class WalletTradeFeed {
+  private config: WalletTradeFeedConfig;
+  private lastPolled: Map<string, number> = new Map();
+  private fileOffset = 0;
+
+  constructor(config: Partial<WalletTradeFeedConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Fetch recent attributed trades for the given markets, oldest first
+   */
+  async fetchTrades(markets: Market[], now: number = Date.now()): Promise<TickData[]> {
+    const trades = this.config.filePath
+      ? await this.readFileTrades(markets)
+      : await this.fetchApiTrades(markets, now);
+
+    return trades.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Time of a wallet's earliest activity on Polymarket, from the data API.
+   * Null in file mode or when the lookup fails.
+   */
+  async fetchFirstActivity(walletAddress: string): Promise<number | null> {
+    if (this.config.filePath) return null;
+
+    try {
+      const response = await polymarketRateLimiter.execute(() => this.fetchWithTimeout(
+        `${this.config.activityUrl}?user=${encodeURIComponent(walletAddress)}&limit=1&sortBy=TIMESTAMP&sortDirection=ASC`
+      ));
+      if (!response.ok) {
+        throw new Error(`Wallet activity request failed: ${response.status}`);
+      }
+
+      const data: any = await response.json();
+      const first = Array.isArray(data) ? data[0] : undefined;
+      const timestamp = Number(first?.timestamp);
+      if (!Number.isFinite(timestamp)) return null;
+      return timestamp < 1e12 ? timestamp * 1000 : timestamp;
+    } catch (error) {
+      logger.warn(`Failed to fetch first activity for ${walletAddress.substring(0, 10)}...`, {
+        component: 'wallet_trade_feed',
+        operation: 'fetch_first_activity',
+        metadata: { walletAddress, error: (error as Error).message }
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Get configuration
+   */
+  getConfig(): WalletTradeFeedConfig {
+    return { ...this.config };
+  }
+
+  private async fetchApiTrades(markets: Market[], now: number): Promise<TickData[]> {
+    const due = markets
+      .filter(market => now - (this.lastPolled.get(market.id) || 0) >= this.config.pollIntervalMs)
+      .sort((a, b) => (this.lastPolled.get(a.id) || 0) - (this.lastPolled.get(b.id) || 0))
+      .slice(0, this.config.marketsPerPoll);
+
+    const trades: TickData[] = [];
+    for (const market of due) {
+      this.lastPolled.set(market.id, now);
+      const conditionId = market.metadata?.conditionId || market.id;
+
+      try {
+        const response = await polymarketRateLimiter.execute(() => this.fetchWithTimeout(
+          `${this.config.apiUrl}?market=${encodeURIComponent(conditionId)}&limit=${this.config.tradesPerRequest}`
+        ));
+        if (!response.ok) {
+          throw new Error(`Wallet trades request failed: ${response.status}`);
+        }
+
+        const data: any = await response.json();
+        for (const raw of Array.isArray(data) ? data : []) {
+          const trade = parseAttributedTrade(raw, market.id);
+          if (trade) trades.push(trade);
+        }
+      } catch (error) {
+        logger.warn(`Failed to fetch wallet trades for ${market.id.substring(0, 8)}...`, {
+          component: 'wallet_trade_feed',
+          operation: 'fetch_api_trades',
+          metadata: { marketId: market.id, error: (error as Error).message }
+        });
+      }
+    }
+
+    return trades;
+  }
+
+  // Read lines appended since the last poll; a truncated or replaced file is read from the start
+  private async readFileTrades(markets: Market[]): Promise<TickData[]> {
+    const filePath = this.config.filePath!;
+    if (!fs.existsSync(filePath)) return [];
+
+    const { size } = await fs.promises.stat(filePath);
+    if (size < this.fileOffset) this.fileOffset = 0;
+    if (size === this.fileOffset) return [];
+
+    const handle = await fs.promises.open(filePath, 'r');
+    let text: string;
+    try {
+      const buffer = Buffer.alloc(size - this.fileOffset);
+      await handle.read(buffer, 0, buffer.length, this.fileOffset);
+      text = buffer.toString('utf8');
+    } finally {
+      await handle.close();
+    }
+
+    // Leave a partially written last line for the next poll
+    const complete = text.lastIndexOf('\n') + 1;
+    this.fileOffset += Buffer.byteLength(text.slice(0, complete), 'utf8');
+
+    const marketIds = new Map<string, string>();
+    for (const market of markets) {
+      marketIds.set(market.id, market.id);
+      if (market.metadata?.conditionId) marketIds.set(market.metadata.conditionId, market.id);
+    }
+
+    const trades: TickData[] = [];
+    let invalid = 0;
+    for (const line of text.slice(0, complete).split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const raw = JSON.parse(line);
+        const marketId = marketIds.get(raw.marketId || raw.market || raw.conditionId);
+        if (!marketId) continue;
+        const trade = parseAttributedTrade(raw, marketId);
+        if (trade) trades.push(trade);
+        else invalid++;
+      } catch {
+        invalid++;
+      }
+    }
+
+    if (invalid > 0) {
+      logger.warn(`Skipped ${invalid} unreadable lines in wallet trade file`, {
+        component: 'wallet_trade_feed',
+        operation: 'read_file_trades',
+        metadata: { filePath, invalid }
+      });
+    }
+
+    return trades;
+  }
+
+  private fetchWithTimeout(url: string): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.requestTimeoutMs);
+
+    return fetch(url, { signal: controller.signal }).finally(() => {
+      clearTimeout(timeoutId);
+    });
+  }
+}
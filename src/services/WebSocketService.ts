@@ -1,5 +1,7 @@
 import WebSocket from 'ws';
 import { TickData, OrderbookData, OrderbookLevel, BotConfig } from '../types';
+import { LocalOrderBook, PriceLevelChange } from './LocalOrderBook';
+import { FeedRecorder, FeedReplaySource, ReplayStats } from './FeedRecorder';
 import { logger } from '../utils/logger';
 
 export interface WebSocketMessage {
@@ -18,6 +20,11 @@ export class WebSocketService {
   private maxReconnectAttempts = 10;
   private subscribedMarkets: Set<string> = new Set();
 
+  // Local L2 books per asset, seeded by 'book' snapshots and updated by 'price_change' deltas
+  private orderBooks: Map<string, LocalOrderBook> = new Map();
+  private lastSnapshotRequest: Map<string, number> = new Map();
+  private readonly SNAPSHOT_REQUEST_COOLDOWN = 5000; // Don't re-request a snapshot more than every 5s per asset
+
   // Rate limiting for message processing
   private messageCount = 0;
   private messageWindow = Date.now();
@@ -27,6 +34,10 @@ export class WebSocketService {
   private readonly MAX_MESSAGE_SIZE = 50000; // 50KB
   private readonly MAX_ORDERBOOK_LEVELS = 100;
 
+  // Feed recording/replay - arrival time of the message currently being processed
+  private recorder: FeedRecorder | null = null;
+  private messageReceivedAt = Date.now();
+
   // Heartbeat settings
   private readonly HEARTBEAT_INTERVAL = 30000; // Send ping every 30 seconds
   private isAlive = false;
@@ -99,7 +110,11 @@ export class WebSocketService {
       });
 
       this.ws.on('message', (data: WebSocket.Data) => {
-        this.handleMessage(data);
+        const receivedAt = Date.now();
+        if (this.recorder) {
+          this.recorder.record(data.toString(), receivedAt);
+        }
+        this.handleMessage(data, receivedAt);
       });
 
       this.ws.on('close', (code: number, reason: string) => {
@@ -107,6 +122,7 @@ export class WebSocketService {
         this.isConnected = false;
         this.isConnecting = false;
         this.stopHeartbeat(); // Stop heartbeat on disconnect
+        this.orderBooks.clear(); // Deltas were missed while disconnected - wait for fresh snapshots
         logger.warn(`WebSocket closed: ${code} - ${reason}`);
 
         if (this.onConnectionHandler) {
@@ -141,6 +157,8 @@ export class WebSocketService {
     this.isConnected = false;
     this.isConnecting = false;
     this.subscribedMarkets.clear();
+    this.orderBooks.clear();
+    this.lastSnapshotRequest.clear();
     logger.info('WebSocket disconnected');
   }
 
@@ -157,17 +175,20 @@ export class WebSocketService {
     }
 
     // Polymarket Real-Time Data Service subscription format
-    // OPTIMIZED: Only subscribe to orderbook data ('book')
-    // - Removed 'price_change' (unused - just logs for debugging)
-    // - Removed 'last_trade_price' (tick handler no longer processes microstructure signals)
-    // - Kept 'book' (critical for microstructure leak detection)
-    // This reduces WebSocket subscriptions by 66% (3 → 1 per market)
+    // - 'book' seeds the local order book with a full snapshot
+    // - 'price_change' carries incremental level updates between snapshots
+    // - 'last_trade_price' is not subscribed (tick handler does not process microstructure signals)
     const subscribeMessage = {
       subscriptions: [
         {
           topic: 'clob_market',
           type: 'book',
           filters: [marketId]
+        },
+        {
+          topic: 'clob_market',
+          type: 'price_change',
+          filters: [marketId]
         }
       ]
     };
@@ -182,19 +203,26 @@ export class WebSocketService {
     if (!this.isConnected) return;
 
     // Polymarket Real-Time Data Service unsubscription format
-    // Only unsubscribe from orderbook data (matching subscribe optimization)
+    // Unsubscribe from the same message types we subscribed to
     const unsubscribeMessage = {
       unsubscriptions: [
         {
           topic: 'clob_market',
           type: 'book',
           filters: [marketId]
+        },
+        {
+          topic: 'clob_market',
+          type: 'price_change',
+          filters: [marketId]
         }
       ]
     };
 
     this.sendMessage(unsubscribeMessage);
     this.subscribedMarkets.delete(marketId);
+    this.orderBooks.delete(marketId);
+    this.lastSnapshotRequest.delete(marketId);
     
     logger.debug(`Unsubscribed from market: ${marketId}`);
   }
@@ -220,6 +248,42 @@ export class WebSocketService {
     return Array.from(this.subscribedMarkets);
   }
 
+  setRecorder(recorder: FeedRecorder | null): void {
+    this.recorder = recorder;
+  }
+
+  getRecorder(): FeedRecorder | null {
+    return this.recorder;
+  }
+
+  /**
+   * Feed a recorded session back through the same parsing path as live messages.
+   * Arrival timestamps from the recording stand in for the wall clock.
+   */
+  async replay(source: FeedReplaySource): Promise<ReplayStats> {
+    return source.replay((raw, receivedAt) => this.handleMessage(raw, receivedAt));
+  }
+
+  getLocalOrderbook(assetId: string): OrderbookData | null {
+    const book = this.orderBooks.get(assetId);
+    return book && book.isSynced() ? book.toOrderbookData(this.MAX_ORDERBOOK_LEVELS) : null;
+  }
+
+  getOrderbookSyncStats(): { books: number; synced: number; deltasApplied: number; gapsDetected: number } {
+    let synced = 0;
+    let deltasApplied = 0;
+    let gapsDetected = 0;
+
+    for (const book of this.orderBooks.values()) {
+      const stats = book.getStats();
+      if (stats.synced) synced++;
+      deltasApplied += stats.deltasApplied;
+      gapsDetected += stats.gapsDetected;
+    }
+
+    return { books: this.orderBooks.size, synced, deltasApplied, gapsDetected };
+  }
+
   // Test connection without subscribing to anything
   async testConnection(): Promise<boolean> {
     try {
@@ -238,12 +302,14 @@ export class WebSocketService {
     return 'wss://ws-live-data.polymarket.com';
   }
 
-  private handleMessage(data: WebSocket.Data): void {
+  private handleMessage(data: WebSocket.Data, receivedAt: number = Date.now()): void {
     try {
+      this.messageReceivedAt = receivedAt;
+
       // Rate limiting check
-      const now = Date.now();
-      if (now - this.messageWindow > 1000) {
-        // Reset window
+      const now = receivedAt;
+      if (now - this.messageWindow > 1000 || now < this.messageWindow) {
+        // Reset window (also when a replayed recording starts before the current window)
         this.messageWindow = now;
         this.messageCount = 0;
       }
@@ -353,7 +419,7 @@ export class WebSocketService {
 
       // Transform Polymarket trade data to our TickData format
       const tick: TickData = {
-        timestamp: data.timestamp ? new Date(data.timestamp).getTime() : Date.now(),
+        timestamp: data.timestamp ? new Date(data.timestamp).getTime() : this.messageReceivedAt,
         marketId: data.market || data.asset_id,
         price,
         volume,
@@ -432,21 +498,14 @@ export class WebSocketService {
         .filter((ask: any) => ask !== null)
         .sort((a: OrderbookLevel, b: OrderbookLevel) => a.price - b.price); // Sort asks ascending
 
-      const bestBid = bids.length > 0 ? bids[0].price : 0;
-      const bestAsk = asks.length > 0 ? asks[0].price : 0;
-      const spread = bestAsk > 0 && bestBid > 0 ? bestAsk - bestBid : 0;
-      const midPrice = bestAsk > 0 && bestBid > 0 ? (bestAsk + bestBid) / 2 : 0;
+      // Seed (or re-seed) the local book for this asset from the full snapshot
+      const assetId = data.asset_id || data.market;
+      const book = this.getOrCreateOrderBook(assetId, data.market || data.asset_id);
+      book.applySnapshot(bids, asks, this.parseTimestamp(data.timestamp), data.hash, this.parseSequence(data));
+      this.lastSnapshotRequest.delete(assetId);
 
-      const orderbook: OrderbookData = {
-        marketId: data.market || data.asset_id,
-        timestamp: data.timestamp ? new Date(data.timestamp).getTime() : Date.now(),
-        bids,
-        asks,
-        spread,
-        midPrice,
-        bestBid,
-        bestAsk,
-      };
+      const orderbook = book.toOrderbookData(this.MAX_ORDERBOOK_LEVELS);
+      const spread = orderbook.spread;
 
       logger.debug(`Orderbook received: ${orderbook.marketId.substring(0, 8)}... ${bids.length} bids, ${asks.length} asks, spread: ${spread.toFixed(4)}`);
       this.onOrderbookHandler(orderbook);
@@ -466,10 +525,152 @@ export class WebSocketService {
   }
 
   private handlePriceChangeMessage(message: any): void {
-    // Price change messages can be used for additional market monitoring
-    // but for now we'll just log them for debugging
-    const data = message.data || message;
-    logger.debug(`Price change: ${(data.market || data.asset_id || 'unknown').substring(0, 8)}...`);
+    try {
+      const data = message.data || message;
+
+      // Two payload shapes are in use:
+      // - per-asset: { asset_id, market, changes: [{ price, side, size }], hash, timestamp }
+      // - batched:   { market, price_changes: [{ asset_id, price, side, size, hash, best_bid, best_ask }], timestamp }
+      const updates = new Map<string, { changes: PriceLevelChange[]; hash?: string; bestBid?: number; bestAsk?: number }>();
+
+      if (Array.isArray(data.price_changes)) {
+        for (const raw of data.price_changes) {
+          const change = this.parseLevelChange(raw);
+          if (!change || !raw.asset_id) continue;
+
+          const update = updates.get(raw.asset_id) || { changes: [] };
+          update.changes.push(change);
+          // The last entry for an asset carries the post-update hash and top-of-book
+          update.hash = raw.hash ?? update.hash;
+          update.bestBid = raw.best_bid !== undefined ? parseFloat(raw.best_bid) : update.bestBid;
+          update.bestAsk = raw.best_ask !== undefined ? parseFloat(raw.best_ask) : update.bestAsk;
+          updates.set(raw.asset_id, update);
+        }
+      } else if (Array.isArray(data.changes) && (data.asset_id || data.market)) {
+        const changes = data.changes
+          .map((raw: any) => this.parseLevelChange(raw))
+          .filter((change: PriceLevelChange | null) => change !== null);
+        updates.set(data.asset_id || data.market, { changes, hash: data.hash });
+      } else {
+        logger.warn('Invalid price_change message: no level changes', data);
+        return;
+      }
+
+      const timestamp = this.parseTimestamp(data.timestamp);
+      const sequence = this.parseSequence(data);
+
+      for (const [assetId, update] of updates) {
+        this.applyPriceChange(assetId, data.market || assetId, update, timestamp, sequence);
+      }
+    } catch (error) {
+      logger.error('Error processing price_change message:', error);
+    }
+  }
+
+  private applyPriceChange(
+    assetId: string,
+    marketId: string,
+    update: { changes: PriceLevelChange[]; hash?: string; bestBid?: number; bestAsk?: number },
+    timestamp: number,
+    sequence?: number
+  ): void {
+    const book = this.orderBooks.get(assetId);
+    if (!book) {
+      // Delta before any snapshot - nothing to apply it to
+      this.requestSnapshot(assetId);
+      return;
+    }
+
+    const result = book.applyDelta(update.changes, {
+      timestamp,
+      hash: update.hash,
+      sequence,
+      bestBid: update.bestBid !== undefined && !isNaN(update.bestBid) ? update.bestBid : undefined,
+      bestAsk: update.bestAsk !== undefined && !isNaN(update.bestAsk) ? update.bestAsk : undefined,
+    });
+
+    switch (result) {
+      case 'applied':
+        logger.debug(`Price change applied: ${marketId.substring(0, 8)}... ${update.changes.length} levels`);
+        if (this.onOrderbookHandler) {
+          this.onOrderbookHandler(book.toOrderbookData(this.MAX_ORDERBOOK_LEVELS));
+        }
+        break;
+      case 'gap':
+        logger.warn(`Order book out of sync for ${assetId.substring(0, 8)}..., requesting snapshot`);
+        this.requestSnapshot(assetId);
+        break;
+      case 'no_snapshot':
+        this.requestSnapshot(assetId);
+        break;
+      case 'duplicate':
+      case 'stale':
+        logger.debug(`Ignoring ${result} price change for ${assetId.substring(0, 8)}...`);
+        break;
+    }
+  }
+
+  private parseLevelChange(raw: any): PriceLevelChange | null {
+    const price = parseFloat(raw.price);
+    const size = parseFloat(raw.size);
+    const side = typeof raw.side === 'string' ? raw.side.toLowerCase() : '';
+
+    if (isNaN(price) || isNaN(size) || price <= 0 || size < 0 || (side !== 'buy' && side !== 'sell')) {
+      return null;
+    }
+
+    return { price, size, side };
+  }
+
+  private getOrCreateOrderBook(assetId: string, marketId: string): LocalOrderBook {
+    let book = this.orderBooks.get(assetId);
+    if (!book) {
+      book = new LocalOrderBook(assetId, marketId);
+      this.orderBooks.set(assetId, book);
+    }
+    return book;
+  }
+
+  /**
+   * Re-request a full book snapshot for an asset by cycling its 'book' subscription.
+   * The server replies to a fresh subscription with the current snapshot.
+   */
+  private requestSnapshot(assetId: string): void {
+    const now = Date.now();
+    const lastRequest = this.lastSnapshotRequest.get(assetId) || 0;
+    if (now - lastRequest < this.SNAPSHOT_REQUEST_COOLDOWN) return;
+    if (!this.isConnected) return;
+
+    this.lastSnapshotRequest.set(assetId, now);
+    this.orderBooks.get(assetId)?.invalidate();
+
+    this.sendMessage({
+      unsubscriptions: [{ topic: 'clob_market', type: 'book', filters: [assetId] }]
+    });
+    this.sendMessage({
+      subscriptions: [{ topic: 'clob_market', type: 'book', filters: [assetId] }]
+    });
+
+    logger.debug(`Requested order book snapshot for ${assetId.substring(0, 8)}...`);
+  }
+
+  private parseTimestamp(value: any): number {
+    if (value === undefined || value === null || value === '') return this.messageReceivedAt;
+
+    // Numeric epoch (ms) may arrive as a number or a numeric string
+    const numeric = Number(value);
+    if (!isNaN(numeric)) return numeric;
+
+    const parsed = new Date(value).getTime();
+    return isNaN(parsed) ? this.messageReceivedAt : parsed;
+  }
+
+  private parseSequence(data: any): number | undefined {
+    const raw = data.seq ?? data.sequence;
+    if (raw === undefined || raw === null) return undefined;
+
+    const sequence = Number(raw);
+    return isNaN(sequence) ? undefined : sequence;
   }
 
   private handleErrorMessage(message: any): void {
@@ -31,6 +31,7 @@ export interface MultivariateFeatures {
   imbalance: number;
   microPrice: number;
   volatility: number;
+  vpin?: number;          // Undefined until the market's VPIN buckets have filled
   timestamp: number;
 }
 
@@ -43,8 +44,12 @@ export class AnomalyDetector {
   private correlationMatrix = new Map<string, number[][]>();
   private covarianceMatrix = new Map<string, number[][]>();
   
+  // Last regime epoch seen per market (see EnhancedMicrostructureAnalyzer)
+  private regimeEpochs = new Map<string, number>();
+  
   // Isolation Forest simplified implementation
   private isolationTrees = new Map<string, IsolationTree[]>();
+  private isolationTreesWithVpin = new Map<string, boolean>();
   private readonly NUM_TREES = 100;
   private readonly SUBSAMPLE_SIZE = 256;
 
@@ -156,6 +161,19 @@ export class AnomalyDetector {
     };
   }
 
+  /**
+   * Drop a market's regime baselines and multivariate history once it is no longer tracked
+   */
+  clearMarket(marketId: string): void {
+    this.statisticalModels.clearRegimeBaselines(marketId);
+    this.regimeEpochs.delete(marketId);
+    this.featureHistory.delete(marketId);
+    this.correlationMatrix.delete(marketId);
+    this.covarianceMatrix.delete(marketId);
+    this.isolationTrees.delete(marketId);
+    this.isolationTreesWithVpin.delete(marketId);
+  }
+
   /**
    * Get market risk assessment based on recent anomaly patterns
    */
@@ -238,15 +256,21 @@ export class AnomalyDetector {
   // Private methods
 
   private updateStatisticalModels(marketId: string, metrics: EnhancedMicrostructureMetrics): void {
+    // Regime baselines from before a structural break no longer apply
+    if (metrics.regime && metrics.regime.epoch !== this.regimeEpochs.get(marketId)) {
+      this.statisticalModels.clearRegimeBaselines(marketId);
+      this.regimeEpochs.set(marketId, metrics.regime.epoch);
+    }
+    
     // Add data points to statistical models
-    this.statisticalModels.addDataPoint(marketId, 'volume', metrics.volumeZScore); // Use raw volume if available
-    this.statisticalModels.addDataPoint(marketId, 'depth', metrics.depth1Total);
-    this.statisticalModels.addDataPoint(marketId, 'spread', metrics.spreadBps);
-    this.statisticalModels.addDataPoint(marketId, 'imbalance', metrics.orderBookImbalance);
-    this.statisticalModels.addDataPoint(marketId, 'price', metrics.microPrice);
+    this.statisticalModels.addDataPoint(marketId, 'volume', metrics.volumeZScore, metrics.regime); // Use raw volume if available
+    this.statisticalModels.addDataPoint(marketId, 'depth', metrics.depth1Total, metrics.regime);
+    this.statisticalModels.addDataPoint(marketId, 'spread', metrics.spreadBps, metrics.regime);
+    this.statisticalModels.addDataPoint(marketId, 'imbalance', metrics.orderBookImbalance, metrics.regime);
+    this.statisticalModels.addDataPoint(marketId, 'price', metrics.microPrice, metrics.regime);
     
     // Update time-of-day baselines
-    this.statisticalModels.updateTimeOfDayBaselines(marketId, metrics.timestamp);
+    this.statisticalModels.updateTimeOfDayBaselines(marketId, metrics.timestamp, metrics.regime);
   }
 
   private extractFeatures(metrics: EnhancedMicrostructureMetrics): MultivariateFeatures {
@@ -257,6 +281,7 @@ export class AnomalyDetector {
       imbalance: metrics.orderBookImbalance,
       microPrice: metrics.microPrice,
       volatility: Math.abs(metrics.microPriceDrift),
+      vpin: metrics.vpin,
       timestamp: metrics.timestamp
     };
   }
@@ -284,28 +309,35 @@ export class AnomalyDetector {
     const results = new Map<string, ZScoreResult>();
     
     // Use time-adjusted Z-scores for better anomaly detection
-    results.set('volume', this.statisticalModels.calculateTimeAdjustedZScore(marketId, 'volume', metrics.volumeZScore, metrics.timestamp));
-    results.set('depth', this.statisticalModels.calculateTimeAdjustedZScore(marketId, 'depth', metrics.depth1Total, metrics.timestamp));
-    results.set('spread', this.statisticalModels.calculateTimeAdjustedZScore(marketId, 'spread', metrics.spreadBps, metrics.timestamp));
-    results.set('imbalance', this.statisticalModels.calculateTimeAdjustedZScore(marketId, 'imbalance', metrics.orderBookImbalance, metrics.timestamp));
-    results.set('price', this.statisticalModels.calculateTimeAdjustedZScore(marketId, 'price', metrics.microPrice, metrics.timestamp));
+    results.set('volume', this.statisticalModels.calculateTimeAdjustedZScore(marketId, 'volume', metrics.volumeZScore, metrics.timestamp, metrics.regime));
+    results.set('depth', this.statisticalModels.calculateTimeAdjustedZScore(marketId, 'depth', metrics.depth1Total, metrics.timestamp, metrics.regime));
+    results.set('spread', this.statisticalModels.calculateTimeAdjustedZScore(marketId, 'spread', metrics.spreadBps, metrics.timestamp, metrics.regime));
+    results.set('imbalance', this.statisticalModels.calculateTimeAdjustedZScore(marketId, 'imbalance', metrics.orderBookImbalance, metrics.timestamp, metrics.regime));
+    results.set('price', this.statisticalModels.calculateTimeAdjustedZScore(marketId, 'price', metrics.microPrice, metrics.timestamp, metrics.regime));
     
     return results;
   }
 
   private calculateMahalanobisDistance(marketId: string, features: MultivariateFeatures): number {
-    const covMatrix = this.covarianceMatrix.get(marketId);
+    let covMatrix = this.covarianceMatrix.get(marketId);
     const history = this.featureHistory.get(marketId) || [];
     
     if (!covMatrix || history.length < this.config.minSampleSize) {
       return 0;
     }
 
+    // Refit when VPIN joined or left the window since the last covariance update
+    const withVpin = this.hasVpin(history);
+    if (covMatrix.length !== this.featureVector(features, withVpin).length) {
+      this.updateCovarianceMatrix(marketId, history);
+      covMatrix = this.covarianceMatrix.get(marketId)!;
+    }
+
     // Calculate mean vector
-    const means = this.calculateMeanVector(history);
+    const means = this.calculateMeanVector(history, withVpin);
     
     // Feature vector (excluding timestamp)
-    const x = [features.volume, features.depth, features.spread, features.imbalance, features.microPrice, features.volatility];
+    const x = this.featureVector(features, withVpin);
     
     // Calculate difference from mean
     const diff = x.map((val, i) => val - means[i]);
@@ -324,19 +356,21 @@ export class AnomalyDetector {
   private calculateIsolationForestScore(marketId: string, features: MultivariateFeatures): number {
     let trees = this.isolationTrees.get(marketId);
     const history = this.featureHistory.get(marketId) || [];
+    const withVpin = this.hasVpin(history);
     
-    if (!trees || history.length < this.config.minSampleSize) {
+    if (!trees || history.length < this.config.minSampleSize || this.isolationTreesWithVpin.get(marketId) !== withVpin) {
       if (history.length >= this.config.minSampleSize) {
-        // Build new isolation forest
-        trees = this.buildIsolationForest(history);
+        // Build new isolation forest (again once VPIN covers the whole window)
+        trees = this.buildIsolationForest(history, withVpin);
         this.isolationTrees.set(marketId, trees);
+        this.isolationTreesWithVpin.set(marketId, withVpin);
       } else {
         return 0;
       }
     }
 
     // Calculate anomaly score
-    const x = [features.volume, features.depth, features.spread, features.imbalance, features.microPrice, features.volatility];
+    const x = this.featureVector(features, withVpin);
     let totalPathLength = 0;
     
     for (const tree of trees) {
@@ -487,23 +521,35 @@ export class AnomalyDetector {
 
   // Matrix operations and helper methods
   
+  /**
+   * Feature values (excluding timestamp). VPIN is only included once every
+   * sample in the window has it: a zero-filled column while buckets fill would
+   * make the covariance singular and spike the scores when VPIN first appears.
+   */
+  private featureVector(h: MultivariateFeatures, withVpin: boolean): number[] {
+    const x = [h.volume, h.depth, h.spread, h.imbalance, h.microPrice, h.volatility];
+    return withVpin ? [...x, h.vpin ?? 0] : x;
+  }
+
+  private hasVpin(history: MultivariateFeatures[]): boolean {
+    return history.length > 0 && history.every(h => h.vpin !== undefined);
+  }
+
   private updateCovarianceMatrix(marketId: string, history: MultivariateFeatures[]): void {
-    const features = history.map(h => [h.volume, h.depth, h.spread, h.imbalance, h.microPrice, h.volatility]);
+    const withVpin = this.hasVpin(history);
+    const features = history.map(h => this.featureVector(h, withVpin));
     const covMatrix = this.calculateCovarianceMatrix(features);
     this.covarianceMatrix.set(marketId, covMatrix);
   }
 
-  private calculateMeanVector(history: MultivariateFeatures[]): number[] {
+  private calculateMeanVector(history: MultivariateFeatures[], withVpin: boolean): number[] {
     const n = history.length;
-    const sums = [0, 0, 0, 0, 0, 0];
+    const sums = withVpin ? [0, 0, 0, 0, 0, 0, 0] : [0, 0, 0, 0, 0, 0];
     
     for (const h of history) {
-      sums[0] += h.volume;
-      sums[1] += h.depth;
-      sums[2] += h.spread;
-      sums[3] += h.imbalance;
-      sums[4] += h.microPrice;
-      sums[5] += h.volatility;
+      this.featureVector(h, withVpin).forEach((value, i) => {
+        sums[i] += value;
+      });
     }
     
     return sums.map(sum => sum / n);
@@ -629,9 +675,9 @@ export class AnomalyDetector {
     return result;
   }
 
-  private buildIsolationForest(history: MultivariateFeatures[]): IsolationTree[] {
+  private buildIsolationForest(history: MultivariateFeatures[], withVpin: boolean): IsolationTree[] {
     const trees: IsolationTree[] = [];
-    const features = history.map(h => [h.volume, h.depth, h.spread, h.imbalance, h.microPrice, h.volatility]);
+    const features = history.map(h => this.featureVector(h, withVpin));
     
     for (let i = 0; i < this.NUM_TREES; i++) {
       // Random subsample
@@ -0,0 +1,156 @@
+/**
+ * Univariate Hawkes (self-exciting) point process with an exponential kernel.
+ *
+ * Conditional intensity: lambda(t) = mu + sum over past events t_i of alpha * beta * exp(-beta * (t - t_i)).
+ * alpha is the branching ratio (expected events triggered by each event) and
+ * must stay below 1 for the process to be stationary, in which case the
+ * long-run intensity is mu / (1 - alpha). Times are in seconds.
+ *
+ * Parameters are fitted by expectation-maximisation for mu and alpha at each
+ * decay rate beta on a grid, keeping the beta with the highest log-likelihood.
+ * Every pass uses the O(n) recursion A_i = exp(-beta * (t_i - t_{i-1})) * (1 + A_{i-1}).
+ */
+
+export interface HawkesParams {
+  mu: number;       // Background intensity (events per second)
+  alpha: number;    // Branching ratio
+  beta: number;     // Decay rate of the excitation (per second)
+}
+
+export interface HawkesFit extends HawkesParams {
+  logLikelihood: number;
+  eventCount: number;
+  duration: number;             // Observation window in seconds
+  stationaryIntensity: number;  // mu / (1 - alpha)
+}
+
+export interface HawkesFitOptions {
+  betaGrid: number[];
+  maxIterations: number;
+  tolerance: number;            // Stop when the log-likelihood improves by less than this
+  maxBranchingRatio: number;
+}
+
+const DEFAULT_FIT_OPTIONS: HawkesFitOptions = {
+  betaGrid: [1 / 600, 1 / 120, 1 / 30, 1 / 10, 1],  // Excitation half-lives from about 7 minutes down to under a second
+  maxIterations: 100,
+  tolerance: 1e-6,
+  maxBranchingRatio: 0.99
+};
+
+/**
+ * Log-likelihood of sorted event times on [0, duration]
+ */
+export function hawkesLogLikelihood(times: number[], duration: number, params: HawkesParams): number {
+  const { mu, alpha, beta } = params;
+  let logSum = 0;
+  let recursion = 0;
+
+  for (let i = 0; i < times.length; i++) {
+    if (i > 0) recursion = Math.exp(-beta * (times[i] - times[i - 1])) * (1 + recursion);
+    logSum += Math.log(mu + alpha * beta * recursion);
+  }
+
+  return logSum - mu * duration - alpha * compensatorSum(times, duration, beta);
+}
+
+/**
+ * Fit mu, alpha and beta to sorted event times on [0, duration].
+ * Returns null with fewer than two events or an empty window.
+ */
+export function fitHawkes(times: number[], duration: number, options: Partial<HawkesFitOptions> = {}): HawkesFit | null {
+  const opts = { ...DEFAULT_FIT_OPTIONS, ...options };
+  const n = times.length;
+  if (n < 2 || duration <= 0) return null;
+
+  let best: HawkesFit | null = null;
+
+  for (const beta of opts.betaGrid) {
+    const compensator = compensatorSum(times, duration, beta);
+    let mu = (n / duration) * 0.5;
+    let alpha = 0.5;
+    let logLikelihood = -Infinity;
+
+    for (let iteration = 0; iteration < opts.maxIterations; iteration++) {
+      // E-step: split each event between the background and its predecessors
+      let background = 0;
+      let triggered = 0;
+      let recursion = 0;
+      for (let i = 0; i < n; i++) {
+        if (i > 0) recursion = Math.exp(-beta * (times[i] - times[i - 1])) * (1 + recursion);
+        const excitation = alpha * beta * recursion;
+        const intensity = mu + excitation;
+        background += mu / intensity;
+        triggered += excitation / intensity;
+      }
+
+      // M-step
+      mu = Math.max(background / duration, 1e-12);
+      alpha = compensator > 0 ? Math.min(triggered / compensator, opts.maxBranchingRatio) : 0;
+
+      const next = hawkesLogLikelihood(times, duration, { mu, alpha, beta });
+      const converged = Math.abs(next - logLikelihood) < opts.tolerance;
+      logLikelihood = next;
+      if (converged) break;
+    }
+
+    if (!best || logLikelihood > best.logLikelihood) {
+      best = {
+        mu,
+        alpha,
+        beta,
+        logLikelihood,
+        eventCount: n,
+        duration,
+        stationaryIntensity: mu / (1 - alpha)
+      };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Conditional intensity at time t given the events before it
+ */
+export function hawkesIntensity(params: HawkesParams, times: number[], t: number): number {
+  let excitation = 0;
+  for (const time of times) {
+    if (time >= t) break;
+    excitation += Math.exp(-params.beta * (t - time));
+  }
+  return params.mu + params.alpha * params.beta * excitation;
+}
+
+/**
+ * Simulate event times on [0, duration] by Ogata thinning (for tests and diagnostics)
+ */
+export function simulateHawkes(params: HawkesParams, duration: number, random: () => number = Math.random): number[] {
+  const times: number[] = [];
+  let t = 0;
+  let excitation = 0; // Sum of exp(-beta * (t - t_i)) at time t
+
+  while (t < duration) {
+    const upperBound = params.mu + params.alpha * params.beta * excitation;
+    const wait = -Math.log(1 - random()) / upperBound;
+    excitation *= Math.exp(-params.beta * wait);
+    t += wait;
+    if (t >= duration) break;
+
+    if (random() * upperBound <= params.mu + params.alpha * params.beta * excitation) {
+      times.push(t);
+      excitation += 1;
+    }
+  }
+
+  return times;
+}
+
+// Sum over events of the kernel mass inside the window, 1 - exp(-beta * (duration - t_i))
+function compensatorSum(times: number[], duration: number, beta: number): number {
+  let sum = 0;
+  for (const time of times) {
+    sum += 1 - Math.exp(-beta * (duration - time));
+  }
+  return sum;
+}
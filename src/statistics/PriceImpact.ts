@@ -0,0 +1,168 @@
+import { TickData } from '../types';
+
+/**
+ * Price impact per market: Kyle's lambda and Amihud illiquidity.
+ *
+ * The window is cut into fixed intervals. Each interval's net signed notional
+ * (buys minus sells, price * size) is regressed against the mid-price change
+ * over the same interval, delta mid = a + lambda * signed notional, so lambda is
+ * the probability move per dollar of one-sided flow. Amihud is the mean
+ * absolute mid return per dollar traded, a cruder measure that needs no trade
+ * direction. Prices are probabilities, so impact in bps is bps of the 0-1
+ * price scale, as with spreads. Impact in bps is only reported when the
+ * regression is significant; a noisy lambda is no better than no estimate.
+ */
+
+export interface MidPricePoint {
+  timestamp: number;
+  midPrice: number;
+}
+
+export interface ImpactInterval {
+  start: number;
+  signedVolume: number;   // Buy minus sell notional
+  volume: number;         // Total notional
+  startPrice: number;     // Mid at the start of the interval
+  priceChange: number;    // Mid change over the interval
+}
+
+export interface PriceImpactOptions {
+  intervalMs: number;
+  minIntervals: number;   // Intervals with trades needed for an estimate
+  minLambdaTStat: number; // Lambda t-statistic needed to report impact in bps
+  minRSquared: number;    // Share of mid variance flow must explain to report impact in bps
+}
+
+export interface PriceImpactEstimate {
+  marketId: string;
+  kyleLambda: number;       // Mid change per dollar of net signed notional
+  lambdaTStat: number;
+  rSquared: number;
+  amihud: number;           // Mean absolute mid return per $1k traded, in bps
+  impactBpsPer1k?: number;  // Expected move from $1k of one-sided flow, in bps (undefined unless lambda is significant)
+  intervals: number;
+  windowStart: number;
+  windowEnd: number;
+}
+
+const DEFAULT_OPTIONS: PriceImpactOptions = {
+  intervalMs: 300000,       // 5 minutes
+  minIntervals: 10,
+  minLambdaTStat: 2,
+  minRSquared: 0.1
+};
+
+/**
+ * Aggregate trades into intervals over [windowStart, windowEnd). Mids come
+ * from orderbook snapshots when available, otherwise from the last trade price.
+ * Intervals without trades or without a known mid at both ends are skipped.
+ */
+export function buildImpactIntervals(
+  trades: TickData[],
+  mids: MidPricePoint[],
+  windowStart: number,
+  windowEnd: number,
+  intervalMs: number = DEFAULT_OPTIONS.intervalMs
+): ImpactInterval[] {
+  const sortedTrades = [...trades].sort((a, b) => a.timestamp - b.timestamp);
+  const priceSeries = mids.length > 0
+    ? [...mids].sort((a, b) => a.timestamp - b.timestamp)
+    : sortedTrades.map(trade => ({ timestamp: trade.timestamp, midPrice: trade.price }));
+
+  const intervals: ImpactInterval[] = [];
+  let tradeIndex = 0;
+  let priceIndex = 0;
+  let lastPrice: number | null = null;
+
+  // Advance the price cursor to the last point at or before `time`
+  const priceAt = (time: number): number | null => {
+    while (priceIndex < priceSeries.length && priceSeries[priceIndex].timestamp <= time) {
+      lastPrice = priceSeries[priceIndex].midPrice;
+      priceIndex++;
+    }
+    return lastPrice;
+  };
+
+  while (tradeIndex < sortedTrades.length && sortedTrades[tradeIndex].timestamp < windowStart) tradeIndex++;
+
+  for (let start = windowStart; start < windowEnd; start += intervalMs) {
+    const end = Math.min(start + intervalMs, windowEnd);
+    const startPrice = priceAt(start);
+
+    let signedVolume = 0;
+    let volume = 0;
+    while (tradeIndex < sortedTrades.length && sortedTrades[tradeIndex].timestamp < end) {
+      const trade = sortedTrades[tradeIndex++];
+      const notional = trade.price * trade.size;
+      signedVolume += trade.side === 'buy' ? notional : -notional;
+      volume += notional;
+    }
+
+    const endPrice = priceAt(end);
+    if (volume > 0 && startPrice !== null && endPrice !== null) {
+      intervals.push({ start, signedVolume, volume, startPrice, priceChange: endPrice - startPrice });
+    }
+  }
+
+  return intervals;
+}
+
+/**
+ * Estimate Kyle's lambda and Amihud illiquidity for one market.
+ * Returns null with too few intervals or no variation in signed flow.
+ */
+export function estimatePriceImpact(
+  marketId: string,
+  trades: TickData[],
+  mids: MidPricePoint[],
+  windowStart: number,
+  windowEnd: number,
+  options: Partial<PriceImpactOptions> = {}
+): PriceImpactEstimate | null {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const intervals = buildImpactIntervals(trades, mids, windowStart, windowEnd, opts.intervalMs);
+  const n = intervals.length;
+  if (n < opts.minIntervals) return null;
+
+  const meanFlow = intervals.reduce((sum, interval) => sum + interval.signedVolume, 0) / n;
+  const meanChange = intervals.reduce((sum, interval) => sum + interval.priceChange, 0) / n;
+
+  let flowVariance = 0;
+  let covariance = 0;
+  let changeVariance = 0;
+  for (const interval of intervals) {
+    const flowDeviation = interval.signedVolume - meanFlow;
+    const changeDeviation = interval.priceChange - meanChange;
+    flowVariance += flowDeviation * flowDeviation;
+    covariance += flowDeviation * changeDeviation;
+    changeVariance += changeDeviation * changeDeviation;
+  }
+  if (flowVariance <= 0) return null;
+
+  const kyleLambda = covariance / flowVariance;
+  const residualSumSquares = Math.max(0, changeVariance - kyleLambda * covariance);
+  const standardError = Math.sqrt(residualSumSquares / Math.max(1, n - 2) / flowVariance);
+  const lambdaTStat = standardError > 0 ? kyleLambda / standardError : 0;
+  const rSquared = changeVariance > 0 ? (kyleLambda * covariance) / changeVariance : 0;
+
+  // An exact fit has no standard error; its lambda only needs to be positive
+  const significant = rSquared >= opts.minRSquared &&
+    (standardError > 0 ? lambdaTStat >= opts.minLambdaTStat : kyleLambda > 0);
+
+  const amihud = intervals.reduce((sum, interval) => {
+    const absoluteReturn = interval.startPrice > 0 ? Math.abs(interval.priceChange / interval.startPrice) : 0;
+    return sum + absoluteReturn / interval.volume;
+  }, 0) / n * 1000 * 10000;
+
+  return {
+    marketId,
+    kyleLambda,
+    lambdaTStat,
+    rSquared,
+    amihud,
+    impactBpsPer1k: significant ? kyleLambda * 1000 * 10000 : undefined,
+    intervals: n,
+    windowStart,
+    windowEnd
+  };
+}
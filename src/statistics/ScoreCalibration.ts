@@ -0,0 +1,232 @@
+/**
+ * Score calibration: maps heuristic scores to empirical probabilities.
+ *
+ * Isotonic regression (pool-adjacent-violators) fits a monotone step curve and
+ * needs a fair amount of data; Platt scaling fits a two-parameter sigmoid and is
+ * the better choice for small samples. Brier score and reliability diagrams
+ * measure how well predicted probabilities match observed frequencies.
+ */
+
+export type CalibrationMethod = 'isotonic' | 'platt';
+
+export interface CalibrationSample {
+  score: number;
+  outcome: boolean;
+}
+
+export interface CalibrationCurve {
+  method: CalibrationMethod;
+  // Isotonic: monotone knots (mean score of each pooled block -> observed rate), interpolated linearly
+  points: Array<{ score: number; probability: number }>;
+  // Platt: p = 1 / (1 + exp(a * score + b))
+  platt?: { a: number; b: number };
+  sampleSize: number;
+  baseRate: number;
+  fittedAt: number;
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number;
+  observedRate: number;
+}
+
+export interface CalibrationReport {
+  sampleSize: number;
+  baseRate: number;
+  brierScore: number;
+  reliability: ReliabilityBin[];
+}
+
+export interface ProbabilityOutcome {
+  probability: number;
+  outcome: boolean;
+}
+
+/**
+ * Fit an isotonic (monotone non-decreasing) calibration curve
+ */
+export function fitIsotonic(samples: CalibrationSample[]): CalibrationCurve {
+  // Pool identical scores first so ties cannot end up in different blocks
+  const byScore = new Map<number, { positives: number; count: number }>();
+  for (const sample of samples) {
+    const entry = byScore.get(sample.score) || { positives: 0, count: 0 };
+    entry.positives += sample.outcome ? 1 : 0;
+    entry.count++;
+    byScore.set(sample.score, entry);
+  }
+
+  const blocks: Array<{ scoreSum: number; positives: number; count: number }> = [];
+  for (const [score, entry] of Array.from(byScore.entries()).sort((a, b) => a[0] - b[0])) {
+    blocks.push({ scoreSum: score * entry.count, positives: entry.positives, count: entry.count });
+
+    // Merge backwards while the previous block's rate is not below the new one
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      if (previous.positives / previous.count < last.positives / last.count) break;
+
+      previous.scoreSum += last.scoreSum;
+      previous.positives += last.positives;
+      previous.count += last.count;
+      blocks.pop();
+    }
+  }
+
+  return {
+    method: 'isotonic',
+    points: blocks.map(block => ({ score: block.scoreSum / block.count, probability: block.positives / block.count })),
+    sampleSize: samples.length,
+    baseRate: baseRate(samples),
+    fittedAt: Date.now()
+  };
+}
+
+/**
+ * Fit Platt scaling by Newton's method on the log loss, using Platt's smoothed
+ * targets so a perfectly separable sample does not push the sigmoid to a step
+ */
+export function fitPlatt(samples: CalibrationSample[], maxIterations: number = 100): CalibrationCurve {
+  const positives = samples.filter(s => s.outcome).length;
+  const negatives = samples.length - positives;
+  const targetPositive = (positives + 1) / (positives + 2);
+  const targetNegative = 1 / (negatives + 2);
+  const targets = samples.map(s => (s.outcome ? targetPositive : targetNegative));
+
+  const loss = (a: number, b: number): number => samples.reduce((sum, sample, i) => {
+    const f = a * sample.score + b;
+    const logOnePlusExp = f > 0 ? f + Math.log1p(Math.exp(-f)) : Math.log1p(Math.exp(f));
+    return sum + logOnePlusExp - (1 - targets[i]) * f;
+  }, 0);
+
+  let a = 0;
+  let b = Math.log((negatives + 1) / (positives + 1));
+  let currentLoss = loss(a, b);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let gradA = 0;
+    let gradB = 0;
+    let h11 = 1e-12;
+    let h22 = 1e-12;
+    let h21 = 0;
+
+    samples.forEach((sample, i) => {
+      const p = 1 / (1 + Math.exp(a * sample.score + b));
+      const d = targets[i] - p;
+      const w = p * (1 - p);
+      gradA += sample.score * d;
+      gradB += d;
+      h11 += sample.score * sample.score * w;
+      h22 += w;
+      h21 += sample.score * w;
+    });
+
+    if (Math.abs(gradA) < 1e-6 && Math.abs(gradB) < 1e-6) break;
+
+    const det = h11 * h22 - h21 * h21;
+    const stepA = -(h22 * gradA - h21 * gradB) / det;
+    const stepB = -(-h21 * gradA + h11 * gradB) / det;
+
+    // Backtracking line search keeps every step a descent step
+    let stepSize = 1;
+    let improved = false;
+    while (stepSize >= 1e-10) {
+      const nextLoss = loss(a + stepSize * stepA, b + stepSize * stepB);
+      if (nextLoss < currentLoss + 1e-4 * stepSize * (gradA * stepA + gradB * stepB)) {
+        a += stepSize * stepA;
+        b += stepSize * stepB;
+        currentLoss = nextLoss;
+        improved = true;
+        break;
+      }
+      stepSize /= 2;
+    }
+    if (!improved) break;
+  }
+
+  return {
+    method: 'platt',
+    points: [],
+    platt: { a, b },
+    sampleSize: samples.length,
+    baseRate: baseRate(samples),
+    fittedAt: Date.now()
+  };
+}
+
+export function fitCalibration(samples: CalibrationSample[], method: CalibrationMethod = 'isotonic'): CalibrationCurve {
+  return method === 'platt' ? fitPlatt(samples) : fitIsotonic(samples);
+}
+
+/**
+ * Calibrated probability for a raw score
+ */
+export function applyCalibration(curve: CalibrationCurve, score: number): number {
+  if (curve.method === 'platt' && curve.platt) {
+    return 1 / (1 + Math.exp(curve.platt.a * score + curve.platt.b));
+  }
+
+  const points = curve.points;
+  if (points.length === 0) return curve.baseRate;
+  if (score <= points[0].score) return points[0].probability;
+  if (score >= points[points.length - 1].score) return points[points.length - 1].probability;
+
+  let upper = 1;
+  while (points[upper].score < score) upper++;
+  const lower = points[upper - 1];
+  const t = (score - lower.score) / (points[upper].score - lower.score);
+  return lower.probability + t * (points[upper].probability - lower.probability);
+}
+
+/**
+ * Mean squared error between predicted probabilities and 0/1 outcomes (lower is better)
+ */
+export function brierScore(predictions: ProbabilityOutcome[]): number {
+  if (predictions.length === 0) return 0;
+  return predictions.reduce((sum, p) => sum + Math.pow(p.probability - (p.outcome ? 1 : 0), 2), 0) / predictions.length;
+}
+
+/**
+ * Reliability diagram over equal-width probability bins; empty bins are omitted
+ */
+export function reliabilityDiagram(predictions: ProbabilityOutcome[], bins: number = 10): ReliabilityBin[] {
+  const buckets = Array.from({ length: bins }, (_, i) => ({
+    lower: i / bins,
+    upper: (i + 1) / bins,
+    count: 0,
+    predictedSum: 0,
+    positives: 0
+  }));
+
+  for (const prediction of predictions) {
+    const index = Math.min(bins - 1, Math.max(0, Math.floor(prediction.probability * bins)));
+    buckets[index].count++;
+    buckets[index].predictedSum += prediction.probability;
+    buckets[index].positives += prediction.outcome ? 1 : 0;
+  }
+
+  return buckets
+    .filter(bucket => bucket.count > 0)
+    .map(bucket => ({
+      lower: bucket.lower,
+      upper: bucket.upper,
+      count: bucket.count,
+      meanPredicted: bucket.predictedSum / bucket.count,
+      observedRate: bucket.positives / bucket.count
+    }));
+}
+
+export function evaluateCalibration(predictions: ProbabilityOutcome[], bins: number = 10): CalibrationReport {
+  return {
+    sampleSize: predictions.length,
+    baseRate: predictions.length > 0 ? predictions.filter(p => p.outcome).length / predictions.length : 0,
+    brierScore: brierScore(predictions),
+    reliability: reliabilityDiagram(predictions, bins)
+  };
+}
+
+function baseRate(samples: CalibrationSample[]): number {
+  return samples.length > 0 ? samples.filter(s => s.outcome).length / samples.length : 0;
+}
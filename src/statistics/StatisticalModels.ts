@@ -1,4 +1,5 @@
 import { logger } from '../utils/logger';
+import { MarketRegime } from '../types';
 
 /**
  * Robust statistical models for anomaly detection and signal validation
@@ -32,6 +33,7 @@ export interface ZScoreResult {
   isAnomaly: boolean;
   confidenceLevel: number;
   standardError: number;
+  baseline?: 'regime' | 'time_of_day' | 'overall'; // Which baseline the value was compared against
 }
 
 export interface TrendAnalysis {
@@ -51,6 +53,37 @@ export interface VolatilityMetrics {
   volatilityRatio: number; // Current vs historical
 }
 
+// Per-market buffers and EWMAs, serialized for checkpoints
+export interface StatisticalModelsMarketState {
+  buffers: Record<string, number[]>;        // Keyed by metric type
+  ewma: Record<string, number>;
+  regimeBuffers: Record<string, number[]>;  // Keyed by metric type and regime
+}
+
+const METRIC_TYPES: Array<'price' | 'volume' | 'spread' | 'depth' | 'imbalance'> = ['price', 'volume', 'spread', 'depth', 'imbalance'];
+
+const FINAL_48H_MS = 48 * 60 * 60 * 1000;
+const FINAL_WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Regime of a market at `timestamp`: distance to its close time and weekday/weekend (UTC).
+ * The structural-break epoch is tracked by the caller.
+ */
+export function classifyRegime(timestamp: number, closeTime?: number, epoch: number = 0): MarketRegime {
+  let timeToClose: MarketRegime['timeToClose'] = 'unknown';
+  if (closeTime !== undefined && Number.isFinite(closeTime)) {
+    const remaining = closeTime - timestamp;
+    timeToClose = remaining <= FINAL_48H_MS ? 'final_48h' : remaining <= FINAL_WEEK_MS ? 'final_week' : 'long_dated';
+  }
+
+  const day = new Date(timestamp).getUTCDay();
+  return { timeToClose, dayType: day === 0 || day === 6 ? 'weekend' : 'weekday', epoch };
+}
+
+export function regimeKey(regime: MarketRegime): string {
+  return `${regime.timeToClose}:${regime.dayType}:${regime.epoch}`;
+}
+
 export class RingBuffer<T> {
   private buffer: T[] = [];
   private pointer = 0;
@@ -116,8 +149,11 @@ export class StatisticalModels {
   private depthEWMA = new Map<string, number>();
   private imbalanceEWMA = new Map<string, number>();
 
-  // Baseline calculations storage
-  private timeOfDayBaselines = new Map<string, Map<number, StatisticalMetrics>>();
+  // Baseline calculations storage, keyed by hour and metric type (and regime for regime baselines)
+  private timeOfDayBaselines = new Map<string, Map<string, StatisticalMetrics>>();
+
+  // Regime-segmented buffers, keyed by market, metric type and regime
+  private regimeBuffers = new Map<string, RingBuffer<number>>();
 
   constructor(config: StatisticalConfig) {
     this.config = config;
@@ -125,9 +161,10 @@ export class StatisticalModels {
   }
 
   /**
-   * Add a data point for statistical tracking
+   * Add a data point for statistical tracking. With a regime the point also
+   * goes into that regime's baseline.
    */
-  addDataPoint(marketId: string, type: 'price' | 'volume' | 'spread' | 'depth' | 'imbalance', value: number): void {
+  addDataPoint(marketId: string, type: 'price' | 'volume' | 'spread' | 'depth' | 'imbalance', value: number, regime?: MarketRegime): void {
     const bufferMap = this.getBufferMap(type);
     const ewmaMap = this.getEWMAMap(type);
 
@@ -142,6 +179,31 @@ export class StatisticalModels {
     const currentEWMA = ewmaMap.get(marketId) || value;
     const newEWMA = this.config.ewmaAlpha * value + (1 - this.config.ewmaAlpha) * currentEWMA;
     ewmaMap.set(marketId, newEWMA);
+
+    if (regime) {
+      const key = this.regimeBufferKey(marketId, type, regime);
+      if (!this.regimeBuffers.has(key)) {
+        this.regimeBuffers.set(key, new RingBuffer<number>(this.config.windowSize));
+      }
+      this.regimeBuffers.get(key)!.push(value);
+    }
+  }
+
+  /**
+   * Drop a market's regime baselines, e.g. after a structural break makes them stale
+   */
+  clearRegimeBaselines(marketId: string): void {
+    const prefix = `${marketId}|`;
+    for (const key of Array.from(this.regimeBuffers.keys())) {
+      if (key.startsWith(prefix)) this.regimeBuffers.delete(key);
+    }
+
+    const marketBaselines = this.timeOfDayBaselines.get(marketId);
+    if (marketBaselines) {
+      for (const key of Array.from(marketBaselines.keys())) {
+        if (key.split('|').length > 2) marketBaselines.delete(key);
+      }
+    }
   }
 
   /**
@@ -203,49 +265,35 @@ export class StatisticalModels {
     }
 
     const data = buffer.getAll();
-    const stats = this.calculateStatistics(data);
-
-    if (stats.standardDeviation === 0) {
-      return {
-        zScore: 0,
-        pValue: 1,
-        isAnomaly: false,
-        confidenceLevel: 0,
-        standardError: 0
-      };
-    }
-
-    const zScore = (currentValue - stats.mean) / stats.standardDeviation;
-    const standardError = stats.standardDeviation / Math.sqrt(stats.sampleSize);
-    
-    // Calculate p-value using standard normal distribution approximation
-    const pValue = 2 * (1 - this.normalCDF(Math.abs(zScore)));
-    
-    // Determine if it's an anomaly based on threshold
-    const isAnomaly = Math.abs(zScore) > this.config.outlierThreshold;
-    
-    // Calculate confidence level
-    const confidenceLevel = 1 - pValue;
-
-    return {
-      zScore,
-      pValue,
-      isAnomaly,
-      confidenceLevel,
-      standardError
-    };
+    return { ...this.zScoreAgainst(this.calculateStatistics(data), currentValue), baseline: 'overall' };
   }
 
   /**
-   * Calculate time-of-day adjusted Z-score for better baseline comparison
+   * Calculate time-of-day adjusted Z-score for better baseline comparison.
+   * With a regime, the same hour within the regime is preferred, then the
+   * regime as a whole; both need minSampleSize points before they are used.
    */
   calculateTimeAdjustedZScore(
     marketId: string, 
     type: 'price' | 'volume' | 'spread' | 'depth' | 'imbalance', 
     currentValue: number,
-    timestamp: number
+    timestamp: number,
+    regime?: MarketRegime
   ): ZScoreResult {
     const hourOfDay = new Date(timestamp).getUTCHours();
+
+    if (regime) {
+      const hourlyRegimeBaseline = this.getTimeOfDayBaseline(marketId, hourOfDay, type, regime);
+      if (hourlyRegimeBaseline && hourlyRegimeBaseline.isStatisticallySignificant) {
+        return { ...this.zScoreAgainst(hourlyRegimeBaseline, currentValue), baseline: 'regime' };
+      }
+
+      const regimeBuffer = this.regimeBuffers.get(this.regimeBufferKey(marketId, type, regime));
+      if (regimeBuffer && regimeBuffer.length() >= this.config.minSampleSize) {
+        return { ...this.zScoreAgainst(this.calculateStatistics(regimeBuffer.getAll()), currentValue), baseline: 'regime' };
+      }
+    }
+
     const timeBaseline = this.getTimeOfDayBaseline(marketId, hourOfDay, type);
 
     if (!timeBaseline || !timeBaseline.isStatisticallySignificant) {
@@ -253,22 +301,7 @@ export class StatisticalModels {
       return this.calculateZScore(marketId, type, currentValue);
     }
 
-    const zScore = timeBaseline.standardDeviation > 0 
-      ? (currentValue - timeBaseline.mean) / timeBaseline.standardDeviation 
-      : 0;
-
-    const standardError = timeBaseline.standardDeviation / Math.sqrt(timeBaseline.sampleSize);
-    const pValue = 2 * (1 - this.normalCDF(Math.abs(zScore)));
-    const isAnomaly = Math.abs(zScore) > this.config.outlierThreshold;
-    const confidenceLevel = 1 - pValue;
-
-    return {
-      zScore,
-      pValue,
-      isAnomaly,
-      confidenceLevel,
-      standardError
-    };
+    return { ...this.zScoreAgainst(timeBaseline, currentValue), baseline: 'time_of_day' };
   }
 
   /**
@@ -384,9 +417,10 @@ export class StatisticalModels {
   }
 
   /**
-   * Update time-of-day baselines for better anomaly detection
+   * Update time-of-day baselines for better anomaly detection. With a regime
+   * the baseline is built from that regime's data only.
    */
-  updateTimeOfDayBaselines(marketId: string, timestamp: number): void {
+  updateTimeOfDayBaselines(marketId: string, timestamp: number, regime?: MarketRegime): void {
     const hourOfDay = new Date(timestamp).getUTCHours();
     
     if (!this.timeOfDayBaselines.has(marketId)) {
@@ -399,12 +433,13 @@ export class StatisticalModels {
     const types: Array<'price' | 'volume' | 'spread' | 'depth' | 'imbalance'> = ['price', 'volume', 'spread', 'depth', 'imbalance'];
     
     for (const type of types) {
-      const buffer = this.getBufferMap(type).get(marketId);
+      const buffer = regime
+        ? this.regimeBuffers.get(this.regimeBufferKey(marketId, type, regime))
+        : this.getBufferMap(type).get(marketId);
       if (buffer && buffer.length() >= this.config.minSampleSize) {
         const hourlyData = this.extractHourlyData(buffer, hourOfDay);
         if (hourlyData.length >= this.config.minSampleSize) {
-          const key = hourOfDay * 1000 + types.indexOf(type); // Composite key
-          marketBaselines.set(key, this.calculateStatistics(hourlyData));
+          marketBaselines.set(this.timeOfDayKey(hourOfDay, type, regime), this.calculateStatistics(hourlyData));
         }
       }
     }
@@ -449,8 +484,50 @@ export class StatisticalModels {
     return validMetrics > 0 ? totalScore / validMetrics : 0;
   }
 
+  /**
+   * Snapshot of a market's buffers and EWMAs, or null when nothing is tracked
+   */
+  exportMarketState(marketId: string): StatisticalModelsMarketState | null {
+    const state: StatisticalModelsMarketState = { buffers: {}, ewma: {}, regimeBuffers: {} };
+
+    for (const type of METRIC_TYPES) {
+      const buffer = this.getBufferMap(type).get(marketId);
+      if (buffer && buffer.length() > 0) state.buffers[type] = buffer.getAll();
+      const ewma = this.getEWMAMap(type).get(marketId);
+      if (ewma !== undefined) state.ewma[type] = ewma;
+    }
+
+    const prefix = `${marketId}|`;
+    for (const [key, buffer] of this.regimeBuffers) {
+      if (key.startsWith(prefix)) state.regimeBuffers[key.slice(prefix.length)] = buffer.getAll();
+    }
+
+    return Object.keys(state.buffers).length > 0 ? state : null;
+  }
+
+  /**
+   * Restore a market's buffers and EWMAs from exportMarketState
+   */
+  importMarketState(marketId: string, state: StatisticalModelsMarketState): void {
+    for (const type of METRIC_TYPES) {
+      const values = state.buffers[type];
+      if (values) this.getBufferMap(type).set(marketId, this.toRingBuffer(values));
+      if (state.ewma[type] !== undefined) this.getEWMAMap(type).set(marketId, state.ewma[type]);
+    }
+
+    for (const [key, values] of Object.entries(state.regimeBuffers || {})) {
+      this.regimeBuffers.set(`${marketId}|${key}`, this.toRingBuffer(values));
+    }
+  }
+
   // Private helper methods
 
+  private toRingBuffer(values: number[]): RingBuffer<number> {
+    const buffer = new RingBuffer<number>(this.config.windowSize);
+    for (const value of values.slice(-this.config.windowSize)) buffer.push(value);
+    return buffer;
+  }
+
   private getBufferMap(type: string): Map<string, RingBuffer<number>> {
     switch (type) {
       case 'price': return this.priceBuffers;
@@ -623,13 +700,56 @@ export class StatisticalModels {
     return Math.sqrt(sum / opens.length * 252); // Annualized
   }
 
-  private getTimeOfDayBaseline(marketId: string, hourOfDay: number, type: 'price' | 'volume' | 'spread' | 'depth' | 'imbalance'): StatisticalMetrics | null {
+  private getTimeOfDayBaseline(
+    marketId: string,
+    hourOfDay: number,
+    type: 'price' | 'volume' | 'spread' | 'depth' | 'imbalance',
+    regime?: MarketRegime
+  ): StatisticalMetrics | null {
     const marketBaselines = this.timeOfDayBaselines.get(marketId);
     if (!marketBaselines) return null;
     
-    const types: Array<'price' | 'volume' | 'spread' | 'depth' | 'imbalance'> = ['price', 'volume', 'spread', 'depth', 'imbalance'];
-    const key = hourOfDay * 1000 + types.indexOf(type);
-    return marketBaselines.get(key) || null;
+    return marketBaselines.get(this.timeOfDayKey(hourOfDay, type, regime)) || null;
+  }
+
+  private timeOfDayKey(hourOfDay: number, type: string, regime?: MarketRegime): string {
+    return regime ? `${hourOfDay}|${type}|${regimeKey(regime)}` : `${hourOfDay}|${type}`;
+  }
+
+  private regimeBufferKey(marketId: string, type: string, regime: MarketRegime): string {
+    return `${marketId}|${type}|${regimeKey(regime)}`;
+  }
+
+  private zScoreAgainst(stats: StatisticalMetrics, currentValue: number): ZScoreResult {
+    if (stats.standardDeviation === 0) {
+      return {
+        zScore: 0,
+        pValue: 1,
+        isAnomaly: false,
+        confidenceLevel: 0,
+        standardError: 0
+      };
+    }
+
+    const zScore = (currentValue - stats.mean) / stats.standardDeviation;
+    const standardError = stats.standardDeviation / Math.sqrt(stats.sampleSize);
+    
+    // Calculate p-value using standard normal distribution approximation
+    const pValue = 2 * (1 - this.normalCDF(Math.abs(zScore)));
+    
+    // Determine if it's an anomaly based on threshold
+    const isAnomaly = Math.abs(zScore) > this.config.outlierThreshold;
+    
+    // Calculate confidence level
+    const confidenceLevel = 1 - pValue;
+
+    return {
+      zScore,
+      pValue,
+      isAnomaly,
+      confidenceLevel,
+      standardError
+    };
   }
 
   private extractHourlyData(buffer: RingBuffer<number>, targetHour: number): number[] {
@@ -0,0 +1,255 @@
+/**
+ * Text clustering for market questions: TF-IDF vectors, cosine similarity and
+ * average-linkage agglomerative clustering.
+ *
+ * Vectors are sparse (term -> weight) and L2-normalized, so cosine similarity is
+ * a dot product. Terms are unigrams plus bigrams of adjacent non-stopwords, which
+ * keeps phrases like "rate cut" or "world cup" together.
+ */
+
+export type SparseVector = Map<string, number>;
+
+export interface TfIdfModel {
+  idf: Record<string, number>;
+  documentCount: number;
+}
+
+export interface TfIdfOptions {
+  minDocumentFrequency: number;    // Terms in fewer documents are dropped as noise
+  maxDocumentFrequency: number;    // Fraction of documents above which a term is too common to separate topics
+}
+
+const DEFAULT_TFIDF_OPTIONS: TfIdfOptions = {
+  minDocumentFrequency: 2,
+  maxDocumentFrequency: 0.5
+};
+
+// Question boilerplate and generic words that say nothing about the topic
+const STOPWORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by', 'can', 'could', 'did', 'do',
+  'does', 'doing', 'down', 'during', 'each', 'end', 'ends', 'few', 'for', 'from', 'further', 'had', 'has',
+  'have', 'having', 'he', 'her', 'here', 'hers', 'him', 'his', 'how', 'if', 'in', 'into', 'is', 'it', 'its',
+  'itself', 'just', 'least', 'less', 'market', 'markets', 'may', 'more', 'most', 'no', 'nor', 'not', 'of',
+  'off', 'on', 'once', 'only', 'or', 'other', 'our', 'out', 'over', 'own', 'per', 'price', 'resolve',
+  'resolves', 'resolved', 'resolution', 'same', 'she', 'should', 'so', 'some', 'such', 'than', 'that',
+  'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'too',
+  'under', 'until', 'up', 'very', 'was', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom',
+  'why', 'will', 'with', 'would', 'yes', 'you', 'your', 'reach', 'hit', 'happen', 'win', 'wins',
+  'january', 'february', 'march', 'april', 'june', 'july', 'august', 'september', 'october',
+  'november', 'december', 'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov',
+  'dec', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday', 'week', 'month',
+  'year', 'day', 'today', 'tomorrow', 'et', 'pm', 'utc'
+]);
+
+/**
+ * Lowercase words and bigrams; numbers are kept only when they look like years
+ */
+export function tokenize(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .replace(/[’']s\b/g, '')
+    .split(/[^a-z0-9&]+/)
+    .filter(word => word.length > 1 && (!/^\d+$/.test(word) || /^(19|20)\d\d$/.test(word)));
+
+  const tokens: string[] = [];
+  let previous: string | null = null;
+  for (const word of words) {
+    if (STOPWORDS.has(word)) {
+      previous = null;
+      continue;
+    }
+    tokens.push(word);
+    if (previous) tokens.push(`${previous} ${word}`);
+    previous = word;
+  }
+
+  return tokens;
+}
+
+/**
+ * Fit IDF weights on a corpus and return the normalized TF-IDF vector of each document
+ */
+export function buildTfIdf(
+  documents: string[],
+  options: Partial<TfIdfOptions> = {}
+): { model: TfIdfModel; vectors: SparseVector[] } {
+  const { minDocumentFrequency, maxDocumentFrequency } = { ...DEFAULT_TFIDF_OPTIONS, ...options };
+  const tokenized = documents.map(tokenize);
+
+  const documentFrequency = new Map<string, number>();
+  for (const tokens of tokenized) {
+    for (const term of new Set(tokens)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  const maxCount = Math.max(minDocumentFrequency, maxDocumentFrequency * documents.length);
+  const idf: Record<string, number> = {};
+  for (const [term, count] of documentFrequency) {
+    if (count < minDocumentFrequency || count > maxCount) continue;
+    // Smoothed IDF, always positive
+    idf[term] = Math.log((1 + documents.length) / (1 + count)) + 1;
+  }
+
+  const model: TfIdfModel = { idf, documentCount: documents.length };
+  return { model, vectors: tokenized.map(tokens => weigh(model, tokens)) };
+}
+
+/**
+ * TF-IDF vector of a new document under a fitted model; unknown terms are ignored
+ */
+export function vectorize(model: TfIdfModel, text: string): SparseVector {
+  return weigh(model, tokenize(text));
+}
+
+export function cosineSimilarity(a: SparseVector, b: SparseVector): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  for (const [term, weight] of small) {
+    const other = large.get(term);
+    if (other !== undefined) dot += weight * other;
+  }
+  return dot;
+}
+
+/**
+ * Normalized mean of vectors
+ */
+export function centroid(vectors: SparseVector[]): SparseVector {
+  const sum: SparseVector = new Map();
+  for (const vector of vectors) {
+    for (const [term, weight] of vector) {
+      sum.set(term, (sum.get(term) || 0) + weight);
+    }
+  }
+  return normalize(sum);
+}
+
+/**
+ * Highest-weighted terms, preferring a bigram over the unigrams it contains when
+ * it carries most of their weight ("solana etf" rather than "solana" and "etf")
+ */
+export function topTerms(vector: SparseVector, count: number): string[] {
+  const ranked = Array.from(vector.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  const bigrams = ranked.filter(([term]) => term.includes(' '));
+  const terms: string[] = [];
+
+  for (const [term, weight] of ranked) {
+    if (terms.length >= count) break;
+
+    const phrase = term.includes(' ')
+      ? term
+      : bigrams.find(([bigram, bigramWeight]) => bigram.split(' ').includes(term) && bigramWeight >= 0.75 * weight)?.[0] || term;
+
+    const words = phrase.split(' ');
+    if (terms.some(existing => existing.split(' ').some(word => words.includes(word)))) continue;
+    terms.push(phrase);
+  }
+
+  return terms;
+}
+
+/**
+ * Average-linkage agglomerative clustering on cosine similarity. Merges the two
+ * most similar clusters until no pair is at least `threshold` similar. Returns
+ * the member indices of clusters with at least `minClusterSize` documents.
+ */
+export function agglomerativeCluster(
+  vectors: SparseVector[],
+  threshold: number,
+  minClusterSize: number = 2
+): number[][] {
+  const n = vectors.length;
+  if (n === 0) return [];
+
+  // Dense similarity matrix, updated in place with the Lance-Williams average-linkage rule
+  const similarity = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const value = cosineSimilarity(vectors[i], vectors[j]);
+      similarity[i * n + j] = value;
+      similarity[j * n + i] = value;
+    }
+  }
+
+  const members: number[][] = vectors.map((_, i) => [i]);
+  const active = new Array<boolean>(n).fill(true);
+
+  // Cached most-similar neighbour of each cluster; rows are only rescanned when their neighbour changes
+  const bestNeighbour = new Int32Array(n).fill(-1);
+  const bestSimilarity = new Float64Array(n).fill(-Infinity);
+  const rescan = (i: number) => {
+    bestNeighbour[i] = -1;
+    bestSimilarity[i] = -Infinity;
+    for (let j = 0; j < n; j++) {
+      if (j !== i && active[j] && similarity[i * n + j] > bestSimilarity[i]) {
+        bestSimilarity[i] = similarity[i * n + j];
+        bestNeighbour[i] = j;
+      }
+    }
+  };
+  for (let i = 0; i < n; i++) rescan(i);
+
+  for (;;) {
+    let a = -1;
+    for (let i = 0; i < n; i++) {
+      if (active[i] && bestNeighbour[i] >= 0 && (a < 0 || bestSimilarity[i] > bestSimilarity[a])) a = i;
+    }
+    if (a < 0 || bestSimilarity[a] < threshold) break;
+
+    const b = bestNeighbour[a];
+    const sizeA = members[a].length;
+    const sizeB = members[b].length;
+
+    // Merge b into a
+    for (let k = 0; k < n; k++) {
+      if (!active[k] || k === a || k === b) continue;
+      const merged = (sizeA * similarity[a * n + k] + sizeB * similarity[b * n + k]) / (sizeA + sizeB);
+      similarity[a * n + k] = merged;
+      similarity[k * n + a] = merged;
+    }
+    members[a] = members[a].concat(members[b]);
+    members[b] = [];
+    active[b] = false;
+
+    rescan(a);
+    for (let k = 0; k < n; k++) {
+      if (!active[k] || k === a) continue;
+      if (bestNeighbour[k] === a || bestNeighbour[k] === b) {
+        rescan(k);
+      } else if (similarity[k * n + a] > bestSimilarity[k]) {
+        bestSimilarity[k] = similarity[k * n + a];
+        bestNeighbour[k] = a;
+      }
+    }
+  }
+
+  return members
+    .filter((group, i) => active[i] && group.length >= minClusterSize)
+    .map(group => group.sort((x, y) => x - y));
+}
+
+function weigh(model: TfIdfModel, tokens: string[]): SparseVector {
+  const counts = new Map<string, number>();
+  for (const token of tokens) {
+    if (model.idf[token] !== undefined) counts.set(token, (counts.get(token) || 0) + 1);
+  }
+
+  const vector: SparseVector = new Map();
+  for (const [term, count] of counts) {
+    vector.set(term, (1 + Math.log(count)) * model.idf[term]);
+  }
+  return normalize(vector);
+}
+
+function normalize(vector: SparseVector): SparseVector {
+  let norm = 0;
+  for (const weight of vector.values()) norm += weight * weight;
+  norm = Math.sqrt(norm);
+  if (norm === 0) return vector;
+
+  const normalized: SparseVector = new Map();
+  for (const [term, weight] of vector) normalized.set(term, weight / norm);
+  return normalized;
+}
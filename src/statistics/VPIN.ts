@@ -0,0 +1,200 @@
+import { TickData } from '../types';
+
+/**
+ * Volume-synchronized probability of informed trading (VPIN).
+ *
+ * Trades are grouped into time bars and each bar's volume is split into buys
+ * and sells by bulk-volume classification: the buy fraction is
+ * Phi(bar price change / sigma of recent bar price changes). Classified volume
+ * fills equal-volume buckets, and VPIN is the mean absolute buy/sell imbalance
+ * over the most recent buckets. Sampling in volume time means VPIN rises when
+ * one-sided (informed) flow dominates, however fast the market is trading.
+ *
+ * A bar is classified when the first trade after it arrives, so VPIN lags the
+ * tape by up to one bar.
+ */
+
+export interface VPINConfig {
+  bucketVolume: number;   // Notional (price * size) per bucket
+  bucketCount: number;    // Buckets averaged into VPIN
+  barMs: number;          // Time bar for bulk-volume classification
+  sigmaBars: number;      // Recent bar price changes used for sigma
+  minBuckets: number;     // Completed buckets before VPIN is reported
+}
+
+export interface VPINResult {
+  marketId: string;
+  timestamp: number;
+  vpin: number;
+  buckets: number;                // Completed buckets averaged (at most bucketCount)
+  bucketVolume: number;
+  lastBucketImbalance: number;    // Signed (buy - sell) / bucketVolume of the latest bucket
+}
+
+// Per-market state, serializable for checkpoints
+export interface VPINMarketState {
+  barStart: number;
+  barClose: number;               // Last trade price in the open bar
+  barVolume: number;
+  lastClose: number;              // Close of the previous bar
+  priceChanges: number[];
+  bucketBuy: number;
+  bucketSell: number;
+  imbalances: number[];           // Signed, one per completed bucket, oldest first
+  lastUpdate: number;
+}
+
+const DEFAULT_CONFIG: VPINConfig = {
+  bucketVolume: 500,
+  bucketCount: 50,
+  barMs: 60000,                   // 1 minute
+  sigmaBars: 100,
+  minBuckets: 10
+};
+
+/**
+ * Share of a bar's volume classified as buys
+ */
+export function bulkVolumeBuyFraction(priceChange: number, sigma: number): number {
+  if (sigma <= 0) {
+    return priceChange > 0 ? 1 : priceChange < 0 ? 0 : 0.5;
+  }
+  return normalCDF(priceChange / sigma);
+}
+
+export class VPINCalculator {
+  private config: VPINConfig;
+  private markets: Map<string, VPINMarketState> = new Map();
+
+  constructor(config: Partial<VPINConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Add a trade. Returns the updated VPIN when the trade closed a bar that
+   * completed at least one bucket and enough buckets have filled, else null.
+   */
+  addTrade(tick: TickData): VPINResult | null {
+    const barStart = Math.floor(tick.timestamp / this.config.barMs) * this.config.barMs;
+    let state = this.markets.get(tick.marketId);
+
+    if (!state) {
+      state = {
+        barStart,
+        barClose: tick.price,
+        barVolume: 0,
+        lastClose: tick.price,
+        priceChanges: [],
+        bucketBuy: 0,
+        bucketSell: 0,
+        imbalances: [],
+        lastUpdate: tick.timestamp
+      };
+      this.markets.set(tick.marketId, state);
+    }
+
+    let completedBuckets = 0;
+    if (barStart > state.barStart) {
+      completedBuckets = this.closeBar(state);
+      state.barStart = barStart;
+      state.barVolume = 0;
+    }
+
+    state.barClose = tick.price;
+    state.barVolume += tick.price * tick.size; // Notional; live tick.volume is in shares
+    state.lastUpdate = tick.timestamp;
+
+    return completedBuckets > 0 ? this.getVPIN(tick.marketId) : null;
+  }
+
+  getVPIN(marketId: string): VPINResult | null {
+    const state = this.markets.get(marketId);
+    if (!state || state.imbalances.length < this.config.minBuckets) return null;
+
+    const vpin = state.imbalances.reduce((sum, imbalance) => sum + Math.abs(imbalance), 0) / state.imbalances.length;
+    return {
+      marketId,
+      timestamp: state.lastUpdate,
+      vpin,
+      buckets: state.imbalances.length,
+      bucketVolume: this.config.bucketVolume,
+      lastBucketImbalance: state.imbalances[state.imbalances.length - 1]
+    };
+  }
+
+  getMarketIds(): string[] {
+    return Array.from(this.markets.keys());
+  }
+
+  exportMarketState(marketId: string): VPINMarketState | null {
+    const state = this.markets.get(marketId);
+    return state ? { ...state, priceChanges: [...state.priceChanges], imbalances: [...state.imbalances] } : null;
+  }
+
+  importMarketState(marketId: string, state: VPINMarketState): void {
+    this.markets.set(marketId, {
+      ...state,
+      priceChanges: state.priceChanges.slice(-this.config.sigmaBars),
+      imbalances: state.imbalances.slice(-this.config.bucketCount)
+    });
+  }
+
+  clearMarket(marketId: string): void {
+    this.markets.delete(marketId);
+  }
+
+  clear(): void {
+    this.markets.clear();
+  }
+
+  /**
+   * Get configuration
+   */
+  getConfig(): VPINConfig {
+    return { ...this.config };
+  }
+
+  // Classify the open bar and pour its volume into buckets, returning the buckets completed
+  private closeBar(state: VPINMarketState): number {
+    const priceChange = state.barClose - state.lastClose;
+    const buyFraction = bulkVolumeBuyFraction(priceChange, standardDeviation(state.priceChanges));
+
+    state.priceChanges.push(priceChange);
+    if (state.priceChanges.length > this.config.sigmaBars) state.priceChanges.shift();
+    state.lastClose = state.barClose;
+
+    let remaining = state.barVolume;
+    let completed = 0;
+    while (remaining > 0) {
+      const filled = Math.min(this.config.bucketVolume - state.bucketBuy - state.bucketSell, remaining);
+      state.bucketBuy += filled * buyFraction;
+      state.bucketSell += filled * (1 - buyFraction);
+      remaining -= filled;
+
+      if (state.bucketBuy + state.bucketSell >= this.config.bucketVolume - 1e-9) {
+        state.imbalances.push((state.bucketBuy - state.bucketSell) / this.config.bucketVolume);
+        if (state.imbalances.length > this.config.bucketCount) state.imbalances.shift();
+        state.bucketBuy = 0;
+        state.bucketSell = 0;
+        completed++;
+      }
+    }
+
+    return completed;
+  }
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+// Abramowitz and Stegun approximation of the standard normal CDF
+function normalCDF(z: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const d = 0.3989423 * Math.exp(-z * z / 2);
+  const prob = d * t * (0.3193815 + t * (-0.3565638 + t * (1.781478 + t * (-1.821256 + t * 1.330274))));
+  return z > 0 ? 1 - prob : prob;
+}
@@ -15,6 +15,13 @@ export interface Market {
   metadata?: {
     assetIds?: string[];
     conditionId?: string;
+
+    // Parent Gamma event; binary markets of one multi-outcome event share it
+    eventId?: string;
+    eventSlug?: string;
+    eventTitle?: string;
+    negRisk?: boolean;            // Outcomes are mutually exclusive (sibling Yes prices should sum to 1)
+    eventMarketCount?: number;    // Open markets in the event, including ones not monitored
     [key: string]: any;
   };
 
@@ -26,6 +33,7 @@ export interface Market {
   // Market characteristics for filtering
   outcomeCount?: number;       // Number of outcomes (2, 5, 10, etc.)
   spread?: number;             // Spread in basis points
+  impactBpsPer1k?: number;     // Measured price move from $1k of one-sided flow, in basis points
   marketAge?: number;          // Milliseconds since market creation
   timeToClose?: number;        // Milliseconds until market closes
 
@@ -44,13 +52,99 @@ export interface Market {
   scoreUpdatedAt?: number;     // When score was last calculated
 }
 
+/**
+ * A Gamma event grouping sibling binary markets (e.g. one market per candidate)
+ */
+export interface MarketEvent {
+  id: string;
+  slug?: string;
+  title: string;
+  negRisk: boolean;
+  marketIds: string[];
+  probabilitySum?: number;     // Sum of sibling Yes prices at the last update
+  updatedAt: number;
+}
+
 export interface EarlySignal {
   marketId: string;
   market: Market;
-  signalType: 'new_market' | 'volume_spike' | 'price_movement' | 'unusual_activity' | 'orderbook_imbalance' | 'spread_anomaly' | 'market_maker_withdrawal' | 'liquidity_shift' | 'aggressive_buyer' | 'aggressive_seller' | 'iceberg_detected' | 'wall_break' | 'liquidity_vacuum' | 'smart_money' | 'stop_hunt' | 'information_leak' | 'coordinated_cross_market' | 'off_hours_anomaly' | 'stealth_accumulation' | 'micro_price_drift' | 'front_running_detected';
+  signalType: 'new_market' | 'volume_spike' | 'price_movement' | 'unusual_activity' | 'orderbook_imbalance' | 'spread_anomaly' | 'market_maker_withdrawal' | 'liquidity_shift' | 'aggressive_buyer' | 'aggressive_seller' | 'iceberg_detected' | 'wall_break' | 'liquidity_vacuum' | 'smart_money' | 'stop_hunt' | 'information_leak' | 'coordinated_cross_market' | 'off_hours_anomaly' | 'stealth_accumulation' | 'micro_price_drift' | 'front_running_detected' | 'event_mispricing' | 'event_coordinated_move' | 'trade_intensity_burst';
   confidence: number;
   timestamp: number;
   metadata?: Record<string, any>;
+  configVersion?: string;        // ConfigManager version live when the signal was handled
+  provenance?: SignalProvenance; // Why the signal fired and what alerting decided, persisted with it
+}
+
+export type ProvenanceValue = number | string | boolean;
+
+// One step of AlertManager's decision: a filter gate, or how the score and priority were set
+export interface AlertCheck {
+  check: 'enabled' | 'suppression' | 'quality' | 'score' | 'priority' | 'tier' | 'rate_limit' | 'cooldown';
+  passed: boolean;
+  detail: string;
+}
+
+export interface SignalProvenance {
+  signalType: EarlySignal['signalType'];
+  source?: string;                                   // Detector, from metadata.signalSource
+  generatedAt: number;
+  configVersion: string;
+  traceId?: string;
+  inputs: Record<string, ProvenanceValue>;           // Metric values, baselines and z-scores, dotted keys
+  market: Record<string, ProvenanceValue>;           // Market snapshot when the signal was handled
+  thresholds: Record<string, ProvenanceValue>;       // DetectionThresholds in effect, dotted paths
+  alertDecision?: {
+    evaluatedAt: number;
+    shouldAlert: boolean;
+    priority: string;
+    adjustedScore: number;
+    reason: string;
+    blockedBy?: string;
+    checks: AlertCheck[];
+  };
+}
+
+// Why a detected signal never reached the alert channels
+export type SuppressionReason = 'duplicate' | 'disabled' | 'muted' | 'snoozed' | 'quality' | 'tier' | 'rate_limit' | 'cooldown';
+
+export interface SuppressedSignal {
+  marketId: string;
+  signalType: EarlySignal['signalType'];
+  stage: 'signal_detector' | 'alert_manager';
+  reason: SuppressionReason;
+  detail: string;
+  confidence: number;
+  adjustedScore?: number;      // Set by AlertManager
+  priority?: string;
+  question?: string;
+  metadata?: Record<string, any>;
+  suppressedAt: number;
+}
+
+export interface SuppressionQuery {
+  marketId?: string;
+  reason?: SuppressionReason;
+  signalType?: string;
+  since?: number;
+  until?: number;
+  limit?: number;
+}
+
+export interface SuppressionCount {
+  reason: SuppressionReason;
+  count: number;
+  markets: number;             // Distinct markets suppressed for this reason
+  lastSuppressedAt: number;
+}
+
+// Operator mute or snooze on a market's alerts
+export interface MarketSuppression {
+  marketId: string;
+  mode: 'muted' | 'snoozed';
+  until?: number; // Snooze expiry, mutes last until removed
+  createdAt: number;
+  createdBy?: string;
 }
 
 export interface BotConfig {
@@ -92,6 +186,10 @@ export interface TickData {
   volume: number;
   side: 'buy' | 'sell';
   size: number;
+  // Attribution, present on trades from the data API or a wallet trade file (not the WebSocket feed)
+  tradeId?: string;
+  traderAddress?: string;      // Lowercased wallet (proxy wallet for the data API)
+  outcomeIndex?: number;       // Outcome token traded; side is relative to this outcome
 }
 
 export interface PricePoint {
@@ -157,6 +255,36 @@ export interface AlertMessage {
   timestamp: number;
 }
 
+/**
+ * Market regime that microstructure baselines are segmented by, so z-scores compare like with like
+ */
+export interface MarketRegime {
+  timeToClose: 'final_48h' | 'final_week' | 'long_dated' | 'unknown';
+  dayType: 'weekday' | 'weekend';
+  epoch: number;               // Increments after each structural break in spread or depth
+}
+
+// Serialized per-market state of one analyzer, restored on restart instead of refilling baselines
+export interface AnalyzerCheckpoint {
+  component: string;
+  marketId: string;
+  state: unknown;
+  checkpointAt: number;
+}
+
+// Wallet track record from its trades in resolved markets
+export interface WalletProfile {
+  walletAddress: string;
+  resolvedMarkets: number;
+  winningMarkets: number;      // Resolved markets where the wallet's net P&L was positive
+  hitRate: number;             // winningMarkets / resolvedMarkets
+  realizedPnl: number;         // Dollars, trades marked to settlement payouts
+  resolvedVolume: number;      // Dollars traded in resolved markets
+  firstTradeAt?: number;
+  lastTradeAt?: number;
+  updatedAt: number;
+}
+
 // New interfaces for information leakage detection
 export interface EnhancedMicrostructureMetrics {
   marketId: string;
@@ -193,6 +321,12 @@ export interface EnhancedMicrostructureMetrics {
     spread: number;
     imbalance: number;
   };
+
+  // Regime the baselines and z-scores above were taken from
+  regime?: MarketRegime;
+
+  // Flow toxicity (VPIN) from trade volume buckets, once enough buckets have filled
+  vpin?: number;
 }
 
 export interface LeakDetectionSignal {
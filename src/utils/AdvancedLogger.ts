@@ -2,6 +2,7 @@ import { logger as baseLogger } from './logger';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import fetch from 'node-fetch';
+import { tracer } from '../monitoring/Tracer';
 
 export interface LogContext {
   component?: string;
@@ -9,7 +10,7 @@ export interface LogContext {
   marketId?: string;
   signalType?: string;
   userId?: string;
-  requestId?: string;
+  requestId?: string;           // Trace id of the active span when logged inside a trace
   duration?: number;
   status?: string;
   metadata?: Record<string, any>;
@@ -146,14 +147,16 @@ export class AdvancedLogger {
     context?: LogContext
   ): Promise<T> {
     const startTime = Date.now();
-    const requestId = this.generateRequestId();
+    const requestId = tracer.getCurrentTraceId() ?? this.generateRequestId();
     
     this.pushContext({ ...context, operation: operationName, requestId });
     
     try {
       this.info(`Starting operation: ${operationName}`, { requestId });
       
-      const result = await operation();
+      const result = await tracer.withChildSpan(operationName, operation, {
+        component: context?.component
+      });
       const duration = Date.now() - startTime;
       
       this.recordMetric({
@@ -361,7 +364,9 @@ export class AdvancedLogger {
   // Private methods
 
   private log(level: 'info' | 'warn' | 'error', message: string, context?: LogContext): void {
+    const traceId = tracer.getCurrentTraceId();
     const enrichedContext = {
+      ...(traceId ? { requestId: traceId } : {}),
       ...this.getCurrentContext(),
       ...context,
       timestamp: new Date().toISOString()
@@ -0,0 +1,58 @@
+/**
+ * Process-wide time source for the detection stack.
+ *
+ * Detectors read the current time through `clock.now()` instead of `Date.now()`
+ * so an offline backtest can drive them with the timestamps of the recorded
+ * data. Live code never touches this and gets wall-clock time.
+ */
+export interface TimeSource {
+  now(): number;
+}
+
+const systemTime: TimeSource = {
+  now: () => Date.now(),
+};
+
+/**
+ * Manually advanced clock used by event-driven backtests.
+ * Time only moves forward so out-of-order rows cannot rewind the detectors.
+ */
+export class SimulatedClock implements TimeSource {
+  private current: number;
+
+  constructor(startTime: number = 0) {
+    this.current = startTime;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  advanceTo(timestamp: number): void {
+    if (timestamp > this.current) {
+      this.current = timestamp;
+    }
+  }
+}
+
+class Clock {
+  private source: TimeSource = systemTime;
+
+  now(): number {
+    return this.source.now();
+  }
+
+  use(source: TimeSource): void {
+    this.source = source;
+  }
+
+  useSystemTime(): void {
+    this.source = systemTime;
+  }
+
+  isSimulated(): boolean {
+    return this.source !== systemTime;
+  }
+}
+
+export const clock = new Clock();